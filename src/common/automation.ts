@@ -0,0 +1,110 @@
+import {
+  AutomationActionType,
+  AutomationCondition,
+  AutomationField,
+  AutomationOperator,
+  AutomationTrigger,
+  TodoItem,
+} from './types';
+import { DEFAULT_PROJECT_ID } from './constants';
+
+export const AUTOMATION_TRIGGER_LABELS: Record<AutomationTrigger, string> = {
+  [AutomationTrigger.CREATED]: 'Item created',
+  [AutomationTrigger.STATUS_CHANGED]: 'Status changed',
+  [AutomationTrigger.PRIORITY_CHANGED]: 'Priority changed',
+  [AutomationTrigger.DUE_DATE_PASSED]: 'Due date passed',
+};
+
+export const AUTOMATION_FIELD_LABELS: Record<AutomationField, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  tags: 'Tags',
+  complianceStandards: 'Standards',
+  controls: 'Controls',
+  projectId: 'Project',
+  title: 'Title',
+};
+
+export const AUTOMATION_OPERATOR_LABELS: Record<AutomationOperator, string> =
+  {
+    [AutomationOperator.EQUALS]: 'is',
+    [AutomationOperator.NOT_EQUALS]: 'is not',
+    [AutomationOperator.IN]: 'is any of',
+    [AutomationOperator.NOT_IN]: 'is none of',
+    [AutomationOperator.CONTAINS]: 'contains',
+    [AutomationOperator.IS_SET]: 'is set',
+    [AutomationOperator.IS_NOT_SET]: 'is not set',
+  };
+
+export const AUTOMATION_ACTION_LABELS: Record<AutomationActionType, string> = {
+  [AutomationActionType.SET_FIELD]: 'Set field',
+  [AutomationActionType.ADD_TAG]: 'Add tag',
+  [AutomationActionType.ASSIGN]: 'Assign',
+  [AutomationActionType.ARCHIVE]: 'Archive',
+  [AutomationActionType.CREATE_FOLLOW_UP]: 'Create follow-up',
+};
+
+/**
+ * Whether the operator compares with a list of values
+ */
+export const isListOperator = (operator: AutomationOperator): boolean =>
+  operator === AutomationOperator.IN || operator === AutomationOperator.NOT_IN;
+
+/**
+ * Whether the operator compares with no value at all
+ */
+export const isValuelessOperator = (operator: AutomationOperator): boolean =>
+  operator === AutomationOperator.IS_SET ||
+  operator === AutomationOperator.IS_NOT_SET;
+
+// Values of a field as a list; unset and empty fields have none
+const getFieldValues = (todo: TodoItem, field: AutomationField): string[] => {
+  const value =
+    field === 'projectId' ? todo.projectId || DEFAULT_PROJECT_ID : todo[field];
+  if (value == null || value === '') {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+const asList = (value?: string | string[]): string[] =>
+  value == null ? [] : Array.isArray(value) ? value : [value];
+
+export const matchesCondition = (
+  todo: TodoItem,
+  { field, operator, value }: AutomationCondition
+): boolean => {
+  const values = getFieldValues(todo, field);
+  const expected = asList(value);
+
+  switch (operator) {
+    case AutomationOperator.EQUALS:
+      return values.includes(expected[0]);
+    case AutomationOperator.NOT_EQUALS:
+      return !values.includes(expected[0]);
+    case AutomationOperator.IN:
+      return values.some((v) => expected.includes(v));
+    case AutomationOperator.NOT_IN:
+      return !values.some((v) => expected.includes(v));
+    case AutomationOperator.CONTAINS: {
+      const text = (expected[0] || '').toLowerCase();
+      return values.some((v) => v.toLowerCase().includes(text));
+    }
+    case AutomationOperator.IS_SET:
+      return values.length > 0;
+    case AutomationOperator.IS_NOT_SET:
+      return values.length === 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether an item meets every condition; no conditions match every item
+ */
+export const matchesConditions = (
+  todo: TodoItem,
+  conditions: AutomationCondition[]
+): boolean =>
+  conditions.every((condition) => matchesCondition(todo, condition));
@@ -1,6 +1,22 @@
 // OpenSearch index configuration
 export const TODO_INDEX_NAME = '.todo-items';
 export const TODO_INDEX_PATTERN = '.todo-items*';
+export const TODO_COMMENTS_INDEX_NAME = '.todo-comments';
+export const TODO_HISTORY_INDEX_NAME = '.todo-history';
+export const TODO_WORKFLOW_INDEX_NAME = '.todo-workflow';
+export const TODO_TEMPLATES_INDEX_NAME = '.todo-templates';
+export const TODO_SLA_INDEX_NAME = '.todo-sla';
+export const TODO_VIEWS_INDEX_NAME = '.todo-views';
+export const TODO_PROJECTS_INDEX_NAME = '.todo-projects';
+export const TODO_WEBHOOKS_INDEX_NAME = '.todo-webhooks';
+export const TODO_WEBHOOK_DELIVERIES_INDEX_NAME = '.todo-webhook-deliveries';
+export const TODO_INGESTION_INDEX_NAME = '.todo-ingestion';
+export const TODO_AUTOMATION_RULES_INDEX_NAME = '.todo-automation-rules';
+export const TODO_AUTOMATION_EXECUTIONS_INDEX_NAME =
+  '.todo-automation-executions';
+export const TODO_JOBS_INDEX_NAME = '.todo-jobs';
+export const TODO_RETENTION_INDEX_NAME = '.todo-retention';
+export const TODO_PURGES_INDEX_NAME = '.todo-purges';
 
 // API routes base path
 export const API_BASE_PATH = '/api/custom_plugin';
@@ -12,9 +28,19 @@ export const API_ROUTES = {
   TODO_BY_ID: `${API_BASE_PATH}/todos/{id}`,
   TODO_SEARCH: `${API_BASE_PATH}/todos/search`,
   TODO_STATISTICS: `${API_BASE_PATH}/todos/statistics`,
+  TODO_COVERAGE: `${API_BASE_PATH}/todos/coverage`,
+  // Import & export
+  TODO_EXPORT: `${API_BASE_PATH}/todos/export`,
+  TODO_IMPORT: `${API_BASE_PATH}/todos/import`,
+  TODO_IMPORT_PREVIEW: `${API_BASE_PATH}/todos/import/preview`,
   // Single item actions
   TODO_ARCHIVE: `${API_BASE_PATH}/todos/{id}/archive`,
   TODO_RESTORE: `${API_BASE_PATH}/todos/{id}/restore`,
+  TODO_MOVE: `${API_BASE_PATH}/todos/{id}/move`,
+  // Trash
+  TODO_TRASH: `${API_BASE_PATH}/todos/trash`,
+  TODO_TRASH_BY_ID: `${API_BASE_PATH}/todos/trash/{id}`,
+  TODO_TRASH_RESTORE: `${API_BASE_PATH}/todos/trash/{id}/restore`,
   // Bulk operations
   BULK_DELETE: `${API_BASE_PATH}/todos/bulk/delete`,
   BULK_ARCHIVE: `${API_BASE_PATH}/todos/bulk/archive`,
@@ -22,15 +48,115 @@ export const API_ROUTES = {
   BULK_STATUS: `${API_BASE_PATH}/todos/bulk/status`,
   BULK_PRIORITY: `${API_BASE_PATH}/todos/bulk/priority`,
   BULK_ASSIGN: `${API_BASE_PATH}/todos/bulk/assign`,
+  // Comments
+  TODO_COMMENTS: `${API_BASE_PATH}/todos/{id}/comments`,
+  TODO_COMMENT_BY_ID: `${API_BASE_PATH}/todos/{id}/comments/{commentId}`,
+  // History
+  TODO_HISTORY: `${API_BASE_PATH}/todos/{id}/history`,
+  // Recurring series
+  TODO_SERIES: `${API_BASE_PATH}/todos/series/{seriesId}`,
+  // Workflow
+  WORKFLOW: `${API_BASE_PATH}/workflow`,
+  // SLA policy
+  SLA_POLICY: `${API_BASE_PATH}/sla`,
+  // Templates
+  TEMPLATES: `${API_BASE_PATH}/templates`,
+  TEMPLATE_BY_ID: `${API_BASE_PATH}/templates/{id}`,
+  TEMPLATE_INSTANTIATE: `${API_BASE_PATH}/templates/{id}/instantiate`,
+  // Saved views
+  VIEWS: `${API_BASE_PATH}/views`,
+  VIEW_BY_ID: `${API_BASE_PATH}/views/{id}`,
+  VIEW_PIN: `${API_BASE_PATH}/views/{id}/pin`,
+  // Projects
+  PROJECTS: `${API_BASE_PATH}/projects`,
+  PROJECT_BY_ID: `${API_BASE_PATH}/projects/{id}`,
+  // Current user
+  MY_PERMISSIONS: `${API_BASE_PATH}/me/permissions`,
+  // User directory
+  USERS: `${API_BASE_PATH}/users`,
+  // Webhooks
+  WEBHOOKS: `${API_BASE_PATH}/webhooks`,
+  WEBHOOK_BY_ID: `${API_BASE_PATH}/webhooks/{id}`,
+  WEBHOOK_TEST: `${API_BASE_PATH}/webhooks/{id}/test`,
+  WEBHOOK_DELIVERIES: `${API_BASE_PATH}/webhooks/deliveries`,
+  // Alert ingestion
+  INGESTION: `${API_BASE_PATH}/ingestion`,
+  INGESTION_STATUS: `${API_BASE_PATH}/ingestion/status`,
+  INGESTION_RUN: `${API_BASE_PATH}/ingestion/run`,
+  // Automation rules
+  AUTOMATION_RULES: `${API_BASE_PATH}/automation/rules`,
+  AUTOMATION_RULE_BY_ID: `${API_BASE_PATH}/automation/rules/{id}`,
+  AUTOMATION_EXECUTIONS: `${API_BASE_PATH}/automation/executions`,
+  // Retention
+  RETENTION: `${API_BASE_PATH}/retention`,
+  RETENTION_PREVIEW: `${API_BASE_PATH}/retention/preview`,
+  RETENTION_PURGES: `${API_BASE_PATH}/retention/purges`,
+  // Background jobs
+  JOBS: `${API_BASE_PATH}/jobs`,
+  // Storage diagnostics
+  DIAGNOSTICS: `${API_BASE_PATH}/diagnostics`,
 } as const;
 
+// Project of the items created before projects existed
+export const DEFAULT_PROJECT_ID = 'default';
+
+// Project id that reads the items of every project the user can access
+export const ALL_PROJECTS = 'all';
+
 // Default pagination settings
 export const DEFAULT_PAGE_SIZE = 25;
 
+// Cursor that starts a cursor-paged search, which is not limited to the
+// first 10,000 items like page numbers are
+export const FIRST_PAGE_CURSOR = '*';
+
 // Default sort configuration
 export const DEFAULT_SORT_FIELD = 'createdAt';
 export const DEFAULT_SORT_ORDER = 'desc';
 
+// How often the server creates occurrences of recurring TODOs
+export const RECURRENCE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Webhook deliveries: attempts per delivery, the delay before the first
+// retry (doubled on every further one), the request timeout and how often
+// the server sends the retries that are due
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_RETRY_DELAY_MS = 60 * 1000;
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_RETRY_INTERVAL_MS = 30 * 1000;
+
+// Alert ingestion: how often the server reads new alerts, and the alerts
+// read per request and per run
+export const INGESTION_INTERVAL_MS = 60 * 1000;
+export const INGESTION_BATCH_SIZE = 500;
+export const INGESTION_MAX_ALERTS_PER_RUN = 5000;
+
+// Automation rules: how often the server looks for items whose due date
+// passed, and the overdue items it reads per check
+export const AUTOMATION_INTERVAL_MS = 5 * 60 * 1000;
+export const AUTOMATION_BATCH_SIZE = 500;
+
+// Background jobs: how often each node looks for jobs that are due, and how
+// long a node may hold a job before another node may take it over
+export const JOB_CHECK_INTERVAL_MS = 10 * 1000;
+export const JOB_LOCK_MS = 10 * 60 * 1000;
+
+// Retention: how often the server applies the policy, the items archived or
+// purged per run, and the items listed by a preview
+export const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+export const RETENTION_BATCH_SIZE = 500;
+export const RETENTION_PREVIEW_SIZE = 50;
+
+// Import limits: rows per upload and rows written per bulk request
+export const MAX_IMPORT_ROWS = 5000;
+export const IMPORT_BATCH_SIZE = 500;
+
+// Items read per scroll request of an export
+export const EXPORT_BATCH_SIZE = 500;
+
+// Values counted per facet field of a search, e.g. the most used tags
+export const FACET_SIZE = 50;
+
 // Plugin metadata
 export const PLUGIN_ID = 'customPlugin';
 export const PLUGIN_NAME = 'Security TODO Manager';
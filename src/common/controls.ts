@@ -0,0 +1,120 @@
+import { ComplianceControl, ComplianceStandard } from './types';
+
+const KEY_SEPARATOR = ':';
+
+// Requirement numbers and short titles of each standard
+const CONTROL_DEFINITIONS: Record<ComplianceStandard, Array<[string, string]>> =
+  {
+    [ComplianceStandard.PCI_DSS]: [
+      ['1.2.1', 'Network security control configuration standards'],
+      ['2.2.1', 'System configuration standards'],
+      ['3.5.1', 'Stored PAN is rendered unreadable'],
+      ['4.2.1', 'Strong cryptography for PAN in transit'],
+      ['5.2.1', 'Anti-malware deployed on system components'],
+      ['6.3.3', 'Security patches installed in time'],
+      ['7.2.1', 'Access control model defined'],
+      ['8.3.1', 'User authentication factors'],
+      ['8.4.2', 'MFA for all access into the CDE'],
+      ['10.2.1', 'Audit logs enabled and active'],
+      ['10.5.1', 'Audit log history retained for 12 months'],
+      ['11.3.1', 'Quarterly internal vulnerability scans'],
+      ['11.4.1', 'Penetration testing methodology'],
+      ['12.10.1', 'Incident response plan'],
+    ],
+    [ComplianceStandard.ISO_27001]: [
+      ['A.5.1.1', 'Policies for information security'],
+      ['A.6.1.2', 'Segregation of duties'],
+      ['A.8.1.1', 'Inventory of assets'],
+      ['A.9.2.3', 'Management of privileged access rights'],
+      ['A.9.2.5', 'Review of user access rights'],
+      ['A.9.4.2', 'Secure log-on procedures'],
+      ['A.10.1.1', 'Policy on the use of cryptographic controls'],
+      ['A.12.3.1', 'Information backup'],
+      ['A.12.4.1', 'Event logging'],
+      ['A.12.6.1', 'Management of technical vulnerabilities'],
+      ['A.16.1.5', 'Response to information security incidents'],
+      ['A.18.2.2', 'Compliance with security policies and standards'],
+    ],
+    [ComplianceStandard.SOX]: [
+      ['ITGC-AC-1', 'User access provisioning and removal'],
+      ['ITGC-AC-2', 'Periodic user access review'],
+      ['ITGC-AC-3', 'Privileged access restricted and monitored'],
+      ['ITGC-AC-4', 'Segregation of duties'],
+      ['ITGC-CM-1', 'Changes authorized, tested and approved'],
+      ['ITGC-CM-2', 'Development separated from production'],
+      ['ITGC-OP-1', 'Backup and recovery'],
+      ['ITGC-OP-2', 'Job scheduling and monitoring'],
+    ],
+    [ComplianceStandard.HIPAA]: [
+      ['164.308(a)(1)(ii)(A)', 'Risk analysis'],
+      ['164.308(a)(1)(ii)(B)', 'Risk management'],
+      ['164.308(a)(5)', 'Security awareness and training'],
+      ['164.308(a)(6)', 'Security incident procedures'],
+      ['164.308(a)(7)', 'Contingency plan'],
+      ['164.308(b)(1)', 'Business associate contracts'],
+      ['164.312(a)(1)', 'Access control'],
+      ['164.312(b)', 'Audit controls'],
+      ['164.312(c)(1)', 'Integrity of ePHI'],
+      ['164.312(e)(1)', 'Transmission security'],
+    ],
+    [ComplianceStandard.GDPR]: [
+      ['Art. 5', 'Principles of processing'],
+      ['Art. 6', 'Lawfulness of processing'],
+      ['Art. 15', 'Right of access'],
+      ['Art. 17', 'Right to erasure'],
+      ['Art. 25', 'Data protection by design and by default'],
+      ['Art. 28', 'Processor obligations'],
+      ['Art. 30', 'Records of processing activities'],
+      ['Art. 32', 'Security of processing'],
+      ['Art. 33', 'Breach notification to the authority'],
+      ['Art. 35', 'Data protection impact assessment'],
+    ],
+    [ComplianceStandard.NIST]: [
+      ['ID.AM-1', 'Physical devices and systems inventoried'],
+      ['ID.RA-1', 'Asset vulnerabilities identified'],
+      ['PR.AC-1', 'Identities and credentials managed'],
+      ['PR.AC-4', 'Least privilege access permissions'],
+      ['PR.DS-1', 'Data at rest protected'],
+      ['PR.IP-4', 'Backups conducted and tested'],
+      ['DE.CM-1', 'Network monitored'],
+      ['DE.CM-8', 'Vulnerability scans performed'],
+      ['RS.RP-1', 'Response plan executed'],
+      ['RC.RP-1', 'Recovery plan executed'],
+    ],
+  };
+
+export const getControlKey = (
+  standard: ComplianceStandard,
+  id: string
+): string => `${standard}${KEY_SEPARATOR}${id}`;
+
+/**
+ * Controls of each standard in catalog order
+ */
+export const CONTROL_CATALOG: Record<ComplianceStandard, ComplianceControl[]> =
+  Object.values(ComplianceStandard).reduce(
+    (catalog, standard) => ({
+      ...catalog,
+      [standard]: CONTROL_DEFINITIONS[standard].map(([id, title]) => ({
+        key: getControlKey(standard, id),
+        standard,
+        id,
+        title,
+      })),
+    }),
+    {} as Record<ComplianceStandard, ComplianceControl[]>
+  );
+
+const CONTROLS_BY_KEY = new Map<string, ComplianceControl>(
+  ([] as ComplianceControl[])
+    .concat(...Object.values(CONTROL_CATALOG))
+    .map((control): [string, ComplianceControl] => [control.key, control])
+);
+
+export const CONTROL_COUNT = CONTROLS_BY_KEY.size;
+
+export const getControl = (key: string): ComplianceControl | undefined =>
+  CONTROLS_BY_KEY.get(key);
+
+export const isKnownControl = (key: string): boolean =>
+  CONTROLS_BY_KEY.has(key);
@@ -0,0 +1,75 @@
+import { TodoItem } from './types';
+
+/**
+ * File formats of an export
+ */
+export type TodoExportFormat = 'csv' | 'json' | 'md';
+
+export const EXPORT_FORMATS: TodoExportFormat[] = ['csv', 'json', 'md'];
+
+/**
+ * Fields that can be exported as columns
+ */
+export type TodoExportColumn = Extract<
+  keyof TodoItem,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'tags'
+  | 'complianceStandards'
+  | 'controls'
+  | 'assignee'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'createdBy'
+  | 'updatedBy'
+  | 'plannedDate'
+  | 'dueDate'
+  | 'completedAt'
+  | 'completedBy'
+  | 'archivedAt'
+  | 'archivedBy'
+  | 'storyPoints'
+  | 'externalKey'
+>;
+
+export const EXPORT_COLUMN_LABELS: Record<TodoExportColumn, string> = {
+  id: 'ID',
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  tags: 'Tags',
+  complianceStandards: 'Compliance',
+  controls: 'Controls',
+  assignee: 'Assignee',
+  createdAt: 'Created',
+  updatedAt: 'Updated',
+  createdBy: 'Created by',
+  updatedBy: 'Updated by',
+  plannedDate: 'Planned',
+  dueDate: 'Due',
+  completedAt: 'Completed',
+  completedBy: 'Completed by',
+  archivedAt: 'Archived',
+  archivedBy: 'Archived by',
+  storyPoints: 'Story points',
+  externalKey: 'External key',
+};
+
+// Used when an export names no known column
+export const DEFAULT_EXPORT_COLUMNS: TodoExportColumn[] = [
+  'id',
+  'title',
+  'status',
+  'priority',
+  'complianceStandards',
+  'assignee',
+  'dueDate',
+  'updatedAt',
+];
+
+export const isExportColumn = (key: string): key is TodoExportColumn =>
+  Object.prototype.hasOwnProperty.call(EXPORT_COLUMN_LABELS, key);
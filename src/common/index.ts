@@ -4,5 +4,32 @@ export * from "./constants";
 // Re-export types
 export * from "./types";
 
+// Re-export workflow helpers
+export * from "./workflow";
+
+// Re-export recurrence helpers
+export * from "./recurrence";
+
+// Re-export built-in templates
+export * from "./templates";
+
+// Re-export the control catalog
+export * from "./controls";
+
+// Re-export SLA helpers
+export * from "./sla";
+
+// Re-export export columns and formats
+export * from "./export";
+
+// Re-export the search query language
+export * from "./query";
+
+// Re-export role permissions
+export * from "./permissions";
+
+// Re-export automation rule helpers
+export * from "./automation";
+
 // Re-export schemas
 // export * from "./schemas";
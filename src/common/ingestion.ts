@@ -0,0 +1,36 @@
+import { IngestionPolicy, TodoPriority } from './types';
+
+/**
+ * Policy used until an administrator saves a custom one
+ * Ingestion stays off until it is enabled with at least one rule.
+ */
+export const DEFAULT_INGESTION_POLICY: IngestionPolicy = {
+  enabled: false,
+  indexPattern: 'wazuh-alerts-*',
+  timestampField: 'timestamp',
+  lookbackMinutes: 60,
+  fingerprintFields: ['rule.id', 'agent.id'],
+  documentUrl: '/app/discover#/doc/wazuh-alerts-*/{index}?id={id}',
+  rules: [
+    {
+      id: 'high-level',
+      name: 'High level alerts',
+      enabled: true,
+      minLevel: 12,
+    },
+  ],
+};
+
+// Lowest Wazuh rule level of each priority, highest first
+const PRIORITY_LEVELS: Array<[number, TodoPriority]> = [
+  [13, TodoPriority.CRITICAL],
+  [10, TodoPriority.HIGH],
+  [6, TodoPriority.MEDIUM],
+];
+
+/**
+ * Priority of an alert of the given Wazuh rule level (0 to 15)
+ */
+export const getLevelPriority = (level = 0): TodoPriority =>
+  PRIORITY_LEVELS.find(([minLevel]) => level >= minLevel)?.[1] ||
+  TodoPriority.LOW;
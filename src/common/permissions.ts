@@ -0,0 +1,26 @@
+import { TodoPermission, TodoPermissions, TodoRole } from './types';
+
+/**
+ * Permissions of each role; every role includes the ones below it
+ */
+export const ROLE_PERMISSIONS: Record<TodoRole, TodoPermission[]> = {
+  [TodoRole.VIEWER]: [TodoPermission.READ],
+  [TodoRole.EDITOR]: [
+    TodoPermission.READ,
+    TodoPermission.CREATE,
+    TodoPermission.EDIT,
+    TodoPermission.DELETE,
+  ],
+  [TodoRole.ADMIN]: Object.values(TodoPermission),
+};
+
+export const ROLE_LABELS: Record<TodoRole, string> = {
+  [TodoRole.VIEWER]: 'Viewer',
+  [TodoRole.EDITOR]: 'Editor',
+  [TodoRole.ADMIN]: 'Admin',
+};
+
+export const hasPermission = (
+  permissions: TodoPermissions | undefined,
+  permission: TodoPermission
+): boolean => !!permissions?.permissions.includes(permission);
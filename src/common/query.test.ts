@@ -0,0 +1,173 @@
+/**
+ * Tests for the search box query language
+ */
+import {
+  parseTodoQuery,
+  getQueryBounds,
+  matchesTodoQuery,
+  TodoQueryError,
+} from './query';
+import { DEFAULT_WORKFLOW } from './workflow';
+import { TodoItem, TodoPriority, TodoStatus } from './types';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+const createTodo = (overrides: Partial<TodoItem> = {}): TodoItem => ({
+  id: '1',
+  title: 'Rotate TLS certificates',
+  description: 'Edge proxies',
+  status: TodoStatus.PLANNED,
+  priority: TodoPriority.HIGH,
+  tags: ['tls'],
+  complianceStandards: [],
+  createdAt: '2026-02-01T00:00:00.000Z',
+  updatedAt: '2026-02-01T00:00:00.000Z',
+  archived: false,
+  ...overrides,
+});
+
+const options = { statuses: DEFAULT_WORKFLOW.statuses };
+
+describe('Query language', () => {
+  describe('parseTodoQuery', () => {
+    it('should split filters, negations and text', () => {
+      expect(
+        parseTodoQuery(
+          'status:"In Progress" priority:critical,HIGH -tag:wontfix ' +
+            'assignee:"Grace Lee" due:<now+7d tls -legacy',
+          options
+        )
+      ).toEqual({
+        text: 'tls',
+        excludedText: ['legacy'],
+        clauses: [
+          {
+            field: 'status',
+            operator: ':',
+            values: [TodoStatus.IN_PROGRESS],
+            negated: false,
+          },
+          {
+            field: 'priority',
+            operator: ':',
+            values: ['critical', 'high'],
+            negated: false,
+          },
+          { field: 'tags', operator: ':', values: ['wontfix'], negated: true },
+          {
+            field: 'assignee',
+            operator: ':',
+            values: ['Grace Lee'],
+            negated: false,
+          },
+          {
+            field: 'dueDate',
+            operator: '<',
+            values: ['now+7d'],
+            negated: false,
+          },
+        ],
+      });
+    });
+
+    it.each([
+      ['owner:me', 'Unknown field "owner"'],
+      ['priority:urgent', 'Unknown priority "urgent"'],
+      ['status:finished', 'Unknown status "finished"'],
+      ['due:tomorrow', 'Invalid date "tomorrow" for due'],
+      ['priority:>high', '">" only compares dates and numbers'],
+      ['tag:', 'Missing value after "tag:"'],
+      ['assignee:"Grace', 'A quote is not closed'],
+    ])('should explain why %s cannot be read', (query, message) => {
+      expect(() => parseTodoQuery(query, options)).toThrow(message);
+    });
+
+    it('should report the position of the term', () => {
+      try {
+        parseTodoQuery('patch is:later');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TodoQueryError);
+        expect((error as TodoQueryError).position).toBe(6);
+      }
+      expect.assertions(2);
+    });
+  });
+
+  describe('getQueryBounds', () => {
+    const bounds = (query: string) =>
+      getQueryBounds(parseTodoQuery(query).clauses[0], NOW);
+
+    it('should cover whole days', () => {
+      expect(bounds('due:2026-03-05')).toEqual({
+        gte: Date.parse('2026-03-05'),
+        lt: Date.parse('2026-03-06'),
+      });
+      expect(bounds('due:<=2026-03-05')).toEqual({
+        lt: Date.parse('2026-03-06'),
+      });
+      expect(bounds('due:>2026-03-05')).toEqual({
+        gte: Date.parse('2026-03-06'),
+      });
+    });
+
+    it('should resolve dates relative to now', () => {
+      expect(bounds('due:<now+7d')).toEqual({
+        lt: Date.parse('2026-03-08T12:00:00.000Z'),
+      });
+      expect(bounds('created:>=now-1M')).toEqual({
+        gte: Date.parse('2026-02-01T12:00:00.000Z'),
+      });
+    });
+
+    it('should compare numbers', () => {
+      expect(bounds('points:>3')).toEqual({ gt: 3 });
+      expect(bounds('points:5')).toEqual({ gte: 5, lte: 5 });
+    });
+  });
+
+  describe('matchesTodoQuery', () => {
+    const matches = (query: string, todo: TodoItem) =>
+      matchesTodoQuery(
+        todo,
+        parseTodoQuery(query, options),
+        DEFAULT_WORKFLOW,
+        NOW
+      );
+
+    it('should match text, filters and negations', () => {
+      const todo = createTodo();
+
+      expect(matches('tls priority:high,critical', todo)).toBe(true);
+      expect(matches('-tag:tls', todo)).toBe(false);
+      expect(matches('proxies -legacy', todo)).toBe(true);
+      expect(matches('status:blocked', todo)).toBe(false);
+    });
+
+    it('should treat missing fields as not matching', () => {
+      const todo = createTodo();
+
+      expect(matches('due:<now+7d', todo)).toBe(false);
+      expect(matches('-due:<now+7d', todo)).toBe(true);
+      expect(matches('is:unassigned', todo)).toBe(true);
+    });
+
+    it('should match the users of the writes', () => {
+      const todo = createTodo({ createdBy: 'alice', completedBy: 'bob' });
+
+      expect(matches('created-by:alice,carol', todo)).toBe(true);
+      expect(matches('-completed-by:bob', todo)).toBe(false);
+      expect(matches('archived-by:alice', todo)).toBe(false);
+    });
+
+    it('should only count open items past their due date as overdue', () => {
+      const dueDate = '2026-02-20T00:00:00.000Z';
+      const status = TodoStatus.COMPLETED_SUCCESS;
+
+      expect(matches('is:overdue', createTodo({ dueDate }))).toBe(true);
+      expect(matches('is:overdue', createTodo({ dueDate, status }))).toBe(
+        false
+      );
+      expect(matches('is:done', createTodo({ status }))).toBe(true);
+    });
+  });
+});
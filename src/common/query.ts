@@ -0,0 +1,600 @@
+import {
+  ComplianceStandard,
+  SlaState,
+  TodoItem,
+  TodoPriority,
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowStatusCategory,
+} from './types';
+import { getSlaState } from './sla';
+import { getStatusIdsByCategory } from './workflow';
+
+/**
+ * Fields a query clause can filter on
+ */
+export type TodoQueryField =
+  | 'status'
+  | 'priority'
+  | 'tags'
+  | 'complianceStandards'
+  | 'controls'
+  | 'assignee'
+  | 'createdBy'
+  | 'updatedBy'
+  | 'archivedBy'
+  | 'completedBy'
+  | 'slaState'
+  | 'dueDate'
+  | 'plannedDate'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'completedAt'
+  | 'storyPoints'
+  | 'is';
+
+export type TodoQueryOperator = ':' | '<' | '<=' | '>' | '>=';
+
+/**
+ * One `field:value` term of a query, e.g. `-priority:critical,high`
+ * A clause matches when any of its values matches.
+ */
+export interface TodoQueryClause {
+  field: TodoQueryField;
+  operator: TodoQueryOperator;
+  values: string[];
+  negated: boolean;
+}
+
+export interface ParsedTodoQuery {
+  // Words searched in the title and description
+  text: string;
+  // Negated words the title and description must not contain
+  excludedText: string[];
+  clauses: TodoQueryClause[];
+}
+
+/**
+ * Conditions of `is:`, see matchesTodoQuery for their meaning
+ */
+export enum TodoQueryFlag {
+  OVERDUE = 'overdue',
+  UNASSIGNED = 'unassigned',
+  OPEN = 'open',
+  DONE = 'done',
+}
+
+type QueryFieldKind = 'keyword' | 'date' | 'number' | 'flag';
+
+export interface TodoQueryFieldDefinition {
+  name: string;
+  field: TodoQueryField;
+  kind: QueryFieldKind;
+  description: string;
+  // Allowed values; status values come from the workflow
+  values?: string[];
+}
+
+export const TODO_QUERY_FIELDS: TodoQueryFieldDefinition[] = [
+  {
+    name: 'status',
+    field: 'status',
+    kind: 'keyword',
+    description: 'Workflow status id or label',
+  },
+  {
+    name: 'priority',
+    field: 'priority',
+    kind: 'keyword',
+    description: 'Priority',
+    values: Object.values(TodoPriority),
+  },
+  { name: 'tag', field: 'tags', kind: 'keyword', description: 'Tag' },
+  {
+    name: 'assignee',
+    field: 'assignee',
+    kind: 'keyword',
+    description: 'Assigned user',
+  },
+  {
+    name: 'created-by',
+    field: 'createdBy',
+    kind: 'keyword',
+    description: 'Username of the creator',
+  },
+  {
+    name: 'updated-by',
+    field: 'updatedBy',
+    kind: 'keyword',
+    description: 'Username of the last update',
+  },
+  {
+    name: 'archived-by',
+    field: 'archivedBy',
+    kind: 'keyword',
+    description: 'Username of who archived it',
+  },
+  {
+    name: 'completed-by',
+    field: 'completedBy',
+    kind: 'keyword',
+    description: 'Username of who closed it',
+  },
+  {
+    name: 'standard',
+    field: 'complianceStandards',
+    kind: 'keyword',
+    description: 'Compliance standard',
+    values: Object.values(ComplianceStandard),
+  },
+  {
+    name: 'control',
+    field: 'controls',
+    kind: 'keyword',
+    description: 'Compliance control key',
+  },
+  {
+    name: 'sla',
+    field: 'slaState',
+    kind: 'keyword',
+    description: 'SLA state',
+    values: Object.values(SlaState),
+  },
+  { name: 'due', field: 'dueDate', kind: 'date', description: 'Due date' },
+  {
+    name: 'planned',
+    field: 'plannedDate',
+    kind: 'date',
+    description: 'Planned date',
+  },
+  {
+    name: 'created',
+    field: 'createdAt',
+    kind: 'date',
+    description: 'Creation date',
+  },
+  {
+    name: 'updated',
+    field: 'updatedAt',
+    kind: 'date',
+    description: 'Last update',
+  },
+  {
+    name: 'completed',
+    field: 'completedAt',
+    kind: 'date',
+    description: 'Completion date',
+  },
+  {
+    name: 'points',
+    field: 'storyPoints',
+    kind: 'number',
+    description: 'Story points',
+  },
+  {
+    name: 'is',
+    field: 'is',
+    kind: 'flag',
+    description: 'Overdue, unassigned, open or done',
+    values: Object.values(TodoQueryFlag),
+  },
+];
+
+// Other names accepted for a field
+const FIELD_ALIASES: Record<string, string> = {
+  tags: 'tag',
+  standards: 'standard',
+  compliance: 'standard',
+  controls: 'control',
+};
+
+/**
+ * A query the parser cannot read
+ * `position` is the index of the offending term in the query text.
+ */
+export class TodoQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'TodoQueryError';
+  }
+}
+
+export interface TodoQueryOptions {
+  // Statuses of the workflow; status values are not checked without them
+  statuses?: WorkflowStatus[];
+}
+
+interface QueryToken {
+  text: string;
+  position: number;
+  negated: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPERATOR_PATTERN = /^(<=|>=|<|>)/;
+const RELATIVE_DATE_PATTERN = /^now(?:([+-])(\d+)([hdwMy]))?$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+export const getQueryFieldDefinition = (
+  name: string
+): TodoQueryFieldDefinition | undefined => {
+  const key = name.toLowerCase();
+  const canonical = FIELD_ALIASES[key] || key;
+  return TODO_QUERY_FIELDS.find((definition) => definition.name === canonical);
+};
+
+// Split at whitespace outside of double quotes
+const tokenize = (text: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const position = i;
+    let quoted = false;
+    while (i < text.length && (quoted || !/\s/.test(text[i]))) {
+      if (text[i] === '"') quoted = !quoted;
+      i++;
+    }
+    if (quoted) {
+      throw new TodoQueryError('A quote is not closed', position);
+    }
+
+    const token = text.slice(position, i);
+    const negated = token.length > 1 && token.startsWith('-');
+    tokens.push({
+      text: negated ? token.slice(1) : token,
+      position,
+      negated,
+    });
+  }
+
+  return tokens;
+};
+
+// Index of the first character outside of double quotes, -1 if none
+const indexOutsideQuotes = (text: string, char: string): number => {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === char && !quoted) return i;
+  }
+  return -1;
+};
+
+const splitValues = (text: string): string[] => {
+  const values: string[] = [];
+  let rest = text;
+  let index = indexOutsideQuotes(rest, ',');
+  while (index >= 0) {
+    values.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = indexOutsideQuotes(rest, ',');
+  }
+  values.push(rest);
+  return values.map((value) => value.replace(/"/g, '').trim());
+};
+
+/**
+ * Time range of a date in a query, in milliseconds
+ * Accepts `now` with an optional offset such as `now+7d` or `now-2w`
+ * (units h, d, w, M and y), calendar days `2026-03-01` and ISO timestamps.
+ * Days cover the whole UTC day; other values are a single instant.
+ */
+export const getQueryDateRange = (
+  value: string,
+  now = new Date()
+): { start: number; end: number } | undefined => {
+  const relative = RELATIVE_DATE_PATTERN.exec(value);
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    const date = new Date(now.getTime());
+    const offset = sign ? Number(amount) * (sign === '-' ? -1 : 1) : 0;
+    if (unit === 'h') date.setUTCHours(date.getUTCHours() + offset);
+    if (unit === 'd') date.setUTCDate(date.getUTCDate() + offset);
+    if (unit === 'w') date.setUTCDate(date.getUTCDate() + offset * 7);
+    if (unit === 'M') date.setUTCMonth(date.getUTCMonth() + offset);
+    if (unit === 'y') date.setUTCFullYear(date.getUTCFullYear() + offset);
+    return { start: date.getTime(), end: date.getTime() };
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    return undefined;
+  }
+  if (DAY_PATTERN.test(value)) {
+    return { start: time, end: time + DAY_MS };
+  }
+  return TIMESTAMP_PATTERN.test(value) ? { start: time, end: time } : undefined;
+};
+
+/**
+ * Bounds a value is compared with, as in an OpenSearch range query
+ */
+export type TodoQueryBounds = Partial<
+  Record<'gt' | 'gte' | 'lt' | 'lte', number>
+>;
+
+/**
+ * Bounds of a date or number clause
+ * `due:2026-03-01` and `due:now+7d` match the whole day, `due:<=2026-03-01`
+ * includes that day and `due:>2026-03-01` starts after it.
+ */
+export const getQueryBounds = (
+  clause: TodoQueryClause,
+  now = new Date()
+): TodoQueryBounds => {
+  const [value] = clause.values;
+
+  if (clause.field === 'storyPoints') {
+    const points = Number(value);
+    const bounds: Record<TodoQueryOperator, TodoQueryBounds> = {
+      ':': { gte: points, lte: points },
+      '<': { lt: points },
+      '<=': { lte: points },
+      '>': { gt: points },
+      '>=': { gte: points },
+    };
+    return bounds[clause.operator];
+  }
+
+  const range = getQueryDateRange(value, now);
+  if (!range) {
+    return {};
+  }
+  const isDay = range.end > range.start;
+  const dayStart = Math.floor(range.start / DAY_MS) * DAY_MS;
+  const bounds: Record<TodoQueryOperator, TodoQueryBounds> = {
+    ':': { gte: dayStart, lt: dayStart + DAY_MS },
+    '<': { lt: range.start },
+    '<=': isDay ? { lt: range.end } : { lte: range.start },
+    '>': isDay ? { gte: range.end } : { gt: range.start },
+    '>=': { gte: range.start },
+  };
+  return bounds[clause.operator];
+};
+
+const checkValue = (
+  definition: TodoQueryFieldDefinition,
+  value: string,
+  options: TodoQueryOptions,
+  position: number
+): string => {
+  const fail = (message: string): never => {
+    throw new TodoQueryError(message, position);
+  };
+
+  if (definition.kind === 'date' && !getQueryDateRange(value)) {
+    fail(
+      `Invalid date "${value}" for ${definition.name}, ` +
+        'use a date such as 2026-03-01 or now-7d'
+    );
+  }
+  if (definition.kind === 'number' && isNaN(Number(value))) {
+    fail(`Invalid number "${value}" for ${definition.name}`);
+  }
+
+  if (definition.field === 'status' && options.statuses) {
+    const key = value.toLowerCase();
+    const status = options.statuses.find(
+      ({ id, label }) =>
+        id.toLowerCase() === key || label.toLowerCase() === key
+    );
+    return status
+      ? status.id
+      : fail(
+          `Unknown status "${value}", use one of ` +
+            options.statuses.map(({ id }) => id).join(', ')
+        );
+  }
+
+  if (definition.values) {
+    const key = value.toLowerCase().replace(/[\s-]+/g, '_');
+    return definition.values.includes(key)
+      ? key
+      : fail(
+          `Unknown ${definition.name} "${value}", use one of ` +
+            definition.values.join(', ')
+        );
+  }
+
+  return value;
+};
+
+const parseClause = (
+  token: QueryToken,
+  separator: number,
+  options: TodoQueryOptions
+): TodoQueryClause => {
+  const name = token.text.slice(0, separator);
+  const definition = getQueryFieldDefinition(name);
+  if (!definition) {
+    throw new TodoQueryError(
+      `Unknown field "${name}", use one of ` +
+        TODO_QUERY_FIELDS.map((field) => field.name).join(', '),
+      token.position
+    );
+  }
+
+  let rest = token.text.slice(separator + 1);
+  const operator = OPERATOR_PATTERN.exec(rest)?.[0] as
+    | TodoQueryOperator
+    | undefined;
+  if (operator) {
+    if (definition.kind !== 'date' && definition.kind !== 'number') {
+      throw new TodoQueryError(
+        `"${operator}" only compares dates and numbers, not ${name}`,
+        token.position
+      );
+    }
+    rest = rest.slice(operator.length);
+  }
+
+  const values = splitValues(rest);
+  if (values.some((value) => value === '')) {
+    throw new TodoQueryError(
+      `Missing value after "${name}:"`,
+      token.position
+    );
+  }
+  if (operator && values.length > 1) {
+    throw new TodoQueryError(
+      `"${operator}" compares with a single value`,
+      token.position
+    );
+  }
+
+  return {
+    field: definition.field,
+    operator: operator || ':',
+    values: values.map((value) =>
+      checkValue(definition, value, options, token.position)
+    ),
+    negated: token.negated,
+  };
+};
+
+/**
+ * Read the search box syntax
+ * Terms are separated by spaces: `field:value` filters (several values
+ * separated by commas), `field:<value` comparisons of dates and numbers,
+ * a leading `-` to negate a term and double quotes around values with
+ * spaces. Other words are searched in the title and description.
+ *
+ * @throws TodoQueryError when a term cannot be read
+ */
+export const parseTodoQuery = (
+  text: string,
+  options: TodoQueryOptions = {}
+): ParsedTodoQuery => {
+  const words: string[] = [];
+  const excludedText: string[] = [];
+  const clauses: TodoQueryClause[] = [];
+
+  tokenize(text).forEach((token) => {
+    const separator = indexOutsideQuotes(token.text, ':');
+    if (separator > 0) {
+      clauses.push(parseClause(token, separator, options));
+      return;
+    }
+    const word = token.text.replace(/"/g, '');
+    if (word === '') {
+      return;
+    }
+    if (token.negated) {
+      excludedText.push(word);
+    } else {
+      words.push(word);
+    }
+  });
+
+  return { text: words.join(' '), excludedText, clauses };
+};
+
+const OPEN_CATEGORIES = [
+  WorkflowStatusCategory.TODO,
+  WorkflowStatusCategory.ACTIVE,
+  WorkflowStatusCategory.BLOCKED,
+];
+
+// Overdue matches the overdue count of the statistics
+const OVERDUE_CATEGORIES = [
+  WorkflowStatusCategory.TODO,
+  WorkflowStatusCategory.ACTIVE,
+];
+
+/**
+ * Statuses each `is:` condition requires; `unassigned` requires none
+ */
+export const getQueryFlagStatuses = (
+  flag: TodoQueryFlag,
+  workflow: WorkflowDefinition
+): string[] | undefined => {
+  switch (flag) {
+    case TodoQueryFlag.OVERDUE:
+      return getStatusIdsByCategory(workflow, ...OVERDUE_CATEGORIES);
+    case TodoQueryFlag.OPEN:
+      return getStatusIdsByCategory(workflow, ...OPEN_CATEGORIES);
+    case TodoQueryFlag.DONE:
+      return getStatusIdsByCategory(workflow, WorkflowStatusCategory.DONE);
+    default:
+      return undefined;
+  }
+};
+
+const isInBounds = (value: number, bounds: TodoQueryBounds): boolean =>
+  (bounds.gt === undefined || value > bounds.gt) &&
+  (bounds.gte === undefined || value >= bounds.gte) &&
+  (bounds.lt === undefined || value < bounds.lt) &&
+  (bounds.lte === undefined || value <= bounds.lte);
+
+const matchesClause = (
+  todo: TodoItem,
+  clause: TodoQueryClause,
+  workflow: WorkflowDefinition,
+  now: Date
+): boolean => {
+  if (clause.field === 'is') {
+    return clause.values.some((flag) => {
+      if (flag === TodoQueryFlag.UNASSIGNED) {
+        return !todo.assignee;
+      }
+      const statuses =
+        getQueryFlagStatuses(flag as TodoQueryFlag, workflow) || [];
+      const isPastDue =
+        !!todo.dueDate && Date.parse(todo.dueDate) < now.getTime();
+      return (
+        statuses.includes(todo.status) &&
+        (flag !== TodoQueryFlag.OVERDUE || isPastDue)
+      );
+    });
+  }
+
+  if (clause.field === 'slaState') {
+    return !!todo.sla && clause.values.includes(getSlaState(todo.sla, now));
+  }
+
+  const value = todo[clause.field];
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  const kind = TODO_QUERY_FIELDS.find(({ field }) => field === clause.field)
+    ?.kind;
+  if (kind === 'number') {
+    return isInBounds(Number(value), getQueryBounds(clause, now));
+  }
+  if (kind === 'date') {
+    return isInBounds(Date.parse(String(value)), getQueryBounds(clause, now));
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((item) => clause.values.includes(String(item)));
+};
+
+/**
+ * Whether an item matches a parsed query, as the server search would
+ * Words match parts of the title or description. `is:open` covers to do,
+ * active and blocked statuses and `is:overdue` items past their due date
+ * that are to do or active.
+ */
+export const matchesTodoQuery = (
+  todo: TodoItem,
+  query: ParsedTodoQuery,
+  workflow: WorkflowDefinition,
+  now = new Date()
+): boolean => {
+  const content = `${todo.title} ${todo.description || ''}`.toLowerCase();
+  const contains = (text: string) => content.includes(text.toLowerCase());
+
+  return (
+    (!query.text || contains(query.text)) &&
+    !query.excludedText.some(contains) &&
+    query.clauses.every(
+      (clause) =>
+        matchesClause(todo, clause, workflow, now) !== clause.negated
+    )
+  );
+};
@@ -0,0 +1,89 @@
+import { RecurrenceFrequency, RecurrenceRule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of one period, in days or months
+interface Period {
+  days?: number;
+  months?: number;
+}
+
+const PERIODS: Record<RecurrenceFrequency, Period> = {
+  [RecurrenceFrequency.DAILY]: { days: 1 },
+  [RecurrenceFrequency.WEEKLY]: { days: 7 },
+  [RecurrenceFrequency.MONTHLY]: { months: 1 },
+  [RecurrenceFrequency.QUARTERLY]: { months: 3 },
+};
+
+const PERIOD_NAMES: Record<RecurrenceFrequency, [string, string]> = {
+  [RecurrenceFrequency.DAILY]: ['day', 'days'],
+  [RecurrenceFrequency.WEEKLY]: ['week', 'weeks'],
+  [RecurrenceFrequency.MONTHLY]: ['month', 'months'],
+  [RecurrenceFrequency.QUARTERLY]: ['quarter', 'quarters'],
+};
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<
+  RecurrenceFrequency,
+  string
+> = {
+  [RecurrenceFrequency.DAILY]: 'Daily',
+  [RecurrenceFrequency.WEEKLY]: 'Weekly',
+  [RecurrenceFrequency.MONTHLY]: 'Monthly',
+  [RecurrenceFrequency.QUARTERLY]: 'Quarterly',
+};
+
+/**
+ * Move a date forward by one interval of the rule
+ * Month based rules keep the day of month where possible, so Jan 31 plus one
+ * month is Feb 28 (or 29).
+ */
+export const addRecurrenceInterval = (
+  date: string,
+  rule: RecurrenceRule
+): string => {
+  const { days, months } = PERIODS[rule.frequency];
+  const interval = Math.max(1, rule.interval || 1);
+  const start = new Date(date);
+
+  if (days) {
+    return new Date(start.getTime() + days * interval * DAY_MS).toISOString();
+  }
+
+  const next = new Date(start.getTime());
+  const targetMonth = start.getUTCMonth() + (months || 0) * interval;
+  const lastDay = new Date(
+    Date.UTC(start.getUTCFullYear(), targetMonth + 1, 0)
+  ).getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(targetMonth);
+  next.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return next.toISOString();
+};
+
+/**
+ * Start of the period after the given one, or null once the series has ended
+ */
+export const getNextOccurrenceStart = (
+  occurrenceStart: string,
+  rule: RecurrenceRule
+): string | null => {
+  const next = addRecurrenceInterval(occurrenceStart, rule);
+  if (rule.endDate) {
+    // The end date is inclusive
+    const end = new Date(rule.endDate).getTime() + DAY_MS - 1;
+    if (new Date(next).getTime() > end) {
+      return null;
+    }
+  }
+  return next;
+};
+
+/**
+ * Short description such as "Every quarter" or "Every 2 weeks"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const [singular, plural] = PERIOD_NAMES[rule.frequency];
+  return rule.interval > 1
+    ? `Every ${rule.interval} ${plural}`
+    : `Every ${singular}`;
+};
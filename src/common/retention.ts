@@ -0,0 +1,15 @@
+import { RetentionPolicy } from './types';
+
+/**
+ * Policy used until an administrator saves a custom one
+ * Nothing is archived or purged until a part of it is enabled, except the
+ * trash, which is emptied of items deleted a month ago.
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  archiveEnabled: false,
+  archiveAfterDays: 30,
+  purgeEnabled: false,
+  purgeAfterDays: 365,
+  trashPurgeAfterDays: 30,
+  legalHoldTag: 'legal-hold',
+};
@@ -0,0 +1,88 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+const conditionSchema = schema.object({
+  field: schema.oneOf([
+    schema.literal('status'),
+    schema.literal('priority'),
+    schema.literal('assignee'),
+    schema.literal('tags'),
+    schema.literal('complianceStandards'),
+    schema.literal('controls'),
+    schema.literal('projectId'),
+    schema.literal('title'),
+  ]),
+  operator: schema.oneOf([
+    schema.literal('equals'),
+    schema.literal('not_equals'),
+    schema.literal('in'),
+    schema.literal('not_in'),
+    schema.literal('contains'),
+    schema.literal('is_set'),
+    schema.literal('is_not_set'),
+  ]),
+  value: schema.maybe(
+    schema.oneOf([
+      schema.string({ maxLength: 200 }),
+      schema.arrayOf(schema.string({ maxLength: 200 }), { maxSize: 50 }),
+    ])
+  ),
+});
+
+const actionSchema = schema.object({
+  type: schema.oneOf([
+    schema.literal('set_field'),
+    schema.literal('add_tag'),
+    schema.literal('assign'),
+    schema.literal('archive'),
+    schema.literal('create_follow_up'),
+  ]),
+  field: schema.maybe(
+    schema.oneOf([
+      schema.literal('status'),
+      schema.literal('priority'),
+      schema.literal('dueDate'),
+    ])
+  ),
+  value: schema.maybe(schema.string({ maxLength: 200 })),
+  tag: schema.maybe(schema.string({ minLength: 1, maxLength: 100 })),
+  assignee: schema.maybe(schema.string({ minLength: 1, maxLength: 200 })),
+  assigneeId: schema.maybe(schema.string({ maxLength: 200 })),
+  title: schema.maybe(schema.string({ minLength: 1, maxLength: 200 })),
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  dueInDays: schema.maybe(schema.number({ min: 0, max: 3650 })),
+});
+
+// Schema for creating or replacing an automation rule
+export const saveAutomationRuleSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  enabled: schema.boolean({ defaultValue: true }),
+  trigger: schema.oneOf([
+    schema.literal('created'),
+    schema.literal('status_changed'),
+    schema.literal('priority_changed'),
+    schema.literal('due_date_passed'),
+  ]),
+  conditions: schema.arrayOf(conditionSchema, { maxSize: 20 }),
+  actions: schema.arrayOf(actionSchema, { minSize: 1, maxSize: 20 }),
+});
+
+// Schema for listing the latest executions
+export const automationExecutionsSchema = schema.object({
+  ruleId: schema.maybe(schema.string({ minLength: 1 })),
+  size: schema.maybe(schema.number({ min: 1, max: 200 })),
+});
+
+// Schema for automation rule ID parameter
+export const automationRuleIdParamSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+// Export types
+export type SaveAutomationRuleSchema = TypeOf<typeof saveAutomationRuleSchema>;
@@ -0,0 +1,23 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Schema for creating a comment
+export const createCommentSchema = schema.object({
+  body: schema.string({ minLength: 1, maxLength: 5000 }),
+  parentId: schema.maybe(schema.string()),
+});
+
+// Schema for updating a comment
+export const updateCommentSchema = schema.object({
+  body: schema.string({ minLength: 1, maxLength: 5000 }),
+});
+
+// Schema for route parameters with TODO ID and comment ID
+export const commentParamSchema = schema.object({
+  id: schema.string(),
+  commentId: schema.string(),
+});
+
+// Export types
+export type CreateCommentSchema = TypeOf<typeof createCommentSchema>;
+export type UpdateCommentSchema = TypeOf<typeof updateCommentSchema>;
+export type CommentParamSchema = TypeOf<typeof commentParamSchema>;
@@ -1,2 +1,12 @@
 export * from './todo_schema';
-
+export * from './comment_schema';
+export * from './workflow_schema';
+export * from './template_schema';
+export * from './sla_schema';
+export * from './view_schema';
+export * from './project_schema';
+export * from './user_schema';
+export * from './webhook_schema';
+export * from './ingestion_schema';
+export * from './automation_schema';
+export * from './retention_schema';
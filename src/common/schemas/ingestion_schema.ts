@@ -0,0 +1,45 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+const valuesSchema = schema.maybe(
+  schema.arrayOf(schema.string({ minLength: 1, maxLength: 200 }), {
+    maxSize: 100,
+  })
+);
+
+const ingestionRuleSchema = schema.object({
+  id: schema.string({ minLength: 1, maxLength: 100 }),
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  enabled: schema.boolean({ defaultValue: true }),
+  // Wazuh rule levels run from 0 to 15
+  minLevel: schema.maybe(schema.number({ min: 0, max: 15 })),
+  groups: valuesSchema,
+  agents: valuesSchema,
+  ruleIds: valuesSchema,
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  tags: schema.maybe(schema.arrayOf(schema.string(), { maxSize: 20 })),
+});
+
+// Schema for saving the ingestion policy
+export const ingestionPolicySchema = schema.object({
+  enabled: schema.boolean(),
+  indexPattern: schema.string({ minLength: 1, maxLength: 200 }),
+  timestampField: schema.string({ minLength: 1, maxLength: 100 }),
+  // Up to a week
+  lookbackMinutes: schema.number({ min: 1, max: 7 * 24 * 60 }),
+  fingerprintFields: schema.arrayOf(
+    schema.string({ minLength: 1, maxLength: 100 }),
+    { minSize: 1, maxSize: 10 }
+  ),
+  documentUrl: schema.string({ maxLength: 2000 }),
+  rules: schema.arrayOf(ingestionRuleSchema, { maxSize: 50 }),
+});
+
+// Export types
+export type IngestionPolicySchema = TypeOf<typeof ingestionPolicySchema>;
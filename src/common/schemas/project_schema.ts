@@ -0,0 +1,58 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Project a request is scoped to; `all` reads every project of the user
+export const projectScopeProps = {
+  projectId: schema.maybe(schema.string({ minLength: 1, maxLength: 100 })),
+};
+
+export const projectScopeSchema = schema.object(projectScopeProps);
+
+// Schema for creating or replacing a project
+export const saveProjectSchema = schema.object({
+  // Upper case letters and digits, e.g. 'PCI' or 'SOC2'
+  key: schema.string({
+    validate: (key) =>
+      /^[A-Z][A-Z0-9]{1,9}$/.test(key)
+        ? undefined
+        : 'must be 2 to 10 upper case letters or digits',
+  }),
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  description: schema.maybe(schema.string({ maxLength: 1000 })),
+  members: schema.arrayOf(schema.string({ minLength: 1, maxLength: 100 }), {
+    maxSize: 200,
+    defaultValue: [],
+  }),
+  defaults: schema.object({
+    priority: schema.maybe(
+      schema.oneOf([
+        schema.literal('low'),
+        schema.literal('medium'),
+        schema.literal('high'),
+        schema.literal('critical'),
+      ])
+    ),
+    assignee: schema.maybe(schema.string({ maxLength: 100 })),
+    tags: schema.maybe(schema.arrayOf(schema.string(), { maxSize: 20 })),
+    complianceStandards: schema.maybe(
+      schema.arrayOf(
+        schema.oneOf([
+          schema.literal('pci_dss'),
+          schema.literal('iso_27001'),
+          schema.literal('sox'),
+          schema.literal('hipaa'),
+          schema.literal('gdpr'),
+          schema.literal('nist'),
+        ]),
+        { maxSize: 10 }
+      )
+    ),
+  }),
+});
+
+// Schema for project ID parameter
+export const projectIdParamSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+// Export types
+export type SaveProjectSchema = TypeOf<typeof saveProjectSchema>;
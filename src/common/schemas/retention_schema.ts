@@ -0,0 +1,18 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Schema for saving or previewing the retention policy; up to ten years
+export const retentionPolicySchema = schema.object({
+  archiveEnabled: schema.boolean(),
+  archiveAfterDays: schema.number({ min: 1, max: 3650 }),
+  purgeEnabled: schema.boolean(),
+  purgeAfterDays: schema.number({ min: 1, max: 3650 }),
+  trashPurgeAfterDays: schema.number({ min: 1, max: 3650 }),
+  legalHoldTag: schema.string({ minLength: 1, maxLength: 100 }),
+});
+
+export const retentionPurgesSchema = schema.object({
+  size: schema.maybe(schema.number({ min: 1, max: 200 })),
+});
+
+// Export types
+export type RetentionPolicySchema = TypeOf<typeof retentionPolicySchema>;
@@ -0,0 +1,24 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Up to a year for either deadline
+const MAX_HOURS = 365 * 24;
+
+const slaTargetSchema = schema.object({
+  startHours: schema.number({ min: 1, max: MAX_HOURS }),
+  resolveHours: schema.number({ min: 1, max: MAX_HOURS }),
+});
+
+// Schema for saving the SLA policy
+export const slaPolicySchema = schema.object({
+  enabled: schema.boolean(),
+  targets: schema.object({
+    low: slaTargetSchema,
+    medium: slaTargetSchema,
+    high: slaTargetSchema,
+    critical: slaTargetSchema,
+  }),
+  atRiskPercent: schema.number({ min: 1, max: 99 }),
+});
+
+// Export types
+export type SlaPolicySchema = TypeOf<typeof slaPolicySchema>;
@@ -0,0 +1,56 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+const complianceStandardsSchema = schema.arrayOf(
+  schema.oneOf([
+    schema.literal('pci_dss'),
+    schema.literal('iso_27001'),
+    schema.literal('sox'),
+    schema.literal('hipaa'),
+    schema.literal('gdpr'),
+    schema.literal('nist'),
+  ]),
+  { maxSize: 10 }
+);
+
+// Schema for a single task of a template
+export const templateTaskSchema = schema.object({
+  title: schema.string({ minLength: 1, maxLength: 200 }),
+  description: schema.maybe(schema.string({ maxLength: 2000 })),
+  priority: schema.oneOf([
+    schema.literal('low'),
+    schema.literal('medium'),
+    schema.literal('high'),
+    schema.literal('critical'),
+  ]),
+  tags: schema.maybe(schema.arrayOf(schema.string(), { maxSize: 20 })),
+  complianceStandards: schema.maybe(complianceStandardsSchema),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  storyPoints: schema.maybe(schema.number({ min: 0, max: 100 })),
+  dueInDays: schema.maybe(schema.number({ min: 0, max: 3650 })),
+});
+
+// Schema for creating or replacing a template
+export const saveTemplateSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  description: schema.maybe(schema.string({ maxLength: 1000 })),
+  complianceStandards: schema.maybe(complianceStandardsSchema),
+  tasks: schema.arrayOf(templateTaskSchema, { minSize: 1, maxSize: 200 }),
+});
+
+// Schema for creating the tasks of a template
+export const instantiateTemplateSchema = schema.object({
+  startDate: schema.maybe(schema.string()),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+});
+
+// Schema for template ID parameter
+export const templateIdParamSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+// Export types
+export type TemplateTaskSchema = TypeOf<typeof templateTaskSchema>;
+export type SaveTemplateSchema = TypeOf<typeof saveTemplateSchema>;
+export type InstantiateTemplateSchema = TypeOf<
+  typeof instantiateTemplateSchema
+>;
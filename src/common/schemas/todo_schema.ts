@@ -1,24 +1,44 @@
 import { schema, TypeOf } from '@osd/config-schema';
+import { workflowStatusIdSchema } from './workflow_schema';
+import { projectScopeProps } from './project_schema';
+import { isKnownControl } from '../controls';
+import { MAX_IMPORT_ROWS } from '../constants';
+
+// Control keys must exist in the catalog
+const controlsSchema = schema.arrayOf(
+  schema.string({
+    validate: (key) =>
+      isKnownControl(key) ? undefined : `unknown control: ${key}`,
+  }),
+  { maxSize: 50 }
+);
+
+// Schema for the recurrence rule of a series
+export const recurrenceRuleSchema = schema.object({
+  frequency: schema.oneOf([
+    schema.literal('daily'),
+    schema.literal('weekly'),
+    schema.literal('monthly'),
+    schema.literal('quarterly'),
+  ]),
+  interval: schema.number({ min: 1, max: 365, defaultValue: 1 }),
+  endDate: schema.maybe(schema.string()),
+});
 
 // Schema for creating a TODO item
 export const createTodoSchema = schema.object({
   title: schema.string({ minLength: 1, maxLength: 200 }),
   description: schema.maybe(schema.string({ maxLength: 2000 })),
-  priority: schema.oneOf([
-    schema.literal('low'),
-    schema.literal('medium'),
-    schema.literal('high'),
-    schema.literal('critical'),
-  ]),
-  status: schema.maybe(
+  // Left out, the item gets the default priority of its project
+  priority: schema.maybe(
     schema.oneOf([
-      schema.literal('planned'),
-      schema.literal('in_progress'),
-      schema.literal('completed_success'),
-      schema.literal('completed_error'),
-      schema.literal('blocked'),
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
     ])
   ),
+  status: schema.maybe(workflowStatusIdSchema),
   tags: schema.maybe(schema.arrayOf(schema.string(), { maxSize: 20 })),
   complianceStandards: schema.maybe(
     schema.arrayOf(
@@ -33,26 +53,22 @@ export const createTodoSchema = schema.object({
       { maxSize: 10 }
     )
   ),
+  controls: schema.maybe(controlsSchema),
   assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  assigneeId: schema.maybe(schema.string({ maxLength: 100 })),
   plannedDate: schema.maybe(schema.string()),
   dueDate: schema.maybe(schema.string()),
   storyPoints: schema.maybe(schema.number({ min: 0, max: 100 })),
   coverImage: schema.maybe(schema.string({ maxLength: 500 })),
+  recurrence: schema.maybe(recurrenceRuleSchema),
+  externalKey: schema.maybe(schema.string({ minLength: 1, maxLength: 200 })),
 });
 
 // Schema for updating a TODO item
 export const updateTodoSchema = schema.object({
   title: schema.maybe(schema.string({ minLength: 1, maxLength: 200 })),
   description: schema.maybe(schema.string({ maxLength: 2000 })),
-  status: schema.maybe(
-    schema.oneOf([
-      schema.literal('planned'),
-      schema.literal('in_progress'),
-      schema.literal('completed_success'),
-      schema.literal('completed_error'),
-      schema.literal('blocked'),
-    ])
-  ),
+  status: schema.maybe(workflowStatusIdSchema),
   priority: schema.maybe(
     schema.oneOf([
       schema.literal('low'),
@@ -75,7 +91,9 @@ export const updateTodoSchema = schema.object({
       { maxSize: 10 }
     )
   ),
+  controls: schema.maybe(controlsSchema),
   assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  assigneeId: schema.maybe(schema.string({ maxLength: 100 })),
   plannedDate: schema.maybe(schema.string()),
   dueDate: schema.maybe(schema.string()),
   completedAt: schema.maybe(schema.string()),
@@ -84,11 +102,12 @@ export const updateTodoSchema = schema.object({
   archivedAt: schema.maybe(schema.string()),
   storyPoints: schema.maybe(schema.number({ min: 0, max: 100 })),
   coverImage: schema.maybe(schema.string({ maxLength: 500 })),
+  version: schema.maybe(schema.number({ min: 0 })),
 });
 
 // Schema for search parameters
 // Note: Query params come as strings, so we use string types and convert in the service
-export const searchTodoSchema = schema.object({
+const searchTodoProps = {
   query: schema.maybe(schema.string({ maxLength: 500 })),
   status: schema.maybe(schema.oneOf([
     schema.string(),
@@ -106,14 +125,50 @@ export const searchTodoSchema = schema.object({
     schema.string(),
     schema.arrayOf(schema.string()),
   ])),
+  controls: schema.maybe(schema.oneOf([
+    schema.string(),
+    schema.arrayOf(schema.string()),
+  ])),
+  slaState: schema.maybe(schema.oneOf([
+    schema.string(),
+    schema.arrayOf(schema.string()),
+  ])),
   assignee: schema.maybe(schema.string()),
+  assigneeId: schema.maybe(schema.string()),
   dateFrom: schema.maybe(schema.string()),
   dateTo: schema.maybe(schema.string()),
   sortField: schema.maybe(schema.string()),
   sortOrder: schema.maybe(schema.oneOf([schema.literal('asc'), schema.literal('desc')])),
   page: schema.maybe(schema.oneOf([schema.number({ min: 1 }), schema.string()])),
-  size: schema.maybe(schema.oneOf([schema.number({ min: 1, max: 100 }), schema.string()])),
+  // A size of 0 only counts the facets
+  size: schema.maybe(schema.oneOf([schema.number({ min: 0, max: 100 }), schema.string()])),
+  cursor: schema.maybe(schema.string()),
+  previousCursor: schema.maybe(schema.string()),
   archived: schema.maybe(schema.oneOf([schema.boolean(), schema.string()])),
+  facets: schema.maybe(schema.oneOf([schema.boolean(), schema.string()])),
+  ...projectScopeProps,
+};
+
+export const searchTodoSchema = schema.object(searchTodoProps);
+
+// Schema for exporting the full result set of a search
+export const exportTodoSchema = schema.object({
+  ...searchTodoProps,
+  format: schema.oneOf(
+    [schema.literal('csv'), schema.literal('json'), schema.literal('md')],
+    { defaultValue: 'csv' }
+  ),
+  columns: schema.maybe(schema.oneOf([
+    schema.string(),
+    schema.arrayOf(schema.string()),
+  ])),
+});
+
+// Schema for a page of the trash
+export const trashTodoSchema = schema.object({
+  page: schema.maybe(schema.oneOf([schema.number({ min: 1 }), schema.string()])),
+  size: schema.maybe(schema.oneOf([schema.number({ min: 1, max: 100 }), schema.string()])),
+  ...projectScopeProps,
 });
 
 // Schema for route parameters with ID
@@ -121,6 +176,11 @@ export const idParamSchema = schema.object({
   id: schema.string(),
 });
 
+// Schema for moving a TODO item to another project
+export const moveTodoSchema = schema.object({
+  projectId: schema.string({ minLength: 1, maxLength: 100 }),
+});
+
 // Bulk Operation Schemas
 export const bulkIdsSchema = schema.object({
   ids: schema.arrayOf(schema.string(), { minSize: 1, maxSize: 100 }),
@@ -128,13 +188,7 @@ export const bulkIdsSchema = schema.object({
 
 export const bulkUpdateStatusSchema = schema.object({
   ids: schema.arrayOf(schema.string(), { minSize: 1, maxSize: 100 }),
-  status: schema.oneOf([
-    schema.literal('planned'),
-    schema.literal('in_progress'),
-    schema.literal('completed_success'),
-    schema.literal('completed_error'),
-    schema.literal('blocked'),
-  ]),
+  status: workflowStatusIdSchema,
 });
 
 export const bulkUpdatePrioritySchema = schema.object({
@@ -150,14 +204,63 @@ export const bulkUpdatePrioritySchema = schema.object({
 export const bulkAssignSchema = schema.object({
   ids: schema.arrayOf(schema.string(), { minSize: 1, maxSize: 100 }),
   assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  assigneeId: schema.maybe(schema.string({ maxLength: 100 })),
+});
+
+// Schema for updating the open occurrences of a series
+export const seriesUpdateSchema = schema.object({
+  title: schema.maybe(schema.string({ minLength: 1, maxLength: 200 })),
+  description: schema.maybe(schema.string({ maxLength: 2000 })),
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  tags: schema.maybe(schema.arrayOf(schema.string(), { maxSize: 20 })),
+  complianceStandards: schema.maybe(
+    schema.arrayOf(
+      schema.oneOf([
+        schema.literal('pci_dss'),
+        schema.literal('iso_27001'),
+        schema.literal('sox'),
+        schema.literal('hipaa'),
+        schema.literal('gdpr'),
+        schema.literal('nist'),
+      ]),
+      { maxSize: 10 }
+    )
+  ),
+  controls: schema.maybe(controlsSchema),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  assigneeId: schema.maybe(schema.string({ maxLength: 100 })),
+  storyPoints: schema.maybe(schema.number({ min: 0, max: 100 })),
+  recurrence: schema.maybe(recurrenceRuleSchema),
+});
+
+// Schema for importing mapped rows; each row is validated on its own
+export const todoImportSchema = schema.object({
+  rows: schema.arrayOf(schema.recordOf(schema.string(), schema.any()), {
+    minSize: 1,
+    maxSize: MAX_IMPORT_ROWS,
+  }),
+  upsert: schema.boolean({ defaultValue: false }),
+});
+
+export const seriesIdParamSchema = schema.object({
+  seriesId: schema.string(),
 });
 
 // Export types
 export type CreateTodoSchema = TypeOf<typeof createTodoSchema>;
 export type UpdateTodoSchema = TypeOf<typeof updateTodoSchema>;
 export type SearchTodoSchema = TypeOf<typeof searchTodoSchema>;
+export type ExportTodoSchema = TypeOf<typeof exportTodoSchema>;
 export type IdParamSchema = TypeOf<typeof idParamSchema>;
 export type BulkIdsSchema = TypeOf<typeof bulkIdsSchema>;
 export type BulkUpdateStatusSchema = TypeOf<typeof bulkUpdateStatusSchema>;
 export type BulkUpdatePrioritySchema = TypeOf<typeof bulkUpdatePrioritySchema>;
 export type BulkAssignSchema = TypeOf<typeof bulkAssignSchema>;
+export type TodoImportSchema = TypeOf<typeof todoImportSchema>;
@@ -0,0 +1,10 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Schema for searching the user directory
+export const userSearchSchema = schema.object({
+  // Part of the id, display name or email
+  search: schema.maybe(schema.string({ maxLength: 100 })),
+});
+
+// Export types
+export type UserSearchSchema = TypeOf<typeof userSearchSchema>;
@@ -0,0 +1,83 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+const stringListSchema = schema.arrayOf(schema.string(), { maxSize: 50 });
+
+// Filters and sort order of a saved view, as sent to the search API
+export const savedViewParamsSchema = schema.object({
+  query: schema.maybe(schema.string({ maxLength: 500 })),
+  status: schema.maybe(stringListSchema),
+  priority: schema.maybe(
+    schema.arrayOf(
+      schema.oneOf([
+        schema.literal('low'),
+        schema.literal('medium'),
+        schema.literal('high'),
+        schema.literal('critical'),
+      ])
+    )
+  ),
+  tags: schema.maybe(stringListSchema),
+  complianceStandards: schema.maybe(
+    schema.arrayOf(
+      schema.oneOf([
+        schema.literal('pci_dss'),
+        schema.literal('iso_27001'),
+        schema.literal('sox'),
+        schema.literal('hipaa'),
+        schema.literal('gdpr'),
+        schema.literal('nist'),
+      ])
+    )
+  ),
+  controls: schema.maybe(stringListSchema),
+  slaState: schema.maybe(
+    schema.arrayOf(
+      schema.oneOf([
+        schema.literal('on_track'),
+        schema.literal('at_risk'),
+        schema.literal('breached'),
+        schema.literal('met'),
+      ])
+    )
+  ),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  dateFrom: schema.maybe(schema.string()),
+  dateTo: schema.maybe(schema.string()),
+  sortField: schema.maybe(schema.string({ maxLength: 100 })),
+  sortOrder: schema.maybe(
+    schema.oneOf([schema.literal('asc'), schema.literal('desc')])
+  ),
+  archived: schema.maybe(schema.boolean()),
+});
+
+// Schema for creating or replacing a saved view
+export const saveViewSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  visibility: schema.oneOf([
+    schema.literal('private'),
+    schema.literal('shared'),
+  ]),
+  viewType: schema.oneOf([
+    schema.literal('board'),
+    schema.literal('table'),
+    schema.literal('archived'),
+    schema.literal('stats'),
+    schema.literal('coverage'),
+    schema.literal('trash'),
+  ]),
+  params: savedViewParamsSchema,
+});
+
+// Schema for pinning or unpinning a view
+export const pinViewSchema = schema.object({
+  pinned: schema.boolean(),
+});
+
+// Schema for view ID parameter
+export const viewIdParamSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+// Export types
+export type SaveViewSchema = TypeOf<typeof saveViewSchema>;
+export type PinViewSchema = TypeOf<typeof pinViewSchema>;
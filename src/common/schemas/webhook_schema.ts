@@ -0,0 +1,43 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Events a webhook can subscribe to; test pings go to every webhook
+const webhookEventSchema = schema.oneOf([
+  schema.literal('created'),
+  schema.literal('updated'),
+  schema.literal('status_changed'),
+  schema.literal('assigned'),
+  schema.literal('archived'),
+  schema.literal('deleted'),
+  schema.literal('bulk_created'),
+  schema.literal('bulk_updated'),
+  schema.literal('bulk_archived'),
+  schema.literal('bulk_deleted'),
+]);
+
+// Schema for creating or replacing a webhook
+export const saveWebhookSchema = schema.object({
+  name: schema.string({ minLength: 1, maxLength: 100 }),
+  url: schema.string({
+    maxLength: 2000,
+    validate: (url) =>
+      /^https?:\/\/\S+$/i.test(url) ? undefined : 'must be an http(s) URL',
+  }),
+  events: schema.arrayOf(webhookEventSchema, { minSize: 1, maxSize: 20 }),
+  enabled: schema.boolean({ defaultValue: true }),
+  // Left out to keep the current secret, empty to remove it
+  secret: schema.maybe(schema.string({ maxLength: 200 })),
+});
+
+// Schema for listing the latest deliveries
+export const webhookDeliveriesSchema = schema.object({
+  webhookId: schema.maybe(schema.string({ minLength: 1 })),
+  size: schema.maybe(schema.number({ min: 1, max: 200 })),
+});
+
+// Schema for webhook ID parameter
+export const webhookIdParamSchema = schema.object({
+  id: schema.string({ minLength: 1 }),
+});
+
+// Export types
+export type SaveWebhookSchema = TypeOf<typeof saveWebhookSchema>;
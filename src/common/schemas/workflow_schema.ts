@@ -0,0 +1,58 @@
+import { schema, TypeOf } from '@osd/config-schema';
+
+// Status ids are stored on every item, so they are kept URL and query safe.
+// Whether a status exists is checked against the workflow in TodoService.
+export const workflowStatusIdSchema = schema.string({
+  minLength: 1,
+  maxLength: 50,
+  validate: (value) =>
+    /^[a-z0-9_]+$/.test(value)
+      ? undefined
+      : 'must contain only lowercase letters, digits and underscores',
+});
+
+// Schema for a single workflow status
+export const workflowStatusSchema = schema.object({
+  id: workflowStatusIdSchema,
+  label: schema.string({ minLength: 1, maxLength: 50 }),
+  color: schema.oneOf([
+    schema.literal('subdued'),
+    schema.literal('primary'),
+    schema.literal('accent'),
+    schema.literal('success'),
+    schema.literal('warning'),
+    schema.literal('danger'),
+  ]),
+  icon: schema.string({ minLength: 1, maxLength: 50 }),
+  category: schema.oneOf([
+    schema.literal('todo'),
+    schema.literal('active'),
+    schema.literal('blocked'),
+    schema.literal('done'),
+    schema.literal('failed'),
+  ]),
+  requiredFields: schema.maybe(
+    schema.arrayOf(
+      schema.oneOf([
+        schema.literal('errorDetails'),
+        schema.literal('description'),
+        schema.literal('assignee'),
+      ]),
+      { maxSize: 3 }
+    )
+  ),
+});
+
+// Schema for saving the workflow definition
+export const workflowDefinitionSchema = schema.object({
+  statuses: schema.arrayOf(workflowStatusSchema, { minSize: 1, maxSize: 20 }),
+  initialStatus: workflowStatusIdSchema,
+  transitions: schema.recordOf(
+    workflowStatusIdSchema,
+    schema.arrayOf(workflowStatusIdSchema, { maxSize: 20 })
+  ),
+});
+
+// Export types
+export type WorkflowStatusSchema = TypeOf<typeof workflowStatusSchema>;
+export type WorkflowDefinitionSchema = TypeOf<typeof workflowDefinitionSchema>;
@@ -0,0 +1,58 @@
+import { SlaPolicy, SlaState, TodoPriority, TodoSla } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Policy used until an administrator saves a custom one
+ */
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  enabled: true,
+  targets: {
+    [TodoPriority.CRITICAL]: { startHours: 24, resolveHours: 72 },
+    [TodoPriority.HIGH]: { startHours: 72, resolveHours: 7 * 24 },
+    [TodoPriority.MEDIUM]: { startHours: 7 * 24, resolveHours: 30 * 24 },
+    [TodoPriority.LOW]: { startHours: 14 * 24, resolveHours: 90 * 24 },
+  },
+  atRiskPercent: 75,
+};
+
+export const SLA_STATE_LABELS: Record<SlaState, string> = {
+  [SlaState.ON_TRACK]: 'On track',
+  [SlaState.AT_RISK]: 'At risk',
+  [SlaState.BREACHED]: 'Breached',
+  [SlaState.MET]: 'Met',
+};
+
+/**
+ * Timestamp the given number of hours after a date
+ */
+export const addHours = (date: string, hours: number): string =>
+  new Date(new Date(date).getTime() + hours * HOUR_MS).toISOString();
+
+/**
+ * SLA state of an item at the given time
+ * A deadline that passed before it was met breaches the SLA for good, even
+ * when the item is resolved later.
+ */
+export const getSlaState = (sla: TodoSla, now = new Date()): SlaState => {
+  const time = now.getTime();
+  const passed = (date: string) => new Date(date).getTime() < time;
+
+  if (
+    sla.missed ||
+    (!sla.startedAt && passed(sla.startBy)) ||
+    (!sla.resolvedAt && passed(sla.resolveBy))
+  ) {
+    return SlaState.BREACHED;
+  }
+  if (sla.resolvedAt) {
+    return SlaState.MET;
+  }
+  if (
+    (!sla.startedAt && passed(sla.startAtRiskAt)) ||
+    passed(sla.resolveAtRiskAt)
+  ) {
+    return SlaState.AT_RISK;
+  }
+  return SlaState.ON_TRACK;
+};
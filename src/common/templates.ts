@@ -0,0 +1,244 @@
+import {
+  ComplianceStandard,
+  TodoPriority,
+  TodoTemplate,
+  TodoTemplateTask,
+} from './types';
+
+const BUILT_IN_ID_PREFIX = 'builtin-';
+
+const STARTER_TASKS: Record<ComplianceStandard, TodoTemplateTask[]> = {
+  [ComplianceStandard.PCI_DSS]: [
+    {
+      title: 'Define the cardholder data environment scope',
+      description:
+        'Document every system that stores, processes or transmits ' +
+        'cardholder data, and the segmentation around them.',
+      priority: TodoPriority.CRITICAL,
+      tags: ['scoping'],
+      dueInDays: 7,
+    },
+    {
+      title: 'Review firewall and router rule sets',
+      priority: TodoPriority.HIGH,
+      tags: ['network'],
+      dueInDays: 14,
+    },
+    {
+      title: 'Verify stored cardholder data is encrypted',
+      priority: TodoPriority.CRITICAL,
+      tags: ['encryption'],
+      dueInDays: 21,
+    },
+    {
+      title: 'Run quarterly internal and external vulnerability scans',
+      priority: TodoPriority.HIGH,
+      tags: ['vulnerability'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Review user access to cardholder data',
+      priority: TodoPriority.HIGH,
+      tags: ['access-control'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Confirm audit logs are retained for 12 months',
+      priority: TodoPriority.MEDIUM,
+      tags: ['logging'],
+      dueInDays: 45,
+    },
+  ],
+  [ComplianceStandard.ISO_27001]: [
+    {
+      title: 'Define the ISMS scope and context',
+      priority: TodoPriority.CRITICAL,
+      tags: ['scoping'],
+      dueInDays: 7,
+    },
+    {
+      title: 'Run the information security risk assessment',
+      priority: TodoPriority.HIGH,
+      tags: ['risk'],
+      dueInDays: 21,
+    },
+    {
+      title: 'Prepare the Statement of Applicability',
+      priority: TodoPriority.HIGH,
+      tags: ['documentation'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Review the information security policies',
+      priority: TodoPriority.MEDIUM,
+      tags: ['policy'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Run the internal ISMS audit',
+      priority: TodoPriority.HIGH,
+      tags: ['audit'],
+      dueInDays: 60,
+    },
+    {
+      title: 'Hold the management review',
+      priority: TodoPriority.MEDIUM,
+      tags: ['governance'],
+      dueInDays: 75,
+    },
+  ],
+  [ComplianceStandard.SOX]: [
+    {
+      title: 'Identify key financial reporting systems',
+      priority: TodoPriority.HIGH,
+      tags: ['scoping'],
+      dueInDays: 7,
+    },
+    {
+      title: 'Review segregation of duties in financial systems',
+      priority: TodoPriority.CRITICAL,
+      tags: ['access-control'],
+      dueInDays: 21,
+    },
+    {
+      title: 'Test change management controls',
+      priority: TodoPriority.HIGH,
+      tags: ['change-management'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Review privileged access to financial data',
+      priority: TodoPriority.HIGH,
+      tags: ['access-control'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Verify backup and restore of financial systems',
+      priority: TodoPriority.MEDIUM,
+      tags: ['backup'],
+      dueInDays: 45,
+    },
+  ],
+  [ComplianceStandard.HIPAA]: [
+    {
+      title: 'Run the HIPAA security risk analysis',
+      priority: TodoPriority.CRITICAL,
+      tags: ['risk'],
+      dueInDays: 14,
+    },
+    {
+      title: 'Inventory systems holding ePHI',
+      priority: TodoPriority.HIGH,
+      tags: ['scoping'],
+      dueInDays: 7,
+    },
+    {
+      title: 'Review business associate agreements',
+      priority: TodoPriority.MEDIUM,
+      tags: ['vendor'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Verify ePHI access logging and review',
+      priority: TodoPriority.HIGH,
+      tags: ['logging'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Complete workforce security awareness training',
+      priority: TodoPriority.MEDIUM,
+      tags: ['training'],
+      dueInDays: 45,
+    },
+  ],
+  [ComplianceStandard.GDPR]: [
+    {
+      title: 'Update the record of processing activities',
+      priority: TodoPriority.HIGH,
+      tags: ['documentation'],
+      dueInDays: 14,
+    },
+    {
+      title: 'Review lawful bases and consent records',
+      priority: TodoPriority.MEDIUM,
+      tags: ['privacy'],
+      dueInDays: 21,
+    },
+    {
+      title: 'Run data protection impact assessments for new processing',
+      priority: TodoPriority.HIGH,
+      tags: ['risk'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Test the data subject request process',
+      priority: TodoPriority.MEDIUM,
+      tags: ['privacy'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Verify the 72-hour breach notification procedure',
+      priority: TodoPriority.HIGH,
+      tags: ['incident-response'],
+      dueInDays: 45,
+    },
+  ],
+  [ComplianceStandard.NIST]: [
+    {
+      title: 'Update the asset inventory (Identify)',
+      priority: TodoPriority.HIGH,
+      tags: ['asset-management'],
+      dueInDays: 14,
+    },
+    {
+      title: 'Review access control and MFA coverage (Protect)',
+      priority: TodoPriority.HIGH,
+      tags: ['access-control'],
+      dueInDays: 21,
+    },
+    {
+      title: 'Tune detection rules and alert coverage (Detect)',
+      priority: TodoPriority.MEDIUM,
+      tags: ['monitoring'],
+      dueInDays: 30,
+    },
+    {
+      title: 'Run an incident response tabletop exercise (Respond)',
+      priority: TodoPriority.MEDIUM,
+      tags: ['incident-response'],
+      dueInDays: 45,
+    },
+    {
+      title: 'Test recovery of critical systems (Recover)',
+      priority: TodoPriority.HIGH,
+      tags: ['backup'],
+      dueInDays: 60,
+    },
+  ],
+};
+
+const STARTER_NAMES: Record<ComplianceStandard, string> = {
+  [ComplianceStandard.PCI_DSS]: 'PCI DSS assessment',
+  [ComplianceStandard.ISO_27001]: 'ISO 27001 certification',
+  [ComplianceStandard.SOX]: 'SOX IT general controls',
+  [ComplianceStandard.HIPAA]: 'HIPAA security review',
+  [ComplianceStandard.GDPR]: 'GDPR compliance review',
+  [ComplianceStandard.NIST]: 'NIST CSF review',
+};
+
+/**
+ * Starter templates shipped with the plugin, one per compliance standard
+ */
+export const BUILT_IN_TEMPLATES: TodoTemplate[] = Object.values(
+  ComplianceStandard
+).map((standard) => ({
+  id: `${BUILT_IN_ID_PREFIX}${standard}`,
+  name: STARTER_NAMES[standard],
+  description: `Starter tasks for the ${STARTER_NAMES[standard]}.`,
+  complianceStandards: [standard],
+  tasks: STARTER_TASKS[standard],
+  builtIn: true,
+}));
+
+export const isBuiltInTemplateId = (id: string): boolean =>
+  id.startsWith(BUILT_IN_ID_PREFIX);
@@ -1,5 +1,6 @@
 /**
- * TODO item status enum
+ * Statuses of the default workflow
+ * Items may carry any status id defined in the active WorkflowDefinition.
  */
 export enum TodoStatus {
   PLANNED = 'planned',
@@ -31,6 +32,52 @@ export enum ComplianceStandard {
   NIST = 'nist',
 }
 
+/**
+ * How often a recurring TODO item comes back
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  QUARTERLY = 'quarterly',
+}
+
+/**
+ * Recurrence rule of a series, similar to an iCalendar RRULE
+ * An occurrence is created every `interval` periods until `endDate`.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;               // Number of periods between occurrences
+  endDate?: string | null;        // ISO 8601 date of the last possible occurrence
+}
+
+/**
+ * SLA deadlines of a TODO item and how they were met
+ * Deadlines are set from the policy target of the item's priority, counted
+ * from its creation. Cleared progress is stored as null so that partial
+ * updates overwrite it.
+ */
+export interface TodoSla {
+  startBy: string;                // ISO 8601 deadline to leave the to-do statuses
+  resolveBy: string;              // ISO 8601 deadline to reach a done or failed status
+  startAtRiskAt: string;          // At risk from then while not started
+  resolveAtRiskAt: string;        // At risk from then while not resolved
+  startedAt?: string | null;      // First time the item left a to-do status
+  resolvedAt?: string | null;     // Last time the item was done or failed
+  missed: boolean;                // Started or resolved after its deadline
+}
+
+/**
+ * SLA state of a TODO item at a point in time
+ */
+export enum SlaState {
+  ON_TRACK = 'on_track',
+  AT_RISK = 'at_risk',
+  BREACHED = 'breached',
+  MET = 'met',
+}
+
 /**
  * Core TODO entity interface
  */
@@ -38,22 +85,39 @@ export interface TodoItem {
   id: string;
   title: string;
   description?: string;
-  status: TodoStatus;
+  status: string;                 // Id of a status in the workflow definition
   priority: TodoPriority;
   tags: string[];
   complianceStandards: ComplianceStandard[];
-  assignee?: string;
+  controls?: string[];            // Keys of the mapped controls, e.g. 'pci_dss:8.3.1'
+  assignee?: string;              // Display name of the assignee
+  assigneeId?: string;            // Id in the user directory; unset on free-text assignees
   createdAt: string;              // ISO 8601 timestamp
   updatedAt: string;              // ISO 8601 timestamp
+  createdBy?: string;             // Username of the user who created the item
+  updatedBy?: string;             // Username of the user of the last write
   plannedDate?: string;           // ISO 8601 date
   completedAt?: string;           // ISO 8601 timestamp
+  completedBy?: string;           // Username of the user who moved it to a done or failed status
   dueDate?: string;               // ISO 8601 date
   errorDetails?: string;          // Error message if status is COMPLETED_ERROR
   archived: boolean;              // Whether the item is archived
-  archivedAt?: string;            // ISO 8601 timestamp when archived
+  archivedAt?: string | null;     // ISO 8601 timestamp when archived
+  archivedBy?: string;            // Username of the user who archived it
+  deletedAt?: string | null;      // ISO 8601 timestamp when moved to the trash
+  deletedBy?: string | null;      // Username of the user who deleted it
   storyPoints?: number;           // Story points for estimation
   coverImage?: string;            // URL or base64 for cover image
   position?: number;              // Position within status column (for Kanban ordering)
+  version?: number;               // Incremented on every write (optimistic concurrency)
+  recurrence?: RecurrenceRule;    // Set on every occurrence of a recurring series
+  seriesId?: string;              // Shared by all occurrences of a series
+  occurrenceIndex?: number;       // 0 for the first occurrence, then 1, 2, ...
+  occurrenceStart?: string;       // ISO 8601 start of the occurrence's period
+  sla?: TodoSla;                  // Set while an SLA policy is enabled
+  externalKey?: string;           // Id in the system the item was imported from
+  projectId?: string;             // Unset on older items of the default project
+  alert?: TodoAlertSource;        // Set on items created from a Wazuh alert
 }
 
 /**
@@ -62,15 +126,20 @@ export interface TodoItem {
 export interface CreateTodoRequest {
   title: string;
   description?: string;
-  priority: TodoPriority;
+  priority?: TodoPriority;        // Defaults to the priority of the project
   tags?: string[];
   complianceStandards?: ComplianceStandard[];
+  controls?: string[];
   assignee?: string;
+  assigneeId?: string;
   plannedDate?: string;
   dueDate?: string;
-  status?: TodoStatus;
+  status?: string;
   storyPoints?: number;
   coverImage?: string;
+  recurrence?: RecurrenceRule;    // Starts a series with this item as first occurrence
+  externalKey?: string;
+  alert?: TodoAlertSource;        // Set by the alert ingestion only
 }
 
 /**
@@ -79,20 +148,24 @@ export interface CreateTodoRequest {
 export interface UpdateTodoRequest {
   title?: string;
   description?: string;
-  status?: TodoStatus;
+  status?: string;
   priority?: TodoPriority;
   tags?: string[];
   complianceStandards?: ComplianceStandard[];
+  controls?: string[];
   assignee?: string;
+  assigneeId?: string;
   plannedDate?: string;
   dueDate?: string;
   completedAt?: string;
   errorDetails?: string;
   archived?: boolean;
-  archivedAt?: string;
+  archivedAt?: string | null;     // Null clears it on restore
   storyPoints?: number;
   coverImage?: string;
   position?: number;
+  projectId?: string;             // Changed through the move endpoint only
+  version?: number;               // Version the changes are based on; rejected if stale
 }
 
 /**
@@ -100,20 +173,43 @@ export interface UpdateTodoRequest {
  */
 export interface TodoSearchParams {
   query?: string;                 // Full-text search
-  status?: TodoStatus[];          // Filter by status
+  status?: string[];              // Filter by status
   priority?: TodoPriority[];      // Filter by priority
   tags?: string[];                // Filter by tags
   complianceStandards?: ComplianceStandard[];
+  controls?: string[];            // Filter by control keys
+  slaState?: SlaState[];          // Filter by SLA state at search time
   assignee?: string;
+  assigneeId?: string;            // Filter by user id, e.g. for "my tasks"
   dateFrom?: string;              // Created after
   dateTo?: string;                // Created before
   sortField?: string;             // Field to sort by
   sortOrder?: 'asc' | 'desc';
   page?: number;
   size?: number;
+  cursor?: string;                // Page after this cursor, instead of `page`
+  previousCursor?: string;        // Cursor of a read started over, to close
   archived?: boolean;             // Filter by archived status
+  facets?: boolean;               // Count the values of the facet fields
 }
 
+/**
+ * Fields whose values are counted next to search results
+ */
+export type TodoFacetField =
+  | 'status'
+  | 'priority'
+  | 'complianceStandards'
+  | 'tags'
+  | 'assignee';
+
+/**
+ * Matching items per value of each facet field
+ * A field is counted with every active filter except its own, so the
+ * counts tell how many items choosing that value would show.
+ */
+export type TodoFacets = Record<TodoFacetField, Record<string, number>>;
+
 /**
  * Paginated response
  */
@@ -123,6 +219,21 @@ export interface PaginatedResponse<T> {
   page: number;
   size: number;
   totalPages: number;
+  nextCursor?: string;            // Next page, when paged by cursor
+}
+
+/**
+ * Search results, with the facet counts when they were asked for
+ */
+export interface TodoSearchResponse extends PaginatedResponse<TodoItem> {
+  facets?: TodoFacets;
+}
+
+/**
+ * Page of the trash, most recently deleted first
+ */
+export interface TodoTrashResponse extends PaginatedResponse<TodoItem> {
+  purgeAfterDays: number;         // Days an item stays before it is purged
 }
 
 /**
@@ -130,9 +241,832 @@ export interface PaginatedResponse<T> {
  */
 export interface TodoStatistics {
   totalCount: number;
-  byStatus: Record<TodoStatus, number>;
+  byStatus: Record<string, number>;
   byPriority: Record<TodoPriority, number>;
   byComplianceStandard: Record<ComplianceStandard, number>;
   completionRate: number;
   overdueCount: number;
+  sla: Record<SlaState, number>;  // Items per SLA state, untracked ones excluded
+}
+
+/**
+ * Requirement of a compliance standard that TODO items are mapped to
+ */
+export interface ComplianceControl {
+  key: string;                    // Unique across standards, e.g. 'iso_27001:A.9.2.3'
+  standard: ComplianceStandard;
+  id: string;                     // Requirement number within the standard
+  title: string;
+}
+
+/**
+ * How far the work on a control has come
+ */
+export enum ControlCoverageStatus {
+  OPEN = 'open',                  // At least one task is not done yet
+  COMPLETED = 'completed',        // All tasks are done
+  UNCOVERED = 'uncovered',        // No tasks
+}
+
+/**
+ * Task counts of one control, archived items excluded
+ */
+export interface ControlCoverage {
+  control: ComplianceControl;
+  status: ControlCoverageStatus;
+  openCount: number;
+  completedCount: number;
+}
+
+/**
+ * Coverage of the controls of one standard
+ */
+export interface StandardCoverage {
+  standard: ComplianceStandard;
+  controls: ControlCoverage[];
+  openControls: number;
+  completedControls: number;
+  uncoveredControls: number;
+}
+
+/**
+ * Comment on a TODO item (markdown body)
+ * Replies reference their parent comment through parentId
+ */
+export interface TodoComment {
+  id: string;
+  todoId: string;
+  parentId?: string;              // Set when the comment is a reply
+  author: string;
+  body: string;                   // Markdown content
+  createdAt: string;              // ISO 8601 timestamp
+  updatedAt: string;              // ISO 8601 timestamp
+  edited: boolean;                // Whether the body was changed after posting
+}
+
+/**
+ * Request to create a comment
+ */
+export interface CreateCommentRequest {
+  body: string;
+  parentId?: string;
+}
+
+/**
+ * Request to update a comment
+ */
+export interface UpdateCommentRequest {
+  body: string;
+}
+
+/**
+ * Write operations recorded in the change history
+ */
+export enum TodoHistoryAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  BULK_UPDATE = 'bulk_update',
+  ARCHIVE = 'archive',
+  RESTORE = 'restore',
+  REORDER = 'reorder',
+  MOVE = 'move',                  // To another project
+  DELETE = 'delete',              // To the trash
+  SERIES_UPDATE = 'series_update',
+  UNDELETE = 'undelete',          // Out of the trash
+  PURGE = 'purge',                // Deleted permanently
+}
+
+/**
+ * Single field change of a TODO item
+ * Create and delete entries have no field and carry a snapshot of the item
+ * in newValue/oldValue respectively.
+ */
+export interface TodoHistoryEntry {
+  id: string;
+  todoId: string;
+  action: TodoHistoryAction;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  actor: string;
+  timestamp: string;              // ISO 8601 timestamp
+}
+
+/**
+ * Hours allowed to start and to resolve an item of one priority
+ */
+export interface SlaTarget {
+  startHours: number;
+  resolveHours: number;
+}
+
+/**
+ * SLA targets per priority, configured on the server
+ */
+export interface SlaPolicy {
+  enabled: boolean;
+  targets: Record<TodoPriority, SlaTarget>;
+  atRiskPercent: number;          // Share of the time to a deadline after which an item is at risk
+  updatedAt?: string;             // ISO 8601 timestamp
+  updatedBy?: string;
+}
+
+/**
+ * Lifecycle stage of a workflow status
+ * Statistics and due date checks work on categories, so they keep working
+ * with custom statuses.
+ */
+export enum WorkflowStatusCategory {
+  TODO = 'todo',
+  ACTIVE = 'active',
+  BLOCKED = 'blocked',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+/**
+ * Display color of a workflow status (EUI color names)
+ */
+export type WorkflowStatusColor =
+  | 'subdued'
+  | 'primary'
+  | 'accent'
+  | 'success'
+  | 'warning'
+  | 'danger';
+
+/**
+ * Fields a status can require before an item may enter it
+ */
+export type WorkflowRequiredField = 'errorDetails' | 'description' | 'assignee';
+
+/**
+ * Single status of the workflow
+ */
+export interface WorkflowStatus {
+  id: string;                     // Value stored in TodoItem.status
+  label: string;
+  color: WorkflowStatusColor;
+  icon: string;                   // EUI icon type
+  category: WorkflowStatusCategory;
+  requiredFields?: WorkflowRequiredField[];
+}
+
+/**
+ * Statuses and allowed transitions of TODO items
+ * Statuses are listed in display order. `transitions` maps a status id to the
+ * statuses an item may move to from there; an empty list makes it final.
+ */
+export interface WorkflowDefinition {
+  statuses: WorkflowStatus[];
+  initialStatus: string;          // Status of newly created items
+  transitions: Record<string, string[]>;
+  updatedAt?: string;             // ISO 8601 timestamp
+  updatedBy?: string;
+}
+
+/**
+ * Changes applied to the open occurrences of a recurring series
+ * Completed occurrences keep their values.
+ */
+export interface SeriesUpdateRequest {
+  title?: string;
+  description?: string;
+  priority?: TodoPriority;
+  tags?: string[];
+  complianceStandards?: ComplianceStandard[];
+  controls?: string[];
+  assignee?: string;
+  assigneeId?: string;
+  storyPoints?: number;
+  recurrence?: RecurrenceRule;
+}
+
+/**
+ * Task of a compliance template
+ * Due dates are relative to the day the template is instantiated.
+ */
+export interface TodoTemplateTask {
+  title: string;
+  description?: string;
+  priority: TodoPriority;
+  tags?: string[];
+  complianceStandards?: ComplianceStandard[];
+  assignee?: string;
+  storyPoints?: number;
+  dueInDays?: number;             // Days after the start date the task is due
+}
+
+/**
+ * Named set of tasks created together, e.g. the checklist of an audit
+ */
+export interface TodoTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  complianceStandards: ComplianceStandard[];  // Added to every task
+  tasks: TodoTemplateTask[];
+  builtIn: boolean;               // Shipped with the plugin and read-only
+  createdAt?: string;             // ISO 8601 timestamp, unset when built in
+  updatedAt?: string;             // ISO 8601 timestamp, unset when built in
+}
+
+/**
+ * Request to create or replace a template
+ */
+export interface SaveTemplateRequest {
+  name: string;
+  description?: string;
+  complianceStandards?: ComplianceStandard[];
+  tasks: TodoTemplateTask[];
+}
+
+/**
+ * Options for creating the tasks of a template
+ */
+export interface InstantiateTemplateRequest {
+  startDate?: string;             // Base of the relative due dates, defaults to now
+  assignee?: string;              // Replaces the assignee of every task
+}
+
+/**
+ * Outcome of instantiating a template
+ * All created tasks carry `batchTag`.
+ */
+export interface TemplateInstantiationResult {
+  batchTag: string;
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Page of the app
+ */
+export type TodoViewType =
+  | 'board'
+  | 'table'
+  | 'archived'
+  | 'stats'
+  | 'coverage'
+  | 'trash';
+
+/**
+ * Who can see a saved view
+ */
+export enum SavedViewVisibility {
+  PRIVATE = 'private',            // Only the owner
+  SHARED = 'shared',              // Everyone, but only the owner can change it
+}
+
+/**
+ * Named filters, sort order and page, e.g. "Critical HIPAA items by due date"
+ * `pinned` and `editable` are resolved for the user who lists the views.
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  owner: string;                  // Username of the creator
+  visibility: SavedViewVisibility;
+  viewType: TodoViewType;
+  params: TodoSearchParams;       // Without paging
+  pinned: boolean;                // Shown as a tab for the current user
+  editable: boolean;              // The current user owns the view
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request to create or replace a saved view
+ */
+export interface SaveViewRequest {
+  name: string;
+  visibility: SavedViewVisibility;
+  viewType: TodoViewType;
+  params: TodoSearchParams;
+}
+
+/**
+ * Values a project gives the items created in it when they are left empty
+ */
+export interface ProjectDefaults {
+  priority?: TodoPriority;
+  assignee?: string;
+  tags?: string[];
+  complianceStandards?: ComplianceStandard[];
+}
+
+/**
+ * Separate board of TODO items, e.g. one per team or audit
+ * Items created before projects existed belong to the default project.
+ */
+export interface TodoProject {
+  id: string;
+  key: string;                    // Short unique code, e.g. 'PCI'
+  name: string;
+  description?: string;
+  members: string[];              // Usernames with access; empty for everyone
+  defaults: ProjectDefaults;
+  builtIn: boolean;               // The default project, which cannot be deleted
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request to create or replace a project
+ */
+export interface SaveProjectRequest {
+  key: string;
+  name: string;
+  description?: string;
+  members: string[];
+  defaults: ProjectDefaults;
+}
+
+/**
+ * Role of a user in the plugin, mapped from their OpenSearch Security roles
+ */
+export enum TodoRole {
+  VIEWER = 'viewer',              // Reads only
+  EDITOR = 'editor',              // Creates, changes and deletes single items
+  ADMIN = 'admin',                // Also deletes in bulk and seeds data
+}
+
+/**
+ * What a role allows on the TODO items
+ */
+export enum TodoPermission {
+  READ = 'read',
+  CREATE = 'create',
+  EDIT = 'edit',
+  DELETE = 'delete',
+  MANAGE = 'manage',              // Bulk delete, delete all, seed and permanent deletes
+}
+
+/**
+ * Permissions of the current user, as returned by /me/permissions
+ */
+export interface TodoPermissions {
+  username: string;
+  role: TodoRole;
+  readOnly: boolean;              // Has a read-only role of the security plugin
+  permissions: TodoPermission[];
+}
+
+/**
+ * Person who can be assigned to items, from the user directory
+ */
+export interface TodoUser {
+  id: string;                     // Username in the security plugin; stable
+  displayName: string;
+  email?: string;
+}
+
+/**
+ * Rows of an uploaded file, already mapped to TODO fields
+ * Values are validated like the fields of a new item.
+ */
+export interface TodoImportRequest {
+  rows: Array<Record<string, unknown>>;
+  upsert?: boolean;               // Update items with the same externalKey
+}
+
+/**
+ * What the import does with a row
+ */
+export enum TodoImportAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+}
+
+/**
+ * Validation outcome of one row, numbered from 1
+ */
+export interface TodoImportRowResult {
+  row: number;
+  action: TodoImportAction;
+  errors: string[];               // Empty when the row can be imported
+}
+
+/**
+ * Outcome of an import; rows with errors are skipped
+ */
+export interface TodoImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+/**
+ * State of a managed index compared to the mapping registry
+ */
+export enum IndexMigrationState {
+  CURRENT = 'current',            // Served by the index of the registry version
+  PENDING = 'pending',            // Served by an older index, not migrated yet
+  RUNNING = 'running',            // Being copied into the registry version
+  FAILED = 'failed',              // The older index still serves
+  MISSING = 'missing',            // Created on first use
+}
+
+/**
+ * Migration status of one managed index
+ */
+export interface IndexMigrationStatus {
+  alias: string;
+  version: number;                // Mapping version of the registry
+  index?: string;                 // Physical index behind the alias
+  currentVersion?: number;        // Mapping version of that index
+  state: IndexMigrationState;
+  documents?: number;
+  migratedFrom?: string;          // Index of the last migration's data
+  startedAt?: string;             // ISO 8601 timestamps of the last migration
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Health of the plugin's storage
+ */
+export interface PluginDiagnostics {
+  clusterStatus: string;          // green, yellow or red
+  indices: IndexMigrationStatus[];
+}
+
+/**
+ * Lifecycle events a webhook can subscribe to
+ * One write can raise several events, e.g. `updated` and `status_changed`.
+ */
+export enum WebhookEvent {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  STATUS_CHANGED = 'status_changed',
+  ASSIGNED = 'assigned',
+  ARCHIVED = 'archived',
+  DELETED = 'deleted',
+  BULK_CREATED = 'bulk_created',  // Imports, templates and seed data
+  BULK_UPDATED = 'bulk_updated',  // Bulk status, priority, assign and restore
+  BULK_ARCHIVED = 'bulk_archived',
+  BULK_DELETED = 'bulk_deleted',
+  PING = 'ping',                  // Test delivery, sent to every webhook
+}
+
+/**
+ * Subscription of an HTTP endpoint to TODO events
+ * The secret is never returned; `hasSecret` tells whether one is set.
+ */
+export interface TodoWebhook {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  hasSecret: boolean;
+  createdBy: string;
+  createdAt: string;              // ISO 8601 timestamps
+  updatedAt: string;
+}
+
+/**
+ * Request to create or replace a webhook
+ * A missing secret keeps the current one; an empty one removes it.
+ */
+export interface SaveWebhookRequest {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  secret?: string;
+}
+
+/**
+ * JSON body of a delivery
+ * Signed with HMAC-SHA256 of the webhook secret in the
+ * `X-Todo-Signature: sha256=<hex>` header.
+ */
+export interface WebhookPayload {
+  id: string;                     // Delivery id, the same on every attempt
+  event: WebhookEvent;
+  timestamp: string;              // ISO 8601 time of the write
+  actor: string;                  // Username behind the write
+  todo?: TodoItem;                // Item after the write; before a deletion
+  previous?: TodoItem;            // Item before an update
+  todos?: TodoItem[];             // Items of a bulk operation
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',            // Waiting for its first attempt or a retry
+  SUCCEEDED = 'succeeded',        // The endpoint answered with 2xx
+  FAILED = 'failed',              // Every attempt failed
+}
+
+/**
+ * One event sent to one webhook, with the outcome of its attempts
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;        // HTTP status of the last attempt
+  error?: string;                 // Why the last attempt failed
+  payload: WebhookPayload;
+  createdAt: string;              // ISO 8601 timestamps
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;         // Set while the delivery is pending
+}
+
+/**
+ * Conditions an alert must meet to become an item
+ * Unset conditions match every alert; list conditions match any of their
+ * values.
+ */
+export interface IngestionRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minLevel?: number;              // rule.level at or above
+  groups?: string[];              // Any of rule.groups
+  agents?: string[];              // agent.name or agent.id
+  ruleIds?: string[];             // rule.id
+  priority?: TodoPriority;        // Derived from the rule level when unset
+  tags?: string[];                // Added to the 'wazuh' tag
+}
+
+/**
+ * Where alerts are read from and which of them become items
+ */
+export interface IngestionPolicy {
+  enabled: boolean;
+  indexPattern: string;           // e.g. 'wazuh-alerts-*'
+  timestampField: string;         // Field alerts are read in order of
+  lookbackMinutes: number;        // How far back the first run reads
+  fingerprintFields: string[];    // Alerts with the same values are repeats
+  documentUrl: string;            // Link to an alert; {index} and {id} are replaced
+  rules: IngestionRule[];         // The first matching rule wins
+  updatedAt?: string;             // ISO 8601 timestamp
+  updatedBy?: string;
+}
+
+/**
+ * Alert an item was created from, and how often it came back since
+ */
+export interface TodoAlertSource {
+  fingerprint: string;
+  ruleId?: string;                // Wazuh rule id
+  ruleLevel?: number;
+  agent?: string;                 // Name of the agent that raised the alert
+  ingestionRuleId: string;        // Id of the matching ingestion rule
+  index: string;                  // Index and id of the latest alert
+  documentId: string;
+  url: string;                    // Link to the latest alert
+  count: number;                  // Alerts seen, the first one included
+  firstSeenAt: string;            // ISO 8601 timestamps of the alerts
+  lastSeenAt: string;
+}
+
+/**
+ * Outcome of one ingestion run
+ */
+export interface IngestionRunResult {
+  startedAt: string;              // ISO 8601 timestamp
+  alerts: number;                 // Alerts read
+  created: number;                // Items created
+  repeated: number;               // Alerts counted on an open item
+  error?: string;                 // Why the run stopped early
+}
+
+export interface IngestionStatus {
+  checkpoint?: string;            // Time of the last alert read
+  lastRun?: IngestionRunResult;
+}
+
+/**
+ * Changes that run an automation rule
+ * `due_date_passed` is checked by the server every few minutes; the others
+ * run right after the write, bulk writes included.
+ */
+export enum AutomationTrigger {
+  CREATED = 'created',
+  STATUS_CHANGED = 'status_changed',
+  PRIORITY_CHANGED = 'priority_changed',
+  DUE_DATE_PASSED = 'due_date_passed',
+}
+
+/**
+ * Item fields conditions can check
+ * List fields such as tags match when any of their values does.
+ */
+export type AutomationField =
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'tags'
+  | 'complianceStandards'
+  | 'controls'
+  | 'projectId'
+  | 'title';
+
+export enum AutomationOperator {
+  EQUALS = 'equals',
+  NOT_EQUALS = 'not_equals',
+  IN = 'in',                      // Any of the values
+  NOT_IN = 'not_in',
+  CONTAINS = 'contains',          // Substring, ignoring case
+  IS_SET = 'is_set',
+  IS_NOT_SET = 'is_not_set',
+}
+
+export interface AutomationCondition {
+  field: AutomationField;
+  operator: AutomationOperator;
+  value?: string | string[];      // A list for `in` and `not_in`
+}
+
+export enum AutomationActionType {
+  SET_FIELD = 'set_field',
+  ADD_TAG = 'add_tag',
+  ASSIGN = 'assign',
+  ARCHIVE = 'archive',
+  CREATE_FOLLOW_UP = 'create_follow_up',
+}
+
+// Fields the set field action can write
+export type AutomationSetField = 'status' | 'priority' | 'dueDate';
+
+/**
+ * What a rule does to the item that matched
+ * Only the fields of the action type are used.
+ */
+export interface AutomationAction {
+  type: AutomationActionType;
+  field?: AutomationSetField;     // set_field
+  value?: string;                 // set_field: dueDate takes days from now
+  tag?: string;                   // add_tag
+  assignee?: string;              // assign: display name
+  assigneeId?: string;            // assign: user id, if known
+  title?: string;                 // create_follow_up: {title} is the item's
+  priority?: TodoPriority;        // create_follow_up
+  dueInDays?: number;             // create_follow_up
+}
+
+/**
+ * When an item changes in a given way and meets every condition, the
+ * actions run on it in order
+ */
+export interface AutomationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  createdBy: string;
+  createdAt: string;              // ISO 8601 timestamps
+  updatedAt: string;
+}
+
+export type SaveAutomationRuleRequest = Pick<
+  AutomationRule,
+  'name' | 'enabled' | 'trigger' | 'conditions' | 'actions'
+>;
+
+export enum AutomationExecutionStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',              // An action failed; earlier ones were applied
+}
+
+/**
+ * One run of a rule on one item
+ */
+export interface AutomationExecution {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationTrigger;
+  todoId: string;
+  todoTitle: string;
+  status: AutomationExecutionStatus;
+  actions: string[];              // Summary of each action applied
+  followUpIds?: string[];         // Items created by the rule
+  error?: string;
+  actor: string;                  // Username behind the write that triggered it
+  dueDate?: string;               // Due date that passed, for due_date_passed
+  timestamp: string;              // ISO 8601 timestamp
+}
+
+export enum JobRunStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+/**
+ * Schedule and last run of a background job, shared by the Dashboards
+ * nodes
+ * A node holds the lock while it runs the job; a lock that outlives its
+ * node expires at `lockedUntil`.
+ */
+export interface JobState {
+  id: string;
+  nextRunAt: string;              // ISO 8601 timestamps
+  lastRunAt?: string;
+  lastDurationMs?: number;
+  lastStatus?: JobRunStatus;
+  lastResult?: string;            // Summary of what the last run did
+  lastError?: string;
+  lastNode?: string;              // Node that ran it last
+  consecutiveFailures: number;
+  lockedBy?: string;
+  lockedUntil?: string;
+}
+
+/**
+ * A background job with its state; jobs that never ran on any node have
+ * no schedule yet
+ */
+export interface JobStatus extends Partial<JobState> {
+  id: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  consecutiveFailures: number;
+}
+
+/**
+ * Retention policy of the items
+ * Completed items are archived a number of days after they were completed,
+ * and archived items are purged a number of days after they were archived.
+ * Items created before those times were recorded count from their last
+ * update. Deleted items always stay in the trash for a number of days.
+ */
+export interface RetentionPolicy {
+  archiveEnabled: boolean;
+  archiveAfterDays: number;       // Days in completed_success before archiving
+  purgeEnabled: boolean;
+  purgeAfterDays: number;         // Days archived before purging
+  trashPurgeAfterDays: number;    // Days in the trash before purging
+  legalHoldTag: string;           // Items with this tag are never purged
+  updatedAt?: string;             // ISO 8601 timestamp
+  updatedBy?: string;
+}
+
+/**
+ * Item a retention policy archives or purges, as it was at the time
+ */
+export interface RetentionItem {
+  id: string;
+  title: string;
+  status: string;
+  projectId?: string;
+  tags: string[];
+  completedAt?: string;           // ISO 8601 timestamps
+  archivedAt?: string;
+  archivedBy?: string;
+  deletedAt?: string;
+  deletedBy?: string;
+  updatedAt: string;
+}
+
+/**
+ * Items a policy would affect if it ran now
+ * The lists hold the oldest items; the totals count all of them.
+ */
+export interface RetentionPreview {
+  archive: { total: number; items: RetentionItem[] };
+  purge: { total: number; items: RetentionItem[] };
+  trash: { total: number; items: RetentionItem[] };
+  legalHold: number;              // Items old enough to purge but on hold
+}
+
+export interface RetentionRunResult {
+  archived: number;
+  purged: number;                 // Archived items purged
+  trashPurged: number;            // Items purged from the trash
+  failed: number;
+}
+
+/**
+ * Where the items of a purge came from
+ */
+export enum RetentionPurgeSource {
+  ARCHIVE = 'archive',
+  TRASH = 'trash',
+}
+
+/**
+ * Record of one purge, kept for auditors
+ */
+export interface RetentionPurgeSummary {
+  id: string;
+  source?: RetentionPurgeSource;  // Unset on purges of the archive before the trash
+  reason: string;                 // Why the items were removed
+  purgeAfterDays: number;         // Days of the policy the purge applied
+  legalHoldTag: string;
+  purged: number;
+  failed: number;
+  legalHold: number;              // Items spared by the legal hold
+  items: RetentionItem[];         // Items removed
+  actor: string;
+  timestamp: string;              // ISO 8601 timestamp
 }
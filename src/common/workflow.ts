@@ -0,0 +1,147 @@
+import {
+  TodoItem,
+  TodoStatus,
+  WorkflowDefinition,
+  WorkflowRequiredField,
+  WorkflowStatus,
+  WorkflowStatusCategory,
+} from './types';
+
+const DEFAULT_STATUSES: WorkflowStatus[] = [
+  {
+    id: TodoStatus.PLANNED,
+    label: 'To Do',
+    color: 'subdued',
+    icon: 'clock',
+    category: WorkflowStatusCategory.TODO,
+  },
+  {
+    id: TodoStatus.IN_PROGRESS,
+    label: 'In Progress',
+    color: 'primary',
+    icon: 'play',
+    category: WorkflowStatusCategory.ACTIVE,
+  },
+  {
+    id: TodoStatus.BLOCKED,
+    label: 'Blocked',
+    color: 'danger',
+    icon: 'crossInACircleFilled',
+    category: WorkflowStatusCategory.BLOCKED,
+  },
+  {
+    id: TodoStatus.COMPLETED_SUCCESS,
+    label: 'Done',
+    color: 'success',
+    icon: 'checkInCircleFilled',
+    category: WorkflowStatusCategory.DONE,
+  },
+  {
+    id: TodoStatus.COMPLETED_ERROR,
+    label: 'Error',
+    color: 'warning',
+    icon: 'alert',
+    category: WorkflowStatusCategory.FAILED,
+    requiredFields: ['errorDetails'],
+  },
+];
+
+/**
+ * Workflow used until an administrator saves a custom one
+ * Every status can move to every other status.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  statuses: DEFAULT_STATUSES,
+  initialStatus: TodoStatus.PLANNED,
+  transitions: DEFAULT_STATUSES.reduce<Record<string, string[]>>(
+    (acc, status) => ({
+      ...acc,
+      [status.id]: DEFAULT_STATUSES.filter((s) => s.id !== status.id).map(
+        (s) => s.id
+      ),
+    }),
+    {}
+  ),
+};
+
+export const WORKFLOW_REQUIRED_FIELD_LABELS: Record<
+  WorkflowRequiredField,
+  string
+> = {
+  errorDetails: 'Error details',
+  description: 'Description',
+  assignee: 'Assignee',
+};
+
+export const WORKFLOW_CATEGORY_LABELS: Record<
+  WorkflowStatusCategory,
+  string
+> = {
+  [WorkflowStatusCategory.TODO]: 'To do',
+  [WorkflowStatusCategory.ACTIVE]: 'In progress',
+  [WorkflowStatusCategory.BLOCKED]: 'Blocked',
+  [WorkflowStatusCategory.DONE]: 'Done',
+  [WorkflowStatusCategory.FAILED]: 'Failed',
+};
+
+export const getWorkflowStatus = (
+  workflow: WorkflowDefinition,
+  statusId: string
+): WorkflowStatus | undefined =>
+  workflow.statuses.find((status) => status.id === statusId);
+
+export const getStatusLabel = (
+  workflow: WorkflowDefinition,
+  statusId: string
+): string => getWorkflowStatus(workflow, statusId)?.label || statusId;
+
+/**
+ * Ids of the statuses that belong to any of the given categories
+ */
+export const getStatusIdsByCategory = (
+  workflow: WorkflowDefinition,
+  ...categories: WorkflowStatusCategory[]
+): string[] =>
+  workflow.statuses
+    .filter((status) => categories.includes(status.category))
+    .map((status) => status.id);
+
+/**
+ * Whether an item may move between two statuses
+ * Staying in the same status is always allowed, and items left in a status
+ * that is no longer defined may move anywhere.
+ */
+export const isTransitionAllowed = (
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string
+): boolean => {
+  if (from === to || !getWorkflowStatus(workflow, from)) {
+    return true;
+  }
+  return (workflow.transitions[from] || []).includes(to);
+};
+
+/**
+ * Statuses an item in the given status may move to, in display order
+ * The current status is included.
+ */
+export const getAllowedStatuses = (
+  workflow: WorkflowDefinition,
+  from: string
+): WorkflowStatus[] =>
+  workflow.statuses.filter((status) =>
+    isTransitionAllowed(workflow, from, status.id)
+  );
+
+/**
+ * Required fields of a status that are still empty on the item
+ */
+export const getMissingRequiredFields = (
+  workflow: WorkflowDefinition,
+  todo: Partial<TodoItem>,
+  statusId: string
+): WorkflowRequiredField[] =>
+  (getWorkflowStatus(workflow, statusId)?.requiredFields || []).filter(
+    (field) => !String(todo[field] ?? '').trim()
+  );
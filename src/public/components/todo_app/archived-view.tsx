@@ -16,12 +16,16 @@ import {
   Criteria,
   Pagination,
 } from "@elastic/eui";
-import { TodoItem, TodoStatus } from "../../../common/types";
+import { TodoItem, WorkflowDefinition } from "../../../common/types";
+import { TodoExportColumn, TodoExportFormat } from "../../../common/export";
+import { getWorkflowStatus } from "../../../common/workflow";
+import { STATUS_BADGE_COLORS } from "../../constants";
 import { formatDate } from "../../utils";
-import { PriorityCell, AssigneeCell, WorkCell } from "./shared";
+import { PriorityCell, AssigneeCell, WorkCell, ExportMenu } from "./shared";
 
 interface ArchivedViewProps {
   todos: TodoItem[];
+  workflow: WorkflowDefinition;
   totalItems: number;
   pageIndex: number;
   pageSize: number;
@@ -30,33 +34,31 @@ interface ArchivedViewProps {
   isLoading?: boolean;
   onPaginationChange: (page: number, size: number) => void;
   onSortChange: (field: string, direction: "asc" | "desc") => void;
-  onRestoreTodo: (id: string) => void;
-  onDeleteTodo: (id: string) => void;
+  // Actions left out are hidden
+  onRestoreTodo?: (id: string) => void;
+  onDeleteTodo?: (id: string) => void;
   onBulkRestore?: (ids: string[]) => void;
   onBulkDelete?: (ids: string[]) => void;
+  // Downloads every archived item in the current sort order
+  onExport?: (format: TodoExportFormat, columns: TodoExportColumn[]) => void;
   isPending?: (id: string) => boolean;
 }
 
-const STATUS_LABELS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: "To Do",
-  [TodoStatus.IN_PROGRESS]: "In Progress",
-  [TodoStatus.BLOCKED]: "Blocked",
-  [TodoStatus.COMPLETED_SUCCESS]: "Done",
-  [TodoStatus.COMPLETED_ERROR]: "Error",
-};
-
-const STATUS_COLORS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: "default",
-  [TodoStatus.IN_PROGRESS]: "primary",
-  [TodoStatus.BLOCKED]: "warning",
-  [TodoStatus.COMPLETED_SUCCESS]: "success",
-  [TodoStatus.COMPLETED_ERROR]: "danger",
-};
-
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// Fields of the table columns, the work column shows id and title
+const EXPORT_COLUMNS: TodoExportColumn[] = [
+  "id",
+  "title",
+  "priority",
+  "status",
+  "archivedAt",
+  "assignee",
+];
+
 export const ArchivedView: React.FC<ArchivedViewProps> = ({
   todos,
+  workflow,
   totalItems,
   pageIndex,
   pageSize,
@@ -69,6 +71,7 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
   onDeleteTodo,
   onBulkRestore,
   onBulkDelete,
+  onExport,
   isPending = () => false,
 }) => {
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
@@ -161,11 +164,15 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
       name: "Status",
       width: "150px",
       sortable: true,
-      render: (status: TodoStatus) => (
-        <EuiBadge color={STATUS_COLORS[status]}>
-          {STATUS_LABELS[status]}
-        </EuiBadge>
-      ),
+      render: (status: string) => {
+        const config = getWorkflowStatus(workflow, status);
+        const color = config ? STATUS_BADGE_COLORS[config.color] : "hollow";
+        return (
+          <EuiBadge color={color}>
+            {config?.label || status}
+          </EuiBadge>
+        );
+      },
     },
     {
       field: "archivedAt",
@@ -191,28 +198,32 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
         const pending = isPending(todo.id);
         return (
           <EuiFlexGroup gutterSize="s" responsive={false}>
-            <EuiFlexItem grow={false}>
-              <EuiButtonEmpty
-                size="s"
-                iconType={pending ? "empty" : "refresh"}
-                onClick={() => onRestoreTodo(todo.id)}
-                isLoading={pending}
-                isDisabled={pending}
-              >
-                Restore
-              </EuiButtonEmpty>
-            </EuiFlexItem>
-            <EuiFlexItem grow={false}>
-              <EuiButtonEmpty
-                size="s"
-                iconType="trash"
-                color="danger"
-                onClick={() => setItemToDelete(todo.id)}
-                isDisabled={pending}
-              >
-                Delete
-              </EuiButtonEmpty>
-            </EuiFlexItem>
+            {onRestoreTodo && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty
+                  size="s"
+                  iconType={pending ? "empty" : "refresh"}
+                  onClick={() => onRestoreTodo(todo.id)}
+                  isLoading={pending}
+                  isDisabled={pending}
+                >
+                  Restore
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
+            {onDeleteTodo && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty
+                  size="s"
+                  iconType="trash"
+                  color="danger"
+                  onClick={() => setItemToDelete(todo.id)}
+                  isDisabled={pending}
+                >
+                  Delete
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
           </EuiFlexGroup>
         );
       },
@@ -248,9 +259,23 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
   return (
     <>
       <div className="todo-table archived-view__container">
-        <div className="todo-table__header">
-          <h3>Archived work items</h3>
-        </div>
+        <EuiFlexGroup
+          alignItems="center"
+          justifyContent="spaceBetween"
+          responsive={false}
+          className="todo-table__header"
+        >
+          <EuiFlexItem grow={false}>
+            <h3>Archived work items</h3>
+          </EuiFlexItem>
+          {onExport && (
+            <EuiFlexItem grow={false}>
+              <ExportMenu
+                onExport={(format) => onExport(format, EXPORT_COLUMNS)}
+              />
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
 
         <EuiFlexGroup
           alignItems="center"
@@ -276,25 +301,29 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
           </EuiFlexItem>
           {selectedItems.length > 0 && (
             <>
-              <EuiFlexItem grow={false}>
-                <EuiButton
-                  size="s"
-                  iconType="refresh"
-                  onClick={handleBulkRestore}
-                >
-                  Restore ({selectedItems.length})
-                </EuiButton>
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiButton
-                  size="s"
-                  iconType="trash"
-                  color="danger"
-                  onClick={() => setShowBulkDeleteConfirm(true)}
-                >
-                  Delete ({selectedItems.length})
-                </EuiButton>
-              </EuiFlexItem>
+              {onBulkRestore && (
+                <EuiFlexItem grow={false}>
+                  <EuiButton
+                    size="s"
+                    iconType="refresh"
+                    onClick={handleBulkRestore}
+                  >
+                    Restore ({selectedItems.length})
+                  </EuiButton>
+                </EuiFlexItem>
+              )}
+              {onBulkDelete && (
+                <EuiFlexItem grow={false}>
+                  <EuiButton
+                    size="s"
+                    iconType="trash"
+                    color="danger"
+                    onClick={() => setShowBulkDeleteConfirm(true)}
+                  >
+                    Delete ({selectedItems.length})
+                  </EuiButton>
+                </EuiFlexItem>
+              )}
             </>
           )}
         </EuiFlexGroup>
@@ -324,7 +353,7 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
           title="Delete archived item?"
           onCancel={() => setItemToDelete(null)}
           onConfirm={() => {
-            onDeleteTodo(itemToDelete);
+            onDeleteTodo?.(itemToDelete);
             setItemToDelete(null);
           }}
           cancelButtonText="Cancel"
@@ -332,8 +361,8 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
           buttonColor="danger"
         >
           <p>
-            This action cannot be undone. The work item will be permanently
-            deleted.
+            The work item will be moved to the trash, where it can be restored
+            until it is purged.
           </p>
         </EuiConfirmModal>
       )}
@@ -350,9 +379,10 @@ export const ArchivedView: React.FC<ArchivedViewProps> = ({
           buttonColor="danger"
         >
           <p>
-            This action cannot be undone.{" "}
             {selectedItems.length > 1 ? "These items" : "This item"} will be
-            permanently deleted.
+            moved to the trash, where{" "}
+            {selectedItems.length > 1 ? "they" : "it"} can be restored until
+            {selectedItems.length > 1 ? " they are" : " it is"} purged.
           </p>
         </EuiConfirmModal>
       )}
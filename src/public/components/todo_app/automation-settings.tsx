@@ -0,0 +1,997 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiTitle,
+  EuiText,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiBadge,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiToolTip,
+  EuiSpacer,
+  EuiLoadingSpinner,
+  EuiConfirmModal,
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiFieldNumber,
+  EuiComboBox,
+  EuiSwitch,
+  EuiSelect,
+  EuiTabs,
+  EuiTab,
+  EuiHealth,
+  EuiBasicTable,
+} from "@elastic/eui";
+import {
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationExecution,
+  AutomationExecutionStatus,
+  AutomationField,
+  AutomationOperator,
+  AutomationRule,
+  AutomationSetField,
+  AutomationTrigger,
+  SaveAutomationRuleRequest,
+  TodoPriority,
+  TodoUser,
+  WorkflowDefinition,
+} from "../../../common/types";
+import {
+  AUTOMATION_ACTION_LABELS,
+  AUTOMATION_FIELD_LABELS,
+  AUTOMATION_OPERATOR_LABELS,
+  AUTOMATION_TRIGGER_LABELS,
+  isListOperator,
+  isValuelessOperator,
+} from "../../../common/automation";
+import { PRIORITY_OPTIONS, UserPicker } from "./shared";
+import { formatDate } from "../../utils";
+
+const toSelectOptions = (labels: Record<string, string>) =>
+  Object.entries(labels).map(([value, text]) => ({ value, text }));
+
+const TRIGGER_OPTIONS = toSelectOptions(AUTOMATION_TRIGGER_LABELS);
+const FIELD_OPTIONS = toSelectOptions(AUTOMATION_FIELD_LABELS);
+const OPERATOR_OPTIONS = toSelectOptions(AUTOMATION_OPERATOR_LABELS);
+const ACTION_OPTIONS = toSelectOptions(AUTOMATION_ACTION_LABELS);
+
+const SET_FIELD_OPTIONS: Array<{ value: AutomationSetField; text: string }> =
+  [
+    { value: "status", text: "Status" },
+    { value: "priority", text: "Priority" },
+    { value: "dueDate", text: "Due date" },
+  ];
+
+const PRIORITY_SELECT_OPTIONS = PRIORITY_OPTIONS.filter(
+  (option) => option.value !== "all"
+).map((option) => ({ value: option.value, text: option.inputDisplay }));
+
+const EXECUTION_STATUS_COLORS: Record<AutomationExecutionStatus, string> = {
+  [AutomationExecutionStatus.SUCCEEDED]: "success",
+  [AutomationExecutionStatus.FAILED]: "danger",
+};
+
+const NEW_RULE: SaveAutomationRuleRequest = {
+  name: "",
+  enabled: true,
+  trigger: AutomationTrigger.STATUS_CHANGED,
+  conditions: [],
+  actions: [{ type: AutomationActionType.ADD_TAG, tag: "" }],
+};
+
+type SettingsTab = "rules" | "executions";
+
+interface AutomationSettingsProps {
+  rules: AutomationRule[];
+  executions: AutomationExecution[];
+  workflow: WorkflowDefinition;
+  users: TodoUser[];
+  isLoading?: boolean;
+  isLoadingExecutions?: boolean;
+  // Rule the execution log shows, empty for all of them
+  logRuleId: string;
+  onLogRuleChange: (ruleId: string) => void;
+  onSave: (
+    id: string | undefined,
+    data: SaveAutomationRuleRequest
+  ) => Promise<void>;
+  onDelete: (rule: AutomationRule) => Promise<void>;
+  onRefreshExecutions: () => void;
+  onClose: () => void;
+}
+
+const toRequest = (rule: AutomationRule): SaveAutomationRuleRequest => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  trigger: rule.trigger,
+  conditions: rule.conditions,
+  actions: rule.actions,
+});
+
+const asList = (value?: string | string[]): string[] =>
+  value == null ? [] : Array.isArray(value) ? value : [value];
+
+// Value of a condition in the shape its operator takes
+const valueFor = (
+  operator: AutomationOperator,
+  value?: string | string[]
+): string | string[] | undefined => {
+  if (isValuelessOperator(operator)) {
+    return undefined;
+  }
+  const values = asList(value);
+  return isListOperator(operator) ? values : values[0] || "";
+};
+
+const isConditionComplete = ({ operator, value }: AutomationCondition) =>
+  isValuelessOperator(operator) ||
+  (asList(value).length > 0 && asList(value).every((v) => !!v.trim()));
+
+const isActionComplete = (action: AutomationAction) => {
+  switch (action.type) {
+    case AutomationActionType.SET_FIELD:
+      return (
+        !!action.field &&
+        !!action.value &&
+        (action.field !== "dueDate" || /^\d+$/.test(action.value))
+      );
+    case AutomationActionType.ADD_TAG:
+      return !!action.tag?.trim();
+    case AutomationActionType.ASSIGN:
+      return !!action.assignee;
+    case AutomationActionType.CREATE_FOLLOW_UP:
+      return !!action.title?.trim();
+    default:
+      return true;
+  }
+};
+
+interface ConditionValueProps {
+  condition: AutomationCondition;
+  workflow: WorkflowDefinition;
+  onChange: (value: string | string[]) => void;
+}
+
+// Value of a condition; statuses and priorities are picked from a list
+const ConditionValue: React.FC<ConditionValueProps> = ({
+  condition: { field, operator, value },
+  workflow,
+  onChange,
+}) => {
+  const choices =
+    field === "status"
+      ? workflow.statuses.map((status) => ({
+          value: status.id,
+          text: status.label,
+        }))
+      : field === "priority"
+      ? PRIORITY_SELECT_OPTIONS
+      : undefined;
+
+  if (isListOperator(operator)) {
+    const values = asList(value);
+    const labelOf = (v: string) =>
+      choices?.find((choice) => choice.value === v)?.text || v;
+    return (
+      <EuiComboBox
+        compressed
+        aria-label="Values"
+        placeholder="Values"
+        noSuggestions={!choices}
+        options={choices?.map((choice) => ({
+          label: choice.text,
+          value: choice.value,
+        }))}
+        selectedOptions={values.map((v) => ({ label: labelOf(v), value: v }))}
+        onCreateOption={
+          choices ? undefined : (created) => onChange([...values, created])
+        }
+        onChange={(selected) =>
+          onChange(selected.map((option) => option.value || option.label))
+        }
+      />
+    );
+  }
+
+  return choices ? (
+    <EuiSelect
+      compressed
+      aria-label="Value"
+      hasNoInitialSelection
+      options={choices}
+      value={value as string}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  ) : (
+    <EuiFieldText
+      compressed
+      aria-label="Value"
+      placeholder="Value"
+      value={(value as string) || ""}
+      maxLength={200}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+};
+
+interface ActionFieldsProps {
+  action: AutomationAction;
+  workflow: WorkflowDefinition;
+  users: TodoUser[];
+  onChange: (action: AutomationAction) => void;
+}
+
+// Values an action needs, by type
+const ActionFields: React.FC<ActionFieldsProps> = ({
+  action,
+  workflow,
+  users,
+  onChange,
+}) => {
+  switch (action.type) {
+    case AutomationActionType.SET_FIELD:
+      return (
+        <EuiFlexGroup gutterSize="s" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiSelect
+              compressed
+              aria-label="Field"
+              options={SET_FIELD_OPTIONS}
+              value={action.field}
+              onChange={(e) =>
+                onChange({
+                  ...action,
+                  field: e.target.value as AutomationSetField,
+                  value: "",
+                })
+              }
+            />
+          </EuiFlexItem>
+          <EuiFlexItem>
+            {action.field === "dueDate" ? (
+              <EuiFieldNumber
+                compressed
+                aria-label="Days from the run"
+                min={0}
+                append="days ahead"
+                value={action.value || ""}
+                onChange={(e) => onChange({ ...action, value: e.target.value })}
+              />
+            ) : (
+              <EuiSelect
+                compressed
+                aria-label="Value"
+                hasNoInitialSelection
+                options={
+                  action.field === "status"
+                    ? workflow.statuses.map((status) => ({
+                        value: status.id,
+                        text: status.label,
+                      }))
+                    : PRIORITY_SELECT_OPTIONS
+                }
+                value={action.value}
+                onChange={(e) => onChange({ ...action, value: e.target.value })}
+              />
+            )}
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      );
+    case AutomationActionType.ADD_TAG:
+      return (
+        <EuiFieldText
+          compressed
+          aria-label="Tag"
+          placeholder="Tag"
+          value={action.tag || ""}
+          maxLength={100}
+          onChange={(e) => onChange({ ...action, tag: e.target.value })}
+        />
+      );
+    case AutomationActionType.ASSIGN:
+      return (
+        <UserPicker
+          compressed
+          users={users}
+          value={action.assigneeId}
+          displayName={action.assignee}
+          placeholder="Assignee"
+          onChange={(user) =>
+            onChange({
+              ...action,
+              assignee: user?.displayName,
+              assigneeId: user?.id,
+            })
+          }
+        />
+      );
+    case AutomationActionType.CREATE_FOLLOW_UP:
+      return (
+        <EuiFlexGroup gutterSize="s" responsive={false}>
+          <EuiFlexItem>
+            <EuiFieldText
+              compressed
+              aria-label="Title"
+              placeholder="Review {title}"
+              value={action.title || ""}
+              maxLength={200}
+              onChange={(e) => onChange({ ...action, title: e.target.value })}
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiSelect
+              compressed
+              aria-label="Priority"
+              options={[
+                { value: "", text: "Same priority" },
+                ...PRIORITY_SELECT_OPTIONS,
+              ]}
+              value={action.priority || ""}
+              onChange={(e) =>
+                onChange({
+                  ...action,
+                  priority: (e.target.value as TodoPriority) || undefined,
+                })
+              }
+            />
+          </EuiFlexItem>
+          <EuiFlexItem grow={false} style={{ width: 140 }}>
+            <EuiFieldNumber
+              compressed
+              aria-label="Due in days"
+              placeholder="No due date"
+              min={0}
+              append="days"
+              value={action.dueInDays ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...action,
+                  dueInDays:
+                    e.target.value === ""
+                      ? undefined
+                      : Number(e.target.value),
+                })
+              }
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      );
+    default:
+      return null;
+  }
+};
+
+interface RuleEditorProps {
+  // Rule to edit; a new rule is created without one
+  rule?: AutomationRule;
+  workflow: WorkflowDefinition;
+  users: TodoUser[];
+  onSave: AutomationSettingsProps["onSave"];
+  onClose: () => void;
+}
+
+// Trigger, conditions and actions of a rule
+const RuleEditor: React.FC<RuleEditorProps> = ({
+  rule,
+  workflow,
+  users,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<SaveAutomationRuleRequest>(
+    rule ? toRequest(rule) : NEW_RULE
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isValid =
+    !!draft.name.trim() &&
+    draft.actions.length > 0 &&
+    draft.conditions.every(isConditionComplete) &&
+    draft.actions.every(isActionComplete);
+
+  const setCondition = (index: number, condition: AutomationCondition) =>
+    setDraft({
+      ...draft,
+      conditions: draft.conditions.map((c, i) => (i === index ? condition : c)),
+    });
+
+  const setAction = (index: number, action: AutomationAction) =>
+    setDraft({
+      ...draft,
+      actions: draft.actions.map((a, i) => (i === index ? action : a)),
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(rule?.id, { ...draft, name: draft.name.trim() });
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose} maxWidth={760}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          {rule ? "Edit rule" : "New rule"}
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiForm component="form">
+          <EuiFlexGroup gutterSize="m">
+            <EuiFlexItem>
+              <EuiFormRow label="Name" fullWidth>
+                <EuiFieldText
+                  value={draft.name}
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  fullWidth
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiFormRow label="When">
+                <EuiSelect
+                  options={TRIGGER_OPTIONS}
+                  value={draft.trigger}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      trigger: e.target.value as AutomationTrigger,
+                    })
+                  }
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+
+          <EuiSpacer size="m" />
+          <EuiTitle size="xxs">
+            <h3>If the item matches</h3>
+          </EuiTitle>
+          <EuiSpacer size="s" />
+          {draft.conditions.length === 0 && (
+            <EuiText size="xs" color="subdued">
+              <p>No conditions: the rule applies to every item.</p>
+            </EuiText>
+          )}
+          {draft.conditions.map((condition, index) => (
+            <React.Fragment key={index}>
+              <EuiFlexGroup gutterSize="s" responsive={false}>
+                <EuiFlexItem grow={false}>
+                  <EuiSelect
+                    compressed
+                    aria-label="Field"
+                    options={FIELD_OPTIONS}
+                    value={condition.field}
+                    onChange={(e) =>
+                      setCondition(index, {
+                        ...condition,
+                        field: e.target.value as AutomationField,
+                        value: valueFor(condition.operator),
+                      })
+                    }
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiSelect
+                    compressed
+                    aria-label="Operator"
+                    options={OPERATOR_OPTIONS}
+                    value={condition.operator}
+                    onChange={(e) => {
+                      const operator = e.target.value as AutomationOperator;
+                      setCondition(index, {
+                        ...condition,
+                        operator,
+                        value: valueFor(operator, condition.value),
+                      });
+                    }}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem>
+                  {!isValuelessOperator(condition.operator) && (
+                    <ConditionValue
+                      condition={condition}
+                      workflow={workflow}
+                      onChange={(value) =>
+                        setCondition(index, { ...condition, value })
+                      }
+                    />
+                  )}
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonIcon
+                    iconType="cross"
+                    aria-label="Remove condition"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        conditions: draft.conditions.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                  />
+                </EuiFlexItem>
+              </EuiFlexGroup>
+              <EuiSpacer size="xs" />
+            </React.Fragment>
+          ))}
+          <EuiButtonEmpty
+            size="xs"
+            iconType="plusInCircle"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                conditions: [
+                  ...draft.conditions,
+                  {
+                    field: "priority",
+                    operator: AutomationOperator.EQUALS,
+                    value: "",
+                  },
+                ],
+              })
+            }
+          >
+            Add condition
+          </EuiButtonEmpty>
+
+          <EuiSpacer size="m" />
+          <EuiTitle size="xxs">
+            <h3>Then</h3>
+          </EuiTitle>
+          <EuiSpacer size="s" />
+          {draft.actions.map((action, index) => (
+            <React.Fragment key={index}>
+              <EuiFlexGroup gutterSize="s" responsive={false}>
+                <EuiFlexItem grow={false}>
+                  <EuiSelect
+                    compressed
+                    aria-label="Action"
+                    options={ACTION_OPTIONS}
+                    value={action.type}
+                    onChange={(e) => {
+                      const type = e.target.value as AutomationActionType;
+                      setAction(
+                        index,
+                        type === AutomationActionType.SET_FIELD
+                          ? { type, field: "status", value: "" }
+                          : { type }
+                      );
+                    }}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem>
+                  <ActionFields
+                    action={action}
+                    workflow={workflow}
+                    users={users}
+                    onChange={(changed) => setAction(index, changed)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonIcon
+                    iconType="cross"
+                    aria-label="Remove action"
+                    isDisabled={draft.actions.length === 1}
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        actions: draft.actions.filter((_, i) => i !== index),
+                      })
+                    }
+                  />
+                </EuiFlexItem>
+              </EuiFlexGroup>
+              <EuiSpacer size="xs" />
+            </React.Fragment>
+          ))}
+          <EuiButtonEmpty
+            size="xs"
+            iconType="plusInCircle"
+            onClick={() =>
+              setDraft({
+                ...draft,
+                actions: [
+                  ...draft.actions,
+                  { type: AutomationActionType.ADD_TAG, tag: "" },
+                ],
+              })
+            }
+          >
+            Add action
+          </EuiButtonEmpty>
+
+          <EuiSpacer size="m" />
+          <EuiSwitch
+            label="Run this rule"
+            checked={draft.enabled}
+            onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+          />
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!isValid}
+        >
+          Save rule
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
+
+// Automation rules and the log of their latest executions
+export const AutomationSettings: React.FC<AutomationSettingsProps> = ({
+  rules,
+  executions,
+  workflow,
+  users,
+  isLoading = false,
+  isLoadingExecutions = false,
+  logRuleId,
+  onLogRuleChange,
+  onSave,
+  onDelete,
+  onRefreshExecutions,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<SettingsTab>("rules");
+  const [editing, setEditing] = useState<AutomationRule | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [toDelete, setToDelete] = useState<AutomationRule | null>(null);
+  const [togglingId, setTogglingId] = useState<string>();
+
+  const triggerLabel = (trigger: AutomationTrigger) =>
+    AUTOMATION_TRIGGER_LABELS[trigger].toLowerCase();
+
+  const statusLabel = (id: string) =>
+    workflow.statuses.find((status) => status.id === id)?.label || id;
+
+  const describeValue = (field: AutomationField, value: string) =>
+    field === "status" ? statusLabel(value) : value;
+
+  const describeCondition = ({
+    field,
+    operator,
+    value,
+  }: AutomationCondition) =>
+    [
+      AUTOMATION_FIELD_LABELS[field],
+      AUTOMATION_OPERATOR_LABELS[operator],
+      asList(value)
+        .map((v) => describeValue(field, v))
+        .join(", "),
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  const describeAction = (action: AutomationAction) => {
+    switch (action.type) {
+      case AutomationActionType.SET_FIELD:
+        return action.field === "dueDate"
+          ? `Set the due date ${action.value} days ahead`
+          : `Set ${action.field} to ` +
+              (action.field === "status"
+                ? statusLabel(action.value || "")
+                : action.value);
+      case AutomationActionType.ADD_TAG:
+        return `Add tag ${action.tag}`;
+      case AutomationActionType.ASSIGN:
+        return `Assign to ${action.assignee}`;
+      case AutomationActionType.CREATE_FOLLOW_UP:
+        return `Create "${action.title}"`;
+      default:
+        return AUTOMATION_ACTION_LABELS[action.type];
+    }
+  };
+
+  const handleToggle = async (rule: AutomationRule) => {
+    setTogglingId(rule.id);
+    try {
+      await onSave(rule.id, { ...toRequest(rule), enabled: !rule.enabled });
+    } catch (error) {
+      // Reported by the caller
+    } finally {
+      setTogglingId(undefined);
+    }
+  };
+
+  const showLog = (ruleId: string) => {
+    onLogRuleChange(ruleId);
+    setTab("executions");
+    onRefreshExecutions();
+  };
+
+  const executionColumns = [
+    {
+      field: "timestamp",
+      name: "Time",
+      width: "150px",
+      render: (timestamp: string) => formatDate(timestamp),
+    },
+    {
+      field: "ruleName",
+      name: "Rule",
+      truncateText: true,
+    },
+    {
+      field: "todoTitle",
+      name: "Item",
+      truncateText: true,
+    },
+    {
+      field: "status",
+      name: "Status",
+      width: "110px",
+      render: (status: AutomationExecutionStatus) => (
+        <EuiHealth color={EXECUTION_STATUS_COLORS[status]}>{status}</EuiHealth>
+      ),
+    },
+    {
+      field: "actions",
+      name: "Result",
+      truncateText: true,
+      render: (actions: string[], execution: AutomationExecution) =>
+        execution.error ? (
+          <EuiText size="xs" color="danger">
+            {execution.error}
+          </EuiText>
+        ) : (
+          actions.join(", ") || "-"
+        ),
+    },
+  ];
+
+  return (
+    <>
+      <EuiFlyout
+        ownFocus
+        onClose={onClose}
+        size="m"
+        aria-labelledby="automationTitle"
+      >
+        <EuiFlyoutHeader hasBorder>
+          <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+            <EuiFlexItem grow={false}>
+              <EuiTitle size="m">
+                <h2 id="automationTitle">Automation rules</h2>
+              </EuiTitle>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                size="s"
+                iconType="plusInCircle"
+                onClick={() => setIsCreating(true)}
+              >
+                New rule
+              </EuiButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+          <EuiSpacer size="s" />
+          <EuiText size="s" color="subdued">
+            <p>
+              Apply the same follow-ups every time items change. Rules run in
+              order of name; the changes they make do not run rules again.
+            </p>
+          </EuiText>
+          <EuiSpacer size="s" />
+          <EuiTabs size="s" style={{ marginBottom: "-17px" }}>
+            <EuiTab
+              isSelected={tab === "rules"}
+              onClick={() => setTab("rules")}
+            >
+              Rules
+            </EuiTab>
+            <EuiTab
+              isSelected={tab === "executions"}
+              onClick={() => {
+                setTab("executions");
+                onRefreshExecutions();
+              }}
+            >
+              Execution log
+            </EuiTab>
+          </EuiTabs>
+        </EuiFlyoutHeader>
+
+        <EuiFlyoutBody>
+          {tab === "executions" ? (
+            <>
+              <EuiFlexGroup gutterSize="s" alignItems="center">
+                <EuiFlexItem>
+                  <EuiSelect
+                    compressed
+                    aria-label="Rule"
+                    options={[
+                      { value: "", text: "All rules" },
+                      ...rules.map((rule) => ({
+                        value: rule.id,
+                        text: rule.name,
+                      })),
+                    ]}
+                    value={logRuleId}
+                    onChange={(e) => onLogRuleChange(e.target.value)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonEmpty
+                    size="s"
+                    iconType="refresh"
+                    onClick={onRefreshExecutions}
+                  >
+                    Refresh
+                  </EuiButtonEmpty>
+                </EuiFlexItem>
+              </EuiFlexGroup>
+              <EuiSpacer size="s" />
+              <EuiBasicTable<AutomationExecution>
+                items={executions}
+                columns={executionColumns}
+                itemId="id"
+                tableLayout="fixed"
+                loading={isLoadingExecutions}
+                noItemsMessage="No executions yet"
+              />
+            </>
+          ) : isLoading ? (
+            <EuiLoadingSpinner size="l" />
+          ) : rules.length === 0 ? (
+            <EuiText size="s" color="subdued">
+              <p>No rules yet.</p>
+            </EuiText>
+          ) : (
+            rules.map((rule) => (
+              <React.Fragment key={rule.id}>
+                <EuiPanel paddingSize="m" hasBorder>
+                  <EuiFlexGroup alignItems="flexStart" gutterSize="s">
+                    <EuiFlexItem>
+                      <EuiTitle size="xs">
+                        <h3>
+                          {rule.name}{" "}
+                          {!rule.enabled && (
+                            <EuiBadge color="default">Disabled</EuiBadge>
+                          )}
+                        </h3>
+                      </EuiTitle>
+                      <EuiSpacer size="xs" />
+                      <EuiText size="xs">
+                        <p>
+                          <strong>When</strong>{" "}
+                          {triggerLabel(rule.trigger)}
+                          {rule.conditions.length > 0 && (
+                            <>
+                              {" "}
+                              <strong>if</strong>{" "}
+                              {rule.conditions
+                                .map(describeCondition)
+                                .join(" and ")}
+                            </>
+                          )}
+                        </p>
+                      </EuiText>
+                      <EuiText size="xs" color="subdued">
+                        {rule.actions.map(describeAction).join(", ")}
+                      </EuiText>
+                    </EuiFlexItem>
+                    <EuiFlexItem grow={false}>
+                      <EuiFlexGroup gutterSize="xs" responsive={false}>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip
+                            content={rule.enabled ? "Disable" : "Enable"}
+                          >
+                            <EuiButtonIcon
+                              iconType={rule.enabled ? "pause" : "play"}
+                              aria-label={
+                                rule.enabled ? "Disable rule" : "Enable rule"
+                              }
+                              isDisabled={togglingId === rule.id}
+                              onClick={() => handleToggle(rule)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Execution log">
+                            <EuiButtonIcon
+                              iconType="list"
+                              aria-label="Show the execution log of the rule"
+                              onClick={() => showLog(rule.id)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Edit">
+                            <EuiButtonIcon
+                              iconType="pencil"
+                              aria-label="Edit rule"
+                              onClick={() => setEditing(rule)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Delete">
+                            <EuiButtonIcon
+                              iconType="trash"
+                              color="danger"
+                              aria-label="Delete rule"
+                              onClick={() => setToDelete(rule)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                      </EuiFlexGroup>
+                    </EuiFlexItem>
+                  </EuiFlexGroup>
+                </EuiPanel>
+                <EuiSpacer size="s" />
+              </React.Fragment>
+            ))
+          )}
+        </EuiFlyoutBody>
+      </EuiFlyout>
+
+      {(editing || isCreating) && (
+        <RuleEditor
+          rule={editing || undefined}
+          workflow={workflow}
+          users={users}
+          onSave={onSave}
+          onClose={() => {
+            setEditing(null);
+            setIsCreating(false);
+          }}
+        />
+      )}
+
+      {toDelete && (
+        <EuiConfirmModal
+          title={`Delete "${toDelete.name}"?`}
+          onCancel={() => setToDelete(null)}
+          onConfirm={async () => {
+            try {
+              await onDelete(toDelete);
+            } catch (error) {
+              // Reported by the caller
+            }
+            setToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          <p>
+            The rule no longer runs on new changes; its past executions stay
+            in the log.
+          </p>
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,167 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiTitle,
+  EuiText,
+  EuiSpacer,
+  EuiIcon,
+  EuiHealth,
+  EuiProgress,
+  EuiSwitch,
+  EuiBasicTable,
+  EuiLoadingSpinner,
+} from "@elastic/eui";
+import {
+  StandardCoverage,
+  ControlCoverage,
+  ControlCoverageStatus,
+} from "../../../common/types";
+import { COMPLIANCE_LABELS } from "./shared";
+
+interface CoverageViewProps {
+  coverage: StandardCoverage[] | undefined;
+  isLoading: boolean;
+}
+
+const STATUS_DISPLAY: Record<
+  ControlCoverageStatus,
+  { color: string; label: string }
+> = {
+  [ControlCoverageStatus.OPEN]: { color: "warning", label: "Open" },
+  [ControlCoverageStatus.COMPLETED]: { color: "success", label: "Completed" },
+  [ControlCoverageStatus.UNCOVERED]: { color: "subdued", label: "No tasks" },
+};
+
+const COLUMNS = [
+  {
+    field: "control.id",
+    name: "Control",
+    width: "180px",
+    render: (id: string) => <code>{id}</code>,
+  },
+  {
+    field: "control.title",
+    name: "Requirement",
+  },
+  {
+    field: "status",
+    name: "Status",
+    width: "120px",
+    render: (status: ControlCoverageStatus) => (
+      <EuiHealth color={STATUS_DISPLAY[status].color}>
+        {STATUS_DISPLAY[status].label}
+      </EuiHealth>
+    ),
+  },
+  {
+    field: "openCount",
+    name: "Open",
+    width: "80px",
+    align: "right" as const,
+  },
+  {
+    field: "completedCount",
+    name: "Completed",
+    width: "100px",
+    align: "right" as const,
+  },
+];
+
+const StandardCoveragePanel: React.FC<{
+  coverage: StandardCoverage;
+  gapsOnly: boolean;
+}> = ({ coverage, gapsOnly }) => {
+  const total = coverage.controls.length;
+  const items = gapsOnly
+    ? coverage.controls.filter(
+        (entry) => entry.status !== ControlCoverageStatus.COMPLETED
+      )
+    : coverage.controls;
+
+  return (
+    <EuiPanel className="coverage-standard" hasBorder>
+      <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+        <EuiFlexItem grow={false}>
+          <EuiTitle size="xs">
+            <h3>{COMPLIANCE_LABELS[coverage.standard]}</h3>
+          </EuiTitle>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiText size="xs" color="subdued">
+            {coverage.completedControls} completed, {coverage.openControls}{" "}
+            open, {coverage.uncoveredControls} without tasks
+          </EuiText>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+      <EuiSpacer size="s" />
+      <EuiProgress
+        value={coverage.completedControls}
+        max={total}
+        color="success"
+        size="s"
+      />
+      <EuiSpacer size="m" />
+      <EuiBasicTable<ControlCoverage>
+        items={items}
+        columns={COLUMNS}
+        itemId={(entry) => entry.control.key}
+        noItemsMessage="All controls are completed"
+        tableLayout="fixed"
+      />
+    </EuiPanel>
+  );
+};
+
+// Open, completed and uncovered controls of every compliance standard
+export const CoverageView: React.FC<CoverageViewProps> = ({
+  coverage,
+  isLoading,
+}) => {
+  const [gapsOnly, setGapsOnly] = useState(false);
+
+  if (isLoading) {
+    return (
+      <EuiFlexGroup
+        justifyContent="center"
+        alignItems="center"
+        style={{ minHeight: 400 }}
+      >
+        <EuiFlexItem grow={false}>
+          <EuiLoadingSpinner size="xl" />
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    );
+  }
+
+  if (!coverage) {
+    return (
+      <EuiPanel className="stats-empty">
+        <EuiText textAlign="center" color="subdued">
+          <EuiIcon type="securityApp" size="xxl" />
+          <h3>No coverage available</h3>
+          <p>Map TODOs to controls to see which requirements are covered</p>
+        </EuiText>
+      </EuiPanel>
+    );
+  }
+
+  return (
+    <div className="coverage-view">
+      <EuiSwitch
+        label="Only show controls that are open or without tasks"
+        checked={gapsOnly}
+        onChange={(e) => setGapsOnly(e.target.checked)}
+      />
+      <EuiSpacer size="m" />
+      {coverage.map((entry) => (
+        <React.Fragment key={entry.standard}>
+          <StandardCoveragePanel coverage={entry} gapsOnly={gapsOnly} />
+          <EuiSpacer size="m" />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 export { TodoApp } from './todo-app';
 export { StatsDashboard } from './stats-dashboard';
+export { CoverageView } from './coverage-view';
 export { KanbanBoard } from './kanban-board';
 export { TableView } from './table-view';
 export { ArchivedView } from './archived-view';
+export { TrashView } from './trash-view';
 export { TodoCard } from './todo-card';
 export { TodoModal } from './todo-modal';
 export { TodoDetailPanel } from './todo-detail-panel';
@@ -0,0 +1,520 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiFieldText,
+  EuiFieldNumber,
+  EuiComboBox,
+  EuiSelect,
+  EuiSwitch,
+  EuiPanel,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiSpacer,
+  EuiCallOut,
+  EuiLoadingSpinner,
+  EuiDescriptionList,
+} from "@elastic/eui";
+import {
+  IngestionPolicy,
+  IngestionRule,
+  IngestionStatus,
+  TodoPriority,
+} from "../../../common/types";
+import { PRIORITY_OPTIONS } from "./shared";
+import { formatDate } from "../../utils";
+
+// Priority of a rule; left unset, it follows the level of each alert
+const RULE_PRIORITY_OPTIONS = [
+  { value: "", text: "From the alert level" },
+  ...PRIORITY_OPTIONS.filter((option) => option.value !== "all").map(
+    (option) => ({ value: option.value, text: option.inputDisplay })
+  ),
+];
+
+const hasConditions = (rule: IngestionRule) =>
+  rule.minLevel !== undefined ||
+  !!rule.groups?.length ||
+  !!rule.agents?.length ||
+  !!rule.ruleIds?.length;
+
+// Free list of values, e.g. groups or agents
+const ValuesField: React.FC<{
+  values?: string[];
+  placeholder: string;
+  onChange: (values: string[]) => void;
+}> = ({ values = [], placeholder, onChange }) => (
+  <EuiComboBox
+    noSuggestions
+    compressed
+    placeholder={placeholder}
+    selectedOptions={values.map((value) => ({ label: value }))}
+    onCreateOption={(value) => {
+      const trimmed = value.trim();
+      if (trimmed && !values.includes(trimmed)) {
+        onChange([...values, trimmed]);
+      }
+    }}
+    onChange={(selected) => onChange(selected.map((option) => option.label))}
+    fullWidth
+  />
+);
+
+const RuleEditor: React.FC<{
+  rule: IngestionRule;
+  onChange: (changes: Partial<IngestionRule>) => void;
+  onRemove: () => void;
+}> = ({ rule, onChange, onRemove }) => (
+  <EuiPanel paddingSize="s" hasBorder>
+    <EuiFlexGroup gutterSize="s" alignItems="center">
+      <EuiFlexItem>
+        <EuiFieldText
+          compressed
+          aria-label="Rule name"
+          value={rule.name}
+          isInvalid={!rule.name.trim()}
+          onChange={(e) => onChange({ name: e.target.value })}
+        />
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiSwitch
+          compressed
+          label="Enabled"
+          checked={rule.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+        />
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiButtonIcon
+          iconType="trash"
+          color="danger"
+          aria-label={`Remove ${rule.name}`}
+          onClick={onRemove}
+        />
+      </EuiFlexItem>
+    </EuiFlexGroup>
+
+    <EuiSpacer size="s" />
+
+    <EuiFlexGroup gutterSize="s">
+      <EuiFlexItem>
+        <EuiFormRow label="Minimum rule level" display="rowCompressed">
+          <EuiFieldNumber
+            compressed
+            min={0}
+            max={15}
+            placeholder="Any"
+            value={rule.minLevel ?? ""}
+            onChange={(e) =>
+              onChange({
+                minLevel:
+                  e.target.value === "" ? undefined : Number(e.target.value),
+              })
+            }
+          />
+        </EuiFormRow>
+      </EuiFlexItem>
+      <EuiFlexItem>
+        <EuiFormRow label="Priority" display="rowCompressed">
+          <EuiSelect
+            compressed
+            options={RULE_PRIORITY_OPTIONS}
+            value={rule.priority || ""}
+            onChange={(e) =>
+              onChange({
+                priority: (e.target.value as TodoPriority) || undefined,
+              })
+            }
+          />
+        </EuiFormRow>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+
+    <EuiFormRow
+      label="Any of the rule groups"
+      display="rowCompressed"
+      fullWidth
+    >
+      <ValuesField
+        values={rule.groups}
+        placeholder="e.g. authentication_failed"
+        onChange={(groups) => onChange({ groups })}
+      />
+    </EuiFormRow>
+    <EuiFormRow
+      label="Any of the agents, by name or id"
+      display="rowCompressed"
+      fullWidth
+    >
+      <ValuesField
+        values={rule.agents}
+        placeholder="e.g. web-01 or 001"
+        onChange={(agents) => onChange({ agents })}
+      />
+    </EuiFormRow>
+    <EuiFormRow label="Any of the rule ids" display="rowCompressed" fullWidth>
+      <ValuesField
+        values={rule.ruleIds}
+        placeholder="e.g. 5712"
+        onChange={(ruleIds) => onChange({ ruleIds })}
+      />
+    </EuiFormRow>
+    <EuiFormRow label="Extra tags" display="rowCompressed" fullWidth>
+      <ValuesField
+        values={rule.tags}
+        placeholder="Added next to the wazuh tag"
+        onChange={(tags) => onChange({ tags })}
+      />
+    </EuiFormRow>
+  </EuiPanel>
+);
+
+const IngestionStatusPanel: React.FC<{
+  status?: IngestionStatus;
+  isRunning: boolean;
+  canRun: boolean;
+  onRun: () => void;
+}> = ({ status, isRunning, canRun, onRun }) => {
+  const lastRun = status?.lastRun;
+
+  return (
+    <EuiPanel color="subdued" paddingSize="s">
+      <EuiFlexGroup alignItems="center" gutterSize="s">
+        <EuiFlexItem>
+          <EuiDescriptionList
+            compressed
+            type="column"
+            listItems={[
+              {
+                title: "Last run",
+                description: lastRun
+                  ? `${formatDate(lastRun.startedAt)}: ${lastRun.alerts} ` +
+                    `alerts, ${lastRun.created} created, ` +
+                    `${lastRun.repeated} repeats`
+                  : "Never",
+              },
+              {
+                title: "Read up to",
+                description: status?.checkpoint
+                  ? formatDate(status.checkpoint)
+                  : "Not started",
+              },
+            ]}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            iconType="play"
+            onClick={onRun}
+            isLoading={isRunning}
+            isDisabled={!canRun}
+          >
+            Run now
+          </EuiButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+      {lastRun?.error && (
+        <>
+          <EuiSpacer size="s" />
+          <EuiCallOut
+            size="s"
+            color="warning"
+            iconType="alert"
+            title={lastRun.error}
+          />
+        </>
+      )}
+    </EuiPanel>
+  );
+};
+
+interface IngestionSettingsProps {
+  policy: IngestionPolicy | undefined;
+  status: IngestionStatus | undefined;
+  isLoading: boolean;
+  isRunning: boolean;
+  onSave: (policy: IngestionPolicy) => Promise<void>;
+  onRun: () => void;
+  onClose: () => void;
+}
+
+const IngestionPolicyForm: React.FC<
+  Omit<IngestionSettingsProps, "policy" | "isLoading"> & {
+    policy: IngestionPolicy;
+  }
+> = ({ policy, status, isRunning, onSave, onRun, onClose }) => {
+  const [draft, setDraft] = useState<IngestionPolicy>(policy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const errors = [
+    ...(draft.indexPattern.trim() ? [] : ["Enter the alerts index pattern"]),
+    ...(draft.timestampField.trim() ? [] : ["Enter the timestamp field"]),
+    ...(draft.lookbackMinutes >= 1 ? [] : ["Look back at least a minute"]),
+    ...(draft.fingerprintFields.length > 0
+      ? []
+      : ["Pick at least one fingerprint field"]),
+    ...draft.rules
+      .filter((rule) => rule.enabled && !hasConditions(rule))
+      .map((rule) => `${rule.name || "Unnamed rule"}: add a condition`),
+    ...(draft.rules.some((rule) => !rule.name.trim())
+      ? ["Every rule needs a name"]
+      : []),
+    ...(draft.enabled && !draft.rules.some((rule) => rule.enabled)
+      ? ["Enable at least one rule to ingest alerts"]
+      : []),
+  ];
+
+  const updateRule = (index: number, changes: Partial<IngestionRule>) => {
+    setDraft((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) =>
+        i === index ? { ...rule, ...changes } : rule
+      ),
+    }));
+  };
+
+  const addRule = () => {
+    setDraft((prev) => ({
+      ...prev,
+      rules: [
+        ...prev.rules,
+        {
+          id: `rule-${Date.now().toString(36)}`,
+          name: "New rule",
+          enabled: true,
+        },
+      ],
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the draft open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <EuiFlyoutBody>
+        <IngestionStatusPanel
+          status={status}
+          isRunning={isRunning}
+          canRun={policy.enabled}
+          onRun={onRun}
+        />
+
+        <EuiSpacer size="m" />
+
+        <EuiSwitch
+          label="Create items from alerts"
+          checked={draft.enabled}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, enabled: e.target.checked }))
+          }
+        />
+
+        <EuiSpacer size="m" />
+
+        <EuiFlexGroup gutterSize="s">
+          <EuiFlexItem grow={2}>
+            <EuiFormRow label="Alerts index pattern">
+              <EuiFieldText
+                value={draft.indexPattern}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    indexPattern: e.target.value,
+                  }))
+                }
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+          <EuiFlexItem grow={1}>
+            <EuiFormRow label="Timestamp field">
+              <EuiFieldText
+                value={draft.timestampField}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    timestampField: e.target.value,
+                  }))
+                }
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        <EuiFormRow
+          label="First run looks back"
+          helpText="Later runs continue from the last alert read"
+        >
+          <EuiFieldNumber
+            min={1}
+            append="minutes"
+            value={draft.lookbackMinutes}
+            onChange={(e) =>
+              setDraft((prev) => ({
+                ...prev,
+                lookbackMinutes: Number(e.target.value),
+              }))
+            }
+          />
+        </EuiFormRow>
+
+        <EuiFormRow
+          label="Fingerprint fields"
+          helpText="Alerts with the same values are counted on one open item"
+          fullWidth
+        >
+          <ValuesField
+            values={draft.fingerprintFields}
+            placeholder="e.g. rule.id"
+            onChange={(fingerprintFields) =>
+              setDraft((prev) => ({ ...prev, fingerprintFields }))
+            }
+          />
+        </EuiFormRow>
+
+        <EuiFormRow
+          label="Alert link"
+          helpText="{index} and {id} are replaced with those of the alert"
+          fullWidth
+        >
+          <EuiFieldText
+            value={draft.documentUrl}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, documentUrl: e.target.value }))
+            }
+            fullWidth
+          />
+        </EuiFormRow>
+
+        <EuiSpacer size="m" />
+
+        <EuiFlexGroup justifyContent="spaceBetween" alignItems="center">
+          <EuiFlexItem grow={false}>
+            <EuiTitle size="xs">
+              <h3>Rules</h3>
+            </EuiTitle>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty size="s" iconType="plusInCircle" onClick={addRule}>
+              Add rule
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+        <EuiText size="xs" color="subdued">
+          <p>
+            An alert must meet every condition of a rule. The first rule it
+            meets sets the priority and tags of the item.
+          </p>
+        </EuiText>
+
+        {draft.rules.map((rule, index) => (
+          <React.Fragment key={rule.id}>
+            <EuiSpacer size="s" />
+            <RuleEditor
+              rule={rule}
+              onChange={(changes) => updateRule(index, changes)}
+              onRemove={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  rules: prev.rules.filter((_, i) => i !== index),
+                }))
+              }
+            />
+          </React.Fragment>
+        ))}
+
+        {errors.length > 0 && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="Fix these before saving" color="danger">
+              <ul>
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </EuiCallOut>
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton
+              fill
+              onClick={handleSave}
+              isLoading={isSaving}
+              isDisabled={errors.length > 0}
+            >
+              Save alert ingestion
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </>
+  );
+};
+
+// Rules that turn Wazuh alerts into items, and the state of the ingestion
+export const IngestionSettings: React.FC<IngestionSettingsProps> = ({
+  policy,
+  isLoading,
+  ...props
+}) => (
+  <EuiFlyout
+    ownFocus
+    onClose={props.onClose}
+    size="m"
+    aria-labelledby="ingestionTitle"
+  >
+    <EuiFlyoutHeader hasBorder>
+      <EuiTitle size="m">
+        <h2 id="ingestionTitle">Alert ingestion</h2>
+      </EuiTitle>
+      <EuiSpacer size="s" />
+      <EuiText size="s" color="subdued">
+        <p>
+          New Wazuh alerts are checked every minute. An alert that meets a rule
+          becomes an item in the default project; repeats of it raise the count
+          on that item until it is done or archived.
+        </p>
+      </EuiText>
+    </EuiFlyoutHeader>
+
+    {isLoading || !policy ? (
+      <EuiFlyoutBody>
+        <EuiFlexGroup justifyContent="center">
+          <EuiFlexItem grow={false}>
+            <EuiLoadingSpinner size="xl" />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutBody>
+    ) : (
+      <IngestionPolicyForm policy={policy} {...props} />
+    )}
+  </EuiFlyout>
+);
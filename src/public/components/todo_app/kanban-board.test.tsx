@@ -1,7 +1,14 @@
 import * as React from "react";
 import { render, screen, fireEvent } from "@testing-library/react";
 import { KanbanBoard } from "./kanban-board";
-import { TodoItem, TodoStatus, TodoPriority } from "../../../common/types";
+import {
+  TodoItem,
+  TodoStatus,
+  TodoPriority,
+  WorkflowDefinition,
+  WorkflowStatusCategory,
+} from "../../../common/types";
+import { DEFAULT_WORKFLOW } from "../../../common/workflow";
 
 // Mock EUI Drag and Drop components
 jest.mock("@elastic/eui", () => {
@@ -123,18 +130,10 @@ const createTodosByStatus = (): Record<TodoStatus, TodoItem[]> => ({
   [TodoStatus.COMPLETED_ERROR]: [],
 });
 
-const STATUS_LABELS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: "To Do",
-  [TodoStatus.IN_PROGRESS]: "In Progress",
-  [TodoStatus.BLOCKED]: "Blocked",
-  [TodoStatus.COMPLETED_SUCCESS]: "Done",
-  [TodoStatus.COMPLETED_ERROR]: "Error",
-};
-
 describe("KanbanBoard", () => {
   const defaultProps = {
     todosByStatus: createTodosByStatus(),
-    statusLabels: STATUS_LABELS,
+    workflow: DEFAULT_WORKFLOW,
     onEditTodo: jest.fn(),
     onReorder: jest.fn(),
     onArchiveTodo: jest.fn(),
@@ -224,6 +223,42 @@ describe("KanbanBoard", () => {
     });
   });
 
+  describe("Custom Workflow", () => {
+    const reviewWorkflow: WorkflowDefinition = {
+      statuses: [
+        ...DEFAULT_WORKFLOW.statuses,
+        {
+          id: "in_review",
+          label: "In Review",
+          color: "accent",
+          icon: "eye",
+          category: WorkflowStatusCategory.ACTIVE,
+        },
+      ],
+      initialStatus: TodoStatus.IN_PROGRESS,
+      transitions: DEFAULT_WORKFLOW.transitions,
+    };
+
+    it("renders a column for every workflow status", () => {
+      render(<KanbanBoard {...defaultProps} workflow={reviewWorkflow} />);
+
+      expect(screen.getByText("In Review")).toBeInTheDocument();
+      expect(screen.getByTestId("droppable-in_review")).toBeInTheDocument();
+      expect(
+        document.querySelector(".kanban-column--color-accent")
+      ).toBeInTheDocument();
+    });
+
+    it('renders "Create issue" in the initial status column', () => {
+      render(<KanbanBoard {...defaultProps} workflow={reviewWorkflow} />);
+
+      const column = document.querySelector(
+        `.kanban-column--${TodoStatus.IN_PROGRESS}`
+      );
+      expect(column?.textContent).toContain("Create issue");
+    });
+  });
+
   describe("Card Interactions", () => {
     it("calls onEditTodo when edit button is clicked", () => {
       render(<KanbanBoard {...defaultProps} />);
@@ -9,17 +9,19 @@ import {
   EuiText,
   DropResult,
 } from '@elastic/eui';
-import { TodoItem, TodoStatus } from '../../../common/types';
+import { TodoItem, WorkflowDefinition } from '../../../common/types';
+import { isTransitionAllowed } from '../../../common/workflow';
 import { TodoCard } from './todo-card';
 
 interface KanbanBoardProps {
-  todosByStatus: Record<TodoStatus, TodoItem[]>;
-  statusLabels: Record<TodoStatus, string>;
+  todosByStatus: Record<string, TodoItem[]>;
+  workflow: WorkflowDefinition;
   onEditTodo: (todo: TodoItem) => void;
-  onReorder: (id: string, status: TodoStatus, position: number) => void;
-  onArchiveTodo: (id: string) => void;
-  onDeleteTodo: (id: string) => void;
-  onCreateInStatus: () => void;
+  // Cards cannot be dragged without it
+  onReorder?: (id: string, status: string, position: number) => void;
+  onArchiveTodo?: (id: string) => void;
+  onDeleteTodo?: (id: string) => void;
+  onCreateInStatus?: () => void;
   isPending?: (id: string) => boolean;
   // Infinite scroll props
   hasMore?: boolean;
@@ -29,25 +31,9 @@ interface KanbanBoardProps {
   loadedCount?: number;
 }
 
-const COLUMN_ORDER: TodoStatus[] = [
-  TodoStatus.PLANNED,
-  TodoStatus.IN_PROGRESS,
-  TodoStatus.BLOCKED,
-  TodoStatus.COMPLETED_SUCCESS,
-  TodoStatus.COMPLETED_ERROR,
-];
-
-const COLUMN_ICONS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: 'clock',
-  [TodoStatus.IN_PROGRESS]: 'play',
-  [TodoStatus.BLOCKED]: 'crossInACircleFilled',
-  [TodoStatus.COMPLETED_SUCCESS]: 'checkInCircleFilled',
-  [TodoStatus.COMPLETED_ERROR]: 'alert',
-};
-
 export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   todosByStatus,
-  statusLabels,
+  workflow,
   onEditTodo,
   onReorder,
   onArchiveTodo,
@@ -91,9 +77,9 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
    * Uses decimal positioning like Trello (insert between existing positions)
    */
   const calculatePosition = (
-    sourceStatus: TodoStatus,
+    sourceStatus: string,
     sourceIndex: number,
-    destinationStatus: TodoStatus,
+    destinationStatus: string,
     destinationIndex: number,
     draggedItemId: string
   ): number => {
@@ -153,9 +139,14 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
     }
 
     // Get the new status and calculate position
-    const sourceStatus = source.droppableId as TodoStatus;
-    const newStatus = destination.droppableId as TodoStatus;
+    const sourceStatus = source.droppableId;
+    const newStatus = destination.droppableId;
     const todoId = draggableId;
+
+    // The workflow does not allow this move, leave the card where it was
+    if (!isTransitionAllowed(workflow, sourceStatus, newStatus)) {
+      return;
+    }
     
     // Debug: Log items in destination column with their positions
     const destItems = todosByStatus[newStatus] || [];
@@ -181,32 +172,36 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
     console.log('================');
 
     // Call reorder with the new status and position
-    onReorder(todoId, newStatus, newPosition);
+    onReorder?.(todoId, newStatus, newPosition);
   };
 
   return (
     <EuiDragDropContext onDragEnd={onDragEnd}>
       <div className="kanban-board">
-        {COLUMN_ORDER.map((status) => {
-          const items = todosByStatus[status] || [];
+        {workflow.statuses.map((status) => {
+          const items = todosByStatus[status.id] || [];
 
           return (
             <div
-              key={status}
-              className={`kanban-column kanban-column--${status}`}
+              key={status.id}
+              className={[
+                'kanban-column',
+                `kanban-column--${status.id}`,
+                `kanban-column--color-${status.color}`,
+              ].join(' ')}
             >
               {/* Column Header */}
               <div className="kanban-column__header">
                 <h3>
-                  <EuiIcon type={COLUMN_ICONS[status]} size="s" />
-                  {statusLabels[status]}
+                  <EuiIcon type={status.icon} size="s" />
+                  {status.label}
                 </h3>
                 <span className="kanban-column__count">{items.length}</span>
               </div>
 
               {/* Droppable Area */}
               <EuiDroppable
-                droppableId={status}
+                droppableId={status.id}
                 spacing="m"
                 className="kanban-column__cards"
               >
@@ -216,14 +211,19 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                     index={index}
                     draggableId={todo.id}
                     spacing="m"
+                    isDragDisabled={!onReorder}
                   >
                     {(provided, state) => (
                       <div className={state.isDragging ? 'dragging' : ''}>
                         <TodoCard
                           todo={todo}
                           onEdit={() => onEditTodo(todo)}
-                          onArchive={() => onArchiveTodo(todo.id)}
-                          onDelete={() => onDeleteTodo(todo.id)}
+                          onArchive={
+                            onArchiveTodo && (() => onArchiveTodo(todo.id))
+                          }
+                          onDelete={
+                            onDeleteTodo && (() => onDeleteTodo(todo.id))
+                          }
                           isPending={isPending(todo.id)}
                         />
                       </div>
@@ -232,8 +232,8 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                 ))}
               </EuiDroppable>
 
-              {/* Add Button - only in PLANNED column */}
-              {status === TodoStatus.PLANNED && (
+              {/* Add Button - only in the column new items start in */}
+              {status.id === workflow.initialStatus && onCreateInStatus && (
                 <button
                   className="kanban-column__add-btn"
                   onClick={onCreateInStatus}
@@ -0,0 +1,123 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiPopover,
+  EuiPopoverTitle,
+  EuiPopoverFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiLink,
+  EuiBadge,
+  EuiIcon,
+} from "@elastic/eui";
+import { TodoProject } from "../../../common/types";
+import { ALL_PROJECTS } from "../../../common/constants";
+
+interface ProjectPickerProps {
+  projects: TodoProject[];
+  // Id of the current project, or `all`
+  activeProjectId: string;
+  onSelect: (projectId: string) => void;
+  onManage: () => void;
+}
+
+// Switches the project the board, table, archive and stats show
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  projects,
+  activeProjectId,
+  onSelect,
+  onManage,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const activeProject = projects.find(
+    (project) => project.id === activeProjectId
+  );
+
+  const select = (projectId: string) => {
+    setIsOpen(false);
+    onSelect(projectId);
+  };
+
+  return (
+    <EuiPopover
+      button={
+        <EuiButtonEmpty
+          iconType="arrowDown"
+          iconSide="right"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {activeProject ? (
+            <>
+              <EuiBadge color="hollow">{activeProject.key}</EuiBadge>
+              {activeProject.name}
+            </>
+          ) : (
+            "All projects"
+          )}
+        </EuiButtonEmpty>
+      }
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      panelPaddingSize="s"
+      anchorPosition="downLeft"
+    >
+      <EuiPopoverTitle>Projects</EuiPopoverTitle>
+      <div className="project-picker">
+        {projects.map((project) => (
+          <EuiFlexGroup
+            key={project.id}
+            gutterSize="xs"
+            alignItems="center"
+            responsive={false}
+            className="project-picker__item"
+          >
+            <EuiFlexItem grow={false}>
+              <EuiBadge color="hollow">{project.key}</EuiBadge>
+            </EuiFlexItem>
+            <EuiFlexItem>
+              <EuiLink onClick={() => select(project.id)}>
+                {project.name}
+              </EuiLink>
+            </EuiFlexItem>
+            {project.id === activeProjectId && (
+              <EuiFlexItem grow={false}>
+                <EuiIcon type="check" />
+              </EuiFlexItem>
+            )}
+          </EuiFlexGroup>
+        ))}
+        <EuiFlexGroup
+          gutterSize="xs"
+          alignItems="center"
+          responsive={false}
+          className="project-picker__item"
+        >
+          <EuiFlexItem>
+            <EuiLink onClick={() => select(ALL_PROJECTS)}>All projects</EuiLink>
+          </EuiFlexItem>
+          {activeProjectId === ALL_PROJECTS && (
+            <EuiFlexItem grow={false}>
+              <EuiIcon type="check" />
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </div>
+      <EuiPopoverFooter>
+        <EuiButton
+          size="s"
+          iconType="gear"
+          fullWidth
+          onClick={() => {
+            setIsOpen(false);
+            onManage();
+          }}
+        >
+          Manage projects
+        </EuiButton>
+      </EuiPopoverFooter>
+    </EuiPopover>
+  );
+};
@@ -0,0 +1,403 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiTitle,
+  EuiText,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiBadge,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiToolTip,
+  EuiSpacer,
+  EuiLoadingSpinner,
+  EuiConfirmModal,
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiTextArea,
+  EuiSelect,
+  EuiComboBox,
+} from "@elastic/eui";
+import {
+  ComplianceStandard,
+  TodoPriority,
+  TodoProject,
+  SaveProjectRequest,
+} from "../../../common/types";
+import { COMPLIANCE_OPTIONS } from "../../constants";
+
+// Same rule as the server: an upper case letter, then letters or digits
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+const PRIORITY_SELECT_OPTIONS = [
+  { value: "", text: "None" },
+  ...Object.values(TodoPriority).map((priority) => ({
+    value: priority,
+    text: priority.charAt(0).toUpperCase() + priority.slice(1),
+  })),
+];
+
+interface ProjectSettingsProps {
+  projects: TodoProject[];
+  isLoading?: boolean;
+  onSave: (id: string | undefined, data: SaveProjectRequest) => Promise<void>;
+  onDelete: (project: TodoProject) => Promise<void>;
+  onClose: () => void;
+}
+
+interface ProjectEditorProps {
+  // Project to edit; a new project is created without one
+  project?: TodoProject;
+  onSave: ProjectSettingsProps["onSave"];
+  onClose: () => void;
+}
+
+const toOptions = (values: string[] = []) =>
+  values.map((value) => ({ label: value }));
+
+// Key, name, members and the defaults of new items of a project
+const ProjectEditor: React.FC<ProjectEditorProps> = ({
+  project,
+  onSave,
+  onClose,
+}) => {
+  const defaults = project?.defaults || {};
+  const [key, setKey] = useState(project?.key || "");
+  const [name, setName] = useState(project?.name || "");
+  const [description, setDescription] = useState(project?.description || "");
+  const [members, setMembers] = useState<string[]>(project?.members || []);
+  const [priority, setPriority] = useState(defaults.priority || "");
+  const [assignee, setAssignee] = useState(defaults.assignee || "");
+  const [tags, setTags] = useState<string[]>(defaults.tags || []);
+  const [standards, setStandards] = useState<ComplianceStandard[]>(
+    defaults.complianceStandards || []
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isKeyValid = PROJECT_KEY_PATTERN.test(key);
+  const isValid = isKeyValid && !!name.trim();
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(project?.id, {
+        key,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        members,
+        defaults: {
+          priority: (priority as TodoPriority) || undefined,
+          assignee: assignee.trim() || undefined,
+          tags: tags.length > 0 ? tags : undefined,
+          complianceStandards: standards.length > 0 ? standards : undefined,
+        },
+      });
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose} maxWidth={640}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          {project ? "Edit project" : "New project"}
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiForm component="form">
+          <EuiFlexGroup gutterSize="s">
+            <EuiFlexItem grow={1}>
+              <EuiFormRow
+                label="Key"
+                isInvalid={!!key && !isKeyValid}
+                error="2 to 10 upper case letters or digits"
+              >
+                <EuiFieldText
+                  value={key}
+                  maxLength={10}
+                  onChange={(e) => setKey(e.target.value.toUpperCase())}
+                  isInvalid={!!key && !isKeyValid}
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+            <EuiFlexItem grow={3}>
+              <EuiFormRow label="Name" fullWidth>
+                <EuiFieldText
+                  value={name}
+                  maxLength={100}
+                  onChange={(e) => setName(e.target.value)}
+                  fullWidth
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+
+          <EuiFormRow label="Description" fullWidth>
+            <EuiTextArea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow
+            label="Members"
+            helpText={
+              project?.builtIn
+                ? "The default project is open to everyone"
+                : "Leave empty to open the project to everyone"
+            }
+            fullWidth
+          >
+            <EuiComboBox
+              noSuggestions
+              fullWidth
+              isDisabled={project?.builtIn}
+              selectedOptions={toOptions(members)}
+              onChange={(selected) =>
+                setMembers(selected.map((option) => option.label))
+              }
+              onCreateOption={(value) => {
+                const member = value.trim();
+                if (member && !members.includes(member)) {
+                  setMembers([...members, member]);
+                }
+              }}
+            />
+          </EuiFormRow>
+
+          <EuiSpacer size="m" />
+          <EuiTitle size="xxs">
+            <h3>Defaults of new items</h3>
+          </EuiTitle>
+          <EuiSpacer size="s" />
+
+          <EuiFlexGroup gutterSize="s">
+            <EuiFlexItem>
+              <EuiFormRow label="Priority">
+                <EuiSelect
+                  options={PRIORITY_SELECT_OPTIONS}
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value)}
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+            <EuiFlexItem>
+              <EuiFormRow label="Assignee">
+                <EuiFieldText
+                  value={assignee}
+                  placeholder="Unassigned"
+                  onChange={(e) => setAssignee(e.target.value)}
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+
+          <EuiFormRow label="Tags" fullWidth>
+            <EuiComboBox
+              noSuggestions
+              fullWidth
+              selectedOptions={toOptions(tags)}
+              onChange={(selected) =>
+                setTags(selected.map((option) => option.label))
+              }
+              onCreateOption={(value) => {
+                const tag = value.trim().toLowerCase();
+                if (tag && !tags.includes(tag)) {
+                  setTags([...tags, tag]);
+                }
+              }}
+            />
+          </EuiFormRow>
+
+          <EuiFormRow label="Compliance Standards" fullWidth>
+            <EuiComboBox
+              options={COMPLIANCE_OPTIONS}
+              selectedOptions={COMPLIANCE_OPTIONS.filter((option) =>
+                standards.includes(option.value as ComplianceStandard)
+              )}
+              onChange={(selected) =>
+                setStandards(
+                  selected.map((option) => option.value as ComplianceStandard)
+                )
+              }
+              fullWidth
+            />
+          </EuiFormRow>
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!isValid}
+        >
+          Save project
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
+
+// Projects of the user, with their members and defaults
+export const ProjectSettings: React.FC<ProjectSettingsProps> = ({
+  projects,
+  isLoading = false,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [editing, setEditing] = useState<TodoProject | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [toDelete, setToDelete] = useState<TodoProject | null>(null);
+
+  return (
+    <>
+      <EuiFlyout
+        ownFocus
+        onClose={onClose}
+        size="m"
+        aria-labelledby="projectsTitle"
+      >
+        <EuiFlyoutHeader hasBorder>
+          <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+            <EuiFlexItem grow={false}>
+              <EuiTitle size="m">
+                <h2 id="projectsTitle">Projects</h2>
+              </EuiTitle>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                size="s"
+                iconType="plusInCircle"
+                onClick={() => setIsCreating(true)}
+              >
+                New project
+              </EuiButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+          <EuiSpacer size="s" />
+          <EuiText size="s" color="subdued">
+            <p>Keep the work of each team or audit on a board of its own.</p>
+          </EuiText>
+        </EuiFlyoutHeader>
+
+        <EuiFlyoutBody>
+          {isLoading ? (
+            <EuiLoadingSpinner size="l" />
+          ) : (
+            projects.map((project) => (
+              <React.Fragment key={project.id}>
+                <EuiPanel paddingSize="m" hasBorder>
+                  <EuiFlexGroup alignItems="flexStart" gutterSize="s">
+                    <EuiFlexItem>
+                      <EuiTitle size="xs">
+                        <h3>
+                          <EuiBadge color="hollow">{project.key}</EuiBadge>
+                          {project.name}
+                        </h3>
+                      </EuiTitle>
+                      {project.description && (
+                        <EuiText size="s" color="subdued">
+                          <p>{project.description}</p>
+                        </EuiText>
+                      )}
+                      <EuiSpacer size="s" />
+                      <EuiText size="xs" color="subdued">
+                        {project.members.length > 0
+                          ? `Members: ${project.members.join(", ")}`
+                          : "Open to everyone"}
+                      </EuiText>
+                    </EuiFlexItem>
+                    <EuiFlexItem grow={false}>
+                      <EuiFlexGroup gutterSize="xs" responsive={false}>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Edit">
+                            <EuiButtonIcon
+                              iconType="pencil"
+                              aria-label="Edit project"
+                              onClick={() => setEditing(project)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        {!project.builtIn && (
+                          <EuiFlexItem grow={false}>
+                            <EuiToolTip content="Delete">
+                              <EuiButtonIcon
+                                iconType="trash"
+                                color="danger"
+                                aria-label="Delete project"
+                                onClick={() => setToDelete(project)}
+                              />
+                            </EuiToolTip>
+                          </EuiFlexItem>
+                        )}
+                      </EuiFlexGroup>
+                    </EuiFlexItem>
+                  </EuiFlexGroup>
+                </EuiPanel>
+                <EuiSpacer size="s" />
+              </React.Fragment>
+            ))
+          )}
+        </EuiFlyoutBody>
+      </EuiFlyout>
+
+      {(editing || isCreating) && (
+        <ProjectEditor
+          project={editing || undefined}
+          onSave={onSave}
+          onClose={() => {
+            setEditing(null);
+            setIsCreating(false);
+          }}
+        />
+      )}
+
+      {toDelete && (
+        <EuiConfirmModal
+          title={`Delete "${toDelete.name}"?`}
+          onCancel={() => setToDelete(null)}
+          onConfirm={async () => {
+            try {
+              await onDelete(toDelete);
+            } catch (error) {
+              // Reported by the caller
+            }
+            setToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          <p>
+            Move or delete its items first, archived ones included. The
+            project is removed for all of its members.
+          </p>
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
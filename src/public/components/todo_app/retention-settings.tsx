@@ -0,0 +1,479 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiFieldText,
+  EuiFieldNumber,
+  EuiSwitch,
+  EuiPanel,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiSpacer,
+  EuiCallOut,
+  EuiLoadingSpinner,
+  EuiTabs,
+  EuiTab,
+  EuiBasicTable,
+  EuiAccordion,
+} from "@elastic/eui";
+import {
+  RetentionItem,
+  RetentionPolicy,
+  RetentionPreview,
+  RetentionPurgeSource,
+  RetentionPurgeSummary,
+} from "../../../common/types";
+import { formatDate } from "../../utils";
+
+type SettingsTab = "policy" | "purges";
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Items of a preview or a purge, with the date that made them old enough
+const RetentionItemsTable: React.FC<{
+  items: RetentionItem[];
+  dateField: "completedAt" | "archivedAt" | "deletedAt";
+  dateLabel: string;
+}> = ({ items, dateField, dateLabel }) => (
+  <EuiBasicTable<RetentionItem>
+    items={items}
+    itemId="id"
+    tableLayout="fixed"
+    compressed
+    columns={[
+      { field: "title", name: "Item", truncateText: true },
+      {
+        field: dateField,
+        name: dateLabel,
+        width: "150px",
+        render: (date: string | undefined, item: RetentionItem) =>
+          formatDate(date || item.updatedAt),
+      },
+    ]}
+    noItemsMessage="No items"
+  />
+);
+
+const PreviewPanel: React.FC<{ preview: RetentionPreview }> = ({
+  preview,
+}) => {
+  const more = (shown: number, total: number) =>
+    total > shown ? ` (oldest ${shown} shown)` : "";
+
+  return (
+    <EuiPanel color="subdued" paddingSize="s">
+      <EuiTitle size="xxs">
+        <h4>
+          Would archive {plural(preview.archive.total, "item")}
+          {more(preview.archive.items.length, preview.archive.total)}
+        </h4>
+      </EuiTitle>
+      {preview.archive.total > 0 && (
+        <RetentionItemsTable
+          items={preview.archive.items}
+          dateField="completedAt"
+          dateLabel="Completed"
+        />
+      )}
+      <EuiSpacer size="m" />
+      <EuiTitle size="xxs">
+        <h4>
+          Would purge {plural(preview.purge.total, "item")}
+          {more(preview.purge.items.length, preview.purge.total)}
+        </h4>
+      </EuiTitle>
+      {preview.purge.total > 0 && (
+        <RetentionItemsTable
+          items={preview.purge.items}
+          dateField="archivedAt"
+          dateLabel="Archived"
+        />
+      )}
+      <EuiSpacer size="m" />
+      <EuiTitle size="xxs">
+        <h4>
+          Would purge {plural(preview.trash.total, "item")} from the trash
+          {more(preview.trash.items.length, preview.trash.total)}
+        </h4>
+      </EuiTitle>
+      {preview.trash.total > 0 && (
+        <RetentionItemsTable
+          items={preview.trash.items}
+          dateField="deletedAt"
+          dateLabel="Deleted"
+        />
+      )}
+      {preview.legalHold > 0 && (
+        <>
+          <EuiSpacer size="s" />
+          <EuiText size="xs" color="subdued">
+            <p>
+              {plural(preview.legalHold, "item")} old enough to purge{" "}
+              {preview.legalHold === 1 ? "is" : "are"} kept for legal hold.
+            </p>
+          </EuiText>
+        </>
+      )}
+    </EuiPanel>
+  );
+};
+
+const PurgeLog: React.FC<{
+  purges: RetentionPurgeSummary[];
+  isLoading: boolean;
+  onRefresh: () => void;
+}> = ({ purges, isLoading, onRefresh }) => (
+  <>
+    <EuiFlexGroup justifyContent="flexEnd">
+      <EuiFlexItem grow={false}>
+        <EuiButtonEmpty size="s" iconType="refresh" onClick={onRefresh}>
+          Refresh
+        </EuiButtonEmpty>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+    <EuiSpacer size="s" />
+    {isLoading ? (
+      <EuiLoadingSpinner size="l" />
+    ) : purges.length === 0 ? (
+      <EuiText size="s" color="subdued">
+        <p>Nothing was purged yet.</p>
+      </EuiText>
+    ) : (
+      purges.map((purge) => (
+        <React.Fragment key={purge.id}>
+          <EuiPanel paddingSize="s" hasBorder>
+            <EuiAccordion
+              id={`purge-${purge.id}`}
+              buttonContent={
+                `${formatDate(purge.timestamp)}: ` +
+                `${plural(purge.purged, "item")} purged by ${purge.actor}`
+              }
+            >
+              <EuiSpacer size="s" />
+              <EuiText size="xs">
+                <p>
+                  {purge.reason}.
+                  {purge.failed > 0 &&
+                    ` ${plural(purge.failed, "item")} could not be purged.`}
+                  {purge.legalHold > 0 &&
+                    ` ${plural(purge.legalHold, "item")} kept for legal hold.`}
+                </p>
+              </EuiText>
+              <EuiSpacer size="s" />
+              {purge.source === RetentionPurgeSource.TRASH ? (
+                <RetentionItemsTable
+                  items={purge.items}
+                  dateField="deletedAt"
+                  dateLabel="Deleted"
+                />
+              ) : (
+                <RetentionItemsTable
+                  items={purge.items}
+                  dateField="archivedAt"
+                  dateLabel="Archived"
+                />
+              )}
+            </EuiAccordion>
+          </EuiPanel>
+          <EuiSpacer size="s" />
+        </React.Fragment>
+      ))
+    )}
+  </>
+);
+
+interface RetentionSettingsProps {
+  policy: RetentionPolicy | undefined;
+  purges: RetentionPurgeSummary[];
+  isLoading: boolean;
+  isLoadingPurges: boolean;
+  onSave: (policy: RetentionPolicy) => Promise<void>;
+  onPreview: (policy: RetentionPolicy) => Promise<RetentionPreview>;
+  onRefreshPurges: () => void;
+  onClose: () => void;
+}
+
+const RetentionPolicyForm: React.FC<{
+  policy: RetentionPolicy;
+  onSave: (policy: RetentionPolicy) => Promise<void>;
+  onPreview: (policy: RetentionPolicy) => Promise<RetentionPreview>;
+  onClose: () => void;
+}> = ({ policy, onSave, onPreview, onClose }) => {
+  const [draft, setDraft] = useState<RetentionPolicy>(policy);
+  // Preview of the draft as it was when previewed
+  const [preview, setPreview] = useState<RetentionPreview>();
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (changes: Partial<RetentionPolicy>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setPreview(undefined);
+  };
+
+  const errors = [
+    ...(draft.archiveAfterDays >= 1 ? [] : ["Archive after at least a day"]),
+    ...(draft.purgeAfterDays >= 1 ? [] : ["Purge after at least a day"]),
+    ...(draft.trashPurgeAfterDays >= 1
+      ? []
+      : ["Empty the trash after at least a day"]),
+    ...(draft.legalHoldTag.trim() ? [] : ["Enter the legal hold tag"]),
+  ];
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(draft));
+    } catch (error) {
+      // Reported by the caller
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the draft open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <EuiFlyoutBody>
+        <EuiSwitch
+          label="Archive completed items"
+          checked={draft.archiveEnabled}
+          onChange={(e) => update({ archiveEnabled: e.target.checked })}
+        />
+        <EuiSpacer size="s" />
+        <EuiFormRow
+          label="Archive after"
+          helpText="Days since the item was moved to completed"
+        >
+          <EuiFieldNumber
+            min={1}
+            append="days"
+            disabled={!draft.archiveEnabled}
+            value={draft.archiveAfterDays}
+            onChange={(e) =>
+              update({ archiveAfterDays: Number(e.target.value) })
+            }
+          />
+        </EuiFormRow>
+
+        <EuiSpacer size="l" />
+
+        <EuiSwitch
+          label="Purge archived items"
+          checked={draft.purgeEnabled}
+          onChange={(e) => update({ purgeEnabled: e.target.checked })}
+        />
+        <EuiSpacer size="s" />
+        {draft.purgeEnabled && (
+          <>
+            <EuiCallOut
+              size="s"
+              color="warning"
+              iconType="alert"
+              title="Purged items are deleted for good, with their comments"
+            />
+            <EuiSpacer size="s" />
+          </>
+        )}
+        <EuiFlexGroup gutterSize="s">
+          <EuiFlexItem>
+            <EuiFormRow
+              label="Purge after"
+              helpText="Days since the item was archived"
+            >
+              <EuiFieldNumber
+                min={1}
+                append="days"
+                disabled={!draft.purgeEnabled}
+                value={draft.purgeAfterDays}
+                onChange={(e) =>
+                  update({ purgeAfterDays: Number(e.target.value) })
+                }
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+          <EuiFlexItem>
+            <EuiFormRow
+              label="Legal hold tag"
+              helpText="Items with this tag are never purged"
+            >
+              <EuiFieldText
+                value={draft.legalHoldTag}
+                onChange={(e) => update({ legalHoldTag: e.target.value })}
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        <EuiSpacer size="l" />
+
+        <EuiFormRow
+          label="Empty the trash after"
+          helpText={
+            "Days since the item was deleted. Items in the trash are " +
+            "always purged, except the ones on legal hold"
+          }
+        >
+          <EuiFieldNumber
+            min={1}
+            append="days"
+            value={draft.trashPurgeAfterDays}
+            onChange={(e) =>
+              update({ trashPurgeAfterDays: Number(e.target.value) })
+            }
+          />
+        </EuiFormRow>
+
+        <EuiSpacer size="m" />
+
+        <EuiButton
+          size="s"
+          iconType="inspect"
+          onClick={handlePreview}
+          isLoading={isPreviewing}
+          isDisabled={errors.length > 0}
+        >
+          Preview
+        </EuiButton>
+        {preview && (
+          <>
+            <EuiSpacer size="s" />
+            <PreviewPanel preview={preview} />
+          </>
+        )}
+
+        {errors.length > 0 && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="Fix these before saving" color="danger">
+              <ul>
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </EuiCallOut>
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton
+              fill
+              onClick={handleSave}
+              isLoading={isSaving}
+              isDisabled={errors.length > 0}
+            >
+              Save retention policy
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </>
+  );
+};
+
+// Retention policy, a dry run of it and the log of past purges
+export const RetentionSettings: React.FC<RetentionSettingsProps> = ({
+  policy,
+  purges,
+  isLoading,
+  isLoadingPurges,
+  onSave,
+  onPreview,
+  onRefreshPurges,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<SettingsTab>("policy");
+
+  return (
+    <EuiFlyout
+      ownFocus
+      onClose={onClose}
+      size="m"
+      aria-labelledby="retentionTitle"
+    >
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size="m">
+          <h2 id="retentionTitle">Retention policy</h2>
+        </EuiTitle>
+        <EuiSpacer size="s" />
+        <EuiText size="s" color="subdued">
+          <p>
+            The policy is applied every hour. Archived items stay in the
+            archive and deleted items in the trash until they are purged;
+            every purge is kept in the purge log.
+          </p>
+        </EuiText>
+        <EuiSpacer size="s" />
+        <EuiTabs size="s" style={{ marginBottom: "-17px" }}>
+          <EuiTab
+            isSelected={tab === "policy"}
+            onClick={() => setTab("policy")}
+          >
+            Policy
+          </EuiTab>
+          <EuiTab
+            isSelected={tab === "purges"}
+            onClick={() => {
+              setTab("purges");
+              onRefreshPurges();
+            }}
+          >
+            Purge log
+          </EuiTab>
+        </EuiTabs>
+      </EuiFlyoutHeader>
+
+      {tab === "purges" ? (
+        <EuiFlyoutBody>
+          <PurgeLog
+            purges={purges}
+            isLoading={isLoadingPurges}
+            onRefresh={onRefreshPurges}
+          />
+        </EuiFlyoutBody>
+      ) : isLoading || !policy ? (
+        <EuiFlyoutBody>
+          <EuiFlexGroup justifyContent="center">
+            <EuiFlexItem grow={false}>
+              <EuiLoadingSpinner size="xl" />
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        </EuiFlyoutBody>
+      ) : (
+        <RetentionPolicyForm
+          policy={policy}
+          onSave={onSave}
+          onPreview={onPreview}
+          onClose={onClose}
+        />
+      )}
+    </EuiFlyout>
+  );
+};
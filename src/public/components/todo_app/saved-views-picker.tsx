@@ -0,0 +1,267 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiPopover,
+  EuiPopoverTitle,
+  EuiPopoverFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiLink,
+  EuiBadge,
+  EuiText,
+  EuiToolTip,
+  EuiConfirmModal,
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiFormRow,
+  EuiFieldText,
+  EuiSwitch,
+} from "@elastic/eui";
+import { SavedView, SavedViewVisibility } from "../../../common/types";
+
+interface SavedViewsPickerProps {
+  views: SavedView[];
+  activeViewId?: string;
+  onSelect: (view: SavedView) => void;
+  // Saves the current filters, as a new view when no id is given
+  onSaveCurrent: (
+    id: string | undefined,
+    name: string,
+    visibility: SavedViewVisibility
+  ) => Promise<void>;
+  onDelete: (view: SavedView) => Promise<void>;
+  onTogglePin: (view: SavedView, pinned: boolean) => Promise<void>;
+}
+
+interface SaveViewModalProps {
+  onSave: (name: string, visibility: SavedViewVisibility) => Promise<void>;
+  onClose: () => void;
+}
+
+// Name and visibility of a new view
+const SaveViewModal: React.FC<SaveViewModalProps> = ({ onSave, onClose }) => {
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(
+        name,
+        shared ? SavedViewVisibility.SHARED : SavedViewVisibility.PRIVATE
+      );
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the dialog open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          <h1>Save current view</h1>
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiFormRow
+          label="Name"
+          helpText="Filters, sort order and the current page are saved"
+        >
+          <EuiFieldText
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+          />
+        </EuiFormRow>
+        <EuiFormRow>
+          <EuiSwitch
+            label="Share with the team"
+            checked={shared}
+            onChange={(e) => setShared(e.target.checked)}
+          />
+        </EuiFormRow>
+      </EuiModalBody>
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!name.trim()}
+        >
+          Save view
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
+
+// Saved views of the user and the team, applied with one click
+export const SavedViewsPicker: React.FC<SavedViewsPickerProps> = ({
+  views,
+  activeViewId,
+  onSelect,
+  onSaveCurrent,
+  onDelete,
+  onTogglePin,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [toDelete, setToDelete] = useState<SavedView | null>(null);
+
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  const handleOverwrite = async (view: SavedView) => {
+    try {
+      await onSaveCurrent(view.id, view.name, view.visibility);
+    } catch (error) {
+      // Reported by the caller
+    }
+  };
+
+  return (
+    <>
+      <EuiPopover
+        button={
+          <EuiButtonEmpty
+            iconType="bookmark"
+            onClick={() => setIsOpen(!isOpen)}
+          >
+            {activeView ? activeView.name : "Views"}
+          </EuiButtonEmpty>
+        }
+        isOpen={isOpen}
+        closePopover={() => setIsOpen(false)}
+        panelPaddingSize="s"
+        anchorPosition="downRight"
+      >
+        <EuiPopoverTitle>Saved views</EuiPopoverTitle>
+        <div className="saved-views">
+          {views.length === 0 && (
+            <EuiText size="s" color="subdued">
+              <p>No saved views yet</p>
+            </EuiText>
+          )}
+          {views.map((view) => (
+            <EuiFlexGroup
+              key={view.id}
+              gutterSize="xs"
+              alignItems="center"
+              responsive={false}
+              className="saved-views__item"
+            >
+              <EuiFlexItem>
+                <EuiLink
+                  onClick={() => {
+                    setIsOpen(false);
+                    onSelect(view);
+                  }}
+                >
+                  {view.name}
+                </EuiLink>
+                {!view.editable && (
+                  <EuiText size="xs" color="subdued">
+                    by {view.owner}
+                  </EuiText>
+                )}
+              </EuiFlexItem>
+              {view.visibility === SavedViewVisibility.SHARED && (
+                <EuiFlexItem grow={false}>
+                  <EuiBadge color="hollow">Shared</EuiBadge>
+                </EuiFlexItem>
+              )}
+              <EuiFlexItem grow={false}>
+                <EuiToolTip content={view.pinned ? "Unpin tab" : "Pin as tab"}>
+                  <EuiButtonIcon
+                    iconType={view.pinned ? "pinFilled" : "pin"}
+                    aria-label={view.pinned ? "Unpin tab" : "Pin as tab"}
+                    onClick={() => onTogglePin(view, !view.pinned)}
+                  />
+                </EuiToolTip>
+              </EuiFlexItem>
+              {view.editable && (
+                <>
+                  <EuiFlexItem grow={false}>
+                    <EuiToolTip content="Save current filters to this view">
+                      <EuiButtonIcon
+                        iconType="save"
+                        aria-label="Save current filters to this view"
+                        onClick={() => handleOverwrite(view)}
+                      />
+                    </EuiToolTip>
+                  </EuiFlexItem>
+                  <EuiFlexItem grow={false}>
+                    <EuiButtonIcon
+                      iconType="trash"
+                      color="danger"
+                      aria-label="Delete view"
+                      onClick={() => {
+                        setIsOpen(false);
+                        setToDelete(view);
+                      }}
+                    />
+                  </EuiFlexItem>
+                </>
+              )}
+            </EuiFlexGroup>
+          ))}
+        </div>
+        <EuiPopoverFooter>
+          <EuiButton
+            size="s"
+            iconType="plusInCircle"
+            fullWidth
+            onClick={() => {
+              setIsOpen(false);
+              setIsSaveOpen(true);
+            }}
+          >
+            Save current view
+          </EuiButton>
+        </EuiPopoverFooter>
+      </EuiPopover>
+
+      {isSaveOpen && (
+        <SaveViewModal
+          onSave={(name, visibility) =>
+            onSaveCurrent(undefined, name, visibility)
+          }
+          onClose={() => setIsSaveOpen(false)}
+        />
+      )}
+
+      {toDelete && (
+        <EuiConfirmModal
+          title={`Delete "${toDelete.name}"?`}
+          onCancel={() => setToDelete(null)}
+          onConfirm={async () => {
+            await onDelete(toDelete);
+            setToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          {toDelete.visibility === SavedViewVisibility.SHARED ? (
+            <p>The view is removed for everyone it is shared with.</p>
+          ) : (
+            <p>The view is removed for good.</p>
+          )}
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
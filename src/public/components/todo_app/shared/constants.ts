@@ -1,16 +1,10 @@
 import {
-  TodoStatus,
   TodoPriority,
   ComplianceStandard,
+  SlaState,
 } from "../../../../common/types";
-
-export const STATUS_LABELS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: "To Do",
-  [TodoStatus.IN_PROGRESS]: "In Progress",
-  [TodoStatus.BLOCKED]: "Blocked",
-  [TodoStatus.COMPLETED_SUCCESS]: "Done",
-  [TodoStatus.COMPLETED_ERROR]: "Error",
-};
+import { getControl } from "../../../../common/controls";
+import { SLA_STATE_LABELS } from "../../../../common/sla";
 
 export const PRIORITY_OPTIONS = [
   { value: "all", inputDisplay: "All Priorities" },
@@ -20,6 +14,14 @@ export const PRIORITY_OPTIONS = [
   { value: TodoPriority.CRITICAL, inputDisplay: "Critical" },
 ];
 
+export const SLA_STATE_OPTIONS = [
+  { value: "all", inputDisplay: "All SLA states" },
+  ...Object.values(SlaState).map((state) => ({
+    value: state,
+    inputDisplay: SLA_STATE_LABELS[state],
+  })),
+];
+
 export const COMPLIANCE_LABELS: Record<ComplianceStandard, string> = {
   [ComplianceStandard.PCI_DSS]: "PCI DSS",
   [ComplianceStandard.ISO_27001]: "ISO 27001",
@@ -29,6 +31,14 @@ export const COMPLIANCE_LABELS: Record<ComplianceStandard, string> = {
   [ComplianceStandard.NIST]: "NIST",
 };
 
+// Short name of a control, e.g. "PCI DSS 8.3.1"
+export const formatControlKey = (key: string): string => {
+  const control = getControl(key);
+  return control
+    ? `${COMPLIANCE_LABELS[control.standard]} ${control.id}`
+    : key;
+};
+
 export const formatBadgeCount = (count: number): string => {
   return count > 99 ? "99+" : String(count);
 };
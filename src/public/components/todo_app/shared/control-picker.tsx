@@ -0,0 +1,64 @@
+import * as React from "react";
+import { EuiComboBox, EuiComboBoxOptionOption } from "@elastic/eui";
+import {
+  ComplianceControl,
+  ComplianceStandard,
+} from "../../../../common/types";
+import { CONTROL_CATALOG, getControl } from "../../../../common/controls";
+import { COMPLIANCE_LABELS, formatControlKey } from "./constants";
+
+interface ControlPickerProps {
+  value: string[];
+  onChange: (keys: string[]) => void;
+  // Only offer the controls of these standards; all when empty
+  standards?: ComplianceStandard[];
+  compressed?: boolean;
+  isDisabled?: boolean;
+}
+
+const toOption = (
+  control: ComplianceControl
+): EuiComboBoxOptionOption<string> => ({
+  label: `${control.id} ${control.title}`,
+  value: control.key,
+});
+
+// Controls of the catalog grouped by standard
+export const ControlPicker: React.FC<ControlPickerProps> = ({
+  value,
+  onChange,
+  standards = [],
+  compressed = false,
+  isDisabled = false,
+}) => {
+  const offered = standards.length
+    ? standards
+    : Object.values(ComplianceStandard);
+
+  const options = offered.map((standard) => ({
+    label: COMPLIANCE_LABELS[standard],
+    options: CONTROL_CATALOG[standard].map(toOption),
+  }));
+
+  const selectedOptions = value.map((key) => {
+    const control = getControl(key);
+    return control
+      ? { ...toOption(control), label: formatControlKey(key) }
+      : { label: key, value: key };
+  });
+
+  return (
+    <EuiComboBox
+      placeholder="Select controls..."
+      options={options}
+      selectedOptions={selectedOptions}
+      onChange={(selected) =>
+        onChange(selected.map((option) => option.value as string))
+      }
+      compressed={compressed}
+      isDisabled={isDisabled}
+      isClearable
+      fullWidth
+    />
+  );
+};
@@ -0,0 +1,64 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiButtonEmpty,
+  EuiContextMenuItem,
+  EuiContextMenuPanel,
+  EuiPopover,
+} from "@elastic/eui";
+import { TodoExportFormat } from "../../../../common/export";
+
+interface ExportMenuProps {
+  onExport: (format: TodoExportFormat) => void;
+  isDisabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<TodoExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  md: "Markdown",
+};
+
+// Button offering a download of the listed items in each export format
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  isDisabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const items = (Object.keys(FORMAT_LABELS) as TodoExportFormat[]).map(
+    (format) => (
+      <EuiContextMenuItem
+        key={format}
+        icon="document"
+        onClick={() => {
+          setIsOpen(false);
+          onExport(format);
+        }}
+      >
+        {FORMAT_LABELS[format]}
+      </EuiContextMenuItem>
+    )
+  );
+
+  return (
+    <EuiPopover
+      button={
+        <EuiButtonEmpty
+          size="s"
+          iconType="exportAction"
+          onClick={() => setIsOpen(!isOpen)}
+          isDisabled={isDisabled}
+        >
+          Export
+        </EuiButtonEmpty>
+      }
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      panelPaddingSize="none"
+      anchorPosition="downRight"
+    >
+      <EuiContextMenuPanel size="s" items={items} />
+    </EuiPopover>
+  );
+};
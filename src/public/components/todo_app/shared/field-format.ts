@@ -0,0 +1,97 @@
+import {
+  TodoPriority,
+  ComplianceStandard,
+  WorkflowDefinition,
+  RecurrenceRule,
+} from "../../../../common/types";
+import { DEFAULT_WORKFLOW, getStatusLabel } from "../../../../common/workflow";
+import { describeRecurrence } from "../../../../common/recurrence";
+import { formatDate } from "../../../utils";
+import { COMPLIANCE_LABELS, formatControlKey } from "./constants";
+
+export const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  tags: "Tags",
+  complianceStandards: "Compliance",
+  controls: "Controls",
+  assignee: "Assignee",
+  plannedDate: "Planned date",
+  dueDate: "Due date",
+  completedAt: "Completed",
+  errorDetails: "Error details",
+  archived: "Archived",
+  archivedAt: "Archived at",
+  storyPoints: "Story points",
+  coverImage: "Cover image",
+  position: "Position",
+  recurrence: "Repeats",
+  seriesId: "Series",
+  occurrenceIndex: "Occurrence",
+  occurrenceStart: "Period start",
+  projectId: "Project",
+};
+
+const DATE_FIELDS = [
+  "plannedDate",
+  "dueDate",
+  "completedAt",
+  "archivedAt",
+  "occurrenceStart",
+];
+
+// Long values (descriptions, images) are cut to keep side-by-side views readable
+const MAX_VALUE_LENGTH = 80;
+
+const truncate = (value: string): string =>
+  value.length > MAX_VALUE_LENGTH
+    ? `${value.slice(0, MAX_VALUE_LENGTH)}...`
+    : value;
+
+/**
+ * Human readable value of a TODO field (history, conflict dialog)
+ * Statuses are shown with their label from the given workflow.
+ */
+export const formatFieldValue = (
+  field: string,
+  value: unknown,
+  workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): string => {
+  if (value === undefined || value === null || value === "") {
+    return "None";
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "None";
+    if (field === "complianceStandards") {
+      return value
+        .map((std) => COMPLIANCE_LABELS[std as ComplianceStandard] || std)
+        .join(", ");
+    }
+    if (field === "controls") {
+      return value.map((key) => formatControlKey(String(key))).join(", ");
+    }
+    return value.join(", ");
+  }
+  if (field === "status") {
+    return getStatusLabel(workflow, String(value));
+  }
+  if (field === "recurrence") {
+    const rule = value as RecurrenceRule;
+    return rule.endDate
+      ? `${describeRecurrence(rule)} until ${formatDate(rule.endDate)}`
+      : describeRecurrence(rule);
+  }
+  if (field === "priority") {
+    const priority = value as TodoPriority;
+    return priority.charAt(0).toUpperCase() + priority.slice(1);
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (DATE_FIELDS.includes(field)) {
+    return formatDate(String(value));
+  }
+  return truncate(String(value));
+};
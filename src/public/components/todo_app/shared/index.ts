@@ -11,8 +11,18 @@ export { PriorityCell, AssigneeCell, WorkCell, DateCell } from "./table-cells";
 export { useTodoTour, TourStepWrapper } from "./app-tour";
 
 export {
-  STATUS_LABELS,
   PRIORITY_OPTIONS,
   COMPLIANCE_LABELS,
+  formatControlKey,
   formatBadgeCount,
-} from "./constants";
\ No newline at end of file
+} from "./constants";
+
+export { FIELD_LABELS, formatFieldValue } from "./field-format";
+
+export { RecurrenceFields } from "./recurrence-fields";
+
+export { ControlPicker } from "./control-picker";
+
+export { UserPicker } from "./user-picker";
+
+export { ExportMenu } from "./export-menu";
@@ -20,6 +20,8 @@ interface InlineTextEditorProps {
   min?: number;
   max?: number;
   className?: string;
+  // Shows the value without the editor
+  readOnly?: boolean;
 }
 
 // Inline editable text field
@@ -32,6 +34,7 @@ export const InlineTextEditor: React.FC<InlineTextEditorProps> = ({
   min = 0,
   max,
   className = '',
+  readOnly = false,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(value);
@@ -55,6 +58,14 @@ export const InlineTextEditor: React.FC<InlineTextEditorProps> = ({
     if (e.key === 'Escape') handleCancel();
   };
 
+  if (readOnly) {
+    return (
+      <div className={`inline-editor inline-editor--read-only ${className}`}>
+        {value || <span className="inline-editor__placeholder">{placeholder}</span>}
+      </div>
+    );
+  }
+
   if (isEditing) {
     return (
       <EuiFlexGroup gutterSize="xs" alignItems="center" responsive={false}>
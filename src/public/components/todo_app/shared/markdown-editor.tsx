@@ -70,6 +70,8 @@ interface EditableMarkdownProps {
   height?: number;
   emptyText?: string;
   className?: string;
+  // Shows the content without the editor
+  readOnly?: boolean;
 }
 
 export const EditableMarkdown: React.FC<EditableMarkdownProps> = ({
@@ -79,6 +81,7 @@ export const EditableMarkdown: React.FC<EditableMarkdownProps> = ({
   height = 200,
   emptyText = 'Click to add content...',
   className = '',
+  readOnly = false,
 }) => {
   const [isEditing, setIsEditing] = React.useState(false);
   const [editValue, setEditValue] = React.useState(value);
@@ -130,6 +133,20 @@ export const EditableMarkdown: React.FC<EditableMarkdownProps> = ({
     );
   }
 
+  if (readOnly) {
+    return value ? (
+      <div className={`editable-markdown__content ${className}`}>
+        <EuiMarkdownFormat>
+          {value}
+        </EuiMarkdownFormat>
+      </div>
+    ) : (
+      <EuiText size="s" color="subdued">
+        <p><em>None</em></p>
+      </EuiText>
+    );
+  }
+
   return (
     <div
       className={`editable-markdown ${className}`}
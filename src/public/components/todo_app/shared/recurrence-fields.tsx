@@ -0,0 +1,106 @@
+import * as React from "react";
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiSelect,
+  EuiFieldNumber,
+  EuiDatePicker,
+} from "@elastic/eui";
+import moment from "moment";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from "../../../../common/types";
+import {
+  RECURRENCE_FREQUENCY_LABELS,
+  describeRecurrence,
+} from "../../../../common/recurrence";
+import { DATE_FORMAT } from "../../../../common";
+
+const NO_RECURRENCE = "none";
+
+interface RecurrenceFieldsProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  // Offer "Does not repeat" (creating an item, not editing a series)
+  allowNone?: boolean;
+}
+
+// Frequency, interval and end date of a recurring item
+export const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({
+  value,
+  onChange,
+  allowNone = true,
+}) => {
+  const frequencyOptions = [
+    ...(allowNone ? [{ value: NO_RECURRENCE, text: "Does not repeat" }] : []),
+    ...Object.values(RecurrenceFrequency).map((frequency) => ({
+      value: frequency,
+      text: RECURRENCE_FREQUENCY_LABELS[frequency],
+    })),
+  ];
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NO_RECURRENCE) {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      interval: 1,
+      ...value,
+      frequency: frequency as RecurrenceFrequency,
+    });
+  };
+
+  return (
+    <EuiFlexGroup gutterSize="m" wrap>
+      <EuiFlexItem>
+        <EuiFormRow
+          label="Repeats"
+          helpText={value ? describeRecurrence(value) : undefined}
+        >
+          <EuiSelect
+            options={frequencyOptions}
+            value={value?.frequency || NO_RECURRENCE}
+            onChange={(e) => handleFrequencyChange(e.target.value)}
+          />
+        </EuiFormRow>
+      </EuiFlexItem>
+      {value && (
+        <>
+          <EuiFlexItem grow={false} style={{ minWidth: 100 }}>
+            <EuiFormRow label="Every">
+              <EuiFieldNumber
+                value={value.interval}
+                min={1}
+                max={365}
+                onChange={(e) => {
+                  const interval = parseInt(e.target.value, 10);
+                  if (!isNaN(interval) && interval >= 1 && interval <= 365) {
+                    onChange({ ...value, interval });
+                  }
+                }}
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+          <EuiFlexItem>
+            <EuiFormRow label="Ends">
+              <EuiDatePicker
+                selected={value.endDate ? moment(value.endDate) : null}
+                onChange={(date) =>
+                  onChange({
+                    ...value,
+                    endDate: date ? date.toISOString() : undefined,
+                  })
+                }
+                placeholder="Never"
+                dateFormat={DATE_FORMAT}
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+        </>
+      )}
+    </EuiFlexGroup>
+  );
+};
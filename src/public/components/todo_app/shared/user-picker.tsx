@@ -0,0 +1,86 @@
+import * as React from "react";
+import {
+  EuiAvatar,
+  EuiComboBox,
+  EuiComboBoxOptionOption,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiText,
+} from "@elastic/eui";
+import { TodoUser } from "../../../../common/types";
+
+interface UserPickerProps {
+  users: TodoUser[];
+  // Id of the selected user
+  value?: string;
+  // Shown for an assignee outside the directory, e.g. typed in before it
+  displayName?: string;
+  onChange: (user: TodoUser | undefined) => void;
+  isLoading?: boolean;
+  placeholder?: string;
+  compressed?: boolean;
+  fullWidth?: boolean;
+  isDisabled?: boolean;
+}
+
+const toOption = (user: TodoUser): EuiComboBoxOptionOption<TodoUser> => ({
+  key: user.id,
+  label: user.displayName,
+  value: user,
+});
+
+// Single user of the directory, with avatars
+export const UserPicker: React.FC<UserPickerProps> = ({
+  users,
+  value,
+  displayName,
+  onChange,
+  isLoading = false,
+  placeholder = "Unassigned",
+  compressed = false,
+  fullWidth = false,
+  isDisabled = false,
+}) => {
+  const selected = users.find((user) => user.id === value);
+  const selectedOptions = selected
+    ? [toOption(selected)]
+    : displayName
+    ? [{ label: displayName }]
+    : [];
+
+  return (
+    <EuiComboBox
+      aria-label="Assignee"
+      placeholder={placeholder}
+      singleSelection={{ asPlainText: true }}
+      options={users.map(toOption)}
+      selectedOptions={selectedOptions}
+      onChange={(options) => onChange(options[0]?.value)}
+      renderOption={(option) => (
+        <EuiFlexGroup gutterSize="s" alignItems="center" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiAvatar name={option.label} size="s" />
+          </EuiFlexItem>
+          <EuiFlexItem>
+            <EuiText size="s">{option.label}</EuiText>
+            {option.value?.email && (
+              <EuiText size="xs" color="subdued">
+                {option.value.email}
+              </EuiText>
+            )}
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      )}
+      prepend={
+        selectedOptions.length > 0 ? (
+          <EuiAvatar name={selectedOptions[0].label} size="s" />
+        ) : undefined
+      }
+      isLoading={isLoading}
+      isDisabled={isDisabled}
+      compressed={compressed}
+      fullWidth={fullWidth}
+      isClearable
+    />
+  );
+};
@@ -0,0 +1,252 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiFieldNumber,
+  EuiSwitch,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiSpacer,
+  EuiCallOut,
+  EuiLoadingSpinner,
+} from "@elastic/eui";
+import { SlaPolicy, SlaTarget, TodoPriority } from "../../../common/types";
+import { PRIORITY_OPTIONS } from "./shared";
+
+const MAX_HOURS = 8760;
+
+// Most urgent first, as the targets get longer down the list
+const PRIORITIES = [
+  TodoPriority.CRITICAL,
+  TodoPriority.HIGH,
+  TodoPriority.MEDIUM,
+  TodoPriority.LOW,
+];
+
+const PRIORITY_LABELS = PRIORITY_OPTIONS.reduce<Record<string, string>>(
+  (labels, option) => ({ ...labels, [option.value]: option.inputDisplay }),
+  {}
+);
+
+const isValidHours = (hours: number) =>
+  Number.isInteger(hours) && hours >= 1 && hours <= MAX_HOURS;
+
+interface SlaSettingsProps {
+  policy: SlaPolicy | undefined;
+  isLoading: boolean;
+  onSave: (policy: SlaPolicy) => Promise<void>;
+  onClose: () => void;
+}
+
+const SlaPolicyForm: React.FC<{
+  policy: SlaPolicy;
+  onSave: (policy: SlaPolicy) => Promise<void>;
+  onClose: () => void;
+}> = ({ policy, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SlaPolicy>(policy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const errors = [
+    ...PRIORITIES.filter((priority) => {
+      const { startHours, resolveHours } = draft.targets[priority];
+      return !isValidHours(startHours) || !isValidHours(resolveHours);
+    }).map(
+      (priority) =>
+        `${PRIORITY_LABELS[priority]}: targets must be 1 to ${MAX_HOURS} hours`
+    ),
+    ...PRIORITIES.filter((priority) => {
+      const { startHours, resolveHours } = draft.targets[priority];
+      return resolveHours < startHours;
+    }).map(
+      (priority) =>
+        `${PRIORITY_LABELS[priority]}: resolve target is shorter than ` +
+        `the start target`
+    ),
+    ...(draft.atRiskPercent >= 1 && draft.atRiskPercent <= 99
+      ? []
+      : ["The at risk threshold must be between 1 and 99%"]),
+  ];
+
+  const updateTarget = (
+    priority: TodoPriority,
+    changes: Partial<SlaTarget>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      targets: {
+        ...prev.targets,
+        [priority]: { ...prev.targets[priority], ...changes },
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the draft open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <EuiFlyoutBody>
+        <EuiSwitch
+          label="Track SLA deadlines"
+          checked={draft.enabled}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, enabled: e.target.checked }))
+          }
+        />
+
+        <EuiSpacer size="m" />
+
+        <EuiFormRow
+          label="At risk after"
+          helpText="Share of the target time after which items are at risk"
+        >
+          <EuiFieldNumber
+            min={1}
+            max={99}
+            append="%"
+            value={draft.atRiskPercent}
+            disabled={!draft.enabled}
+            onChange={(e) =>
+              setDraft((prev) => ({
+                ...prev,
+                atRiskPercent: Number(e.target.value),
+              }))
+            }
+          />
+        </EuiFormRow>
+
+        <EuiSpacer size="m" />
+
+        {PRIORITIES.map((priority) => (
+          <EuiFlexGroup key={priority} gutterSize="s" alignItems="flexEnd">
+            <EuiFlexItem grow={1}>
+              <EuiText size="s">
+                <strong>{PRIORITY_LABELS[priority]}</strong>
+              </EuiText>
+            </EuiFlexItem>
+            <EuiFlexItem grow={2}>
+              <EuiFormRow label="Start within">
+                <EuiFieldNumber
+                  compressed
+                  min={1}
+                  max={MAX_HOURS}
+                  append="hours"
+                  value={draft.targets[priority].startHours}
+                  disabled={!draft.enabled}
+                  onChange={(e) =>
+                    updateTarget(priority, {
+                      startHours: Number(e.target.value),
+                    })
+                  }
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+            <EuiFlexItem grow={2}>
+              <EuiFormRow label="Resolve within">
+                <EuiFieldNumber
+                  compressed
+                  min={1}
+                  max={MAX_HOURS}
+                  append="hours"
+                  value={draft.targets[priority].resolveHours}
+                  disabled={!draft.enabled}
+                  onChange={(e) =>
+                    updateTarget(priority, {
+                      resolveHours: Number(e.target.value),
+                    })
+                  }
+                />
+              </EuiFormRow>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        ))}
+
+        {errors.length > 0 && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="Fix these before saving" color="danger">
+              <ul>
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </EuiCallOut>
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton
+              fill
+              onClick={handleSave}
+              isLoading={isSaving}
+              isDisabled={errors.length > 0}
+            >
+              Save SLA policy
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </>
+  );
+};
+
+// Editor for the start and resolve targets of each priority
+export const SlaSettings: React.FC<SlaSettingsProps> = ({
+  policy,
+  isLoading,
+  onSave,
+  onClose,
+}) => (
+  <EuiFlyout ownFocus onClose={onClose} size="m" aria-labelledby="slaTitle">
+    <EuiFlyoutHeader hasBorder>
+      <EuiTitle size="m">
+        <h2 id="slaTitle">SLA policy</h2>
+      </EuiTitle>
+      <EuiSpacer size="s" />
+      <EuiText size="s" color="subdued">
+        <p>
+          Deadlines are counted from the creation of an item. New items without
+          a due date are due by their resolve deadline. Existing items keep
+          their deadlines until their priority changes.
+        </p>
+      </EuiText>
+    </EuiFlyoutHeader>
+
+    {isLoading || !policy ? (
+      <EuiFlyoutBody>
+        <EuiFlexGroup justifyContent="center">
+          <EuiFlexItem grow={false}>
+            <EuiLoadingSpinner size="xl" />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutBody>
+    ) : (
+      <SlaPolicyForm policy={policy} onSave={onSave} onClose={onClose} />
+    )}
+  </EuiFlyout>
+);
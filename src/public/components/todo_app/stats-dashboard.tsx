@@ -23,10 +23,15 @@ import {
 import euiTheme from "@elastic/eui/dist/oui_theme_light.json";
 import {
   TodoStatistics,
-  TodoStatus,
   TodoPriority,
   ComplianceStandard,
+  SlaState,
+  WorkflowDefinition,
+  WorkflowStatusCategory,
+  WorkflowStatusColor,
 } from "../../../common/types";
+import { getStatusIdsByCategory } from "../../../common/workflow";
+import { SLA_STATE_LABELS } from "../../../common/sla";
 import { useIsMobile } from "../../hooks";
 
 ChartJS.register(
@@ -40,6 +45,7 @@ ChartJS.register(
 
 interface StatsDashboardProps {
   statistics: TodoStatistics | undefined;
+  workflow: WorkflowDefinition;
   isLoading: boolean;
 }
 
@@ -63,36 +69,21 @@ const EUI_COLORS = {
   mediumShade: euiTheme.euiColorMediumShade,
 };
 
-// Status colors - using hex for charts, EUI color names for components
-const STATUS_CONFIG: Record<
-  TodoStatus,
-  { color: string; euiColor: EuiColorType; label: string }
-> = {
-  [TodoStatus.PLANNED]: {
-    color: EUI_COLORS.mediumShade,
-    euiColor: "subdued",
-    label: "To Do",
-  },
-  [TodoStatus.IN_PROGRESS]: {
-    color: EUI_COLORS.primary,
-    euiColor: "primary",
-    label: "In Progress",
-  },
-  [TodoStatus.BLOCKED]: {
-    color: EUI_COLORS.danger,
-    euiColor: "danger",
-    label: "Blocked",
-  },
-  [TodoStatus.COMPLETED_SUCCESS]: {
-    color: EUI_COLORS.success,
-    euiColor: "success",
-    label: "Done",
-  },
-  [TodoStatus.COMPLETED_ERROR]: {
-    color: EUI_COLORS.warning,
-    euiColor: "warning",
-    label: "Error",
-  },
+// Chart colors of the workflow status colors
+const STATUS_CHART_COLORS: Record<WorkflowStatusColor, string> = {
+  subdued: EUI_COLORS.mediumShade,
+  primary: EUI_COLORS.primary,
+  accent: EUI_COLORS.accent,
+  success: EUI_COLORS.success,
+  warning: EUI_COLORS.warning,
+  danger: EUI_COLORS.danger,
+};
+
+const SLA_STATE_COLORS: Record<SlaState, EuiColorType> = {
+  [SlaState.ON_TRACK]: "primary",
+  [SlaState.AT_RISK]: "warning",
+  [SlaState.BREACHED]: "danger",
+  [SlaState.MET]: "success",
 };
 
 const PRIORITY_CONFIG: Record<
@@ -307,6 +298,7 @@ const StatsPieChart: React.FC<{
 
 export const StatsDashboard: React.FC<StatsDashboardProps> = ({
   statistics,
+  workflow,
   isLoading,
 }) => {
   if (isLoading) {
@@ -342,13 +334,14 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
     byComplianceStandard,
     completionRate,
     overdueCount,
+    sla = {} as Partial<Record<SlaState, number>>,
   } = statistics;
 
   // Prepare chart data (using CSS variable colors for donut charts)
-  const statusData = Object.entries(STATUS_CONFIG).map(([status, config]) => ({
-    label: config.label,
-    value: byStatus[status as TodoStatus] || 0,
-    color: config.color,
+  const statusData = workflow.statuses.map((status) => ({
+    label: status.label,
+    value: byStatus[status.id] || 0,
+    color: STATUS_CHART_COLORS[status.color],
   }));
 
   const priorityData = Object.entries(PRIORITY_CONFIG).map(
@@ -360,11 +353,28 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
   );
 
   // Calculate derived stats
-  const completedCount =
-    (byStatus[TodoStatus.COMPLETED_SUCCESS] || 0) +
-    (byStatus[TodoStatus.COMPLETED_ERROR] || 0);
-  const inProgressCount = byStatus[TodoStatus.IN_PROGRESS] || 0;
-  const blockedCount = byStatus[TodoStatus.BLOCKED] || 0;
+  const countByCategory = (...categories: WorkflowStatusCategory[]) =>
+    getStatusIdsByCategory(workflow, ...categories).reduce(
+      (sum, id) => sum + (byStatus[id] || 0),
+      0
+    );
+  const completedCount = countByCategory(
+    WorkflowStatusCategory.DONE,
+    WorkflowStatusCategory.FAILED
+  );
+  const inProgressCount = countByCategory(WorkflowStatusCategory.ACTIVE);
+  const blockedCount = countByCategory(WorkflowStatusCategory.BLOCKED);
+
+  const slaCount = (state: SlaState) => sla[state] || 0;
+  const slaTracked = Object.values(SlaState).reduce(
+    (sum, state) => sum + slaCount(state),
+    0
+  );
+  // Share of tracked items that did not breach their SLA
+  const slaComplianceRate =
+    slaTracked > 0
+      ? ((slaTracked - slaCount(SlaState.BREACHED)) / slaTracked) * 100
+      : 100;
 
   return (
     <div className="stats-dashboard">
@@ -464,14 +474,14 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
             </EuiText>
             <EuiSpacer size="m" />
             <div className="stats-progress-list">
-              {Object.entries(STATUS_CONFIG).map(([status, config]) => (
+              {workflow.statuses.map((status) => (
                 <StatProgressBar
-                  key={status}
-                  label={config.label}
-                  value={byStatus[status as TodoStatus] || 0}
+                  key={status.id}
+                  label={status.label}
+                  value={byStatus[status.id] || 0}
                   max={totalCount}
-                  color={config.color}
-                  euiColor={config.euiColor}
+                  color={STATUS_CHART_COLORS[status.color]}
+                  euiColor={status.color}
                 />
               ))}
             </div>
@@ -553,6 +563,42 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
 
       <EuiSpacer size="l" />
 
+      {/* SLA Compliance */}
+      <EuiPanel className="stats-progress-panel stats-sla-panel">
+        <EuiFlexGroup justifyContent="spaceBetween" alignItems="center">
+          <EuiFlexItem grow={false}>
+            <EuiText>
+              <h3>
+                <EuiIcon type="clock" /> SLA Compliance
+              </h3>
+            </EuiText>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiText
+              size="s"
+              color={slaCount(SlaState.BREACHED) > 0 ? "danger" : "success"}
+            >
+              <strong>{Math.round(slaComplianceRate)}%</strong> within SLA
+            </EuiText>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+        <EuiSpacer size="m" />
+        <div className="stats-progress-list">
+          {Object.values(SlaState).map((state) => (
+            <StatProgressBar
+              key={state}
+              label={SLA_STATE_LABELS[state]}
+              value={slaCount(state)}
+              max={slaTracked}
+              color={EUI_COLORS[SLA_STATE_COLORS[state]]}
+              euiColor={SLA_STATE_COLORS[state]}
+            />
+          ))}
+        </div>
+      </EuiPanel>
+
+      <EuiSpacer size="l" />
+
       {/* Quick Stats Summary */}
       <EuiPanel className="stats-summary-panel">
         <EuiFlexGroup alignItems="center" gutterSize="l">
@@ -2,6 +2,7 @@ import * as React from "react";
 import { render, screen, fireEvent, within } from "@testing-library/react";
 import { TableView } from "./table-view";
 import { TodoItem, TodoStatus, TodoPriority } from "../../../common/types";
+import { DEFAULT_WORKFLOW } from "../../../common/workflow";
 
 // Mock EUI components that are complex
 jest.mock("@elastic/eui", () => {
@@ -60,6 +61,8 @@ jest.mock("./shared", () => ({
 // Mock utils
 jest.mock("../../utils", () => ({
   formatDate: (date: string) => new Date(date).toLocaleDateString(),
+  formatUser: (users: Array<{ id: string; displayName: string }>, id?: string) =>
+    users.find((user) => user.id === id)?.displayName || id || "-",
 }));
 
 const createMockTodo = (overrides: Partial<TodoItem> = {}): TodoItem => ({
@@ -98,6 +101,7 @@ const createMockTodos = (count: number): TodoItem[] => {
 describe("TableView", () => {
   const defaultProps = {
     todos: createMockTodos(5),
+    workflow: DEFAULT_WORKFLOW,
     totalItems: 50,
     pageIndex: 0,
     pageSize: 10,
@@ -191,6 +195,32 @@ describe("TableView", () => {
       });
     });
 
+    it("counts the search facets and reports filter changes", () => {
+      const onFiltersChange = jest.fn();
+      render(
+        <TableView
+          {...defaultProps}
+          facets={{
+            status: { [TodoStatus.IN_PROGRESS]: 42 },
+            priority: {},
+            complianceStandards: {},
+            tags: {},
+            assignee: {},
+          }}
+          onFiltersChange={onFiltersChange}
+        />
+      );
+
+      expect(screen.getByText("42")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("In Progress"));
+
+      expect(onFiltersChange).toHaveBeenLastCalledWith({
+        status: [TodoStatus.IN_PROGRESS],
+        complianceStandards: [],
+      });
+    });
+
     it("shows clear filters button when filters are active", () => {
       render(<TableView {...defaultProps} />);
 
@@ -334,7 +364,7 @@ describe("TableView", () => {
       // Confirmation modal should appear
       expect(screen.getByText("Delete 1 item?")).toBeInTheDocument();
       expect(
-        screen.getByText(/This action cannot be undone/)
+        screen.getByText(/moved to the trash/)
       ).toBeInTheDocument();
     });
 
@@ -395,6 +425,25 @@ describe("TableView", () => {
         TodoStatus.COMPLETED_SUCCESS
       );
     });
+
+    it("only offers statuses the workflow allows", () => {
+      const workflow = {
+        ...DEFAULT_WORKFLOW,
+        transitions: {
+          ...DEFAULT_WORKFLOW.transitions,
+          [TodoStatus.PLANNED]: [TodoStatus.IN_PROGRESS],
+        },
+      };
+
+      render(<TableView {...defaultProps} workflow={workflow} />);
+
+      const firstSelect = screen.getAllByTestId("status-select")[0];
+      const options = within(firstSelect)
+        .getAllByRole("option")
+        .map((option) => option.getAttribute("value"));
+
+      expect(options).toEqual([TodoStatus.PLANNED, TodoStatus.IN_PROGRESS]);
+    });
   });
 
   describe("Edit Action", () => {
@@ -444,4 +493,26 @@ describe("TableView", () => {
       expect(screen.getAllByText("-").length).toBeGreaterThanOrEqual(1);
     });
   });
+
+  describe("User Columns", () => {
+    it("shows the chosen user columns with display names", () => {
+      const todos = [createMockTodo({ id: "todo-1", createdBy: "alice" })];
+
+      render(
+        <TableView
+          {...defaultProps}
+          todos={todos}
+          users={[{ id: "alice", displayName: "Alice Johnson" }]}
+        />
+      );
+
+      expect(screen.queryByText("Created by")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Columns"));
+      fireEvent.click(screen.getByText("Created by"));
+
+      expect(screen.getAllByText("Created by").length).toBeGreaterThan(1);
+      expect(screen.getByText("Alice Johnson")).toBeInTheDocument();
+    });
+  });
 });
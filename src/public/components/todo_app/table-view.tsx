@@ -23,11 +23,23 @@ import {
 } from "@elastic/eui";
 import {
   TodoItem,
-  TodoStatus,
   ComplianceStandard,
+  TodoFacets,
+  TodoSearchParams,
+  TodoUser,
+  WorkflowDefinition,
 } from "../../../common/types";
-import { formatDate } from "../../utils";
-import { PriorityCell, AssigneeCell, WorkCell } from "./shared";
+import { TodoExportColumn, TodoExportFormat } from "../../../common/export";
+import { getAllowedStatuses } from "../../../common/workflow";
+import { getStatusOptions } from "../../constants";
+import { formatDate, formatUser } from "../../utils";
+import {
+  PriorityCell,
+  AssigneeCell,
+  WorkCell,
+  ExportMenu,
+  UserPicker,
+} from "./shared";
 
 // Hook to detect mobile viewport
 const useIsMobile = (breakpoint: number = 768) => {
@@ -49,6 +61,7 @@ const useIsMobile = (breakpoint: number = 768) => {
 
 interface TableViewProps {
   todos: TodoItem[];
+  workflow: WorkflowDefinition;
   totalItems: number;
   pageIndex: number;
   pageSize: number;
@@ -58,45 +71,27 @@ interface TableViewProps {
   onPaginationChange: (page: number, size: number) => void;
   onSortChange: (field: string, direction: "asc" | "desc") => void;
   onEditTodo: (todo: TodoItem) => void;
-  onDeleteTodo: (id: string) => void;
-  onArchiveTodo: (id: string) => void;
-  onStatusChange: (id: string, status: TodoStatus) => void;
+  // Actions left out are hidden, or disabled for the status select
+  onDeleteTodo?: (id: string) => void;
+  onArchiveTodo?: (id: string) => void;
+  onStatusChange?: (id: string, status: string) => void;
   onBulkArchive?: (ids: string[]) => void;
   onBulkDelete?: (ids: string[]) => void;
+  // Assigns the selected items to a user of the directory
+  onBulkAssign?: (ids: string[], user: TodoUser | undefined) => void;
+  users?: TodoUser[];
+  // Counts of the search across all pages; without them the filters count
+  // the rows of the current page
+  facets?: TodoFacets;
+  // Lets the search apply the table filters on the server
+  onFiltersChange?: (
+    filters: Pick<TodoSearchParams, "status" | "complianceStandards">
+  ) => void;
+  // Downloads every item matching the filters, the table filters included
+  onExport?: (format: TodoExportFormat, columns: TodoExportColumn[]) => void;
   isPending?: (id: string) => boolean;
 }
 
-const STATUS_OPTIONS = [
-  {
-    value: TodoStatus.PLANNED,
-    inputDisplay: <EuiBadge color="default">To Do</EuiBadge>,
-  },
-  {
-    value: TodoStatus.IN_PROGRESS,
-    inputDisplay: <EuiBadge color="primary">In Progress</EuiBadge>,
-  },
-  {
-    value: TodoStatus.BLOCKED,
-    inputDisplay: <EuiBadge color="warning">Blocked</EuiBadge>,
-  },
-  {
-    value: TodoStatus.COMPLETED_SUCCESS,
-    inputDisplay: <EuiBadge color="success">Done</EuiBadge>,
-  },
-  {
-    value: TodoStatus.COMPLETED_ERROR,
-    inputDisplay: <EuiBadge color="danger">Error</EuiBadge>,
-  },
-];
-
-const STATUS_LABELS: Record<TodoStatus, string> = {
-  [TodoStatus.PLANNED]: "To Do",
-  [TodoStatus.IN_PROGRESS]: "In Progress",
-  [TodoStatus.BLOCKED]: "Blocked",
-  [TodoStatus.COMPLETED_SUCCESS]: "Done",
-  [TodoStatus.COMPLETED_ERROR]: "Error",
-};
-
 const COMPLIANCE_LABELS: Record<ComplianceStandard, string> = {
   [ComplianceStandard.PCI_DSS]: "PCI DSS",
   [ComplianceStandard.ISO_27001]: "ISO 27001",
@@ -108,8 +103,34 @@ const COMPLIANCE_LABELS: Record<ComplianceStandard, string> = {
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// Fields of the table columns, the work column shows id and title
+const EXPORT_COLUMNS: TodoExportColumn[] = [
+  "id",
+  "title",
+  "priority",
+  "status",
+  "complianceStandards",
+  "updatedAt",
+  "storyPoints",
+  "assignee",
+];
+
+// Columns shown on demand with the user of each kind of write
+type UserColumn = Extract<
+  TodoExportColumn,
+  "createdBy" | "updatedBy" | "completedBy" | "archivedBy"
+>;
+
+const USER_COLUMNS: Array<{ field: UserColumn; name: string }> = [
+  { field: "createdBy", name: "Created by" },
+  { field: "updatedBy", name: "Updated by" },
+  { field: "completedBy", name: "Completed by" },
+  { field: "archivedBy", name: "Archived by" },
+];
+
 export const TableView: React.FC<TableViewProps> = ({
   todos,
+  workflow,
   totalItems,
   pageIndex,
   pageSize,
@@ -124,16 +145,24 @@ export const TableView: React.FC<TableViewProps> = ({
   onStatusChange,
   onBulkArchive,
   onBulkDelete,
+  onBulkAssign,
+  users = [],
+  facets,
+  onFiltersChange,
+  onExport,
   isPending = () => false,
 }) => {
   const isMobile = useIsMobile();
   const [selectedItems, setSelectedItems] = useState<TodoItem[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [statusFilters, setStatusFilters] = useState<TodoStatus[]>([]);
+  const [isAssignPopoverOpen, setIsAssignPopoverOpen] = useState(false);
+  const [statusFilters, setStatusFilters] = useState<string[]>([]);
   const [complianceFilters, setComplianceFilters] = useState<
     ComplianceStandard[]
   >([]);
   const [isCompliancePopoverOpen, setIsCompliancePopoverOpen] = useState(false);
+  const [userColumns, setUserColumns] = useState<UserColumn[]>([]);
+  const [isColumnsPopoverOpen, setIsColumnsPopoverOpen] = useState(false);
 
   // Column widths - wider on mobile for better readability with horizontal scroll
   const columnWidths = useMemo(
@@ -145,13 +174,14 @@ export const TableView: React.FC<TableViewProps> = ({
       updated: isMobile ? "120px" : "180px",
       storyPoints: isMobile ? "80px" : "100px",
       assignee: isMobile ? "120px" : "150px",
+      user: isMobile ? "120px" : "140px",
       actions: isMobile ? "70px" : "80px",
     }),
     [isMobile]
   );
 
   // Toggle status filter
-  const toggleStatusFilter = (status: TodoStatus) => {
+  const toggleStatusFilter = (status: string) => {
     setStatusFilters((prev) =>
       prev.includes(status)
         ? prev.filter((s) => s !== status)
@@ -159,6 +189,14 @@ export const TableView: React.FC<TableViewProps> = ({
     );
   };
 
+  const toggleUserColumn = (field: UserColumn) => {
+    setUserColumns((prev) =>
+      prev.includes(field)
+        ? prev.filter((f) => f !== field)
+        : [...prev, field]
+    );
+  };
+
   // Toggle compliance filter
   const toggleComplianceFilter = (standard: ComplianceStandard) => {
     setComplianceFilters((prev) =>
@@ -168,25 +206,35 @@ export const TableView: React.FC<TableViewProps> = ({
     );
   };
 
+  useEffect(() => {
+    onFiltersChange?.({
+      status: statusFilters,
+      complianceStandards: complianceFilters,
+    });
+  }, [statusFilters, complianceFilters, onFiltersChange]);
+
   // Count items by status (from loaded data)
   const statusCounts = useMemo(() => {
-    const counts: Record<TodoStatus, number> = {
-      [TodoStatus.PLANNED]: 0,
-      [TodoStatus.IN_PROGRESS]: 0,
-      [TodoStatus.BLOCKED]: 0,
-      [TodoStatus.COMPLETED_SUCCESS]: 0,
-      [TodoStatus.COMPLETED_ERROR]: 0,
-    };
+    if (facets) {
+      return facets.status;
+    }
+    const counts: Record<string, number> = {};
+    workflow.statuses.forEach((status) => {
+      counts[status.id] = 0;
+    });
     todos.forEach((todo) => {
       if (counts[todo.status] !== undefined) {
         counts[todo.status]++;
       }
     });
     return counts;
-  }, [todos]);
+  }, [todos, workflow, facets]);
 
   // Count items by compliance standard (from loaded data)
-  const complianceCounts = useMemo(() => {
+  const complianceCounts = useMemo((): Record<string, number> => {
+    if (facets) {
+      return facets.complianceStandards;
+    }
     const counts: Record<ComplianceStandard, number> = {
       [ComplianceStandard.PCI_DSS]: 0,
       [ComplianceStandard.ISO_27001]: 0,
@@ -203,9 +251,10 @@ export const TableView: React.FC<TableViewProps> = ({
       });
     });
     return counts;
-  }, [todos]);
+  }, [todos, facets]);
 
   // Filter items client-side based on selected status and compliance filters
+  // The server applies them as well when onFiltersChange is handled
   const filteredTodos = useMemo(() => {
     let filtered = todos;
 
@@ -238,6 +287,14 @@ export const TableView: React.FC<TableViewProps> = ({
     }
   };
 
+  const handleBulkAssign = (user: TodoUser | undefined) => {
+    if (onBulkAssign && selectedItems.length > 0) {
+      onBulkAssign(selectedItems.map((item) => item.id), user);
+      setSelectedItems([]);
+      setIsAssignPopoverOpen(false);
+    }
+  };
+
   const handleBulkDelete = () => {
     if (onBulkDelete && selectedItems.length > 0) {
       onBulkDelete(selectedItems.map((item) => item.id));
@@ -254,6 +311,10 @@ export const TableView: React.FC<TableViewProps> = ({
     }
   };
 
+  const shownUserColumns = USER_COLUMNS.filter(({ field }) =>
+    userColumns.includes(field)
+  );
+
   const columns: EuiBasicTableColumn<TodoItem>[] = [
     {
       field: "id",
@@ -289,11 +350,12 @@ export const TableView: React.FC<TableViewProps> = ({
       name: "Status",
       width: columnWidths.status,
       sortable: true,
-      render: (status: TodoStatus, todo: TodoItem) => (
+      render: (status: string, todo: TodoItem) => (
         <EuiSuperSelect
-          options={STATUS_OPTIONS}
+          options={getStatusOptions(getAllowedStatuses(workflow, status))}
           valueOfSelected={status}
-          onChange={(value) => onStatusChange(todo.id, value as TodoStatus)}
+          onChange={(value) => onStatusChange?.(todo.id, value)}
+          disabled={!onStatusChange}
           compressed
         />
       ),
@@ -371,6 +433,19 @@ export const TableView: React.FC<TableViewProps> = ({
       width: columnWidths.assignee,
       render: (assignee?: string) => <AssigneeCell assignee={assignee} />,
     },
+    ...shownUserColumns.map(
+      ({ field, name }): EuiBasicTableColumn<TodoItem> => ({
+        field,
+        name,
+        width: columnWidths.user,
+        sortable: true,
+        render: (username?: string) => (
+          <EuiText size="s" color={username ? "default" : "subdued"}>
+            {formatUser(users, username)}
+          </EuiText>
+        ),
+      })
+    ),
     {
       name: "Actions",
       width: columnWidths.actions,
@@ -387,7 +462,8 @@ export const TableView: React.FC<TableViewProps> = ({
           description: "Archive this item",
           icon: "folderClosed",
           type: "icon",
-          onClick: (todo) => onArchiveTodo(todo.id),
+          available: () => !!onArchiveTodo,
+          onClick: (todo) => onArchiveTodo?.(todo.id),
         },
         {
           name: "Delete",
@@ -395,7 +471,8 @@ export const TableView: React.FC<TableViewProps> = ({
           icon: "trash",
           type: "icon",
           color: "danger",
-          onClick: (todo) => onDeleteTodo(todo.id),
+          available: () => !!onDeleteTodo,
+          onClick: (todo) => onDeleteTodo?.(todo.id),
         },
       ],
     },
@@ -442,21 +519,19 @@ export const TableView: React.FC<TableViewProps> = ({
         >
           <EuiFlexItem grow={false}>
             <EuiFilterGroup>
-              {Object.entries(STATUS_LABELS).map(([status, label]) => (
+              {workflow.statuses.map((status) => (
                 <EuiFilterButton
-                  key={status}
-                  hasActiveFilters={statusFilters.includes(
-                    status as TodoStatus
-                  )}
-                  onClick={() => toggleStatusFilter(status as TodoStatus)}
-                  numFilters={statusCounts[status as TodoStatus] || 0}
+                  key={status.id}
+                  hasActiveFilters={statusFilters.includes(status.id)}
+                  onClick={() => toggleStatusFilter(status.id)}
+                  numFilters={statusCounts[status.id] || 0}
                   numActiveFilters={
-                    statusFilters.includes(status as TodoStatus)
-                      ? statusCounts[status as TodoStatus]
+                    statusFilters.includes(status.id)
+                      ? statusCounts[status.id]
                       : undefined
                   }
                 >
-                  {label}
+                  {status.label}
                 </EuiFilterButton>
               ))}
             </EuiFilterGroup>
@@ -516,9 +591,7 @@ export const TableView: React.FC<TableViewProps> = ({
                           <EuiFlexItem>{label}</EuiFlexItem>
                           <EuiFlexItem grow={false}>
                             <EuiBadge color="hollow">
-                              {complianceCounts[
-                                standard as ComplianceStandard
-                              ] || 0}
+                              {complianceCounts[standard] || 0}
                             </EuiBadge>
                           </EuiFlexItem>
                         </EuiFlexGroup>
@@ -530,6 +603,46 @@ export const TableView: React.FC<TableViewProps> = ({
             </EuiFilterGroup>
           </EuiFlexItem>
 
+          {/* Optional columns with the users of the writes */}
+          <EuiFlexItem grow={false}>
+            <EuiFilterGroup>
+              <EuiPopover
+                id="userColumnsPopover"
+                button={
+                  <EuiFilterButton
+                    iconType="arrowDown"
+                    onClick={() =>
+                      setIsColumnsPopoverOpen(!isColumnsPopoverOpen)
+                    }
+                    isSelected={isColumnsPopoverOpen}
+                    hasActiveFilters={userColumns.length > 0}
+                    numActiveFilters={
+                      userColumns.length > 0 ? userColumns.length : undefined
+                    }
+                  >
+                    Columns
+                  </EuiFilterButton>
+                }
+                isOpen={isColumnsPopoverOpen}
+                closePopover={() => setIsColumnsPopoverOpen(false)}
+                panelPaddingSize="none"
+                anchorPosition="downLeft"
+              >
+                <div style={{ width: 200 }}>
+                  {USER_COLUMNS.map(({ field, name }) => (
+                    <EuiFilterSelectItem
+                      key={field}
+                      checked={userColumns.includes(field) ? "on" : undefined}
+                      onClick={() => toggleUserColumn(field)}
+                    >
+                      {name}
+                    </EuiFilterSelectItem>
+                  ))}
+                </div>
+              </EuiPopover>
+            </EuiFilterGroup>
+          </EuiFlexItem>
+
           {(statusFilters.length > 0 || complianceFilters.length > 0) && (
             <EuiFlexItem grow={false}>
               <EuiButton
@@ -545,6 +658,20 @@ export const TableView: React.FC<TableViewProps> = ({
               </EuiButton>
             </EuiFlexItem>
           )}
+
+          {onExport && (
+            <EuiFlexItem grow={false}>
+              <ExportMenu
+                isDisabled={totalItems === 0}
+                onExport={(format) =>
+                  onExport(format, [
+                    ...EXPORT_COLUMNS,
+                    ...shownUserColumns.map(({ field }) => field),
+                  ])
+                }
+              />
+            </EuiFlexItem>
+          )}
         </EuiFlexGroup>
         <EuiSpacer size="m" />
 
@@ -576,25 +703,58 @@ export const TableView: React.FC<TableViewProps> = ({
               </EuiFlexItem>
               {selectedItems.length > 0 && (
                 <>
-                  <EuiFlexItem grow={false}>
-                    <EuiButton
-                      size="s"
-                      iconType="folderClosed"
-                      onClick={handleBulkArchive}
-                    >
-                      Archive ({selectedItems.length})
-                    </EuiButton>
-                  </EuiFlexItem>
-                  <EuiFlexItem grow={false}>
-                    <EuiButton
-                      size="s"
-                      iconType="trash"
-                      color="danger"
-                      onClick={() => setShowDeleteConfirm(true)}
-                    >
-                      Delete ({selectedItems.length})
-                    </EuiButton>
-                  </EuiFlexItem>
+                  {onBulkArchive && (
+                    <EuiFlexItem grow={false}>
+                      <EuiButton
+                        size="s"
+                        iconType="folderClosed"
+                        onClick={handleBulkArchive}
+                      >
+                        Archive ({selectedItems.length})
+                      </EuiButton>
+                    </EuiFlexItem>
+                  )}
+                  {onBulkAssign && (
+                    <EuiFlexItem grow={false}>
+                      <EuiPopover
+                        button={
+                          <EuiButton
+                            size="s"
+                            iconType="user"
+                            onClick={() =>
+                              setIsAssignPopoverOpen(!isAssignPopoverOpen)
+                            }
+                          >
+                            Assign ({selectedItems.length})
+                          </EuiButton>
+                        }
+                        isOpen={isAssignPopoverOpen}
+                        closePopover={() => setIsAssignPopoverOpen(false)}
+                        anchorPosition="downLeft"
+                      >
+                        <div style={{ width: 260 }}>
+                          <UserPicker
+                            users={users}
+                            onChange={handleBulkAssign}
+                            placeholder="Select a user..."
+                            compressed
+                          />
+                        </div>
+                      </EuiPopover>
+                    </EuiFlexItem>
+                  )}
+                  {onBulkDelete && (
+                    <EuiFlexItem grow={false}>
+                      <EuiButton
+                        size="s"
+                        iconType="trash"
+                        color="danger"
+                        onClick={() => setShowDeleteConfirm(true)}
+                      >
+                        Delete ({selectedItems.length})
+                      </EuiButton>
+                    </EuiFlexItem>
+                  )}
                 </>
               )}
             </EuiFlexGroup>
@@ -648,9 +808,10 @@ export const TableView: React.FC<TableViewProps> = ({
           buttonColor="danger"
         >
           <p>
-            This action cannot be undone.{" "}
             {selectedItems.length > 1 ? "These items" : "This item"} will be
-            permanently deleted.
+            moved to the trash, where{" "}
+            {selectedItems.length > 1 ? "they" : "it"} can be restored until
+            {selectedItems.length > 1 ? " they are" : " it is"} purged.
           </p>
         </EuiConfirmModal>
       )}
@@ -0,0 +1,265 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiFieldNumber,
+  EuiTextArea,
+  EuiSelect,
+  EuiComboBox,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSpacer,
+  EuiTitle,
+} from "@elastic/eui";
+import {
+  ComplianceStandard,
+  TodoPriority,
+  TodoTemplate,
+  TodoTemplateTask,
+  SaveTemplateRequest,
+} from "../../../common/types";
+import { COMPLIANCE_OPTIONS } from "../../constants";
+
+const PRIORITY_SELECT_OPTIONS = Object.values(TodoPriority).map(
+  (priority) => ({
+    value: priority,
+    text: priority.charAt(0).toUpperCase() + priority.slice(1),
+  })
+);
+
+const EMPTY_TASK: TodoTemplateTask = {
+  title: "",
+  priority: TodoPriority.MEDIUM,
+};
+
+interface TemplateEditorProps {
+  // Template to edit; without an id a new template is created from it
+  template?: Partial<TodoTemplate>;
+  onSave: (id: string | undefined, data: SaveTemplateRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+// Form for the name, standards and tasks of a custom template
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  template = {},
+  onSave,
+  onClose,
+}) => {
+  const [name, setName] = useState(template.name || "");
+  const [description, setDescription] = useState(template.description || "");
+  const [standards, setStandards] = useState<ComplianceStandard[]>(
+    template.complianceStandards || []
+  );
+  const [tasks, setTasks] = useState<TodoTemplateTask[]>(
+    template.tasks?.length ? template.tasks : [EMPTY_TASK]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isValid =
+    !!name.trim() &&
+    tasks.length > 0 &&
+    tasks.every((task) => task.title.trim());
+
+  const updateTask = (index: number, changes: Partial<TodoTemplateTask>) =>
+    setTasks((prev) =>
+      prev.map((task, i) => (i === index ? { ...task, ...changes } : task))
+    );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(template.id, {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        complianceStandards: standards,
+        tasks: tasks.map((task) => ({ ...task, title: task.title.trim() })),
+      });
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose} maxWidth={760}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          {template.id ? "Edit template" : "New template"}
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiForm component="form">
+          <EuiFormRow
+            label="Name"
+            isInvalid={!name.trim()}
+            error="Name is required"
+            fullWidth
+          >
+            <EuiFieldText
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              isInvalid={!name.trim()}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow label="Description" fullWidth>
+            <EuiTextArea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow
+            label="Compliance Standards"
+            helpText="Added to every task"
+            fullWidth
+          >
+            <EuiComboBox
+              options={COMPLIANCE_OPTIONS}
+              selectedOptions={COMPLIANCE_OPTIONS.filter((option) =>
+                standards.includes(option.value as ComplianceStandard)
+              )}
+              onChange={(selected) =>
+                setStandards(
+                  selected.map((option) => option.value as ComplianceStandard)
+                )
+              }
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiSpacer size="m" />
+          <EuiTitle size="xxs">
+            <h3>Tasks</h3>
+          </EuiTitle>
+          <EuiSpacer size="s" />
+
+          {tasks.map((task, index) => (
+            <React.Fragment key={index}>
+              <EuiPanel paddingSize="s" hasBorder>
+                <EuiFlexGroup gutterSize="s" alignItems="flexEnd" wrap>
+                  <EuiFlexItem grow={3}>
+                    <EuiFormRow label="Title">
+                      <EuiFieldText
+                        compressed
+                        value={task.title}
+                        isInvalid={!task.title.trim()}
+                        onChange={(e) =>
+                          updateTask(index, { title: e.target.value })
+                        }
+                      />
+                    </EuiFormRow>
+                  </EuiFlexItem>
+                  <EuiFlexItem grow={1}>
+                    <EuiFormRow label="Priority">
+                      <EuiSelect
+                        compressed
+                        options={PRIORITY_SELECT_OPTIONS}
+                        value={task.priority}
+                        onChange={(e) =>
+                          updateTask(index, {
+                            priority: e.target.value as TodoPriority,
+                          })
+                        }
+                      />
+                    </EuiFormRow>
+                  </EuiFlexItem>
+                  <EuiFlexItem grow={1}>
+                    <EuiFormRow label="Due in days">
+                      <EuiFieldNumber
+                        compressed
+                        min={0}
+                        placeholder="None"
+                        value={task.dueInDays ?? ""}
+                        onChange={(e) => {
+                          const days = parseInt(e.target.value, 10);
+                          updateTask(index, {
+                            dueInDays:
+                              isNaN(days) || days < 0 ? undefined : days,
+                          });
+                        }}
+                      />
+                    </EuiFormRow>
+                  </EuiFlexItem>
+                  <EuiFlexItem grow={false}>
+                    <EuiButtonIcon
+                      iconType="trash"
+                      color="danger"
+                      aria-label="Remove task"
+                      isDisabled={tasks.length === 1}
+                      onClick={() =>
+                        setTasks((prev) => prev.filter((_, i) => i !== index))
+                      }
+                    />
+                  </EuiFlexItem>
+                </EuiFlexGroup>
+                <EuiFormRow label="Tags" fullWidth>
+                  <EuiComboBox
+                    compressed
+                    fullWidth
+                    noSuggestions
+                    selectedOptions={(task.tags || []).map((tag) => ({
+                      label: tag,
+                    }))}
+                    onChange={(selected) =>
+                      updateTask(index, {
+                        tags: selected.map((option) => option.label),
+                      })
+                    }
+                    onCreateOption={(value) => {
+                      const tag = value.trim().toLowerCase();
+                      if (tag) {
+                        updateTask(index, {
+                          tags: [...(task.tags || []), tag],
+                        });
+                      }
+                    }}
+                  />
+                </EuiFormRow>
+              </EuiPanel>
+              <EuiSpacer size="s" />
+            </React.Fragment>
+          ))}
+
+          <EuiButtonEmpty
+            iconType="plusInCircle"
+            onClick={() => setTasks((prev) => [...prev, EMPTY_TASK])}
+          >
+            Add task
+          </EuiButtonEmpty>
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!isValid}
+        >
+          Save template
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
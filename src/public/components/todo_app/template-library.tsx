@@ -0,0 +1,303 @@
+import * as React from "react";
+import { useState } from "react";
+import moment from "moment";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiTitle,
+  EuiText,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiBadge,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiToolTip,
+  EuiSpacer,
+  EuiLoadingSpinner,
+  EuiConfirmModal,
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiFormRow,
+  EuiFieldText,
+  EuiDatePicker,
+} from "@elastic/eui";
+import {
+  TodoTemplate,
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+} from "../../../common/types";
+import { DATE_FORMAT } from "../../../common";
+import { COMPLIANCE_LABELS } from "./shared";
+import { TemplateEditor } from "./template-editor";
+
+interface TemplateLibraryProps {
+  templates: TodoTemplate[];
+  isLoading?: boolean;
+  onSave: (id: string | undefined, data: SaveTemplateRequest) => Promise<void>;
+  onDelete: (template: TodoTemplate) => Promise<void>;
+  onInstantiate: (
+    id: string,
+    options: InstantiateTemplateRequest
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+interface InstantiateModalProps {
+  template: TodoTemplate;
+  onInstantiate: TemplateLibraryProps["onInstantiate"];
+  onClose: () => void;
+}
+
+// Start date and assignee for the tasks created from a template
+const InstantiateModal: React.FC<InstantiateModalProps> = ({
+  template,
+  onInstantiate,
+  onClose,
+}) => {
+  const [startDate, setStartDate] = useState(moment());
+  const [assignee, setAssignee] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await onInstantiate(template.id, {
+        startDate: startDate.toISOString(),
+        assignee: assignee.trim() || undefined,
+      });
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the modal open
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>Use "{template.name}"</EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiText size="s" color="subdued">
+          <p>
+            Creates {template.tasks.length} TODO items sharing one batch tag.
+            Due dates are counted from the start date.
+          </p>
+        </EuiText>
+        <EuiSpacer size="m" />
+        <EuiFormRow label="Start date">
+          <EuiDatePicker
+            selected={startDate}
+            onChange={(date) => date && setStartDate(date)}
+            dateFormat={DATE_FORMAT}
+          />
+        </EuiFormRow>
+        <EuiFormRow
+          label="Assignee"
+          helpText="Overrides the assignee of every task"
+        >
+          <EuiFieldText
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Keep template assignees"
+          />
+        </EuiFormRow>
+      </EuiModalBody>
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isCreating}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton fill onClick={handleCreate} isLoading={isCreating}>
+          Create tasks
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
+
+// Built-in and custom templates, with actions to use and manage them
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates,
+  isLoading = false,
+  onSave,
+  onDelete,
+  onInstantiate,
+  onClose,
+}) => {
+  const [editing, setEditing] = useState<Partial<TodoTemplate> | null>(null);
+  const [toUse, setToUse] = useState<TodoTemplate | null>(null);
+  const [toDelete, setToDelete] = useState<TodoTemplate | null>(null);
+
+  // Built-in templates are read-only, so they are copied instead of edited
+  const duplicate = (template: TodoTemplate) =>
+    setEditing({
+      name: `${template.name} (copy)`,
+      description: template.description,
+      complianceStandards: template.complianceStandards,
+      tasks: template.tasks,
+    });
+
+  return (
+    <>
+      <EuiFlyout
+        ownFocus
+        onClose={onClose}
+        size="m"
+        aria-labelledby="templatesTitle"
+      >
+        <EuiFlyoutHeader hasBorder>
+          <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+            <EuiFlexItem grow={false}>
+              <EuiTitle size="m">
+                <h2 id="templatesTitle">Templates</h2>
+              </EuiTitle>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                size="s"
+                iconType="plusInCircle"
+                onClick={() => setEditing({})}
+              >
+                New template
+              </EuiButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+          <EuiSpacer size="s" />
+          <EuiText size="s" color="subdued">
+            <p>
+              Create a ready-made set of compliance tasks in one step.
+            </p>
+          </EuiText>
+        </EuiFlyoutHeader>
+
+        <EuiFlyoutBody>
+          {isLoading ? (
+            <EuiLoadingSpinner size="l" />
+          ) : (
+            templates.map((template) => (
+              <React.Fragment key={template.id}>
+                <EuiPanel paddingSize="m" hasBorder>
+                  <EuiFlexGroup alignItems="flexStart" gutterSize="s">
+                    <EuiFlexItem>
+                      <EuiTitle size="xs">
+                        <h3>{template.name}</h3>
+                      </EuiTitle>
+                      {template.description && (
+                        <EuiText size="s" color="subdued">
+                          <p>{template.description}</p>
+                        </EuiText>
+                      )}
+                      <EuiSpacer size="s" />
+                      <div>
+                        {template.builtIn && (
+                          <EuiBadge color="hollow">Built-in</EuiBadge>
+                        )}
+                        {template.complianceStandards.map((standard) => (
+                          <EuiBadge key={standard} color="primary">
+                            {COMPLIANCE_LABELS[standard]}
+                          </EuiBadge>
+                        ))}
+                        <EuiBadge color="default">
+                          {template.tasks.length} tasks
+                        </EuiBadge>
+                      </div>
+                    </EuiFlexItem>
+                    <EuiFlexItem grow={false}>
+                      <EuiFlexGroup gutterSize="xs" responsive={false}>
+                        <EuiFlexItem grow={false}>
+                          <EuiButton
+                            size="s"
+                            fill
+                            onClick={() => setToUse(template)}
+                          >
+                            Use
+                          </EuiButton>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Duplicate">
+                            <EuiButtonIcon
+                              iconType="copy"
+                              aria-label="Duplicate template"
+                              onClick={() => duplicate(template)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        {!template.builtIn && (
+                          <>
+                            <EuiFlexItem grow={false}>
+                              <EuiToolTip content="Edit">
+                                <EuiButtonIcon
+                                  iconType="pencil"
+                                  aria-label="Edit template"
+                                  onClick={() => setEditing(template)}
+                                />
+                              </EuiToolTip>
+                            </EuiFlexItem>
+                            <EuiFlexItem grow={false}>
+                              <EuiToolTip content="Delete">
+                                <EuiButtonIcon
+                                  iconType="trash"
+                                  color="danger"
+                                  aria-label="Delete template"
+                                  onClick={() => setToDelete(template)}
+                                />
+                              </EuiToolTip>
+                            </EuiFlexItem>
+                          </>
+                        )}
+                      </EuiFlexGroup>
+                    </EuiFlexItem>
+                  </EuiFlexGroup>
+                </EuiPanel>
+                <EuiSpacer size="s" />
+              </React.Fragment>
+            ))
+          )}
+        </EuiFlyoutBody>
+      </EuiFlyout>
+
+      {editing && (
+        <TemplateEditor
+          template={editing}
+          onSave={onSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+
+      {toUse && (
+        <InstantiateModal
+          template={toUse}
+          onInstantiate={onInstantiate}
+          onClose={() => setToUse(null)}
+        />
+      )}
+
+      {toDelete && (
+        <EuiConfirmModal
+          title={`Delete "${toDelete.name}"?`}
+          onCancel={() => setToDelete(null)}
+          onConfirm={async () => {
+            try {
+              await onDelete(toDelete);
+            } catch (error) {
+              // Reported by the caller
+            }
+            setToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          <p>Tasks already created from this template are kept.</p>
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
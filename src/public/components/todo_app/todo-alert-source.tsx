@@ -0,0 +1,69 @@
+import * as React from "react";
+import {
+  EuiTitle,
+  EuiBadge,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButtonEmpty,
+  EuiDescriptionList,
+} from "@elastic/eui";
+import { TodoAlertSource as AlertSource } from "../../../common/types";
+import { formatDate } from "../../utils";
+
+interface TodoAlertSourceProps {
+  alert: AlertSource;
+  // Link to the latest alert, with the base path of the app
+  href: string;
+}
+
+// Wazuh alert an ingested TODO item was created from
+export const TodoAlertSource: React.FC<TodoAlertSourceProps> = ({
+  alert,
+  href,
+}) => (
+  <div className="todo-alert-source">
+    <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+      <EuiFlexItem grow={false}>
+        <EuiFlexGroup alignItems="center" gutterSize="s" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiTitle size="xs">
+              <h3>Source alert</h3>
+            </EuiTitle>
+          </EuiFlexItem>
+          {alert.count > 1 && (
+            <EuiFlexItem grow={false}>
+              <EuiBadge color="warning">{alert.count} alerts</EuiBadge>
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiButtonEmpty
+          size="s"
+          iconType="popout"
+          iconSide="right"
+          href={href}
+          target="_blank"
+        >
+          View latest alert
+        </EuiButtonEmpty>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+
+    <EuiDescriptionList
+      compressed
+      type="column"
+      listItems={[
+        {
+          title: "Rule",
+          description: `${alert.ruleId ?? "-"} (level ${
+            alert.ruleLevel ?? "-"
+          })`,
+        },
+        { title: "Agent", description: alert.agent || "-" },
+        { title: "First seen", description: formatDate(alert.firstSeenAt) },
+        { title: "Last seen", description: formatDate(alert.lastSeenAt) },
+      ]}
+    />
+  </div>
+);
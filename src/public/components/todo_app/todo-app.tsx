@@ -17,18 +17,57 @@ import {
   useUrlFilters,
   useTodoHandlers,
   useKanbanData,
+  useParsedSearch,
 } from "../../hooks";
 import { useTodoStore } from "../../stores";
 import { useTodoTour } from "./shared";
-import { TodoStatus, ComplianceStandard } from "../../../common/types";
+import {
+  TodoItem,
+  ComplianceStandard,
+  SlaState,
+  TodoPermission,
+  SavedView,
+  SavedViewVisibility,
+  TodoPriority,
+  TodoProject,
+  TodoSearchParams,
+  TodoViewType,
+  WorkflowRequiredField,
+  WorkflowStatus,
+} from "../../../common/types";
+import {
+  DEFAULT_WORKFLOW,
+  getMissingRequiredFields,
+  getWorkflowStatus,
+} from "../../../common/workflow";
+import { TodoExportColumn, TodoExportFormat } from "../../../common/export";
+import { DEFAULT_PROJECT_ID } from "../../../common/constants";
+import { hasPermission } from "../../../common/permissions";
+import { QuerySuggestionContext } from "../../utils";
 import { KanbanBoard } from "./kanban-board";
 import { TableView } from "./table-view";
 import { ArchivedView } from "./archived-view";
+import { TrashView } from "./trash-view";
 import { StatsDashboard } from "./stats-dashboard";
 import { TodoModal } from "./todo-modal";
 import { TodoDetailPanel } from "./todo-detail-panel";
+import { TodoConflictModal } from "./todo-conflict-modal";
 import { TodoNavTabs } from "./todo-nav-tabs";
 import { TodoToolbar } from "./todo-toolbar";
+import {
+  TodoTransitionModal,
+  RequiredFieldValues,
+} from "./todo-transition-modal";
+import { WorkflowSettings } from "./workflow-settings";
+import { SlaSettings } from "./sla-settings";
+import { TemplateLibrary } from "./template-library";
+import { TodoImport } from "./todo-import";
+import { CoverageView } from "./coverage-view";
+import { ProjectSettings } from "./project-settings";
+import { WebhookSettings } from "./webhook-settings";
+import { IngestionSettings } from "./ingestion-settings";
+import { AutomationSettings } from "./automation-settings";
+import { RetentionSettings } from "./retention-settings";
 // @ts-ignore
 import "../../styles/todo_app.scss";
 
@@ -41,6 +80,28 @@ const queryClient = new QueryClient({
   },
 });
 
+// A status change waiting for the fields its target status requires
+interface PendingTransition {
+  todo: TodoItem;
+  status: WorkflowStatus;
+  missingFields: WorkflowRequiredField[];
+  position?: number;
+}
+
+// Values selected in both filters; either one alone when the other is empty
+const narrowFilter = <T,>(outer?: T[], inner?: T[]): T[] | undefined => {
+  if (!inner || inner.length === 0) return outer;
+  if (!outer || outer.length === 0) return inner;
+  return outer.filter((value) => inner.includes(value));
+};
+
+// The server streams the file as an attachment, the page stays open
+const downloadFile = (url: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.click();
+};
+
 interface TodoAppProps {
   basename: string;
   notifications: CoreStart["notifications"];
@@ -54,6 +115,7 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
   const [priorityFilter, setPriorityFilter] = useState<string>(
     initialFilters.priority || "all"
   );
+  const [slaFilter, setSlaFilter] = useState<string>("all");
   const [complianceFilters, setComplianceFilters] = useState<
     ComplianceStandard[]
   >([]);
@@ -77,6 +139,10 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
   const [tableSortDirection, setTableSortDirection] = useState<"asc" | "desc">(
     "desc"
   );
+  // Status and compliance filters of the table, on top of the toolbar ones
+  const [tableFilters, setTableFilters] = useState<
+    Pick<TodoSearchParams, "status" | "complianceStandards">
+  >({});
 
   // Pagination & Sorting state for Archived View
   const [archivedPageIndex, setArchivedPageIndex] = useState(0);
@@ -86,6 +152,29 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
     "asc" | "desc"
   >("desc");
 
+  // Pagination state for Trash View
+  const [trashPageIndex, setTrashPageIndex] = useState(0);
+  const [trashPageSize, setTrashPageSize] = useState(25);
+
+  const [pendingTransition, setPendingTransition] =
+    useState<PendingTransition | null>(null);
+  const [isWorkflowOpen, setIsWorkflowOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isSlaOpen, setIsSlaOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isProjectsOpen, setIsProjectsOpen] = useState(false);
+  const [isWebhooksOpen, setIsWebhooksOpen] = useState(false);
+  const [isIngestionOpen, setIsIngestionOpen] = useState(false);
+  const [isAutomationOpen, setIsAutomationOpen] = useState(false);
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+  // Rule the automation log is narrowed to, empty for all of them
+  const [automationLogRuleId, setAutomationLogRuleId] = useState("");
+  // Project the views are scoped to, or `all`
+  const [activeProjectId, setActiveProjectId] =
+    useState<string>(DEFAULT_PROJECT_ID);
+  // Saved view the filters were last loaded from
+  const [activeViewId, setActiveViewId] = useState<string>();
+
   // Tour state
   const { tourSteps, actions: tourActions } = useTodoTour();
 
@@ -112,6 +201,9 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
     addPendingId,
     removePendingId,
     isPending,
+    conflict,
+    showConflict,
+    clearConflict,
   } = store;
 
   // Debounce search query (300ms delay, immediate clear when empty)
@@ -128,6 +220,7 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
       closeModal,
       addPendingId,
       removePendingId,
+      showConflict,
     }),
     [
       setTodos,
@@ -139,6 +232,7 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
       closeModal,
       addPendingId,
       removePendingId,
+      showConflict,
     ]
   );
 
@@ -153,31 +247,95 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
   // React Query hooks
   const {
     useTodos,
+    useFacets,
     useArchivedTodos,
     useArchivedCount,
+    useTrash,
     useInfiniteKanban,
     useStatistics,
+    useCoverage,
+    useWorkflow,
+    useSlaPolicy,
+    useComments,
+    useTodoHistory,
+    useSeries,
+    useTemplates,
+    useViews,
+    useProjects,
+    usePermissions,
+    useUsers,
+    useWebhooks,
+    useWebhookDeliveries,
+    useIngestionPolicy,
+    useIngestionStatus,
+    useAutomationRules,
+    useAutomationExecutions,
+    useRetentionPolicy,
+    useRetentionPurges,
     useCreateTodo,
     useUpdateTodo,
     useDeleteTodo,
     useArchiveTodo,
     useRestoreTodo,
+    useRestoreDeletedTodo,
+    usePurgeTodo,
     useUpdateStatus,
     useReorderTodo,
     useBulkArchive,
     useBulkRestore,
     useBulkDelete,
+    useBulkAssign,
+    useCreateComment,
+    useUpdateComment,
+    useDeleteComment,
+    useUpdateWorkflow,
+    useUpdateSlaPolicy,
+    useUpdateSeries,
+    useSaveTemplate,
+    useDeleteTemplate,
+    useInstantiateTemplate,
+    usePreviewImport,
+    useImportTodos,
+    getExportUrl,
+    useSaveView,
+    useDeleteView,
+    usePinView,
+    useSwitchProject,
+    useSaveProject,
+    useDeleteProject,
+    useMoveTodo,
+    useSaveWebhook,
+    useDeleteWebhook,
+    useTestWebhook,
+    useUpdateIngestionPolicy,
+    useRunIngestion,
+    useSaveAutomationRule,
+    useDeleteAutomationRule,
+    useUpdateRetentionPolicy,
+    usePreviewRetention,
   } = todoHooks;
 
+  const { data: workflow = DEFAULT_WORKFLOW } = useWorkflow();
+
   // Build search params with debounced query
-  const searchQuery = debouncedQuery.trim() || undefined;
+  const search = useParsedSearch(debouncedQuery.trim(), workflow);
+  const searchQuery = search.query || undefined;
+
+  // The table filters narrow the toolbar filters
+  const tableStatus = narrowFilter(filters.status, tableFilters.status);
+  const tableCompliance = narrowFilter(
+    complianceFilters,
+    tableFilters.complianceStandards
+  );
 
   // Fetch todos with pagination and sorting (server-side) - for Table View
   const { data: todosData, isLoading: todosLoading } = useTodos({
     query: searchQuery,
-    status: filters.status.length > 0 ? filters.status : undefined,
+    status: tableStatus,
     priority:
       priorityFilter !== "all" ? [priorityFilter as any] : undefined,
+    slaState: slaFilter !== "all" ? [slaFilter as SlaState] : undefined,
+    complianceStandards: tableCompliance,
     assignee: filters.assignee || undefined,
     page: tablePageIndex + 1,
     size: tablePageSize,
@@ -185,6 +343,17 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
     sortOrder: tableSortDirection,
   });
 
+  // Counts of the toolbar filters, with the filters the board applies
+  const { data: boardFacets } = useFacets({
+    query: searchQuery,
+    status: filters.status.length > 0 ? filters.status : undefined,
+    priority:
+      priorityFilter !== "all" ? [priorityFilter as TodoPriority] : undefined,
+    slaState: slaFilter !== "all" ? [slaFilter as SlaState] : undefined,
+    complianceStandards:
+      complianceFilters.length > 0 ? complianceFilters : undefined,
+  });
+
   // Infinite query for Kanban Board
   const {
     data: kanbanInfiniteData,
@@ -205,59 +374,464 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
   // Get archived count for badge
   const { data: archivedCount = 0 } = useArchivedCount();
 
+  // The trash is only loaded while it is open
+  const { data: trashData, isLoading: trashLoading } = useTrash(
+    trashPageIndex + 1,
+    trashPageSize,
+    currentView === "trash"
+  );
+
   const { data: statisticsData, isLoading: statsLoading } = useStatistics();
 
+  const { data: coverageData, isLoading: coverageLoading } = useCoverage(
+    currentView === "coverage"
+  );
+
+  // The SLA policy is only loaded while its editor is open
+  const { data: slaPolicy, isLoading: slaPolicyLoading } =
+    useSlaPolicy(isSlaOpen);
+
+  // Comment thread of the todo open in the detail panel
+  const { data: detailComments, isLoading: commentsLoading } = useComments(
+    detailPanelTodo?.id || ""
+  );
+  const {
+    data: detailHistory,
+    isLoading: historyLoading,
+    refetch: refetchHistory,
+  } = useTodoHistory(detailPanelTodo?.id || "");
+  const { data: detailSeries, isLoading: seriesLoading } = useSeries(
+    detailPanelTodo?.seriesId
+  );
+
+  // Templates are only loaded while the library is open
+  const { data: templates = [], isLoading: templatesLoading } =
+    useTemplates(isTemplatesOpen);
+
+  const { data: savedViews = [] } = useViews();
+
+  const { data: projects = [], isLoading: projectsLoading } = useProjects();
+  const switchProject = useSwitchProject();
+  // New items go to the default project while all projects are shown
+  const createProject =
+    projects.find((project) => project.id === activeProjectId) ||
+    projects.find((project) => project.id === DEFAULT_PROJECT_ID);
+
+  // Controls the role of the user does not allow stay hidden or disabled
+  const { data: permissions } = usePermissions();
+  const canCreate = hasPermission(permissions, TodoPermission.CREATE);
+  const canEdit = hasPermission(permissions, TodoPermission.EDIT);
+  const canDelete = hasPermission(permissions, TodoPermission.DELETE);
+  const canManage = hasPermission(permissions, TodoPermission.MANAGE);
+
+  // Webhooks are only read while their settings are open
+  const { data: webhooks = [], isLoading: webhooksLoading } = useWebhooks(
+    isWebhooksOpen && canManage
+  );
+  const {
+    data: webhookDeliveries = [],
+    isFetching: webhookDeliveriesLoading,
+    refetch: refetchWebhookDeliveries,
+  } = useWebhookDeliveries(undefined, isWebhooksOpen && canManage);
+
+  const { data: ingestionPolicy, isLoading: ingestionLoading } =
+    useIngestionPolicy(isIngestionOpen && canManage);
+  const { data: ingestionStatus } = useIngestionStatus(
+    isIngestionOpen && canManage
+  );
+
+  const { data: automationRules = [], isLoading: automationRulesLoading } =
+    useAutomationRules(isAutomationOpen && canManage);
+  const {
+    data: automationExecutions = [],
+    isFetching: automationExecutionsLoading,
+    refetch: refetchAutomationExecutions,
+  } = useAutomationExecutions(
+    automationLogRuleId || undefined,
+    isAutomationOpen && canManage
+  );
+
+  const { data: retentionPolicy, isLoading: retentionLoading } =
+    useRetentionPolicy(isRetentionOpen && canManage);
+  const {
+    data: retentionPurges = [],
+    isFetching: retentionPurgesLoading,
+    refetch: refetchRetentionPurges,
+  } = useRetentionPurges(isRetentionOpen && canManage);
+
+  const { data: users = [], isLoading: usersLoading } = useUsers();
+
   // Mutations
   const createMutation = useCreateTodo();
   const updateMutation = useUpdateTodo();
   const deleteMutation = useDeleteTodo();
   const archiveMutation = useArchiveTodo();
   const restoreMutation = useRestoreTodo();
+  const restoreDeletedMutation = useRestoreDeletedTodo();
+  const purgeTodoMutation = usePurgeTodo();
   const updateStatusMutation = useUpdateStatus();
   const reorderMutation = useReorderTodo();
   const bulkArchiveMutation = useBulkArchive();
   const bulkRestoreMutation = useBulkRestore();
   const bulkDeleteMutation = useBulkDelete();
+  const bulkAssignMutation = useBulkAssign();
+  const createCommentMutation = useCreateComment();
+  const updateCommentMutation = useUpdateComment();
+  const deleteCommentMutation = useDeleteComment();
+  const updateWorkflowMutation = useUpdateWorkflow();
+  const updateSlaPolicyMutation = useUpdateSlaPolicy();
+  const updateSeriesMutation = useUpdateSeries();
+  const saveTemplateMutation = useSaveTemplate();
+  const deleteTemplateMutation = useDeleteTemplate();
+  const instantiateTemplateMutation = useInstantiateTemplate();
+  const previewImportMutation = usePreviewImport();
+  const importTodosMutation = useImportTodos();
+  const saveViewMutation = useSaveView();
+  const deleteViewMutation = useDeleteView();
+  const pinViewMutation = usePinView();
+  const saveProjectMutation = useSaveProject();
+  const deleteProjectMutation = useDeleteProject();
+  const moveTodoMutation = useMoveTodo();
+  const saveWebhookMutation = useSaveWebhook();
+  const deleteWebhookMutation = useDeleteWebhook();
+  const testWebhookMutation = useTestWebhook();
+  const updateIngestionPolicyMutation = useUpdateIngestionPolicy();
+  const runIngestionMutation = useRunIngestion();
+  const saveAutomationRuleMutation = useSaveAutomationRule();
+  const deleteAutomationRuleMutation = useDeleteAutomationRule();
+  const updateRetentionPolicyMutation = useUpdateRetentionPolicy();
+  const previewRetentionMutation = usePreviewRetention();
 
   // Use extracted handlers hook
   const {
     handleSaveTodo,
+    handleUpdateTodo,
+    handleResolveConflict,
     handleDeleteTodo,
     handleArchiveTodo,
     handleRestoreTodo,
+    handleRestoreDeletedTodo,
+    handlePurgeTodo,
     handleStatusChange,
     handleReorder,
     handleBulkArchive,
+    handleBulkAssign,
     handleBulkRestore,
     handleBulkDelete,
+    handleAddComment,
+    handleEditComment,
+    handleDeleteComment,
+    handleSaveWorkflow,
+    handleSaveSlaPolicy,
+    handleUpdateSeries,
+    handleSaveTemplate,
+    handleDeleteTemplate,
+    handleInstantiateTemplate,
+    handlePreviewImport,
+    handleImportTodos,
+    handleSaveView,
+    handleDeleteView,
+    handlePinView,
+    handleSaveProject,
+    handleDeleteProject,
+    handleMoveTodo,
+    handleSaveWebhook,
+    handleDeleteWebhook,
+    handleTestWebhook,
+    handleSaveIngestionPolicy,
+    handleRunIngestion,
+    handleSaveAutomationRule,
+    handleDeleteAutomationRule,
+    handleSaveRetentionPolicy,
+    handlePreviewRetention,
   } = useTodoHandlers({
     notifications,
     createMutation,
+    updateMutation,
     deleteMutation,
     archiveMutation,
     restoreMutation,
+    restoreDeletedMutation,
+    purgeTodoMutation,
     updateStatusMutation,
     reorderMutation,
     bulkArchiveMutation,
     bulkRestoreMutation,
     bulkDeleteMutation,
+    bulkAssignMutation,
+    createCommentMutation,
+    updateCommentMutation,
+    deleteCommentMutation,
+    updateWorkflowMutation,
+    updateSlaPolicyMutation,
+    updateSeriesMutation,
+    saveTemplateMutation,
+    deleteTemplateMutation,
+    instantiateTemplateMutation,
+    previewImportMutation,
+    importTodosMutation,
+    saveViewMutation,
+    deleteViewMutation,
+    pinViewMutation,
+    saveProjectMutation,
+    deleteProjectMutation,
+    moveTodoMutation,
+    saveWebhookMutation,
+    deleteWebhookMutation,
+    testWebhookMutation,
+    updateIngestionPolicyMutation,
+    runIngestionMutation,
+    saveAutomationRuleMutation,
+    deleteAutomationRuleMutation,
+    updateRetentionPolicyMutation,
+    previewRetentionMutation,
   });
 
+  // Filters and sort order as stored in a saved view
+  const currentSearchParams = useMemo(
+    (): TodoSearchParams => ({
+      query: filters.query || undefined,
+      status: filters.status.length > 0 ? filters.status : undefined,
+      priority:
+        priorityFilter !== "all"
+          ? [priorityFilter as TodoPriority]
+          : undefined,
+      slaState: slaFilter !== "all" ? [slaFilter as SlaState] : undefined,
+      complianceStandards:
+        complianceFilters.length > 0 ? complianceFilters : undefined,
+      assignee: filters.assignee || undefined,
+      sortField: tableSortField,
+      sortOrder: tableSortDirection,
+    }),
+    [
+      filters,
+      priorityFilter,
+      slaFilter,
+      complianceFilters,
+      tableSortField,
+      tableSortDirection,
+    ]
+  );
+
+  const handleTableExport = useCallback(
+    (format: TodoExportFormat, columns: TodoExportColumn[]) => {
+      const status = narrowFilter(
+        currentSearchParams.status,
+        tableFilters.status
+      );
+      const complianceStandards = narrowFilter(
+        currentSearchParams.complianceStandards,
+        tableFilters.complianceStandards
+      );
+      // An empty list is not sent, which would export every item
+      if (status?.length === 0 || complianceStandards?.length === 0) {
+        notifications.toasts.addWarning("No items match the filters");
+        return;
+      }
+      downloadFile(
+        getExportUrl(
+          {
+            ...currentSearchParams,
+            // The last query that could be read, as shown in the table
+            query: searchQuery,
+            status,
+            complianceStandards,
+            archived: false,
+          },
+          format,
+          columns
+        )
+      );
+    },
+    [
+      currentSearchParams,
+      tableFilters,
+      searchQuery,
+      getExportUrl,
+      notifications,
+    ]
+  );
+
+  const handleArchivedExport = useCallback(
+    (format: TodoExportFormat, columns: TodoExportColumn[]) =>
+      downloadFile(
+        getExportUrl(
+          {
+            archived: true,
+            sortField: archivedSortField,
+            sortOrder: archivedSortDirection,
+          },
+          format,
+          columns
+        )
+      ),
+    [getExportUrl, archivedSortField, archivedSortDirection]
+  );
+
+  const applySavedView = useCallback(
+    (view: SavedView) => {
+      const { params } = view;
+      setView(view.viewType);
+      setFilters({
+        query: params.query || "",
+        status: params.status || [],
+        assignee: params.assignee || "",
+      });
+      setPriorityFilter(params.priority?.[0] || "all");
+      setSlaFilter(params.slaState?.[0] || "all");
+      setComplianceFilters(params.complianceStandards || []);
+      setTableSortField(params.sortField || "updatedAt");
+      setTableSortDirection(params.sortOrder || "desc");
+      setActiveViewId(view.id);
+    },
+    [setView, setFilters]
+  );
+
+  const handleSaveCurrentView = useCallback(
+    async (
+      id: string | undefined,
+      name: string,
+      visibility: SavedViewVisibility
+    ) => {
+      const view = await handleSaveView(id, {
+        name,
+        visibility,
+        viewType: currentView,
+        params: currentSearchParams,
+      });
+      setActiveViewId(view.id);
+    },
+    [handleSaveView, currentView, currentSearchParams]
+  );
+
+  // The pages of the previous project do not apply to the new one
+  const handleSelectProject = useCallback(
+    (projectId: string) => {
+      setActiveProjectId(projectId);
+      switchProject(projectId === DEFAULT_PROJECT_ID ? undefined : projectId);
+      setTablePageIndex(0);
+      setArchivedPageIndex(0);
+      closeDetailPanel();
+    },
+    [switchProject, closeDetailPanel]
+  );
+
+  // A deleted project cannot stay selected
+  const handleDeleteActiveProject = useCallback(
+    async (project: TodoProject) => {
+      await handleDeleteProject(project);
+      if (project.id === activeProjectId) {
+        handleSelectProject(DEFAULT_PROJECT_ID);
+      }
+    },
+    [handleDeleteProject, activeProjectId, handleSelectProject]
+  );
+
+  // Switching tabs leaves the loaded view
+  const handleViewChange = useCallback(
+    (view: TodoViewType) => {
+      setActiveViewId(undefined);
+      setView(view);
+    },
+    [setView]
+  );
+
   // Use extracted Kanban data hook
   const {
     allKanbanTodos,
     kanbanTotalCount,
     todosByStatus,
-    statusCounts,
-    complianceCounts,
   } = useKanbanData({
     kanbanInfiniteData,
-    searchQuery,
+    searchQuery: search.parsed,
     priorityFilter,
+    slaFilter,
     complianceFilters,
     statusFilters: filters.status,
+    workflow,
   });
 
+  // Values the search box suggests, taken from the items on the board and
+  // the user directory
+  const querySuggestions = useMemo((): QuerySuggestionContext => {
+    const usernames = users.map((user) => user.id).sort();
+    return {
+      statuses: workflow.statuses,
+      values: {
+        assignee: Array.from(
+          new Set(
+            allKanbanTodos.flatMap((todo) =>
+              todo.assignee ? [todo.assignee] : []
+            )
+          )
+        ).sort(),
+        tags: Array.from(
+          new Set(allKanbanTodos.flatMap((todo) => todo.tags))
+        ).sort(),
+        controls: Array.from(
+          new Set(allKanbanTodos.flatMap((todo) => todo.controls || []))
+        ).sort(),
+        createdBy: usernames,
+        updatedBy: usernames,
+        completedBy: usernames,
+        archivedBy: usernames,
+      },
+    };
+  }, [workflow, allKanbanTodos, users]);
+
+  /**
+   * Ask for missing required fields before moving an item into a status
+   * Returns true when the move has to wait for the transition dialog.
+   */
+  const deferTransition = useCallback(
+    (todo: TodoItem | undefined, status: string, position?: number) => {
+      const target = getWorkflowStatus(workflow, status);
+      if (!todo || !target || todo.status === status) return false;
+      const missingFields = getMissingRequiredFields(workflow, todo, status);
+      if (missingFields.length === 0) return false;
+      setPendingTransition({ todo, status: target, missingFields, position });
+      return true;
+    },
+    [workflow]
+  );
+
+  const handleKanbanReorder = useCallback(
+    (id: string, status: string, position: number) => {
+      const todo = allKanbanTodos.find((item) => item.id === id);
+      if (!deferTransition(todo, status, position)) {
+        handleReorder(id, status, position);
+      }
+    },
+    [allKanbanTodos, deferTransition, handleReorder]
+  );
+
+  const handleTableStatusChange = useCallback(
+    (id: string, status: string) => {
+      const todo = (todosData?.items || []).find((item) => item.id === id);
+      if (!deferTransition(todo, status)) {
+        handleStatusChange(id, status);
+      }
+    },
+    [todosData, deferTransition, handleStatusChange]
+  );
+
+  const handleConfirmTransition = useCallback(
+    async (values: RequiredFieldValues) => {
+      if (!pendingTransition) return;
+      const { todo, status, position } = pendingTransition;
+      setPendingTransition(null);
+      await handleUpdateTodo(todo.id, {
+        ...values,
+        status: status.id,
+        version: todo.version,
+      });
+      if (position !== undefined) {
+        await handleReorder(todo.id, status.id, position);
+      }
+    },
+    [pendingTransition, handleUpdateTodo, handleReorder]
+  );
+
   // Pagination handlers
   const handleTablePaginationChange = useCallback(
     (newPageIndex: number, newPageSize: number) => {
@@ -275,6 +849,14 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
     []
   );
 
+  const handleTrashPaginationChange = useCallback(
+    (page: number, size: number) => {
+      setTrashPageIndex(page);
+      setTrashPageSize(size);
+    },
+    []
+  );
+
   // Sorting handlers
   const handleTableSortChange = useCallback(
     (field: string, direction: "asc" | "desc") => {
@@ -297,7 +879,14 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
   // Reset pagination when filters change
   React.useEffect(() => {
     setTablePageIndex(0);
-  }, [searchQuery, priorityFilter, filters.status]);
+  }, [
+    searchQuery,
+    priorityFilter,
+    slaFilter,
+    complianceFilters,
+    filters.status,
+    tableFilters,
+  ]);
 
   // Initialize from URL
   React.useEffect(() => {
@@ -322,19 +911,43 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
     });
   }, [currentView, filters.query, filters.status, priorityFilter, syncToUrl]);
 
-  // Table and archived data
+  // Table, archived and trash data
   const tableItems = todosData?.items || [];
   const tableTotalItems = todosData?.total || 0;
   const archivedItems = archivedData?.items || [];
   const archivedTotalItems = archivedData?.total || 0;
+  const trashItems = trashData?.items || [];
+  const trashTotalItems = trashData?.total || 0;
 
   return (
     <div className="todo-app">
       {/* Navigation */}
       <TodoNavTabs
         currentView={currentView}
-        onViewChange={setView}
+        onViewChange={handleViewChange}
         archivedCount={archivedCount}
+        onOpenWorkflow={() => setIsWorkflowOpen(true)}
+        onOpenTemplates={() => setIsTemplatesOpen(true)}
+        onOpenSla={() => setIsSlaOpen(true)}
+        onOpenImport={canCreate ? () => setIsImportOpen(true) : undefined}
+        onOpenWebhooks={canManage ? () => setIsWebhooksOpen(true) : undefined}
+        onOpenIngestion={
+          canManage ? () => setIsIngestionOpen(true) : undefined
+        }
+        onOpenAutomation={
+          canManage ? () => setIsAutomationOpen(true) : undefined
+        }
+        onOpenRetention={
+          canManage ? () => setIsRetentionOpen(true) : undefined
+        }
+        pinnedViews={savedViews.filter((view) => view.pinned)}
+        activeViewId={activeViewId}
+        onSelectView={applySavedView}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSelectProject={handleSelectProject}
+        onManageProjects={() => setIsProjectsOpen(true)}
+        readOnly={!!permissions && !canEdit}
         tourSteps={{ step1: tourSteps.step1, step3: tourSteps.step3 }}
         tourActions={tourActions}
       />
@@ -342,20 +955,36 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
       {/* Content */}
       <main className="todo-app__content">
         {/* Toolbar - only for board and table views */}
-        {currentView !== "archived" && currentView !== "stats" && (
+        {currentView !== "archived" &&
+          currentView !== "stats" &&
+          currentView !== "coverage" &&
+          currentView !== "trash" && (
           <TodoToolbar
             searchQuery={filters.query}
             onSearchChange={(query) => setFilters({ query })}
+            searchError={search.error}
+            querySuggestions={querySuggestions}
             showStatusFilters={currentView === "board"}
+            workflow={workflow}
             statusFilters={filters.status}
             onToggleStatusFilter={toggleStatusFilter}
-            statusCounts={statusCounts}
+            statusCounts={boardFacets?.status || {}}
             complianceFilters={complianceFilters}
             onToggleComplianceFilter={toggleComplianceFilter}
-            complianceCounts={complianceCounts}
+            complianceCounts={boardFacets?.complianceStandards || {}}
             priorityFilter={priorityFilter}
             onPriorityChange={setPriorityFilter}
-            onCreateClick={openCreateModal}
+            slaFilter={slaFilter}
+            onSlaChange={setSlaFilter}
+            savedViews={{
+              views: savedViews,
+              activeViewId,
+              onSelect: applySavedView,
+              onSaveCurrent: handleSaveCurrentView,
+              onDelete: handleDeleteView,
+              onTogglePin: handlePinView,
+            }}
+            onCreateClick={canCreate ? openCreateModal : undefined}
             tourSteps={{ step2: tourSteps.step2, step4: tourSteps.step4 }}
             tourActions={tourActions}
           />
@@ -386,18 +1015,12 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
               >
                 <KanbanBoard
                   todosByStatus={todosByStatus}
-                  statusLabels={{
-                    [TodoStatus.PLANNED]: "To Do",
-                    [TodoStatus.IN_PROGRESS]: "In Progress",
-                    [TodoStatus.BLOCKED]: "Blocked",
-                    [TodoStatus.COMPLETED_SUCCESS]: "Done",
-                    [TodoStatus.COMPLETED_ERROR]: "Error",
-                  }}
+                  workflow={workflow}
                   onEditTodo={openDetailPanel}
-                  onReorder={handleReorder}
-                  onArchiveTodo={handleArchiveTodo}
-                  onDeleteTodo={handleDeleteTodo}
-                  onCreateInStatus={openCreateModal}
+                  onReorder={canEdit ? handleKanbanReorder : undefined}
+                  onArchiveTodo={canEdit ? handleArchiveTodo : undefined}
+                  onDeleteTodo={canDelete ? handleDeleteTodo : undefined}
+                  onCreateInStatus={canCreate ? openCreateModal : undefined}
                   isPending={isPending}
                   hasMore={hasMoreKanbanData || false}
                   isLoadingMore={isFetchingMoreKanban}
@@ -410,6 +1033,7 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
             {currentView === "table" && (
               <TableView
                 todos={tableItems}
+                workflow={workflow}
                 totalItems={tableTotalItems}
                 pageIndex={tablePageIndex}
                 pageSize={tablePageSize}
@@ -419,17 +1043,23 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
                 onPaginationChange={handleTablePaginationChange}
                 onSortChange={handleTableSortChange}
                 onEditTodo={openDetailPanel}
-                onDeleteTodo={handleDeleteTodo}
-                onArchiveTodo={handleArchiveTodo}
-                onStatusChange={handleStatusChange}
-                onBulkArchive={handleBulkArchive}
-                onBulkDelete={handleBulkDelete}
+                onDeleteTodo={canDelete ? handleDeleteTodo : undefined}
+                onArchiveTodo={canEdit ? handleArchiveTodo : undefined}
+                onStatusChange={canEdit ? handleTableStatusChange : undefined}
+                onBulkArchive={canEdit ? handleBulkArchive : undefined}
+                onBulkDelete={canManage ? handleBulkDelete : undefined}
+                onBulkAssign={canEdit ? handleBulkAssign : undefined}
+                users={users}
+                facets={todosData?.facets}
+                onFiltersChange={setTableFilters}
+                onExport={handleTableExport}
                 isPending={isPending}
               />
             )}
             {currentView === "archived" && (
               <ArchivedView
                 todos={archivedItems}
+                workflow={workflow}
                 totalItems={archivedTotalItems}
                 pageIndex={archivedPageIndex}
                 pageSize={archivedPageSize}
@@ -438,38 +1068,255 @@ const TodoAppContent: React.FC<TodoAppProps> = ({ notifications, http }) => {
                 isLoading={archivedLoading}
                 onPaginationChange={handleArchivedPaginationChange}
                 onSortChange={handleArchivedSortChange}
-                onRestoreTodo={handleRestoreTodo}
-                onDeleteTodo={handleDeleteTodo}
-                onBulkRestore={handleBulkRestore}
-                onBulkDelete={handleBulkDelete}
+                onRestoreTodo={canEdit ? handleRestoreTodo : undefined}
+                onDeleteTodo={canDelete ? handleDeleteTodo : undefined}
+                onBulkRestore={canEdit ? handleBulkRestore : undefined}
+                onBulkDelete={canManage ? handleBulkDelete : undefined}
+                onExport={handleArchivedExport}
+                isPending={isPending}
+              />
+            )}
+            {currentView === "trash" && (
+              <TrashView
+                todos={trashItems}
+                workflow={workflow}
+                totalItems={trashTotalItems}
+                pageIndex={trashPageIndex}
+                pageSize={trashPageSize}
+                purgeAfterDays={trashData?.purgeAfterDays}
+                isLoading={trashLoading}
+                onPaginationChange={handleTrashPaginationChange}
+                onRestoreTodo={
+                  canDelete ? handleRestoreDeletedTodo : undefined
+                }
+                onPurgeTodo={canManage ? handlePurgeTodo : undefined}
                 isPending={isPending}
               />
             )}
             {currentView === "stats" && (
               <StatsDashboard
                 statistics={statisticsData}
+                workflow={workflow}
                 isLoading={statsLoading}
               />
             )}
+            {currentView === "coverage" && (
+              <CoverageView
+                coverage={coverageData}
+                isLoading={coverageLoading}
+              />
+            )}
           </>
         )}
       </main>
 
       {/* Todo Modal (Create only) */}
-      {isModalOpen && (
-        <TodoModal onSave={handleSaveTodo} onClose={closeModal} />
+      {isModalOpen && canCreate && (
+        <TodoModal
+          onSave={handleSaveTodo}
+          onClose={closeModal}
+          defaults={createProject?.defaults}
+          users={users}
+          usersLoading={usersLoading}
+        />
       )}
 
       {/* Todo Detail Panel (Preview with inline edit) */}
       {detailPanelTodo && (
         <TodoDetailPanel
           todo={detailPanelTodo}
+          workflow={workflow}
           onClose={closeDetailPanel}
-          onUpdate={async (id, updates) => {
-            await updateMutation.mutateAsync({ id, data: updates });
+          onUpdate={(id, updates) =>
+            handleUpdateTodo(id, {
+              ...updates,
+              version: detailPanelTodo.version,
+            })
+          }
+          onStatusChange={(status) => {
+            if (!deferTransition(detailPanelTodo, status)) {
+              handleUpdateTodo(detailPanelTodo.id, {
+                status,
+                version: detailPanelTodo.version,
+              });
+            }
+          }}
+          onArchive={canEdit ? handleArchiveTodo : undefined}
+          onDelete={canDelete ? handleDeleteTodo : undefined}
+          readOnly={!canEdit}
+          users={users}
+          usersLoading={usersLoading}
+          alertUrl={
+            detailPanelTodo.alert?.url.startsWith("/")
+              ? http.basePath.prepend(detailPanelTodo.alert.url)
+              : detailPanelTodo.alert?.url
+          }
+          comments={detailComments}
+          commentsLoading={commentsLoading}
+          onAddComment={(body, parentId) =>
+            handleAddComment(detailPanelTodo.id, body, parentId)
+          }
+          onEditComment={(commentId, body) =>
+            handleEditComment(detailPanelTodo.id, commentId, body)
+          }
+          onDeleteComment={(commentId) =>
+            handleDeleteComment(detailPanelTodo.id, commentId)
+          }
+          history={detailHistory}
+          historyLoading={historyLoading}
+          onShowHistory={() => refetchHistory()}
+          series={detailSeries}
+          seriesLoading={seriesLoading}
+          onUpdateSeries={(changes) =>
+            handleUpdateSeries(detailPanelTodo.seriesId!, changes)
+          }
+          projects={projects}
+          onMove={
+            canEdit
+              ? (project) => handleMoveTodo(detailPanelTodo.id, project)
+              : undefined
+          }
+        />
+      )}
+
+      {/* Merge dialog for concurrent edits */}
+      {conflict && (
+        <TodoConflictModal
+          conflict={conflict}
+          workflow={workflow}
+          onResolve={async (changes) => {
+            clearConflict();
+            await handleResolveConflict(conflict, changes);
+          }}
+          onDiscard={clearConflict}
+        />
+      )}
+
+      {/* Required fields of the status an item is moved to */}
+      {pendingTransition && (
+        <TodoTransitionModal
+          todo={pendingTransition.todo}
+          status={pendingTransition.status}
+          missingFields={pendingTransition.missingFields}
+          onConfirm={handleConfirmTransition}
+          onCancel={() => setPendingTransition(null)}
+        />
+      )}
+
+      {/* Workflow editor */}
+      {isWorkflowOpen && (
+        <WorkflowSettings
+          workflow={workflow}
+          onSave={handleSaveWorkflow}
+          onClose={() => setIsWorkflowOpen(false)}
+        />
+      )}
+
+      {/* SLA policy editor */}
+      {isSlaOpen && (
+        <SlaSettings
+          policy={slaPolicy}
+          isLoading={slaPolicyLoading}
+          onSave={handleSaveSlaPolicy}
+          onClose={() => setIsSlaOpen(false)}
+        />
+      )}
+
+      {/* Import */}
+      {isImportOpen && canCreate && (
+        <TodoImport
+          onPreview={handlePreviewImport}
+          onImport={handleImportTodos}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {/* Projects */}
+      {isProjectsOpen && (
+        <ProjectSettings
+          projects={projects}
+          isLoading={projectsLoading}
+          onSave={async (id, data) => {
+            await handleSaveProject(id, data);
+          }}
+          onDelete={handleDeleteActiveProject}
+          onClose={() => setIsProjectsOpen(false)}
+        />
+      )}
+
+      {/* Webhooks */}
+      {isWebhooksOpen && canManage && (
+        <WebhookSettings
+          webhooks={webhooks}
+          deliveries={webhookDeliveries}
+          isLoading={webhooksLoading}
+          isLoadingDeliveries={webhookDeliveriesLoading}
+          onSave={async (id, data) => {
+            await handleSaveWebhook(id, data);
+          }}
+          onDelete={handleDeleteWebhook}
+          onTest={handleTestWebhook}
+          onRefreshDeliveries={() => refetchWebhookDeliveries()}
+          onClose={() => setIsWebhooksOpen(false)}
+        />
+      )}
+
+      {/* Alert ingestion */}
+      {isIngestionOpen && canManage && (
+        <IngestionSettings
+          policy={ingestionPolicy}
+          status={ingestionStatus}
+          isLoading={ingestionLoading}
+          isRunning={runIngestionMutation.isLoading}
+          onSave={handleSaveIngestionPolicy}
+          onRun={handleRunIngestion}
+          onClose={() => setIsIngestionOpen(false)}
+        />
+      )}
+
+      {/* Automation rules */}
+      {isAutomationOpen && canManage && (
+        <AutomationSettings
+          rules={automationRules}
+          executions={automationExecutions}
+          workflow={workflow}
+          users={users}
+          isLoading={automationRulesLoading}
+          isLoadingExecutions={automationExecutionsLoading}
+          logRuleId={automationLogRuleId}
+          onLogRuleChange={setAutomationLogRuleId}
+          onSave={async (id, data) => {
+            await handleSaveAutomationRule(id, data);
           }}
-          onArchive={handleArchiveTodo}
-          onDelete={handleDeleteTodo}
+          onDelete={handleDeleteAutomationRule}
+          onRefreshExecutions={() => refetchAutomationExecutions()}
+          onClose={() => setIsAutomationOpen(false)}
+        />
+      )}
+
+      {/* Retention policy */}
+      {isRetentionOpen && canManage && (
+        <RetentionSettings
+          policy={retentionPolicy}
+          purges={retentionPurges}
+          isLoading={retentionLoading}
+          isLoadingPurges={retentionPurgesLoading}
+          onSave={handleSaveRetentionPolicy}
+          onPreview={handlePreviewRetention}
+          onRefreshPurges={() => refetchRetentionPurges()}
+          onClose={() => setIsRetentionOpen(false)}
+        />
+      )}
+
+      {/* Template library */}
+      {isTemplatesOpen && (
+        <TemplateLibrary
+          templates={templates}
+          isLoading={templatesLoading}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onInstantiate={handleInstantiateTemplate}
+          onClose={() => setIsTemplatesOpen(false)}
         />
       )}
     </div>
@@ -7,15 +7,25 @@ import {
   EuiButtonIcon,
   EuiLoadingSpinner,
   EuiConfirmModal,
+  EuiBadge,
 } from '@elastic/eui';
-import { TodoItem } from '../../../common/types';
+import { SlaState, TodoItem } from '../../../common/types';
+import { SLA_STATE_LABELS, getSlaState } from '../../../common/sla';
 import { PRIORITY_CONFIG } from '../../constants';
+import { formatBadgeCount } from './shared';
+
+// Only states that need attention are shown on the card
+const SLA_BADGE_COLORS: Partial<Record<SlaState, string>> = {
+  [SlaState.AT_RISK]: 'warning',
+  [SlaState.BREACHED]: 'danger',
+};
 
 interface TodoCardProps {
   todo: TodoItem;
   onEdit: () => void;
-  onArchive: () => void;
-  onDelete: () => void;
+  // Left out for users who may not archive or delete the item
+  onArchive?: () => void;
+  onDelete?: () => void;
   isPending?: boolean;
 }
 
@@ -45,11 +55,12 @@ export const TodoCard: React.FC<TodoCardProps> = ({
   };
 
   const priorityConfig = PRIORITY_CONFIG[todo.priority];
+  const slaState = todo.sla ? getSlaState(todo.sla) : undefined;
 
   const handleDeleteConfirm = async () => {
     setIsDeleting(true);
     try {
-      await onDelete();
+      await onDelete?.();
       setShowDeleteConfirm(false);
     } catch (error) {
       setIsDeleting(false);
@@ -68,22 +79,30 @@ export const TodoCard: React.FC<TodoCardProps> = ({
             onEdit();
           },
         },
-        {
-          name: 'Archive',
-          icon: 'folderClosed',
-          onClick: () => {
-            setIsPopoverOpen(false);
-            onArchive();
-          },
-        },
-        {
-          name: 'Delete',
-          icon: 'trash',
-          onClick: () => {
-            setIsPopoverOpen(false);
-            setShowDeleteConfirm(true);
-          },
-        },
+        ...(onArchive
+          ? [
+              {
+                name: 'Archive',
+                icon: 'folderClosed',
+                onClick: () => {
+                  setIsPopoverOpen(false);
+                  onArchive();
+                },
+              },
+            ]
+          : []),
+        ...(onDelete
+          ? [
+              {
+                name: 'Delete',
+                icon: 'trash',
+                onClick: () => {
+                  setIsPopoverOpen(false);
+                  setShowDeleteConfirm(true);
+                },
+              },
+            ]
+          : []),
       ],
     },
   ];
@@ -139,6 +158,20 @@ export const TodoCard: React.FC<TodoCardProps> = ({
         </div>
       )}
 
+      {slaState && SLA_BADGE_COLORS[slaState] && (
+        <div className="todo-card__sla">
+          <EuiToolTip
+            content={`Resolve by ${new Date(
+              todo.sla!.resolveBy
+            ).toLocaleString()}`}
+          >
+            <EuiBadge color={SLA_BADGE_COLORS[slaState]} iconType="clock">
+              SLA {SLA_STATE_LABELS[slaState].toLowerCase()}
+            </EuiBadge>
+          </EuiToolTip>
+        </div>
+      )}
+
       <div className="todo-card__meta">
         <span className="todo-card__id">{formatId(todo.id)}</span>
 
@@ -155,6 +188,14 @@ export const TodoCard: React.FC<TodoCardProps> = ({
             </span>
           )}
 
+          {todo.alert && todo.alert.count > 1 && (
+            <EuiToolTip content={`Raised by ${todo.alert.count} Wazuh alerts`}>
+              <EuiBadge color="warning">
+                ×{formatBadgeCount(todo.alert.count)}
+              </EuiBadge>
+            </EuiToolTip>
+          )}
+
           {todo.assignee && (
             <EuiToolTip content={todo.assignee}>
               <div className="todo-card__assignee">
@@ -199,7 +240,7 @@ export const TodoCard: React.FC<TodoCardProps> = ({
           isLoading={isDeleting}
         >
           <p>
-            Are you sure you want to delete <strong>"{todo.title}"</strong>? This action cannot be undone.
+            Are you sure you want to delete <strong>"{todo.title}"</strong>? It can be restored from the trash until it is purged.
           </p>
         </EuiConfirmModal>
       )}
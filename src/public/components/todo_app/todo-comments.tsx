@@ -0,0 +1,271 @@
+import * as React from "react";
+import { useState, useMemo } from "react";
+import {
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiSpacer,
+  EuiLoadingSpinner,
+  EuiConfirmModal,
+} from "@elastic/eui";
+import { TodoComment } from "../../../common/types";
+import { formatDate, getAssigneeInitials } from "../../utils";
+import { MarkdownEditor, MarkdownDisplay } from "./shared";
+
+interface TodoCommentsProps {
+  comments: TodoComment[];
+  isLoading?: boolean;
+  isLocked?: boolean;
+  onAdd: (body: string, parentId?: string) => Promise<void>;
+  onEdit: (commentId: string, body: string) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+}
+
+// Composer used for new comments, replies and edits
+interface CommentComposerProps {
+  initialValue?: string;
+  submitLabel: string;
+  placeholder?: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  initialValue = "",
+  submitLabel,
+  placeholder,
+  onSubmit,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!value.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(value.trim());
+      setValue("");
+    } catch (error) {
+      // Keep the draft so it can be resubmitted; the caller reports the error
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="todo-comments__composer">
+      <MarkdownEditor
+        value={value}
+        onChange={setValue}
+        placeholder={placeholder}
+        height={100}
+        ariaLabel={submitLabel}
+      />
+      <EuiSpacer size="s" />
+      <EuiFlexGroup gutterSize="s" justifyContent="flexEnd" responsive={false}>
+        {onCancel && (
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty size="s" onClick={onCancel} isDisabled={isSubmitting}>
+              Cancel
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+        )}
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            fill
+            onClick={handleSubmit}
+            isLoading={isSubmitting}
+            isDisabled={!value.trim() || isSubmitting}
+          >
+            {submitLabel}
+          </EuiButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </div>
+  );
+};
+
+export const TodoComments: React.FC<TodoCommentsProps> = ({
+  comments,
+  isLoading = false,
+  isLocked = false,
+  onAdd,
+  onEdit,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [commentToDelete, setCommentToDelete] = useState<TodoComment | null>(
+    null
+  );
+
+  // Group replies under their top-level comment
+  const threads = useMemo(() => {
+    const topLevel = comments.filter((c) => !c.parentId);
+    return topLevel.map((comment) => ({
+      comment,
+      replies: comments.filter((c) => c.parentId === comment.id),
+    }));
+  }, [comments]);
+
+  const renderComment = (comment: TodoComment, isReply: boolean) => (
+    <div
+      key={comment.id}
+      className={`todo-comments__item ${
+        isReply ? "todo-comments__item--reply" : ""
+      }`}
+    >
+      <div className="todo-comments__avatar">
+        {getAssigneeInitials(comment.author)}
+      </div>
+      <div className="todo-comments__body">
+        <EuiText size="xs">
+          <strong>{comment.author}</strong>{" "}
+          <span className="todo-comments__date">
+            {formatDate(comment.createdAt)}
+            {comment.edited && " (edited)"}
+          </span>
+        </EuiText>
+
+        {editingId === comment.id ? (
+          <CommentComposer
+            initialValue={comment.body}
+            submitLabel="Save"
+            onSubmit={async (body) => {
+              await onEdit(comment.id, body);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <MarkdownDisplay
+            content={comment.body}
+            className="todo-detail__markdown"
+          />
+        )}
+
+        {!isLocked && editingId !== comment.id && (
+          <EuiFlexGroup gutterSize="xs" responsive={false}>
+            {!isReply && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty
+                  size="xs"
+                  iconType="editorComment"
+                  onClick={() => setReplyingToId(comment.id)}
+                >
+                  Reply
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
+            <EuiFlexItem grow={false}>
+              <EuiButtonEmpty
+                size="xs"
+                iconType="pencil"
+                onClick={() => setEditingId(comment.id)}
+              >
+                Edit
+              </EuiButtonEmpty>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButtonEmpty
+                size="xs"
+                iconType="trash"
+                color="danger"
+                onClick={() => setCommentToDelete(comment)}
+              >
+                Delete
+              </EuiButtonEmpty>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="todo-comments">
+      <EuiTitle size="xs">
+        <h3>Discussion ({comments.length})</h3>
+      </EuiTitle>
+      <EuiSpacer size="s" />
+
+      {isLoading ? (
+        <EuiLoadingSpinner size="m" />
+      ) : (
+        <>
+          {threads.length === 0 && (
+            <EuiText size="s" color="subdued">
+              <p>
+                <em>No comments yet.</em>
+              </p>
+            </EuiText>
+          )}
+
+          {threads.map(({ comment, replies }) => (
+            <div key={comment.id} className="todo-comments__thread">
+              {renderComment(comment, false)}
+              {replies.map((reply) => renderComment(reply, true))}
+              {replyingToId === comment.id && (
+                <div className="todo-comments__item--reply">
+                  <CommentComposer
+                    submitLabel="Reply"
+                    placeholder="Write a reply..."
+                    onSubmit={async (body) => {
+                      await onAdd(body, comment.id);
+                      setReplyingToId(null);
+                    }}
+                    onCancel={() => setReplyingToId(null)}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      <EuiSpacer size="m" />
+      {isLocked ? (
+        <EuiText size="xs" color="subdued">
+          <p>Archived items are read-only. Restore the item to comment.</p>
+        </EuiText>
+      ) : (
+        <CommentComposer
+          submitLabel="Comment"
+          placeholder="Add a comment... (supports markdown)"
+          onSubmit={(body) => onAdd(body)}
+        />
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {commentToDelete && (
+        <EuiConfirmModal
+          title="Delete this comment?"
+          onCancel={() => setCommentToDelete(null)}
+          onConfirm={async () => {
+            try {
+              await onDelete(commentToDelete.id);
+            } catch (error) {
+              // Reported by the caller
+            }
+            setCommentToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          <p>
+            {commentToDelete.parentId
+              ? "This reply will be permanently deleted."
+              : "This comment and all of its replies will be permanently deleted."}
+          </p>
+        </EuiConfirmModal>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import * as React from "react";
+import { useState, useMemo } from "react";
+import {
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiText,
+  EuiSpacer,
+  EuiRadio,
+  EuiCallOut,
+} from "@elastic/eui";
+import {
+  TodoItem,
+  UpdateTodoRequest,
+  WorkflowDefinition,
+} from "../../../common/types";
+import { TodoConflict } from "../../stores/todo-store";
+import { FIELD_LABELS, formatFieldValue } from "./shared";
+
+type Choice = "mine" | "theirs";
+
+interface TodoConflictModalProps {
+  conflict: TodoConflict;
+  workflow: WorkflowDefinition;
+  onResolve: (changes: UpdateTodoRequest) => Promise<void>;
+  onDiscard: () => void;
+}
+
+export const TodoConflictModal: React.FC<TodoConflictModalProps> = ({
+  conflict,
+  workflow,
+  onResolve,
+  onDiscard,
+}) => {
+  const { localChanges, current } = conflict;
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Only fields where the local edit and the server copy disagree need a choice
+  const fields = useMemo(
+    () =>
+      Object.keys(localChanges).filter(
+        (field) =>
+          field !== "version" &&
+          JSON.stringify(localChanges[field as keyof UpdateTodoRequest]) !==
+            JSON.stringify(current[field as keyof TodoItem])
+      ),
+    [localChanges, current]
+  );
+
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    fields.reduce((acc, field) => ({ ...acc, [field]: "mine" }), {})
+  );
+
+  const keptChanges = fields.filter((field) => choices[field] === "mine");
+
+  const handleSave = async () => {
+    if (keptChanges.length === 0) {
+      onDiscard();
+      return;
+    }
+
+    const changes = keptChanges.reduce<UpdateTodoRequest>(
+      (acc, field) => ({
+        ...acc,
+        [field]: localChanges[field as keyof UpdateTodoRequest],
+      }),
+      {}
+    );
+
+    setIsSaving(true);
+    try {
+      await onResolve(changes);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onDiscard} maxWidth={640}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          "{current.title}" was changed by someone else
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        {fields.length === 0 ? (
+          <EuiCallOut
+            title="The latest version already contains your changes"
+            color="success"
+            iconType="check"
+          />
+        ) : (
+          <>
+            <EuiText size="s">
+              <p>
+                Your changes were not saved because this task was updated after
+                you opened it. Choose which value to keep for each field.
+              </p>
+            </EuiText>
+            <EuiSpacer size="m" />
+
+            <div className="todo-conflict">
+              <div className="todo-conflict__row todo-conflict__row--header">
+                <EuiText size="xs" color="subdued">
+                  Field
+                </EuiText>
+                <EuiText size="xs" color="subdued">
+                  Your change
+                </EuiText>
+                <EuiText size="xs" color="subdued">
+                  Latest version
+                </EuiText>
+              </div>
+              {fields.map((field) => (
+                <div key={field} className="todo-conflict__row">
+                  <EuiText size="s">
+                    <strong>{FIELD_LABELS[field] || field}</strong>
+                  </EuiText>
+                  <EuiRadio
+                    id={`conflict-${field}-mine`}
+                    name={`conflict-${field}`}
+                    label={formatFieldValue(
+                      field,
+                      localChanges[field as keyof UpdateTodoRequest],
+                      workflow
+                    )}
+                    checked={choices[field] === "mine"}
+                    onChange={() =>
+                      setChoices((prev) => ({ ...prev, [field]: "mine" }))
+                    }
+                  />
+                  <EuiRadio
+                    id={`conflict-${field}-theirs`}
+                    name={`conflict-${field}`}
+                    label={formatFieldValue(
+                      field,
+                      current[field as keyof TodoItem],
+                      workflow
+                    )}
+                    checked={choices[field] === "theirs"}
+                    onChange={() =>
+                      setChoices((prev) => ({ ...prev, [field]: "theirs" }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onDiscard} isDisabled={isSaving}>
+          {fields.length === 0 ? "Close" : "Discard my changes"}
+        </EuiButtonEmpty>
+        {fields.length > 0 && (
+          <EuiButton fill onClick={handleSave} isLoading={isSaving}>
+            {keptChanges.length === 0 ? "Keep latest version" : "Save merge"}
+          </EuiButton>
+        )}
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
@@ -18,37 +18,114 @@ import {
   EuiToolTip,
   EuiIcon,
   EuiConfirmModal,
+  EuiTabs,
+  EuiTab,
 } from "@elastic/eui";
 import moment from "moment";
-import { TodoItem } from "../../../common/types";
+import {
+  TodoItem,
+  TodoComment,
+  TodoHistoryEntry,
+  WorkflowDefinition,
+  SeriesUpdateRequest,
+  TodoProject,
+  TodoUser,
+} from "../../../common/types";
 import { DATE_FORMAT } from "../../../common";
+import { DEFAULT_PROJECT_ID } from "../../../common/constants";
+import {
+  getAllowedStatuses,
+  getWorkflowStatus,
+} from "../../../common/workflow";
 import {
-  STATUS_OPTIONS,
+  getStatusOptions,
   PRIORITY_OPTIONS,
   COMPLIANCE_OPTIONS,
   SUGGESTED_TAGS,
 } from "../../constants";
-import { InlineTextEditor, EditableMarkdown } from "./shared";
+import { formatUser } from "../../utils";
+import {
+  InlineTextEditor,
+  EditableMarkdown,
+  ControlPicker,
+  UserPicker,
+} from "./shared";
+import { TodoComments } from "./todo-comments";
+import { TodoHistory } from "./todo-history";
+import { TodoSeries } from "./todo-series";
+import { TodoAlertSource } from "./todo-alert-source";
+import { TodoSeriesModal } from "./todo-series-modal";
+
+type DetailTab = "details" | "history";
 
 interface TodoDetailPanelProps {
   todo: TodoItem;
+  workflow: WorkflowDefinition;
   onClose: () => void;
   onUpdate: (id: string, updates: Partial<TodoItem>) => Promise<void>;
-  onArchive: (id: string) => Promise<void>;
-  onDelete: (id: string) => Promise<void>;
+  // Status changes may need required fields first, so the app handles them
+  onStatusChange: (status: string) => void;
+  // Hidden when left out
+  onArchive?: (id: string) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>;
+  // Shows the fields without their editors
+  readOnly?: boolean;
+  // Directory of the users the item can be assigned to
+  users?: TodoUser[];
+  usersLoading?: boolean;
+  // Discussion thread
+  comments?: TodoComment[];
+  commentsLoading?: boolean;
+  onAddComment: (body: string, parentId?: string) => Promise<void>;
+  onEditComment: (commentId: string, body: string) => Promise<void>;
+  onDeleteComment: (commentId: string) => Promise<void>;
+  // Change history
+  history?: TodoHistoryEntry[];
+  historyLoading?: boolean;
+  onShowHistory?: () => void;
+  // Link to the alert an ingested item came from, with the base path
+  alertUrl?: string;
+  // Occurrences of the recurring series the item belongs to
+  series?: TodoItem[];
+  seriesLoading?: boolean;
+  onUpdateSeries?: (changes: SeriesUpdateRequest) => Promise<void>;
+  // Projects the item can be moved to
+  projects?: TodoProject[];
+  onMove?: (project: TodoProject) => Promise<void>;
 }
 
 export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
   todo,
+  workflow,
   onClose,
   onUpdate,
+  onStatusChange,
   onArchive,
   onDelete,
+  comments = [],
+  commentsLoading = false,
+  onAddComment,
+  onEditComment,
+  onDeleteComment,
+  history = [],
+  historyLoading = false,
+  onShowHistory,
+  alertUrl,
+  series = [],
+  seriesLoading = false,
+  onUpdateSeries,
+  projects = [],
+  onMove,
+  readOnly = false,
+  users = [],
+  usersLoading = false,
 }) => {
+  const [selectedTab, setSelectedTab] = useState<DetailTab>("details");
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [titleEditing, setTitleEditing] = useState(false);
   const [titleValue, setTitleValue] = useState(todo.title);
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false);
 
   // Update local state when todo changes
   useEffect(() => {
@@ -75,7 +152,7 @@ export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
   const handleDeleteConfirm = useCallback(async () => {
     setIsDeleting(true);
     try {
-      await onDelete(todo.id);
+      await onDelete?.(todo.id);
       setShowDeleteConfirm(false);
       onClose();
     } catch (error) {
@@ -84,10 +161,17 @@ export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
   }, [todo.id, onDelete, onClose]);
 
   const handleArchive = useCallback(async () => {
-    await onArchive(todo.id);
+    await onArchive?.(todo.id);
     onClose();
   }, [todo.id, onArchive, onClose]);
 
+  const handleTabChange = (tab: DetailTab) => {
+    setSelectedTab(tab);
+    if (tab === "history") {
+      onShowHistory?.();
+    }
+  };
+
   // Title handlers
   const handleTitleSave = () => {
     if (titleValue.trim()) {
@@ -122,6 +206,13 @@ export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
     );
   };
 
+  // Error details are shown once the item has them or its status needs them
+  const showErrorDetails =
+    !!todo.errorDetails ||
+    !!getWorkflowStatus(workflow, todo.status)?.requiredFields?.includes(
+      "errorDetails"
+    );
+
   // Due date
   const dueDateMoment = todo.dueDate ? moment(todo.dueDate) : null;
   const handleDueDateChange = (date: moment.Moment | null) => {
@@ -195,242 +286,427 @@ export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
               </EuiFlexGroup>
             ) : (
               <EuiTitle size="m">
-                <h2
-                  id="todoDetailTitle"
-                  className="todo-detail__title-editable"
-                  onClick={() => setTitleEditing(true)}
-                >
-                  {todo.title}
-                  <EuiIcon
-                    type="pencil"
-                    size="s"
-                    className="todo-detail__edit-icon"
-                  />
-                </h2>
+                {readOnly ? (
+                  <h2 id="todoDetailTitle">{todo.title}</h2>
+                ) : (
+                  <h2
+                    id="todoDetailTitle"
+                    className="todo-detail__title-editable"
+                    onClick={() => setTitleEditing(true)}
+                  >
+                    {todo.title}
+                    <EuiIcon
+                      type="pencil"
+                      size="s"
+                      className="todo-detail__edit-icon"
+                    />
+                  </h2>
+                )}
               </EuiTitle>
             )}
           </EuiFlexItem>
           <EuiFlexItem grow={false} style={{ marginRight: 32 }}>
             <EuiFlexGroup gutterSize="s" responsive={false}>
-              <EuiFlexItem grow={false}>
-                <EuiToolTip content="Archive">
-                  <EuiButtonIcon
-                    iconType="folderClosed"
-                    aria-label="Archive"
-                    onClick={handleArchive}
-                  />
-                </EuiToolTip>
-              </EuiFlexItem>
-              <EuiFlexItem grow={false}>
-                <EuiToolTip content="Delete">
-                  <EuiButtonIcon
-                    iconType="trash"
-                    color="danger"
-                    aria-label="Delete"
-                    onClick={handleDeleteClick}
-                  />
-                </EuiToolTip>
-              </EuiFlexItem>
+              {onArchive && (
+                <EuiFlexItem grow={false}>
+                  <EuiToolTip content="Archive">
+                    <EuiButtonIcon
+                      iconType="folderClosed"
+                      aria-label="Archive"
+                      onClick={handleArchive}
+                    />
+                  </EuiToolTip>
+                </EuiFlexItem>
+              )}
+              {onDelete && (
+                <EuiFlexItem grow={false}>
+                  <EuiToolTip content="Delete">
+                    <EuiButtonIcon
+                      iconType="trash"
+                      color="danger"
+                      aria-label="Delete"
+                      onClick={handleDeleteClick}
+                    />
+                  </EuiToolTip>
+                </EuiFlexItem>
+              )}
             </EuiFlexGroup>
           </EuiFlexItem>
         </EuiFlexGroup>
       </EuiFlyoutHeader>
 
       <EuiFlyoutBody>
-        <div className="todo-detail__fields">
-          {/* Status - SuperSelect */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Status
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <EuiSuperSelect
-                options={STATUS_OPTIONS}
-                valueOfSelected={todo.status}
-                onChange={(value) => handleFieldUpdate("status", value)}
-                compressed
-              />
-            </div>
-          </div>
-
-          {/* Priority - SuperSelect */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Priority
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <EuiSuperSelect
-                options={PRIORITY_OPTIONS}
-                valueOfSelected={todo.priority}
-                onChange={(value) => handleFieldUpdate("priority", value)}
-                compressed
-              />
-            </div>
-          </div>
-
-          {/* Assignee - Inline Text */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Assignee
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <InlineTextEditor
-                value={todo.assignee || ""}
-                onSave={(value) =>
-                  handleFieldUpdate("assignee", value || undefined)
-                }
-                placeholder="Unassigned"
-              />
-            </div>
-          </div>
-
-          {/* Story Points - Inline Number */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Story Points
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <InlineTextEditor
-                value={todo.storyPoints?.toString() || ""}
-                onSave={(value) => {
-                  const num = parseInt(value, 10);
-                  if (value === "" || isNaN(num)) {
-                    handleFieldUpdate("storyPoints", undefined);
-                  } else if (num >= 0 && num <= 100) {
-                    handleFieldUpdate("storyPoints", num);
-                  }
-                }}
-                placeholder="None"
-                type="number"
-              />
-            </div>
-          </div>
-
-          {/* Due Date - DatePicker */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Due Date
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <EuiDatePicker
-                selected={dueDateMoment}
-                onChange={handleDueDateChange}
-                dateFormat={DATE_FORMAT}
-                placeholder="Select date..."
-                className="todo-detail__date-picker"
-              />
-            </div>
-          </div>
-
-          {/* Tags - ComboBox */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Tags
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <EuiComboBox
-                placeholder="Add tags..."
-                options={SUGGESTED_TAGS}
-                selectedOptions={tagOptions}
-                onChange={handleTagsChange}
-                onCreateOption={(searchValue) => {
-                  const newTag = searchValue.trim().toLowerCase();
-                  if (newTag) {
-                    handleFieldUpdate("tags", [...(todo.tags || []), newTag]);
-                  }
-                }}
-                compressed
-                isClearable={false}
-              />
-            </div>
-          </div>
-
-          {/* Compliance - ComboBox/MultiSelect */}
-          <div className="todo-detail__field-row">
-            <EuiText
-              size="xs"
-              color="subdued"
-              className="todo-detail__field-label"
-            >
-              Compliance
-            </EuiText>
-            <div className="todo-detail__field-value">
-              <EuiComboBox
-                placeholder="Select standards..."
-                options={COMPLIANCE_OPTIONS}
-                selectedOptions={selectedCompliance}
-                onChange={handleComplianceChange}
-                compressed
-                isClearable
-              />
+        <EuiTabs size="s" className="todo-detail__tabs">
+          <EuiTab
+            isSelected={selectedTab === "details"}
+            onClick={() => handleTabChange("details")}
+          >
+            Details
+          </EuiTab>
+          <EuiTab
+            isSelected={selectedTab === "history"}
+            onClick={() => handleTabChange("history")}
+          >
+            History
+          </EuiTab>
+        </EuiTabs>
+
+        <EuiSpacer size="m" />
+
+        {selectedTab === "history" ? (
+          <TodoHistory
+            entries={history}
+            workflow={workflow}
+            isLoading={historyLoading}
+          />
+        ) : (
+          <>
+            <div className="todo-detail__fields">
+              {/* Status - SuperSelect */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Status
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <EuiSuperSelect
+                    options={getStatusOptions(
+                      getAllowedStatuses(workflow, todo.status)
+                    )}
+                    valueOfSelected={todo.status}
+                    onChange={onStatusChange}
+                    disabled={readOnly}
+                    compressed
+                  />
+                </div>
+              </div>
+
+              {/* Project - SuperSelect, once there is another project */}
+              {onMove && projects.length > 1 && (
+                <div className="todo-detail__field-row">
+                  <EuiText
+                    size="xs"
+                    color="subdued"
+                    className="todo-detail__field-label"
+                  >
+                    Project
+                  </EuiText>
+                  <div className="todo-detail__field-value">
+                    <EuiSuperSelect
+                      options={projects.map((project) => ({
+                        value: project.id,
+                        inputDisplay: `${project.key} · ${project.name}`,
+                      }))}
+                      valueOfSelected={todo.projectId || DEFAULT_PROJECT_ID}
+                      onChange={(projectId) => {
+                        const project = projects.find(
+                          (item) => item.id === projectId
+                        );
+                        if (project) onMove(project);
+                      }}
+                      compressed
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Error Details - Inline Text */}
+              {showErrorDetails && (
+                <div className="todo-detail__field-row">
+                  <EuiText
+                    size="xs"
+                    color="subdued"
+                    className="todo-detail__field-label"
+                  >
+                    Error Details
+                  </EuiText>
+                  <div className="todo-detail__field-value">
+                    <InlineTextEditor
+                      value={todo.errorDetails || ""}
+                      onSave={(value) =>
+                        handleFieldUpdate("errorDetails", value || undefined)
+                      }
+                      placeholder="None"
+                      readOnly={readOnly}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Priority - SuperSelect */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Priority
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <EuiSuperSelect
+                    options={PRIORITY_OPTIONS}
+                    valueOfSelected={todo.priority}
+                    onChange={(value) => handleFieldUpdate("priority", value)}
+                    disabled={readOnly}
+                    compressed
+                  />
+                </div>
+              </div>
+
+              {/* Assignee - Inline Text */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Assignee
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <UserPicker
+                    users={users}
+                    value={todo.assigneeId}
+                    displayName={todo.assignee}
+                    onChange={(user) =>
+                      onUpdate(todo.id, {
+                        assignee: user?.displayName,
+                        assigneeId: user?.id,
+                      })
+                    }
+                    isLoading={usersLoading}
+                    isDisabled={readOnly}
+                    compressed
+                  />
+                </div>
+              </div>
+
+              {/* Story Points - Inline Number */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Story Points
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <InlineTextEditor
+                    value={todo.storyPoints?.toString() || ""}
+                    onSave={(value) => {
+                      const num = parseInt(value, 10);
+                      if (value === "" || isNaN(num)) {
+                        handleFieldUpdate("storyPoints", undefined);
+                      } else if (num >= 0 && num <= 100) {
+                        handleFieldUpdate("storyPoints", num);
+                      }
+                    }}
+                    placeholder="None"
+                    type="number"
+                    readOnly={readOnly}
+                  />
+                </div>
+              </div>
+
+              {/* Due Date - DatePicker */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Due Date
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <EuiDatePicker
+                    selected={dueDateMoment}
+                    onChange={handleDueDateChange}
+                    dateFormat={DATE_FORMAT}
+                    placeholder="Select date..."
+                    className="todo-detail__date-picker"
+                    disabled={readOnly}
+                  />
+                </div>
+              </div>
+
+              {/* Tags - ComboBox */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Tags
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <EuiComboBox
+                    placeholder="Add tags..."
+                    options={SUGGESTED_TAGS}
+                    selectedOptions={tagOptions}
+                    onChange={handleTagsChange}
+                    onCreateOption={(searchValue) => {
+                      const newTag = searchValue.trim().toLowerCase();
+                      if (newTag) {
+                        handleFieldUpdate("tags", [
+                          ...(todo.tags || []),
+                          newTag,
+                        ]);
+                      }
+                    }}
+                    compressed
+                    isClearable={false}
+                    isDisabled={readOnly}
+                  />
+                </div>
+              </div>
+
+              {/* Compliance - ComboBox/MultiSelect */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Compliance
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <EuiComboBox
+                    placeholder="Select standards..."
+                    options={COMPLIANCE_OPTIONS}
+                    selectedOptions={selectedCompliance}
+                    onChange={handleComplianceChange}
+                    compressed
+                    isClearable
+                    isDisabled={readOnly}
+                  />
+                </div>
+              </div>
+
+              {/* Controls of the compliance standards */}
+              <div className="todo-detail__field-row">
+                <EuiText
+                  size="xs"
+                  color="subdued"
+                  className="todo-detail__field-label"
+                >
+                  Controls
+                </EuiText>
+                <div className="todo-detail__field-value">
+                  <ControlPicker
+                    value={todo.controls || []}
+                    standards={todo.complianceStandards}
+                    onChange={(keys) => handleFieldUpdate("controls", keys)}
+                    compressed
+                    isDisabled={readOnly}
+                  />
+                </div>
+              </div>
             </div>
-          </div>
-        </div>
-
-        <EuiSpacer size="l" />
-
-        {/* Description - Markdown Editor */}
-        <EuiTitle size="xs">
-          <h3>Description</h3>
-        </EuiTitle>
-        <EuiSpacer size="s" />
-
-        <EditableMarkdown
-          value={todo.description || ""}
-          onSave={(value) =>
-            handleFieldUpdate("description", value || undefined)
-          }
-          emptyText="Click to add description..."
-          className="todo-detail__description"
-        />
 
-        <EuiHorizontalRule />
+            <EuiSpacer size="l" />
 
-        {/* Metadata - Read only */}
-        <EuiText size="xs" color="subdued">
-          <p>
-            <strong>Created:</strong> {formatDate(todo.createdAt, true)}
-          </p>
-          <p>
-            <strong>Updated:</strong> {formatDate(todo.updatedAt, true)}
-          </p>
-          {todo.completedAt && (
-            <p>
-              <strong>Completed:</strong> {formatDate(todo.completedAt, true)}
-            </p>
-          )}
-          {todo.id && (
-            <p>
-              <strong>ID:</strong> <code>{todo.id}</code>
-            </p>
-          )}
-        </EuiText>
+            {/* Description - Markdown Editor */}
+            <EuiTitle size="xs">
+              <h3>Description</h3>
+            </EuiTitle>
+            <EuiSpacer size="s" />
+
+            <EditableMarkdown
+              value={todo.description || ""}
+              onSave={(value) =>
+                handleFieldUpdate("description", value || undefined)
+              }
+              emptyText="Click to add description..."
+              className="todo-detail__description"
+              readOnly={readOnly}
+            />
+
+            <EuiSpacer size="l" />
+
+            {/* Wazuh alert of an ingested item */}
+            {todo.alert && (
+              <>
+                <TodoAlertSource
+                  alert={todo.alert}
+                  href={alertUrl || todo.alert.url}
+                />
+                <EuiSpacer size="l" />
+              </>
+            )}
+
+            {/* Recurring series */}
+            {todo.seriesId && (
+              <>
+                <TodoSeries
+                  todo={todo}
+                  occurrences={series}
+                  workflow={workflow}
+                  isLoading={seriesLoading}
+                  onEdit={readOnly ? undefined : () => setIsSeriesOpen(true)}
+                />
+                <EuiSpacer size="l" />
+              </>
+            )}
+
+            {/* Discussion - Markdown comments */}
+            <TodoComments
+              comments={comments}
+              isLoading={commentsLoading}
+              isLocked={todo.archived}
+              onAdd={onAddComment}
+              onEdit={onEditComment}
+              onDelete={onDeleteComment}
+            />
+
+            <EuiHorizontalRule />
+
+            {/* Metadata - Read only */}
+            <EuiText size="xs" color="subdued">
+              <p>
+                <strong>Created:</strong> {formatDate(todo.createdAt, true)}
+                {todo.createdBy && ` by ${formatUser(users, todo.createdBy)}`}
+              </p>
+              <p>
+                <strong>Updated:</strong> {formatDate(todo.updatedAt, true)}
+                {todo.updatedBy && ` by ${formatUser(users, todo.updatedBy)}`}
+              </p>
+              {(todo.completedAt || todo.completedBy) && (
+                <p>
+                  <strong>Completed:</strong>{" "}
+                  {todo.completedAt && formatDate(todo.completedAt, true)}
+                  {todo.completedBy &&
+                    ` by ${formatUser(users, todo.completedBy)}`}
+                </p>
+              )}
+              {todo.archived && (
+                <p>
+                  <strong>Archived:</strong>{" "}
+                  {todo.archivedAt && formatDate(todo.archivedAt, true)}
+                  {todo.archivedBy &&
+                    ` by ${formatUser(users, todo.archivedBy)}`}
+                </p>
+              )}
+              {todo.id && (
+                <p>
+                  <strong>ID:</strong> <code>{todo.id}</code>
+                </p>
+              )}
+            </EuiText>
+          </>
+        )}
       </EuiFlyoutBody>
 
+      {/* Series editor */}
+      {isSeriesOpen && onUpdateSeries && (
+        <TodoSeriesModal
+          todo={todo}
+          onSave={onUpdateSeries}
+          onCancel={() => setIsSeriesOpen(false)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <EuiConfirmModal
@@ -445,7 +721,7 @@ export const TodoDetailPanel: React.FC<TodoDetailPanelProps> = ({
         >
           <p>
             Are you sure you want to delete <strong>"{todo.title}"</strong>?
-            This action cannot be undone.
+            It can be restored from the trash until it is purged.
           </p>
         </EuiConfirmModal>
       )}
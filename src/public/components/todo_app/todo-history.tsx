@@ -0,0 +1,122 @@
+import * as React from "react";
+import {
+  EuiText,
+  EuiBadge,
+  EuiLoadingSpinner,
+  EuiEmptyPrompt,
+} from "@elastic/eui";
+import {
+  TodoHistoryEntry,
+  TodoHistoryAction,
+  WorkflowDefinition,
+} from "../../../common/types";
+import { formatDate, getAssigneeInitials } from "../../utils";
+import { FIELD_LABELS, formatFieldValue } from "./shared";
+
+interface TodoHistoryProps {
+  entries: TodoHistoryEntry[];
+  workflow: WorkflowDefinition;
+  isLoading?: boolean;
+}
+
+const ACTION_LABELS: Record<TodoHistoryAction, string> = {
+  [TodoHistoryAction.CREATE]: "Created",
+  [TodoHistoryAction.UPDATE]: "Updated",
+  [TodoHistoryAction.BULK_UPDATE]: "Bulk update",
+  [TodoHistoryAction.ARCHIVE]: "Archived",
+  [TodoHistoryAction.RESTORE]: "Restored",
+  [TodoHistoryAction.REORDER]: "Moved",
+  [TodoHistoryAction.MOVE]: "Project changed",
+  [TodoHistoryAction.DELETE]: "Deleted",
+  [TodoHistoryAction.SERIES_UPDATE]: "Series update",
+  [TodoHistoryAction.UNDELETE]: "Restored from trash",
+  [TodoHistoryAction.PURGE]: "Deleted permanently",
+};
+
+const ACTION_COLORS: Record<TodoHistoryAction, string> = {
+  [TodoHistoryAction.CREATE]: "success",
+  [TodoHistoryAction.UPDATE]: "primary",
+  [TodoHistoryAction.BULK_UPDATE]: "primary",
+  [TodoHistoryAction.ARCHIVE]: "default",
+  [TodoHistoryAction.RESTORE]: "default",
+  [TodoHistoryAction.REORDER]: "hollow",
+  [TodoHistoryAction.MOVE]: "hollow",
+  [TodoHistoryAction.DELETE]: "danger",
+  [TodoHistoryAction.SERIES_UPDATE]: "accent",
+  [TodoHistoryAction.UNDELETE]: "default",
+  [TodoHistoryAction.PURGE]: "danger",
+};
+
+// Entries without a field carry a snapshot of the whole item
+const SNAPSHOT_DESCRIPTIONS: Partial<Record<TodoHistoryAction, string>> = {
+  [TodoHistoryAction.DELETE]: "moved this item to the trash",
+  [TodoHistoryAction.UNDELETE]: "restored this item from the trash",
+  [TodoHistoryAction.PURGE]: "deleted this item permanently",
+};
+
+const describeEntry = (
+  entry: TodoHistoryEntry,
+  workflow: WorkflowDefinition
+): React.ReactNode => {
+  if (!entry.field) {
+    return SNAPSHOT_DESCRIPTIONS[entry.action] || "created this item";
+  }
+
+  return (
+    <>
+      changed <strong>{FIELD_LABELS[entry.field] || entry.field}</strong>{" "}
+      from{" "}
+      <span className="todo-history__value">
+        {formatFieldValue(entry.field, entry.oldValue, workflow)}
+      </span>{" "}
+      to{" "}
+      <span className="todo-history__value">
+        {formatFieldValue(entry.field, entry.newValue, workflow)}
+      </span>
+    </>
+  );
+};
+
+export const TodoHistory: React.FC<TodoHistoryProps> = ({
+  entries,
+  workflow,
+  isLoading = false,
+}) => {
+  if (isLoading) {
+    return <EuiLoadingSpinner size="m" />;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <EuiEmptyPrompt
+        iconType="clock"
+        titleSize="xs"
+        title={<h3>No history yet</h3>}
+        body={<p>Changes to this item will be listed here.</p>}
+      />
+    );
+  }
+
+  return (
+    <div className="todo-history">
+      {entries.map((entry) => (
+        <div key={entry.id} className="todo-history__item">
+          <div className="todo-history__avatar">
+            {getAssigneeInitials(entry.actor)}
+          </div>
+          <div className="todo-history__body">
+            <EuiText size="xs">
+              <strong>{entry.actor}</strong> {describeEntry(entry, workflow)}
+            </EuiText>
+            <EuiText size="xs" className="todo-history__meta">
+              <EuiBadge color={ACTION_COLORS[entry.action]}>
+                {ACTION_LABELS[entry.action] || entry.action}
+              </EuiBadge>{" "}
+              {formatDate(entry.timestamp)}
+            </EuiText>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,415 @@
+import * as React from "react";
+import { useMemo, useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexGrid,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiFilePicker,
+  EuiSelect,
+  EuiSwitch,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiSpacer,
+  EuiCallOut,
+  EuiBadge,
+  EuiBasicTable,
+} from "@elastic/eui";
+import {
+  TodoImportAction,
+  TodoImportRequest,
+  TodoImportResult,
+  TodoImportRowResult,
+} from "../../../common/types";
+import { MAX_IMPORT_ROWS } from "../../../common/constants";
+import {
+  IMPORT_FIELDS,
+  ImportField,
+  ImportMapping,
+  ParsedImportFile,
+  parseImportFile,
+  guessImportMapping,
+  mapImportRow,
+  buildImportErrorReport,
+  getErrorMessage,
+} from "../../utils";
+
+const PAGE_SIZE = 20;
+
+const FIELD_OPTIONS = [
+  { value: "", text: "Do not import" },
+  ...IMPORT_FIELDS.map(({ field, label }) => ({ value: field, text: label })),
+];
+
+interface TodoImportProps {
+  onPreview: (request: TodoImportRequest) => Promise<TodoImportRowResult[]>;
+  onImport: (request: TodoImportRequest) => Promise<TodoImportResult>;
+  onClose: () => void;
+}
+
+interface PreviewRow extends TodoImportRowResult {
+  title?: unknown;
+}
+
+const downloadCsv = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const PREVIEW_COLUMNS = [
+  { field: "row", name: "Row", width: "60px" },
+  {
+    field: "action",
+    name: "Action",
+    width: "90px",
+    render: (action: TodoImportAction, item: PreviewRow) =>
+      item.errors.length > 0 ? (
+        <EuiBadge color="danger">Skip</EuiBadge>
+      ) : (
+        <EuiBadge
+          color={action === TodoImportAction.UPDATE ? "primary" : "hollow"}
+        >
+          {action === TodoImportAction.UPDATE ? "Update" : "Create"}
+        </EuiBadge>
+      ),
+  },
+  {
+    field: "title",
+    name: "Title",
+    truncateText: true,
+    render: (title: unknown) => (title ? String(title) : "-"),
+  },
+  {
+    field: "errors",
+    name: "Errors",
+    render: (errors: string[]) => (
+      <EuiText size="xs" color="danger">
+        {errors.join("; ")}
+      </EuiText>
+    ),
+  },
+];
+
+// Upload a CSV or JSON file, map its columns and import the valid rows
+export const TodoImport: React.FC<TodoImportProps> = ({
+  onPreview,
+  onImport,
+  onClose,
+}) => {
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [upsert, setUpsert] = useState(false);
+  const [preview, setPreview] = useState<TodoImportRowResult[] | null>(null);
+  const [result, setResult] = useState<TodoImportResult | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(
+    () => (file ? file.rows.map((row) => mapImportRow(row, mapping)) : []),
+    [file, mapping]
+  );
+  const mappedFields = Object.values(mapping);
+  const hasKey = mappedFields.includes("externalKey");
+  const isTooLarge = !!file && file.rows.length > MAX_IMPORT_ROWS;
+  const request: TodoImportRequest = { rows, upsert: upsert && hasKey };
+
+  const previewRows: PreviewRow[] = (preview || [])
+    .filter((item) => !errorsOnly || item.errors.length > 0)
+    .map((item) => ({ ...item, title: rows[item.row - 1]?.title }));
+  const invalidCount = (preview || []).filter(
+    (item) => item.errors.length > 0
+  ).length;
+  const validCount = (preview || []).length - invalidCount;
+
+  // A new mapping has to be checked again before importing
+  const resetPreview = () => {
+    setPreview(null);
+    setPageIndex(0);
+  };
+
+  const handleFile = async (files: FileList | null) => {
+    resetPreview();
+    setResult(null);
+    setFile(null);
+    setFileError(null);
+    if (!files || files.length === 0) {
+      return;
+    }
+    try {
+      const parsed = parseImportFile(files[0].name, await files[0].text());
+      setFile(parsed);
+      setMapping(guessImportMapping(parsed.columns));
+    } catch (error) {
+      setFileError(getErrorMessage(error));
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(request));
+      setPageIndex(0);
+    } catch (error) {
+      // The error toast is shown by the caller, keep the mapping
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      setResult(await onImport(request));
+    } catch (error) {
+      // The error toast is shown by the caller, keep the preview
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!file) {
+      return;
+    }
+    const errors = result
+      ? result.errors
+      : (preview || []).flatMap(({ row, errors: rowErrors }) =>
+          rowErrors.map((error) => ({ row, error }))
+        );
+    downloadCsv("import-errors.csv", buildImportErrorReport(file, errors));
+  };
+
+  return (
+    <EuiFlyout
+      ownFocus
+      onClose={onClose}
+      size="l"
+      aria-labelledby="importTitle"
+    >
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size="m">
+          <h2 id="importTitle">Import TODO items</h2>
+        </EuiTitle>
+        <EuiSpacer size="s" />
+        <EuiText size="s" color="subdued">
+          <p>
+            Upload a CSV file with a header row or a JSON array of objects,
+            up to {MAX_IMPORT_ROWS} rows. Rows are checked like items created
+            in the form; rows with errors are skipped.
+          </p>
+        </EuiText>
+      </EuiFlyoutHeader>
+
+      <EuiFlyoutBody>
+        <EuiFilePicker
+          accept=".csv,.json"
+          initialPromptText="Select or drag a CSV or JSON file"
+          onChange={handleFile}
+          display="large"
+          fullWidth
+        />
+
+        {fileError && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="The file cannot be read" color="danger">
+              <p>{fileError}</p>
+            </EuiCallOut>
+          </>
+        )}
+
+        {isTooLarge && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="Too many rows" color="danger">
+              <p>
+                The file has {file?.rows.length} rows. Split it into files of
+                at most {MAX_IMPORT_ROWS} rows.
+              </p>
+            </EuiCallOut>
+          </>
+        )}
+
+        {file && !isTooLarge && (
+          <>
+            <EuiSpacer size="l" />
+            <EuiTitle size="xs">
+              <h3>Columns ({file.rows.length} rows)</h3>
+            </EuiTitle>
+            <EuiSpacer size="s" />
+            <EuiFlexGrid columns={3} gutterSize="s">
+              {file.columns.map((column) => (
+                <EuiFlexItem key={column}>
+                  <EuiFormRow label={column} display="rowCompressed">
+                    <EuiSelect
+                      compressed
+                      options={FIELD_OPTIONS}
+                      value={mapping[column] || ""}
+                      onChange={(e) => {
+                        const field = e.target.value as ImportField | "";
+                        setMapping((prev) => ({
+                          ...prev,
+                          [column]: field || undefined,
+                        }));
+                        resetPreview();
+                      }}
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+              ))}
+            </EuiFlexGrid>
+
+            <EuiSpacer size="m" />
+            <EuiSwitch
+              label="Update items imported before with the same external key"
+              checked={upsert && hasKey}
+              disabled={!hasKey}
+              onChange={(e) => {
+                setUpsert(e.target.checked);
+                resetPreview();
+              }}
+            />
+            {!mappedFields.includes("title") && (
+              <>
+                <EuiSpacer size="m" />
+                <EuiCallOut
+                  title="No column is mapped to the title"
+                  color="warning"
+                  iconType="alert"
+                  size="s"
+                />
+              </>
+            )}
+          </>
+        )}
+
+        {preview && !result && (
+          <>
+            <EuiSpacer size="l" />
+            <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+              <EuiFlexItem grow={false}>
+                <EuiText size="s">
+                  <p>
+                    <strong>{validCount}</strong> rows can be imported,{" "}
+                    <strong>{invalidCount}</strong> have errors
+                  </p>
+                </EuiText>
+              </EuiFlexItem>
+              <EuiFlexItem grow={false}>
+                <EuiSwitch
+                  label="Only rows with errors"
+                  checked={errorsOnly}
+                  onChange={(e) => {
+                    setErrorsOnly(e.target.checked);
+                    setPageIndex(0);
+                  }}
+                  compressed
+                />
+              </EuiFlexItem>
+            </EuiFlexGroup>
+            <EuiSpacer size="s" />
+            <EuiBasicTable<PreviewRow>
+              items={previewRows.slice(
+                pageIndex * PAGE_SIZE,
+                (pageIndex + 1) * PAGE_SIZE
+              )}
+              columns={PREVIEW_COLUMNS}
+              itemId="row"
+              tableLayout="fixed"
+              pagination={{
+                pageIndex,
+                pageSize: PAGE_SIZE,
+                totalItemCount: previewRows.length,
+                hidePerPageOptions: true,
+              }}
+              onChange={({ page }: { page?: { index: number } }) =>
+                setPageIndex(page ? page.index : 0)
+              }
+            />
+          </>
+        )}
+
+        {result && (
+          <>
+            <EuiSpacer size="l" />
+            <EuiCallOut
+              title={
+                `${result.created} created, ${result.updated} updated, ` +
+                `${result.failed} failed`
+              }
+              color={result.failed > 0 ? "warning" : "success"}
+              iconType={result.failed > 0 ? "alert" : "check"}
+            >
+              {result.failed > 0 && (
+                <p>Download the error report to fix and re-import the rows.</p>
+              )}
+            </EuiCallOut>
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty
+              onClick={onClose}
+              isDisabled={isPreviewing || isImporting}
+            >
+              {result ? "Close" : "Cancel"}
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiFlexGroup gutterSize="s" responsive={false}>
+              {(result ? result.failed > 0 : invalidCount > 0) && (
+                <EuiFlexItem grow={false}>
+                  <EuiButtonEmpty
+                    iconType="download"
+                    onClick={downloadErrorReport}
+                  >
+                    Download error report
+                  </EuiButtonEmpty>
+                </EuiFlexItem>
+              )}
+              {!result && !preview && (
+                <EuiFlexItem grow={false}>
+                  <EuiButton
+                    onClick={handlePreview}
+                    isLoading={isPreviewing}
+                    isDisabled={!file || isTooLarge || rows.length === 0}
+                  >
+                    Preview
+                  </EuiButton>
+                </EuiFlexItem>
+              )}
+              {!result && preview && (
+                <EuiFlexItem grow={false}>
+                  <EuiButton
+                    fill
+                    onClick={handleImport}
+                    isLoading={isImporting}
+                    isDisabled={validCount === 0}
+                  >
+                    Import {validCount} rows
+                  </EuiButton>
+                </EuiFlexItem>
+              )}
+            </EuiFlexGroup>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </EuiFlyout>
+  );
+};
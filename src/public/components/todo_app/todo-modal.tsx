@@ -19,12 +19,20 @@ import {
   EuiSpacer,
   EuiDatePicker,
 } from '@elastic/eui';
-import { MarkdownEditor } from './shared';
+import {
+  MarkdownEditor,
+  RecurrenceFields,
+  ControlPicker,
+  UserPicker,
+} from './shared';
 import { Moment } from 'moment';
 import { 
   TodoPriority, 
   ComplianceStandard,
   CreateTodoRequest,
+  RecurrenceRule,
+  ProjectDefaults,
+  TodoUser,
 } from '../../../common/types';
 import { DATE_FORMAT } from '../../../common';
 import {
@@ -36,20 +44,40 @@ import {
 interface TodoModalProps {
   onSave: (data: CreateTodoRequest) => void;
   onClose: () => void;
+  // Defaults of the project the item is created in
+  defaults?: ProjectDefaults;
+  // Directory of the users the item can be assigned to
+  users?: TodoUser[];
+  usersLoading?: boolean;
 }
 
 export const TodoModal: React.FC<TodoModalProps> = ({
   onSave,
   onClose,
+  defaults = {},
+  users = [],
+  usersLoading = false,
 }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [priority, setPriority] = useState<TodoPriority>(TodoPriority.MEDIUM);
-  const [assignee, setAssignee] = useState('');
+  const [priority, setPriority] = useState<TodoPriority>(
+    defaults.priority || TodoPriority.MEDIUM
+  );
+  // The default assignee of a project is a name without a directory id
+  const [assignee, setAssignee] = useState(defaults.assignee);
+  const [assigneeId, setAssigneeId] = useState<string | undefined>();
   const [storyPoints, setStoryPoints] = useState<number | undefined>();
   const [dueDate, setDueDate] = useState<Moment | null>(null);
-  const [tags, setTags] = useState<Array<{ label: string }>>([]);
-  const [complianceStandards, setComplianceStandards] = useState<Array<{ label: string; value: string }>>([]);
+  const [tags, setTags] = useState<Array<{ label: string }>>(
+    (defaults.tags || []).map((label) => ({ label }))
+  );
+  const [complianceStandards, setComplianceStandards] = useState<Array<{ label: string; value: string }>>(
+    COMPLIANCE_OPTIONS.filter((option) =>
+      defaults.complianceStandards?.includes(option.value)
+    )
+  );
+  const [controls, setControls] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>();
   const [isLoading, setIsLoading] = useState(false);
   
   // Track if component is mounted to prevent state updates after unmount
@@ -69,11 +97,14 @@ export const TodoModal: React.FC<TodoModalProps> = ({
         title: title.trim(),
         description: description.trim() || undefined,
         priority,
-        assignee: assignee.trim() || undefined,
+        assignee,
+        assigneeId,
         storyPoints: storyPoints || undefined,
         dueDate: dueDate?.toISOString() || undefined,
         tags: tags.map((t) => t.label),
         complianceStandards: complianceStandards.map((cs) => cs.value) as ComplianceStandard[],
+        controls,
+        recurrence,
       };
 
       await onSave(data);
@@ -149,10 +180,15 @@ export const TodoModal: React.FC<TodoModalProps> = ({
           <EuiFlexGroup gutterSize="m">
             <EuiFlexItem>
               <EuiFormRow label="Assignee">
-                <EuiFieldText
-                  placeholder="Enter assignee name"
-                  value={assignee}
-                  onChange={(e) => setAssignee(e.target.value)}
+                <UserPicker
+                  users={users}
+                  value={assigneeId}
+                  displayName={assignee}
+                  onChange={(user) => {
+                    setAssignee(user?.displayName);
+                    setAssigneeId(user?.id);
+                  }}
+                  isLoading={usersLoading}
                   fullWidth
                 />
               </EuiFormRow>
@@ -192,6 +228,11 @@ export const TodoModal: React.FC<TodoModalProps> = ({
 
           <EuiSpacer size="m" />
 
+          {/* Recurrence */}
+          <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+
+          <EuiSpacer size="m" />
+
           {/* Tags */}
           <EuiFormRow label="Tags" helpText="Press Enter to create a new tag">
             <EuiComboBox
@@ -216,6 +257,24 @@ export const TodoModal: React.FC<TodoModalProps> = ({
               isClearable
             />
           </EuiFormRow>
+
+          <EuiSpacer size="m" />
+
+          {/* Controls */}
+          <EuiFormRow
+            label="Controls"
+            helpText="Requirements of the standards this task covers"
+          >
+            <ControlPicker
+              value={controls}
+              standards={
+                complianceStandards.map(
+                  (cs) => cs.value
+                ) as ComplianceStandard[]
+              }
+              onChange={setControls}
+            />
+          </EuiFormRow>
         </EuiForm>
       </EuiModalBody>
 
@@ -10,17 +10,45 @@ import {
   EuiButtonIcon,
   EuiToolTip,
   EuiButton,
+  EuiBadge,
   EuiTourStep,
 } from "@elastic/eui";
 import { KEYBOARD_SHORTCUTS_HELP } from "../../hooks";
 import { formatBadgeCount } from "./shared/constants";
+import {
+  SavedView,
+  TodoProject,
+  TodoViewType,
+} from "../../../common/types";
+import { ProjectPicker } from "./project-picker";
 
-type ViewType = "board" | "table" | "archived" | "stats";
+type ViewType = TodoViewType;
 
 interface TodoNavTabsProps {
   currentView: ViewType;
   onViewChange: (view: ViewType) => void;
   archivedCount: number;
+  onOpenWorkflow: () => void;
+  onOpenTemplates: () => void;
+  onOpenSla: () => void;
+  // Hidden for users who may not create items
+  onOpenImport?: () => void;
+  // Hidden for users who may not manage the plugin
+  onOpenWebhooks?: () => void;
+  onOpenIngestion?: () => void;
+  onOpenAutomation?: () => void;
+  onOpenRetention?: () => void;
+  // Views pinned by the user, shown after the built-in tabs
+  pinnedViews: SavedView[];
+  activeViewId?: string;
+  onSelectView: (view: SavedView) => void;
+  // Project switcher in the header
+  projects: TodoProject[];
+  activeProjectId: string;
+  onSelectProject: (projectId: string) => void;
+  onManageProjects: () => void;
+  // Marks the app as read-only for users who may only view items
+  readOnly?: boolean;
   tourSteps: {
     step1: any;
     step3: any;
@@ -35,11 +63,32 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
   currentView,
   onViewChange,
   archivedCount,
+  onOpenWorkflow,
+  onOpenTemplates,
+  onOpenSla,
+  onOpenImport,
+  onOpenWebhooks,
+  onOpenIngestion,
+  onOpenAutomation,
+  onOpenRetention,
+  pinnedViews,
+  activeViewId,
+  onSelectView,
+  projects,
+  activeProjectId,
+  onSelectProject,
+  onManageProjects,
+  readOnly = false,
   tourSteps,
   tourActions,
 }) => {
   const [isShortcutsOpen, setIsShortcutsOpen] = React.useState(false);
 
+  // A pinned view that is loaded takes the highlight from the built-in tab
+  const isTabActive = (view: ViewType) =>
+    currentView === view &&
+    !pinnedViews.some((pinned) => pinned.id === activeViewId);
+
   return (
     <>
       {/* Header */}
@@ -60,6 +109,19 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
             <EuiIcon type="listAdd" size="l" />
             Security TODO Manager
           </h1>
+          <ProjectPicker
+            projects={projects}
+            activeProjectId={activeProjectId}
+            onSelect={onSelectProject}
+            onManage={onManageProjects}
+          />
+          {readOnly && (
+            <EuiToolTip content="Your role only allows viewing the items">
+              <EuiBadge color="hollow" iconType="eye">
+                Read-only
+              </EuiBadge>
+            </EuiToolTip>
+          )}
         </header>
       </EuiTourStep>
 
@@ -79,7 +141,7 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
         <nav className="todo-app__nav">
           <button
             className={`todo-app__nav-tab ${
-              currentView === "board" ? "todo-app__nav-tab--active" : ""
+              isTabActive("board") ? "todo-app__nav-tab--active" : ""
             }`}
             onClick={() => onViewChange("board")}
           >
@@ -91,7 +153,7 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
           </button>
           <button
             className={`todo-app__nav-tab ${
-              currentView === "table" ? "todo-app__nav-tab--active" : ""
+              isTabActive("table") ? "todo-app__nav-tab--active" : ""
             }`}
             onClick={() => onViewChange("table")}
           >
@@ -103,7 +165,7 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
           </button>
           <button
             className={`todo-app__nav-tab ${
-              currentView === "archived" ? "todo-app__nav-tab--active" : ""
+              isTabActive("archived") ? "todo-app__nav-tab--active" : ""
             }`}
             onClick={() => onViewChange("archived")}
           >
@@ -120,7 +182,7 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
           </button>
           <button
             className={`todo-app__nav-tab ${
-              currentView === "stats" ? "todo-app__nav-tab--active" : ""
+              isTabActive("stats") ? "todo-app__nav-tab--active" : ""
             }`}
             onClick={() => onViewChange("stats")}
           >
@@ -130,6 +192,108 @@ export const TodoNavTabs: React.FC<TodoNavTabsProps> = ({
               [4]
             </EuiText>
           </button>
+          <button
+            className={`todo-app__nav-tab ${
+              isTabActive("coverage") ? "todo-app__nav-tab--active" : ""
+            }`}
+            onClick={() => onViewChange("coverage")}
+          >
+            <EuiIcon type="securityApp" />
+            Coverage
+            <EuiText size="xs" color="subdued">
+              [5]
+            </EuiText>
+          </button>
+          <button
+            className={`todo-app__nav-tab ${
+              isTabActive("trash") ? "todo-app__nav-tab--active" : ""
+            }`}
+            onClick={() => onViewChange("trash")}
+          >
+            <EuiIcon type="trash" />
+            Trash
+            <EuiText size="xs" color="subdued">
+              [6]
+            </EuiText>
+          </button>
+          {pinnedViews.map((view) => (
+            <button
+              key={view.id}
+              className={`todo-app__nav-tab ${
+                activeViewId === view.id ? "todo-app__nav-tab--active" : ""
+              }`}
+              onClick={() => onSelectView(view)}
+            >
+              <EuiIcon type="bookmark" />
+              {view.name}
+            </button>
+          ))}
+          {onOpenImport && (
+            <EuiToolTip content="Import">
+              <EuiButtonIcon
+                iconType="importAction"
+                aria-label="Import"
+                onClick={onOpenImport}
+              />
+            </EuiToolTip>
+          )}
+          <EuiToolTip content="Templates">
+            <EuiButtonIcon
+              iconType="documents"
+              aria-label="Templates"
+              onClick={onOpenTemplates}
+            />
+          </EuiToolTip>
+          <EuiToolTip content="SLA policy">
+            <EuiButtonIcon
+              iconType="clock"
+              aria-label="SLA policy"
+              onClick={onOpenSla}
+            />
+          </EuiToolTip>
+          {onOpenWebhooks && (
+            <EuiToolTip content="Webhooks">
+              <EuiButtonIcon
+                iconType="link"
+                aria-label="Webhooks"
+                onClick={onOpenWebhooks}
+              />
+            </EuiToolTip>
+          )}
+          {onOpenIngestion && (
+            <EuiToolTip content="Alert ingestion">
+              <EuiButtonIcon
+                iconType="securitySignal"
+                aria-label="Alert ingestion"
+                onClick={onOpenIngestion}
+              />
+            </EuiToolTip>
+          )}
+          {onOpenAutomation && (
+            <EuiToolTip content="Automation rules">
+              <EuiButtonIcon
+                iconType="bolt"
+                aria-label="Automation rules"
+                onClick={onOpenAutomation}
+              />
+            </EuiToolTip>
+          )}
+          {onOpenRetention && (
+            <EuiToolTip content="Retention policy">
+              <EuiButtonIcon
+                iconType="calendar"
+                aria-label="Retention policy"
+                onClick={onOpenRetention}
+              />
+            </EuiToolTip>
+          )}
+          <EuiToolTip content="Workflow settings">
+            <EuiButtonIcon
+              iconType="gear"
+              aria-label="Workflow settings"
+              onClick={onOpenWorkflow}
+            />
+          </EuiToolTip>
           <EuiPopover
             button={
               <EuiToolTip content="Keyboard shortcuts">
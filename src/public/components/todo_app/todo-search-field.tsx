@@ -0,0 +1,139 @@
+import * as React from "react";
+import { useMemo, useRef, useState } from "react";
+import {
+  EuiFieldSearch,
+  EuiFormErrorText,
+  EuiInputPopover,
+  EuiListGroup,
+  EuiListGroupItem,
+  EuiTextColor,
+} from "@elastic/eui";
+import { SEARCH_INPUT_ID } from "../../hooks";
+import {
+  QuerySuggestion,
+  QuerySuggestionContext,
+  getQuerySuggestions,
+  applyQuerySuggestion,
+} from "../../utils";
+
+interface TodoSearchFieldProps {
+  value: string;
+  onChange: (query: string) => void;
+  suggestionContext: QuerySuggestionContext;
+  error?: string;
+}
+
+// Search box with suggestions of the query syntax, e.g. `priority:high`
+export const TodoSearchField: React.FC<TodoSearchFieldProps> = ({
+  value,
+  onChange,
+  suggestionContext,
+  error,
+}) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const result = useMemo(
+    () => getQuerySuggestions(value, cursor, suggestionContext),
+    [value, cursor, suggestionContext]
+  );
+  const { suggestions } = result;
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const next = applyQuerySuggestion(value, result, suggestion);
+    onChange(next.query);
+    setCursor(next.cursor);
+    setActiveIndex(-1);
+    // Put the caret after the inserted text once the new value is rendered
+    window.requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) {
+      return;
+    }
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (index) => (index + step + suggestions.length) % suggestions.length
+      );
+    } else if (event.key === "Enter" && activeIndex >= 0) {
+      event.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (event.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <EuiInputPopover
+        fullWidth
+        disableFocusTrap
+        isOpen={showSuggestions}
+        closePopover={() => setIsOpen(false)}
+        panelPaddingSize="none"
+        input={
+          <EuiFieldSearch
+            id={SEARCH_INPUT_ID}
+            inputRef={(input: HTMLInputElement | null) => {
+              inputRef.current = input;
+            }}
+            placeholder="Search work, e.g. priority:high due:<now+7d [/]"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setCursor(e.target.selectionStart ?? e.target.value.length);
+              setActiveIndex(-1);
+              setIsOpen(true);
+            }}
+            onFocus={() => {
+              updateCursor();
+              setIsOpen(true);
+            }}
+            onSelect={updateCursor}
+            onKeyDown={handleKeyDown}
+            isInvalid={!!error}
+            aria-label="Search TODO items"
+            isClearable
+            fullWidth
+          />
+        }
+      >
+        <EuiListGroup flush gutterSize="none" maxWidth={false}>
+          {suggestions.map((suggestion, index) => (
+            <EuiListGroupItem
+              key={suggestion.text}
+              size="s"
+              isActive={index === activeIndex}
+              onClick={() => applySuggestion(suggestion)}
+              label={
+                <>
+                  <strong>{suggestion.label}</strong>
+                  {suggestion.description && (
+                    <EuiTextColor color="subdued">
+                      {" "}
+                      {suggestion.description}
+                    </EuiTextColor>
+                  )}
+                </>
+              }
+            />
+          ))}
+        </EuiListGroup>
+      </EuiInputPopover>
+      {error && <EuiFormErrorText>{error}</EuiFormErrorText>}
+    </>
+  );
+};
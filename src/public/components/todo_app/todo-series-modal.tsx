@@ -0,0 +1,141 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiSuperSelect,
+  EuiText,
+  EuiSpacer,
+} from "@elastic/eui";
+import {
+  TodoItem,
+  TodoPriority,
+  RecurrenceRule,
+  SeriesUpdateRequest,
+} from "../../../common/types";
+import { PRIORITY_OPTIONS } from "../../constants";
+import { RecurrenceFields } from "./shared";
+
+interface TodoSeriesModalProps {
+  todo: TodoItem;
+  onSave: (changes: SeriesUpdateRequest) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Edits the open and future occurrences of a recurring series
+export const TodoSeriesModal: React.FC<TodoSeriesModalProps> = ({
+  todo,
+  onSave,
+  onCancel,
+}) => {
+  const [title, setTitle] = useState(todo.title);
+  const [priority, setPriority] = useState<TodoPriority>(todo.priority);
+  const [assignee, setAssignee] = useState(todo.assignee || "");
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(
+    todo.recurrence
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    // Only changed fields are sent, so other per-occurrence edits are kept
+    const changes: SeriesUpdateRequest = {};
+    if (title.trim() !== todo.title) changes.title = title.trim();
+    if (priority !== todo.priority) changes.priority = priority;
+    if (assignee.trim() !== (todo.assignee || "")) {
+      changes.assignee = assignee.trim() || undefined;
+    }
+    if (JSON.stringify(recurrence) !== JSON.stringify(todo.recurrence)) {
+      changes.recurrence = recurrence;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+      onCancel();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the changes open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onCancel} maxWidth={600}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>Edit series</EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiText size="s" color="subdued">
+          <p>
+            Changes apply to every occurrence that is not done yet and to the
+            occurrences created from now on.
+          </p>
+        </EuiText>
+        <EuiSpacer size="m" />
+
+        <EuiForm component="form">
+          <EuiFormRow
+            label="Title"
+            isInvalid={!title.trim()}
+            error="Title is required"
+            fullWidth
+          >
+            <EuiFieldText
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              isInvalid={!title.trim()}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow label="Priority">
+            <EuiSuperSelect
+              options={PRIORITY_OPTIONS}
+              valueOfSelected={priority}
+              onChange={(value) => setPriority(value as TodoPriority)}
+            />
+          </EuiFormRow>
+
+          <EuiFormRow label="Assignee">
+            <EuiFieldText
+              placeholder="Unassigned"
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+            />
+          </EuiFormRow>
+
+          <EuiSpacer size="m" />
+
+          <RecurrenceFields
+            value={recurrence}
+            onChange={setRecurrence}
+            allowNone={false}
+          />
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onCancel} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!title.trim()}
+        >
+          Update series
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
@@ -0,0 +1,88 @@
+import * as React from "react";
+import {
+  EuiTitle,
+  EuiText,
+  EuiBadge,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButtonEmpty,
+  EuiLoadingSpinner,
+  EuiSpacer,
+} from "@elastic/eui";
+import { TodoItem, WorkflowDefinition } from "../../../common/types";
+import { getWorkflowStatus } from "../../../common/workflow";
+import { STATUS_BADGE_COLORS } from "../../constants";
+import { formatFieldValue } from "./shared";
+
+interface TodoSeriesProps {
+  todo: TodoItem;
+  occurrences: TodoItem[];
+  workflow: WorkflowDefinition;
+  isLoading?: boolean;
+  // Not offered to users who cannot edit the series
+  onEdit?: () => void;
+}
+
+// Occurrences of the recurring series a TODO item belongs to
+export const TodoSeries: React.FC<TodoSeriesProps> = ({
+  todo,
+  occurrences,
+  workflow,
+  isLoading = false,
+  onEdit,
+}) => (
+  <div className="todo-series">
+    <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+      <EuiFlexItem grow={false}>
+        <EuiTitle size="xs">
+          <h3>Series</h3>
+        </EuiTitle>
+      </EuiFlexItem>
+      {onEdit && (
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty size="s" iconType="pencil" onClick={onEdit}>
+            Edit series
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+      )}
+    </EuiFlexGroup>
+
+    {todo.recurrence && (
+      <EuiText size="s" color="subdued">
+        <p>{formatFieldValue("recurrence", todo.recurrence)}</p>
+      </EuiText>
+    )}
+    <EuiSpacer size="s" />
+
+    {isLoading ? (
+      <EuiLoadingSpinner size="m" />
+    ) : (
+      occurrences.map((occurrence) => {
+        const status = getWorkflowStatus(workflow, occurrence.status);
+        return (
+          <div
+            key={occurrence.id}
+            className={`todo-series__item${
+              occurrence.id === todo.id ? " todo-series__item--current" : ""
+            }`}
+          >
+            <EuiText size="s" className="todo-series__index">
+              #{(occurrence.occurrenceIndex || 0) + 1}
+            </EuiText>
+            <EuiText size="s" className="todo-series__date">
+              {formatFieldValue("occurrenceStart", occurrence.occurrenceStart)}
+            </EuiText>
+            <EuiBadge
+              color={status ? STATUS_BADGE_COLORS[status.color] : "default"}
+            >
+              {status?.label || occurrence.status}
+            </EuiBadge>
+            {occurrence.archived && (
+              <EuiBadge color="hollow">Archived</EuiBadge>
+            )}
+          </div>
+        );
+      })
+    )}
+  </div>
+);
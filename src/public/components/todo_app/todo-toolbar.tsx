@@ -1,6 +1,5 @@
 import * as React from "react";
 import {
-  EuiFieldSearch,
   EuiButton,
   EuiFilterGroup,
   EuiFilterButton,
@@ -13,32 +12,49 @@ import {
   EuiBadge,
   EuiTourStep,
 } from "@elastic/eui";
-import { SEARCH_INPUT_ID } from "../../hooks";
 import {
-  STATUS_LABELS,
   PRIORITY_OPTIONS,
+  SLA_STATE_OPTIONS,
   COMPLIANCE_LABELS,
 } from "./shared/constants";
-import { TodoStatus, ComplianceStandard } from "../../../common/types";
+import {
+  ComplianceStandard,
+  WorkflowDefinition,
+} from "../../../common/types";
+import { SavedViewsPicker } from "./saved-views-picker";
+import { TodoSearchField } from "./todo-search-field";
+import { QuerySuggestionContext } from "../../utils";
 
 interface TodoToolbarProps {
   // Search
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  // Why the search query cannot be read
+  searchError?: string;
+  querySuggestions: QuerySuggestionContext;
   // Status filters (for Kanban)
   showStatusFilters: boolean;
-  statusFilters: TodoStatus[];
-  onToggleStatusFilter: (status: TodoStatus) => void;
-  statusCounts: Record<TodoStatus, number>;
+  workflow: WorkflowDefinition;
+  statusFilters: string[];
+  onToggleStatusFilter: (status: string) => void;
+  // Matching items per status, counted by the server without the status
+  // filter; the same goes for the compliance counts
+  statusCounts: Record<string, number>;
   // Compliance filters (for Kanban)
   complianceFilters: ComplianceStandard[];
   onToggleComplianceFilter: (standard: ComplianceStandard) => void;
-  complianceCounts: Record<ComplianceStandard, number>;
+  complianceCounts: Record<string, number>;
   // Priority filter
   priorityFilter: string;
   onPriorityChange: (value: string) => void;
+  // SLA state filter
+  slaFilter: string;
+  onSlaChange: (value: string) => void;
+  // Saved views
+  savedViews: React.ComponentProps<typeof SavedViewsPicker>;
   // Actions
-  onCreateClick: () => void;
+  // The create button is disabled without it
+  onCreateClick?: () => void;
   // Tour steps
   tourSteps: {
     step2: any;
@@ -52,7 +68,10 @@ interface TodoToolbarProps {
 export const TodoToolbar: React.FC<TodoToolbarProps> = ({
   searchQuery,
   onSearchChange,
+  searchError,
+  querySuggestions,
   showStatusFilters,
+  workflow,
   statusFilters,
   onToggleStatusFilter,
   statusCounts,
@@ -61,6 +80,9 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
   complianceCounts,
   priorityFilter,
   onPriorityChange,
+  slaFilter,
+  onSlaChange,
+  savedViews,
   onCreateClick,
   tourSteps,
   tourActions,
@@ -83,13 +105,11 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
         }
       >
         <div className="todo-toolbar__search">
-          <EuiFieldSearch
-            id={SEARCH_INPUT_ID}
-            placeholder="Search work... [/]"
+          <TodoSearchField
             value={searchQuery}
-            onChange={(e) => onSearchChange(e.target.value)}
-            isClearable
-            fullWidth
+            onChange={onSearchChange}
+            suggestionContext={querySuggestions}
+            error={searchError}
           />
         </div>
       </EuiTourStep>
@@ -98,14 +118,14 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
       {showStatusFilters && (
         <div className="todo-toolbar__filters">
           <EuiFilterGroup>
-            {Object.entries(STATUS_LABELS).map(([status, label]) => (
+            {workflow.statuses.map((status) => (
               <EuiFilterButton
-                key={status}
-                hasActiveFilters={statusFilters.includes(status as TodoStatus)}
-                onClick={() => onToggleStatusFilter(status as TodoStatus)}
-                numFilters={statusCounts[status as TodoStatus] || 0}
+                key={status.id}
+                hasActiveFilters={statusFilters.includes(status.id)}
+                onClick={() => onToggleStatusFilter(status.id)}
+                numFilters={statusCounts[status.id] || 0}
               >
-                {label}
+                {status.label}
               </EuiFilterButton>
             ))}
           </EuiFilterGroup>
@@ -160,8 +180,7 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
                       <EuiFlexItem>{label}</EuiFlexItem>
                       <EuiFlexItem grow={false}>
                         <EuiBadge color="hollow">
-                          {complianceCounts[standard as ComplianceStandard] ||
-                            0}
+                          {complianceCounts[standard] || 0}
                         </EuiBadge>
                       </EuiFlexItem>
                     </EuiFlexGroup>
@@ -174,11 +193,17 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
       )}
 
       <div className="todo-toolbar__actions">
+        <SavedViewsPicker {...savedViews} />
         <EuiSuperSelect
           options={PRIORITY_OPTIONS}
           valueOfSelected={priorityFilter}
           onChange={(value) => onPriorityChange(value)}
         />
+        <EuiSuperSelect
+          options={SLA_STATE_OPTIONS}
+          valueOfSelected={slaFilter}
+          onChange={(value) => onSlaChange(value)}
+        />
         <EuiTourStep
           {...tourSteps.step2}
           footerAction={
@@ -191,7 +216,12 @@ export const TodoToolbar: React.FC<TodoToolbarProps> = ({
             </EuiButton>
           }
         >
-          <EuiButton fill iconType="plus" onClick={onCreateClick}>
+          <EuiButton
+            fill
+            iconType="plus"
+            onClick={onCreateClick}
+            isDisabled={!onCreateClick}
+          >
             Create
           </EuiButton>
         </EuiTourStep>
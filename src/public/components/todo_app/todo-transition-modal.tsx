@@ -0,0 +1,123 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiTextArea,
+  EuiText,
+  EuiSpacer,
+} from "@elastic/eui";
+import {
+  TodoItem,
+  WorkflowRequiredField,
+  WorkflowStatus,
+} from "../../../common/types";
+import { WORKFLOW_REQUIRED_FIELD_LABELS } from "../../../common/workflow";
+
+export type RequiredFieldValues = Partial<
+  Record<WorkflowRequiredField, string>
+>;
+
+interface TodoTransitionModalProps {
+  todo: TodoItem;
+  status: WorkflowStatus;
+  missingFields: WorkflowRequiredField[];
+  onConfirm: (values: RequiredFieldValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Asks for the fields a status requires before an item is moved into it
+export const TodoTransitionModal: React.FC<TodoTransitionModalProps> = ({
+  todo,
+  status,
+  missingFields,
+  onConfirm,
+  onCancel,
+}) => {
+  const [values, setValues] = useState<RequiredFieldValues>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isComplete = missingFields.every((field) => values[field]?.trim());
+
+  const setValue = (field: WorkflowRequiredField, value: string) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+
+  const handleConfirm = async () => {
+    const trimmed = missingFields.reduce<RequiredFieldValues>(
+      (acc, field) => ({ ...acc, [field]: values[field]?.trim() }),
+      {}
+    );
+
+    setIsSaving(true);
+    try {
+      await onConfirm(trimmed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onCancel} maxWidth={520}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>Move to "{status.label}"</EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiText size="s">
+          <p>
+            "{todo.title}" needs a few more details before it can be moved to
+            this status.
+          </p>
+        </EuiText>
+        <EuiSpacer size="m" />
+
+        <EuiForm component="form">
+          {missingFields.map((field) => (
+            <EuiFormRow
+              key={field}
+              label={WORKFLOW_REQUIRED_FIELD_LABELS[field]}
+              fullWidth
+            >
+              {field === "assignee" ? (
+                <EuiFieldText
+                  value={values[field] || ""}
+                  onChange={(e) => setValue(field, e.target.value)}
+                  fullWidth
+                />
+              ) : (
+                <EuiTextArea
+                  value={values[field] || ""}
+                  onChange={(e) => setValue(field, e.target.value)}
+                  rows={3}
+                  fullWidth
+                />
+              )}
+            </EuiFormRow>
+          ))}
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onCancel} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleConfirm}
+          isDisabled={!isComplete}
+          isLoading={isSaving}
+        >
+          Move
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
@@ -0,0 +1,254 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiBasicTable,
+  EuiBasicTableColumn,
+  EuiBadge,
+  EuiButtonEmpty,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiEmptyPrompt,
+  EuiConfirmModal,
+  EuiIcon,
+  EuiLoadingSpinner,
+  EuiText,
+  Criteria,
+  Pagination,
+} from "@elastic/eui";
+import { TodoItem, WorkflowDefinition } from "../../../common/types";
+import { getWorkflowStatus } from "../../../common/workflow";
+import { STATUS_BADGE_COLORS } from "../../constants";
+import { formatDate, formatId } from "../../utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashViewProps {
+  todos: TodoItem[];
+  workflow: WorkflowDefinition;
+  totalItems: number;
+  pageIndex: number;
+  pageSize: number;
+  // Days an item stays in the trash before the retention job purges it
+  purgeAfterDays?: number;
+  isLoading?: boolean;
+  onPaginationChange: (page: number, size: number) => void;
+  // Actions left out are hidden
+  onRestoreTodo?: (id: string) => void;
+  onPurgeTodo?: (id: string) => void;
+  isPending?: (id: string) => boolean;
+}
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+// When the retention job will purge an item, the day it is due
+const getPurgeDate = (deletedAt: string | null | undefined, days: number) =>
+  deletedAt
+    ? new Date(new Date(deletedAt).getTime() + days * DAY_MS).toISOString()
+    : undefined;
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  todos,
+  workflow,
+  totalItems,
+  pageIndex,
+  pageSize,
+  purgeAfterDays,
+  isLoading = false,
+  onPaginationChange,
+  onRestoreTodo,
+  onPurgeTodo,
+  isPending = () => false,
+}) => {
+  const [itemToPurge, setItemToPurge] = useState<TodoItem | null>(null);
+
+  const handleTableChange = (criteria: Criteria<TodoItem>) => {
+    if (criteria.page) {
+      onPaginationChange(criteria.page.index, criteria.page.size);
+    }
+  };
+
+  const columns: EuiBasicTableColumn<TodoItem>[] = [
+    {
+      field: "id",
+      name: "Work",
+      width: "350px",
+      render: (id: string, todo: TodoItem) => (
+        <div
+          className={`todo-table__work-cell ${
+            isPending(id) ? "todo-table__work-cell--pending" : ""
+          }`}
+        >
+          {isPending(id) ? (
+            <EuiLoadingSpinner size="s" />
+          ) : (
+            <EuiIcon type="trash" color="subdued" />
+          )}
+          <span>
+            <span className="todo-table__work-id">{formatId(id)}</span>
+            <span className="todo-table__work-title" title={todo.title}>
+              {todo.title}
+            </span>
+          </span>
+        </div>
+      ),
+    },
+    {
+      field: "status",
+      name: "Status",
+      width: "150px",
+      render: (status: string) => {
+        const config = getWorkflowStatus(workflow, status);
+        const color = config ? STATUS_BADGE_COLORS[config.color] : "hollow";
+        return <EuiBadge color={color}>{config?.label || status}</EuiBadge>;
+      },
+    },
+    {
+      field: "deletedAt",
+      name: "Deleted",
+      width: "180px",
+      render: (date?: string) => (
+        <EuiText size="s" color="subdued">
+          {formatDate(date)}
+        </EuiText>
+      ),
+    },
+    {
+      field: "deletedBy",
+      name: "Deleted by",
+      width: "150px",
+      render: (user?: string) => user || "-",
+    },
+    ...(purgeAfterDays
+      ? [
+          {
+            field: "deletedAt",
+            name: "Purged on",
+            width: "180px",
+            render: (date?: string) => (
+              <EuiText size="s" color="subdued">
+                {formatDate(getPurgeDate(date, purgeAfterDays))}
+              </EuiText>
+            ),
+          },
+        ]
+      : []),
+    {
+      name: "Actions",
+      width: "260px",
+      render: (todo: TodoItem) => {
+        const pending = isPending(todo.id);
+        return (
+          <EuiFlexGroup gutterSize="s" responsive={false}>
+            {onRestoreTodo && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty
+                  size="s"
+                  iconType={pending ? "empty" : "refresh"}
+                  onClick={() => onRestoreTodo(todo.id)}
+                  isLoading={pending}
+                  isDisabled={pending}
+                >
+                  Restore
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
+            {onPurgeTodo && (
+              <EuiFlexItem grow={false}>
+                <EuiButtonEmpty
+                  size="s"
+                  iconType="trash"
+                  color="danger"
+                  onClick={() => setItemToPurge(todo)}
+                  isDisabled={pending}
+                >
+                  Delete permanently
+                </EuiButtonEmpty>
+              </EuiFlexItem>
+            )}
+          </EuiFlexGroup>
+        );
+      },
+    },
+  ];
+
+  const pagination: Pagination = {
+    pageIndex,
+    pageSize,
+    totalItemCount: totalItems,
+    pageSizeOptions: PAGE_SIZE_OPTIONS,
+  };
+
+  if (totalItems === 0 && !isLoading) {
+    return (
+      <div className="trash-view__empty">
+        <EuiEmptyPrompt
+          iconType="trash"
+          iconColor="subdued"
+          title={<h2>The trash is empty</h2>}
+          body={
+            <p>
+              Deleted work items are kept here, with their comments and
+              history, until they are restored or purged.
+            </p>
+          }
+          titleSize="m"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="todo-table trash-view__container">
+        <EuiFlexGroup
+          alignItems="center"
+          justifyContent="spaceBetween"
+          responsive={false}
+          className="todo-table__header"
+        >
+          <EuiFlexItem grow={false}>
+            <h3>Trash</h3>
+          </EuiFlexItem>
+          {purgeAfterDays && (
+            <EuiFlexItem grow={false}>
+              <EuiText size="s" color="subdued">
+                Items are purged {purgeAfterDays} day
+                {purgeAfterDays === 1 ? "" : "s"} after they were deleted
+              </EuiText>
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+
+        <EuiBasicTable
+          items={todos}
+          columns={columns}
+          tableLayout="fixed"
+          loading={isLoading}
+          responsive={false}
+          hasActions={true}
+          pagination={pagination}
+          onChange={handleTableChange}
+        />
+      </div>
+
+      {itemToPurge && (
+        <EuiConfirmModal
+          title="Delete permanently?"
+          onCancel={() => setItemToPurge(null)}
+          onConfirm={() => {
+            onPurgeTodo?.(itemToPurge.id);
+            setItemToPurge(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete permanently"
+          buttonColor="danger"
+        >
+          <p>
+            &quot;{itemToPurge.title}&quot; and its comments will be deleted
+            for good. This cannot be undone.
+          </p>
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
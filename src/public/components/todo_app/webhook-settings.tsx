@@ -0,0 +1,538 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiTitle,
+  EuiText,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiBadge,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiToolTip,
+  EuiSpacer,
+  EuiLoadingSpinner,
+  EuiConfirmModal,
+  EuiModal,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiForm,
+  EuiFormRow,
+  EuiFieldText,
+  EuiFieldPassword,
+  EuiComboBox,
+  EuiSwitch,
+  EuiSelect,
+  EuiTabs,
+  EuiTab,
+  EuiHealth,
+  EuiBasicTable,
+} from "@elastic/eui";
+import {
+  TodoWebhook,
+  SaveWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../../../common/types";
+import { formatDate } from "../../utils";
+
+// Same rule as the server
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  [WebhookEvent.CREATED]: "Created",
+  [WebhookEvent.UPDATED]: "Updated",
+  [WebhookEvent.STATUS_CHANGED]: "Status changed",
+  [WebhookEvent.ASSIGNED]: "Assigned",
+  [WebhookEvent.ARCHIVED]: "Archived",
+  [WebhookEvent.DELETED]: "Deleted",
+  [WebhookEvent.BULK_CREATED]: "Bulk created",
+  [WebhookEvent.BULK_UPDATED]: "Bulk updated",
+  [WebhookEvent.BULK_ARCHIVED]: "Bulk archived",
+  [WebhookEvent.BULK_DELETED]: "Bulk deleted",
+  [WebhookEvent.PING]: "Test",
+};
+
+// Test pings are sent on request only, so they cannot be subscribed to
+const EVENT_OPTIONS = Object.values(WebhookEvent)
+  .filter((event) => event !== WebhookEvent.PING)
+  .map((event) => ({ label: EVENT_LABELS[event], value: event }));
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.PENDING]: "warning",
+  [WebhookDeliveryStatus.SUCCEEDED]: "success",
+  [WebhookDeliveryStatus.FAILED]: "danger",
+};
+
+type SettingsTab = "webhooks" | "deliveries";
+
+interface WebhookSettingsProps {
+  webhooks: TodoWebhook[];
+  deliveries: WebhookDelivery[];
+  isLoading?: boolean;
+  isLoadingDeliveries?: boolean;
+  onSave: (id: string | undefined, data: SaveWebhookRequest) => Promise<void>;
+  onDelete: (webhook: TodoWebhook) => Promise<void>;
+  onTest: (webhook: TodoWebhook) => Promise<void>;
+  onRefreshDeliveries: () => void;
+  onClose: () => void;
+}
+
+interface WebhookEditorProps {
+  // Webhook to edit; a new webhook is created without one
+  webhook?: TodoWebhook;
+  onSave: WebhookSettingsProps["onSave"];
+  onClose: () => void;
+}
+
+// Name, endpoint, events and signing secret of a webhook
+const WebhookEditor: React.FC<WebhookEditorProps> = ({
+  webhook,
+  onSave,
+  onClose,
+}) => {
+  const [name, setName] = useState(webhook?.name || "");
+  const [url, setUrl] = useState(webhook?.url || "");
+  const [events, setEvents] = useState<WebhookEvent[]>(
+    webhook?.events || [WebhookEvent.CREATED, WebhookEvent.STATUS_CHANGED]
+  );
+  const [enabled, setEnabled] = useState(webhook?.enabled ?? true);
+  const [secret, setSecret] = useState("");
+  const [removeSecret, setRemoveSecret] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isUrlValid = URL_PATTERN.test(url.trim());
+  const isValid = !!name.trim() && isUrlValid && events.length > 0;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(webhook?.id, {
+        name: name.trim(),
+        url: url.trim(),
+        events,
+        enabled,
+        // Left out to keep the stored secret
+        secret: removeSecret ? "" : secret || undefined,
+      });
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={onClose} maxWidth={640}>
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          {webhook ? "Edit webhook" : "New webhook"}
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+
+      <EuiModalBody>
+        <EuiForm component="form">
+          <EuiFormRow label="Name" fullWidth>
+            <EuiFieldText
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow
+            label="Payload URL"
+            isInvalid={!!url && !isUrlValid}
+            error="An http or https URL"
+            fullWidth
+          >
+            <EuiFieldText
+              value={url}
+              placeholder="https://soar.example.com/hooks/todo"
+              onChange={(e) => setUrl(e.target.value)}
+              isInvalid={!!url && !isUrlValid}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow label="Events" fullWidth>
+            <EuiComboBox
+              options={EVENT_OPTIONS}
+              selectedOptions={EVENT_OPTIONS.filter((option) =>
+                events.includes(option.value)
+              )}
+              onChange={(selected) =>
+                setEvents(selected.map((option) => option.value!))
+              }
+              isInvalid={events.length === 0}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow
+            label="Secret"
+            helpText={
+              removeSecret
+                ? "Deliveries will no longer be signed"
+                : webhook?.hasSecret
+                ? "Leave empty to keep the current secret"
+                : "Signs each delivery in the X-Todo-Signature header"
+            }
+            labelAppend={
+              webhook?.hasSecret && (
+                <EuiButtonEmpty
+                  size="xs"
+                  onClick={() => {
+                    setRemoveSecret(!removeSecret);
+                    setSecret("");
+                  }}
+                >
+                  {removeSecret ? "Keep secret" : "Remove secret"}
+                </EuiButtonEmpty>
+              )
+            }
+            fullWidth
+          >
+            <EuiFieldPassword
+              type="dual"
+              value={secret}
+              maxLength={200}
+              placeholder={webhook?.hasSecret ? "Unchanged" : undefined}
+              disabled={removeSecret}
+              onChange={(e) => setSecret(e.target.value)}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiSpacer size="m" />
+          <EuiSwitch
+            label="Send deliveries"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+        </EuiForm>
+      </EuiModalBody>
+
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+          Cancel
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          onClick={handleSave}
+          isLoading={isSaving}
+          isDisabled={!isValid}
+        >
+          Save webhook
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
+
+// Webhooks and the log of their latest deliveries
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({
+  webhooks,
+  deliveries,
+  isLoading = false,
+  isLoadingDeliveries = false,
+  onSave,
+  onDelete,
+  onTest,
+  onRefreshDeliveries,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<SettingsTab>("webhooks");
+  const [editing, setEditing] = useState<TodoWebhook | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [toDelete, setToDelete] = useState<TodoWebhook | null>(null);
+  const [testingId, setTestingId] = useState<string>();
+  // Webhook the log is narrowed to, empty for all of them
+  const [logWebhookId, setLogWebhookId] = useState("");
+
+  const webhookNames = new Map(
+    webhooks.map((webhook) => [webhook.id, webhook.name])
+  );
+  const shownDeliveries = logWebhookId
+    ? deliveries.filter((delivery) => delivery.webhookId === logWebhookId)
+    : deliveries;
+
+  const handleTest = async (webhook: TodoWebhook) => {
+    setTestingId(webhook.id);
+    try {
+      await onTest(webhook);
+    } finally {
+      setTestingId(undefined);
+    }
+  };
+
+  const deliveryColumns = [
+    {
+      field: "createdAt",
+      name: "Time",
+      width: "150px",
+      render: (createdAt: string) => formatDate(createdAt),
+    },
+    {
+      field: "webhookId",
+      name: "Webhook",
+      truncateText: true,
+      render: (webhookId: string) =>
+        webhookNames.get(webhookId) || <em>Deleted</em>,
+    },
+    {
+      field: "event",
+      name: "Event",
+      width: "120px",
+      render: (event: WebhookEvent) => EVENT_LABELS[event] || event,
+    },
+    {
+      field: "status",
+      name: "Status",
+      width: "150px",
+      render: (status: WebhookDeliveryStatus, delivery: WebhookDelivery) => (
+        <EuiToolTip
+          content={
+            delivery.nextAttemptAt
+              ? `Next attempt ${formatDate(delivery.nextAttemptAt)}`
+              : undefined
+          }
+        >
+          <EuiHealth color={DELIVERY_STATUS_COLORS[status]}>
+            {`${status} (${delivery.attempts})`}
+          </EuiHealth>
+        </EuiToolTip>
+      ),
+    },
+    {
+      field: "error",
+      name: "Response",
+      truncateText: true,
+      render: (error: string | undefined, delivery: WebhookDelivery) =>
+        error ? (
+          <EuiText size="xs" color="danger">
+            {error}
+          </EuiText>
+        ) : delivery.responseStatus ? (
+          `HTTP ${delivery.responseStatus}`
+        ) : (
+          "-"
+        ),
+    },
+  ];
+
+  return (
+    <>
+      <EuiFlyout
+        ownFocus
+        onClose={onClose}
+        size="m"
+        aria-labelledby="webhooksTitle"
+      >
+        <EuiFlyoutHeader hasBorder>
+          <EuiFlexGroup alignItems="center" justifyContent="spaceBetween">
+            <EuiFlexItem grow={false}>
+              <EuiTitle size="m">
+                <h2 id="webhooksTitle">Webhooks</h2>
+              </EuiTitle>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                size="s"
+                iconType="plusInCircle"
+                onClick={() => setIsCreating(true)}
+              >
+                New webhook
+              </EuiButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+          <EuiSpacer size="s" />
+          <EuiText size="s" color="subdued">
+            <p>
+              Notify SOAR, chat or ticketing tools when items change. Failed
+              deliveries are retried with a growing delay.
+            </p>
+          </EuiText>
+          <EuiSpacer size="s" />
+          <EuiTabs size="s" style={{ marginBottom: "-17px" }}>
+            <EuiTab
+              isSelected={tab === "webhooks"}
+              onClick={() => setTab("webhooks")}
+            >
+              Webhooks
+            </EuiTab>
+            <EuiTab
+              isSelected={tab === "deliveries"}
+              onClick={() => {
+                setTab("deliveries");
+                onRefreshDeliveries();
+              }}
+            >
+              Delivery log
+            </EuiTab>
+          </EuiTabs>
+        </EuiFlyoutHeader>
+
+        <EuiFlyoutBody>
+          {tab === "deliveries" ? (
+            <>
+              <EuiFlexGroup gutterSize="s" alignItems="center">
+                <EuiFlexItem>
+                  <EuiSelect
+                    compressed
+                    aria-label="Webhook"
+                    options={[
+                      { value: "", text: "All webhooks" },
+                      ...webhooks.map((webhook) => ({
+                        value: webhook.id,
+                        text: webhook.name,
+                      })),
+                    ]}
+                    value={logWebhookId}
+                    onChange={(e) => setLogWebhookId(e.target.value)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonEmpty
+                    size="s"
+                    iconType="refresh"
+                    onClick={onRefreshDeliveries}
+                  >
+                    Refresh
+                  </EuiButtonEmpty>
+                </EuiFlexItem>
+              </EuiFlexGroup>
+              <EuiSpacer size="s" />
+              <EuiBasicTable<WebhookDelivery>
+                items={shownDeliveries}
+                columns={deliveryColumns}
+                itemId="id"
+                tableLayout="fixed"
+                loading={isLoadingDeliveries}
+                noItemsMessage="No deliveries yet"
+              />
+            </>
+          ) : isLoading ? (
+            <EuiLoadingSpinner size="l" />
+          ) : webhooks.length === 0 ? (
+            <EuiText size="s" color="subdued">
+              <p>No webhooks yet.</p>
+            </EuiText>
+          ) : (
+            webhooks.map((webhook) => (
+              <React.Fragment key={webhook.id}>
+                <EuiPanel paddingSize="m" hasBorder>
+                  <EuiFlexGroup alignItems="flexStart" gutterSize="s">
+                    <EuiFlexItem>
+                      <EuiTitle size="xs">
+                        <h3>
+                          {webhook.name}{" "}
+                          {!webhook.enabled && (
+                            <EuiBadge color="default">Disabled</EuiBadge>
+                          )}
+                          {webhook.hasSecret && (
+                            <EuiBadge color="hollow" iconType="lock">
+                              Signed
+                            </EuiBadge>
+                          )}
+                        </h3>
+                      </EuiTitle>
+                      <EuiText size="xs" color="subdued">
+                        <p>{webhook.url}</p>
+                      </EuiText>
+                      <EuiSpacer size="s" />
+                      <EuiText size="xs" color="subdued">
+                        {webhook.events
+                          .map((event) => EVENT_LABELS[event] || event)
+                          .join(", ")}
+                      </EuiText>
+                    </EuiFlexItem>
+                    <EuiFlexItem grow={false}>
+                      <EuiFlexGroup gutterSize="xs" responsive={false}>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Send test event">
+                            <EuiButtonIcon
+                              iconType="play"
+                              aria-label="Send test event"
+                              isDisabled={
+                                !webhook.enabled || testingId === webhook.id
+                              }
+                              onClick={() => handleTest(webhook)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Edit">
+                            <EuiButtonIcon
+                              iconType="pencil"
+                              aria-label="Edit webhook"
+                              onClick={() => setEditing(webhook)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiToolTip content="Delete">
+                            <EuiButtonIcon
+                              iconType="trash"
+                              color="danger"
+                              aria-label="Delete webhook"
+                              onClick={() => setToDelete(webhook)}
+                            />
+                          </EuiToolTip>
+                        </EuiFlexItem>
+                      </EuiFlexGroup>
+                    </EuiFlexItem>
+                  </EuiFlexGroup>
+                </EuiPanel>
+                <EuiSpacer size="s" />
+              </React.Fragment>
+            ))
+          )}
+        </EuiFlyoutBody>
+      </EuiFlyout>
+
+      {(editing || isCreating) && (
+        <WebhookEditor
+          webhook={editing || undefined}
+          onSave={onSave}
+          onClose={() => {
+            setEditing(null);
+            setIsCreating(false);
+          }}
+        />
+      )}
+
+      {toDelete && (
+        <EuiConfirmModal
+          title={`Delete "${toDelete.name}"?`}
+          onCancel={() => setToDelete(null)}
+          onConfirm={async () => {
+            try {
+              await onDelete(toDelete);
+            } catch (error) {
+              // Reported by the caller
+            }
+            setToDelete(null);
+          }}
+          cancelButtonText="Cancel"
+          confirmButtonText="Delete"
+          buttonColor="danger"
+        >
+          <p>
+            No more events are sent to {toDelete.url}. Pending retries
+            fail; past deliveries stay in the log.
+          </p>
+        </EuiConfirmModal>
+      )}
+    </>
+  );
+};
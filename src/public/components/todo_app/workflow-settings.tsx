@@ -0,0 +1,398 @@
+import * as React from "react";
+import { useState } from "react";
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiPanel,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiFieldText,
+  EuiSelect,
+  EuiSuperSelect,
+  EuiComboBox,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiBadge,
+  EuiSpacer,
+  EuiCallOut,
+} from "@elastic/eui";
+import {
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowStatusCategory,
+  WorkflowStatusColor,
+  WorkflowRequiredField,
+} from "../../../common/types";
+import {
+  WORKFLOW_CATEGORY_LABELS,
+  WORKFLOW_REQUIRED_FIELD_LABELS,
+} from "../../../common/workflow";
+import { STATUS_BADGE_COLORS } from "../../constants";
+
+const STATUS_ID_PATTERN = /^[a-z0-9_]+$/;
+
+const COLOR_OPTIONS = (
+  Object.keys(STATUS_BADGE_COLORS) as WorkflowStatusColor[]
+).map((color) => ({
+  value: color,
+  inputDisplay: (
+    <EuiBadge color={STATUS_BADGE_COLORS[color]}>{color}</EuiBadge>
+  ),
+}));
+
+const CATEGORY_OPTIONS = Object.values(WorkflowStatusCategory).map(
+  (category) => ({ value: category, text: WORKFLOW_CATEGORY_LABELS[category] })
+);
+
+const REQUIRED_FIELD_OPTIONS = (
+  Object.keys(WORKFLOW_REQUIRED_FIELD_LABELS) as WorkflowRequiredField[]
+).map((field) => ({
+  label: WORKFLOW_REQUIRED_FIELD_LABELS[field],
+  value: field,
+}));
+
+interface WorkflowSettingsProps {
+  workflow: WorkflowDefinition;
+  onSave: (workflow: WorkflowDefinition) => Promise<void>;
+  onClose: () => void;
+}
+
+// Editor for the statuses, their order and allowed transitions
+export const WorkflowSettings: React.FC<WorkflowSettingsProps> = ({
+  workflow,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<WorkflowDefinition>(workflow);
+  const [savedIds] = useState(() => workflow.statuses.map((s) => s.id));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ids = draft.statuses.map((status) => status.id);
+  const errors = [
+    ...ids
+      .filter((id) => !STATUS_ID_PATTERN.test(id))
+      .map((id) => `Invalid status id "${id}": use a-z, 0-9 and _`),
+    ...ids
+      .filter((id, index) => ids.indexOf(id) !== index)
+      .map((id) => `Duplicate status id "${id}"`),
+    ...draft.statuses
+      .filter((status) => !status.label.trim())
+      .map((status) => `Status "${status.id}" needs a label`),
+  ];
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    setDraft((prev) => {
+      const previousId = prev.statuses[index].id;
+      const statuses = prev.statuses.map((status, i) =>
+        i === index ? { ...status, ...changes } : status
+      );
+      if (changes.id === undefined || changes.id === previousId) {
+        return { ...prev, statuses };
+      }
+
+      // Keep transitions and the initial status pointing at a renamed status
+      const rename = (id: string) => (id === previousId ? changes.id! : id);
+      const transitions: Record<string, string[]> = {};
+      Object.entries(prev.transitions).forEach(([from, targets]) => {
+        transitions[rename(from)] = targets.map(rename);
+      });
+      return {
+        statuses,
+        transitions,
+        initialStatus: rename(prev.initialStatus),
+      };
+    });
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const statuses = [...prev.statuses];
+      const [moved] = statuses.splice(index, 1);
+      statuses.splice(index + offset, 0, moved);
+      return { ...prev, statuses };
+    });
+  };
+
+  const removeStatus = (index: number) => {
+    setDraft((prev) => {
+      const removedId = prev.statuses[index].id;
+      const statuses = prev.statuses.filter((_, i) => i !== index);
+      const transitions: Record<string, string[]> = {};
+      Object.entries(prev.transitions).forEach(([from, targets]) => {
+        if (from !== removedId) {
+          transitions[from] = targets.filter((id) => id !== removedId);
+        }
+      });
+      return {
+        statuses,
+        transitions,
+        initialStatus:
+          prev.initialStatus === removedId
+            ? statuses[0].id
+            : prev.initialStatus,
+      };
+    });
+  };
+
+  const addStatus = () => {
+    setDraft((prev) => {
+      let count = prev.statuses.length + 1;
+      while (prev.statuses.some((status) => status.id === `status_${count}`)) {
+        count++;
+      }
+      const id = `status_${count}`;
+      return {
+        ...prev,
+        statuses: [
+          ...prev.statuses,
+          {
+            id,
+            label: "New status",
+            color: "subdued",
+            icon: "dot",
+            category: WorkflowStatusCategory.ACTIVE,
+          },
+        ],
+        transitions: { ...prev.transitions, [id]: [] },
+      };
+    });
+  };
+
+  const setTransitions = (from: string, targets: string[]) => {
+    setDraft((prev) => ({
+      ...prev,
+      transitions: { ...prev.transitions, [from]: targets },
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The error toast is shown by the caller, keep the draft open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const statusOption = (status: WorkflowStatus) => ({
+    label: status.label || status.id,
+    value: status.id,
+  });
+
+  return (
+    <EuiFlyout ownFocus onClose={onClose} size="m" aria-labelledby="wfTitle">
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size="m">
+          <h2 id="wfTitle">Workflow</h2>
+        </EuiTitle>
+        <EuiSpacer size="s" />
+        <EuiText size="s" color="subdued">
+          <p>
+            Statuses are shown in this order on the board. Each status lists
+            the statuses items may move to next; a status with none is final.
+          </p>
+        </EuiText>
+      </EuiFlyoutHeader>
+
+      <EuiFlyoutBody>
+        <EuiFormRow label="New items start in">
+          <EuiSelect
+            options={draft.statuses.map((status) => ({
+              value: status.id,
+              text: status.label || status.id,
+            }))}
+            value={draft.initialStatus}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, initialStatus: e.target.value }))
+            }
+          />
+        </EuiFormRow>
+
+        <EuiSpacer size="m" />
+
+        {draft.statuses.map((status, index) => (
+          <React.Fragment key={index}>
+            <EuiPanel paddingSize="s" hasBorder>
+              <EuiFlexGroup gutterSize="s" alignItems="flexEnd" wrap>
+                <EuiFlexItem>
+                  <EuiFormRow label="Label">
+                    <EuiFieldText
+                      compressed
+                      value={status.label}
+                      onChange={(e) =>
+                        updateStatus(index, { label: e.target.value })
+                      }
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+                <EuiFlexItem>
+                  <EuiFormRow label="ID">
+                    <EuiFieldText
+                      compressed
+                      value={status.id}
+                      // Items are stored with the id, so only new ones change
+                      disabled={savedIds.includes(status.id)}
+                      onChange={(e) =>
+                        updateStatus(index, { id: e.target.value })
+                      }
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonIcon
+                    iconType="arrowUp"
+                    aria-label="Move up"
+                    isDisabled={index === 0}
+                    onClick={() => moveStatus(index, -1)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonIcon
+                    iconType="arrowDown"
+                    aria-label="Move down"
+                    isDisabled={index === draft.statuses.length - 1}
+                    onClick={() => moveStatus(index, 1)}
+                  />
+                </EuiFlexItem>
+                <EuiFlexItem grow={false}>
+                  <EuiButtonIcon
+                    iconType="trash"
+                    color="danger"
+                    aria-label="Remove status"
+                    isDisabled={draft.statuses.length === 1}
+                    onClick={() => removeStatus(index)}
+                  />
+                </EuiFlexItem>
+              </EuiFlexGroup>
+
+              <EuiFlexGroup gutterSize="s" wrap>
+                <EuiFlexItem>
+                  <EuiFormRow label="Color">
+                    <EuiSuperSelect
+                      compressed
+                      options={COLOR_OPTIONS}
+                      valueOfSelected={status.color}
+                      onChange={(color) => updateStatus(index, { color })}
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+                <EuiFlexItem>
+                  <EuiFormRow label="Category">
+                    <EuiSelect
+                      compressed
+                      options={CATEGORY_OPTIONS}
+                      value={status.category}
+                      onChange={(e) =>
+                        updateStatus(index, {
+                          category: e.target.value as WorkflowStatusCategory,
+                        })
+                      }
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+                <EuiFlexItem>
+                  <EuiFormRow label="Icon">
+                    <EuiFieldText
+                      compressed
+                      value={status.icon}
+                      onChange={(e) =>
+                        updateStatus(index, { icon: e.target.value })
+                      }
+                    />
+                  </EuiFormRow>
+                </EuiFlexItem>
+              </EuiFlexGroup>
+
+              <EuiFormRow label="Required fields" fullWidth>
+                <EuiComboBox
+                  compressed
+                  fullWidth
+                  options={REQUIRED_FIELD_OPTIONS}
+                  selectedOptions={REQUIRED_FIELD_OPTIONS.filter((option) =>
+                    (status.requiredFields || []).includes(option.value)
+                  )}
+                  onChange={(selected) =>
+                    updateStatus(index, {
+                      requiredFields: selected.map(
+                        (option) => option.value as WorkflowRequiredField
+                      ),
+                    })
+                  }
+                />
+              </EuiFormRow>
+
+              <EuiFormRow label="Can move to" fullWidth>
+                <EuiComboBox
+                  compressed
+                  fullWidth
+                  placeholder="Final status"
+                  options={draft.statuses
+                    .filter((target) => target.id !== status.id)
+                    .map(statusOption)}
+                  selectedOptions={draft.statuses
+                    .filter((target) =>
+                      (draft.transitions[status.id] || []).includes(target.id)
+                    )
+                    .map(statusOption)}
+                  onChange={(selected) =>
+                    setTransitions(
+                      status.id,
+                      selected.map((option) => option.value as string)
+                    )
+                  }
+                />
+              </EuiFormRow>
+            </EuiPanel>
+            <EuiSpacer size="s" />
+          </React.Fragment>
+        ))}
+
+        <EuiButtonEmpty iconType="plusInCircle" onClick={addStatus}>
+          Add status
+        </EuiButtonEmpty>
+
+        {errors.length > 0 && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut title="Fix these before saving" color="danger">
+              <ul>
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </EuiCallOut>
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton
+              fill
+              onClick={handleSave}
+              isLoading={isSaving}
+              isDisabled={errors.length > 0}
+            >
+              Save workflow
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </EuiFlyout>
+  );
+};
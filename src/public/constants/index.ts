@@ -1,5 +1,6 @@
 export {
-  STATUS_OPTIONS,
+  STATUS_BADGE_COLORS,
+  getStatusOptions,
   PRIORITY_OPTIONS,
   PRIORITY_CONFIG,
   COMPLIANCE_OPTIONS,
@@ -1,37 +1,34 @@
 import * as React from "react";
 import { EuiBadge } from "@elastic/eui";
 import {
-  TodoStatus,
   TodoPriority,
   ComplianceStandard,
+  WorkflowStatus,
+  WorkflowStatusColor,
 } from "../../common/types";
 
-export const STATUS_OPTIONS = [
-  {
-    value: TodoStatus.PLANNED,
-    inputDisplay: React.createElement(EuiBadge, { color: "default" }, "To Do"),
-  },
-  {
-    value: TodoStatus.IN_PROGRESS,
+// EuiBadge color of each workflow status color
+export const STATUS_BADGE_COLORS: Record<WorkflowStatusColor, string> = {
+  subdued: "default",
+  primary: "primary",
+  accent: "accent",
+  success: "success",
+  warning: "warning",
+  danger: "danger",
+};
+
+/**
+ * Select options for the given workflow statuses, shown as badges
+ */
+export const getStatusOptions = (statuses: WorkflowStatus[]) =>
+  statuses.map((status) => ({
+    value: status.id,
     inputDisplay: React.createElement(
       EuiBadge,
-      { color: "primary" },
-      "In Progress"
+      { color: STATUS_BADGE_COLORS[status.color] },
+      status.label
     ),
-  },
-  {
-    value: TodoStatus.BLOCKED,
-    inputDisplay: React.createElement(EuiBadge, { color: "danger" }, "Blocked"),
-  },
-  {
-    value: TodoStatus.COMPLETED_SUCCESS,
-    inputDisplay: React.createElement(EuiBadge, { color: "success" }, "Done"),
-  },
-  {
-    value: TodoStatus.COMPLETED_ERROR,
-    inputDisplay: React.createElement(EuiBadge, { color: "warning" }, "Error"),
-  },
-];
+  }));
 
 export const PRIORITY_OPTIONS = [
   {
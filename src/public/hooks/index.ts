@@ -6,4 +6,4 @@ export { useTour } from './use-tour';
 export { useIsMobile, useIsTablet, useIsDesktop, BREAKPOINTS } from './use-mobile';
 export { useUrlFilters, getFiltersFromUrl, updateUrlFilters } from './use-url-filters';
 export { useInfiniteScroll } from './use-infinite-scroll';
-export { useTodoHandlers, useKanbanData } from './use-todo-app-logic';
+export { useTodoHandlers, useKanbanData, useParsedSearch } from './use-todo-app-logic';
@@ -57,6 +57,16 @@ export const useKeyboardShortcuts = () => {
       action: () => setView("stats"),
       description: "Switch to Stats view",
     },
+    {
+      key: "5",
+      action: () => setView("coverage"),
+      description: "Switch to Coverage view",
+    },
+    {
+      key: "6",
+      action: () => setView("trash"),
+      description: "Switch to Trash view",
+    },
 
     // Actions
     {
@@ -184,6 +194,7 @@ export const KEYBOARD_SHORTCUTS_HELP = [
       { keys: "2", description: "Table view" },
       { keys: "3", description: "Archived view" },
       { keys: "4", description: "Stats view" },
+      { keys: "5", description: "Coverage view" },
     ],
   },
   {
@@ -1,40 +1,211 @@
-import { useMemo, useCallback } from "react";
+import { useMemo, useCallback, useRef } from "react";
 import { CoreStart } from "../../../../../src/core/public";
-import { TodoItem, TodoStatus, ComplianceStandard } from "../../common/types";
+import {
+  TodoItem,
+  ComplianceStandard,
+  UpdateTodoRequest,
+  WorkflowDefinition,
+  SlaPolicy,
+  SeriesUpdateRequest,
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+  TodoTemplate,
+  SavedView,
+  SaveViewRequest,
+  TodoImportRequest,
+  TodoImportRowResult,
+  TodoImportResult,
+  TodoProject,
+  SaveProjectRequest,
+  TodoUser,
+  TodoWebhook,
+  SaveWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  IngestionPolicy,
+  IngestionRunResult,
+  AutomationRule,
+  SaveAutomationRuleRequest,
+  RetentionPolicy,
+  RetentionPreview,
+} from "../../common/types";
+import { getSlaState } from "../../common/sla";
+import {
+  ParsedTodoQuery,
+  TodoQueryError,
+  matchesTodoQuery,
+  parseTodoQuery,
+} from "../../common/query";
+import { TodoConflictError } from "../services";
+import { TodoConflict } from "../stores/todo-store";
+import { getErrorMessage } from "../utils";
 
 interface UseTodoAppLogicParams {
   notifications: CoreStart["notifications"];
   // Mutations
   createMutation: { mutateAsync: (data: any) => Promise<any> };
+  updateMutation: {
+    mutateAsync: (params: {
+      id: string;
+      data: UpdateTodoRequest;
+    }) => Promise<any>;
+  };
   deleteMutation: { mutateAsync: (id: string) => Promise<any> };
   archiveMutation: { mutateAsync: (id: string) => Promise<any> };
   restoreMutation: { mutateAsync: (id: string) => Promise<any> };
+  restoreDeletedMutation: { mutateAsync: (id: string) => Promise<any> };
+  purgeTodoMutation: { mutateAsync: (id: string) => Promise<any> };
   updateStatusMutation: {
-    mutateAsync: (params: { id: string; status: TodoStatus }) => Promise<any>;
+    mutateAsync: (params: { id: string; status: string }) => Promise<any>;
   };
   reorderMutation: {
     mutateAsync: (params: {
       id: string;
-      status: TodoStatus;
+      status: string;
       position: number;
     }) => Promise<any>;
   };
   bulkArchiveMutation: { mutateAsync: (ids: string[]) => Promise<any> };
   bulkRestoreMutation: { mutateAsync: (ids: string[]) => Promise<any> };
   bulkDeleteMutation: { mutateAsync: (ids: string[]) => Promise<any> };
+  bulkAssignMutation: {
+    mutateAsync: (params: { ids: string[]; user?: TodoUser }) => Promise<any>;
+  };
+  createCommentMutation: {
+    mutateAsync: (params: {
+      todoId: string;
+      data: { body: string; parentId?: string };
+    }) => Promise<any>;
+  };
+  updateCommentMutation: {
+    mutateAsync: (params: {
+      todoId: string;
+      commentId: string;
+      body: string;
+    }) => Promise<any>;
+  };
+  deleteCommentMutation: {
+    mutateAsync: (params: { todoId: string; commentId: string }) => Promise<any>;
+  };
+  updateWorkflowMutation: {
+    mutateAsync: (workflow: WorkflowDefinition) => Promise<any>;
+  };
+  updateSlaPolicyMutation: {
+    mutateAsync: (policy: SlaPolicy) => Promise<any>;
+  };
+  updateSeriesMutation: {
+    mutateAsync: (params: {
+      seriesId: string;
+      changes: SeriesUpdateRequest;
+    }) => Promise<any>;
+  };
+  saveTemplateMutation: {
+    mutateAsync: (params: {
+      id?: string;
+      data: SaveTemplateRequest;
+    }) => Promise<any>;
+  };
+  deleteTemplateMutation: { mutateAsync: (id: string) => Promise<any> };
+  instantiateTemplateMutation: {
+    mutateAsync: (params: {
+      id: string;
+      options: InstantiateTemplateRequest;
+    }) => Promise<any>;
+  };
+  previewImportMutation: {
+    mutateAsync: (request: TodoImportRequest) => Promise<any>;
+  };
+  importTodosMutation: {
+    mutateAsync: (request: TodoImportRequest) => Promise<any>;
+  };
+  saveViewMutation: {
+    mutateAsync: (params: {
+      id?: string;
+      data: SaveViewRequest;
+    }) => Promise<any>;
+  };
+  deleteViewMutation: { mutateAsync: (id: string) => Promise<any> };
+  pinViewMutation: {
+    mutateAsync: (params: { id: string; pinned: boolean }) => Promise<any>;
+  };
+  saveProjectMutation: {
+    mutateAsync: (params: {
+      id?: string;
+      data: SaveProjectRequest;
+    }) => Promise<any>;
+  };
+  deleteProjectMutation: { mutateAsync: (id: string) => Promise<any> };
+  moveTodoMutation: {
+    mutateAsync: (params: { id: string; projectId: string }) => Promise<any>;
+  };
+  saveWebhookMutation: {
+    mutateAsync: (params: {
+      id?: string;
+      data: SaveWebhookRequest;
+    }) => Promise<any>;
+  };
+  deleteWebhookMutation: { mutateAsync: (id: string) => Promise<any> };
+  testWebhookMutation: { mutateAsync: (id: string) => Promise<any> };
+  updateIngestionPolicyMutation: {
+    mutateAsync: (policy: IngestionPolicy) => Promise<any>;
+  };
+  runIngestionMutation: { mutateAsync: () => Promise<any> };
+  saveAutomationRuleMutation: {
+    mutateAsync: (params: {
+      id?: string;
+      data: SaveAutomationRuleRequest;
+    }) => Promise<any>;
+  };
+  deleteAutomationRuleMutation: { mutateAsync: (id: string) => Promise<any> };
+  updateRetentionPolicyMutation: {
+    mutateAsync: (policy: RetentionPolicy) => Promise<any>;
+  };
+  previewRetentionMutation: {
+    mutateAsync: (policy: RetentionPolicy) => Promise<any>;
+  };
 }
 
 export const useTodoHandlers = ({
   notifications,
   createMutation,
+  updateMutation,
   deleteMutation,
   archiveMutation,
   restoreMutation,
+  restoreDeletedMutation,
+  purgeTodoMutation,
   updateStatusMutation,
   reorderMutation,
   bulkArchiveMutation,
   bulkRestoreMutation,
   bulkDeleteMutation,
+  bulkAssignMutation,
+  createCommentMutation,
+  updateCommentMutation,
+  deleteCommentMutation,
+  updateWorkflowMutation,
+  updateSlaPolicyMutation,
+  updateSeriesMutation,
+  saveTemplateMutation,
+  deleteTemplateMutation,
+  instantiateTemplateMutation,
+  previewImportMutation,
+  importTodosMutation,
+  saveViewMutation,
+  deleteViewMutation,
+  pinViewMutation,
+  saveProjectMutation,
+  deleteProjectMutation,
+  moveTodoMutation,
+  saveWebhookMutation,
+  deleteWebhookMutation,
+  testWebhookMutation,
+  updateIngestionPolicyMutation,
+  runIngestionMutation,
+  saveAutomationRuleMutation,
+  deleteAutomationRuleMutation,
+  updateRetentionPolicyMutation,
+  previewRetentionMutation,
 }: UseTodoAppLogicParams) => {
   const handleSaveTodo = useCallback(
     async (data: any) => {
@@ -44,22 +215,59 @@ export const useTodoHandlers = ({
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
     [createMutation, notifications]
   );
 
+  // Conflicts are resolved in the merge dialog opened by the mutation, so
+  // they are not reported as errors
+  const handleUpdateTodo = useCallback(
+    async (id: string, data: UpdateTodoRequest) => {
+      try {
+        await updateMutation.mutateAsync({ id, data });
+      } catch (error) {
+        if (error instanceof TodoConflictError) return;
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [updateMutation, notifications]
+  );
+
+  // Re-apply the kept changes on top of the latest server copy
+  const handleResolveConflict = useCallback(
+    async (conflict: TodoConflict, changes: UpdateTodoRequest) => {
+      try {
+        await updateMutation.mutateAsync({
+          id: conflict.todoId,
+          data: { ...changes, version: conflict.current.version },
+        });
+        notifications.toasts.addSuccess("Changes merged");
+      } catch (error) {
+        if (error instanceof TodoConflictError) return;
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [updateMutation, notifications]
+  );
+
   const handleDeleteTodo = useCallback(
     async (id: string) => {
       try {
         await deleteMutation.mutateAsync(id);
-        notifications.toasts.addSuccess("TODO deleted");
+        notifications.toasts.addSuccess("TODO moved to the trash");
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
@@ -74,7 +282,7 @@ export const useTodoHandlers = ({
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
@@ -89,21 +297,51 @@ export const useTodoHandlers = ({
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
     [restoreMutation, notifications]
   );
 
+  const handleRestoreDeletedTodo = useCallback(
+    async (id: string) => {
+      try {
+        await restoreDeletedMutation.mutateAsync(id);
+        notifications.toasts.addSuccess("TODO restored from the trash");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [restoreDeletedMutation, notifications]
+  );
+
+  const handlePurgeTodo = useCallback(
+    async (id: string) => {
+      try {
+        await purgeTodoMutation.mutateAsync(id);
+        notifications.toasts.addSuccess("TODO deleted permanently");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [purgeTodoMutation, notifications]
+  );
+
   const handleStatusChange = useCallback(
-    async (id: string, status: TodoStatus) => {
+    async (id: string, status: string) => {
       try {
         await updateStatusMutation.mutateAsync({ id, status });
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
@@ -111,13 +349,13 @@ export const useTodoHandlers = ({
   );
 
   const handleReorder = useCallback(
-    async (id: string, status: TodoStatus, position: number) => {
+    async (id: string, status: string, position: number) => {
       try {
         await reorderMutation.mutateAsync({ id, status, position });
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
@@ -134,13 +372,33 @@ export const useTodoHandlers = ({
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
     [bulkArchiveMutation, notifications]
   );
 
+  const handleBulkAssign = useCallback(
+    async (ids: string[], user: TodoUser | undefined) => {
+      try {
+        await bulkAssignMutation.mutateAsync({ ids, user });
+        const items = `${ids.length} item${ids.length > 1 ? "s" : ""}`;
+        notifications.toasts.addSuccess(
+          user
+            ? `${items} assigned to ${user.displayName}`
+            : `${items} unassigned`
+        );
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [bulkAssignMutation, notifications]
+  );
+
   const handleBulkRestore = useCallback(
     async (ids: string[]) => {
       try {
@@ -151,7 +409,7 @@ export const useTodoHandlers = ({
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
@@ -163,46 +421,605 @@ export const useTodoHandlers = ({
       try {
         await bulkDeleteMutation.mutateAsync(ids);
         notifications.toasts.addSuccess(
-          `${ids.length} item${ids.length > 1 ? "s" : ""} deleted`
+          `${ids.length} item${ids.length > 1 ? "s" : ""} moved to the trash`
         );
       } catch (error) {
         notifications.toasts.addDanger({
           title: "Error",
-          text: (error as Error).message,
+          text: getErrorMessage(error),
         });
       }
     },
     [bulkDeleteMutation, notifications]
   );
 
+  // Comment handlers rethrow so the composer can keep the unsaved draft
+  const handleAddComment = useCallback(
+    async (todoId: string, body: string, parentId?: string) => {
+      try {
+        await createCommentMutation.mutateAsync({
+          todoId,
+          data: { body, parentId },
+        });
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [createCommentMutation, notifications]
+  );
+
+  const handleEditComment = useCallback(
+    async (todoId: string, commentId: string, body: string) => {
+      try {
+        await updateCommentMutation.mutateAsync({ todoId, commentId, body });
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateCommentMutation, notifications]
+  );
+
+  const handleDeleteComment = useCallback(
+    async (todoId: string, commentId: string) => {
+      try {
+        await deleteCommentMutation.mutateAsync({ todoId, commentId });
+        notifications.toasts.addSuccess("Comment deleted");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [deleteCommentMutation, notifications]
+  );
+
+  // Rethrows so the workflow editor stays open with the unsaved draft
+  const handleSaveWorkflow = useCallback(
+    async (workflow: WorkflowDefinition) => {
+      try {
+        await updateWorkflowMutation.mutateAsync(workflow);
+        notifications.toasts.addSuccess("Workflow saved");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateWorkflowMutation, notifications]
+  );
+
+  // Rethrows so the SLA editor stays open with the unsaved draft
+  const handleSaveSlaPolicy = useCallback(
+    async (policy: SlaPolicy) => {
+      try {
+        await updateSlaPolicyMutation.mutateAsync(policy);
+        notifications.toasts.addSuccess("SLA policy saved");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateSlaPolicyMutation, notifications]
+  );
+
+  // Rethrows so the series editor stays open with the unsaved changes
+  const handleUpdateSeries = useCallback(
+    async (seriesId: string, changes: SeriesUpdateRequest) => {
+      try {
+        const result = await updateSeriesMutation.mutateAsync({
+          seriesId,
+          changes,
+        });
+        notifications.toasts.addSuccess(
+          `Updated ${result.processed} occurrences`
+        );
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateSeriesMutation, notifications]
+  );
+
+  // Template handlers rethrow so their dialogs stay open on errors
+  const handleSaveTemplate = useCallback(
+    async (id: string | undefined, data: SaveTemplateRequest) => {
+      try {
+        await saveTemplateMutation.mutateAsync({ id, data });
+        notifications.toasts.addSuccess("Template saved");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [saveTemplateMutation, notifications]
+  );
+
+  const handleDeleteTemplate = useCallback(
+    async (template: TodoTemplate) => {
+      try {
+        await deleteTemplateMutation.mutateAsync(template.id);
+        notifications.toasts.addSuccess(`Deleted "${template.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [deleteTemplateMutation, notifications]
+  );
+
+  const handleInstantiateTemplate = useCallback(
+    async (id: string, options: InstantiateTemplateRequest) => {
+      try {
+        const result = await instantiateTemplateMutation.mutateAsync({
+          id,
+          options,
+        });
+        notifications.toasts.addSuccess({
+          title: `Created ${result.processed} TODO items`,
+          text: `Tagged "${result.batchTag}"`,
+        });
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [instantiateTemplateMutation, notifications]
+  );
+
+  // Rethrows so the import flyout keeps the file and mapping
+  const handlePreviewImport = useCallback(
+    async (request: TodoImportRequest) => {
+      try {
+        return (await previewImportMutation.mutateAsync(
+          request
+        )) as TodoImportRowResult[];
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [previewImportMutation, notifications]
+  );
+
+  const handleImportTodos = useCallback(
+    async (request: TodoImportRequest) => {
+      try {
+        const result: TodoImportResult = await importTodosMutation.mutateAsync(
+          request
+        );
+        const title =
+          `Imported ${result.created + result.updated} TODO items ` +
+          `(${result.created} created, ${result.updated} updated)`;
+        if (result.failed > 0) {
+          notifications.toasts.addWarning({
+            title,
+            text: `${result.failed} rows failed`,
+          });
+        } else {
+          notifications.toasts.addSuccess(title);
+        }
+        return result;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [importTodosMutation, notifications]
+  );
+
+  // Rethrows so the save dialog stays open with the entered name
+  const handleSaveView = useCallback(
+    async (id: string | undefined, data: SaveViewRequest) => {
+      try {
+        const view = await saveViewMutation.mutateAsync({ id, data });
+        notifications.toasts.addSuccess(`Saved view "${data.name}"`);
+        return view as SavedView;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [saveViewMutation, notifications]
+  );
+
+  const handleDeleteView = useCallback(
+    async (view: SavedView) => {
+      try {
+        await deleteViewMutation.mutateAsync(view.id);
+        notifications.toasts.addSuccess(`Deleted view "${view.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [deleteViewMutation, notifications]
+  );
+
+  const handlePinView = useCallback(
+    async (view: SavedView, pinned: boolean) => {
+      try {
+        await pinViewMutation.mutateAsync({ id: view.id, pinned });
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [pinViewMutation, notifications]
+  );
+
+  // Project handlers rethrow so the project editor keeps its changes
+  const handleSaveProject = useCallback(
+    async (id: string | undefined, data: SaveProjectRequest) => {
+      try {
+        const project = await saveProjectMutation.mutateAsync({ id, data });
+        notifications.toasts.addSuccess(`Saved project "${data.name}"`);
+        return project as TodoProject;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [saveProjectMutation, notifications]
+  );
+
+  const handleDeleteProject = useCallback(
+    async (project: TodoProject) => {
+      try {
+        await deleteProjectMutation.mutateAsync(project.id);
+        notifications.toasts.addSuccess(`Deleted project "${project.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [deleteProjectMutation, notifications]
+  );
+
+  const handleMoveTodo = useCallback(
+    async (id: string, project: TodoProject) => {
+      try {
+        await moveTodoMutation.mutateAsync({ id, projectId: project.id });
+        notifications.toasts.addSuccess(`Moved to project "${project.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [moveTodoMutation, notifications]
+  );
+
+  // Webhook handlers rethrow so the webhook editor keeps its changes
+  const handleSaveWebhook = useCallback(
+    async (id: string | undefined, data: SaveWebhookRequest) => {
+      try {
+        const webhook = await saveWebhookMutation.mutateAsync({ id, data });
+        notifications.toasts.addSuccess(`Saved webhook "${data.name}"`);
+        return webhook as TodoWebhook;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [saveWebhookMutation, notifications]
+  );
+
+  const handleDeleteWebhook = useCallback(
+    async (webhook: TodoWebhook) => {
+      try {
+        await deleteWebhookMutation.mutateAsync(webhook.id);
+        notifications.toasts.addSuccess(`Deleted webhook "${webhook.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [deleteWebhookMutation, notifications]
+  );
+
+  const handleTestWebhook = useCallback(
+    async (webhook: TodoWebhook) => {
+      try {
+        const delivery: WebhookDelivery =
+          await testWebhookMutation.mutateAsync(webhook.id);
+        if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+          notifications.toasts.addSuccess(
+            `"${webhook.name}" answered with HTTP ${delivery.responseStatus}`
+          );
+        } else {
+          notifications.toasts.addWarning({
+            title: `Test event to "${webhook.name}" failed`,
+            text: delivery.error,
+          });
+        }
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+      }
+    },
+    [testWebhookMutation, notifications]
+  );
+
+  // Rethrows so the ingestion settings keep their changes
+  const handleSaveIngestionPolicy = useCallback(
+    async (policy: IngestionPolicy) => {
+      try {
+        await updateIngestionPolicyMutation.mutateAsync(policy);
+        notifications.toasts.addSuccess("Alert ingestion saved");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateIngestionPolicyMutation, notifications]
+  );
+
+  const handleRunIngestion = useCallback(async () => {
+    try {
+      const result: IngestionRunResult =
+        await runIngestionMutation.mutateAsync();
+      const summary =
+        `${result.alerts} alerts read, ${result.created} items created, ` +
+        `${result.repeated} repeats counted`;
+      if (result.error) {
+        notifications.toasts.addWarning({
+          title: "Alert ingestion stopped early",
+          text: `${summary}. ${result.error}`,
+        });
+      } else {
+        notifications.toasts.addSuccess(summary);
+      }
+    } catch (error) {
+      notifications.toasts.addDanger({
+        title: "Error",
+        text: getErrorMessage(error),
+      });
+    }
+  }, [runIngestionMutation, notifications]);
+
+  // Automation rule handlers rethrow so the rule editor keeps its changes
+  const handleSaveAutomationRule = useCallback(
+    async (id: string | undefined, data: SaveAutomationRuleRequest) => {
+      try {
+        const rule = await saveAutomationRuleMutation.mutateAsync({
+          id,
+          data,
+        });
+        notifications.toasts.addSuccess(`Saved rule "${data.name}"`);
+        return rule as AutomationRule;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [saveAutomationRuleMutation, notifications]
+  );
+
+  const handleDeleteAutomationRule = useCallback(
+    async (rule: AutomationRule) => {
+      try {
+        await deleteAutomationRuleMutation.mutateAsync(rule.id);
+        notifications.toasts.addSuccess(`Deleted rule "${rule.name}"`);
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [deleteAutomationRuleMutation, notifications]
+  );
+
+  // Retention handlers rethrow so the retention settings keep their draft
+  const handleSaveRetentionPolicy = useCallback(
+    async (policy: RetentionPolicy) => {
+      try {
+        await updateRetentionPolicyMutation.mutateAsync(policy);
+        notifications.toasts.addSuccess("Retention policy saved");
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [updateRetentionPolicyMutation, notifications]
+  );
+
+  const handlePreviewRetention = useCallback(
+    async (policy: RetentionPolicy) => {
+      try {
+        return (await previewRetentionMutation.mutateAsync(
+          policy
+        )) as RetentionPreview;
+      } catch (error) {
+        notifications.toasts.addDanger({
+          title: "Error",
+          text: getErrorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [previewRetentionMutation, notifications]
+  );
+
   return {
     handleSaveTodo,
+    handleUpdateTodo,
+    handleResolveConflict,
     handleDeleteTodo,
     handleArchiveTodo,
     handleRestoreTodo,
+    handleRestoreDeletedTodo,
+    handlePurgeTodo,
     handleStatusChange,
     handleReorder,
     handleBulkArchive,
+    handleBulkAssign,
     handleBulkRestore,
     handleBulkDelete,
+    handleAddComment,
+    handleEditComment,
+    handleDeleteComment,
+    handleSaveWorkflow,
+    handleSaveSlaPolicy,
+    handleUpdateSeries,
+    handleSaveTemplate,
+    handleDeleteTemplate,
+    handleInstantiateTemplate,
+    handlePreviewImport,
+    handleImportTodos,
+    handleSaveView,
+    handleDeleteView,
+    handlePinView,
+    handleSaveProject,
+    handleDeleteProject,
+    handleMoveTodo,
+    handleSaveWebhook,
+    handleDeleteWebhook,
+    handleTestWebhook,
+    handleSaveIngestionPolicy,
+    handleRunIngestion,
+    handleSaveAutomationRule,
+    handleDeleteAutomationRule,
+    handleSaveRetentionPolicy,
+    handlePreviewRetention,
   };
 };
 
+interface ParsedSearch {
+  // Query text sent to the server, empty for no search
+  query: string;
+  parsed: ParsedTodoQuery;
+  // Why the typed query cannot be read
+  error?: string;
+}
+
+const EMPTY_SEARCH: ParsedSearch = {
+  query: "",
+  parsed: { text: "", excludedText: [], clauses: [] },
+};
+
+/**
+ * The search box query, read with the query syntax
+ * While the typed query cannot be read, the last readable query stays
+ * applied so the views keep their results next to the error.
+ */
+export const useParsedSearch = (
+  query: string,
+  workflow: WorkflowDefinition
+): ParsedSearch => {
+  const lastSearch = useRef<ParsedSearch>(EMPTY_SEARCH);
+
+  return useMemo(() => {
+    try {
+      lastSearch.current = {
+        query,
+        parsed: parseTodoQuery(query, { statuses: workflow.statuses }),
+      };
+      return lastSearch.current;
+    } catch (error) {
+      if (!(error instanceof TodoQueryError)) {
+        throw error;
+      }
+      return { ...lastSearch.current, error: error.message };
+    }
+  }, [query, workflow]);
+};
+
 // Hook for Kanban data filtering and grouping
 interface UseKanbanDataParams {
   kanbanInfiniteData: { pages?: { items: TodoItem[]; total: number }[] } | undefined;
-  searchQuery: string | undefined;
+  searchQuery: ParsedTodoQuery;
   priorityFilter: string;
+  slaFilter: string;
   complianceFilters: ComplianceStandard[];
-  statusFilters: TodoStatus[];
+  statusFilters: string[];
+  workflow: WorkflowDefinition;
 }
 
+// One entry per workflow status
+const createStatusRecord = <T>(
+  workflow: WorkflowDefinition,
+  createValue: () => T
+): Record<string, T> =>
+  workflow.statuses.reduce<Record<string, T>>(
+    (acc, status) => ({ ...acc, [status.id]: createValue() }),
+    {}
+  );
+
 export const useKanbanData = ({
   kanbanInfiniteData,
   searchQuery,
   priorityFilter,
+  slaFilter,
   complianceFilters,
   statusFilters,
+  workflow,
 }: UseKanbanDataParams) => {
   // Flatten all pages from infinite query
   const allKanbanTodos = useMemo(() => {
@@ -216,20 +1033,22 @@ export const useKanbanData = ({
   // Apply client-side filters
   const filteredKanbanTodos = useMemo(() => {
     return allKanbanTodos.filter((todo) => {
-      // Search filter
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const titleMatch = todo.title.toLowerCase().includes(query);
-        const descMatch =
-          todo.description?.toLowerCase().includes(query) || false;
-        if (!titleMatch && !descMatch) return false;
-      }
+      // Search filter, with the query syntax of the server search
+      if (!matchesTodoQuery(todo, searchQuery, workflow)) return false;
 
       // Priority filter
       if (priorityFilter !== "all" && todo.priority !== priorityFilter) {
         return false;
       }
 
+      // SLA state filter
+      if (
+        slaFilter !== "all" &&
+        (!todo.sla || getSlaState(todo.sla) !== slaFilter)
+      ) {
+        return false;
+      }
+
       // Compliance filter
       if (complianceFilters.length > 0) {
         const hasMatchingCompliance = todo.complianceStandards?.some(
@@ -240,17 +1059,18 @@ export const useKanbanData = ({
 
       return true;
     });
-  }, [allKanbanTodos, searchQuery, priorityFilter, complianceFilters]);
+  }, [
+    allKanbanTodos,
+    searchQuery,
+    priorityFilter,
+    slaFilter,
+    complianceFilters,
+    workflow,
+  ]);
 
   // Group by status and sort by position
   const kanbanTodosByStatus = useMemo(() => {
-    const grouped: Record<TodoStatus, TodoItem[]> = {
-      [TodoStatus.PLANNED]: [],
-      [TodoStatus.IN_PROGRESS]: [],
-      [TodoStatus.BLOCKED]: [],
-      [TodoStatus.COMPLETED_SUCCESS]: [],
-      [TodoStatus.COMPLETED_ERROR]: [],
-    };
+    const grouped = createStatusRecord<TodoItem[]>(workflow, () => []);
 
     filteredKanbanTodos.forEach((todo) => {
       if (grouped[todo.status]) {
@@ -260,13 +1080,13 @@ export const useKanbanData = ({
 
     // Sort each column by position
     Object.keys(grouped).forEach((status) => {
-      grouped[status as TodoStatus].sort(
+      grouped[status].sort(
         (a, b) => (a.position ?? 0) - (b.position ?? 0)
       );
     });
 
     return grouped;
-  }, [filteredKanbanTodos]);
+  }, [filteredKanbanTodos, workflow]);
 
   // Apply status filter (hide columns if filtered)
   const todosByStatus = useMemo(() => {
@@ -274,68 +1094,19 @@ export const useKanbanData = ({
       return kanbanTodosByStatus;
     }
 
-    const filtered: Record<TodoStatus, TodoItem[]> = {
-      [TodoStatus.PLANNED]: [],
-      [TodoStatus.IN_PROGRESS]: [],
-      [TodoStatus.BLOCKED]: [],
-      [TodoStatus.COMPLETED_SUCCESS]: [],
-      [TodoStatus.COMPLETED_ERROR]: [],
-    };
+    const filtered = createStatusRecord<TodoItem[]>(workflow, () => []);
 
     statusFilters.forEach((status) => {
       filtered[status] = kanbanTodosByStatus[status] || [];
     });
 
     return filtered;
-  }, [kanbanTodosByStatus, statusFilters]);
-
-  // Count todos by status (unfiltered)
-  const statusCounts = useMemo(() => {
-    const counts: Record<TodoStatus, number> = {
-      [TodoStatus.PLANNED]: 0,
-      [TodoStatus.IN_PROGRESS]: 0,
-      [TodoStatus.BLOCKED]: 0,
-      [TodoStatus.COMPLETED_SUCCESS]: 0,
-      [TodoStatus.COMPLETED_ERROR]: 0,
-    };
-
-    allKanbanTodos.forEach((todo) => {
-      if (counts[todo.status] !== undefined) {
-        counts[todo.status]++;
-      }
-    });
-
-    return counts;
-  }, [allKanbanTodos]);
-
-  // Count by compliance standard
-  const complianceCounts = useMemo(() => {
-    const counts: Record<ComplianceStandard, number> = {
-      [ComplianceStandard.PCI_DSS]: 0,
-      [ComplianceStandard.ISO_27001]: 0,
-      [ComplianceStandard.SOX]: 0,
-      [ComplianceStandard.HIPAA]: 0,
-      [ComplianceStandard.GDPR]: 0,
-      [ComplianceStandard.NIST]: 0,
-    };
-
-    allKanbanTodos.forEach((todo) => {
-      todo.complianceStandards?.forEach((standard) => {
-        if (counts[standard] !== undefined) {
-          counts[standard]++;
-        }
-      });
-    });
-
-    return counts;
-  }, [allKanbanTodos]);
+  }, [kanbanTodosByStatus, statusFilters, workflow]);
 
   return {
     allKanbanTodos,
     kanbanTotalCount,
     todosByStatus,
-    statusCounts,
-    complianceCounts,
   };
 };
 
@@ -1,18 +1,38 @@
+import { useEffect } from "react";
 import {
   useQuery,
   useMutation,
   useQueryClient,
   useInfiniteQuery,
+  InfiniteData,
+  QueryClient,
+  QueryKey,
 } from "@tanstack/react-query";
 import { HttpStart } from "../../../../../src/core/public";
-import { TodosApiService } from "../services";
+import { TodosApiService, TodoConflictError } from "../services";
+import { TodoConflict } from "../stores/todo-store";
 import {
   TodoItem,
   TodoSearchParams,
   CreateTodoRequest,
   UpdateTodoRequest,
   PaginatedResponse,
+  CreateCommentRequest,
+  WorkflowDefinition,
+  SlaPolicy,
+  SeriesUpdateRequest,
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+  SaveViewRequest,
+  TodoImportRequest,
+  SaveProjectRequest,
+  TodoUser,
+  SaveWebhookRequest,
+  IngestionPolicy,
+  SaveAutomationRuleRequest,
+  RetentionPolicy,
 } from "../../common/types";
+import { FIRST_PAGE_CURSOR } from "../../common/constants";
 
 // ============================================
 // Query Keys
@@ -21,10 +41,36 @@ export const todoKeys = {
   all: ["todos"] as const,
   lists: () => [...todoKeys.all, "list"] as const,
   list: (params: TodoSearchParams) => [...todoKeys.lists(), params] as const,
+  // Under lists so that every write that changes the items refreshes them
+  facets: (params: TodoSearchParams) =>
+    [...todoKeys.lists(), "facets", params] as const,
   archived: () => [...todoKeys.all, "archived"] as const,
+  trash: () => [...todoKeys.all, "trash"] as const,
   details: () => [...todoKeys.all, "detail"] as const,
   detail: (id: string) => [...todoKeys.details(), id] as const,
   statistics: () => [...todoKeys.all, "statistics"] as const,
+  // Under statistics so that every write that changes counts refreshes it
+  coverage: () => [...todoKeys.statistics(), "coverage"] as const,
+  comments: (id: string) => [...todoKeys.detail(id), "comments"] as const,
+  history: (id: string) => [...todoKeys.detail(id), "history"] as const,
+  series: (seriesId: string) => [...todoKeys.all, "series", seriesId] as const,
+  workflow: () => ["workflow"] as const,
+  slaPolicy: () => ["sla"] as const,
+  templates: () => ["templates"] as const,
+  views: () => ["views"] as const,
+  projects: () => ["projects"] as const,
+  permissions: () => ["permissions"] as const,
+  users: () => ["users"] as const,
+  webhooks: () => ["webhooks"] as const,
+  webhookDeliveries: (webhookId?: string) =>
+    [...todoKeys.webhooks(), "deliveries", webhookId || "all"] as const,
+  ingestion: () => ["ingestion"] as const,
+  ingestionStatus: () => [...todoKeys.ingestion(), "status"] as const,
+  automationRules: () => ["automation"] as const,
+  automationExecutions: (ruleId?: string) =>
+    [...todoKeys.automationRules(), "executions", ruleId || "all"] as const,
+  retention: () => ["retention"] as const,
+  retentionPurges: () => [...todoKeys.retention(), "purges"] as const,
 };
 
 // ============================================
@@ -41,6 +87,8 @@ export interface StoreActions {
   // Pending state actions
   addPendingId: (id: string) => void;
   removePendingId: (id: string) => void;
+  // Opens the merge dialog for a rejected concurrent edit
+  showConflict: (conflict: TodoConflict) => void;
 }
 
 // ============================================
@@ -61,14 +109,71 @@ export const createTodoHooks = (
     closeModal,
     addPendingId,
     removePendingId,
+    showConflict,
   } = storeActions;
 
+  /**
+   * Replace the local copies of a todo with the server copy
+   * Keeps `version` current so the next edit is not reported as a conflict.
+   */
+  const syncServerCopy = (queryClient: QueryClient, todo: TodoItem) => {
+    updateTodoInStore(todo.id, todo);
+    queryClient.setQueriesData(
+      { queryKey: [...todoKeys.all, "kanban"] },
+      (oldData: any) => {
+        if (!oldData?.pages) return oldData;
+        return {
+          ...oldData,
+          pages: oldData.pages.map((page: any) => ({
+            ...page,
+            items: page.items.map((item: TodoItem) =>
+              item.id === todo.id ? todo : item
+            ),
+          })),
+        };
+      }
+    );
+  };
+
+  /**
+   * Cursor to send back when the pages of a cursor-paged query are read
+   * again from the first one
+   * The server then closes the point in time they were read from instead
+   * of leaving it open until it expires.
+   */
+  const getPreviousCursor = (
+    queryClient: QueryClient,
+    queryKey: QueryKey,
+    pageParam: string
+  ) => {
+    if (pageParam !== FIRST_PAGE_CURSOR) {
+      return undefined;
+    }
+    const pages =
+      queryClient.getQueryData<InfiniteData<PaginatedResponse<TodoItem>>>(
+        queryKey
+      )?.pages;
+    return pages?.[pages.length - 1]?.nextCursor;
+  };
+
+  /**
+   * Refresh the series of a recurring todo
+   * Completing an occurrence creates the next one on the server.
+   */
+  const invalidateSeries = (queryClient: QueryClient, todo: TodoItem) => {
+    if (todo.seriesId) {
+      queryClient.invalidateQueries({
+        queryKey: todoKeys.series(todo.seriesId),
+      });
+    }
+  };
+
   // ============================================
   // Queries
   // ============================================
 
   /**
-   * Fetch todos with filters
+   * Fetch todos with filters, and the facet counts of the filters
    */
   const useTodos = (params: TodoSearchParams = {}) => {
     // Clean params - remove undefined/empty values for consistent cache keys
@@ -76,6 +181,7 @@ export const createTodoHooks = (
       ...params,
       query: params.query || undefined,
       archived: false,
+      facets: true,
     };
 
     return useQuery({
@@ -95,8 +201,35 @@ export const createTodoHooks = (
     });
   };
 
+  /**
+   * Count the values of the facet fields among the active todos
+   * Only the counts are read, for filters shown outside the table.
+   */
+  const useFacets = (params: TodoSearchParams = {}) => {
+    const cleanParams = {
+      ...params,
+      query: params.query || undefined,
+      archived: false,
+    };
+
+    return useQuery({
+      queryKey: todoKeys.facets(cleanParams),
+      queryFn: async () => {
+        const response = await api.searchTodos({
+          ...cleanParams,
+          size: 0,
+          facets: true,
+        });
+        return response.facets;
+      },
+      staleTime: 30000,
+    });
+  };
+
   /**
    * Fetch archived todos with pagination
+   * Pages are read by cursor, each after the one before it, so a jump
+   * ahead loads the pages in between.
    */
   const useArchivedTodos = (
     params: {
@@ -113,20 +246,55 @@ export const createTodoHooks = (
       sortOrder = "desc",
     } = params;
 
-    return useQuery({
-      queryKey: [...todoKeys.archived(), { page, size, sortField, sortOrder }],
-      queryFn: async () => {
-        const response = await api.searchTodos({
+    const queryClient = useQueryClient();
+    const query = useInfiniteQuery<PaginatedResponse<TodoItem>>(
+      [...todoKeys.archived(), { size, sortField, sortOrder }],
+      ({ pageParam = FIRST_PAGE_CURSOR, queryKey }) =>
+        api.searchTodos({
           archived: true,
-          page,
+          cursor: pageParam as string,
+          previousCursor: getPreviousCursor(queryClient, queryKey, pageParam),
           size,
           sortField,
           sortOrder,
-        });
-        setArchivedTodos(response.items);
-        return response;
-      },
+        }),
+      {
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        staleTime: 30000,
+      }
+    );
+    const { data, hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+    const loadedPages = data?.pages.length || 0;
+    const current = data?.pages[page - 1];
+
+    useEffect(() => {
+      if (page > loadedPages && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, [page, loadedPages, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+    useEffect(() => {
+      if (current) {
+        setArchivedTodos(current.items);
+      }
+    }, [current]);
+
+    return {
+      ...query,
+      data: current && { ...current, page },
+      isLoading: query.isLoading || (!current && !!hasNextPage),
+    };
+  };
+
+  /**
+   * Fetch a page of the trash, along with how long items stay in it
+   */
+  const useTrash = (page = 1, size = 25, enabled = true) => {
+    return useQuery({
+      queryKey: [...todoKeys.trash(), { page, size }],
+      queryFn: () => api.getTrash(page, size),
       staleTime: 30000,
+      enabled,
     });
   };
 
@@ -151,15 +319,19 @@ export const createTodoHooks = (
 
   /**
    * Infinite scroll query for Kanban board
-   * Fetches todos in pages as user scrolls, ordered by position
+   * Fetches todos in pages as user scrolls, ordered by position. The pages
+   * are read by cursor, so scrolling is not limited to 10,000 items and
+   * edits made meanwhile do not shift items between pages.
    */
   const useInfiniteKanban = (pageSize: number = 50) => {
+    const queryClient = useQueryClient();
     return useInfiniteQuery<PaginatedResponse<TodoItem>>(
       [...todoKeys.all, "kanban", { pageSize }],
-      async ({ pageParam = 1 }) => {
+      async ({ pageParam = FIRST_PAGE_CURSOR, queryKey }) => {
         const response = await api.searchTodos({
           archived: false,
-          page: pageParam as number,
+          cursor: pageParam as string,
+          previousCursor: getPreviousCursor(queryClient, queryKey, pageParam),
           size: pageSize,
           sortField: "position",
           sortOrder: "asc",
@@ -167,13 +339,7 @@ export const createTodoHooks = (
         return response;
       },
       {
-        getNextPageParam: (lastPage, allPages) => {
-          const totalLoaded = allPages.length * pageSize;
-          if (totalLoaded < lastPage.total) {
-            return allPages.length + 1;
-          }
-          return undefined;
-        },
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
         staleTime: 30000,
         refetchOnWindowFocus: true,
       }
@@ -202,6 +368,216 @@ export const createTodoHooks = (
     });
   };
 
+  /**
+   * Fetch the control coverage report
+   */
+  const useCoverage = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.coverage(),
+      queryFn: () => api.getCoverage(),
+      staleTime: 60000, // 1 minute
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the comment thread of a todo
+   */
+  const useComments = (todoId: string) => {
+    return useQuery({
+      queryKey: todoKeys.comments(todoId),
+      queryFn: () => api.getComments(todoId),
+      enabled: !!todoId,
+    });
+  };
+
+  /**
+   * Fetch the change history of a todo
+   * Always refetched when shown, since every write adds entries.
+   */
+  const useTodoHistory = (todoId: string, enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.history(todoId),
+      queryFn: () => api.getHistory(todoId),
+      enabled: !!todoId && enabled,
+      staleTime: 0,
+    });
+  };
+
+  /**
+   * Fetch all occurrences of a recurring series
+   * Always refetched when shown, since completing an occurrence adds one.
+   */
+  const useSeries = (seriesId: string | undefined) => {
+    return useQuery({
+      queryKey: todoKeys.series(seriesId || ""),
+      queryFn: () => api.getSeries(seriesId!),
+      enabled: !!seriesId,
+      staleTime: 0,
+    });
+  };
+
+  /**
+   * Fetch the workflow definition (statuses and transitions)
+   */
+  const useWorkflow = () => {
+    return useQuery({
+      queryKey: todoKeys.workflow(),
+      queryFn: () => api.getWorkflow(),
+      staleTime: 5 * 60000, // Changes rarely
+    });
+  };
+
+  /**
+   * Fetch the SLA policy
+   */
+  const useSlaPolicy = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.slaPolicy(),
+      queryFn: () => api.getSlaPolicy(),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the built-in and custom templates
+   */
+  const useTemplates = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.templates(),
+      queryFn: () => api.getTemplates(),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the views of the current user and the shared ones
+   */
+  const useViews = () => {
+    return useQuery({
+      queryKey: todoKeys.views(),
+      queryFn: () => api.getViews(),
+    });
+  };
+
+  /**
+   * Fetch the projects the current user is a member of
+   */
+  const useProjects = () => {
+    return useQuery({
+      queryKey: todoKeys.projects(),
+      queryFn: () => api.getProjects(),
+    });
+  };
+
+  /**
+   * Fetch the role and permissions of the current user
+   */
+  const usePermissions = () => {
+    return useQuery({
+      queryKey: todoKeys.permissions(),
+      queryFn: () => api.getPermissions(),
+      // Roles only change with a new session
+      staleTime: Infinity,
+    });
+  };
+
+  /**
+   * Fetch the users items can be assigned to
+   */
+  const useUsers = () => {
+    return useQuery({
+      queryKey: todoKeys.users(),
+      queryFn: () => api.getUsers(),
+      staleTime: 5 * 60 * 1000,
+    });
+  };
+
+  /**
+   * Fetch the webhooks; only users who manage the plugin may list them
+   */
+  const useWebhooks = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.webhooks(),
+      queryFn: () => api.getWebhooks(),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the latest deliveries, optionally of one webhook
+   */
+  const useWebhookDeliveries = (webhookId?: string, enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.webhookDeliveries(webhookId),
+      queryFn: () => api.getWebhookDeliveries(webhookId),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the alert ingestion policy; only users who manage the plugin
+   * may read it
+   */
+  const useIngestionPolicy = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.ingestion(),
+      queryFn: () => api.getIngestionPolicy(),
+      enabled,
+    });
+  };
+
+  const useIngestionStatus = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.ingestionStatus(),
+      queryFn: () => api.getIngestionStatus(),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the automation rules; only users who manage the plugin may list
+   * them
+   */
+  const useAutomationRules = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.automationRules(),
+      queryFn: () => api.getAutomationRules(),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the latest executions, optionally of one rule
+   */
+  const useAutomationExecutions = (ruleId?: string, enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.automationExecutions(ruleId),
+      queryFn: () => api.getAutomationExecutions(ruleId),
+      enabled,
+    });
+  };
+
+  /**
+   * Fetch the retention policy; only users who manage the plugin may read
+   * it
+   */
+  const useRetentionPolicy = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.retention(),
+      queryFn: () => api.getRetentionPolicy(),
+      enabled,
+    });
+  };
+
+  const useRetentionPurges = (enabled = true) => {
+    return useQuery({
+      queryKey: todoKeys.retentionPurges(),
+      queryFn: () => api.getRetentionPurges(),
+      enabled,
+    });
+  };
+
   // ============================================
   // Mutations
   // ============================================
@@ -240,17 +616,31 @@ export const createTodoHooks = (
         await queryClient.cancelQueries({ queryKey: todoKeys.lists() });
         updateTodoInStore(id, data as Partial<TodoItem>);
       },
-      onSuccess: (_, { id }) => {
+      onSuccess: (updated, { id }) => {
         removePendingId(id); // Clear pending state
+        syncServerCopy(queryClient, updated);
         closeModal();
         queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
         queryClient.invalidateQueries({
           queryKey: [...todoKeys.all, "kanban"],
         });
         queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.history(id) });
+        invalidateSeries(queryClient, updated);
       },
-      onError: (_, { id }) => {
+      onError: (error, { id, data }) => {
         removePendingId(id); // Clear pending state on error
+
+        // Someone else changed the todo: show their copy and let the user merge
+        if (error instanceof TodoConflictError) {
+          syncServerCopy(queryClient, error.current);
+          showConflict({
+            todoId: id,
+            localChanges: data,
+            current: error.current,
+          });
+        }
+
         queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
         queryClient.invalidateQueries({
           queryKey: [...todoKeys.all, "kanban"],
@@ -282,6 +672,7 @@ export const createTodoHooks = (
           queryKey: [...todoKeys.all, "kanban"],
         });
         queryClient.invalidateQueries({ queryKey: todoKeys.archived() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
         queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
       },
       onError: (_, id) => {
@@ -355,6 +746,47 @@ export const createTodoHooks = (
     });
   };
 
+  /**
+   * Take a todo out of the trash
+   */
+  const useRestoreDeletedTodo = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.restoreDeletedTodo(id),
+      onMutate: (id) => {
+        addPendingId(id);
+      },
+      onSuccess: (_, id) => {
+        removePendingId(id);
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.archived() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+      },
+      onError: (_, id) => {
+        removePendingId(id);
+      },
+    });
+  };
+
+  /**
+   * Delete a todo of the trash permanently
+   */
+  const usePurgeTodo = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.purgeTodo(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
+      },
+    });
+  };
+
   /**
    * Reorder todo (for drag & drop) - updates status and position
    * Uses optimistic update for both store and infinite query cache
@@ -410,8 +842,9 @@ export const createTodoHooks = (
 
         return { previousKanbanData };
       },
-      onSuccess: (_, { id }) => {
+      onSuccess: (updated, { id }) => {
         removePendingId(id);
+        syncServerCopy(queryClient, updated);
         // Don't invalidate immediately - let optimistic update stay
         // Only invalidate statistics
         queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
@@ -486,13 +919,15 @@ export const createTodoHooks = (
           }
         );
       },
-      onSuccess: (_, { id }) => {
+      onSuccess: (updated, { id }) => {
         removePendingId(id);
+        syncServerCopy(queryClient, updated);
         queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
         queryClient.invalidateQueries({
           queryKey: [...todoKeys.all, "kanban"],
         });
         queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+        invalidateSeries(queryClient, updated);
       },
       onError: (_, { id }) => {
         removePendingId(id);
@@ -504,6 +939,462 @@ export const createTodoHooks = (
     });
   };
 
+  /**
+   * Replace the workflow definition
+   * Statistics are grouped by workflow category, so they are refreshed too.
+   */
+  const useUpdateWorkflow = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (workflow: WorkflowDefinition) =>
+        api.updateWorkflow(workflow),
+      onSuccess: (saved) => {
+        queryClient.setQueryData(todoKeys.workflow(), saved);
+        queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+      },
+    });
+  };
+
+  /**
+   * Replace the SLA policy
+   * Stored items keep their deadlines, so only the policy is updated.
+   */
+  const useUpdateSlaPolicy = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (policy: SlaPolicy) => api.updateSlaPolicy(policy),
+      onSuccess: (saved) => {
+        queryClient.setQueryData(todoKeys.slaPolicy(), saved);
+      },
+    });
+  };
+
+  /**
+   * Apply changes to the open and future occurrences of a series
+   */
+  const useUpdateSeries = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        seriesId,
+        changes,
+      }: {
+        seriesId: string;
+        changes: SeriesUpdateRequest;
+      }) => api.updateSeries(seriesId, changes),
+      onSuccess: (_, { seriesId }) => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.series(seriesId) });
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.details() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+      },
+    });
+  };
+
+  // ============================================
+  // Templates
+  // ============================================
+
+  /**
+   * Create a template, or replace it when an id is given
+   */
+  const useSaveTemplate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, data }: { id?: string; data: SaveTemplateRequest }) =>
+        id ? api.updateTemplate(id, data) : api.createTemplate(data),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.templates() });
+      },
+    });
+  };
+
+  const useDeleteTemplate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.deleteTemplate(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.templates() });
+      },
+    });
+  };
+
+  /**
+   * Create all tasks of a template
+   */
+  const useInstantiateTemplate = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        id,
+        options,
+      }: {
+        id: string;
+        options: InstantiateTemplateRequest;
+      }) => api.instantiateTemplate(id, options),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+      },
+    });
+  };
+
+  // ============================================
+  // Import
+  // ============================================
+
+  const usePreviewImport = () =>
+    useMutation({
+      mutationFn: (request: TodoImportRequest) => api.previewImport(request),
+    });
+
+  const useImportTodos = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (request: TodoImportRequest) => api.importTodos(request),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+      },
+    });
+  };
+
+  // ============================================
+  // Saved views
+  // ============================================
+
+  /**
+   * Create a view, or replace it when an id is given
+   */
+  const useSaveView = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, data }: { id?: string; data: SaveViewRequest }) =>
+        id ? api.updateView(id, data) : api.createView(data),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.views() });
+      },
+    });
+  };
+
+  const useDeleteView = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.deleteView(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.views() });
+      },
+    });
+  };
+
+  const usePinView = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) =>
+        api.pinView(id, pinned),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.views() });
+      },
+    });
+  };
+
+  // ============================================
+  // Projects
+  // ============================================
+
+  /**
+   * Scope every todo request to a project, or to all of them
+   * The cached items belong to the previous project, so they are dropped.
+   */
+  const useSwitchProject = () => {
+    const queryClient = useQueryClient();
+
+    return (projectId: string | undefined) => {
+      api.setProject(projectId);
+      queryClient.resetQueries({ queryKey: todoKeys.all });
+    };
+  };
+
+  /**
+   * Create a project, or replace its settings when an id is given
+   */
+  const useSaveProject = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, data }: { id?: string; data: SaveProjectRequest }) =>
+        id ? api.updateProject(id, data) : api.createProject(data),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.projects() });
+      },
+    });
+  };
+
+  const useDeleteProject = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.deleteProject(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.projects() });
+      },
+    });
+  };
+
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  /**
+   * Create a webhook, or replace its settings when an id is given
+   */
+  const useSaveWebhook = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, data }: { id?: string; data: SaveWebhookRequest }) =>
+        id ? api.updateWebhook(id, data) : api.createWebhook(data),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.webhooks() });
+      },
+    });
+  };
+
+  const useDeleteWebhook = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.deleteWebhook(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.webhooks() });
+      },
+    });
+  };
+
+  /**
+   * Send a test event; the delivery shows up in the log
+   */
+  const useTestWebhook = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.testWebhook(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.webhooks(), "deliveries"],
+        });
+      },
+    });
+  };
+
+  // ============================================
+  // Alert ingestion
+  // ============================================
+
+  const useUpdateIngestionPolicy = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (policy: IngestionPolicy) =>
+        api.updateIngestionPolicy(policy),
+      onSuccess: () => {
+        // A new index pattern also resets the checkpoint
+        queryClient.invalidateQueries({ queryKey: todoKeys.ingestion() });
+      },
+    });
+  };
+
+  /**
+   * Ingest new alerts right away; the items it creates show up on the board
+   */
+  const useRunIngestion = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: () => api.runIngestion(),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: todoKeys.ingestionStatus(),
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.all });
+      },
+    });
+  };
+
+  // ============================================
+  // Automation rules
+  // ============================================
+
+  /**
+   * Create a rule, or replace it when an id is given
+   */
+  const useSaveAutomationRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        id,
+        data,
+      }: {
+        id?: string;
+        data: SaveAutomationRuleRequest;
+      }) =>
+        id
+          ? api.updateAutomationRule(id, data)
+          : api.createAutomationRule(data),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: todoKeys.automationRules(),
+        });
+      },
+    });
+  };
+
+  const useDeleteAutomationRule = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (id: string) => api.deleteAutomationRule(id),
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: todoKeys.automationRules(),
+        });
+      },
+    });
+  };
+
+  // ============================================
+  // Retention
+  // ============================================
+
+  const useUpdateRetentionPolicy = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: (policy: RetentionPolicy) =>
+        api.updateRetentionPolicy(policy),
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.retention() });
+      },
+    });
+  };
+
+  /**
+   * Items a draft policy would affect; nothing is changed
+   */
+  const usePreviewRetention = () => {
+    return useMutation({
+      mutationFn: (policy: RetentionPolicy) => api.previewRetention(policy),
+    });
+  };
+
+  /**
+   * Move a todo to another project
+   * It leaves the board of the current project, unless all are shown.
+   */
+  const useMoveTodo = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ id, projectId }: { id: string; projectId: string }) =>
+        api.moveTodo(id, projectId),
+      onSuccess: (moved) => {
+        syncServerCopy(queryClient, moved);
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.archived() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.history(moved.id) });
+      },
+    });
+  };
+
+  // ============================================
+  // Comments
+  // ============================================
+
+  /**
+   * Add a comment (or reply) to a todo
+   */
+  const useCreateComment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        todoId,
+        data,
+      }: {
+        todoId: string;
+        data: CreateCommentRequest;
+      }) => api.createComment(todoId, data),
+      onSuccess: (_, { todoId }) => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.comments(todoId) });
+      },
+    });
+  };
+
+  /**
+   * Edit a comment
+   */
+  const useUpdateComment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        todoId,
+        commentId,
+        body,
+      }: {
+        todoId: string;
+        commentId: string;
+        body: string;
+      }) => api.updateComment(todoId, commentId, body),
+      onSuccess: (_, { todoId }) => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.comments(todoId) });
+      },
+    });
+  };
+
+  /**
+   * Delete a comment and its replies
+   */
+  const useDeleteComment = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({
+        todoId,
+        commentId,
+      }: {
+        todoId: string;
+        commentId: string;
+      }) => api.deleteComment(todoId, commentId),
+      onSuccess: (_, { todoId }) => {
+        queryClient.invalidateQueries({ queryKey: todoKeys.comments(todoId) });
+      },
+    });
+  };
+
   // ============================================
   // Bulk Operations
   // ============================================
@@ -596,6 +1487,7 @@ export const createTodoHooks = (
           queryKey: [...todoKeys.all, "kanban"],
         });
         queryClient.invalidateQueries({ queryKey: todoKeys.archived() });
+        queryClient.invalidateQueries({ queryKey: todoKeys.trash() });
         queryClient.invalidateQueries({ queryKey: todoKeys.statistics() });
       },
       onError: (_, ids) => {
@@ -609,26 +1501,113 @@ export const createTodoHooks = (
     });
   };
 
+  /**
+   * Bulk assign multiple TODOs to a user of the directory
+   */
+  const useBulkAssign = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+      mutationFn: ({ ids, user }: { ids: string[]; user?: TodoUser }) =>
+        api.bulkAssign(ids, user),
+      onMutate: ({ ids }) => {
+        ids.forEach((id) => addPendingId(id));
+      },
+      onSuccess: (_, { ids }) => {
+        ids.forEach((id) => removePendingId(id));
+        queryClient.invalidateQueries({ queryKey: todoKeys.lists() });
+        queryClient.invalidateQueries({
+          queryKey: [...todoKeys.all, "kanban"],
+        });
+        queryClient.invalidateQueries({ queryKey: todoKeys.details() });
+      },
+      onError: (_, { ids }) => {
+        ids.forEach((id) => removePendingId(id));
+      },
+    });
+  };
+
   return {
     // Queries
     useTodos,
+    useFacets,
     useArchivedTodos,
     useArchivedCount,
+    useTrash,
     useInfiniteKanban,
     useTodo,
     useStatistics,
+    useCoverage,
+    useComments,
+    useTodoHistory,
+    useSeries,
+    useWorkflow,
+    useSlaPolicy,
+    useTemplates,
+    useViews,
+    useProjects,
+    usePermissions,
+    useUsers,
+    useWebhooks,
+    useWebhookDeliveries,
+    useIngestionPolicy,
+    useIngestionStatus,
+    useAutomationRules,
+    useAutomationExecutions,
+    useRetentionPolicy,
+    useRetentionPurges,
     // Mutations
     useCreateTodo,
     useUpdateTodo,
     useDeleteTodo,
     useArchiveTodo,
     useRestoreTodo,
+    useRestoreDeletedTodo,
+    usePurgeTodo,
     useUpdateStatus,
     useReorderTodo,
+    useUpdateWorkflow,
+    useUpdateSlaPolicy,
+    useUpdateSeries,
+    // Templates
+    useSaveTemplate,
+    useDeleteTemplate,
+    useInstantiateTemplate,
+    // Import & export
+    usePreviewImport,
+    useImportTodos,
+    getExportUrl: api.getExportUrl.bind(api),
+    // Saved views
+    useSaveView,
+    useDeleteView,
+    usePinView,
+    // Projects
+    useSwitchProject,
+    useSaveProject,
+    useDeleteProject,
+    useMoveTodo,
+    // Webhooks
+    useSaveWebhook,
+    useDeleteWebhook,
+    useTestWebhook,
+    // Alert ingestion
+    useUpdateIngestionPolicy,
+    useRunIngestion,
+    // Automation rules
+    useSaveAutomationRule,
+    useDeleteAutomationRule,
+    // Retention
+    useUpdateRetentionPolicy,
+    usePreviewRetention,
+    // Comments
+    useCreateComment,
+    useUpdateComment,
+    useDeleteComment,
     // Bulk Operations
     useBulkArchive,
     useBulkRestore,
     useBulkDelete,
+    useBulkAssign,
   };
 };
 
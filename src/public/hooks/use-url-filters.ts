@@ -1,10 +1,9 @@
 import { useCallback } from 'react';
-import { TodoStatus } from '../../common/types';
 
 interface UrlFilters {
   view?: string;
   query?: string;
-  status?: TodoStatus[];
+  status?: string[];
   priority?: string;
 }
 
@@ -18,10 +17,10 @@ export function getFiltersFromUrl(): UrlFilters {
   const query = params.get('q') || undefined;
   const priority = params.get('priority') || undefined;
   
-  // Parse status array
+  // Parse status array (ids of the workflow statuses)
   const statusParam = params.get('status');
   const status = statusParam 
-    ? statusParam.split(',').filter(s => Object.values(TodoStatus).includes(s as TodoStatus)) as TodoStatus[]
+    ? statusParam.split(',').filter(s => /^[a-z0-9_]+$/.test(s))
     : undefined;
   
   return { view, query, status, priority };
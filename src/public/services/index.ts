@@ -1 +1 @@
-export { TodosApiService } from './todos-api';
+export { TodosApiService, TodoConflictError } from './todos-api';
@@ -1,11 +1,24 @@
-import { TodosApiService } from "./todos-api";
-import { TodoPriority, TodoStatus } from "../../common/types";
+import { TodosApiService, TodoConflictError } from "./todos-api";
+import {
+  TodoPriority,
+  TodoStatus,
+  RecurrenceFrequency,
+  ComplianceStandard,
+  AutomationActionType,
+  AutomationOperator,
+  AutomationTrigger,
+  SaveAutomationRuleRequest,
+} from "../../common/types";
+import { DEFAULT_WORKFLOW } from "../../common/workflow";
+import { DEFAULT_SLA_POLICY } from "../../common/sla";
+import { DEFAULT_RETENTION_POLICY } from "../../common/retention";
 
 const createMockHttp = () => ({
   get: jest.fn(),
   post: jest.fn(),
   put: jest.fn(),
   delete: jest.fn(),
+  basePath: { prepend: jest.fn((path: string) => `/base${path}`) },
 });
 
 describe("TodosApiService", () => {
@@ -115,6 +128,24 @@ describe("TodosApiService", () => {
       expect(result).toEqual(updatedTodo);
     });
 
+    it("should throw a conflict error with the server copy on 409", async () => {
+      const current = { id: "123", title: "Theirs", version: 3 };
+      mockHttp.put.mockRejectedValue({
+        response: { status: 409 },
+        body: {
+          message: "TODO item was modified by someone else: 123",
+          attributes: { current },
+        },
+      });
+
+      const error = await service
+        .updateTodo("123", { title: "Mine", version: 2 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TodoConflictError);
+      expect(error.current).toEqual(current);
+    });
+
     it("should throw error when update fails", async () => {
       mockHttp.put.mockResolvedValue({
         success: false,
@@ -147,6 +178,52 @@ describe("TodosApiService", () => {
     });
   });
 
+  describe("trash", () => {
+    it("should fetch a page of the trash", async () => {
+      const trash = {
+        items: [{ id: "123", title: "Test", deletedAt: "2024-01-01" }],
+        total: 1,
+        page: 2,
+        size: 10,
+        totalPages: 1,
+        purgeAfterDays: 30,
+      };
+      mockHttp.get.mockResolvedValue({ success: true, data: trash });
+
+      const result = await service.getTrash(2, 10);
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/trash",
+        { query: { page: 2, size: 10 } }
+      );
+      expect(result).toEqual(trash);
+    });
+
+    it("should restore a todo from the trash", async () => {
+      const restored = { id: "123", title: "Test", deletedAt: null };
+      mockHttp.post.mockResolvedValue({ success: true, data: restored });
+
+      const result = await service.restoreDeletedTodo("123");
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/trash/123/restore"
+      );
+      expect(result).toEqual(restored);
+    });
+
+    it("should throw error when a purge is forbidden", async () => {
+      mockHttp.delete.mockResolvedValue({
+        success: false,
+        message: "Forbidden",
+      });
+
+      await expect(service.purgeTodo("123")).rejects.toThrow("Forbidden");
+      expect(mockHttp.delete).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/trash/123"
+      );
+    });
+  });
+
   describe("searchTodos", () => {
     it("should search todos with filters", async () => {
       const mockResponse = {
@@ -228,6 +305,18 @@ describe("TodosApiService", () => {
       });
     });
 
+    it("should send compliance filters", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: { items: [] } });
+
+      await service.searchTodos({
+        complianceStandards: [ComplianceStandard.HIPAA],
+      });
+
+      expect(mockHttp.get).toHaveBeenCalledWith("/api/custom_plugin/todos", {
+        query: { complianceStandards: [ComplianceStandard.HIPAA] },
+      });
+    });
+
     it("should throw error when search fails", async () => {
       mockHttp.get.mockResolvedValue({
         success: false,
@@ -238,6 +327,29 @@ describe("TodosApiService", () => {
     });
   });
 
+  describe("getExportUrl", () => {
+    it("should link to the export with the filters but no paging", () => {
+      const url = service.getExportUrl(
+        {
+          status: [TodoStatus.PLANNED, TodoStatus.BLOCKED],
+          sortField: "dueDate",
+          sortOrder: "asc",
+          archived: false,
+          page: 3,
+          size: 25,
+        },
+        "csv",
+        ["title", "dueDate"]
+      );
+
+      expect(url).toBe(
+        "/base/api/custom_plugin/todos/export?status=planned&status=blocked" +
+          "&sortField=dueDate&sortOrder=asc&archived=false&format=csv" +
+          "&columns=title%2CdueDate"
+      );
+    });
+  });
+
   describe("getStatistics", () => {
     it("should fetch statistics successfully", async () => {
       const mockStats = {
@@ -267,6 +379,36 @@ describe("TodosApiService", () => {
     });
   });
 
+  describe("getCoverage", () => {
+    it("should fetch control coverage successfully", async () => {
+      const mockCoverage = [
+        {
+          standard: "pci_dss",
+          controls: [],
+          openControls: 0,
+          completedControls: 0,
+          uncoveredControls: 0,
+        },
+      ];
+      mockHttp.get.mockResolvedValue({ success: true, data: mockCoverage });
+
+      const result = await service.getCoverage();
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/coverage"
+      );
+      expect(result).toEqual(mockCoverage);
+    });
+
+    it("should throw error when coverage fetch fails", async () => {
+      mockHttp.get.mockResolvedValue({ success: false });
+
+      await expect(service.getCoverage()).rejects.toThrow(
+        "Failed to get control coverage"
+      );
+    });
+  });
+
   describe("archiveTodo", () => {
     it("should archive a todo successfully", async () => {
       const archivedTodo = { id: "123", title: "Test", archived: true };
@@ -317,6 +459,497 @@ describe("TodosApiService", () => {
     });
   });
 
+  describe("comments", () => {
+    const mockComment = {
+      id: "c1",
+      todoId: "123",
+      author: "alice",
+      body: "Looks good",
+      createdAt: "2024-01-01",
+      updatedAt: "2024-01-01",
+      edited: false,
+    };
+
+    it("should fetch comments of a todo", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [mockComment] });
+
+      const result = await service.getComments("123");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/123/comments"
+      );
+      expect(result).toEqual([mockComment]);
+    });
+
+    it("should create a reply", async () => {
+      mockHttp.post.mockResolvedValue({ success: true, data: mockComment });
+
+      await service.createComment("123", { body: "Agreed", parentId: "c0" });
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/123/comments",
+        { body: JSON.stringify({ body: "Agreed", parentId: "c0" }) }
+      );
+    });
+
+    it("should update a comment body", async () => {
+      mockHttp.put.mockResolvedValue({
+        success: true,
+        data: { ...mockComment, body: "Edited", edited: true },
+      });
+
+      const result = await service.updateComment("123", "c1", "Edited");
+
+      expect(mockHttp.put).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/123/comments/c1",
+        { body: JSON.stringify({ body: "Edited" }) }
+      );
+      expect(result.edited).toBe(true);
+    });
+
+    it("should throw error when deleting a comment fails", async () => {
+      mockHttp.delete.mockResolvedValue({
+        success: false,
+        message: "Only the author can delete this comment",
+      });
+
+      await expect(service.deleteComment("123", "c1")).rejects.toThrow(
+        "Only the author can delete this comment"
+      );
+    });
+  });
+
+  describe("getHistory", () => {
+    it("should fetch the history of a todo", async () => {
+      const mockHistory = [
+        {
+          id: "h1",
+          todoId: "123",
+          action: "update",
+          field: "priority",
+          oldValue: "low",
+          newValue: "high",
+          actor: "alice",
+          timestamp: "2024-01-01",
+        },
+      ];
+      mockHttp.get.mockResolvedValue({ success: true, data: mockHistory });
+
+      const result = await service.getHistory("123");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/123/history"
+      );
+      expect(result).toEqual(mockHistory);
+    });
+
+    it("should throw error when history fetch fails", async () => {
+      mockHttp.get.mockResolvedValue({ success: false });
+
+      await expect(service.getHistory("123")).rejects.toThrow(
+        "Failed to get history"
+      );
+    });
+  });
+
+  describe("series", () => {
+    it("should fetch the occurrences of a series", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [] });
+
+      await service.getSeries("series-1");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/series/series-1"
+      );
+    });
+
+    it("should send series changes", async () => {
+      mockHttp.put.mockResolvedValue({
+        success: true,
+        data: { processed: 2, failed: 0 },
+      });
+      const changes = {
+        assignee: "alice",
+        recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 1 },
+      };
+
+      const result = await service.updateSeries("series-1", changes);
+
+      expect(mockHttp.put).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/series/series-1",
+        { body: JSON.stringify(changes) }
+      );
+      expect(result.processed).toBe(2);
+    });
+
+    it("should throw error when series update fails", async () => {
+      mockHttp.put.mockResolvedValue({ success: false });
+
+      await expect(service.updateSeries("series-1", {})).rejects.toThrow(
+        "Failed to update series"
+      );
+    });
+  });
+
+  describe("templates", () => {
+    it("should fetch the templates", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [] });
+
+      await service.getTemplates();
+
+      expect(mockHttp.get).toHaveBeenCalledWith("/api/custom_plugin/templates");
+    });
+
+    it("should instantiate a template", async () => {
+      const result = {
+        batchTag: "pci-2026-03-01-ab12",
+        processed: 6,
+        failed: 0,
+      };
+      mockHttp.post.mockResolvedValue({ success: true, data: result });
+
+      const created = await service.instantiateTemplate("builtin-pci_dss", {
+        assignee: "alice",
+      });
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/templates/builtin-pci_dss/instantiate",
+        { body: JSON.stringify({ assignee: "alice" }) }
+      );
+      expect(created).toEqual(result);
+    });
+
+    it("should throw error when deleting a template fails", async () => {
+      mockHttp.delete.mockResolvedValue({
+        success: false,
+        message: "Built-in templates cannot be changed",
+      });
+
+      await expect(service.deleteTemplate("builtin-sox")).rejects.toThrow(
+        "Built-in templates cannot be changed"
+      );
+    });
+  });
+
+  describe("workflow", () => {
+    it("should fetch the workflow", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: DEFAULT_WORKFLOW });
+
+      const result = await service.getWorkflow();
+
+      expect(mockHttp.get).toHaveBeenCalledWith("/api/custom_plugin/workflow");
+      expect(result).toEqual(DEFAULT_WORKFLOW);
+    });
+
+    it("should only send the definition when updating", async () => {
+      mockHttp.put.mockResolvedValue({ success: true, data: DEFAULT_WORKFLOW });
+
+      await service.updateWorkflow({
+        ...DEFAULT_WORKFLOW,
+        updatedAt: "2024-01-01",
+        updatedBy: "alice",
+      });
+
+      const body = JSON.parse(mockHttp.put.mock.calls[0][1].body);
+      expect(body).toEqual({
+        statuses: DEFAULT_WORKFLOW.statuses,
+        initialStatus: DEFAULT_WORKFLOW.initialStatus,
+        transitions: DEFAULT_WORKFLOW.transitions,
+      });
+    });
+
+    it("should throw error when workflow update fails", async () => {
+      mockHttp.put.mockResolvedValue({
+        success: false,
+        message: "Duplicate status: planned",
+      });
+
+      await expect(service.updateWorkflow(DEFAULT_WORKFLOW)).rejects.toThrow(
+        "Duplicate status: planned"
+      );
+    });
+  });
+
+  describe("projects", () => {
+    it("should scope the todo requests to the selected project", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: {} });
+      service.setProject("project-1");
+
+      await service.getStatistics();
+      await service.getComments("1");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/statistics",
+        { query: { projectId: "project-1" } }
+      );
+      expect(mockHttp.get).toHaveBeenLastCalledWith(
+        "/api/custom_plugin/todos/1/comments",
+        { query: { projectId: "project-1" } }
+      );
+      expect(service.getExportUrl({ archived: true }, "json")).toBe(
+        "/base/api/custom_plugin/todos/export?archived=true" +
+          "&projectId=project-1&format=json"
+      );
+    });
+
+    it("should move a todo to another project", async () => {
+      mockHttp.post.mockResolvedValue({
+        success: true,
+        data: { id: "1", projectId: "project-2" },
+      });
+
+      const result = await service.moveTodo("1", "project-2");
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/1/move",
+        { body: JSON.stringify({ projectId: "project-2" }) }
+      );
+      expect(result.projectId).toBe("project-2");
+    });
+  });
+
+  describe("permissions", () => {
+    it("should fetch the permissions of the current user", async () => {
+      const permissions = {
+        username: "alice",
+        role: "viewer",
+        readOnly: true,
+        permissions: ["read"],
+      };
+      mockHttp.get.mockResolvedValue({ success: true, data: permissions });
+
+      const result = await service.getPermissions();
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/me/permissions"
+      );
+      expect(result).toEqual(permissions);
+    });
+  });
+
+  describe("webhooks", () => {
+    it("should send the test event of a webhook", async () => {
+      const delivery = { id: "d1", webhookId: "w1", status: "succeeded" };
+      mockHttp.post.mockResolvedValue({ success: true, data: delivery });
+
+      const result = await service.testWebhook("w1");
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/webhooks/w1/test"
+      );
+      expect(result).toEqual(delivery);
+    });
+
+    it("should filter the deliveries by webhook", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [] });
+
+      await service.getWebhookDeliveries("w1");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/webhooks/deliveries",
+        { query: { webhookId: "w1" } }
+      );
+    });
+  });
+
+  describe("alert ingestion", () => {
+    it("should not send the audit fields of the policy", async () => {
+      const policy = {
+        enabled: true,
+        indexPattern: "wazuh-alerts-*",
+        timestampField: "timestamp",
+        lookbackMinutes: 60,
+        fingerprintFields: ["rule.id"],
+        documentUrl: "",
+        rules: [],
+      };
+      mockHttp.put.mockResolvedValue({ success: true, data: policy });
+
+      await service.updateIngestionPolicy({
+        ...policy,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        updatedBy: "alice",
+      });
+
+      expect(mockHttp.put).toHaveBeenCalledWith(
+        "/api/custom_plugin/ingestion",
+        { body: JSON.stringify(policy) }
+      );
+    });
+
+    it("should surface why a run was refused", async () => {
+      mockHttp.post.mockResolvedValue({
+        success: false,
+        message: "Alert ingestion is disabled",
+      });
+
+      await expect(service.runIngestion()).rejects.toThrow(
+        "Alert ingestion is disabled"
+      );
+    });
+  });
+
+  describe("automation rules", () => {
+    it("should create a rule", async () => {
+      const rule: SaveAutomationRuleRequest = {
+        name: "Escalate blocked critical items",
+        enabled: true,
+        trigger: AutomationTrigger.STATUS_CHANGED,
+        conditions: [
+          {
+            field: "status",
+            operator: AutomationOperator.EQUALS,
+            value: TodoStatus.BLOCKED,
+          },
+        ],
+        actions: [{ type: AutomationActionType.ADD_TAG, tag: "escalation" }],
+      };
+      mockHttp.post.mockResolvedValue({
+        success: true,
+        data: { ...rule, id: "r1" },
+      });
+
+      const result = await service.createAutomationRule(rule);
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/automation/rules",
+        { body: JSON.stringify(rule) }
+      );
+      expect(result.id).toBe("r1");
+    });
+
+    it("should filter the executions by rule", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [] });
+
+      await service.getAutomationExecutions("r1");
+
+      expect(mockHttp.get).toHaveBeenCalledWith(
+        "/api/custom_plugin/automation/executions",
+        { query: { ruleId: "r1" } }
+      );
+    });
+  });
+
+  describe("retention", () => {
+    it("should preview a draft policy without its audit fields", async () => {
+      const preview = {
+        archive: { total: 0, items: [] },
+        purge: { total: 0, items: [] },
+        legalHold: 0,
+      };
+      mockHttp.post.mockResolvedValue({ success: true, data: preview });
+
+      const result = await service.previewRetention({
+        ...DEFAULT_RETENTION_POLICY,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        updatedBy: "alice",
+      });
+
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/retention/preview",
+        { body: JSON.stringify(DEFAULT_RETENTION_POLICY) }
+      );
+      expect(result).toEqual(preview);
+    });
+  });
+
+  describe("saved views", () => {
+    it("should fetch the views", async () => {
+      mockHttp.get.mockResolvedValue({ success: true, data: [] });
+
+      const result = await service.getViews();
+
+      expect(mockHttp.get).toHaveBeenCalledWith("/api/custom_plugin/views");
+      expect(result).toEqual([]);
+    });
+
+    it("should pin a view", async () => {
+      mockHttp.put.mockResolvedValue({
+        success: true,
+        data: { id: "view-1", pinned: true },
+      });
+
+      await service.pinView("view-1", true);
+
+      expect(mockHttp.put).toHaveBeenCalledWith(
+        "/api/custom_plugin/views/view-1/pin",
+        { body: JSON.stringify({ pinned: true }) }
+      );
+    });
+
+    it("should throw error when a view cannot be changed", async () => {
+      mockHttp.delete.mockResolvedValue({
+        success: false,
+        message: "Only the owner can change a view",
+      });
+
+      await expect(service.deleteView("view-1")).rejects.toThrow(
+        "Only the owner can change a view"
+      );
+    });
+  });
+
+  describe("import", () => {
+    it("should return the result of a partly failed import", async () => {
+      const result = {
+        created: 1,
+        updated: 0,
+        failed: 1,
+        errors: [{ row: 2, error: "[title]: required" }],
+      };
+      mockHttp.post.mockResolvedValue({ success: false, data: result });
+
+      const request = { rows: [{ title: "A" }, {}], upsert: false };
+      await expect(service.importTodos(request)).resolves.toEqual(result);
+      expect(mockHttp.post).toHaveBeenCalledWith(
+        "/api/custom_plugin/todos/import",
+        { body: JSON.stringify(request) }
+      );
+    });
+
+    it("should throw error when the preview fails", async () => {
+      mockHttp.post.mockResolvedValue({ success: false });
+
+      await expect(
+        service.previewImport({ rows: [{ title: "A" }] })
+      ).rejects.toThrow("Failed to preview the import");
+    });
+  });
+
+  describe("SLA policy", () => {
+    it("should fetch the SLA policy", async () => {
+      mockHttp.get.mockResolvedValue({
+        success: true,
+        data: DEFAULT_SLA_POLICY,
+      });
+
+      const result = await service.getSlaPolicy();
+
+      expect(mockHttp.get).toHaveBeenCalledWith("/api/custom_plugin/sla");
+      expect(result).toEqual(DEFAULT_SLA_POLICY);
+    });
+
+    it("should only send the policy when updating", async () => {
+      mockHttp.put.mockResolvedValue({
+        success: true,
+        data: DEFAULT_SLA_POLICY,
+      });
+
+      await service.updateSlaPolicy({
+        ...DEFAULT_SLA_POLICY,
+        updatedAt: "2024-01-01",
+        updatedBy: "alice",
+      });
+
+      const body = JSON.parse(mockHttp.put.mock.calls[0][1].body);
+      expect(body).toEqual({
+        enabled: DEFAULT_SLA_POLICY.enabled,
+        targets: DEFAULT_SLA_POLICY.targets,
+        atRiskPercent: DEFAULT_SLA_POLICY.atRiskPercent,
+      });
+    });
+  });
+
   describe("bulk operations", () => {
     describe("bulkArchive", () => {
       it("should bulk archive todos successfully", async () => {
@@ -399,6 +1032,29 @@ describe("TodosApiService", () => {
         );
       });
     });
+
+    describe("bulkAssign", () => {
+      it("should assign todos by user id and display name", async () => {
+        const mockResult = { processed: 2, failed: 0 };
+        mockHttp.post.mockResolvedValue({ success: true, data: mockResult });
+
+        await service.bulkAssign(["1", "2"], {
+          id: "alice",
+          displayName: "Alice Johnson",
+        });
+
+        expect(mockHttp.post).toHaveBeenCalledWith(
+          "/api/custom_plugin/todos/bulk/assign",
+          {
+            body: JSON.stringify({
+              ids: ["1", "2"],
+              assignee: "Alice Johnson",
+              assigneeId: "alice",
+            }),
+          }
+        );
+      });
+    });
   });
 
   describe("error handling", () => {
@@ -1,12 +1,46 @@
-import { HttpStart } from "../../../../../src/core/public";
+import { HttpStart, HttpFetchOptions } from "../../../../../src/core/public";
 import {
   TodoItem,
   CreateTodoRequest,
   UpdateTodoRequest,
   TodoSearchParams,
-  PaginatedResponse,
+  TodoSearchResponse,
   TodoStatistics,
+  StandardCoverage,
+  TodoComment,
+  CreateCommentRequest,
+  TodoHistoryEntry,
+  WorkflowDefinition,
+  SlaPolicy,
+  SeriesUpdateRequest,
+  TodoTemplate,
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+  TemplateInstantiationResult,
+  SavedView,
+  SaveViewRequest,
+  TodoImportRequest,
+  TodoImportRowResult,
+  TodoImportResult,
+  TodoProject,
+  SaveProjectRequest,
+  TodoPermissions,
+  TodoUser,
+  TodoWebhook,
+  SaveWebhookRequest,
+  WebhookDelivery,
+  IngestionPolicy,
+  IngestionStatus,
+  IngestionRunResult,
+  AutomationRule,
+  AutomationExecution,
+  SaveAutomationRuleRequest,
+  RetentionPolicy,
+  RetentionPreview,
+  RetentionPurgeSummary,
+  TodoTrashResponse,
 } from "../../common/types";
+import { TodoExportFormat, TodoExportColumn } from "../../common/export";
 
 interface ApiResponse<T> {
   success: boolean;
@@ -15,17 +49,56 @@ interface ApiResponse<T> {
   error?: string;
 }
 
+/**
+ * Thrown when an update was based on an outdated copy of a TODO item
+ * `current` is the copy stored on the server.
+ */
+export class TodoConflictError extends Error {
+  constructor(message: string, public readonly current: TodoItem) {
+    super(message);
+    this.name = "TodoConflictError";
+  }
+}
+
 /**
  * TodosApiService - HTTP client for TODO API
  */
 export class TodosApiService {
+  // Project the TODO requests are scoped to; unset for the default project
+  private projectId?: string;
+
   constructor(private readonly http: HttpStart) {}
 
+  /**
+   * Scope the following TODO requests to a project, or `all` of them
+   */
+  setProject(projectId: string | undefined): void {
+    this.projectId = projectId;
+  }
+
+  // Request of the current project, passed as the `projectId` parameter
+  private fetchInProject<T>(
+    method: "get" | "post" | "put" | "delete",
+    path: string,
+    options?: HttpFetchOptions
+  ): Promise<T> {
+    if (!this.projectId) {
+      return options
+        ? this.http[method]<T>(path, options)
+        : this.http[method]<T>(path);
+    }
+    return this.http[method]<T>(path, {
+      ...options,
+      query: { ...options?.query, projectId: this.projectId },
+    });
+  }
+
   /**
    * Create a new TODO item
    */
   async createTodo(data: CreateTodoRequest): Promise<TodoItem> {
-    const response = await this.http.post<ApiResponse<TodoItem>>(
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
       "/api/custom_plugin/todos",
       {
         body: JSON.stringify(data),
@@ -41,7 +114,8 @@ export class TodosApiService {
    * Get TODO by ID
    */
   async getTodoById(id: string): Promise<TodoItem> {
-    const response = await this.http.get<ApiResponse<TodoItem>>(
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "get",
       `/api/custom_plugin/todos/${id}`
     );
     if (!response.success || !response.data) {
@@ -52,14 +126,25 @@ export class TodosApiService {
 
   /**
    * Update a TODO item
+   * Pass `data.version` to reject the update when the item changed meanwhile.
    */
   async updateTodo(id: string, data: UpdateTodoRequest): Promise<TodoItem> {
-    const response = await this.http.put<ApiResponse<TodoItem>>(
-      `/api/custom_plugin/todos/${id}`,
-      {
-        body: JSON.stringify(data),
+    let response: ApiResponse<TodoItem>;
+    try {
+      response = await this.fetchInProject<ApiResponse<TodoItem>>(
+        "put",
+        `/api/custom_plugin/todos/${id}`,
+        {
+          body: JSON.stringify(data),
+        }
+      );
+    } catch (error: any) {
+      const current = error?.body?.attributes?.current;
+      if (error?.response?.status === 409 && current) {
+        throw new TodoConflictError(error.body.message, current);
       }
-    );
+      throw error;
+    }
     if (!response.success || !response.data) {
       throw new Error(response.message || "Failed to update TODO");
     }
@@ -67,10 +152,11 @@ export class TodosApiService {
   }
 
   /**
-   * Delete a TODO item
+   * Move a TODO item to the trash
    */
   async deleteTodo(id: string): Promise<void> {
-    const response = await this.http.delete<ApiResponse<void>>(
+    const response = await this.fetchInProject<ApiResponse<void>>(
+      "delete",
       `/api/custom_plugin/todos/${id}`
     );
     if (!response.success) {
@@ -78,14 +164,103 @@ export class TodosApiService {
     }
   }
 
+  // ============================================
+  // Trash
+  // ============================================
+
+  /**
+   * Get a page of the deleted TODO items, most recently deleted first
+   */
+  async getTrash(page = 1, size = 50): Promise<TodoTrashResponse> {
+    const response = await this.fetchInProject<
+      ApiResponse<TodoTrashResponse>
+    >("get", "/api/custom_plugin/todos/trash", { query: { page, size } });
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get the trash");
+    }
+    return response.data;
+  }
+
+  /**
+   * Restore a TODO item from the trash
+   */
+  async restoreDeletedTodo(id: string): Promise<TodoItem> {
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
+      `/api/custom_plugin/todos/trash/${id}/restore`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to restore TODO");
+    }
+    return response.data;
+  }
+
+  /**
+   * Delete a TODO item of the trash permanently (admins only)
+   */
+  async purgeTodo(id: string): Promise<void> {
+    const response = await this.fetchInProject<ApiResponse<void>>(
+      "delete",
+      `/api/custom_plugin/todos/trash/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to purge TODO");
+    }
+  }
+
   /**
    * Search TODOs with filters
    * Uses OSD http.get with query parameter object
    */
   async searchTodos(
     params: TodoSearchParams = {}
-  ): Promise<PaginatedResponse<TodoItem>> {
-    // Build query object for OSD http service
+  ): Promise<TodoSearchResponse> {
+    const query = this.toSearchQuery(params);
+
+    const response = await this.fetchInProject<
+
+      ApiResponse<TodoSearchResponse>
+     >(
+      "get",
+      "/api/custom_plugin/todos",
+      { query }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to search TODOs");
+    }
+    return response.data;
+  }
+  /**
+   * Download link of every item matching the search
+   * The server streams the file, so paging does not apply.
+   */
+  getExportUrl(
+    params: TodoSearchParams,
+    format: TodoExportFormat,
+    columns: TodoExportColumn[] = []
+  ): string {
+    const { page, size, ...search } = params;
+    const query = new URLSearchParams();
+
+    Object.entries(this.toSearchQuery(search)).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach((item) =>
+        query.append(key, String(item))
+      );
+    });
+    if (this.projectId) query.append("projectId", this.projectId);
+    query.append("format", format);
+    if (columns.length > 0) query.append("columns", columns.join(","));
+
+    return `${this.http.basePath.prepend(
+      "/api/custom_plugin/todos/export"
+    )}?${query.toString()}`;
+  }
+
+  // Query object for the OSD http service, without empty filters
+  private toSearchQuery(
+    params: TodoSearchParams
+  ): Record<string, string | string[] | number | boolean> {
     const query: Record<string, string | string[] | number | boolean> = {};
 
     if (params.query) query.query = params.query;
@@ -93,28 +268,32 @@ export class TodosApiService {
     if (params.priority && params.priority.length > 0)
       query.priority = params.priority;
     if (params.tags && params.tags.length > 0) query.tags = params.tags;
+    if (params.complianceStandards && params.complianceStandards.length > 0)
+      query.complianceStandards = params.complianceStandards;
+    if (params.controls && params.controls.length > 0)
+      query.controls = params.controls;
+    if (params.slaState && params.slaState.length > 0)
+      query.slaState = params.slaState;
     if (params.assignee) query.assignee = params.assignee;
     if (params.sortField) query.sortField = params.sortField;
     if (params.sortOrder) query.sortOrder = params.sortOrder;
     if (params.page) query.page = params.page;
-    if (params.size) query.size = params.size;
+    if (params.size !== undefined) query.size = params.size;
+    if (params.cursor) query.cursor = params.cursor;
+    if (params.previousCursor) query.previousCursor = params.previousCursor;
     if (params.archived !== undefined) query.archived = params.archived;
+    if (params.facets) query.facets = true;
 
-    const response = await this.http.get<
-      ApiResponse<PaginatedResponse<TodoItem>>
-    >("/api/custom_plugin/todos", { query });
-
-    if (!response.success || !response.data) {
-      throw new Error(response.message || "Failed to search TODOs");
-    }
-    return response.data;
+    return query;
   }
 
+
   /**
    * Get statistics
    */
   async getStatistics(): Promise<TodoStatistics> {
-    const response = await this.http.get<ApiResponse<TodoStatistics>>(
+    const response = await this.fetchInProject<ApiResponse<TodoStatistics>>(
+      "get",
       "/api/custom_plugin/todos/statistics"
     );
     if (!response.success || !response.data) {
@@ -123,11 +302,26 @@ export class TodosApiService {
     return response.data;
   }
 
+  /**
+   * Get the open, completed and uncovered controls of each standard
+   */
+  async getCoverage(): Promise<StandardCoverage[]> {
+    const response = await this.fetchInProject<ApiResponse<StandardCoverage[]>>(
+      "get",
+      "/api/custom_plugin/todos/coverage"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get control coverage");
+    }
+    return response.data;
+  }
+
   /**
    * Archive a TODO item
    */
   async archiveTodo(id: string): Promise<TodoItem> {
-    const response = await this.http.post<ApiResponse<TodoItem>>(
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
       `/api/custom_plugin/todos/${id}/archive`
     );
     if (!response.success || !response.data) {
@@ -140,7 +334,8 @@ export class TodosApiService {
    * Restore an archived TODO item
    */
   async restoreTodo(id: string): Promise<TodoItem> {
-    const response = await this.http.post<ApiResponse<TodoItem>>(
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
       `/api/custom_plugin/todos/${id}/restore`
     );
     if (!response.success || !response.data) {
@@ -157,7 +352,8 @@ export class TodosApiService {
     status: string,
     position: number
   ): Promise<TodoItem> {
-    const response = await this.http.post<ApiResponse<TodoItem>>(
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
       `/api/custom_plugin/todos/${id}/reorder`,
       { body: JSON.stringify({ status, position }) }
     );
@@ -167,6 +363,721 @@ export class TodosApiService {
     return response.data;
   }
 
+  /**
+   * Move a TODO item to another project
+   */
+  async moveTodo(id: string, projectId: string): Promise<TodoItem> {
+    const response = await this.fetchInProject<ApiResponse<TodoItem>>(
+      "post",
+      `/api/custom_plugin/todos/${id}/move`,
+      { body: JSON.stringify({ projectId }) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to move TODO");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Comments
+  // ============================================
+
+  /**
+   * Get all comments of a TODO item
+   */
+  async getComments(todoId: string): Promise<TodoComment[]> {
+    const response = await this.fetchInProject<ApiResponse<TodoComment[]>>(
+      "get",
+      `/api/custom_plugin/todos/${todoId}/comments`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get comments");
+    }
+    return response.data;
+  }
+
+  /**
+   * Add a comment (or reply) to a TODO item
+   */
+  async createComment(
+    todoId: string,
+    data: CreateCommentRequest
+  ): Promise<TodoComment> {
+    const response = await this.fetchInProject<ApiResponse<TodoComment>>(
+      "post",
+      `/api/custom_plugin/todos/${todoId}/comments`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to create comment");
+    }
+    return response.data;
+  }
+
+  /**
+   * Edit the body of a comment
+   */
+  async updateComment(
+    todoId: string,
+    commentId: string,
+    body: string
+  ): Promise<TodoComment> {
+    const response = await this.fetchInProject<ApiResponse<TodoComment>>(
+      "put",
+      `/api/custom_plugin/todos/${todoId}/comments/${commentId}`,
+      { body: JSON.stringify({ body }) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update comment");
+    }
+    return response.data;
+  }
+
+  /**
+   * Delete a comment and its replies
+   */
+  async deleteComment(todoId: string, commentId: string): Promise<void> {
+    const response = await this.fetchInProject<ApiResponse<void>>(
+      "delete",
+      `/api/custom_plugin/todos/${todoId}/comments/${commentId}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete comment");
+    }
+  }
+
+  // ============================================
+  // History
+  // ============================================
+
+  /**
+   * Get the field-level change history of a TODO item, newest first
+   */
+  async getHistory(todoId: string): Promise<TodoHistoryEntry[]> {
+    const response = await this.fetchInProject<
+      ApiResponse<TodoHistoryEntry[]>
+    >("get", `/api/custom_plugin/todos/${todoId}/history`);
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get history");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Recurring Series
+  // ============================================
+
+  /**
+   * Get all occurrences of a recurring series, oldest first
+   */
+  async getSeries(seriesId: string): Promise<TodoItem[]> {
+    const response = await this.fetchInProject<ApiResponse<TodoItem[]>>(
+      "get",
+      `/api/custom_plugin/todos/series/${seriesId}`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get series");
+    }
+    return response.data;
+  }
+
+  /**
+   * Apply changes to the open and future occurrences of a series
+   */
+  async updateSeries(
+    seriesId: string,
+    changes: SeriesUpdateRequest
+  ): Promise<BulkOperationResult> {
+    const response = await this.fetchInProject<
+      ApiResponse<BulkOperationResult>
+    >(
+      "put",
+      `/api/custom_plugin/todos/series/${seriesId}`,
+      { body: JSON.stringify(changes) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update series");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Workflow
+  // ============================================
+
+  /**
+   * Get the workflow statuses and allowed transitions
+   */
+  async getWorkflow(): Promise<WorkflowDefinition> {
+    const response = await this.http.get<ApiResponse<WorkflowDefinition>>(
+      "/api/custom_plugin/workflow"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get workflow");
+    }
+    return response.data;
+  }
+
+  /**
+   * Replace the workflow definition
+   */
+  async updateWorkflow(
+    workflow: WorkflowDefinition
+  ): Promise<WorkflowDefinition> {
+    const { statuses, initialStatus, transitions } = workflow;
+    const response = await this.http.put<ApiResponse<WorkflowDefinition>>(
+      "/api/custom_plugin/workflow",
+      { body: JSON.stringify({ statuses, initialStatus, transitions }) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update workflow");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // SLA policy
+  // ============================================
+
+  /**
+   * Get the SLA targets per priority
+   */
+  async getSlaPolicy(): Promise<SlaPolicy> {
+    const response = await this.http.get<ApiResponse<SlaPolicy>>(
+      "/api/custom_plugin/sla"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get SLA policy");
+    }
+    return response.data;
+  }
+
+  /**
+   * Replace the SLA policy
+   */
+  async updateSlaPolicy(policy: SlaPolicy): Promise<SlaPolicy> {
+    const { enabled, targets, atRiskPercent } = policy;
+    const response = await this.http.put<ApiResponse<SlaPolicy>>(
+      "/api/custom_plugin/sla",
+      { body: JSON.stringify({ enabled, targets, atRiskPercent }) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update SLA policy");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Templates
+  // ============================================
+
+  /**
+   * List the built-in and custom templates
+   */
+  async getTemplates(): Promise<TodoTemplate[]> {
+    const response = await this.http.get<ApiResponse<TodoTemplate[]>>(
+      "/api/custom_plugin/templates"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get templates");
+    }
+    return response.data;
+  }
+
+  async createTemplate(data: SaveTemplateRequest): Promise<TodoTemplate> {
+    const response = await this.http.post<ApiResponse<TodoTemplate>>(
+      "/api/custom_plugin/templates",
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to create template");
+    }
+    return response.data;
+  }
+
+  async updateTemplate(
+    id: string,
+    data: SaveTemplateRequest
+  ): Promise<TodoTemplate> {
+    const response = await this.http.put<ApiResponse<TodoTemplate>>(
+      `/api/custom_plugin/templates/${id}`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update template");
+    }
+    return response.data;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    const response = await this.http.delete<ApiResponse<void>>(
+      `/api/custom_plugin/templates/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete template");
+    }
+  }
+
+  /**
+   * Create all tasks of a template
+   */
+  async instantiateTemplate(
+    id: string,
+    options: InstantiateTemplateRequest
+  ): Promise<TemplateInstantiationResult> {
+    const response = await this.fetchInProject<
+      ApiResponse<TemplateInstantiationResult>
+    >("post", `/api/custom_plugin/templates/${id}/instantiate`, {
+      body: JSON.stringify(options),
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to instantiate template");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Saved views
+  // ============================================
+
+  /**
+   * List the views of the current user and the shared ones
+   */
+  async getViews(): Promise<SavedView[]> {
+    const response = await this.http.get<ApiResponse<SavedView[]>>(
+      "/api/custom_plugin/views"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get views");
+    }
+    return response.data;
+  }
+
+  async createView(data: SaveViewRequest): Promise<SavedView> {
+    const response = await this.http.post<ApiResponse<SavedView>>(
+      "/api/custom_plugin/views",
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to save view");
+    }
+    return response.data;
+  }
+
+  async updateView(id: string, data: SaveViewRequest): Promise<SavedView> {
+    const response = await this.http.put<ApiResponse<SavedView>>(
+      `/api/custom_plugin/views/${id}`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update view");
+    }
+    return response.data;
+  }
+
+  async deleteView(id: string): Promise<void> {
+    const response = await this.http.delete<ApiResponse<void>>(
+      `/api/custom_plugin/views/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete view");
+    }
+  }
+
+  /**
+   * Show or hide a view as a tab for the current user
+   */
+  async pinView(id: string, pinned: boolean): Promise<SavedView> {
+    const response = await this.http.put<ApiResponse<SavedView>>(
+      `/api/custom_plugin/views/${id}/pin`,
+      { body: JSON.stringify({ pinned }) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to pin view");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Projects
+  // ============================================
+
+  /**
+   * List the projects of the current user, the default one first
+   */
+  async getProjects(): Promise<TodoProject[]> {
+    const response = await this.http.get<ApiResponse<TodoProject[]>>(
+      "/api/custom_plugin/projects"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get projects");
+    }
+    return response.data;
+  }
+
+  async createProject(data: SaveProjectRequest): Promise<TodoProject> {
+    const response = await this.http.post<ApiResponse<TodoProject>>(
+      "/api/custom_plugin/projects",
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to create project");
+    }
+    return response.data;
+  }
+
+  async updateProject(
+    id: string,
+    data: SaveProjectRequest
+  ): Promise<TodoProject> {
+    const response = await this.http.put<ApiResponse<TodoProject>>(
+      `/api/custom_plugin/projects/${id}`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update project");
+    }
+    return response.data;
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const response = await this.http.delete<ApiResponse<void>>(
+      `/api/custom_plugin/projects/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete project");
+    }
+  }
+
+  // ============================================
+  // Permissions
+  // ============================================
+
+  /**
+   * Role and permissions of the current user
+   */
+  async getPermissions(): Promise<TodoPermissions> {
+    const response = await this.http.get<ApiResponse<TodoPermissions>>(
+      "/api/custom_plugin/me/permissions"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get permissions");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // User directory
+  // ============================================
+
+  /**
+   * Users that can be assigned to items
+   */
+  async getUsers(): Promise<TodoUser[]> {
+    const response = await this.http.get<ApiResponse<TodoUser[]>>(
+      "/api/custom_plugin/users"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get users");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  async getWebhooks(): Promise<TodoWebhook[]> {
+    const response = await this.http.get<ApiResponse<TodoWebhook[]>>(
+      "/api/custom_plugin/webhooks"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get webhooks");
+    }
+    return response.data;
+  }
+
+  async createWebhook(data: SaveWebhookRequest): Promise<TodoWebhook> {
+    const response = await this.http.post<ApiResponse<TodoWebhook>>(
+      "/api/custom_plugin/webhooks",
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to create webhook");
+    }
+    return response.data;
+  }
+
+  /**
+   * Replace the settings of a webhook
+   * The secret is kept when `data.secret` is left out.
+   */
+  async updateWebhook(
+    id: string,
+    data: SaveWebhookRequest
+  ): Promise<TodoWebhook> {
+    const response = await this.http.put<ApiResponse<TodoWebhook>>(
+      `/api/custom_plugin/webhooks/${id}`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update webhook");
+    }
+    return response.data;
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    const response = await this.http.delete<ApiResponse<void>>(
+      `/api/custom_plugin/webhooks/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete webhook");
+    }
+  }
+
+  /**
+   * Send a test event to a webhook and return the delivery
+   */
+  async testWebhook(id: string): Promise<WebhookDelivery> {
+    const response = await this.http.post<ApiResponse<WebhookDelivery>>(
+      `/api/custom_plugin/webhooks/${id}/test`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to test webhook");
+    }
+    return response.data;
+  }
+
+  /**
+   * Latest deliveries, newest first, optionally of one webhook
+   */
+  async getWebhookDeliveries(webhookId?: string): Promise<WebhookDelivery[]> {
+    const response = await this.http.get<ApiResponse<WebhookDelivery[]>>(
+      "/api/custom_plugin/webhooks/deliveries",
+      { query: webhookId ? { webhookId } : {} }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get webhook deliveries");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Alert ingestion
+  // ============================================
+
+  async getIngestionPolicy(): Promise<IngestionPolicy> {
+    const response = await this.http.get<ApiResponse<IngestionPolicy>>(
+      "/api/custom_plugin/ingestion"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get ingestion policy");
+    }
+    return response.data;
+  }
+
+  async updateIngestionPolicy(
+    policy: IngestionPolicy
+  ): Promise<IngestionPolicy> {
+    const { updatedAt, updatedBy, ...body } = policy;
+    const response = await this.http.put<ApiResponse<IngestionPolicy>>(
+      "/api/custom_plugin/ingestion",
+      { body: JSON.stringify(body) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "Failed to update ingestion policy"
+      );
+    }
+    return response.data;
+  }
+
+  async getIngestionStatus(): Promise<IngestionStatus> {
+    const response = await this.http.get<ApiResponse<IngestionStatus>>(
+      "/api/custom_plugin/ingestion/status"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get ingestion status");
+    }
+    return response.data;
+  }
+
+  /**
+   * Ingest the alerts raised since the last run right away
+   */
+  async runIngestion(): Promise<IngestionRunResult> {
+    const response = await this.http.post<ApiResponse<IngestionRunResult>>(
+      "/api/custom_plugin/ingestion/run"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to run alert ingestion");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Automation rules
+  // ============================================
+
+  async getAutomationRules(): Promise<AutomationRule[]> {
+    const response = await this.http.get<ApiResponse<AutomationRule[]>>(
+      "/api/custom_plugin/automation/rules"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get automation rules");
+    }
+    return response.data;
+  }
+
+  async createAutomationRule(
+    data: SaveAutomationRuleRequest
+  ): Promise<AutomationRule> {
+    const response = await this.http.post<ApiResponse<AutomationRule>>(
+      "/api/custom_plugin/automation/rules",
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to create automation rule");
+    }
+    return response.data;
+  }
+
+  async updateAutomationRule(
+    id: string,
+    data: SaveAutomationRuleRequest
+  ): Promise<AutomationRule> {
+    const response = await this.http.put<ApiResponse<AutomationRule>>(
+      `/api/custom_plugin/automation/rules/${id}`,
+      { body: JSON.stringify(data) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to update automation rule");
+    }
+    return response.data;
+  }
+
+  async deleteAutomationRule(id: string): Promise<void> {
+    const response = await this.http.delete<ApiResponse<void>>(
+      `/api/custom_plugin/automation/rules/${id}`
+    );
+    if (!response.success) {
+      throw new Error(response.message || "Failed to delete automation rule");
+    }
+  }
+
+  /**
+   * Latest executions, newest first, optionally of one rule
+   */
+  async getAutomationExecutions(
+    ruleId?: string
+  ): Promise<AutomationExecution[]> {
+    const response = await this.http.get<ApiResponse<AutomationExecution[]>>(
+      "/api/custom_plugin/automation/executions",
+      { query: ruleId ? { ruleId } : {} }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "Failed to get automation executions"
+      );
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Retention
+  // ============================================
+
+  async getRetentionPolicy(): Promise<RetentionPolicy> {
+    const response = await this.http.get<ApiResponse<RetentionPolicy>>(
+      "/api/custom_plugin/retention"
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get retention policy");
+    }
+    return response.data;
+  }
+
+  async updateRetentionPolicy(
+    policy: RetentionPolicy
+  ): Promise<RetentionPolicy> {
+    const { updatedAt, updatedBy, ...body } = policy;
+    const response = await this.http.put<ApiResponse<RetentionPolicy>>(
+      "/api/custom_plugin/retention",
+      { body: JSON.stringify(body) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "Failed to update retention policy"
+      );
+    }
+    return response.data;
+  }
+
+  /**
+   * Items a policy, saved or not, would archive and purge right now
+   */
+  async previewRetention(policy: RetentionPolicy): Promise<RetentionPreview> {
+    const { updatedAt, updatedBy, ...body } = policy;
+    const response = await this.http.post<ApiResponse<RetentionPreview>>(
+      "/api/custom_plugin/retention/preview",
+      { body: JSON.stringify(body) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        response.message || "Failed to preview retention policy"
+      );
+    }
+    return response.data;
+  }
+
+  async getRetentionPurges(): Promise<RetentionPurgeSummary[]> {
+    const response = await this.http.get<
+      ApiResponse<RetentionPurgeSummary[]>
+    >("/api/custom_plugin/retention/purges");
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to get purges");
+    }
+    return response.data;
+  }
+
+  // ============================================
+  // Import
+  // ============================================
+
+  /**
+   * Validate mapped rows without importing them
+   */
+  async previewImport(
+    request: TodoImportRequest
+  ): Promise<TodoImportRowResult[]> {
+    const response = await this.fetchInProject<
+      ApiResponse<TodoImportRowResult[]>
+    >(
+      "post",
+      "/api/custom_plugin/todos/import/preview",
+      { body: JSON.stringify(request) }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to preview the import");
+    }
+    return response.data;
+  }
+
+  /**
+   * Import mapped rows; rows that fail are listed in the result
+   */
+  async importTodos(request: TodoImportRequest): Promise<TodoImportResult> {
+    const response = await this.fetchInProject<ApiResponse<TodoImportResult>>(
+      "post",
+      "/api/custom_plugin/todos/import",
+      { body: JSON.stringify(request) }
+    );
+    if (!response.data) {
+      throw new Error(response.message || "Failed to import TODOs");
+    }
+    return response.data;
+  }
+
   // ============================================
   // Bulk Operations
   // ============================================
@@ -175,7 +1086,10 @@ export class TodosApiService {
    * Bulk archive multiple TODO items
    */
   async bulkArchive(ids: string[]): Promise<BulkOperationResult> {
-    const response = await this.http.post<ApiResponse<BulkOperationResult>>(
+    const response = await this.fetchInProject<
+      ApiResponse<BulkOperationResult>
+    >(
+      "post",
       "/api/custom_plugin/todos/bulk/archive",
       { body: JSON.stringify({ ids }) }
     );
@@ -189,7 +1103,10 @@ export class TodosApiService {
    * Bulk restore multiple archived TODO items
    */
   async bulkRestore(ids: string[]): Promise<BulkOperationResult> {
-    const response = await this.http.post<ApiResponse<BulkOperationResult>>(
+    const response = await this.fetchInProject<
+      ApiResponse<BulkOperationResult>
+    >(
+      "post",
       "/api/custom_plugin/todos/bulk/restore",
       { body: JSON.stringify({ ids }) }
     );
@@ -203,7 +1120,10 @@ export class TodosApiService {
    * Bulk delete multiple TODO items
    */
   async bulkDelete(ids: string[]): Promise<BulkOperationResult> {
-    const response = await this.http.post<ApiResponse<BulkOperationResult>>(
+    const response = await this.fetchInProject<
+      ApiResponse<BulkOperationResult>
+    >(
+      "post",
       "/api/custom_plugin/todos/bulk/delete",
       { body: JSON.stringify({ ids }) }
     );
@@ -212,6 +1132,32 @@ export class TodosApiService {
     }
     return response.data;
   }
+
+  /**
+   * Assign multiple TODO items to a user, or unassign them without one
+   */
+  async bulkAssign(
+    ids: string[],
+    user: TodoUser | undefined
+  ): Promise<BulkOperationResult> {
+    const response = await this.fetchInProject<
+      ApiResponse<BulkOperationResult>
+    >(
+      "post",
+      "/api/custom_plugin/todos/bulk/assign",
+      {
+        body: JSON.stringify({
+          ids,
+          assignee: user?.displayName,
+          assigneeId: user?.id,
+        }),
+      }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to bulk assign TODOs");
+    }
+    return response.data;
+  }
 }
 
 interface BulkOperationResult {
@@ -140,4 +140,23 @@ describe('TodoStore', () => {
     });
     expect(screen.getByTestId('detail-panel-todo')).toHaveTextContent('test-1');
   });
+
+  it('should show and clear an edit conflict', () => {
+    renderWithProvider();
+    const conflict = {
+      todoId: 'test-1',
+      localChanges: { title: 'Mine', version: 1 },
+      current: { ...mockTodo, title: 'Theirs', version: 2 },
+    };
+
+    act(() => {
+      storeRef?.showConflict(conflict);
+    });
+    expect(storeRef?.conflict).toEqual(conflict);
+
+    act(() => {
+      storeRef?.clearConflict();
+    });
+    expect(storeRef?.conflict).toBeNull();
+  });
 });
@@ -1,19 +1,32 @@
 import * as React from 'react';
 import { createContext, useContext, useReducer, useCallback, useMemo } from 'react';
-import { TodoItem, TodoStatus, TodoPriority, TodoSearchParams } from '../../common/types';
+import {
+  TodoItem,
+  TodoPriority,
+  TodoSearchParams,
+  TodoViewType,
+  UpdateTodoRequest,
+} from '../../common/types';
 
 // ============================================
 // Types
 // ============================================
-export type ViewType = 'board' | 'table' | 'archived' | 'stats';
+export type ViewType = TodoViewType;
 
 export interface TodoFilters {
   query: string;
-  status: TodoStatus[];
+  status: string[];
   priority: TodoPriority[];
   assignee: string;
 }
 
+// Update rejected because the todo changed on the server meanwhile
+export interface TodoConflict {
+  todoId: string;
+  localChanges: UpdateTodoRequest;
+  current: TodoItem;
+}
+
 interface TodoState {
   todos: TodoItem[];
   archivedTodos: TodoItem[];
@@ -27,6 +40,8 @@ interface TodoState {
   detailPanelTodo: TodoItem | null;
   // Pending operations tracking (for loading states per item)
   pendingIds: Set<string>;
+  // Concurrent edit waiting to be merged
+  conflict: TodoConflict | null;
 }
 
 // ============================================
@@ -43,13 +58,15 @@ type TodoAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_FILTERS'; payload: Partial<TodoFilters> }
   | { type: 'RESET_FILTERS' }
-  | { type: 'TOGGLE_STATUS_FILTER'; payload: TodoStatus }
+  | { type: 'TOGGLE_STATUS_FILTER'; payload: string }
   | { type: 'OPEN_CREATE_MODAL' }
   | { type: 'CLOSE_MODAL' }
   | { type: 'OPEN_DETAIL_PANEL'; payload: TodoItem }
   | { type: 'CLOSE_DETAIL_PANEL' }
   | { type: 'ADD_PENDING_ID'; payload: string }
-  | { type: 'REMOVE_PENDING_ID'; payload: string };
+  | { type: 'REMOVE_PENDING_ID'; payload: string }
+  | { type: 'SHOW_CONFLICT'; payload: TodoConflict }
+  | { type: 'CLEAR_CONFLICT' };
 
 // ============================================
 // Initial State
@@ -71,6 +88,7 @@ const initialState: TodoState = {
   isModalOpen: false,
   detailPanelTodo: null,
   pendingIds: new Set<string>(),
+  conflict: null,
 };
 
 // ============================================
@@ -159,6 +177,12 @@ function todoReducer(state: TodoState, action: TodoAction): TodoState {
       return { ...state, pendingIds: newPendingIds };
     }
 
+    case 'SHOW_CONFLICT':
+      return { ...state, conflict: action.payload };
+
+    case 'CLEAR_CONFLICT':
+      return { ...state, conflict: null };
+
     default:
       return state;
   }
@@ -178,20 +202,23 @@ interface TodoContextValue extends TodoState {
   addPendingId: (id: string) => void;
   removePendingId: (id: string) => void;
   isPending: (id: string) => boolean;
+  // Conflict actions
+  showConflict: (conflict: TodoConflict) => void;
+  clearConflict: () => void;
   // View actions
   setView: (view: ViewType) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   setFilters: (filters: Partial<TodoFilters>) => void;
   resetFilters: () => void;
-  toggleStatusFilter: (status: TodoStatus) => void;
+  toggleStatusFilter: (status: string) => void;
   openCreateModal: () => void;
   closeModal: () => void;
   // Detail Panel
   openDetailPanel: (todo: TodoItem) => void;
   closeDetailPanel: () => void;
   // Computed
-  getTodosByStatus: () => Record<TodoStatus, TodoItem[]>;
+  getTodosByStatus: () => Record<string, TodoItem[]>;
   getSearchParams: () => TodoSearchParams;
 }
 
@@ -244,7 +271,7 @@ export const TodoProvider: React.FC<{ children: React.ReactNode }> = ({ children
     dispatch({ type: 'RESET_FILTERS' });
   }, []);
 
-  const toggleStatusFilter = useCallback((status: TodoStatus) => {
+  const toggleStatusFilter = useCallback((status: string) => {
     dispatch({ type: 'TOGGLE_STATUS_FILTER', payload: status });
   }, []);
 
@@ -278,20 +305,22 @@ export const TodoProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return state.pendingIds.has(id);
   }, [state.pendingIds]);
 
+  // Conflict management
+  const showConflict = useCallback((conflict: TodoConflict) => {
+    dispatch({ type: 'SHOW_CONFLICT', payload: conflict });
+  }, []);
+
+  const clearConflict = useCallback(() => {
+    dispatch({ type: 'CLEAR_CONFLICT' });
+  }, []);
+
   // Computed
+  // Statuses come from the workflow, so only statuses with items get an entry
   const getTodosByStatus = useCallback(() => {
-    const grouped: Record<TodoStatus, TodoItem[]> = {
-      [TodoStatus.PLANNED]: [],
-      [TodoStatus.IN_PROGRESS]: [],
-      [TodoStatus.BLOCKED]: [],
-      [TodoStatus.COMPLETED_SUCCESS]: [],
-      [TodoStatus.COMPLETED_ERROR]: [],
-    };
+    const grouped: Record<string, TodoItem[]> = {};
 
     state.todos.forEach((todo) => {
-      if (grouped[todo.status]) {
-        grouped[todo.status].push(todo);
-      }
+      grouped[todo.status] = [...(grouped[todo.status] || []), todo];
     });
 
     return grouped;
@@ -328,6 +357,8 @@ export const TodoProvider: React.FC<{ children: React.ReactNode }> = ({ children
     addPendingId,
     removePendingId,
     isPending,
+    showConflict,
+    clearConflict,
     getTodosByStatus,
     getSearchParams,
   }), [
@@ -350,6 +381,8 @@ export const TodoProvider: React.FC<{ children: React.ReactNode }> = ({ children
     addPendingId,
     removePendingId,
     isPending,
+    showConflict,
+    clearConflict,
     getTodosByStatus,
     getSearchParams,
   ]);
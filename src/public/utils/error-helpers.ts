@@ -0,0 +1,14 @@
+/**
+ * Get a readable message from a failed request
+ * HTTP errors carry the server message in their body, while their own
+ * message is only the status text (e.g. "Bad Request").
+ * @param error - Error thrown by the API service or the HTTP client
+ * @returns Message to show to the user
+ */
+export const getErrorMessage = (error: unknown): string => {
+  const bodyMessage = (error as any)?.body?.message;
+  if (typeof bodyMessage === "string" && bodyMessage) {
+    return bodyMessage;
+  }
+  return (error as Error)?.message || "Unknown error";
+};
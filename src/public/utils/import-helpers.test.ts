@@ -0,0 +1,133 @@
+/**
+ * Tests for Import Helper Functions
+ * Run with: yarn test
+ */
+import {
+  parseCsv,
+  parseImportFile,
+  guessImportMapping,
+  mapImportRow,
+  buildImportErrorReport,
+} from './import-helpers';
+
+describe('Import Helpers', () => {
+  describe('parseCsv', () => {
+    it('should split rows and cells', () => {
+      expect(parseCsv('a,b\r\n1,2\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should keep separators, quotes and line breaks in quoted cells', () => {
+      expect(parseCsv('title\n"Patch ""A"", B\nnow"')).toEqual([
+        ['title'],
+        ['Patch "A", B\nnow'],
+      ]);
+    });
+
+    it('should skip empty lines', () => {
+      expect(parseCsv('a\n\n1\n\n')).toEqual([['a'], ['1']]);
+    });
+  });
+
+  describe('parseImportFile', () => {
+    it('should read CSV rows by header', () => {
+      const file = parseImportFile('findings.csv', '\uFEFFTitle , Owner\nA');
+
+      expect(file.columns).toEqual(['Title', 'Owner']);
+      expect(file.rows).toEqual([{ Title: 'A', Owner: '' }]);
+    });
+
+    it('should collect the columns of all JSON objects', () => {
+      const file = parseImportFile(
+        'scan.JSON',
+        JSON.stringify([{ title: 'A' }, { title: 'B', severity: 'high' }])
+      );
+
+      expect(file.columns).toEqual(['title', 'severity']);
+      expect(file.rows).toHaveLength(2);
+    });
+
+    it('should reject JSON that is not an array of objects', () => {
+      expect(() => parseImportFile('scan.json', '{"title":"A"}')).toThrow(
+        'The JSON file must contain an array of objects'
+      );
+    });
+  });
+
+  describe('guessImportMapping', () => {
+    it('should map columns by name, label and alias', () => {
+      expect(
+        guessImportMapping(['Title', 'Due Date', 'Severity', 'Name', 'Notes'])
+      ).toEqual({
+        Title: 'title',
+        'Due Date': 'dueDate',
+        Severity: 'priority',
+        Name: undefined,
+        Notes: undefined,
+      });
+    });
+  });
+
+  describe('mapImportRow', () => {
+    it('should convert values to TODO fields', () => {
+      const row = mapImportRow(
+        {
+          Finding: ' Weak TLS ',
+          Severity: 'HIGH',
+          Labels: 'tls; network|external',
+          Standards: 'PCI DSS, ISO-27001',
+          Due: '2026-03-01',
+          Points: '5',
+          Empty: '',
+          Ignored: 'x',
+        },
+        {
+          Finding: 'title',
+          Severity: 'priority',
+          Labels: 'tags',
+          Standards: 'complianceStandards',
+          Due: 'dueDate',
+          Points: 'storyPoints',
+          Empty: 'assignee',
+          Ignored: undefined,
+        }
+      );
+
+      expect(row).toEqual({
+        title: 'Weak TLS',
+        priority: 'high',
+        tags: ['tls', 'network', 'external'],
+        complianceStandards: ['pci_dss', 'iso_27001'],
+        dueDate: '2026-03-01T00:00:00.000Z',
+        storyPoints: 5,
+      });
+    });
+
+    it('should keep values that cannot be converted', () => {
+      expect(
+        mapImportRow(
+          { due: 'someday', points: 'many' },
+          { due: 'dueDate', points: 'storyPoints' }
+        )
+      ).toEqual({ dueDate: 'someday', storyPoints: 'many' });
+    });
+  });
+
+  describe('buildImportErrorReport', () => {
+    it('should list each error with the values of its row', () => {
+      const report = buildImportErrorReport(
+        {
+          columns: ['title', 'tags'],
+          rows: [{ title: 'A' }, { title: 'B, "C"', tags: ['x'] }],
+        },
+        [{ row: 2, error: 'Unknown status' }]
+      );
+
+      expect(report).toBe(
+        'row,error,title,tags\n2,Unknown status,"B, ""C""","[""x""]"'
+      );
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Fields of a TODO item that a file column can be mapped to
+ */
+export type ImportField =
+  | "title"
+  | "description"
+  | "priority"
+  | "status"
+  | "tags"
+  | "complianceStandards"
+  | "controls"
+  | "assignee"
+  | "plannedDate"
+  | "dueDate"
+  | "storyPoints"
+  | "externalKey";
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string }> = [
+  { field: "title", label: "Title" },
+  { field: "description", label: "Description" },
+  { field: "priority", label: "Priority" },
+  { field: "status", label: "Status" },
+  { field: "tags", label: "Tags" },
+  { field: "complianceStandards", label: "Compliance standards" },
+  { field: "controls", label: "Controls" },
+  { field: "assignee", label: "Assignee" },
+  { field: "plannedDate", label: "Planned date" },
+  { field: "dueDate", label: "Due date" },
+  { field: "storyPoints", label: "Story points" },
+  { field: "externalKey", label: "External key" },
+];
+
+/**
+ * Field each column is imported into; unmapped columns are skipped
+ */
+export type ImportMapping = Record<string, ImportField | undefined>;
+
+export interface ParsedImportFile {
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+const LIST_FIELDS: ImportField[] = ["tags", "complianceStandards", "controls"];
+const DATE_FIELDS: ImportField[] = ["plannedDate", "dueDate"];
+
+// Common column names of spreadsheets and scanner exports
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  name: "title",
+  summary: "title",
+  finding: "title",
+  details: "description",
+  severity: "priority",
+  state: "status",
+  labels: "tags",
+  standards: "complianceStandards",
+  compliance: "complianceStandards",
+  owner: "assignee",
+  due: "dueDate",
+  points: "storyPoints",
+  id: "externalKey",
+  key: "externalKey",
+  externalid: "externalKey",
+};
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Split CSV text into rows of cells
+ * Follows RFC 4180: quoted cells may contain separators, line breaks and
+ * doubled quotes. Empty lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
+
+/**
+ * Read the rows of an uploaded CSV or JSON file
+ * CSV files need a header row; JSON files an array of objects.
+ */
+export const parseImportFile = (
+  fileName: string,
+  text: string
+): ParsedImportFile => {
+  const content = text.replace(/^\uFEFF/, "");
+
+  if (fileName.toLowerCase().endsWith(".json")) {
+    const data = JSON.parse(content);
+    if (
+      !Array.isArray(data) ||
+      data.some((row) => typeof row !== "object" || row === null)
+    ) {
+      throw new Error("The JSON file must contain an array of objects");
+    }
+    const columns = Array.from(
+      new Set(data.flatMap((row: Record<string, unknown>) => Object.keys(row)))
+    );
+    return { columns, rows: data };
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    throw new Error("The CSV file is empty");
+  }
+  const columns = header.map((name) => name.trim());
+  const rows = lines.map((cells) =>
+    columns.reduce<Record<string, unknown>>(
+      (row, column, index) => ({ ...row, [column]: cells[index] ?? "" }),
+      {}
+    )
+  );
+  return { columns, rows };
+};
+
+/**
+ * Map columns to fields with the same name, label or a common alias
+ */
+export const guessImportMapping = (columns: string[]): ImportMapping => {
+  const used = new Set<ImportField>();
+
+  return columns.reduce<ImportMapping>((mapping, column) => {
+    const name = normalizeName(column);
+    const match =
+      IMPORT_FIELDS.find(
+        ({ field, label }) =>
+          normalizeName(field) === name || normalizeName(label) === name
+      )?.field || COLUMN_ALIASES[name];
+
+    // A field is only guessed for the first column that matches it
+    if (!match || used.has(match)) {
+      return { ...mapping, [column]: undefined };
+    }
+    used.add(match);
+    return { ...mapping, [column]: match };
+  }, {});
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "");
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : String(value).split(/[,;|]/))
+    .map((item) => String(item).trim())
+    .filter((item) => item !== "");
+
+/**
+ * Convert a file row into the fields of a TODO item
+ * Lists may be separated by commas, semicolons or pipes and dates in any
+ * format the browser understands. Values that cannot be converted are kept
+ * so the server reports them.
+ */
+export const mapImportRow = (
+  values: Record<string, unknown>,
+  mapping: ImportMapping
+): Record<string, unknown> =>
+  Object.entries(mapping).reduce<Record<string, unknown>>(
+    (row, [column, field]) => {
+      const value = values[column];
+      if (!field || isEmpty(value)) {
+        return row;
+      }
+
+      if (LIST_FIELDS.includes(field)) {
+        const items = toList(value);
+        // "PCI DSS" and "ISO-27001" name the standards "pci_dss", "iso_27001"
+        return {
+          ...row,
+          [field]:
+            field === "complianceStandards"
+              ? items.map((item) => item.toLowerCase().replace(/[\s-]+/g, "_"))
+              : items,
+        };
+      }
+
+      if (DATE_FIELDS.includes(field)) {
+        const date = new Date(String(value));
+        return {
+          ...row,
+          [field]: isNaN(date.getTime())
+            ? String(value)
+            : date.toISOString(),
+        };
+      }
+
+      if (field === "storyPoints") {
+        const points = Number(value);
+        return { ...row, [field]: isNaN(points) ? value : points };
+      }
+
+      const text = String(value).trim();
+      return {
+        ...row,
+        [field]: field === "priority" ? text.toLowerCase() : text,
+      };
+    },
+    {}
+  );
+
+const toCsvCell = (value: unknown): string => {
+  if (isEmpty(value)) {
+    return "";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV listing each error next to the values of its row
+ * Rows are numbered from 1, the first row after the header.
+ */
+export const buildImportErrorReport = (
+  file: ParsedImportFile,
+  errors: Array<{ row: number; error: string }>
+): string => {
+  const lines = [
+    ["row", "error", ...file.columns],
+    ...errors.map(({ row, error }) => [
+      row,
+      error,
+      ...file.columns.map((column) => file.rows[row - 1]?.[column]),
+    ]),
+  ];
+  return lines.map((cells) => cells.map(toCsvCell).join(",")).join("\n");
+};
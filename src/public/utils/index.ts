@@ -1 +1,4 @@
 export * from "./table-helpers";
+export * from "./error-helpers";
+export * from "./import-helpers";
+export * from "./query-suggestions";
@@ -0,0 +1,71 @@
+/**
+ * Tests for Query Suggestion Functions
+ * Run with: yarn test
+ */
+import { getQuerySuggestions, applyQuerySuggestion } from './query-suggestions';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+
+const context = {
+  statuses: DEFAULT_WORKFLOW.statuses,
+  values: { assignee: ['Grace Lee', 'alice'] },
+};
+
+const labels = (query: string, cursor = query.length) =>
+  getQuerySuggestions(query, cursor, context).suggestions.map(
+    ({ label }) => label
+  );
+
+describe('Query Suggestions', () => {
+  describe('getQuerySuggestions', () => {
+    it('should suggest field names', () => {
+      expect(labels('pri')).toEqual(['priority:']);
+      expect(labels('tls -st')).toEqual(['status:', 'standard:']);
+    });
+
+    it('should suggest status ids and labels', () => {
+      expect(labels('status:in')).toEqual(['in_progress']);
+      expect(labels('status:block')).toEqual(['blocked']);
+    });
+
+    it('should leave out values already chosen', () => {
+      expect(labels('priority:critical,')).toEqual(['low', 'medium', 'high']);
+    });
+
+    it('should suggest known values and date presets', () => {
+      expect(labels('assignee:gr')).toEqual(['Grace Lee']);
+      expect(labels('due:<')).toEqual(['<now', '<now+7d']);
+    });
+
+    it('should complete the term at the cursor', () => {
+      const result = getQuerySuggestions('pri tls', 2, context);
+
+      expect(result).toEqual(expect.objectContaining({ from: 0, to: 3 }));
+    });
+
+    it('should not suggest inside an open quote', () => {
+      expect(labels('assignee:"Grace ')).toEqual([]);
+    });
+  });
+
+  describe('applyQuerySuggestion', () => {
+    it('should replace the term and quote values with spaces', () => {
+      const suggestions = getQuerySuggestions('-assignee:gr tls', 12, context);
+
+      expect(
+        applyQuerySuggestion(
+          '-assignee:gr tls',
+          suggestions,
+          suggestions.suggestions[0]
+        )
+      ).toEqual({ query: '-assignee:"Grace Lee" tls', cursor: 22 });
+    });
+
+    it('should keep the cursor after a completed field name', () => {
+      const suggestions = getQuerySuggestions('tls pri', 7, context);
+
+      expect(
+        applyQuerySuggestion('tls pri', suggestions, suggestions.suggestions[0])
+      ).toEqual({ query: 'tls priority:', cursor: 13 });
+    });
+  });
+});
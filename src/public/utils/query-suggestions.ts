@@ -0,0 +1,135 @@
+import {
+  TODO_QUERY_FIELDS,
+  TodoQueryField,
+  getQueryFieldDefinition,
+} from "../../common/query";
+import { WorkflowStatus } from "../../common/types";
+
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  // Text that replaces the term at the cursor
+  text: string;
+}
+
+export interface QuerySuggestionContext {
+  statuses: WorkflowStatus[];
+  // Known values of fields without a fixed list, e.g. assignees
+  values?: Partial<Record<TodoQueryField, string[]>>;
+}
+
+export interface QuerySuggestions {
+  suggestions: QuerySuggestion[];
+  // Range of the query text the chosen suggestion replaces
+  from: number;
+  to: number;
+}
+
+const MAX_SUGGESTIONS = 10;
+
+const DATE_PRESETS: QuerySuggestion[] = [
+  { label: "<now", description: "Before now", text: "<now" },
+  { label: "<now+7d", description: "Within the next week", text: "<now+7d" },
+  { label: ">now-7d", description: "In the last week", text: ">now-7d" },
+  { label: ">now-30d", description: "In the last 30 days", text: ">now-30d" },
+];
+
+const quote = (value: string) => (/[\s,:]/.test(value) ? `"${value}"` : value);
+
+const startsWith = (value: string, prefix: string) =>
+  value.toLowerCase().startsWith(prefix.toLowerCase());
+
+/**
+ * Field names or values that complete the term at the cursor
+ * There are no suggestions while a quote is open.
+ */
+export const getQuerySuggestions = (
+  query: string,
+  cursor: number,
+  context: QuerySuggestionContext
+): QuerySuggestions => {
+  const before = query.slice(0, cursor);
+  const from = before.search(/\S*$/);
+  const to = cursor + query.slice(cursor).search(/\s|$/);
+  const term = query.slice(from, cursor);
+  const none = { suggestions: [], from, to };
+
+  if ((before.match(/"/g) || []).length % 2 === 1) {
+    return none;
+  }
+
+  const negation = term.startsWith("-") ? "-" : "";
+  const separator = term.indexOf(":");
+
+  if (separator < 0) {
+    const prefix = term.slice(negation.length);
+    const suggestions = TODO_QUERY_FIELDS.filter(({ name }) =>
+      startsWith(name, prefix)
+    ).map(({ name, description }) => ({
+      label: `${name}:`,
+      description,
+      text: `${negation}${name}:`,
+    }));
+    return { suggestions, from, to };
+  }
+
+  const name = term.slice(negation.length, separator);
+  const definition = getQueryFieldDefinition(name);
+  if (!definition) {
+    return none;
+  }
+
+  const head = term.slice(0, separator + 1);
+  const valueText = term.slice(separator + 1);
+
+  if (definition.kind === "date") {
+    const suggestions = DATE_PRESETS.filter(({ text }) =>
+      startsWith(text, valueText)
+    ).map((preset) => ({ ...preset, text: `${head}${preset.text} ` }));
+    return { suggestions, from, to };
+  }
+  if (definition.kind === "number") {
+    return none;
+  }
+
+  // Complete the last of several values separated by commas
+  const lastComma = valueText.lastIndexOf(",");
+  const chosen = valueText.slice(0, lastComma + 1);
+  const prefix = valueText.slice(lastComma + 1).replace(/"/g, "");
+  const values: Array<{ value: string; label?: string }> =
+    definition.field === "status"
+      ? context.statuses.map(({ id, label }) => ({ value: id, label }))
+      : (definition.values || context.values?.[definition.field] || []).map(
+          (value) => ({ value })
+        );
+
+  const suggestions = values
+    .filter(
+      ({ value, label }) =>
+        (startsWith(value, prefix) || (!!label && startsWith(label, prefix))) &&
+        !chosen.split(",").includes(quote(value))
+    )
+    .map(({ value, label }) => ({
+      label: value,
+      description: label,
+      text: `${head}${chosen}${quote(value)} `,
+    }));
+  return { suggestions: suggestions.slice(0, MAX_SUGGESTIONS), from, to };
+};
+
+/**
+ * The query with a suggestion applied, and the cursor position after it
+ */
+export const applyQuerySuggestion = (
+  query: string,
+  { from, to }: QuerySuggestions,
+  suggestion: QuerySuggestion
+): { query: string; cursor: number } => {
+  const before = query.slice(0, from) + suggestion.text;
+  const after = query.slice(to);
+  return {
+    // Completed values end with a space, keep only one before the next term
+    query: before + (before.endsWith(" ") ? after.trimStart() : after),
+    cursor: before.length,
+  };
+};
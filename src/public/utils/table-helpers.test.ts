@@ -2,7 +2,12 @@
  * Tests for Table Helper Functions
  * Run with: yarn test
  */
-import { formatId, formatDate, getAssigneeInitials } from './table-helpers';
+import {
+  formatId,
+  formatDate,
+  formatUser,
+  getAssigneeInitials,
+} from './table-helpers';
 
 describe('Table Helpers', () => {
   describe('formatId', () => {
@@ -84,5 +89,21 @@ describe('Table Helpers', () => {
       expect(getAssigneeInitials('John  Doe')).toBe('JD');
     });
   });
+
+  describe('formatUser', () => {
+    const users = [{ id: 'alice', displayName: 'Alice Johnson' }];
+
+    it('should show the display name of directory users', () => {
+      expect(formatUser(users, 'alice')).toBe('Alice Johnson');
+    });
+
+    it('should fall back to the username', () => {
+      expect(formatUser(users, 'bob')).toBe('bob');
+    });
+
+    it('should return dash without a user', () => {
+      expect(formatUser(users, undefined)).toBe('-');
+    });
+  });
 });
 
@@ -1,3 +1,5 @@
+import { TodoUser } from "../../common/types";
+
 /**
  * Format a TODO ID for display
  * @param id - The full UUID
@@ -38,3 +40,14 @@ export const getAssigneeInitials = (name?: string): string => {
     .toUpperCase()
     .slice(0, 2);
 };
+
+/**
+ * Display name of a user for table and detail display
+ * @param users - Users of the directory
+ * @param id - Username, e.g. of the creator of an item
+ * @returns The display name, or the username of users outside the directory
+ */
+export const formatUser = (users: TodoUser[], id?: string): string => {
+  if (!id) return "-";
+  return users.find((user) => user.id === id)?.displayName || id;
+};
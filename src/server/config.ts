@@ -0,0 +1,41 @@
+import { schema, TypeOf } from "@osd/config-schema";
+import { TodoRole } from "../common/types";
+
+const rolesSchema = (defaultValue: string[]) =>
+  schema.arrayOf(schema.string(), { defaultValue });
+
+/**
+ * Settings under `custom_plugin` in opensearch_dashboards.yml
+ */
+export const configSchema = schema.object({
+  // OpenSearch Security roles or backend roles of each plugin role
+  permissions: schema.object({
+    adminRoles: rolesSchema(["all_access"]),
+    editorRoles: rolesSchema([]),
+    // Added to opensearch_security.readonly_mode.roles
+    readOnlyRoles: rolesSchema([]),
+    // Role of users without any of the roles above
+    defaultRole: schema.oneOf(
+      [
+        schema.literal(TodoRole.VIEWER),
+        schema.literal(TodoRole.EDITOR),
+        schema.literal(TodoRole.ADMIN),
+      ],
+      { defaultValue: TodoRole.EDITOR }
+    ),
+  }),
+  users: schema.object({
+    // Listed when the internal users of the security plugin cannot be read,
+    // e.g. without security or for users of an external identity provider
+    fallback: schema.arrayOf(
+      schema.object({
+        id: schema.string({ minLength: 1 }),
+        displayName: schema.string({ minLength: 1 }),
+        email: schema.maybe(schema.string()),
+      }),
+      { defaultValue: [] }
+    ),
+  }),
+});
+
+export type TodoPluginConfigType = TypeOf<typeof configSchema>;
@@ -1,5 +1,9 @@
-import { PluginInitializerContext } from '../../../src/core/server';
+import {
+  PluginConfigDescriptor,
+  PluginInitializerContext,
+} from '../../../src/core/server';
 import { CustomPluginPlugin } from './plugin';
+import { configSchema, TodoPluginConfigType } from './config';
 
 // This exports static code and TypeScript types,
 // as well as, OpenSearch Dashboards Platform `plugin()` initializer.
@@ -8,4 +12,8 @@ export function plugin(initializerContext: PluginInitializerContext) {
   return new CustomPluginPlugin(initializerContext);
 }
 
+export const config: PluginConfigDescriptor<TodoPluginConfigType> = {
+  schema: configSchema,
+};
+
 export { CustomPluginPluginSetup, CustomPluginPluginStart } from './types';
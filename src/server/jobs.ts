@@ -0,0 +1,85 @@
+import { JobDefinition } from "./services/job.service";
+import { TodoService } from "./services/todo.service";
+import { WebhookService } from "./services/webhook.service";
+import { IngestionService } from "./services/ingestion.service";
+import { RetentionService } from "./services/retention.service";
+import {
+  RECURRENCE_CHECK_INTERVAL_MS,
+  WEBHOOK_RETRY_INTERVAL_MS,
+  INGESTION_INTERVAL_MS,
+  AUTOMATION_INTERVAL_MS,
+  RETENTION_INTERVAL_MS,
+} from "../common/constants";
+
+/**
+ * Registry of the background jobs of the plugin
+ * Ids are the documents of the job state; renaming a job starts it over.
+ */
+export const BACKGROUND_JOBS: JobDefinition[] = [
+  {
+    id: "recurrence",
+    description:
+      "Create the next occurrence of recurring items whose period started",
+    intervalMs: RECURRENCE_CHECK_INTERVAL_MS,
+    runOnStart: true,
+    run: async (osService, logger) => {
+      const created = await new TodoService(
+        osService,
+        logger
+      ).generateDueOccurrences();
+      return `${created} occurrences created`;
+    },
+  },
+  {
+    id: "webhook-retries",
+    description: "Retry the webhook deliveries that failed",
+    intervalMs: WEBHOOK_RETRY_INTERVAL_MS,
+    run: async (osService, logger) => {
+      const sent = await new WebhookService(osService, logger).deliverDue();
+      return `${sent} deliveries retried`;
+    },
+  },
+  {
+    id: "alert-ingestion",
+    description: "Turn new Wazuh alerts into items",
+    intervalMs: INGESTION_INTERVAL_MS,
+    run: async (osService, logger) => {
+      const result = await new IngestionService(osService, logger).run();
+      if (!result) {
+        return "Alert ingestion is disabled";
+      }
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return (
+        `${result.alerts} alerts read, ${result.created} items created, ` +
+        `${result.repeated} repeats counted`
+      );
+    },
+  },
+  {
+    id: "due-date-automations",
+    description: "Run the automation rules of items past their due date",
+    intervalMs: AUTOMATION_INTERVAL_MS,
+    run: async (osService, logger) => {
+      const executions = await new TodoService(
+        osService,
+        logger
+      ).runDueDateAutomations();
+      return `${executions} rules run`;
+    },
+  },
+  {
+    id: "retention",
+    description:
+      "Archive completed items, purge archived ones and empty the trash",
+    intervalMs: RETENTION_INTERVAL_MS,
+    run: async (osService, logger) => {
+      const result = await new RetentionService(osService, logger).run();
+      return (
+        `${result.archived} items archived, ${result.purged} purged, ` +
+        `${result.trashPurged} purged from the trash, ${result.failed} failed`
+      );
+    },
+  },
+];
@@ -5,34 +5,98 @@ import {
   Plugin,
   Logger,
 } from "src/core/server";
+import { first } from "rxjs/operators";
 
-import { CustomPluginPluginSetup, CustomPluginPluginStart } from "./types";
+import {
+  CustomPluginPluginSetup,
+  CustomPluginPluginSetupDeps,
+  CustomPluginPluginStart,
+} from "./types";
 import { defineRoutes } from "./routes";
+import { OpenSearchService } from "./services/opensearch.service";
+import { MigrationService } from "./services/migration.service";
+import { JobService } from "./services/job.service";
+import { BACKGROUND_JOBS } from "./jobs";
+import { TodoPluginConfigType } from "./config";
+import { withSecurityReadOnlyRoles } from "./services/permission.service";
 
 export class CustomPluginPlugin
-  implements Plugin<CustomPluginPluginSetup, CustomPluginPluginStart>
+  implements
+    Plugin<
+      CustomPluginPluginSetup,
+      CustomPluginPluginStart,
+      CustomPluginPluginSetupDeps
+    >
 {
   private readonly logger: Logger;
+  private readonly initializerContext: PluginInitializerContext;
+  private jobService?: JobService;
+  private stopped = false;
 
   constructor(initializerContext: PluginInitializerContext) {
     this.logger = initializerContext.logger.get();
+    this.initializerContext = initializerContext;
   }
 
-  public setup(core: CoreSetup) {
+  public async setup(core: CoreSetup, deps: CustomPluginPluginSetupDeps) {
     this.logger.info("custom_plugin: Setup");
     const router = core.http.createRouter();
+    const config = await this.initializerContext.config
+      .create<TodoPluginConfigType>()
+      .pipe(first())
+      .toPromise();
+    // Users the security plugin keeps read-only are viewers here as well
+    const security = await deps.securityDashboards?.config$
+      .pipe(first())
+      .toPromise();
+    const permissions = withSecurityReadOnlyRoles(
+      config.permissions,
+      security?.readonly_mode?.roles
+    );
 
     // Register server side APIs
     // Pass getStartServices to access OpenSearch client later
-    defineRoutes(router, core, this.logger);
+    defineRoutes(router, core, this.logger, { ...config, permissions });
 
     return {};
   }
 
   public start(core: CoreStart) {
     this.logger.info("custom_plugin: Started");
+    // The jobs write through the aliases the migrations create and move
+    this.runMigrations(core).then(() => this.startJobs(core));
     return {};
   }
 
-  public stop() {}
+  public stop() {
+    this.stopped = true;
+    this.jobService?.stop();
+  }
+
+  /**
+   * Move the managed indices to the mapping versions of the registry
+   * Runs in the background; the older indices serve until they are migrated.
+   */
+  private runMigrations(core: CoreStart): Promise<void> {
+    const osService = new OpenSearchService(this.logger);
+    osService.setClient(core.opensearch.client.asInternalUser);
+
+    return new MigrationService(osService, this.logger)
+      .migrateAll()
+      .catch((error) => this.logger.error("Failed to migrate indices", error));
+  }
+
+  /**
+   * Run the background jobs of the registry with the internal user
+   */
+  private startJobs(core: CoreStart) {
+    if (this.stopped) {
+      return;
+    }
+    const osService = new OpenSearchService(this.logger);
+    osService.setClient(core.opensearch.client.asInternalUser);
+
+    this.jobService = new JobService(osService, this.logger, BACKGROUND_JOBS);
+    this.jobService.start();
+  }
 }
@@ -0,0 +1,322 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import {
+  AutomationService,
+  AutomationValidationError,
+} from "../services/automation.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import {
+  saveAutomationRuleSchema,
+  automationExecutionsSchema,
+  automationRuleIdParamSchema,
+} from "../../common/schemas/automation_schema";
+import { SaveAutomationRuleRequest, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * Automation service for a user allowed to manage the plugin, along with
+ * the name of that user
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ */
+async function createAutomationService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): Promise<{ automationService: AutomationService; username: string }> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(
+    resolvePermissions(user, config.permissions),
+    TodoPermission.MANAGE
+  );
+  return {
+    automationService: new AutomationService(osService, logger),
+    username: user.username,
+  };
+}
+
+export function registerAutomationRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Automation rules
+  // ============================================
+
+  // GET /api/custom_plugin/automation/rules - List the automation rules
+  router.get(
+    {
+      path: "/api/custom_plugin/automation/rules",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { automationService } = await createAutomationService(
+          context,
+          logger,
+          config
+        );
+        const rules = await automationService.listRules();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: rules,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing automation rules", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list automation rules",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/automation/rules - Create an automation rule
+  router.post(
+    {
+      path: "/api/custom_plugin/automation/rules",
+      validate: {
+        body: saveAutomationRuleSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { automationService, username } = await createAutomationService(
+          context,
+          logger,
+          config
+        );
+        const rule = await automationService.createRule(
+          request.body as SaveAutomationRuleRequest,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: rule,
+            message: "Automation rule created successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof AutomationValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error creating automation rule", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to create automation rule",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/automation/executions - Latest executions
+  router.get(
+    {
+      path: "/api/custom_plugin/automation/executions",
+      validate: {
+        query: automationExecutionsSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { automationService } = await createAutomationService(
+          context,
+          logger,
+          config
+        );
+        const executions = await automationService.listExecutions(
+          request.query.ruleId,
+          request.query.size
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: executions,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing automation executions", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list automation executions",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/automation/rules/{id} - Replace a rule
+  router.put(
+    {
+      path: "/api/custom_plugin/automation/rules/{id}",
+      validate: {
+        params: automationRuleIdParamSchema,
+        body: saveAutomationRuleSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { automationService } = await createAutomationService(
+          context,
+          logger,
+          config
+        );
+        const rule = await automationService.updateRule(
+          request.params.id,
+          request.body as SaveAutomationRuleRequest
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: rule,
+            message: "Automation rule updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof AutomationValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message?.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating automation rule", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update automation rule",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/automation/rules/{id} - Delete a rule
+  router.delete(
+    {
+      path: "/api/custom_plugin/automation/rules/{id}",
+      validate: {
+        params: automationRuleIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { automationService } = await createAutomationService(
+          context,
+          logger,
+          config
+        );
+        await automationService.deleteRule(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            message: "Automation rule deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message?.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting automation rule", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete automation rule",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
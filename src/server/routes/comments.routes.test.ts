@@ -0,0 +1,129 @@
+/**
+ * Tests for the comment routes - Who may comment, and on which items
+ */
+import { registerCommentRoutes } from './comments.routes';
+import { CommentService } from '../services/comment.service';
+import {
+  ProjectAccessError,
+  ProjectService,
+} from '../services/project.service';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+const PATH = '/api/custom_plugin/todos/{id}/comments';
+
+describe('comment routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerCommentRoutes(router, {} as any, mockLogger, mockConfig);
+  const viewer = createMockContext(['kibana_read_only']);
+
+  beforeEach(() => {
+    jest
+      .spyOn(ProjectService.prototype, 'resolveScope')
+      .mockResolvedValue({
+        projectIds: ['project-1'],
+        project: { id: 'project-1' } as any,
+      });
+    jest.spyOn(CommentService.prototype, 'listComments').mockResolvedValue([]);
+    jest.spyOn(CommentService.prototype, 'createComment');
+    jest.spyOn(CommentService.prototype, 'updateComment');
+    jest.spyOn(CommentService.prototype, 'deleteComment');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not let a viewer write comments', async () => {
+    const params = { id: 'todo-1', commentId: 'comment-1' };
+    const body = { body: 'Looks good' };
+
+    const results = [
+      await getHandler('POST', PATH)(
+        viewer,
+        { params, query: {}, body },
+        mockResponse
+      ),
+      await getHandler('PUT', `${PATH}/{commentId}`)(
+        viewer,
+        { params, query: {}, body },
+        mockResponse
+      ),
+      await getHandler('DELETE', `${PATH}/{commentId}`)(
+        viewer,
+        { params, query: {} },
+        mockResponse
+      ),
+    ];
+
+    expect(results.map(({ status }) => status)).toEqual([403, 403, 403]);
+    expect(CommentService.prototype.createComment).not.toHaveBeenCalled();
+    expect(CommentService.prototype.updateComment).not.toHaveBeenCalled();
+    expect(CommentService.prototype.deleteComment).not.toHaveBeenCalled();
+  });
+
+  // Editor whose request finds the item in the given project
+  const editorWithItem = (projectId: string) =>
+    createMockContext([], {
+      get: jest.fn().mockResolvedValue({
+        body: { _source: { id: 'todo-1', title: 'Rotate keys', projectId } },
+      }),
+    });
+
+  it('should list the comments of an item of the project', async () => {
+    const result = await getHandler('GET', PATH)(
+      editorWithItem('project-1'),
+      { params: { id: 'todo-1' }, query: { projectId: 'project-1' } },
+      mockResponse
+    );
+
+    expect(result.status).toBe(200);
+    expect(CommentService.prototype.listComments).toHaveBeenCalledWith(
+      'todo-1'
+    );
+  });
+
+  it('should hide the comments of items of other projects', async () => {
+    const request = {
+      params: { id: 'todo-1' },
+      query: {},
+      body: { body: 'Looks good' },
+    };
+
+    const listed = await getHandler('GET', PATH)(
+      editorWithItem('project-2'),
+      request,
+      mockResponse
+    );
+    const created = await getHandler('POST', PATH)(
+      editorWithItem('project-2'),
+      request,
+      mockResponse
+    );
+
+    expect(listed.status).toBe(404);
+    expect(created.status).toBe(404);
+    expect(CommentService.prototype.listComments).not.toHaveBeenCalled();
+    expect(CommentService.prototype.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should not let non-members reach the comments of a project', async () => {
+    (ProjectService.prototype.resolveScope as jest.Mock).mockRejectedValue(
+      new ProjectAccessError('project-2')
+    );
+
+    const result = await getHandler('GET', PATH)(
+      editorWithItem('project-2'),
+      { params: { id: 'todo-1' }, query: { projectId: 'project-2' } },
+      mockResponse
+    );
+
+    expect(result.status).toBe(403);
+    expect(CommentService.prototype.listComments).not.toHaveBeenCalled();
+  });
+});
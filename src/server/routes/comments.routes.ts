@@ -0,0 +1,348 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { TodoService } from "../services/todo.service";
+import { CommentService } from "../services/comment.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  ProjectService,
+  ProjectAccessError,
+} from "../services/project.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { idParamSchema } from "../../common/schemas/todo_schema";
+import {
+  createCommentSchema,
+  updateCommentSchema,
+  commentParamSchema,
+} from "../../common/schemas/comment_schema";
+import { projectScopeSchema } from "../../common/schemas/project_schema";
+import { TodoItem, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * TODO item whose comments are requested, for a user whose role has the
+ * given permission
+ * The item is looked up in the project of the `projectId` query parameter,
+ * so the comments of other projects stay out of reach.
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ * @throws ProjectAccessError when the user is not a member of the project
+ * @throws Error when the item is not found in the project
+ */
+async function loadTodo(
+  context: any,
+  request: any,
+  logger: Logger,
+  config: TodoPluginConfigType,
+  permission: TodoPermission
+): Promise<{
+  todo: TodoItem;
+  username: string;
+  commentService: CommentService;
+}> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(resolvePermissions(user, config.permissions), permission);
+  const scope = await new ProjectService(osService, logger).resolveScope(
+    request.query?.projectId,
+    user.username
+  );
+  const todo = await new TodoService(osService, logger, scope).getTodoById(
+    request.params.id
+  );
+  if (!todo) {
+    throw new Error(`TODO item not found: ${request.params.id}`);
+  }
+  return {
+    todo,
+    username: user.username,
+    commentService: new CommentService(osService, logger),
+  };
+}
+
+export function registerCommentRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  const authorize = (context: any, request: any, permission: TodoPermission) =>
+    loadTodo(context, request, logger, config, permission);
+
+  // ============================================
+  // Comments
+  // ============================================
+
+  // GET /api/custom_plugin/todos/{id}/comments - List comments of a TODO
+  router.get(
+    {
+      path: "/api/custom_plugin/todos/{id}/comments",
+      validate: {
+        params: idParamSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { todo, commentService } = await authorize(
+          context,
+          request,
+          TodoPermission.READ
+        );
+        const comments = await commentService.listComments(todo.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: comments,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof PermissionError ||
+          error instanceof ProjectAccessError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing comments", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list comments",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/{id}/comments - Add a comment
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/{id}/comments",
+      validate: {
+        params: idParamSchema,
+        body: createCommentSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { todo, username, commentService } = await authorize(
+          context,
+          request,
+          TodoPermission.CREATE
+        );
+        const comment = await commentService.createComment(
+          todo,
+          request.body,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: comment,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof PermissionError ||
+          error instanceof ProjectAccessError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("archived")) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error creating comment", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to create comment",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/todos/{id}/comments/{commentId} - Edit a comment
+  router.put(
+    {
+      path: "/api/custom_plugin/todos/{id}/comments/{commentId}",
+      validate: {
+        params: commentParamSchema,
+        body: updateCommentSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { todo, username, commentService } = await authorize(
+          context,
+          request,
+          TodoPermission.EDIT
+        );
+        const comment = await commentService.updateComment(
+          todo.id,
+          request.params.commentId,
+          request.body.body,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: comment,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof PermissionError ||
+          error instanceof ProjectAccessError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("Only the author")) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating comment", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update comment",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/todos/{id}/comments/{commentId} - Delete a comment and its replies
+  router.delete(
+    {
+      path: "/api/custom_plugin/todos/{id}/comments/{commentId}",
+      validate: {
+        params: commentParamSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { todo, username, commentService } = await authorize(
+          context,
+          request,
+          TodoPermission.DELETE
+        );
+        const result = await commentService.deleteComment(
+          todo.id,
+          request.params.commentId,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: result,
+            message: "Comment deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof PermissionError ||
+          error instanceof ProjectAccessError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("Only the author")) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting comment", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete comment",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
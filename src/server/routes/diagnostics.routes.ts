@@ -0,0 +1,66 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { OpenSearchService } from "../services/opensearch.service";
+import { MigrationService } from "../services/migration.service";
+import { PluginDiagnostics } from "../../common/types";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    osService,
+    migrationService: new MigrationService(osService, logger),
+  };
+}
+
+export function registerDiagnosticsRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger
+) {
+  // ============================================
+  // Storage diagnostics
+  // ============================================
+
+  // GET /api/custom_plugin/diagnostics - Cluster health and the mapping
+  // version and migration status of every managed index
+  router.get(
+    {
+      path: "/api/custom_plugin/diagnostics",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { osService, migrationService } = createServices(
+          context,
+          logger
+        );
+        const [health, indices] = await Promise.all([
+          osService.getIndexHealth(),
+          migrationService.getStatus(),
+        ]);
+        const diagnostics: PluginDiagnostics = {
+          clusterStatus: health.status,
+          indices,
+        };
+
+        return response.ok({
+          body: {
+            success: true,
+            data: diagnostics,
+          },
+        });
+      } catch (error) {
+        logger.error("Error getting diagnostics", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get diagnostics",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for the history routes - Whose history may be read
+ */
+import { registerHistoryRoutes } from './history.routes';
+import { HistoryService } from '../services/history.service';
+import { ProjectService } from '../services/project.service';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+const PATH = '/api/custom_plugin/todos/{id}/history';
+
+describe('history routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerHistoryRoutes(router, {} as any, mockLogger, mockConfig);
+
+  const getHistory = (item: Record<string, unknown>) =>
+    getHandler('GET', PATH)(
+      createMockContext(['kibana_read_only'], {
+        get: jest.fn().mockResolvedValue({
+          body: { _source: { id: 'todo-1', ...item } },
+        }),
+      }),
+      { params: { id: 'todo-1' }, query: {} },
+      mockResponse
+    );
+
+  beforeEach(() => {
+    jest
+      .spyOn(ProjectService.prototype, 'resolveScope')
+      .mockResolvedValue({
+        projectIds: ['project-1'],
+        project: { id: 'project-1' } as any,
+      });
+    jest.spyOn(HistoryService.prototype, 'getHistory').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read the history of items of the project and trash', async () => {
+    const inUse = await getHistory({ projectId: 'project-1' });
+    const deleted = await getHistory({
+      projectId: 'project-1',
+      deletedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(inUse.status).toBe(200);
+    expect(deleted.status).toBe(200);
+    expect(HistoryService.prototype.getHistory).toHaveBeenCalledWith('todo-1');
+  });
+
+  it('should hide the history of items of other projects', async () => {
+    const result = await getHistory({ projectId: 'project-2' });
+
+    expect(result.status).toBe(404);
+    expect(HistoryService.prototype.getHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { HistoryService } from "../services/history.service";
+import { TodoService } from "../services/todo.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  ProjectService,
+  ProjectAccessError,
+} from "../services/project.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { idParamSchema } from "../../common/schemas/todo_schema";
+import { projectScopeSchema } from "../../common/schemas/project_schema";
+import { TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    osService,
+    historyService: new HistoryService(osService, logger),
+    projectService: new ProjectService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerHistoryRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // History
+  // ============================================
+
+  // GET /api/custom_plugin/todos/{id}/history - Field-level history of a TODO
+  // Items of the trash keep their history; the item is looked up in the
+  // project of the request, so the history of other projects stays hidden
+  router.get(
+    {
+      path: "/api/custom_plugin/todos/{id}/history",
+      validate: {
+        params: idParamSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { osService, historyService, projectService, authService } =
+          createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        assertPermission(
+          resolvePermissions(user, config.permissions),
+          TodoPermission.READ
+        );
+        const scope = await projectService.resolveScope(
+          request.query.projectId,
+          user.username
+        );
+        const todo = await new TodoService(osService, logger, scope)
+          .getTodoById(request.params.id, "all");
+        if (!todo) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: `TODO item not found: ${request.params.id}`,
+            },
+          });
+        }
+
+        const history = await historyService.getHistory(todo.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: history,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof PermissionError ||
+          error instanceof ProjectAccessError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error getting TODO history", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get TODO history",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
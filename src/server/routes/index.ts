@@ -1,14 +1,76 @@
 import { IRouter, Logger, CoreSetup } from "src/core/server";
+import { TodoPluginConfigType } from "../config";
 import { registerTodoRoutes } from "./todos.routes";
+import { registerCommentRoutes } from "./comments.routes";
+import { registerHistoryRoutes } from "./history.routes";
+import { registerWorkflowRoutes } from "./workflow.routes";
+import { registerTemplateRoutes } from "./templates.routes";
+import { registerSlaRoutes } from "./sla.routes";
+import { registerViewRoutes } from "./views.routes";
+import { registerProjectRoutes } from "./projects.routes";
+import { registerDiagnosticsRoutes } from "./diagnostics.routes";
+import { registerPermissionRoutes } from "./permissions.routes";
+import { registerUserRoutes } from "./users.routes";
+import { registerWebhookRoutes } from "./webhooks.routes";
+import { registerIngestionRoutes } from "./ingestion.routes";
+import { registerAutomationRoutes } from "./automation.routes";
+import { registerJobRoutes } from "./jobs.routes";
+import { registerRetentionRoutes } from "./retention.routes";
 
 export function defineRoutes(
   router: IRouter, 
   core: CoreSetup,
-  logger: Logger
+  logger: Logger,
+  config: TodoPluginConfigType
 ) {
   try {
     // Register TODO routes
-    registerTodoRoutes(router, core, logger);
+    registerTodoRoutes(router, core, logger, config);
+
+    // Register comment routes
+    registerCommentRoutes(router, core, logger, config);
+
+    // Register history routes
+    registerHistoryRoutes(router, core, logger, config);
+
+    // Register workflow routes
+    registerWorkflowRoutes(router, core, logger, config);
+
+    // Register template routes
+    registerTemplateRoutes(router, core, logger, config);
+
+    // Register SLA routes
+    registerSlaRoutes(router, core, logger, config);
+
+    // Register saved view routes
+    registerViewRoutes(router, core, logger);
+
+    // Register project routes
+    registerProjectRoutes(router, core, logger, config);
+
+    // Register permission routes
+    registerPermissionRoutes(router, core, logger, config);
+
+    // Register user directory routes
+    registerUserRoutes(router, core, logger, config);
+
+    // Register webhook routes
+    registerWebhookRoutes(router, core, logger, config);
+
+    // Register alert ingestion routes
+    registerIngestionRoutes(router, core, logger, config);
+
+    // Register automation rule routes
+    registerAutomationRoutes(router, core, logger, config);
+
+    // Register background job routes
+    registerJobRoutes(router, core, logger, config);
+
+    // Register retention routes
+    registerRetentionRoutes(router, core, logger, config);
+
+    // Register diagnostics routes
+    registerDiagnosticsRoutes(router, core, logger);
 
     logger.info("Routes registered successfully");
   } catch (error) {
@@ -0,0 +1,246 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import {
+  IngestionService,
+  IngestionValidationError,
+} from "../services/ingestion.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { ingestionPolicySchema } from "../../common/schemas/ingestion_schema";
+import { IngestionPolicy, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * Ingestion service for a user allowed to manage the plugin, along with
+ * the name of that user
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ */
+async function createIngestionService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): Promise<{ ingestionService: IngestionService; username: string }> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(
+    resolvePermissions(user, config.permissions),
+    TodoPermission.MANAGE
+  );
+  return {
+    ingestionService: new IngestionService(osService, logger),
+    username: user.username,
+  };
+}
+
+export function registerIngestionRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Alert ingestion
+  // ============================================
+
+  // GET /api/custom_plugin/ingestion - Get the ingestion policy
+  router.get(
+    {
+      path: "/api/custom_plugin/ingestion",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { ingestionService } = await createIngestionService(
+          context,
+          logger,
+          config
+        );
+        const policy = await ingestionService.getPolicy();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error fetching ingestion policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to fetch ingestion policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/ingestion - Replace the ingestion policy
+  router.put(
+    {
+      path: "/api/custom_plugin/ingestion",
+      validate: {
+        body: ingestionPolicySchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { ingestionService, username } = await createIngestionService(
+          context,
+          logger,
+          config
+        );
+        const policy = await ingestionService.updatePolicy(
+          request.body as IngestionPolicy,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+            message: "Ingestion policy updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof IngestionValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating ingestion policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update ingestion policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/ingestion/status - Checkpoint and last run
+  router.get(
+    {
+      path: "/api/custom_plugin/ingestion/status",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { ingestionService } = await createIngestionService(
+          context,
+          logger,
+          config
+        );
+        const status = await ingestionService.getStatus();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: status,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error fetching ingestion status", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to fetch ingestion status",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/ingestion/run - Ingest new alerts right away
+  router.post(
+    {
+      path: "/api/custom_plugin/ingestion/run",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { ingestionService } = await createIngestionService(
+          context,
+          logger,
+          config
+        );
+        const result = await ingestionService.run();
+
+        if (!result) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: "Alert ingestion is disabled",
+            },
+          });
+        }
+
+        return response.ok({
+          body: {
+            success: true,
+            data: result,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error running alert ingestion", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to run alert ingestion",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,84 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { AuthService } from "../services/auth.service";
+import { JobService } from "../services/job.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { BACKGROUND_JOBS } from "../jobs";
+import { TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * Job service for a user allowed to manage the plugin
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ */
+async function createJobService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): Promise<JobService> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(
+    resolvePermissions(user, config.permissions),
+    TodoPermission.MANAGE
+  );
+  return new JobService(osService, logger, BACKGROUND_JOBS);
+}
+
+export function registerJobRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Background jobs
+  // ============================================
+
+  // GET /api/custom_plugin/jobs - Every background job with its last run,
+  // next run and failures
+  router.get(
+    {
+      path: "/api/custom_plugin/jobs",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const jobService = await createJobService(context, logger, config);
+        const jobs = await jobService.listJobs();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: jobs,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing background jobs", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list background jobs",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
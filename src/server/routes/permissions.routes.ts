@@ -0,0 +1,53 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import { resolvePermissions } from "../services/permission.service";
+import { TodoPluginConfigType } from "../config";
+
+function createAuthService(context: any, logger: Logger): AuthService {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return new AuthService(osService, logger);
+}
+
+export function registerPermissionRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Current user
+  // ============================================
+
+  // GET /api/custom_plugin/me/permissions - Role and permissions of the user
+  router.get(
+    {
+      path: "/api/custom_plugin/me/permissions",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const user = await createAuthService(context, logger).getCurrentUser();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: resolvePermissions(user, config.permissions),
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error resolving permissions", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to resolve permissions",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Tests for the project routes - Who may change projects
+ */
+import { registerProjectRoutes } from './projects.routes';
+import { ProjectService } from '../services/project.service';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+const PATH = '/api/custom_plugin/projects';
+
+describe('project routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerProjectRoutes(router, {} as any, mockLogger, mockConfig);
+  const project = { key: 'PCI', name: 'PCI audit', members: ['alice'] };
+
+  beforeEach(() => {
+    jest
+      .spyOn(ProjectService.prototype, 'createProject')
+      .mockResolvedValue(project as any);
+    jest
+      .spyOn(ProjectService.prototype, 'updateProject')
+      .mockResolvedValue(project as any);
+    jest.spyOn(ProjectService.prototype, 'deleteProject').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not let a viewer change projects', async () => {
+    const viewer = createMockContext(['kibana_read_only']);
+    const params = { id: 'project-1' };
+
+    const results = [
+      await getHandler('POST', PATH)(viewer, { body: project }, mockResponse),
+      await getHandler('PUT', `${PATH}/{id}`)(
+        viewer,
+        { params, body: project },
+        mockResponse
+      ),
+      await getHandler('DELETE', `${PATH}/{id}`)(
+        viewer,
+        { params },
+        mockResponse
+      ),
+    ];
+
+    expect(results.map(({ status }) => status)).toEqual([403, 403, 403]);
+    expect(ProjectService.prototype.createProject).not.toHaveBeenCalled();
+    expect(ProjectService.prototype.updateProject).not.toHaveBeenCalled();
+    expect(ProjectService.prototype.deleteProject).not.toHaveBeenCalled();
+  });
+
+  it('should leave projects to admins', async () => {
+    const create = (roles: string[]) =>
+      getHandler('POST', PATH)(
+        createMockContext(roles),
+        { body: project },
+        mockResponse
+      );
+
+    expect((await create([])).status).toBe(403);
+    expect((await create(['all_access'])).status).toBe(200);
+  });
+});
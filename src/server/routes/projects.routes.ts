@@ -0,0 +1,262 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import {
+  ProjectService,
+  ProjectAccessError,
+  ProjectValidationError,
+} from "../services/project.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import {
+  saveProjectSchema,
+  projectIdParamSchema,
+} from "../../common/schemas/project_schema";
+import { SaveProjectRequest, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    projectService: new ProjectService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerProjectRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  /**
+   * @throws PermissionError when the role of the user lacks the permission
+   */
+  const authorize = async (
+    authService: AuthService,
+    permission: TodoPermission
+  ) => {
+    const user = await authService.getCurrentUser();
+    assertPermission(resolvePermissions(user, config.permissions), permission);
+    return user;
+  };
+
+  // ============================================
+  // Projects
+  // ============================================
+
+  // GET /api/custom_plugin/projects - List the projects of the current user
+  router.get(
+    {
+      path: "/api/custom_plugin/projects",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { projectService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authService.getCurrentUser();
+        const projects = await projectService.listProjects(user.username);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: projects,
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error listing projects", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list projects",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/projects - Create a project
+  router.post(
+    {
+      path: "/api/custom_plugin/projects",
+      validate: {
+        body: saveProjectSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { projectService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authorize(authService, TodoPermission.MANAGE);
+        const project = await projectService.createProject(
+          request.body as SaveProjectRequest,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: project,
+            message: "Project created successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof ProjectValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error creating project", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to create project",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/projects/{id} - Replace the settings of a project
+  router.put(
+    {
+      path: "/api/custom_plugin/projects/{id}",
+      validate: {
+        params: projectIdParamSchema,
+        body: saveProjectSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { projectService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authorize(authService, TodoPermission.MANAGE);
+        const project = await projectService.updateProject(
+          request.params.id,
+          request.body as SaveProjectRequest,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: project,
+            message: "Project updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof ProjectValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating project", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update project",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/projects/{id} - Delete an empty project
+  router.delete(
+    {
+      path: "/api/custom_plugin/projects/{id}",
+      validate: {
+        params: projectIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { projectService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authorize(authService, TodoPermission.MANAGE);
+        await projectService.deleteProject(request.params.id, user.username);
+
+        return response.ok({
+          body: {
+            success: true,
+            message: "Project deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof ProjectValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting project", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete project",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,236 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { RetentionService } from "../services/retention.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import {
+  retentionPolicySchema,
+  retentionPurgesSchema,
+} from "../../common/schemas/retention_schema";
+import { RetentionPolicy, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * Retention service for a user allowed to manage the plugin, along with
+ * the name of that user
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ */
+async function createRetentionService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): Promise<{ retentionService: RetentionService; username: string }> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(
+    resolvePermissions(user, config.permissions),
+    TodoPermission.MANAGE
+  );
+  return {
+    retentionService: new RetentionService(osService, logger),
+    username: user.username,
+  };
+}
+
+export function registerRetentionRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Retention
+  // ============================================
+
+  // GET /api/custom_plugin/retention - Get the retention policy
+  router.get(
+    {
+      path: "/api/custom_plugin/retention",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { retentionService } = await createRetentionService(
+          context,
+          logger,
+          config
+        );
+        const policy = await retentionService.getPolicy();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error fetching retention policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to fetch retention policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/retention - Replace the retention policy
+  router.put(
+    {
+      path: "/api/custom_plugin/retention",
+      validate: {
+        body: retentionPolicySchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { retentionService, username } = await createRetentionService(
+          context,
+          logger,
+          config
+        );
+        const policy = await retentionService.updatePolicy(
+          request.body as RetentionPolicy,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+            message: "Retention policy updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating retention policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update retention policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/retention/preview - Items a policy would
+  // archive and purge, without changing any
+  router.post(
+    {
+      path: "/api/custom_plugin/retention/preview",
+      validate: {
+        body: retentionPolicySchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { retentionService } = await createRetentionService(
+          context,
+          logger,
+          config
+        );
+        const preview = await retentionService.preview(
+          request.body as RetentionPolicy
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: preview,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error previewing retention policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to preview retention policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/retention/purges - Latest purges
+  router.get(
+    {
+      path: "/api/custom_plugin/retention/purges",
+      validate: {
+        query: retentionPurgesSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { retentionService } = await createRetentionService(
+          context,
+          logger,
+          config
+        );
+        const purges = await retentionService.listPurges(request.query.size);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: purges,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing purges", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list purges",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
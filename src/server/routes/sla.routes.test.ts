@@ -0,0 +1,47 @@
+/**
+ * Tests for the SLA routes - Who may change the SLA policy
+ */
+import { registerSlaRoutes } from './sla.routes';
+import { SlaService } from '../services/sla.service';
+import { DEFAULT_SLA_POLICY } from '../../common/sla';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+describe('SLA routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerSlaRoutes(router, {} as any, mockLogger, mockConfig);
+
+  beforeEach(() => {
+    jest
+      .spyOn(SlaService.prototype, 'updatePolicy')
+      .mockResolvedValue(DEFAULT_SLA_POLICY);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const putPolicy = (roles: string[]) =>
+    getHandler('PUT', '/api/custom_plugin/sla')(
+      createMockContext(roles),
+      { body: DEFAULT_SLA_POLICY },
+      mockResponse
+    );
+
+  it('should not let a viewer change the SLA policy', async () => {
+    const result = await putPolicy(['kibana_read_only']);
+
+    expect(result.status).toBe(403);
+    expect(SlaService.prototype.updatePolicy).not.toHaveBeenCalled();
+  });
+
+  it('should leave the SLA policy to admins', async () => {
+    expect((await putPolicy([])).status).toBe(403);
+    expect((await putPolicy(['all_access'])).status).toBe(200);
+  });
+});
@@ -0,0 +1,128 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import {
+  SlaService,
+  SlaValidationError,
+} from "../services/sla.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { slaPolicySchema } from "../../common/schemas/sla_schema";
+import { SlaPolicy, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    slaService: new SlaService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerSlaRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // SLA policy
+  // ============================================
+
+  // GET /api/custom_plugin/sla - Get the SLA targets per priority
+  router.get(
+    {
+      path: "/api/custom_plugin/sla",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { slaService } = createServices(context, logger);
+        const policy = await slaService.getPolicy();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+          },
+        });
+      } catch (error) {
+        logger.error("Error getting SLA policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get SLA policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/sla - Replace the SLA policy
+  router.put(
+    {
+      path: "/api/custom_plugin/sla",
+      validate: {
+        body: slaPolicySchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { slaService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authService.getCurrentUser();
+        assertPermission(
+          resolvePermissions(user, config.permissions),
+          TodoPermission.MANAGE
+        );
+        const policy = await slaService.updatePolicy(
+          request.body as SlaPolicy,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: policy,
+            message: "SLA policy updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof SlaValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating SLA policy", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update SLA policy",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for the template routes - Who may change templates
+ */
+import { registerTemplateRoutes } from './templates.routes';
+import { TemplateService } from '../services/template.service';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+const PATH = '/api/custom_plugin/templates';
+
+describe('template routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerTemplateRoutes(router, {} as any, mockLogger, mockConfig);
+  const viewer = createMockContext(['kibana_read_only']);
+  const template = { name: 'Audit', tasks: [{ title: 'Collect evidence' }] };
+
+  beforeEach(() => {
+    jest
+      .spyOn(TemplateService.prototype, 'createTemplate')
+      .mockResolvedValue(template as any);
+    jest
+      .spyOn(TemplateService.prototype, 'updateTemplate')
+      .mockResolvedValue(template as any);
+    jest.spyOn(TemplateService.prototype, 'deleteTemplate').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not let a viewer create a template', async () => {
+    const result = await getHandler('POST', PATH)(
+      viewer,
+      { body: template },
+      mockResponse
+    );
+
+    expect(result.status).toBe(403);
+    expect(TemplateService.prototype.createTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should not let a viewer edit or delete a template', async () => {
+    const params = { id: 'custom-1' };
+
+    const updated = await getHandler('PUT', `${PATH}/{id}`)(
+      viewer,
+      { params, body: template },
+      mockResponse
+    );
+    const deleted = await getHandler('DELETE', `${PATH}/{id}`)(
+      viewer,
+      { params },
+      mockResponse
+    );
+
+    expect(updated.status).toBe(403);
+    expect(deleted.status).toBe(403);
+    expect(TemplateService.prototype.updateTemplate).not.toHaveBeenCalled();
+    expect(TemplateService.prototype.deleteTemplate).not.toHaveBeenCalled();
+  });
+
+  it('should let an editor create a template', async () => {
+    const result = await getHandler('POST', PATH)(
+      createMockContext([]),
+      { body: template },
+      mockResponse
+    );
+
+    expect(result.status).toBe(200);
+  });
+});
@@ -0,0 +1,387 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { TodoService } from "../services/todo.service";
+import {
+  TemplateService,
+  TemplateValidationError,
+} from "../services/template.service";
+import { WorkflowValidationError } from "../services/workflow.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import { AuthService } from "../services/auth.service";
+import {
+  ProjectService,
+  ProjectAccessError,
+} from "../services/project.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { TodoPluginConfigType } from "../config";
+import {
+  saveTemplateSchema,
+  instantiateTemplateSchema,
+  templateIdParamSchema,
+} from "../../common/schemas/template_schema";
+import { projectScopeSchema } from "../../common/schemas/project_schema";
+import {
+  SaveTemplateRequest,
+  InstantiateTemplateRequest,
+  TodoPermission,
+} from "../../common/types";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    osService,
+    templateService: new TemplateService(osService, logger),
+    projectService: new ProjectService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerTemplateRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  /**
+   * @throws PermissionError when the role of the user lacks the permission
+   */
+  const authorize = async (
+    authService: AuthService,
+    permission: TodoPermission
+  ) => {
+    const user = await authService.getCurrentUser();
+    assertPermission(resolvePermissions(user, config.permissions), permission);
+    return user;
+  };
+
+  // ============================================
+  // Templates
+  // ============================================
+
+  // GET /api/custom_plugin/templates - List built-in and custom templates
+  router.get(
+    {
+      path: "/api/custom_plugin/templates",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { templateService } = createServices(context, logger);
+        const templates = await templateService.listTemplates();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: templates,
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error listing templates", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list templates",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/templates/{id} - Get a template
+  router.get(
+    {
+      path: "/api/custom_plugin/templates/{id}",
+      validate: {
+        params: templateIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { templateService } = createServices(context, logger);
+        const template = await templateService.getTemplate(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: template,
+          },
+        });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error getting template", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get template",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/templates - Create a custom template
+  router.post(
+    {
+      path: "/api/custom_plugin/templates",
+      validate: {
+        body: saveTemplateSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { templateService, authService } = createServices(
+          context,
+          logger
+        );
+        await authorize(authService, TodoPermission.CREATE);
+        const template = await templateService.createTemplate(
+          request.body as SaveTemplateRequest
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: template,
+            message: "Template created successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error creating template", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to create template",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/templates/{id} - Replace a custom template
+  router.put(
+    {
+      path: "/api/custom_plugin/templates/{id}",
+      validate: {
+        params: templateIdParamSchema,
+        body: saveTemplateSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { templateService, authService } = createServices(
+          context,
+          logger
+        );
+        await authorize(authService, TodoPermission.EDIT);
+        const template = await templateService.updateTemplate(
+          request.params.id,
+          request.body as SaveTemplateRequest
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: template,
+            message: "Template updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof TemplateValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating template", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update template",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/templates/{id} - Delete a custom template
+  router.delete(
+    {
+      path: "/api/custom_plugin/templates/{id}",
+      validate: {
+        params: templateIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { templateService, authService } = createServices(
+          context,
+          logger
+        );
+        await authorize(authService, TodoPermission.DELETE);
+        await templateService.deleteTemplate(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            message: "Template deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof TemplateValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting template", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete template",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/templates/{id}/instantiate - Create its tasks
+  router.post(
+    {
+      path: "/api/custom_plugin/templates/{id}/instantiate",
+      validate: {
+        params: templateIdParamSchema,
+        body: instantiateTemplateSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { osService, templateService, projectService, authService } =
+          createServices(context, logger);
+        const user = await authorize(authService, TodoPermission.CREATE);
+        // The tasks are created in the project of the board
+        const scope = await projectService.resolveScope(
+          request.query.projectId,
+          user.username
+        );
+        const todoService = new TodoService(osService, logger, scope);
+        const template = await templateService.getTemplate(request.params.id);
+        const result = await todoService.instantiateTemplate(
+          template,
+          request.body as InstantiateTemplateRequest
+        );
+
+        return response.ok({
+          body: {
+            success: result.failed === 0,
+            data: result,
+            message: `Created ${result.processed} TODO items`,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof WorkflowValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error instantiating template", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to instantiate template",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
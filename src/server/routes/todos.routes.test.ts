@@ -0,0 +1,94 @@
+/**
+ * Tests for the TODO routes - Who may import items, deleting changed items
+ */
+import { registerTodoRoutes } from './todos.routes';
+import { TodoService, TodoConflictError } from '../services/todo.service';
+import { ProjectService } from '../services/project.service';
+import { ROLE_PERMISSIONS } from '../../common/permissions';
+import { TodoPermission, TodoRole } from '../../common/types';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+const PATH = '/api/custom_plugin/todos/import';
+
+describe('todo routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerTodoRoutes(router, {} as any, mockLogger, mockConfig);
+  const rows = [{ id: 'todo-1', title: 'Rotate the keys' }];
+
+  beforeEach(() => {
+    // An editor that may create items but not change them
+    jest.replaceProperty(ROLE_PERMISSIONS, TodoRole.EDITOR, [
+      TodoPermission.READ,
+      TodoPermission.CREATE,
+    ]);
+    jest
+      .spyOn(ProjectService.prototype, 'resolveScope')
+      .mockResolvedValue({ projectIds: [] } as any);
+    jest.spyOn(TodoService.prototype, 'previewImport').mockResolvedValue([]);
+    jest.spyOn(TodoService.prototype, 'importTodos').mockResolvedValue({
+      created: 1,
+      updated: 0,
+      failed: 0,
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should need the edit permission to update items by import', async () => {
+    const preview = await getHandler('POST', `${PATH}/preview`)(
+      createMockContext([]),
+      { query: {}, body: { rows, upsert: true } },
+      mockResponse
+    );
+    const result = await getHandler('POST', PATH)(
+      createMockContext([]),
+      { query: {}, body: { rows, upsert: true } },
+      mockResponse
+    );
+
+    expect(preview.status).toBe(403);
+    expect(result.status).toBe(403);
+    expect(result.body.message).toBe('Missing permission: edit');
+    expect(TodoService.prototype.previewImport).not.toHaveBeenCalled();
+    expect(TodoService.prototype.importTodos).not.toHaveBeenCalled();
+  });
+
+  it('should let the role import new items without it', async () => {
+    const result = await getHandler('POST', PATH)(
+      createMockContext([]),
+      { query: {}, body: { rows, upsert: false } },
+      mockResponse
+    );
+
+    expect(result.status).toBe(200);
+    expect(TodoService.prototype.importTodos).toHaveBeenCalledWith(
+      rows,
+      false,
+      expect.any(Function)
+    );
+  });
+
+  it('should return the latest copy of an item changed meanwhile', async () => {
+    const current = { id: 'todo-1', title: 'Renamed', version: 2 } as any;
+    jest
+      .spyOn(TodoService.prototype, 'deleteTodo')
+      .mockRejectedValue(new TodoConflictError(current));
+
+    const result = await getHandler('DELETE', '/api/custom_plugin/todos/{id}')(
+      createMockContext(['all_access']),
+      { params: { id: 'todo-1' }, query: {} },
+      mockResponse
+    );
+
+    expect(result.status).toBe(409);
+    expect(result.body.attributes).toEqual({ current });
+  });
+});
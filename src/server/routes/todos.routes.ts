@@ -1,25 +1,133 @@
 import { IRouter, CoreSetup, Logger } from "src/core/server";
 import { schema } from "@osd/config-schema";
-import { TodoService } from "../services/todo.service";
+import {
+  TodoService,
+  TodoConflictError,
+  InvalidCursorError,
+} from "../services/todo.service";
+import {
+  WorkflowService,
+  WorkflowValidationError,
+} from "../services/workflow.service";
 import { OpenSearchService } from "../services/opensearch.service";
+import { AuthService } from "../services/auth.service";
+import { RetentionService } from "../services/retention.service";
+import {
+  ProjectService,
+  ProjectAccessError,
+} from "../services/project.service";
+import {
+  PermissionConfig,
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import {
+  EXPORT_CONTENT_TYPES,
+  createExportStream,
+  getExportFileName,
+} from "../services/export.service";
 import {
   createTodoSchema,
   updateTodoSchema,
   searchTodoSchema,
+  exportTodoSchema,
   idParamSchema,
   bulkIdsSchema,
   bulkUpdateStatusSchema,
   bulkUpdatePrioritySchema,
   bulkAssignSchema,
+  seriesIdParamSchema,
+  seriesUpdateSchema,
+  todoImportSchema,
+  moveTodoSchema,
+  trashTodoSchema,
 } from "../../common/schemas/todo_schema";
-import { TodoSearchParams, TodoStatus, TodoPriority } from "../../common/types";
+import { projectScopeSchema } from "../../common/schemas/project_schema";
+import {
+  TodoSearchParams,
+  TodoPriority,
+  SeriesUpdateRequest,
+  CreateTodoRequest,
+  TodoPermission,
+} from "../../common/types";
+import {
+  TodoExportFormat,
+  TodoExportColumn,
+  DEFAULT_EXPORT_COLUMNS,
+  isExportColumn,
+} from "../../common/export";
+import { TodoQueryError, parseTodoQuery } from "../../common/query";
 import { generateTodos, SEED_CONFIG } from "../scripts/seed-todos";
+import { TodoPluginConfigType } from "../config";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    osService,
+    projectService: new ProjectService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+/**
+ * TODO service limited to the project in the `projectId` query parameter,
+ * for a user whose role has the given permissions
+ *
+ * @throws PermissionError when the role of the user lacks a permission
+ * @throws ProjectAccessError when the user is not a member of the project
+ */
+async function createTodoService(
+  context: any,
+  request: any,
+  logger: Logger,
+  config: PermissionConfig,
+  ...permissions: TodoPermission[]
+): Promise<TodoService> {
+  const { osService, projectService, authService } = createServices(
+    context,
+    logger
+  );
+  const user = await authService.getCurrentUser();
+  const granted = resolvePermissions(user, config);
+  permissions.forEach((permission) => assertPermission(granted, permission));
+  const scope = await projectService.resolveScope(
+    request.query?.projectId,
+    user.username
+  );
+  return new TodoService(osService, logger, scope);
+}
 
-function createTodoService(context: any, logger: Logger): TodoService {
+function createWorkflowService(context: any, logger: Logger): WorkflowService {
   const client = context.core.opensearch.client.asCurrentUser;
   const osService = new OpenSearchService(logger);
   osService.setClient(client);
-  return new TodoService(osService, logger);
+  return new WorkflowService(osService, logger);
+}
+
+// Columns come as a comma separated list or repeated parameters
+function parseExportColumns(columns: unknown): TodoExportColumn[] {
+  const requested = (Array.isArray(columns) ? columns : [columns])
+    .filter((column): column is string => typeof column === "string")
+    .flatMap((column) => column.split(","))
+    .map((column) => column.trim())
+    .filter(isExportColumn);
+  return requested.length > 0 ? requested : DEFAULT_EXPORT_COLUMNS;
+}
+
+// Rows of an upsert import update the items they match, so it also needs
+// the permission to edit
+function getImportPermissions(upsert: boolean): TodoPermission[] {
+  return upsert
+    ? [TodoPermission.CREATE, TodoPermission.EDIT]
+    : [TodoPermission.CREATE];
+}
+
+// Imported rows are held to the same rules as items created in the UI
+function validateImportRow(row: Record<string, unknown>): CreateTodoRequest {
+  return createTodoSchema.validate(row) as CreateTodoRequest;
 }
 
 function parseSearchParams(query: any): TodoSearchParams {
@@ -27,10 +135,13 @@ function parseSearchParams(query: any): TodoSearchParams {
 
   if (query.query) params.query = query.query;
   if (query.assignee) params.assignee = query.assignee;
+  if (query.assigneeId) params.assigneeId = query.assigneeId;
   if (query.sortField) params.sortField = query.sortField;
   if (query.sortOrder) params.sortOrder = query.sortOrder;
   if (query.dateFrom) params.dateFrom = query.dateFrom;
   if (query.dateTo) params.dateTo = query.dateTo;
+  if (query.cursor) params.cursor = query.cursor;
+  if (query.previousCursor) params.previousCursor = query.previousCursor;
 
   // Parse arrays (can be string or array)
   if (query.status) {
@@ -49,6 +160,16 @@ function parseSearchParams(query: any): TodoSearchParams {
       ? query.complianceStandards
       : [query.complianceStandards];
   }
+  if (query.controls) {
+    params.controls = Array.isArray(query.controls)
+      ? query.controls
+      : [query.controls];
+  }
+  if (query.slaState) {
+    params.slaState = Array.isArray(query.slaState)
+      ? query.slaState
+      : [query.slaState];
+  }
 
   // Parse numbers
   if (query.page !== undefined) {
@@ -68,6 +189,12 @@ function parseSearchParams(query: any): TodoSearchParams {
       params.archived = query.archived;
     }
   }
+  if (query.facets !== undefined) {
+    params.facets =
+      typeof query.facets === "string"
+        ? query.facets === "true"
+        : query.facets;
+  }
 
   return params;
 }
@@ -75,8 +202,23 @@ function parseSearchParams(query: any): TodoSearchParams {
 export function registerTodoRoutes(
   router: IRouter,
   core: CoreSetup,
-  logger: Logger
+  logger: Logger,
+  config: TodoPluginConfigType
 ) {
+  // Every handler names the permissions its request needs
+  const authorize = (
+    context: any,
+    request: any,
+    ...permissions: TodoPermission[]
+  ) =>
+    createTodoService(
+      context,
+      request,
+      logger,
+      config.permissions,
+      ...permissions
+    );
+
   // ============================================
   // CRUD Operations
   // ============================================
@@ -91,7 +233,7 @@ export function registerTodoRoutes(
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.READ);
         const searchParams = parseSearchParams(request.query || {});
         const results = await service.searchTodos(searchParams);
 
@@ -102,6 +244,28 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (
+          error instanceof TodoQueryError ||
+          error instanceof InvalidCursorError
+        ) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error listing TODOs", error);
         return response.customError({
           statusCode: 500,
@@ -121,11 +285,16 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos",
       validate: {
         body: createTodoSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.CREATE
+        );
         const todo = await service.createTodo(request.body);
 
         return response.ok({
@@ -134,7 +303,26 @@ export function registerTodoRoutes(
             data: todo,
           },
         });
-      } catch (error) {
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof WorkflowValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error creating TODO", error);
         return response.customError({
           statusCode: 500,
@@ -154,11 +342,12 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/{id}",
       validate: {
         params: idParamSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.READ);
         const todo = await service.getTodoById(request.params.id);
 
         if (!todo) {
@@ -177,6 +366,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error fetching TODO", error);
         return response.customError({
           statusCode: 500,
@@ -197,11 +397,12 @@ export function registerTodoRoutes(
       validate: {
         params: idParamSchema,
         body: updateTodoSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.EDIT);
         const todo = await service.updateTodo(request.params.id, request.body);
 
         return response.ok({
@@ -211,6 +412,36 @@ export function registerTodoRoutes(
           },
         });
       } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        // Error bodies only keep `message` and `attributes`, so the server
+        // copy travels in attributes
+        if (error instanceof TodoConflictError) {
+          return response.conflict({
+            body: {
+              success: false,
+              message: error.message,
+              attributes: { current: error.current },
+            },
+          });
+        }
+        if (error instanceof WorkflowValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         if (error.message.includes("not found")) {
           return response.notFound({
             body: {
@@ -238,20 +469,53 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/{id}",
       validate: {
         params: idParamSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.DELETE
+        );
         await service.deleteTodo(request.params.id);
 
         return response.ok({
           body: {
             success: true,
-            message: "TODO item deleted successfully",
+            message: "TODO item moved to the trash",
           },
         });
-      } catch (error) {
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof TodoConflictError) {
+          return response.conflict({
+            body: {
+              success: false,
+              message: error.message,
+              attributes: { current: error.current },
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error deleting TODO", error);
         return response.customError({
           statusCode: 500,
@@ -266,35 +530,53 @@ export function registerTodoRoutes(
   );
 
   // ============================================
-  // Search & Statistics
+  // Trash
   // ============================================
 
-  // POST /api/custom_plugin/todos/search - Search TODOs
-  router.post(
+  // GET /api/custom_plugin/todos/trash - List deleted TODOs
+  router.get(
     {
-      path: "/api/custom_plugin/todos/search",
+      path: "/api/custom_plugin/todos/trash",
       validate: {
-        body: searchTodoSchema,
+        query: trashTodoSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const results = await service.searchTodos(request.body);
+        const service = await authorize(context, request, TodoPermission.READ);
+        const { page, size } = parseSearchParams(request.query || {});
+        const [trash, policy] = await Promise.all([
+          service.listTrash(page, size),
+          new RetentionService(
+            createServices(context, logger).osService,
+            logger
+          ).getPolicy(),
+        ]);
 
         return response.ok({
           body: {
             success: true,
-            data: results,
+            data: { ...trash, purgeAfterDays: policy.trashPurgeAfterDays },
           },
         });
       } catch (error) {
-        logger.error("Error searching TODOs", error);
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing the trash", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to search TODO items",
+            message: "Failed to list deleted TODO items",
             error: error.message,
           },
         });
@@ -302,30 +584,58 @@ export function registerTodoRoutes(
     }
   );
 
-  // GET /api/custom_plugin/todos/statistics - Get statistics
-  router.get(
+  // POST /api/custom_plugin/todos/trash/{id}/restore - Restore deleted TODO
+  router.post(
     {
-      path: "/api/custom_plugin/todos/statistics",
-      validate: false,
+      path: "/api/custom_plugin/todos/trash/{id}/restore",
+      validate: {
+        params: idParamSchema,
+        query: projectScopeSchema,
+      },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const stats = await service.getStatistics();
+        // Whoever may delete an item may take it back
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.DELETE
+        );
+        const todo = await service.restoreDeletedTodo(request.params.id);
 
         return response.ok({
           body: {
             success: true,
-            data: stats,
+            data: todo,
+            message: "TODO item restored from the trash",
           },
         });
-      } catch (error) {
-        logger.error("Error fetching statistics", error);
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error restoring TODO from the trash", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to fetch statistics",
+            message: "Failed to restore TODO item from the trash",
             error: error.message,
           },
         });
@@ -333,31 +643,42 @@ export function registerTodoRoutes(
     }
   );
 
-  // ============================================
-  // Archive & Restore (Single)
-  // ============================================
-
-  // POST /api/custom_plugin/todos/{id}/archive - Archive TODO
-  router.post(
+  // DELETE /api/custom_plugin/todos/trash/{id} - Delete TODO permanently
+  router.delete(
     {
-      path: "/api/custom_plugin/todos/{id}/archive",
+      path: "/api/custom_plugin/todos/trash/{id}",
       validate: {
         params: idParamSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const todo = await service.archiveTodo(request.params.id);
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.MANAGE
+        );
+        await service.purgeTodo(request.params.id);
 
         return response.ok({
           body: {
             success: true,
-            data: todo,
-            message: "TODO item archived successfully",
+            message: "TODO item deleted permanently",
           },
         });
       } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         if (error.message.includes("not found")) {
           return response.notFound({
             body: {
@@ -366,12 +687,12 @@ export function registerTodoRoutes(
             },
           });
         }
-        logger.error("Error archiving TODO", error);
+        logger.error("Error purging TODO", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to archive TODO item",
+            message: "Failed to delete TODO item permanently",
             error: error.message,
           },
         });
@@ -379,41 +700,59 @@ export function registerTodoRoutes(
     }
   );
 
-  // POST /api/custom_plugin/todos/{id}/restore - Restore archived TODO
+  // ============================================
+  // Search & Statistics
+  // ============================================
+
+  // POST /api/custom_plugin/todos/search - Search TODOs
   router.post(
     {
-      path: "/api/custom_plugin/todos/{id}/restore",
+      path: "/api/custom_plugin/todos/search",
       validate: {
-        params: idParamSchema,
+        body: searchTodoSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const todo = await service.restoreTodo(request.params.id);
+        const service = await authorize(context, request, TodoPermission.READ);
+        const results = await service.searchTodos(request.body);
 
         return response.ok({
           body: {
             success: true,
-            data: todo,
-            message: "TODO item restored successfully",
+            data: results,
           },
         });
-      } catch (error: any) {
-        if (error.message.includes("not found")) {
-          return response.notFound({
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
             body: {
               success: false,
               message: error.message,
             },
           });
         }
-        logger.error("Error restoring TODO", error);
+        if (
+          error instanceof TodoQueryError ||
+          error instanceof InvalidCursorError
+        ) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error searching TODOs", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to restore TODO item",
+            message: "Failed to search TODO items",
             error: error.message,
           },
         });
@@ -421,50 +760,43 @@ export function registerTodoRoutes(
     }
   );
 
-  // POST /api/custom_plugin/todos/{id}/reorder - Reorder TODO (move to position in column)
-  router.post(
+  // GET /api/custom_plugin/todos/statistics - Get statistics
+  router.get(
     {
-      path: "/api/custom_plugin/todos/{id}/reorder",
+      path: "/api/custom_plugin/todos/statistics",
       validate: {
-        params: idParamSchema,
-        body: schema.object({
-          status: schema.string(),
-          position: schema.number(),
-        }),
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const { status, position } = request.body;
-        const todo = await service.reorderTodo(
-          request.params.id,
-          status as TodoStatus,
-          position
-        );
+        const service = await authorize(context, request, TodoPermission.READ);
+        const stats = await service.getStatistics();
 
         return response.ok({
           body: {
             success: true,
-            data: todo,
-            message: "TODO item reordered successfully",
+            data: stats,
           },
         });
-      } catch (error: any) {
-        if (error.message.includes("not found")) {
-          return response.notFound({
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
             body: {
               success: false,
               message: error.message,
             },
           });
         }
-        logger.error("Error reordering TODO", error);
+        logger.error("Error fetching statistics", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to reorder TODO item",
+            message: "Failed to fetch statistics",
             error: error.message,
           },
         });
@@ -472,37 +804,43 @@ export function registerTodoRoutes(
     }
   );
 
-  // ============================================
-  // Bulk Operations
-  // ============================================
-
-  // POST /api/custom_plugin/todos/bulk/delete - Bulk delete TODOs
-  router.post(
+  // GET /api/custom_plugin/todos/coverage - Control coverage per standard
+  router.get(
     {
-      path: "/api/custom_plugin/todos/bulk/delete",
+      path: "/api/custom_plugin/todos/coverage",
       validate: {
-        body: bulkIdsSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const result = await service.bulkDelete(request.body.ids);
+        const service = await authorize(context, request, TodoPermission.READ);
+        const coverage = await service.getCoverage();
 
         return response.ok({
           body: {
-            success: result.success,
-            data: result,
-            message: `Deleted ${result.processed} TODO items`,
+            success: true,
+            data: coverage,
           },
         });
       } catch (error) {
-        logger.error("Error bulk deleting TODOs", error);
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error fetching control coverage", error);
         return response.customError({
           statusCode: 500,
           body: {
             success: false,
-            message: "Failed to bulk delete TODO items",
+            message: "Failed to fetch control coverage",
             error: error.message,
           },
         });
@@ -510,18 +848,445 @@ export function registerTodoRoutes(
     }
   );
 
-  // POST /api/custom_plugin/todos/bulk/archive - Bulk archive TODOs
+  // ============================================
+  // Archive & Restore (Single)
+  // ============================================
+
+  // POST /api/custom_plugin/todos/{id}/archive - Archive TODO
   router.post(
     {
-      path: "/api/custom_plugin/todos/bulk/archive",
+      path: "/api/custom_plugin/todos/{id}/archive",
       validate: {
-        body: bulkIdsSchema,
+        params: idParamSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const result = await service.bulkArchive(request.body.ids);
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const todo = await service.archiveTodo(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: todo,
+            message: "TODO item archived successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error archiving TODO", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to archive TODO item",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/{id}/restore - Restore archived TODO
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/{id}/restore",
+      validate: {
+        params: idParamSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const todo = await service.restoreTodo(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: todo,
+            message: "TODO item restored successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error restoring TODO", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to restore TODO item",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/{id}/move - Move TODO to another project
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/{id}/move",
+      validate: {
+        params: idParamSchema,
+        body: moveTodoSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const { projectService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authService.getCurrentUser();
+        // The user has to be a member of both projects
+        const target = await projectService.getProject(
+          request.body.projectId,
+          user.username
+        );
+        const todo = await service.moveTodo(request.params.id, target.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: todo,
+            message: `TODO item moved to ${target.name}`,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof TodoConflictError) {
+          return response.conflict({
+            body: {
+              success: false,
+              message: error.message,
+              attributes: { current: error.current },
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error moving TODO", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to move TODO item",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/{id}/reorder - Reorder TODO (move to position in column)
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/{id}/reorder",
+      validate: {
+        params: idParamSchema,
+        body: schema.object({
+          status: schema.string(),
+          position: schema.number(),
+        }),
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const { status, position } = request.body;
+        const todo = await service.reorderTodo(
+          request.params.id,
+          status,
+          position
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: todo,
+            message: "TODO item reordered successfully",
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof WorkflowValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error reordering TODO", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to reorder TODO item",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // ============================================
+  // Recurring Series
+  // ============================================
+
+  // GET /api/custom_plugin/todos/series/{seriesId} - Get all occurrences
+  router.get(
+    {
+      path: "/api/custom_plugin/todos/series/{seriesId}",
+      validate: {
+        params: seriesIdParamSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.READ);
+        const series = await service.getSeries(request.params.seriesId);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: series,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error getting series", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get series",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/todos/series/{seriesId} - Update open occurrences
+  router.put(
+    {
+      path: "/api/custom_plugin/todos/series/{seriesId}",
+      validate: {
+        params: seriesIdParamSchema,
+        body: seriesUpdateSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const result = await service.updateSeries(
+          request.params.seriesId,
+          request.body as SeriesUpdateRequest
+        );
+
+        return response.ok({
+          body: {
+            success: result.success,
+            data: result,
+            message: `Updated ${result.processed} occurrences`,
+          },
+        });
+      } catch (error: any) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating series", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update series",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // ============================================
+  // Bulk Operations
+  // ============================================
+
+  // POST /api/custom_plugin/todos/bulk/delete - Bulk delete TODOs
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/bulk/delete",
+      validate: {
+        body: bulkIdsSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.MANAGE
+        );
+        const result = await service.bulkDelete(request.body.ids);
+
+        return response.ok({
+          body: {
+            success: result.success,
+            data: result,
+            message: `Deleted ${result.processed} TODO items`,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error bulk deleting TODOs", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to bulk delete TODO items",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/bulk/archive - Bulk archive TODOs
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/bulk/archive",
+      validate: {
+        body: bulkIdsSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const result = await service.bulkArchive(request.body.ids);
 
         return response.ok({
           body: {
@@ -531,6 +1296,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error bulk archiving TODOs", error);
         return response.customError({
           statusCode: 500,
@@ -550,11 +1326,12 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/bulk/restore",
       validate: {
         body: bulkIdsSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.EDIT);
         const result = await service.bulkRestore(request.body.ids);
 
         return response.ok({
@@ -565,6 +1342,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error bulk restoring TODOs", error);
         return response.customError({
           statusCode: 500,
@@ -584,15 +1372,16 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/bulk/status",
       validate: {
         body: bulkUpdateStatusSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.EDIT);
         const { ids, status } = request.body;
         const result = await service.bulkUpdateStatus(
           ids,
-          status as TodoStatus
+          status
         );
 
         return response.ok({
@@ -603,6 +1392,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error bulk updating status", error);
         return response.customError({
           statusCode: 500,
@@ -622,11 +1422,12 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/bulk/priority",
       validate: {
         body: bulkUpdatePrioritySchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(context, request, TodoPermission.EDIT);
         const { ids, priority } = request.body;
         const result = await service.bulkUpdatePriority(
           ids,
@@ -641,6 +1442,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error bulk updating priority", error);
         return response.customError({
           statusCode: 500,
@@ -660,13 +1472,14 @@ export function registerTodoRoutes(
       path: "/api/custom_plugin/todos/bulk/assign",
       validate: {
         body: bulkAssignSchema,
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
-        const { ids, assignee } = request.body;
-        const result = await service.bulkAssign(ids, assignee);
+        const service = await authorize(context, request, TodoPermission.EDIT);
+        const { ids, assignee, assigneeId } = request.body;
+        const result = await service.bulkAssign(ids, assignee, assigneeId);
 
         return response.ok({
           body: {
@@ -678,6 +1491,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error bulk assigning TODOs", error);
         return response.customError({
           statusCode: 500,
@@ -691,6 +1515,199 @@ export function registerTodoRoutes(
     }
   );
 
+  // ============================================
+  // Import & Export
+  // ============================================
+
+  // GET /api/custom_plugin/todos/export - Stream all TODOs matching a search
+  router.get(
+    {
+      path: "/api/custom_plugin/todos/export",
+      validate: {
+        query: exportTodoSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const service = await authorize(context, request, TodoPermission.READ);
+        const workflow = await createWorkflowService(
+          context,
+          logger
+        ).getWorkflow();
+        const { format, columns, ...query } = request.query as {
+          format: TodoExportFormat;
+          columns?: string | string[];
+        };
+
+        const searchParams = parseSearchParams(query);
+        // A query that cannot be read fails before the download starts
+        parseTodoQuery(searchParams.query || "", {
+          statuses: workflow.statuses,
+        });
+
+        const stream = createExportStream(
+          service.scrollTodos(searchParams),
+          format,
+          parseExportColumns(columns),
+          workflow
+        );
+        // Failures after the first chunk can only end the download early
+        stream.on("error", (error) => {
+          logger.error("Error streaming TODO export", error);
+        });
+
+        return response.ok({
+          body: stream,
+          headers: {
+            "content-type": EXPORT_CONTENT_TYPES[format],
+            "content-disposition":
+              `attachment; filename="${getExportFileName(format)}"`,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof TodoQueryError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error exporting TODOs", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to export TODO items",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/import/preview - Validate rows to import
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/import/preview",
+      validate: {
+        body: todoImportSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { rows, upsert } = request.body;
+        const service = await authorize(
+          context,
+          request,
+          ...getImportPermissions(upsert)
+        );
+        const results = await service.previewImport(
+          rows,
+          upsert,
+          validateImportRow
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: results,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error previewing TODO import", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to preview the import",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/todos/import - Create or update TODOs from rows
+  router.post(
+    {
+      path: "/api/custom_plugin/todos/import",
+      validate: {
+        body: todoImportSchema,
+        query: projectScopeSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { rows, upsert } = request.body;
+        const service = await authorize(
+          context,
+          request,
+          ...getImportPermissions(upsert)
+        );
+        const result = await service.importTodos(
+          rows,
+          upsert,
+          validateImportRow
+        );
+
+        return response.ok({
+          body: {
+            success: result.failed === 0,
+            data: result,
+            message:
+              `Imported ${result.created + result.updated} TODO items, ` +
+              `${result.failed} rows failed`,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error importing TODOs", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to import TODO items",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
   // ============================================
   // Seed & Testing Endpoints
   // ============================================
@@ -707,11 +1724,16 @@ export function registerTodoRoutes(
             max: 10000,
           }),
         }),
+        query: projectScopeSchema,
       },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.MANAGE
+        );
         const count = request.body.count;
 
         logger.info(`Starting seed of ${count} TODO items...`);
@@ -748,6 +1770,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error seeding TODOs", error);
         return response.customError({
           statusCode: 500,
@@ -761,15 +1794,21 @@ export function registerTodoRoutes(
     }
   );
 
-  // DELETE /api/custom_plugin/todos/all - Delete all TODOs (for cleanup after testing)
+  // DELETE /api/custom_plugin/todos/all - Move all TODOs to the trash (for cleanup after testing)
   router.delete(
     {
       path: "/api/custom_plugin/todos/all",
-      validate: false,
+      validate: {
+        query: projectScopeSchema,
+      },
     },
     async (context, request, response) => {
       try {
-        const service = createTodoService(context, logger);
+        const service = await authorize(
+          context,
+          request,
+          TodoPermission.MANAGE
+        );
         const result = await service.deleteAll();
 
         return response.ok({
@@ -780,6 +1819,17 @@ export function registerTodoRoutes(
           },
         });
       } catch (error) {
+        if (
+          error instanceof ProjectAccessError ||
+          error instanceof PermissionError
+        ) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
         logger.error("Error deleting all TODOs", error);
         return response.customError({
           statusCode: 500,
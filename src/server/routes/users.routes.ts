@@ -0,0 +1,60 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { UserService } from "../services/user.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import { userSearchSchema } from "../../common/schemas/user_schema";
+import { TodoPluginConfigType } from "../config";
+
+function createUserService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): UserService {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return new UserService(osService, logger, config.users.fallback);
+}
+
+export function registerUserRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // User directory
+  // ============================================
+
+  // GET /api/custom_plugin/users - Users that can be assigned to items
+  router.get(
+    {
+      path: "/api/custom_plugin/users",
+      validate: {
+        query: userSearchSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const users = await createUserService(context, logger, config)
+          .listUsers(request.query.search);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: users,
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error listing users", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list users",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
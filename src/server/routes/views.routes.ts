@@ -0,0 +1,298 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { ViewService, ViewAccessError } from "../services/view.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  saveViewSchema,
+  pinViewSchema,
+  viewIdParamSchema,
+} from "../../common/schemas/view_schema";
+import { SaveViewRequest } from "../../common/types";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    viewService: new ViewService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerViewRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger
+) {
+  // ============================================
+  // Saved views
+  // ============================================
+
+  // GET /api/custom_plugin/views - List own and shared views
+  router.get(
+    {
+      path: "/api/custom_plugin/views",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        const views = await viewService.listViews(user.username);
+
+        return response.ok({
+          body: {
+            success: true,
+            data: views,
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error listing views", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list views",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/views/{id} - Get a view
+  router.get(
+    {
+      path: "/api/custom_plugin/views/{id}",
+      validate: {
+        params: viewIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        const view = await viewService.getView(
+          request.params.id,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: view,
+          },
+        });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error getting view", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get view",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/views - Save a view for the current user
+  router.post(
+    {
+      path: "/api/custom_plugin/views",
+      validate: {
+        body: saveViewSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        const view = await viewService.createView(
+          request.body as SaveViewRequest,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: view,
+            message: "View saved successfully",
+          },
+        });
+      } catch (error: any) {
+        logger.error("Error creating view", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to save view",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/views/{id} - Replace a view of the current user
+  router.put(
+    {
+      path: "/api/custom_plugin/views/{id}",
+      validate: {
+        params: viewIdParamSchema,
+        body: saveViewSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        const view = await viewService.updateView(
+          request.params.id,
+          request.body as SaveViewRequest,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: view,
+            message: "View updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof ViewAccessError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating view", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update view",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/views/{id} - Delete a view of the current user
+  router.delete(
+    {
+      path: "/api/custom_plugin/views/{id}",
+      validate: {
+        params: viewIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        await viewService.deleteView(request.params.id, user.username);
+
+        return response.ok({
+          body: {
+            success: true,
+            message: "View deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof ViewAccessError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting view", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete view",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/views/{id}/pin - Pin or unpin a view as a tab
+  router.put(
+    {
+      path: "/api/custom_plugin/views/{id}/pin",
+      validate: {
+        params: viewIdParamSchema,
+        body: pinViewSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { viewService, authService } = createServices(context, logger);
+        const user = await authService.getCurrentUser();
+        const view = await viewService.setPinned(
+          request.params.id,
+          (request.body as { pinned: boolean }).pinned,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: view,
+          },
+        });
+      } catch (error: any) {
+        if (error.message.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error pinning view", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to pin view",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
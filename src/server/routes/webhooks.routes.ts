@@ -0,0 +1,359 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import { WebhookService } from "../services/webhook.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import {
+  saveWebhookSchema,
+  webhookDeliveriesSchema,
+  webhookIdParamSchema,
+} from "../../common/schemas/webhook_schema";
+import { SaveWebhookRequest, TodoPermission } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+/**
+ * Webhook service for a user allowed to manage the plugin, along with
+ * the name of that user
+ *
+ * @throws PermissionError when the role of the user lacks the permission
+ */
+async function createWebhookService(
+  context: any,
+  logger: Logger,
+  config: TodoPluginConfigType
+): Promise<{ webhookService: WebhookService; username: string }> {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  const user = await new AuthService(osService, logger).getCurrentUser();
+  assertPermission(
+    resolvePermissions(user, config.permissions),
+    TodoPermission.MANAGE
+  );
+  return {
+    webhookService: new WebhookService(osService, logger),
+    username: user.username,
+  };
+}
+
+export function registerWebhookRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  // GET /api/custom_plugin/webhooks - List the webhooks, without secrets
+  router.get(
+    {
+      path: "/api/custom_plugin/webhooks",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        const webhooks = await webhookService.listWebhooks();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: webhooks,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing webhooks", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list webhooks",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/webhooks - Create a webhook
+  router.post(
+    {
+      path: "/api/custom_plugin/webhooks",
+      validate: {
+        body: saveWebhookSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService, username } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        const webhook = await webhookService.createWebhook(
+          request.body as SaveWebhookRequest,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: webhook,
+            message: "Webhook created successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error creating webhook", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to create webhook",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // GET /api/custom_plugin/webhooks/deliveries - Latest deliveries
+  router.get(
+    {
+      path: "/api/custom_plugin/webhooks/deliveries",
+      validate: {
+        query: webhookDeliveriesSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        const deliveries = await webhookService.listDeliveries(
+          request.query.webhookId,
+          request.query.size
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: deliveries,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error listing webhook deliveries", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to list webhook deliveries",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/webhooks/{id} - Replace the settings of a webhook
+  router.put(
+    {
+      path: "/api/custom_plugin/webhooks/{id}",
+      validate: {
+        params: webhookIdParamSchema,
+        body: saveWebhookSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        const webhook = await webhookService.updateWebhook(
+          request.params.id,
+          request.body as SaveWebhookRequest
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: webhook,
+            message: "Webhook updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message?.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating webhook", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update webhook",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // DELETE /api/custom_plugin/webhooks/{id} - Delete a webhook
+  router.delete(
+    {
+      path: "/api/custom_plugin/webhooks/{id}",
+      validate: {
+        params: webhookIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        await webhookService.deleteWebhook(request.params.id);
+
+        return response.ok({
+          body: {
+            success: true,
+            message: "Webhook deleted successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message?.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error deleting webhook", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to delete webhook",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // POST /api/custom_plugin/webhooks/{id}/test - Send a ping right away
+  router.post(
+    {
+      path: "/api/custom_plugin/webhooks/{id}/test",
+      validate: {
+        params: webhookIdParamSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { webhookService, username } = await createWebhookService(
+          context,
+          logger,
+          config
+        );
+        const delivery = await webhookService.sendTestEvent(
+          request.params.id,
+          username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: delivery,
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error.message?.includes("not found")) {
+          return response.notFound({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error testing webhook", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to test webhook",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
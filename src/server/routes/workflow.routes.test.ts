@@ -0,0 +1,47 @@
+/**
+ * Tests for the workflow routes - Who may change the workflow
+ */
+import { registerWorkflowRoutes } from './workflow.routes';
+import { WorkflowService } from '../services/workflow.service';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+import {
+  createMockContext,
+  createMockRouter,
+  mockConfig,
+  mockLogger,
+  mockResponse,
+} from '../../test/route_mocks';
+
+describe('workflow routes', () => {
+  const { router, getHandler } = createMockRouter();
+  registerWorkflowRoutes(router, {} as any, mockLogger, mockConfig);
+
+  beforeEach(() => {
+    jest
+      .spyOn(WorkflowService.prototype, 'updateWorkflow')
+      .mockResolvedValue(DEFAULT_WORKFLOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const putWorkflow = (roles: string[]) =>
+    getHandler('PUT', '/api/custom_plugin/workflow')(
+      createMockContext(roles),
+      { body: DEFAULT_WORKFLOW },
+      mockResponse
+    );
+
+  it('should not let a viewer change the workflow', async () => {
+    const result = await putWorkflow(['kibana_read_only']);
+
+    expect(result.status).toBe(403);
+    expect(WorkflowService.prototype.updateWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should leave the workflow to admins', async () => {
+    expect((await putWorkflow([])).status).toBe(403);
+    expect((await putWorkflow(['all_access'])).status).toBe(200);
+  });
+});
@@ -0,0 +1,128 @@
+import { IRouter, CoreSetup, Logger } from "src/core/server";
+import {
+  WorkflowService,
+  WorkflowValidationError,
+} from "../services/workflow.service";
+import { AuthService } from "../services/auth.service";
+import { OpenSearchService } from "../services/opensearch.service";
+import {
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+} from "../services/permission.service";
+import { workflowDefinitionSchema } from "../../common/schemas/workflow_schema";
+import { TodoPermission, WorkflowDefinition } from "../../common/types";
+import { TodoPluginConfigType } from "../config";
+
+function createServices(context: any, logger: Logger) {
+  const client = context.core.opensearch.client.asCurrentUser;
+  const osService = new OpenSearchService(logger);
+  osService.setClient(client);
+  return {
+    workflowService: new WorkflowService(osService, logger),
+    authService: new AuthService(osService, logger),
+  };
+}
+
+export function registerWorkflowRoutes(
+  router: IRouter,
+  core: CoreSetup,
+  logger: Logger,
+  config: TodoPluginConfigType
+) {
+  // ============================================
+  // Workflow
+  // ============================================
+
+  // GET /api/custom_plugin/workflow - Get statuses and allowed transitions
+  router.get(
+    {
+      path: "/api/custom_plugin/workflow",
+      validate: false,
+    },
+    async (context, request, response) => {
+      try {
+        const { workflowService } = createServices(context, logger);
+        const workflow = await workflowService.getWorkflow();
+
+        return response.ok({
+          body: {
+            success: true,
+            data: workflow,
+          },
+        });
+      } catch (error) {
+        logger.error("Error getting workflow", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to get workflow",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+
+  // PUT /api/custom_plugin/workflow - Replace the workflow definition
+  router.put(
+    {
+      path: "/api/custom_plugin/workflow",
+      validate: {
+        body: workflowDefinitionSchema,
+      },
+    },
+    async (context, request, response) => {
+      try {
+        const { workflowService, authService } = createServices(
+          context,
+          logger
+        );
+        const user = await authService.getCurrentUser();
+        assertPermission(
+          resolvePermissions(user, config.permissions),
+          TodoPermission.MANAGE
+        );
+        const workflow = await workflowService.updateWorkflow(
+          request.body as WorkflowDefinition,
+          user.username
+        );
+
+        return response.ok({
+          body: {
+            success: true,
+            data: workflow,
+            message: "Workflow updated successfully",
+          },
+        });
+      } catch (error: any) {
+        if (error instanceof PermissionError) {
+          return response.forbidden({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        if (error instanceof WorkflowValidationError) {
+          return response.badRequest({
+            body: {
+              success: false,
+              message: error.message,
+            },
+          });
+        }
+        logger.error("Error updating workflow", error);
+        return response.customError({
+          statusCode: 500,
+          body: {
+            success: false,
+            message: "Failed to update workflow",
+            error: error.message,
+          },
+        });
+      }
+    }
+  );
+}
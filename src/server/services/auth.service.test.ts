@@ -0,0 +1,69 @@
+/**
+ * Tests for AuthService - Resolving the user of a request
+ */
+import { AuthService, ANONYMOUS_USERNAME } from './auth.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+
+const mockClient = {
+  transport: { request: jest.fn() },
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const failure = (statusCode: number, body: unknown = {}) =>
+  Object.assign(new Error(`Status ${statusCode}`), { statusCode, body });
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AuthService(mockOsService, mockLogger);
+  });
+
+  it('should resolve the user and roles from the security plugin', async () => {
+    mockClient.transport.request.mockResolvedValue({
+      body: {
+        user_name: 'alice',
+        roles: ['kibana_read_only'],
+        backend_roles: ['auditors'],
+      },
+    });
+
+    expect(await service.getCurrentUser()).toEqual({
+      username: 'alice',
+      roles: ['kibana_read_only'],
+      backendRoles: ['auditors'],
+    });
+  });
+
+  it('should fall back to anonymous without the security plugin', async () => {
+    mockClient.transport.request.mockRejectedValue(
+      failure(400, {
+        error: 'no handler found for uri [/_plugins/_security/authinfo]',
+      })
+    );
+
+    expect((await service.getCurrentUser()).username).toBe(ANONYMOUS_USERNAME);
+  });
+
+  it('should not make up a user when the lookup fails', async () => {
+    for (const statusCode of [403, 500, 503]) {
+      mockClient.transport.request.mockRejectedValueOnce(failure(statusCode));
+
+      await expect(service.getCurrentUser()).rejects.toThrow(
+        `Status ${statusCode}`
+      );
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+
+// Username used when the security plugin is not installed
+export const ANONYMOUS_USERNAME = "anonymous";
+
+// Without the security plugin, OpenSearch has no handler for its endpoints
+const isSecurityMissing = (error: any) =>
+  error?.statusCode === 404 ||
+  (error?.statusCode === 400 &&
+    /no handler found/i.test(JSON.stringify(error.body ?? "")));
+
+export interface AuthenticatedUser {
+  username: string;
+  backendRoles: string[];
+  roles: string[];
+}
+
+export class AuthService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Resolve the user behind the current request through the security plugin
+   * Falls back to an anonymous user when security is not installed. Any
+   * other failure is thrown, as the user decides the permissions.
+   */
+  public async getCurrentUser(): Promise<AuthenticatedUser> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.transport.request({
+        method: "GET",
+        path: "/_plugins/_security/authinfo",
+      });
+      const body = response.body as Record<string, any>;
+
+      return {
+        username: body.user_name || ANONYMOUS_USERNAME,
+        backendRoles: body.backend_roles || [],
+        roles: body.roles || [],
+      };
+    } catch (error) {
+      if (!isSecurityMissing(error)) {
+        this.logger.warn(`Could not resolve current user: ${error}`);
+        throw error;
+      }
+      return { username: ANONYMOUS_USERNAME, backendRoles: [], roles: [] };
+    }
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * Tests for AutomationService - Rules run on TODO events
+ */
+import {
+  AutomationExecutor,
+  AutomationService,
+  AutomationValidationError,
+  buildFollowUp,
+  getTriggers,
+  planChanges,
+  validateRule,
+} from './automation.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  AutomationActionType,
+  AutomationExecutionStatus,
+  AutomationOperator,
+  AutomationRule,
+  AutomationTrigger,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from '../../common/types';
+import {
+  AUTOMATION_BATCH_SIZE,
+  TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+  TODO_AUTOMATION_RULES_INDEX_NAME,
+  TODO_INDEX_NAME,
+} from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const todo: TodoItem = {
+  id: 'todo-1',
+  title: 'Patch the firewall',
+  status: TodoStatus.IN_PROGRESS,
+  priority: TodoPriority.CRITICAL,
+  tags: ['network'],
+  complianceStandards: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  archived: false,
+  version: 1,
+};
+
+// When a critical item moves to blocked, escalate it to the team lead
+const escalation: AutomationRule = {
+  id: 'rule-1',
+  name: 'Escalate blocked critical items',
+  enabled: true,
+  trigger: AutomationTrigger.STATUS_CHANGED,
+  conditions: [
+    {
+      field: 'priority',
+      operator: AutomationOperator.EQUALS,
+      value: TodoPriority.CRITICAL,
+    },
+    {
+      field: 'status',
+      operator: AutomationOperator.EQUALS,
+      value: TodoStatus.BLOCKED,
+    },
+  ],
+  actions: [
+    { type: AutomationActionType.ADD_TAG, tag: 'Escalation' },
+    { type: AutomationActionType.ASSIGN, assignee: 'lead' },
+  ],
+  createdBy: 'admin',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const hits = (sources: unknown[]) => ({
+  body: { hits: { hits: sources.map((_source) => ({ _source })) } },
+});
+
+// Executions recorded in the log
+const getExecutions = () =>
+  mockClient.index.mock.calls
+    .map(([request]) => request)
+    .filter(({ index }) => index === TODO_AUTOMATION_EXECUTIONS_INDEX_NAME)
+    .map(({ body }) => body);
+
+describe('AutomationService', () => {
+  let service: AutomationService;
+  let executor: jest.Mocked<AutomationExecutor>;
+
+  const searchRules = (rules: AutomationRule[]) =>
+    mockClient.search.mockImplementation(({ index }) =>
+      Promise.resolve(
+        index === TODO_AUTOMATION_RULES_INDEX_NAME ? hits(rules) : hits([])
+      )
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AutomationService(mockOsService, mockLogger);
+    executor = {
+      updateTodo: jest
+        .fn()
+        .mockImplementation((id, changes) =>
+          Promise.resolve({ ...todo, ...changes, id })
+        ),
+      archiveTodo: jest.fn(),
+      createTodo: jest.fn().mockResolvedValue({ ...todo, id: 'follow-up' }),
+    };
+    mockClient.index.mockResolvedValue({});
+  });
+
+  describe('getTriggers', () => {
+    it('should raise the triggers of the fields a write changed', () => {
+      expect(getTriggers({ after: todo })).toEqual([
+        AutomationTrigger.CREATED,
+      ]);
+      expect(
+        getTriggers({
+          before: todo,
+          after: { ...todo, status: TodoStatus.BLOCKED },
+        })
+      ).toEqual([AutomationTrigger.STATUS_CHANGED]);
+      expect(
+        getTriggers({ before: todo, after: { ...todo, title: 'Other' } })
+      ).toEqual([]);
+    });
+  });
+
+  describe('planChanges', () => {
+    it('should leave out the values the item already has', () => {
+      expect(
+        planChanges(todo, [
+          {
+            type: AutomationActionType.SET_FIELD,
+            field: 'priority',
+            value: TodoPriority.CRITICAL,
+          },
+          { type: AutomationActionType.ADD_TAG, tag: 'network' },
+          { type: AutomationActionType.ADD_TAG, tag: ' Escalation ' },
+        ])
+      ).toEqual({ tags: ['network', 'escalation'] });
+    });
+
+    it('should set the due date from the number of days', () => {
+      const changes = planChanges(
+        todo,
+        [
+          {
+            type: AutomationActionType.SET_FIELD,
+            field: 'dueDate',
+            value: '3',
+          },
+        ],
+        new Date('2026-03-01T00:00:00.000Z')
+      );
+
+      expect(changes.dueDate).toBe('2026-03-04T00:00:00.000Z');
+    });
+  });
+
+  describe('buildFollowUp', () => {
+    it('should name the follow-up after the item', () => {
+      expect(
+        buildFollowUp(todo, {
+          type: AutomationActionType.CREATE_FOLLOW_UP,
+          title: 'Review: {title}',
+        })
+      ).toMatchObject({
+        title: 'Review: Patch the firewall',
+        description: 'Follow-up of "Patch the firewall" (todo-1).',
+        priority: TodoPriority.CRITICAL,
+        tags: ['network'],
+      });
+    });
+  });
+
+  describe('validateRule', () => {
+    it('should reject conditions and actions without values', () => {
+      const rule = {
+        name: 'Rule',
+        enabled: true,
+        trigger: AutomationTrigger.CREATED,
+        conditions: [],
+        actions: [{ type: AutomationActionType.ARCHIVE }],
+      };
+
+      expect(() => validateRule(rule)).not.toThrow();
+      expect(() =>
+        validateRule({
+          ...rule,
+          conditions: [
+            { field: 'tags', operator: AutomationOperator.IN, value: 'a' },
+          ],
+        })
+      ).toThrow(AutomationValidationError);
+      expect(() =>
+        validateRule({
+          ...rule,
+          actions: [{ type: AutomationActionType.ADD_TAG, tag: ' ' }],
+        })
+      ).toThrow('Add tag needs a tag');
+    });
+  });
+
+  describe('run', () => {
+    it('should apply the actions of the matching rules', async () => {
+      searchRules([escalation]);
+
+      await service.run(
+        [{ before: todo, after: { ...todo, status: TodoStatus.BLOCKED } }],
+        executor,
+        'bob'
+      );
+
+      expect(executor.updateTodo).toHaveBeenCalledWith('todo-1', {
+        tags: ['network', 'escalation'],
+        assignee: 'lead',
+        assigneeId: undefined,
+      });
+      expect(getExecutions()).toEqual([
+        expect.objectContaining({
+          ruleId: 'rule-1',
+          todoId: 'todo-1',
+          trigger: AutomationTrigger.STATUS_CHANGED,
+          status: AutomationExecutionStatus.SUCCEEDED,
+          actions: ['Added tag Escalation', 'Assigned to lead'],
+          actor: 'bob',
+        }),
+      ]);
+    });
+
+    it('should skip items that do not meet the conditions', async () => {
+      searchRules([escalation]);
+
+      await service.run(
+        [
+          {
+            before: todo,
+            after: { ...todo, status: TodoStatus.COMPLETED_SUCCESS },
+          },
+        ],
+        executor,
+        'bob'
+      );
+
+      expect(executor.updateTodo).not.toHaveBeenCalled();
+      expect(getExecutions()).toEqual([]);
+    });
+
+    it('should log failed actions without throwing', async () => {
+      searchRules([
+        {
+          ...escalation,
+          actions: [
+            {
+              type: AutomationActionType.CREATE_FOLLOW_UP,
+              title: 'Review {title}',
+            },
+          ],
+        },
+      ]);
+      executor.createTodo.mockRejectedValue(new Error('Index closed'));
+
+      await expect(
+        service.run(
+          [{ before: todo, after: { ...todo, status: TodoStatus.BLOCKED } }],
+          executor,
+          'bob'
+        )
+      ).resolves.toBeUndefined();
+
+      expect(getExecutions()).toEqual([
+        expect.objectContaining({
+          status: AutomationExecutionStatus.FAILED,
+          error: 'Index closed',
+        }),
+      ]);
+    });
+  });
+
+  describe('runDueDateRules', () => {
+    const overdue = { ...todo, dueDate: '2026-02-01T00:00:00.000Z' };
+    const archiveOverdue: AutomationRule = {
+      ...escalation,
+      id: 'rule-2',
+      trigger: AutomationTrigger.DUE_DATE_PASSED,
+      conditions: [],
+      actions: [{ type: AutomationActionType.ARCHIVE }],
+    };
+
+    it('should run once per item and due date', async () => {
+      mockClient.search.mockImplementation(({ index }) => {
+        if (index === TODO_AUTOMATION_RULES_INDEX_NAME) {
+          return Promise.resolve(hits([archiveOverdue]));
+        }
+        if (index === TODO_INDEX_NAME) {
+          return Promise.resolve(
+            hits([overdue, { ...overdue, id: 'todo-2' }])
+          );
+        }
+        return Promise.resolve(
+          hits([
+            {
+              ruleId: 'rule-2',
+              todoId: 'todo-1',
+              dueDate: overdue.dueDate,
+            },
+          ])
+        );
+      });
+      executor.archiveTodo.mockImplementation((id) =>
+        Promise.resolve({ ...overdue, id, archived: true })
+      );
+
+      const count = await service.runDueDateRules(
+        executor,
+        'system',
+        [TodoStatus.COMPLETED_SUCCESS],
+        new Date('2026-03-01T00:00:00.000Z')
+      );
+
+      expect(count).toBe(1);
+      expect(executor.archiveTodo).toHaveBeenCalledTimes(1);
+      expect(executor.archiveTodo).toHaveBeenCalledWith('todo-2');
+      expect(getExecutions()[0]).toMatchObject({
+        todoId: 'todo-2',
+        dueDate: overdue.dueDate,
+      });
+    });
+
+    it('should reach the items past a batch that already ran', async () => {
+      // A full batch of the oldest items ran; a newer one did not
+      const older = Array.from({ length: AUTOMATION_BATCH_SIZE }, (_, i) => ({
+        ...overdue,
+        id: `old-${i}`,
+      }));
+      const newer = {
+        ...overdue,
+        id: 'new-1',
+        dueDate: '2026-02-15T00:00:00.000Z',
+      };
+      const page = (items: TodoItem[]) => ({
+        body: {
+          hits: {
+            hits: items.map((item) => ({
+              _source: item,
+              sort: [Date.parse(item.dueDate!), item.id],
+            })),
+          },
+        },
+      });
+      mockClient.search.mockImplementation(({ index, body }) => {
+        if (index === TODO_AUTOMATION_RULES_INDEX_NAME) {
+          return Promise.resolve(hits([archiveOverdue]));
+        }
+        if (index === TODO_INDEX_NAME) {
+          return Promise.resolve(page(body.search_after ? [newer] : older));
+        }
+        const todoIds: string[] = body.query.bool.filter[1].terms.todoId;
+        return Promise.resolve(
+          hits(
+            todoIds
+              .filter((id) => id.startsWith('old-'))
+              .map((todoId) => ({
+                ruleId: 'rule-2',
+                todoId,
+                dueDate: overdue.dueDate,
+              }))
+          )
+        );
+      });
+      executor.archiveTodo.mockImplementation((id) =>
+        Promise.resolve({ ...newer, id, archived: true })
+      );
+
+      const count = await service.runDueDateRules(
+        executor,
+        'system',
+        [TodoStatus.COMPLETED_SUCCESS],
+        new Date('2026-03-01T00:00:00.000Z')
+      );
+
+      expect(count).toBe(1);
+      expect(executor.archiveTodo).toHaveBeenCalledWith('new-1');
+      const todoSearches = mockClient.search.mock.calls
+        .map(([request]) => request)
+        .filter(({ index }) => index === TODO_INDEX_NAME);
+      expect(todoSearches).toHaveLength(2);
+      expect(todoSearches[1].body.search_after).toEqual([
+        Date.parse(overdue.dueDate),
+        `old-${AUTOMATION_BATCH_SIZE - 1}`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,661 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { buildTrashQuery } from "./trash.service";
+import {
+  AutomationAction,
+  AutomationActionType,
+  AutomationExecution,
+  AutomationExecutionStatus,
+  AutomationRule,
+  AutomationTrigger,
+  CreateTodoRequest,
+  SaveAutomationRuleRequest,
+  TodoItem,
+  TodoPriority,
+  UpdateTodoRequest,
+} from "../../common/types";
+import {
+  AUTOMATION_FIELD_LABELS,
+  isListOperator,
+  isValuelessOperator,
+  matchesConditions,
+} from "../../common/automation";
+import {
+  TODO_INDEX_NAME,
+  TODO_AUTOMATION_RULES_INDEX_NAME,
+  TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+  AUTOMATION_BATCH_SIZE,
+} from "../../common/constants";
+
+// Upper bound for the rules read at once
+const MAX_RULES = 100;
+
+// How long the rules read for one write are reused for the next ones
+const RULE_CACHE_MS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Writes the actions of a rule make
+ * The TodoService provides them; its writes do not run the rules again, so
+ * rules cannot trigger each other in a loop.
+ */
+export interface AutomationExecutor {
+  updateTodo(id: string, changes: UpdateTodoRequest): Promise<TodoItem>;
+  archiveTodo(id: string): Promise<TodoItem>;
+  createTodo(data: CreateTodoRequest, projectId?: string): Promise<TodoItem>;
+}
+
+/**
+ * One item written; `before` is missing for new items
+ */
+export interface AutomationChange {
+  before?: TodoItem;
+  after: TodoItem;
+}
+
+/**
+ * Thrown when a rule cannot be saved as it is
+ */
+export class AutomationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutomationValidationError";
+  }
+}
+
+const addDays = (now: Date, days: number): string =>
+  new Date(now.getTime() + days * DAY_MS).toISOString();
+
+/**
+ * Triggers raised by a write to one item
+ */
+export const getTriggers = ({
+  before,
+  after,
+}: AutomationChange): AutomationTrigger[] => {
+  if (!before) {
+    return [AutomationTrigger.CREATED];
+  }
+  const triggers: AutomationTrigger[] = [];
+  if (before.status !== after.status) {
+    triggers.push(AutomationTrigger.STATUS_CHANGED);
+  }
+  if (before.priority !== after.priority) {
+    triggers.push(AutomationTrigger.PRIORITY_CHANGED);
+  }
+  return triggers;
+};
+
+/**
+ * @throws AutomationValidationError when a condition or action misses the
+ * values it needs
+ */
+export const validateRule = (data: SaveAutomationRuleRequest): void => {
+  data.conditions.forEach((condition) => {
+    const label = AUTOMATION_FIELD_LABELS[condition.field];
+    if (isValuelessOperator(condition.operator)) {
+      return;
+    }
+    const values = Array.isArray(condition.value)
+      ? condition.value
+      : [condition.value];
+    if (isListOperator(condition.operator) !== Array.isArray(condition.value)) {
+      throw new AutomationValidationError(
+        `${label}: ${condition.operator} takes ` +
+          (isListOperator(condition.operator) ? "a list" : "a single value")
+      );
+    }
+    if (values.length === 0 || values.some((value) => !value)) {
+      throw new AutomationValidationError(`${label}: enter a value`);
+    }
+  });
+
+  data.actions.forEach((action) => {
+    switch (action.type) {
+      case AutomationActionType.SET_FIELD:
+        if (!action.field || !action.value) {
+          throw new AutomationValidationError(
+            "Set field needs a field and a value"
+          );
+        }
+        if (
+          action.field === "priority" &&
+          !Object.values(TodoPriority).includes(action.value as TodoPriority)
+        ) {
+          throw new AutomationValidationError(
+            `Unknown priority: ${action.value}`
+          );
+        }
+        if (action.field === "dueDate" && !/^\d+$/.test(action.value)) {
+          throw new AutomationValidationError(
+            "Set the due date as a number of days from the run"
+          );
+        }
+        break;
+      case AutomationActionType.ADD_TAG:
+        if (!action.tag?.trim()) {
+          throw new AutomationValidationError("Add tag needs a tag");
+        }
+        break;
+      case AutomationActionType.ASSIGN:
+        if (!action.assignee?.trim()) {
+          throw new AutomationValidationError("Assign needs an assignee");
+        }
+        break;
+      case AutomationActionType.CREATE_FOLLOW_UP:
+        if (!action.title?.trim()) {
+          throw new AutomationValidationError("A follow-up needs a title");
+        }
+        break;
+    }
+  });
+};
+
+/**
+ * Changes the set field, add tag and assign actions make to an item, in
+ * order; empty when they leave it as it is
+ */
+export const planChanges = (
+  todo: TodoItem,
+  actions: AutomationAction[],
+  now = new Date()
+): UpdateTodoRequest => {
+  const changes: UpdateTodoRequest = {};
+  let tags = todo.tags;
+
+  actions.forEach((action) => {
+    switch (action.type) {
+      case AutomationActionType.SET_FIELD:
+        if (action.field === "status") {
+          changes.status = action.value;
+        } else if (action.field === "priority") {
+          changes.priority = action.value as TodoPriority;
+        } else if (action.field === "dueDate") {
+          changes.dueDate = addDays(now, Number(action.value));
+        }
+        break;
+      case AutomationActionType.ADD_TAG: {
+        const tag = action.tag!.trim().toLowerCase();
+        if (!tags.includes(tag)) {
+          tags = [...tags, tag];
+          changes.tags = tags;
+        }
+        break;
+      }
+      case AutomationActionType.ASSIGN:
+        changes.assignee = action.assignee;
+        changes.assigneeId = action.assigneeId;
+        break;
+    }
+  });
+
+  // Values the item already has are left out
+  (Object.keys(changes) as Array<keyof UpdateTodoRequest>).forEach((key) => {
+    if (key !== "tags" && changes[key] === todo[key]) {
+      delete changes[key];
+    }
+  });
+  return changes;
+};
+
+/**
+ * Item a follow-up action creates; it shares the standards, controls and
+ * assignee of the item that matched
+ */
+export const buildFollowUp = (
+  todo: TodoItem,
+  action: AutomationAction,
+  now = new Date()
+): CreateTodoRequest => ({
+  title: action
+    .title!.replace(/\{title\}/g, todo.title)
+    .slice(0, MAX_TITLE_LENGTH),
+  description: `Follow-up of "${todo.title}" (${todo.id}).`,
+  priority: action.priority || todo.priority,
+  tags: todo.tags,
+  complianceStandards: todo.complianceStandards,
+  controls: todo.controls,
+  assignee: todo.assignee,
+  assigneeId: todo.assigneeId,
+  dueDate:
+    action.dueInDays !== undefined
+      ? addDays(now, action.dueInDays)
+      : undefined,
+});
+
+/**
+ * Line of the execution log for an action
+ */
+export const describeAction = (action: AutomationAction): string => {
+  switch (action.type) {
+    case AutomationActionType.SET_FIELD:
+      return action.field === "dueDate"
+        ? `Set the due date ${action.value} days ahead`
+        : `Set ${action.field} to ${action.value}`;
+    case AutomationActionType.ADD_TAG:
+      return `Added tag ${action.tag}`;
+    case AutomationActionType.ASSIGN:
+      return `Assigned to ${action.assignee}`;
+    case AutomationActionType.ARCHIVE:
+      return "Archived";
+    case AutomationActionType.CREATE_FOLLOW_UP:
+      return `Created follow-up "${action.title}"`;
+    default:
+      return action.type;
+  }
+};
+
+const isFieldAction = (action: AutomationAction) =>
+  action.type === AutomationActionType.SET_FIELD ||
+  action.type === AutomationActionType.ADD_TAG ||
+  action.type === AutomationActionType.ASSIGN;
+
+export class AutomationService {
+  private rules: Promise<AutomationRule[]> | null = null;
+  private rulesReadAt = 0;
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  public listRules(): Promise<AutomationRule[]> {
+    return this.loadRules();
+  }
+
+  public async createRule(
+    data: SaveAutomationRuleRequest,
+    username: string
+  ): Promise<AutomationRule> {
+    validateRule(data);
+    const now = new Date().toISOString();
+    const rule: AutomationRule = {
+      id: uuidv4(),
+      name: data.name.trim(),
+      enabled: data.enabled,
+      trigger: data.trigger,
+      conditions: data.conditions,
+      actions: data.actions,
+      createdBy: username,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveRule(rule);
+    this.logger.info(`Created automation rule: ${rule.id}`);
+    return rule;
+  }
+
+  public async updateRule(
+    id: string,
+    data: SaveAutomationRuleRequest
+  ): Promise<AutomationRule> {
+    validateRule(data);
+    const existing = await this.getRule(id);
+    const rule: AutomationRule = {
+      ...existing,
+      name: data.name.trim(),
+      enabled: data.enabled,
+      trigger: data.trigger,
+      conditions: data.conditions,
+      actions: data.actions,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.saveRule(rule);
+    this.logger.info(`Updated automation rule: ${id}`);
+    return rule;
+  }
+
+  /**
+   * Delete a rule; its executions stay in the log
+   */
+  public async deleteRule(id: string): Promise<void> {
+    await this.getRule(id);
+    const client = this.osService.getClient();
+
+    await client.delete({
+      index: TODO_AUTOMATION_RULES_INDEX_NAME,
+      id,
+      refresh: "wait_for",
+    });
+
+    this.rules = null;
+    this.logger.info(`Deleted automation rule: ${id}`);
+  }
+
+  /**
+   * Latest executions, newest first, optionally of one rule
+   */
+  public async listExecutions(
+    ruleId?: string,
+    size = 50
+  ): Promise<AutomationExecution[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: ruleId
+          ? { bool: { filter: [{ term: { ruleId } }] } }
+          : { match_all: {} },
+        sort: [{ timestamp: { order: "desc", unmapped_type: "date" } }],
+        size,
+      },
+    });
+
+    return response.body.hits.hits.map(
+      (hit: any) => hit._source as AutomationExecution
+    );
+  }
+
+  /**
+   * Run the rules of the triggers each write raised
+   * Rules run in order of name, each on the item as the previous one left
+   * it. The writes have already happened, so failures are logged and
+   * recorded instead of thrown.
+   */
+  public async run(
+    changes: AutomationChange[],
+    executor: AutomationExecutor,
+    actor: string
+  ): Promise<void> {
+    try {
+      const rules = (await this.loadRules()).filter((rule) => rule.enabled);
+      if (rules.length === 0) {
+        return;
+      }
+
+      for (const change of changes) {
+        let todo = change.after;
+        for (const trigger of getTriggers(change)) {
+          for (const rule of rules.filter((r) => r.trigger === trigger)) {
+            todo =
+              (await this.execute(rule, trigger, todo, executor, actor)) ||
+              todo;
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.error("Failed to run automation rules", error);
+    }
+  }
+
+  /**
+   * Run the due date rules on the open items whose due date passed
+   * A rule runs once per item and due date; moving the due date lets it
+   * run again. The overdue items are read page by page, oldest first, so
+   * items that already ran do not hide the newer ones; a run stops after
+   * one batch of executions. Returns the number of executions.
+   */
+  public async runDueDateRules(
+    executor: AutomationExecutor,
+    actor: string,
+    closedStatusIds: string[],
+    now = new Date()
+  ): Promise<number> {
+    const rules = (await this.loadRules()).filter(
+      (rule) =>
+        rule.enabled && rule.trigger === AutomationTrigger.DUE_DATE_PASSED
+    );
+    if (rules.length === 0) {
+      return 0;
+    }
+
+    const client = this.osService.getClient();
+    let executions = 0;
+    let after: unknown[] | undefined;
+
+    while (executions < AUTOMATION_BATCH_SIZE) {
+      const response = await client.search({
+        index: TODO_INDEX_NAME,
+        body: {
+          query: {
+            bool: {
+              filter: [
+                { range: { dueDate: { lt: now.toISOString() } } },
+                { term: { archived: false } },
+                buildTrashQuery(false),
+              ],
+              must_not: [{ terms: { status: closedStatusIds } }],
+            },
+          },
+          sort: [{ dueDate: { order: "asc" } }, { id: { order: "asc" } }],
+          size: AUTOMATION_BATCH_SIZE,
+          ...(after && { search_after: after }),
+        },
+      });
+      const page: any[] = response.body.hits.hits;
+      if (page.length === 0) {
+        break;
+      }
+
+      const todos: TodoItem[] = page.map((hit) => hit._source);
+      const done = await this.getDueDateExecutions(
+        todos.map((todo) => todo.id),
+        rules.map((rule) => rule.id)
+      );
+      for (let todo of todos) {
+        const dueDate = todo.dueDate!;
+        for (const rule of rules) {
+          if (done.has(`${rule.id}:${todo.id}:${dueDate}`)) {
+            continue;
+          }
+          const result = await this.execute(
+            rule,
+            AutomationTrigger.DUE_DATE_PASSED,
+            todo,
+            executor,
+            actor,
+            dueDate
+          );
+          if (result) {
+            todo = result;
+            executions += 1;
+          }
+        }
+      }
+
+      if (page.length < AUTOMATION_BATCH_SIZE) {
+        break;
+      }
+      after = page[page.length - 1].sort;
+    }
+
+    if (executions > 0) {
+      this.logger.info(`Ran ${executions} due date automations`);
+    }
+    return executions;
+  }
+
+  /**
+   * Apply the actions of a rule to an item that meets its conditions and
+   * log the outcome
+   * Returns the item as the rule left it, or null when the rule does not
+   * apply to it.
+   */
+  private async execute(
+    rule: AutomationRule,
+    trigger: AutomationTrigger,
+    todo: TodoItem,
+    executor: AutomationExecutor,
+    actor: string,
+    dueDate?: string
+  ): Promise<TodoItem | null> {
+    if (todo.archived || !matchesConditions(todo, rule.conditions)) {
+      return null;
+    }
+
+    let current = todo;
+    const applied: string[] = [];
+    const followUpIds: string[] = [];
+    let error: string | undefined;
+
+    try {
+      const changes = planChanges(current, rule.actions);
+      if (Object.keys(changes).length > 0) {
+        current = await executor.updateTodo(current.id, changes);
+      }
+      rule.actions.filter(isFieldAction).forEach((action) => {
+        applied.push(describeAction(action));
+      });
+
+      for (const action of rule.actions) {
+        if (action.type === AutomationActionType.CREATE_FOLLOW_UP) {
+          const followUp = await executor.createTodo(
+            buildFollowUp(current, action),
+            current.projectId
+          );
+          followUpIds.push(followUp.id);
+          applied.push(describeAction(action));
+        }
+      }
+
+      if (
+        rule.actions.some(
+          (action) => action.type === AutomationActionType.ARCHIVE
+        )
+      ) {
+        current = await executor.archiveTodo(current.id);
+        applied.push(describeAction({ type: AutomationActionType.ARCHIVE }));
+      }
+    } catch (e: any) {
+      error = e.message;
+      this.logger.warn(
+        `Automation rule ${rule.id} failed on ${todo.id}: ${error}`
+      );
+    }
+
+    await this.saveExecution({
+      id: uuidv4(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      trigger,
+      todoId: todo.id,
+      todoTitle: todo.title,
+      status: error
+        ? AutomationExecutionStatus.FAILED
+        : AutomationExecutionStatus.SUCCEEDED,
+      actions: applied,
+      ...(followUpIds.length > 0 && { followUpIds }),
+      error,
+      actor,
+      dueDate,
+      timestamp: new Date().toISOString(),
+    });
+    return current;
+  }
+
+  // Keys of the rules that already ran on the items for their due date
+  private async getDueDateExecutions(
+    todoIds: string[],
+    ruleIds: string[]
+  ): Promise<Set<string>> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: {
+          bool: {
+            filter: [
+              { term: { trigger: AutomationTrigger.DUE_DATE_PASSED } },
+              { terms: { todoId: todoIds } },
+              { terms: { ruleId: ruleIds } },
+            ],
+          },
+        },
+        size: Math.min(todoIds.length * ruleIds.length, 10000),
+        _source: ["ruleId", "todoId", "dueDate"],
+      },
+    });
+
+    return new Set(
+      response.body.hits.hits.map(
+        ({ _source: execution }: any) =>
+          `${execution.ruleId}:${execution.todoId}:${execution.dueDate}`
+      )
+    );
+  }
+
+  // Rules are read again after a while, as the schedulers keep their
+  // service for the lifetime of the plugin
+  private loadRules(): Promise<AutomationRule[]> {
+    const expired = Date.now() - this.rulesReadAt > RULE_CACHE_MS;
+    if (this.rules && !expired) {
+      return this.rules;
+    }
+
+    const rules = this.osService
+      .getClient()
+      .search({
+        index: TODO_AUTOMATION_RULES_INDEX_NAME,
+        ignore_unavailable: true,
+        body: {
+          sort: [
+            { "name.keyword": { order: "asc", unmapped_type: "keyword" } },
+          ],
+          size: MAX_RULES,
+        },
+      })
+      .then((response) =>
+        response.body.hits.hits.map(
+          (hit: any) => hit._source as AutomationRule
+        )
+      );
+    this.rules = rules;
+    this.rulesReadAt = Date.now();
+    // A failed read is retried on the next call
+    rules.catch(() => {
+      this.rules = null;
+    });
+    return rules;
+  }
+
+  private async getRule(id: string): Promise<AutomationRule> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_AUTOMATION_RULES_INDEX_NAME,
+        id,
+      });
+      return response.body._source as AutomationRule;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(`Automation rule not found: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  private async saveRule(rule: AutomationRule): Promise<void> {
+    await this.osService.getClient().index({
+      index: TODO_AUTOMATION_RULES_INDEX_NAME,
+      id: rule.id,
+      body: rule,
+      refresh: "wait_for",
+    });
+    this.rules = null;
+  }
+
+  private async saveExecution(execution: AutomationExecution): Promise<void> {
+    try {
+      await this.osService.getClient().index({
+        index: TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+        id: execution.id,
+        body: execution,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record automation execution of ${execution.ruleId}`,
+        error
+      );
+    }
+  }
+}
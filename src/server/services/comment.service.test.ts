@@ -0,0 +1,168 @@
+/**
+ * Tests for CommentService - Discussion threads on TODO items
+ */
+import { CommentService } from './comment.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import { TodoItem, TodoStatus, TodoPriority } from '../../common/types';
+import { TODO_COMMENTS_INDEX_NAME } from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  update: jest.fn(),
+  search: jest.fn(),
+  deleteByQuery: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const todo = {
+  id: 'todo-1',
+  title: 'Rotate credentials',
+  status: TodoStatus.PLANNED,
+  priority: TodoPriority.HIGH,
+  archived: false,
+} as TodoItem;
+
+const existingComment = {
+  id: 'comment-1',
+  todoId: 'todo-1',
+  author: 'alice',
+  body: 'First!',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  edited: false,
+};
+
+describe('CommentService', () => {
+  let service: CommentService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CommentService(mockOsService, mockLogger);
+  });
+
+  it('should list comments of a todo oldest first', async () => {
+    mockClient.search.mockResolvedValue({
+      body: { hits: { hits: [{ _source: existingComment }] } },
+    });
+
+    const result = await service.listComments('todo-1');
+
+    expect(result).toEqual([existingComment]);
+    expect(mockClient.search).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: TODO_COMMENTS_INDEX_NAME,
+        body: expect.objectContaining({
+          query: { bool: { filter: [{ term: { todoId: 'todo-1' } }] } },
+        }),
+      })
+    );
+  });
+
+  it('should create a comment with the given author', async () => {
+    mockClient.index.mockResolvedValue({});
+
+    const result = await service.createComment(todo, { body: 'Hello' }, 'alice');
+
+    expect(result.todoId).toBe('todo-1');
+    expect(result.author).toBe('alice');
+    expect(result.edited).toBe(false);
+    expect(result.parentId).toBeUndefined();
+    expect(mockClient.index).toHaveBeenCalledWith(
+      expect.objectContaining({ index: TODO_COMMENTS_INDEX_NAME })
+    );
+  });
+
+  it('should attach replies to a reply to the top-level comment', async () => {
+    mockClient.get.mockResolvedValue({
+      body: {
+        _source: { ...existingComment, id: 'reply-1', parentId: 'comment-1' },
+      },
+    });
+    mockClient.index.mockResolvedValue({});
+
+    const result = await service.createComment(
+      todo,
+      { body: 'Nested', parentId: 'reply-1' },
+      'bob'
+    );
+
+    expect(result.parentId).toBe('comment-1');
+  });
+
+  it('should reject comments on archived todos', async () => {
+    await expect(
+      service.createComment({ ...todo, archived: true }, { body: 'Hi' }, 'alice')
+    ).rejects.toThrow('archived');
+    expect(mockClient.index).not.toHaveBeenCalled();
+  });
+
+  it('should only let the author edit a comment', async () => {
+    mockClient.get.mockResolvedValue({ body: { _source: existingComment } });
+    mockClient.update.mockResolvedValue({});
+
+    await expect(
+      service.updateComment('todo-1', 'comment-1', 'Changed', 'mallory')
+    ).rejects.toThrow('Only the author');
+
+    const updated = await service.updateComment(
+      'todo-1',
+      'comment-1',
+      'Changed',
+      'alice'
+    );
+    expect(updated.body).toBe('Changed');
+    expect(updated.edited).toBe(true);
+  });
+
+  it('should not find a comment through another todo', async () => {
+    mockClient.get.mockResolvedValue({ body: { _source: existingComment } });
+
+    await expect(
+      service.deleteComment('todo-2', 'comment-1', 'alice')
+    ).rejects.toThrow('Comment not found');
+  });
+
+  it('should delete a comment together with its replies', async () => {
+    mockClient.get.mockResolvedValue({ body: { _source: existingComment } });
+    mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 3 } });
+
+    const result = await service.deleteComment('todo-1', 'comment-1', 'alice');
+
+    expect(result.deleted).toBe(3);
+    expect(mockClient.deleteByQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: {
+          query: {
+            bool: {
+              should: [
+                { term: { id: 'comment-1' } },
+                { term: { parentId: 'comment-1' } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+        },
+      })
+    );
+  });
+
+  it('should skip the cascade when no todo ids are given', async () => {
+    const result = await service.deleteCommentsForTodos([]);
+
+    expect(result.deleted).toBe(0);
+    expect(mockClient.deleteByQuery).not.toHaveBeenCalled();
+  });
+});
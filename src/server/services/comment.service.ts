@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  TodoItem,
+  TodoComment,
+  CreateCommentRequest,
+} from "../../common/types";
+import { TODO_COMMENTS_INDEX_NAME } from "../../common/constants";
+
+// Upper bound for a single discussion thread
+const MAX_COMMENTS_PER_TODO = 500;
+
+export class CommentService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List all comments of a TODO item, oldest first
+   */
+  public async listComments(todoId: string): Promise<TodoComment[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_COMMENTS_INDEX_NAME,
+      body: {
+        query: {
+          bool: {
+            filter: [{ term: { todoId } }],
+          },
+        },
+        sort: [{ createdAt: { order: "asc", unmapped_type: "date" } }],
+        size: MAX_COMMENTS_PER_TODO,
+      },
+    });
+
+    return response.body.hits.hits.map(
+      (hit: any) => hit._source as TodoComment
+    );
+  }
+
+  public async getCommentById(id: string): Promise<TodoComment | null> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_COMMENTS_INDEX_NAME,
+        id,
+      });
+
+      return response.body._source as TodoComment;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add a comment to a TODO item
+   * Archived items keep their thread but do not accept new comments.
+   * Replies to a reply are attached to the top-level comment so threads
+   * stay one level deep.
+   */
+  public async createComment(
+    todo: TodoItem,
+    data: CreateCommentRequest,
+    author: string
+  ): Promise<TodoComment> {
+    if (todo.archived) {
+      throw new Error("Cannot comment on an archived TODO item");
+    }
+
+    let parentId: string | undefined;
+    if (data.parentId) {
+      const parent = await this.getTodoComment(todo.id, data.parentId);
+      parentId = parent.parentId || parent.id;
+    }
+
+    const client = this.osService.getClient();
+    const now = new Date().toISOString();
+
+    const comment: TodoComment = {
+      id: uuidv4(),
+      todoId: todo.id,
+      parentId,
+      author,
+      body: data.body,
+      createdAt: now,
+      updatedAt: now,
+      edited: false,
+    };
+
+    await client.index({
+      index: TODO_COMMENTS_INDEX_NAME,
+      id: comment.id,
+      body: comment,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Created comment ${comment.id} on TODO item: ${todo.id}`);
+    return comment;
+  }
+
+  public async updateComment(
+    todoId: string,
+    commentId: string,
+    body: string,
+    author: string
+  ): Promise<TodoComment> {
+    const existing = await this.getTodoComment(todoId, commentId);
+
+    if (existing.author !== author) {
+      throw new Error("Only the author can edit this comment");
+    }
+
+    const client = this.osService.getClient();
+    const updated: TodoComment = {
+      ...existing,
+      body,
+      updatedAt: new Date().toISOString(),
+      edited: true,
+    };
+
+    await client.update({
+      index: TODO_COMMENTS_INDEX_NAME,
+      id: commentId,
+      body: { doc: updated },
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Updated comment: ${commentId}`);
+    return updated;
+  }
+
+  /**
+   * Delete a comment together with its replies
+   */
+  public async deleteComment(
+    todoId: string,
+    commentId: string,
+    author: string
+  ): Promise<{ deleted: number }> {
+    const existing = await this.getTodoComment(todoId, commentId);
+
+    if (existing.author !== author) {
+      throw new Error("Only the author can delete this comment");
+    }
+
+    const client = this.osService.getClient();
+
+    const response = await client.deleteByQuery({
+      index: TODO_COMMENTS_INDEX_NAME,
+      body: {
+        query: {
+          bool: {
+            should: [
+              { term: { id: commentId } },
+              { term: { parentId: commentId } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+      },
+      refresh: true,
+    });
+
+    const deleted = response.body.deleted || 0;
+    this.logger.info(`Deleted comment ${commentId} and its replies`);
+
+    return { deleted };
+  }
+
+  /**
+   * Delete every comment of the given TODO items (cascade on TODO delete)
+   * Pass no ids to remove all comments.
+   */
+  public async deleteCommentsForTodos(
+    todoIds?: string[]
+  ): Promise<{ deleted: number }> {
+    if (todoIds && todoIds.length === 0) {
+      return { deleted: 0 };
+    }
+
+    const client = this.osService.getClient();
+
+    const response = await client.deleteByQuery({
+      index: TODO_COMMENTS_INDEX_NAME,
+      body: {
+        query: todoIds
+          ? { terms: { todoId: todoIds } }
+          : { match_all: {} },
+      },
+      refresh: true,
+      ignore_unavailable: true,
+    });
+
+    const deleted = response.body.deleted || 0;
+    if (deleted > 0) {
+      this.logger.info(`Deleted ${deleted} comments of removed TODO items`);
+    }
+
+    return { deleted };
+  }
+
+  /**
+   * Fetch a comment and make sure it belongs to the given TODO item
+   */
+  private async getTodoComment(
+    todoId: string,
+    commentId: string
+  ): Promise<TodoComment> {
+    const comment = await this.getCommentById(commentId);
+
+    if (!comment || comment.todoId !== todoId) {
+      throw new Error(`Comment not found: ${commentId}`);
+    }
+
+    return comment;
+  }
+}
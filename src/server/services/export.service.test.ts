@@ -0,0 +1,115 @@
+/**
+ * Tests for the export formats
+ */
+import { formatExport, getExportFileName } from './export.service';
+import { TodoItem, TodoPriority, TodoStatus } from '../../common/types';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+
+const todo = (overrides: Partial<TodoItem> = {}): TodoItem => ({
+  id: 'todo-1',
+  title: 'Rotate keys',
+  status: TodoStatus.IN_PROGRESS,
+  priority: TodoPriority.HIGH,
+  tags: ['crypto', 'q1'],
+  complianceStandards: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+  archived: false,
+  ...overrides,
+});
+
+async function* batches(...items: TodoItem[][]) {
+  for (const batch of items) {
+    yield batch;
+  }
+}
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) {
+    text += chunk;
+  }
+  return text;
+};
+
+describe('formatExport', () => {
+  it('should write CSV with labels and escaped cells', async () => {
+    const text = await collect(
+      formatExport(
+        batches(
+          [todo()],
+          [todo({ id: 'todo-2', title: 'Patch "A", B', tags: [] })]
+        ),
+        'csv',
+        ['title', 'status', 'tags'],
+        DEFAULT_WORKFLOW
+      )
+    );
+
+    expect(text).toBe(
+      '\uFEFFTitle,Status,Tags\r\n' +
+        'Rotate keys,In Progress,crypto; q1\r\n' +
+        '"Patch ""A"", B",In Progress,\r\n'
+    );
+  });
+
+  it('should keep spreadsheets from running cells as formulas', async () => {
+    const text = await collect(
+      formatExport(
+        batches([todo({ title: '=HYPERLINK("x")' })]),
+        'csv',
+        ['title'],
+        DEFAULT_WORKFLOW
+      )
+    );
+
+    expect(text.split('\r\n')[1]).toBe('"\'=HYPERLINK(""x"")"');
+  });
+
+  it('should write a Markdown table', async () => {
+    const text = await collect(
+      formatExport(
+        batches([todo({ title: 'A | B\nC' })]),
+        'md',
+        ['title', 'priority'],
+        DEFAULT_WORKFLOW
+      )
+    );
+
+    expect(text).toBe(
+      '| Title | Priority |\n| --- | --- |\n| A \\| B<br>C | high |\n'
+    );
+  });
+
+  it('should write a JSON array of the selected fields', async () => {
+    const text = await collect(
+      formatExport(
+        batches([todo()], [], [todo({ id: 'todo-2' })]),
+        'json',
+        ['id', 'tags'],
+        DEFAULT_WORKFLOW
+      )
+    );
+
+    expect(JSON.parse(text)).toEqual([
+      { id: 'todo-1', tags: ['crypto', 'q1'] },
+      { id: 'todo-2', tags: ['crypto', 'q1'] },
+    ]);
+  });
+
+  it('should write an empty JSON array without items', async () => {
+    const text = await collect(
+      formatExport(batches(), 'json', ['id'], DEFAULT_WORKFLOW)
+    );
+
+    expect(JSON.parse(text)).toEqual([]);
+  });
+});
+
+describe('getExportFileName', () => {
+  it('should name the file by date and format', () => {
+    expect(getExportFileName('md', new Date('2026-03-01T12:00:00Z'))).toBe(
+      'todos-2026-03-01.md'
+    );
+  });
+});
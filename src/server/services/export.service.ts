@@ -0,0 +1,122 @@
+import { Readable } from "stream";
+import { TodoItem, WorkflowDefinition } from "../../common/types";
+import {
+  TodoExportFormat,
+  TodoExportColumn,
+  EXPORT_COLUMN_LABELS,
+} from "../../common/export";
+import { getStatusLabel } from "../../common/workflow";
+
+export const EXPORT_CONTENT_TYPES: Record<TodoExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+/**
+ * Name of the downloaded file, e.g. "todos-2026-03-01.csv"
+ */
+export const getExportFileName = (
+  format: TodoExportFormat,
+  now = new Date()
+): string => `todos-${now.toISOString().slice(0, 10)}.${format}`;
+
+// Cell text of a field in CSV and Markdown files
+const formatCell = (
+  todo: TodoItem,
+  column: TodoExportColumn,
+  workflow: WorkflowDefinition
+): string => {
+  const value = todo[column];
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (column === "status") {
+    return getStatusLabel(workflow, String(value));
+  }
+  return Array.isArray(value) ? value.join("; ") : String(value);
+};
+
+// Spreadsheets run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvLine = (cells: string[]): string =>
+  cells
+    .map((cell) => (FORMULA_PREFIX.test(cell) ? `'${cell}` : cell))
+    .map((cell) =>
+      /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+    )
+    .join(",") + "\r\n";
+
+const toMarkdownLine = (cells: string[]): string =>
+  `| ${cells
+    .map((cell) =>
+      cell
+        .replace(/\\/g, "\\\\")
+        .replace(/\|/g, "\\|")
+        .replace(/\r?\n/g, "<br>")
+    )
+    .join(" | ")} |\n`;
+
+const pickColumns = (todo: TodoItem, columns: TodoExportColumn[]) =>
+  columns.reduce<Partial<TodoItem>>(
+    (item, column) => ({ ...item, [column]: todo[column] }),
+    {}
+  );
+
+/**
+ * Text of an export file, produced one chunk per batch of items
+ * JSON files hold an array of the selected fields; CSV and Markdown files
+ * show status labels and join lists with semicolons.
+ */
+export async function* formatExport(
+  batches: AsyncIterable<TodoItem[]>,
+  format: TodoExportFormat,
+  columns: TodoExportColumn[],
+  workflow: WorkflowDefinition
+): AsyncGenerator<string> {
+  const labels = columns.map((column) => EXPORT_COLUMN_LABELS[column]);
+  const cells = (todo: TodoItem) =>
+    columns.map((column) => formatCell(todo, column, workflow));
+
+  if (format === "csv") {
+    // The byte order mark makes spreadsheets read the file as UTF-8
+    yield "\uFEFF" + toCsvLine(labels);
+  } else if (format === "md") {
+    yield toMarkdownLine(labels) + toMarkdownLine(columns.map(() => "---"));
+  } else {
+    yield "[";
+  }
+
+  let isFirst = true;
+  for await (const batch of batches) {
+    if (batch.length === 0) {
+      continue;
+    }
+    if (format === "csv") {
+      yield batch.map((todo) => toCsvLine(cells(todo))).join("");
+    } else if (format === "md") {
+      yield batch.map((todo) => toMarkdownLine(cells(todo))).join("");
+    } else {
+      const items = batch.map(
+        (todo) => `\n  ${JSON.stringify(pickColumns(todo, columns))}`
+      );
+      yield (isFirst ? "" : ",") + items.join(",");
+    }
+    isFirst = false;
+  }
+
+  if (format === "json") {
+    yield isFirst ? "]\n" : "\n]\n";
+  }
+}
+
+/**
+ * Stream of an export file for the response body
+ */
+export const createExportStream = (
+  batches: AsyncIterable<TodoItem[]>,
+  format: TodoExportFormat,
+  columns: TodoExportColumn[],
+  workflow: WorkflowDefinition
+): Readable => Readable.from(formatExport(batches, format, columns, workflow));
@@ -0,0 +1,164 @@
+/**
+ * Tests for HistoryService - Field-level change history
+ */
+import { HistoryService, diffTodoFields } from './history.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import { TodoHistoryAction, TodoStatus } from '../../common/types';
+import { TODO_HISTORY_INDEX_NAME } from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  search: jest.fn(),
+  bulk: jest.fn(),
+  transport: { request: jest.fn() },
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const getRecordedEntries = () =>
+  mockClient.bulk.mock.calls[0][0].body.filter(
+    (_: unknown, index: number) => index % 2 === 1
+  );
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.transport.request.mockResolvedValue({
+      body: { user_name: 'alice' },
+    });
+    mockClient.bulk.mockResolvedValue({ body: { errors: false } });
+    service = new HistoryService(mockOsService, mockLogger);
+  });
+
+  describe('diffTodoFields', () => {
+    it('should list only changed fields', () => {
+      const changes = diffTodoFields(
+        { title: 'A', tags: ['pci'], status: TodoStatus.PLANNED },
+        { title: 'A', tags: ['pci', 'soc'], status: TodoStatus.BLOCKED }
+      );
+
+      expect(changes).toEqual([
+        { field: 'tags', oldValue: ['pci'], newValue: ['pci', 'soc'] },
+        {
+          field: 'status',
+          oldValue: TodoStatus.PLANNED,
+          newValue: TodoStatus.BLOCKED,
+        },
+      ]);
+    });
+
+    it('should ignore timestamps and cleared fields that were never set', () => {
+      const changes = diffTodoFields(
+        { updatedAt: '2024-01-01', assignee: undefined },
+        { updatedAt: '2024-02-01' }
+      );
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  it('should record one entry per changed field with the current user', async () => {
+    await service.recordChanges(TodoHistoryAction.UPDATE, [
+      {
+        todoId: 'todo-1',
+        before: { id: 'todo-1', title: 'Old', assignee: 'bob' },
+        after: { id: 'todo-1', title: 'New', assignee: 'carol' },
+      },
+    ]);
+
+    const entries = getRecordedEntries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual(
+      expect.objectContaining({
+        todoId: 'todo-1',
+        action: TodoHistoryAction.UPDATE,
+        field: 'title',
+        oldValue: 'Old',
+        newValue: 'New',
+        actor: 'alice',
+      })
+    );
+    expect(mockClient.bulk.mock.calls[0][0].body[0]).toEqual({
+      index: expect.objectContaining({ _index: TODO_HISTORY_INDEX_NAME }),
+    });
+  });
+
+  it('should keep a snapshot of deleted items', async () => {
+    await service.recordChanges(TodoHistoryAction.DELETE, [
+      { todoId: 'todo-1', before: { id: 'todo-1', title: 'Gone' } },
+    ]);
+
+    expect(getRecordedEntries()).toEqual([
+      expect.objectContaining({
+        action: TodoHistoryAction.DELETE,
+        oldValue: { id: 'todo-1', title: 'Gone' },
+      }),
+    ]);
+  });
+
+  it('should skip the write when nothing changed', async () => {
+    await service.recordChanges(TodoHistoryAction.UPDATE, [
+      { todoId: 'todo-1', before: { title: 'Same' }, after: { title: 'Same' } },
+    ]);
+
+    expect(mockClient.bulk).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to anonymous when security is disabled', async () => {
+    mockClient.transport.request.mockRejectedValue(
+      Object.assign(new Error('Bad Request'), {
+        statusCode: 400,
+        body: {
+          error: 'no handler found for uri [/_plugins/_security/authinfo]',
+        },
+      })
+    );
+
+    await service.recordChanges(TodoHistoryAction.CREATE, [
+      { todoId: 'todo-1', after: { id: 'todo-1' } },
+    ]);
+
+    expect(getRecordedEntries()[0].actor).toBe('anonymous');
+  });
+
+  it('should not throw when the history index is unavailable', async () => {
+    mockClient.bulk.mockRejectedValue(new Error('Cluster unavailable'));
+
+    await expect(
+      service.recordChanges(TodoHistoryAction.CREATE, [
+        { todoId: 'todo-1', after: { id: 'todo-1' } },
+      ])
+    ).resolves.toBeUndefined();
+    expect(mockLogger.error).toHaveBeenCalled();
+  });
+
+  it('should get the history of a todo newest first', async () => {
+    mockClient.search.mockResolvedValue({
+      body: { hits: { hits: [{ _source: { id: 'h1', todoId: 'todo-1' } }] } },
+    });
+
+    const result = await service.getHistory('todo-1');
+
+    expect(result).toEqual([{ id: 'h1', todoId: 'todo-1' }]);
+    expect(mockClient.search).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: TODO_HISTORY_INDEX_NAME,
+        body: expect.objectContaining({
+          sort: [{ timestamp: { order: 'desc', unmapped_type: 'date' } }],
+        }),
+      })
+    );
+  });
+});
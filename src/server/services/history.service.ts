@@ -0,0 +1,206 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { AuthService } from "./auth.service";
+import {
+  TodoItem,
+  TodoHistoryAction,
+  TodoHistoryEntry,
+} from "../../common/types";
+import { TODO_HISTORY_INDEX_NAME } from "../../common/constants";
+
+// Fields that change on every write or never change, so they carry no audit
+// value. SLA progress is derived from the status and priority changes, a new
+// assignee is recorded under its display name and the users of the writes
+// are the actors of the entries. Moves in and out of the trash have actions
+// of their own.
+const UNTRACKED_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "version",
+  "sla",
+  "assigneeId",
+  "createdBy",
+  "updatedBy",
+  "archivedBy",
+  "completedBy",
+  "deletedAt",
+  "deletedBy",
+]);
+
+// Upper bound for a single history request
+const MAX_HISTORY_ENTRIES = 1000;
+
+export interface FieldChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/**
+ * State of a TODO item before and after a write
+ * A missing `before` is a create or a restore from the trash, a missing
+ * `after` is a delete or a purge.
+ */
+export interface TodoChange {
+  todoId: string;
+  before?: Partial<TodoItem> | null;
+  after?: Partial<TodoItem> | null;
+}
+
+/**
+ * List the tracked fields whose value differs between two versions of a TODO item
+ */
+export const diffTodoFields = (
+  before: Partial<TodoItem>,
+  after: Partial<TodoItem>
+): FieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: FieldChange[] = [];
+
+  fields.forEach((field) => {
+    if (UNTRACKED_FIELDS.has(field)) return;
+
+    const oldValue = (before as Record<string, unknown>)[field];
+    const newValue = (after as Record<string, unknown>)[field];
+
+    // Compare serialized values so arrays and nested objects compare by content
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+
+  return changes;
+};
+
+export class HistoryService {
+  private readonly authService: AuthService;
+  private actor: Promise<string> | null = null;
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {
+    this.authService = new AuthService(osService, logger);
+  }
+
+  /**
+   * Get the history of a TODO item, newest first
+   * Entries outlive the item so deletions stay auditable.
+   */
+  public async getHistory(todoId: string): Promise<TodoHistoryEntry[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_HISTORY_INDEX_NAME,
+      body: {
+        query: {
+          bool: {
+            filter: [{ term: { todoId } }],
+          },
+        },
+        sort: [{ timestamp: { order: "desc", unmapped_type: "date" } }],
+        size: MAX_HISTORY_ENTRIES,
+      },
+      ignore_unavailable: true,
+    });
+
+    return response.body.hits.hits.map(
+      (hit: any) => hit._source as TodoHistoryEntry
+    );
+  }
+
+  /**
+   * Record the changes made by a write operation
+   * The write has already happened at this point, so failures are logged
+   * instead of thrown.
+   */
+  public async recordChanges(
+    action: TodoHistoryAction,
+    changes: TodoChange[]
+  ): Promise<void> {
+    try {
+      const actor = await this.getActor();
+      const timestamp = new Date().toISOString();
+
+      const entries = changes.flatMap((change) =>
+        this.toEntries(action, change).map((entry) => ({
+          ...entry,
+          id: uuidv4(),
+          todoId: change.todoId,
+          action,
+          actor,
+          timestamp,
+        }))
+      );
+
+      if (entries.length === 0) {
+        return;
+      }
+
+      const client = this.osService.getClient();
+      const operations = entries.flatMap((entry) => [
+        { index: { _index: TODO_HISTORY_INDEX_NAME, _id: entry.id } },
+        entry,
+      ]);
+
+      const response = await client.bulk({
+        body: operations,
+        refresh: "wait_for",
+      });
+
+      if (response.body.errors) {
+        this.logger.warn(`Some history entries of ${action} were not recorded`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record history of ${action}`, error);
+    }
+  }
+
+  /**
+   * Remove all history (for testing cleanup)
+   */
+  public async clearHistory(): Promise<void> {
+    const client = this.osService.getClient();
+
+    await client.deleteByQuery({
+      index: TODO_HISTORY_INDEX_NAME,
+      body: {
+        query: { match_all: {} },
+      },
+      refresh: true,
+      ignore_unavailable: true,
+    });
+  }
+
+  private toEntries(
+    action: TodoHistoryAction,
+    { before, after }: TodoChange
+  ): Array<Pick<TodoHistoryEntry, "field" | "oldValue" | "newValue">> {
+    if (!before && after) {
+      return [{ newValue: after }];
+    }
+    if (before && !after) {
+      return [{ oldValue: before }];
+    }
+    if (before && after) {
+      return diffTodoFields(before, after);
+    }
+
+    this.logger.warn(`Ignoring empty ${action} change`);
+    return [];
+  }
+
+  /**
+   * Username of the current request, looked up once per service instance
+   */
+  public getActor(): Promise<string> {
+    if (!this.actor) {
+      this.actor = this.authService
+        .getCurrentUser()
+        .then((user) => user.username);
+    }
+    return this.actor;
+  }
+}
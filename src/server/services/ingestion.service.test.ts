@@ -0,0 +1,264 @@
+/**
+ * Tests for IngestionService - TODO items from Wazuh alerts
+ */
+import {
+  IngestionService,
+  IngestionValidationError,
+  buildAlertTodo,
+  getAlertCompliance,
+  getAlertFingerprint,
+  matchesRule,
+} from './ingestion.service';
+import { TodoService } from './todo.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  ComplianceStandard,
+  IngestionPolicy,
+  IngestionRule,
+  TodoItem,
+  TodoPriority,
+} from '../../common/types';
+import { DEFAULT_INGESTION_POLICY } from '../../common/ingestion';
+import { getControlKey } from '../../common/controls';
+import {
+  TODO_INDEX_NAME,
+  TODO_INGESTION_INDEX_NAME,
+} from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  search: jest.fn(),
+  update: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+  ensureIndex: jest.fn(),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const alert = (overrides: Record<string, any> = {}) => ({
+  timestamp: '2026-03-01T10:00:00.000Z',
+  rule: {
+    id: '5712',
+    level: 10,
+    description: 'sshd: brute force trying to get access to the system',
+    groups: ['syslog', 'sshd', 'authentication_failed'],
+    pci_dss: ['1.2.1', '10.2.4'],
+    gdpr: ['Art. 5'],
+  },
+  agent: { id: '001', name: 'web-01' },
+  full_log: 'Failed password for root from 10.0.0.9',
+  ...overrides,
+});
+
+const rule: IngestionRule = {
+  id: 'auth',
+  name: 'Authentication failures',
+  enabled: true,
+  groups: ['authentication_failed'],
+};
+
+const policy: IngestionPolicy = {
+  ...DEFAULT_INGESTION_POLICY,
+  enabled: true,
+  rules: [rule],
+};
+
+const alertHits = (ids: string[], source = alert()) => ({
+  body: {
+    hits: {
+      hits: ids.map((id, index) => ({
+        _index: 'wazuh-alerts-4.x-2026.03.01',
+        _id: id,
+        _source: source,
+        sort: [Date.parse('2026-03-01T10:00:00.000Z') + index * 1000],
+      })),
+    },
+  },
+});
+
+const noHits = { body: { hits: { hits: [] } } };
+
+describe('IngestionService', () => {
+  let service: IngestionService;
+  let createTodo: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new IngestionService(mockOsService, mockLogger);
+    createTodo = jest
+      .spyOn(TodoService.prototype, 'createTodo')
+      .mockResolvedValue({ id: 'todo-1' } as TodoItem);
+    mockClient.index.mockResolvedValue({});
+    mockClient.update.mockResolvedValue({});
+    mockClient.get.mockImplementation(({ id }) =>
+      id === 'policy'
+        ? Promise.resolve({ body: { _source: policy } })
+        : Promise.reject({ statusCode: 404 })
+    );
+  });
+
+  describe('matchesRule', () => {
+    it('should require every condition of the rule', () => {
+      expect(matchesRule(alert(), rule)).toBe(true);
+      expect(matchesRule(alert(), { ...rule, minLevel: 12 })).toBe(false);
+      expect(matchesRule(alert(), { ...rule, agents: ['001'] })).toBe(true);
+      expect(matchesRule(alert(), { ...rule, agents: ['db-01'] })).toBe(false);
+    });
+
+    it('should not match with disabled or empty rules', () => {
+      expect(matchesRule(alert(), { ...rule, enabled: false })).toBe(false);
+      expect(matchesRule(alert(), { ...rule, groups: [] })).toBe(false);
+    });
+  });
+
+  describe('getAlertFingerprint', () => {
+    it('should only depend on the fingerprint fields', () => {
+      const fields = ['rule.id', 'agent.id'];
+
+      expect(getAlertFingerprint(alert({ full_log: 'other' }), fields)).toBe(
+        getAlertFingerprint(alert(), fields)
+      );
+      expect(
+        getAlertFingerprint(alert({ agent: { id: '002' } }), fields)
+      ).not.toBe(getAlertFingerprint(alert(), fields));
+    });
+  });
+
+  describe('getAlertCompliance', () => {
+    it('should map the requirements of the rule to known controls', () => {
+      expect(getAlertCompliance(alert())).toEqual({
+        complianceStandards: [
+          ComplianceStandard.PCI_DSS,
+          ComplianceStandard.GDPR,
+        ],
+        controls: [
+          getControlKey(ComplianceStandard.PCI_DSS, '1.2.1'),
+          getControlKey(ComplianceStandard.GDPR, 'Art. 5'),
+        ],
+      });
+    });
+  });
+
+  describe('buildAlertTodo', () => {
+    it('should describe the alert with a link to it', () => {
+      const todo = buildAlertTodo(
+        {
+          index: 'wazuh-alerts-4.x-2026.03.01',
+          id: 'a b',
+          timestamp: '2026-03-01T10:00:00.000Z',
+          alert: alert(),
+        },
+        { ...rule, tags: ['SSH'] },
+        policy,
+        'fp'
+      );
+
+      expect(todo).toMatchObject({
+        title: 'sshd: brute force trying to get access to the system on web-01',
+        priority: TodoPriority.HIGH,
+        tags: ['wazuh', 'ssh'],
+        complianceStandards: [
+          ComplianceStandard.PCI_DSS,
+          ComplianceStandard.GDPR,
+        ],
+        alert: {
+          fingerprint: 'fp',
+          ruleId: '5712',
+          ruleLevel: 10,
+          agent: 'web-01',
+          count: 1,
+          url:
+            '/app/discover#/doc/wazuh-alerts-*/' +
+            'wazuh-alerts-4.x-2026.03.01?id=a%20b',
+        },
+      });
+      expect(todo.description).toContain('Failed password for root');
+    });
+  });
+
+  describe('updatePolicy', () => {
+    it('should reject enabled rules without conditions', async () => {
+      await expect(
+        service.updatePolicy(
+          { ...policy, rules: [{ ...rule, groups: undefined }] },
+          'alice'
+        )
+      ).rejects.toThrow(IngestionValidationError);
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run', () => {
+    it('should do nothing while the ingestion is disabled', async () => {
+      mockClient.get.mockRejectedValue({ statusCode: 404 });
+
+      await expect(service.run()).resolves.toBeNull();
+      expect(mockClient.search).not.toHaveBeenCalled();
+    });
+
+    it('should create one item for repeated alerts', async () => {
+      mockClient.search.mockImplementation(({ index }) =>
+        Promise.resolve(
+          index === TODO_INDEX_NAME ? noHits : alertHits(['a1', 'a2', 'a3'])
+        )
+      );
+
+      const result = await service.run(new Date('2026-03-01T11:00:00Z'));
+
+      expect(result).toMatchObject({ alerts: 3, created: 1, repeated: 2 });
+      expect(createTodo).toHaveBeenCalledTimes(1);
+      expect(createTodo.mock.calls[0][0].alert).toMatchObject({
+        count: 3,
+        documentId: 'a3',
+        firstSeenAt: '2026-03-01T10:00:00.000Z',
+        lastSeenAt: '2026-03-01T10:00:02.000Z',
+      });
+
+      // The next run reads from the last alert on
+      const state = mockClient.index.mock.calls
+        .filter(([request]) => request.index === TODO_INGESTION_INDEX_NAME)
+        .pop()[0].body;
+      expect(state).toMatchObject({
+        checkpoint: '2026-03-01T10:00:02.000Z',
+        checkpointIds: ['a3'],
+        lastRun: { alerts: 3 },
+      });
+    });
+
+    it('should count repeats on the open item of an alert', async () => {
+      mockClient.search.mockImplementation(({ index }) =>
+        Promise.resolve(
+          index === TODO_INDEX_NAME
+            ? { body: { hits: { hits: [{ _id: 'todo-7' }] } } }
+            : alertHits(['a1', 'a2'])
+        )
+      );
+
+      const result = await service.run();
+
+      expect(result).toMatchObject({ created: 0, repeated: 2 });
+      expect(createTodo).not.toHaveBeenCalled();
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'todo-7',
+          body: {
+            script: expect.objectContaining({
+              params: expect.objectContaining({ count: 2, documentId: 'a2' }),
+            }),
+          },
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,623 @@
+import { createHash } from "crypto";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { TodoService } from "./todo.service";
+import { WorkflowService } from "./workflow.service";
+import { buildTrashQuery } from "./trash.service";
+import {
+  ComplianceStandard,
+  CreateTodoRequest,
+  IngestionPolicy,
+  IngestionRule,
+  IngestionRunResult,
+  IngestionStatus,
+  TodoAlertSource,
+  WorkflowStatusCategory,
+} from "../../common/types";
+import {
+  DEFAULT_INGESTION_POLICY,
+  getLevelPriority,
+} from "../../common/ingestion";
+import { getControlKey, isKnownControl } from "../../common/controls";
+import { getStatusIdsByCategory } from "../../common/workflow";
+import {
+  TODO_INDEX_NAME,
+  TODO_INGESTION_INDEX_NAME,
+  INGESTION_BATCH_SIZE,
+  INGESTION_MAX_ALERTS_PER_RUN,
+} from "../../common/constants";
+
+// The policy and the progress of the ingestion are single documents
+const POLICY_DOC_ID = "policy";
+const STATE_DOC_ID = "state";
+
+// Longest full log quoted in the description of an item
+const MAX_LOG_LENGTH = 2000;
+const MAX_TITLE_LENGTH = 200;
+
+// Wazuh rule fields holding the requirements of each standard
+const COMPLIANCE_FIELDS: Array<[string, ComplianceStandard]> = [
+  ["pci_dss", ComplianceStandard.PCI_DSS],
+  ["gdpr", ComplianceStandard.GDPR],
+  ["hipaa", ComplianceStandard.HIPAA],
+  ["nist_800_53", ComplianceStandard.NIST],
+];
+
+type Alert = Record<string, any>;
+
+/**
+ * Alert read from the alerts index
+ * `timestamp` is the ISO time the alerts are read in order of.
+ */
+export interface AlertHit {
+  index: string;
+  id: string;
+  timestamp: string;
+  alert: Alert;
+}
+
+// Progress of the ingestion; the alerts at the checkpoint time were read
+// already and are skipped, as the next run reads from that time on again
+interface IngestionState extends IngestionStatus {
+  checkpointIds?: string[];
+}
+
+/**
+ * Thrown when an ingestion policy cannot be used
+ */
+export class IngestionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IngestionValidationError";
+  }
+}
+
+/**
+ * Value at a dotted path of an alert, e.g. `rule.level`
+ */
+export const getAlertField = (alert: Alert, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<any>(
+      (value, key) => (value == null ? undefined : value[key]),
+      alert
+    );
+
+const asList = (value: unknown): string[] =>
+  value == null ? [] : (Array.isArray(value) ? value : [value]).map(String);
+
+const hasValues = (values?: string[]): values is string[] =>
+  !!values && values.length > 0;
+
+/**
+ * Whether a rule has any condition; one without would match every alert
+ */
+export const hasConditions = (rule: IngestionRule): boolean =>
+  rule.minLevel !== undefined ||
+  hasValues(rule.groups) ||
+  hasValues(rule.agents) ||
+  hasValues(rule.ruleIds);
+
+export const matchesRule = (alert: Alert, rule: IngestionRule): boolean => {
+  if (!rule.enabled || !hasConditions(rule)) {
+    return false;
+  }
+  const anyOf = (values: string[] | undefined, actual: string[]) =>
+    !hasValues(values) || values.some((value) => actual.includes(value));
+
+  return (
+    (rule.minLevel === undefined ||
+      Number(alert.rule?.level) >= rule.minLevel) &&
+    anyOf(rule.groups, asList(alert.rule?.groups)) &&
+    anyOf(rule.agents, [
+      ...asList(alert.agent?.name),
+      ...asList(alert.agent?.id),
+    ]) &&
+    anyOf(rule.ruleIds, asList(alert.rule?.id))
+  );
+};
+
+/**
+ * First rule the alert matches, if any
+ */
+export const findMatchingRule = (
+  alert: Alert,
+  rules: IngestionRule[]
+): IngestionRule | undefined => rules.find((rule) => matchesRule(alert, rule));
+
+/**
+ * Fingerprint of an alert; alerts with the same one are repeats
+ */
+export const getAlertFingerprint = (alert: Alert, fields: string[]): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify(fields.map((field) => getAlertField(alert, field) ?? null))
+    )
+    .digest("hex");
+
+/**
+ * Standards and known controls of the requirements the rule refers to
+ */
+export const getAlertCompliance = (
+  alert: Alert
+): { complianceStandards: ComplianceStandard[]; controls: string[] } => {
+  const complianceStandards: ComplianceStandard[] = [];
+  const controls: string[] = [];
+
+  COMPLIANCE_FIELDS.forEach(([field, standard]) => {
+    const requirements = asList(alert.rule?.[field]);
+    if (requirements.length === 0) {
+      return;
+    }
+    complianceStandards.push(standard);
+    requirements
+      .map((requirement) => getControlKey(standard, requirement))
+      .filter(isKnownControl)
+      .forEach((key) => controls.push(key));
+  });
+
+  return { complianceStandards, controls };
+};
+
+/**
+ * Link to an alert, from a template with `{index}` and `{id}`
+ */
+export const getAlertUrl = (
+  template: string,
+  index: string,
+  id: string
+): string =>
+  template
+    .replace(/\{index\}/g, encodeURIComponent(index))
+    .replace(/\{id\}/g, encodeURIComponent(id));
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * Item for the first alert of a fingerprint
+ * `latest` is the last of the alerts read along with it, if any.
+ */
+export const buildAlertTodo = (
+  first: AlertHit,
+  rule: IngestionRule,
+  policy: IngestionPolicy,
+  fingerprint: string,
+  count = 1,
+  latest: AlertHit = first
+): CreateTodoRequest => {
+  const { alert } = first;
+  const level = Number(alert.rule?.level) || 0;
+  const agent = alert.agent?.name || alert.agent?.id;
+  const description = alert.rule?.description || "Wazuh alert";
+  const url = getAlertUrl(policy.documentUrl, latest.index, latest.id);
+
+  const source: TodoAlertSource = {
+    fingerprint,
+    ruleId: alert.rule?.id !== undefined ? String(alert.rule.id) : undefined,
+    ruleLevel: level,
+    agent,
+    ingestionRuleId: rule.id,
+    index: latest.index,
+    documentId: latest.id,
+    url,
+    count,
+    firstSeenAt: first.timestamp,
+    lastSeenAt: latest.timestamp,
+  };
+
+  const lines = [
+    `Wazuh rule ${source.ruleId ?? "-"} (level ${level}): ${description}`,
+    "",
+    `- Agent: ${agent ?? "-"}`,
+    `- Groups: ${asList(alert.rule?.groups).join(", ") || "-"}`,
+    `- First alert: ${first.timestamp}`,
+    `- [View alert](${url})`,
+  ];
+  if (alert.full_log) {
+    const log = truncate(String(alert.full_log), MAX_LOG_LENGTH);
+    lines.push("", "```", log, "```");
+  }
+
+  const tags = ["wazuh", ...(rule.tags || [])].map((tag) =>
+    tag.trim().toLowerCase()
+  );
+
+  return {
+    title: truncate(
+      agent ? `${description} on ${agent}` : description,
+      MAX_TITLE_LENGTH
+    ),
+    description: lines.join("\n"),
+    priority: rule.priority || getLevelPriority(level),
+    tags: Array.from(new Set(tags.filter(Boolean))),
+    ...getAlertCompliance(alert),
+    alert: source,
+  };
+};
+
+// Query of the alerts a rule matches; the rule is checked again on each
+// alert to know which one matched
+const buildRuleQuery = (rule: IngestionRule) => {
+  const filter: any[] = [];
+  if (rule.minLevel !== undefined) {
+    filter.push({ range: { "rule.level": { gte: rule.minLevel } } });
+  }
+  if (hasValues(rule.groups)) {
+    filter.push({ terms: { "rule.groups": rule.groups } });
+  }
+  if (hasValues(rule.agents)) {
+    filter.push({
+      bool: {
+        should: [
+          { terms: { "agent.name": rule.agents } },
+          { terms: { "agent.id": rule.agents } },
+        ],
+        minimum_should_match: 1,
+      },
+    });
+  }
+  if (hasValues(rule.ruleIds)) {
+    filter.push({ terms: { "rule.id": rule.ruleIds } });
+  }
+  return { bool: { filter } };
+};
+
+/**
+ * Query of the alerts from the given time on that any rule matches
+ */
+export const buildAlertQuery = (
+  policy: IngestionPolicy,
+  from: string,
+  skipIds: string[] = []
+) => ({
+  bool: {
+    filter: [{ range: { [policy.timestampField]: { gte: from } } }],
+    should: policy.rules
+      .filter((rule) => rule.enabled && hasConditions(rule))
+      .map(buildRuleQuery),
+    minimum_should_match: 1,
+    ...(skipIds.length > 0 && { must_not: [{ ids: { values: skipIds } }] }),
+  },
+});
+
+export class IngestionService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get the ingestion policy, falling back to the default one
+   */
+  public async getPolicy(): Promise<IngestionPolicy> {
+    return (
+      (await this.getDocument<IngestionPolicy>(POLICY_DOC_ID)) ||
+      DEFAULT_INGESTION_POLICY
+    );
+  }
+
+  /**
+   * Validate and store a new ingestion policy
+   * Reading another index or timestamp field starts over from the lookback.
+   */
+  public async updatePolicy(
+    policy: IngestionPolicy,
+    actor: string
+  ): Promise<IngestionPolicy> {
+    const ids = new Set<string>();
+    policy.rules.forEach((rule) => {
+      if (ids.has(rule.id)) {
+        throw new IngestionValidationError(`Duplicate rule id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+      if (rule.enabled && !hasConditions(rule)) {
+        throw new IngestionValidationError(
+          `Rule "${rule.name}" needs a condition, otherwise every alert ` +
+            `becomes an item`
+        );
+      }
+    });
+    if (policy.enabled && !policy.rules.some((rule) => rule.enabled)) {
+      throw new IngestionValidationError(
+        "Enable at least one rule to ingest alerts"
+      );
+    }
+
+    const previous = await this.getPolicy();
+    const saved: IngestionPolicy = {
+      enabled: policy.enabled,
+      indexPattern: policy.indexPattern.trim(),
+      timestampField: policy.timestampField.trim(),
+      lookbackMinutes: policy.lookbackMinutes,
+      fingerprintFields: policy.fingerprintFields,
+      documentUrl: policy.documentUrl.trim(),
+      rules: policy.rules,
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    };
+
+    await this.osService.ensureIndex();
+    await this.saveDocument(POLICY_DOC_ID, saved);
+
+    if (
+      previous.indexPattern !== saved.indexPattern ||
+      previous.timestampField !== saved.timestampField
+    ) {
+      const { lastRun } = await this.getStatus();
+      await this.saveDocument(STATE_DOC_ID, { lastRun });
+    }
+
+    this.logger.info("Updated ingestion policy");
+    return saved;
+  }
+
+  /**
+   * Time of the last alert read and the outcome of the last run
+   */
+  public async getStatus(): Promise<IngestionStatus> {
+    const state = await this.getDocument<IngestionState>(STATE_DOC_ID);
+    return { checkpoint: state?.checkpoint, lastRun: state?.lastRun };
+  }
+
+  /**
+   * Turn the alerts raised since the last run into items
+   * Each alert with a new fingerprint creates an item; alerts whose
+   * fingerprint has an open item are counted on it instead. Returns null
+   * while the ingestion is disabled.
+   */
+  public async run(now = new Date()): Promise<IngestionRunResult | null> {
+    const policy = await this.getPolicy();
+    if (!policy.enabled) {
+      return null;
+    }
+
+    const state =
+      (await this.getDocument<IngestionState>(STATE_DOC_ID)) || {};
+    const result: IngestionRunResult = {
+      startedAt: now.toISOString(),
+      alerts: 0,
+      created: 0,
+      repeated: 0,
+    };
+    let checkpoint =
+      state.checkpoint ||
+      new Date(now.getTime() - policy.lookbackMinutes * 60000).toISOString();
+    let checkpointIds = state.checkpointIds || [];
+
+    const todoService = new TodoService(this.osService, this.logger);
+    // Open item of each fingerprint seen during the run
+    const openItems = new Map<string, string>();
+    const closedStatuses = await this.getClosedStatuses();
+
+    try {
+      while (result.alerts < INGESTION_MAX_ALERTS_PER_RUN) {
+        const hits = await this.readAlerts(policy, checkpoint, checkpointIds);
+        if (hits.length === 0) {
+          break;
+        }
+
+        // Alerts of a batch are grouped by fingerprint, in order
+        const groups = new Map<
+          string,
+          { rule: IngestionRule; hits: AlertHit[] }
+        >();
+        hits.forEach((hit) => {
+          const rule = findMatchingRule(hit.alert, policy.rules);
+          if (!rule) {
+            return;
+          }
+          const fingerprint = getAlertFingerprint(
+            hit.alert,
+            policy.fingerprintFields
+          );
+          const group = groups.get(fingerprint) || { rule, hits: [] };
+          group.hits.push(hit);
+          groups.set(fingerprint, group);
+        });
+
+        for (const [fingerprint, group] of groups) {
+          const openId =
+            openItems.get(fingerprint) ||
+            (await this.findOpenItem(fingerprint, closedStatuses));
+          const latest = group.hits[group.hits.length - 1];
+
+          if (openId) {
+            await this.addRepeats(openId, group.hits.length, latest, policy);
+            openItems.set(fingerprint, openId);
+            result.repeated += group.hits.length;
+          } else {
+            const todo = await todoService.createTodo(
+              buildAlertTodo(
+                group.hits[0],
+                group.rule,
+                policy,
+                fingerprint,
+                group.hits.length,
+                latest
+              )
+            );
+            openItems.set(fingerprint, todo.id);
+            result.created += 1;
+            result.repeated += group.hits.length - 1;
+          }
+        }
+
+        // Move the checkpoint past the batch
+        const last = hits[hits.length - 1];
+        const atLast = hits
+          .filter((hit) => hit.timestamp === last.timestamp)
+          .map((hit) => hit.id);
+        checkpointIds =
+          last.timestamp === checkpoint
+            ? [...checkpointIds, ...atLast]
+            : atLast;
+        checkpoint = last.timestamp;
+        result.alerts += hits.length;
+        await this.saveDocument(STATE_DOC_ID, {
+          checkpoint,
+          checkpointIds,
+          lastRun: state.lastRun,
+        });
+
+        if (hits.length < INGESTION_BATCH_SIZE) {
+          break;
+        }
+      }
+    } catch (error: any) {
+      result.error = error.message;
+      this.logger.error("Alert ingestion stopped", error);
+    }
+
+    await this.saveDocument(STATE_DOC_ID, {
+      checkpoint,
+      checkpointIds,
+      lastRun: result,
+    });
+    if (result.alerts > 0) {
+      this.logger.info(
+        `Ingested ${result.alerts} alerts: ${result.created} items created, ` +
+          `${result.repeated} repeats`
+      );
+    }
+    return result;
+  }
+
+  private async readAlerts(
+    policy: IngestionPolicy,
+    from: string,
+    skipIds: string[]
+  ): Promise<AlertHit[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: policy.indexPattern,
+      ignore_unavailable: true,
+      allow_no_indices: true,
+      body: {
+        query: buildAlertQuery(policy, from, skipIds),
+        sort: [
+          {
+            [policy.timestampField]: { order: "asc", unmapped_type: "date" },
+          },
+        ],
+        size: INGESTION_BATCH_SIZE,
+      },
+    });
+
+    return response.body.hits.hits.map((hit: any) => ({
+      index: hit._index,
+      id: hit._id,
+      timestamp: new Date(hit.sort[0]).toISOString(),
+      alert: hit._source,
+    }));
+  }
+
+  // Items in a done or failed status are not counted on: an alert that
+  // comes back after the work was done is new work
+  private async getClosedStatuses(): Promise<string[]> {
+    const workflow = await new WorkflowService(
+      this.osService,
+      this.logger
+    ).getWorkflow();
+    return getStatusIdsByCategory(
+      workflow,
+      WorkflowStatusCategory.DONE,
+      WorkflowStatusCategory.FAILED
+    );
+  }
+
+  private async findOpenItem(
+    fingerprint: string,
+    closedStatuses: string[]
+  ): Promise<string | undefined> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      body: {
+        query: {
+          bool: {
+            filter: [
+              { term: { "alert.fingerprint": fingerprint } },
+              { term: { archived: false } },
+              buildTrashQuery(false),
+            ],
+            must_not: [{ terms: { status: closedStatuses } }],
+          },
+        },
+        sort: [{ createdAt: { order: "desc" } }],
+        size: 1,
+        _source: false,
+      },
+    });
+
+    return response.body.hits.hits[0]?._id;
+  }
+
+  // Count repeats on the item and point it to the latest alert; the
+  // version is bumped so open editors notice the change
+  private async addRepeats(
+    id: string,
+    count: number,
+    latest: AlertHit,
+    policy: IngestionPolicy
+  ): Promise<void> {
+    const client = this.osService.getClient();
+
+    await client.update({
+      index: TODO_INDEX_NAME,
+      id,
+      retry_on_conflict: 3,
+      body: {
+        script: {
+          lang: "painless",
+          source: [
+            "ctx._source.alert.count += params.count;",
+            "ctx._source.alert.lastSeenAt = params.lastSeenAt;",
+            "ctx._source.alert.index = params.index;",
+            "ctx._source.alert.documentId = params.documentId;",
+            "ctx._source.alert.url = params.url;",
+            "ctx._source.version = (ctx._source.version ?: 0) + 1;",
+          ].join(" "),
+          params: {
+            count,
+            lastSeenAt: latest.timestamp,
+            index: latest.index,
+            documentId: latest.id,
+            url: getAlertUrl(policy.documentUrl, latest.index, latest.id),
+          },
+        },
+      },
+    });
+  }
+
+  private async getDocument<T>(id: string): Promise<T | undefined> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_INGESTION_INDEX_NAME,
+        id,
+      });
+      return response.body._source as T;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async saveDocument(
+    id: string,
+    body: IngestionPolicy | IngestionState
+  ): Promise<void> {
+    await this.osService.getClient().index({
+      index: TODO_INGESTION_INDEX_NAME,
+      id,
+      body,
+      refresh: "wait_for",
+    });
+  }
+}
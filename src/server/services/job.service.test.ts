@@ -0,0 +1,253 @@
+/**
+ * Tests for JobService - Background jobs with state and a lock in an index
+ */
+import { JobDefinition, JobService } from './job.service';
+import { OpenSearchService } from './opensearch.service';
+import { MigrationService } from './migration.service';
+import { Logger } from 'src/core/server';
+import { JobRunStatus, JobState } from '../../common/types';
+import { TODO_JOBS_INDEX_NAME } from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  mget: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+  ensureIndex: jest.fn(),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+const conflict = () =>
+  Object.assign(new Error('version_conflict_engine_exception'), {
+    statusCode: 409,
+  });
+
+// States stored for the jobs, keyed by id
+const storeStates = (states: JobState[]) =>
+  mockClient.mget.mockResolvedValue({
+    body: {
+      docs: states.map((state) => ({
+        _id: state.id,
+        found: true,
+        _source: state,
+        _seq_no: 4,
+        _primary_term: 1,
+      })),
+    },
+  });
+
+// Documents written to the jobs index
+const getWrites = () =>
+  mockClient.index.mock.calls.map(([request]) => request);
+
+describe('JobService', () => {
+  let job: JobDefinition;
+  let service: JobService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    job = {
+      id: 'cleanup',
+      description: 'Clean up',
+      intervalMs: HOUR,
+      run: jest.fn().mockResolvedValue('3 items removed'),
+    };
+    service = new JobService(mockOsService, mockLogger, [job]);
+    jest
+      .spyOn(MigrationService.prototype, 'isMigrating')
+      .mockResolvedValue(false);
+    (mockOsService.ensureIndex as jest.Mock).mockResolvedValue(undefined);
+    mockClient.index.mockResolvedValue({
+      body: { _seq_no: 5, _primary_term: 1 },
+    });
+  });
+
+  describe('runDue', () => {
+    it('should schedule a job seen for the first time', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: { docs: [{ _id: 'cleanup', found: false }] },
+      });
+
+      await service.runDue(now);
+
+      expect(job.run).not.toHaveBeenCalled();
+      expect(getWrites()).toEqual([
+        {
+          index: TODO_JOBS_INDEX_NAME,
+          id: 'cleanup',
+          op_type: 'create',
+          body: {
+            id: 'cleanup',
+            nextRunAt: '2026-03-01T13:00:00.000Z',
+            consecutiveFailures: 0,
+          },
+        },
+      ]);
+    });
+
+    it('should run a job set to run on start right away', async () => {
+      job.runOnStart = true;
+      mockClient.mget.mockRejectedValue(
+        Object.assign(new Error('index_not_found_exception'), {
+          statusCode: 404,
+        })
+      );
+
+      await service.runDue(now);
+
+      expect(mockOsService.ensureIndex).toHaveBeenCalled();
+      expect(job.run).toHaveBeenCalledWith(mockOsService, mockLogger);
+    });
+
+    it('should not run jobs while an index is migrated', async () => {
+      job.runOnStart = true;
+      (MigrationService.prototype.isMigrating as jest.Mock).mockResolvedValue(
+        true
+      );
+
+      await service.runDue(now);
+
+      expect(job.run).not.toHaveBeenCalled();
+      expect(mockClient.mget).not.toHaveBeenCalled();
+      expect(getWrites()).toEqual([]);
+    });
+
+    it('should skip jobs not due or locked by another node', async () => {
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T11:00:00.000Z',
+          consecutiveFailures: 0,
+          lockedBy: 'node-b',
+          lockedUntil: '2026-03-01T12:05:00.000Z',
+        },
+      ]);
+      await service.runDue(now);
+
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T12:30:00.000Z',
+          consecutiveFailures: 0,
+        },
+      ]);
+      await service.runDue(now);
+
+      expect(job.run).not.toHaveBeenCalled();
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+
+    it('should not run a job another node locked first', async () => {
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T11:00:00.000Z',
+          consecutiveFailures: 0,
+        },
+      ]);
+      mockClient.index.mockRejectedValueOnce(conflict());
+
+      await service.runDue(now);
+
+      expect(job.run).not.toHaveBeenCalled();
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should take an expired lock and record the run', async () => {
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T11:00:00.000Z',
+          consecutiveFailures: 2,
+          lockedBy: 'node-b',
+          lockedUntil: '2026-03-01T11:50:00.000Z',
+        },
+      ]);
+
+      await service.runDue(now);
+
+      const [lock, record] = getWrites();
+      expect(lock).toMatchObject({ if_seq_no: 4, if_primary_term: 1 });
+      expect(lock.body.lockedBy).not.toBe('node-b');
+      expect(lock.body.lockedUntil).toBe('2026-03-01T12:10:00.000Z');
+      expect(job.run).toHaveBeenCalledTimes(1);
+      expect(record).toMatchObject({
+        if_seq_no: 5,
+        if_primary_term: 1,
+        body: {
+          lastStatus: JobRunStatus.SUCCEEDED,
+          lastResult: '3 items removed',
+          lastNode: lock.body.lockedBy,
+          consecutiveFailures: 0,
+        },
+      });
+      expect(record.body).not.toHaveProperty('lockedBy');
+      expect(record.body).not.toHaveProperty('lockedUntil');
+      expect(
+        Date.parse(record.body.nextRunAt) - Date.parse(record.body.lastRunAt)
+      ).toBe(HOUR);
+    });
+
+    it('should record failures without throwing', async () => {
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T11:00:00.000Z',
+          consecutiveFailures: 2,
+        },
+      ]);
+      (job.run as jest.Mock).mockRejectedValue(new Error('Index closed'));
+
+      await expect(service.runDue(now)).resolves.toBeUndefined();
+
+      expect(getWrites()[1].body).toMatchObject({
+        lastStatus: JobRunStatus.FAILED,
+        lastError: 'Index closed',
+        consecutiveFailures: 3,
+      });
+    });
+  });
+
+  describe('listJobs', () => {
+    it('should merge the registry with the stored states', async () => {
+      storeStates([
+        {
+          id: 'cleanup',
+          nextRunAt: '2026-03-01T13:00:00.000Z',
+          lastRunAt: '2026-03-01T11:59:00.000Z',
+          lastStatus: JobRunStatus.FAILED,
+          lastError: 'Index closed',
+          consecutiveFailures: 1,
+          lockedBy: 'node-a',
+          lockedUntil: '2026-03-01T12:09:00.000Z',
+        },
+      ]);
+
+      const jobs = await service.listJobs(now);
+
+      expect(jobs).toEqual([
+        expect.objectContaining({
+          id: 'cleanup',
+          description: 'Clean up',
+          intervalMs: HOUR,
+          nextRunAt: '2026-03-01T13:00:00.000Z',
+          lastError: 'Index closed',
+          consecutiveFailures: 1,
+          running: true,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { hostname } from "os";
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { MigrationService } from "./migration.service";
+import { JobRunStatus, JobState, JobStatus } from "../../common/types";
+import {
+  TODO_JOBS_INDEX_NAME,
+  JOB_CHECK_INTERVAL_MS,
+  JOB_LOCK_MS,
+} from "../../common/constants";
+
+/**
+ * Work the server does on its own, at an interval
+ */
+export interface JobDefinition {
+  id: string;
+  description: string;
+  intervalMs: number;
+  // Run soon after the first start instead of an interval later
+  runOnStart?: boolean;
+  // Runs with the internal user; the text returned sums up the run
+  run: (
+    osService: OpenSearchService,
+    logger: Logger
+  ) => Promise<string | void>;
+}
+
+// State of a job along with the sequence numbers it was read at
+interface StoredJobState {
+  state: JobState;
+  seqNo: number;
+  primaryTerm: number;
+}
+
+const isConflict = (error: any) => error?.statusCode === 409;
+
+/**
+ * Runs the background jobs of the plugin
+ * The state of each job lives in an index shared by the Dashboards nodes.
+ * Before running a job, a node takes its lock with a conditional write, so
+ * only one node runs it at a time; a lock left by a node that died expires
+ * after JOB_LOCK_MS.
+ */
+export class JobService {
+  private timer?: ReturnType<typeof setInterval>;
+  // Jobs this node is running
+  private readonly running = new Set<string>();
+  private readonly nodeId = `${hostname()}-${uuidv4().slice(0, 8)}`;
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger,
+    private readonly jobs: JobDefinition[]
+  ) {}
+
+  /**
+   * Check for due jobs now and then every JOB_CHECK_INTERVAL_MS
+   */
+  public start(): void {
+    this.timer = setInterval(() => this.runDue(), JOB_CHECK_INTERVAL_MS);
+    this.runDue();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run the jobs whose next run has come and that no node is running
+   * Jobs run side by side; failures are recorded in their state. While an
+   * index is migrated no job runs, as their writes would be blocked.
+   */
+  public async runDue(now = new Date()): Promise<void> {
+    try {
+      const migrations = new MigrationService(this.osService, this.logger);
+      if (await migrations.isMigrating()) {
+        this.logger.debug("Background jobs wait for the index migrations");
+        return;
+      }
+      await this.osService.ensureIndex();
+      const states = await this.getStates();
+
+      await Promise.all(
+        this.jobs
+          .filter((job) => !this.running.has(job.id))
+          .map((job) => this.runIfDue(job, states.get(job.id), now))
+      );
+    } catch (error) {
+      this.logger.error("Failed to run background jobs", error);
+    }
+  }
+
+  /**
+   * Every job with its schedule and last run
+   */
+  public async listJobs(now = new Date()): Promise<JobStatus[]> {
+    const states = await this.getStates();
+
+    return this.jobs.map((job) => {
+      const state = states.get(job.id)?.state;
+      const lockedUntil = state?.lockedUntil;
+      return {
+        ...state,
+        id: job.id,
+        description: job.description,
+        intervalMs: job.intervalMs,
+        consecutiveFailures: state?.consecutiveFailures || 0,
+        running: !!lockedUntil && Date.parse(lockedUntil) > now.getTime(),
+      };
+    });
+  }
+
+  private async runIfDue(
+    job: JobDefinition,
+    stored: StoredJobState | undefined,
+    now: Date
+  ): Promise<void> {
+    const current = stored || (await this.createState(job, now));
+    if (!current) {
+      return;
+    }
+
+    const { nextRunAt, lockedUntil } = current.state;
+    if (
+      Date.parse(nextRunAt) > now.getTime() ||
+      (lockedUntil && Date.parse(lockedUntil) > now.getTime())
+    ) {
+      return;
+    }
+
+    const locked = await this.lock(current, now);
+    if (locked) {
+      await this.execute(job, locked);
+    }
+  }
+
+  // Schedule a job seen for the first time; null when another node did
+  private async createState(
+    job: JobDefinition,
+    now: Date
+  ): Promise<StoredJobState | null> {
+    const state: JobState = {
+      id: job.id,
+      nextRunAt: new Date(
+        now.getTime() + (job.runOnStart ? 0 : job.intervalMs)
+      ).toISOString(),
+      consecutiveFailures: 0,
+    };
+    try {
+      const response = await this.osService.getClient().index({
+        index: TODO_JOBS_INDEX_NAME,
+        id: job.id,
+        body: state,
+        op_type: "create",
+      });
+      return {
+        state,
+        seqNo: response.body._seq_no,
+        primaryTerm: response.body._primary_term,
+      };
+    } catch (error) {
+      if (isConflict(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Take the lock of a job; null when another node took it first
+  private async lock(
+    stored: StoredJobState,
+    now: Date
+  ): Promise<StoredJobState | null> {
+    const state: JobState = {
+      ...stored.state,
+      lockedBy: this.nodeId,
+      lockedUntil: new Date(now.getTime() + JOB_LOCK_MS).toISOString(),
+    };
+    try {
+      const response = await this.osService.getClient().index({
+        index: TODO_JOBS_INDEX_NAME,
+        id: state.id,
+        body: state,
+        if_seq_no: stored.seqNo,
+        if_primary_term: stored.primaryTerm,
+      });
+      return {
+        state,
+        seqNo: response.body._seq_no,
+        primaryTerm: response.body._primary_term,
+      };
+    } catch (error) {
+      if (isConflict(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a locked job, then record the outcome and release the lock
+   * The next run is an interval after this one started.
+   */
+  private async execute(
+    job: JobDefinition,
+    locked: StoredJobState
+  ): Promise<void> {
+    this.running.add(job.id);
+    const startedAt = Date.now();
+    let result: string | undefined;
+    let error: string | undefined;
+
+    try {
+      result = (await job.run(this.osService, this.logger)) || undefined;
+    } catch (e: any) {
+      error = e?.message || String(e);
+      this.logger.error(`Background job ${job.id} failed`, e);
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    const { lockedBy, lockedUntil, ...previous } = locked.state;
+    const state: JobState = {
+      ...previous,
+      nextRunAt: new Date(startedAt + job.intervalMs).toISOString(),
+      lastRunAt: new Date(startedAt).toISOString(),
+      lastDurationMs: Date.now() - startedAt,
+      lastStatus: error ? JobRunStatus.FAILED : JobRunStatus.SUCCEEDED,
+      lastResult: result,
+      lastError: error,
+      lastNode: this.nodeId,
+      consecutiveFailures: error ? previous.consecutiveFailures + 1 : 0,
+    };
+
+    try {
+      await this.osService.getClient().index({
+        index: TODO_JOBS_INDEX_NAME,
+        id: job.id,
+        body: state,
+        if_seq_no: locked.seqNo,
+        if_primary_term: locked.primaryTerm,
+      });
+    } catch (e) {
+      if (isConflict(e)) {
+        // The lock expired during the run and another node took the job
+        this.logger.warn(
+          `Background job ${job.id} outlived its lock; the run is not recorded`
+        );
+        return;
+      }
+      this.logger.error(`Failed to record the run of job ${job.id}`, e);
+    }
+  }
+
+  // States of the registered jobs; none before the first check created the
+  // index
+  private async getStates(): Promise<Map<string, StoredJobState>> {
+    const states = new Map<string, StoredJobState>();
+    let response;
+    try {
+      response = await this.osService.getClient().mget({
+        index: TODO_JOBS_INDEX_NAME,
+        body: { ids: this.jobs.map((job) => job.id) },
+      });
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return states;
+      }
+      throw error;
+    }
+
+    response.body.docs.forEach((doc: any) => {
+      if (doc.found) {
+        states.set(doc._id, {
+          state: doc._source as JobState,
+          seqNo: doc._seq_no,
+          primaryTerm: doc._primary_term,
+        });
+      }
+    });
+    return states;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * Tests for MigrationService - Versioned index migrations
+ */
+import { MigrationService } from './migration.service';
+import {
+  OpenSearchService,
+  MANAGED_INDICES,
+  getIndexVersion,
+} from './opensearch.service';
+import { Logger } from 'src/core/server';
+import { IndexMigrationState } from '../../common/types';
+import { TODO_INDEX_NAME } from '../../common/constants';
+
+const notFound = () => Object.assign(new Error('Not Found'), { statusCode: 404 });
+
+const mockClient = {
+  indices: {
+    exists: jest.fn(),
+    create: jest.fn(),
+    delete: jest.fn(),
+    getAlias: jest.fn(),
+    putAlias: jest.fn(),
+    existsAlias: jest.fn(),
+    updateAliases: jest.fn(),
+    getMapping: jest.fn(),
+    putMapping: jest.fn(),
+    putSettings: jest.fn(),
+    existsIndexTemplate: jest.fn(),
+    deleteIndexTemplate: jest.fn(),
+  },
+  reindex: jest.fn(),
+  count: jest.fn(),
+  search: jest.fn(),
+  scroll: jest.fn(),
+  clearScroll: jest.fn(),
+  mget: jest.fn(),
+  bulk: jest.fn(),
+};
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const todoIndex = MANAGED_INDICES.find(
+  ({ alias }) => alias === TODO_INDEX_NAME
+)!;
+const target = `${TODO_INDEX_NAME}-v${todoIndex.version}`;
+
+describe('MigrationService', () => {
+  let service: MigrationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const osService = new OpenSearchService(mockLogger);
+    osService.setClient(mockClient as any);
+    service = new MigrationService(osService, mockLogger);
+
+    mockClient.indices.existsIndexTemplate.mockResolvedValue({ body: false });
+    mockClient.indices.getMapping.mockRejectedValue(notFound());
+    mockClient.reindex.mockResolvedValue({ body: { failures: [] } });
+    mockClient.count.mockResolvedValue({ body: { count: 3 } });
+    mockClient.indices.delete.mockResolvedValue({});
+  });
+
+  describe('getIndexVersion', () => {
+    it('should read the version from the index name', () => {
+      expect(getIndexVersion('.todo-items', '.todo-items-v3')).toBe(3);
+      expect(getIndexVersion('.todo-items', '.todo-items')).toBe(0);
+    });
+  });
+
+  describe('migrate', () => {
+    it('should create the versioned index behind the alias', async () => {
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: false });
+
+      const state = await service.migrate(todoIndex);
+
+      expect(state).toBe(IndexMigrationState.CURRENT);
+      const request = mockClient.indices.create.mock.calls[0][0];
+      expect(request.index).toBe(target);
+      expect(request.body.aliases).toEqual({
+        [TODO_INDEX_NAME]: { is_write_index: true },
+      });
+      expect(mockClient.indices.putAlias).not.toHaveBeenCalled();
+      expect(mockClient.reindex).not.toHaveBeenCalled();
+    });
+
+    it('should take an index created meanwhile as created', async () => {
+      const alreadyExists = Object.assign(new Error('exists'), {
+        body: { error: { type: 'resource_already_exists_exception' } },
+      });
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: false });
+      mockClient.indices.create.mockRejectedValueOnce(alreadyExists);
+      mockClient.indices.existsAlias.mockResolvedValue({ body: true });
+
+      const state = await service.migrate(todoIndex);
+
+      expect(state).toBe(IndexMigrationState.CURRENT);
+      expect(mockClient.indices.putAlias).not.toHaveBeenCalled();
+    });
+
+    it('should add the alias an index created meanwhile lacks', async () => {
+      const alreadyExists = Object.assign(new Error('exists'), {
+        body: { error: { type: 'resource_already_exists_exception' } },
+      });
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: false });
+      mockClient.indices.create.mockRejectedValueOnce(alreadyExists);
+      mockClient.indices.existsAlias.mockResolvedValue({ body: false });
+
+      await service.migrate(todoIndex);
+
+      expect(mockClient.indices.putAlias).toHaveBeenCalledWith({
+        index: target,
+        name: TODO_INDEX_NAME,
+        body: { is_write_index: true },
+      });
+    });
+
+    it('should leave an index of the current version alone', async () => {
+      mockClient.indices.getAlias.mockResolvedValue({
+        body: { [target]: { aliases: { [TODO_INDEX_NAME]: {} } } },
+      });
+
+      const state = await service.migrate(todoIndex);
+
+      expect(state).toBe(IndexMigrationState.CURRENT);
+      expect(mockClient.indices.create).not.toHaveBeenCalled();
+    });
+
+    it('should copy an index of before the registry and swap the alias', async () => {
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: true });
+      mockClient.indices.existsIndexTemplate.mockResolvedValue({ body: true });
+
+      const state = await service.migrate(todoIndex);
+
+      expect(state).toBe(IndexMigrationState.CURRENT);
+      expect(mockClient.indices.deleteIndexTemplate).toHaveBeenCalledWith({
+        name: 'todo-items-template',
+      });
+      expect(
+        mockClient.indices.create.mock.calls[0][0].body.mappings._meta
+      ).toEqual(
+        expect.objectContaining({
+          state: IndexMigrationState.RUNNING,
+          migratedFrom: TODO_INDEX_NAME,
+        })
+      );
+      // Copied once with writes going on and once more with writes paused
+      expect(mockClient.reindex).toHaveBeenCalledTimes(2);
+      expect(mockClient.reindex.mock.calls[0][0].body.dest).toEqual({
+        index: target,
+        version_type: 'external',
+      });
+      expect(mockClient.indices.putSettings).toHaveBeenCalledWith({
+        index: TODO_INDEX_NAME,
+        body: { 'index.blocks.write': true },
+      });
+      expect(mockClient.indices.updateAliases).toHaveBeenCalledWith({
+        body: {
+          actions: [
+            { remove_index: { index: TODO_INDEX_NAME } },
+            {
+              add: { index: target, alias: TODO_INDEX_NAME, is_write_index: true },
+            },
+          ],
+        },
+      });
+      expect(mockClient.indices.putMapping).toHaveBeenLastCalledWith({
+        index: target,
+        body: {
+          _meta: expect.objectContaining({
+            state: IndexMigrationState.CURRENT,
+            documents: 3,
+          }),
+        },
+      });
+    });
+
+    it('should delete copies of documents deleted during the copy', async () => {
+      mockClient.indices.getAlias.mockResolvedValue({
+        body: { [`${TODO_INDEX_NAME}-v0`]: { aliases: { [TODO_INDEX_NAME]: {} } } },
+      });
+      mockClient.count.mockImplementation(({ index }) =>
+        Promise.resolve({ body: { count: index === target ? 2 : 1 } })
+      );
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [{ _id: '1' }, { _id: '2' }] } },
+      });
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: '1', found: true },
+            { _id: '2', found: false },
+          ],
+        },
+      });
+
+      await service.migrate(todoIndex);
+
+      expect(mockClient.bulk).toHaveBeenCalledWith({
+        body: [{ delete: { _index: target, _id: '2' } }],
+        refresh: true,
+      });
+      expect(mockClient.indices.updateAliases.mock.calls[0][0].body.actions[0]).toEqual({
+        remove: { index: `${TODO_INDEX_NAME}-v0`, alias: TODO_INDEX_NAME },
+      });
+      expect(mockClient.indices.delete).toHaveBeenCalledWith({
+        index: `${TODO_INDEX_NAME}-v0`,
+      });
+    });
+
+    it('should unblock the old index and record a failed copy', async () => {
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: true });
+      mockClient.reindex
+        .mockResolvedValueOnce({ body: { failures: [] } })
+        .mockResolvedValueOnce({
+          body: { failures: [{ cause: { reason: 'mapper_parsing_exception' } }] },
+        });
+
+      await expect(service.migrate(todoIndex)).rejects.toThrow(
+        'mapper_parsing_exception'
+      );
+
+      expect(mockClient.indices.putSettings).toHaveBeenLastCalledWith({
+        index: TODO_INDEX_NAME,
+        body: { 'index.blocks.write': false },
+      });
+      expect(mockClient.indices.updateAliases).not.toHaveBeenCalled();
+      expect(mockClient.indices.putMapping).toHaveBeenCalledWith({
+        index: target,
+        body: {
+          _meta: expect.objectContaining({ state: IndexMigrationState.FAILED }),
+        },
+      });
+    });
+
+    it('should not start while another node is migrating', async () => {
+      mockClient.indices.getAlias.mockRejectedValue(notFound());
+      mockClient.indices.exists.mockResolvedValue({ body: true });
+      mockClient.indices.getMapping.mockResolvedValue({
+        body: {
+          [target]: {
+            mappings: {
+              _meta: {
+                version: todoIndex.version,
+                state: IndexMigrationState.RUNNING,
+                startedAt: new Date().toISOString(),
+              },
+            },
+          },
+        },
+      });
+
+      const state = await service.migrate(todoIndex);
+
+      expect(state).toBe(IndexMigrationState.RUNNING);
+      expect(mockClient.reindex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report the version and state of every index', async () => {
+      mockClient.indices.getAlias.mockImplementation(({ name }) =>
+        name === TODO_INDEX_NAME
+          ? Promise.reject(notFound())
+          : Promise.resolve({
+              body: { [`${name}-v1`]: { aliases: { [name]: {} } } },
+            })
+      );
+      mockClient.indices.exists.mockResolvedValue({ body: true });
+
+      const status = await service.getStatus();
+
+      expect(status).toHaveLength(MANAGED_INDICES.length);
+      expect(status[0]).toEqual(
+        expect.objectContaining({
+          alias: TODO_INDEX_NAME,
+          index: TODO_INDEX_NAME,
+          currentVersion: 0,
+          state: IndexMigrationState.PENDING,
+          documents: 3,
+        })
+      );
+      expect(status[1].state).toBe(IndexMigrationState.CURRENT);
+    });
+  });
+
+  describe('isMigrating', () => {
+    const running = (startedAt: string) => ({
+      body: {
+        [target]: {
+          mappings: {
+            _meta: { state: IndexMigrationState.RUNNING, startedAt },
+          },
+        },
+      },
+    });
+
+    it('should tell when a node is migrating an index', async () => {
+      mockClient.indices.getMapping.mockResolvedValue(
+        running(new Date().toISOString())
+      );
+
+      await expect(service.isMigrating()).resolves.toBe(true);
+      expect(mockClient.indices.getMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ ignore_unavailable: true })
+      );
+    });
+
+    it('should not wait for a migration that died', async () => {
+      mockClient.indices.getMapping.mockResolvedValue(
+        running('2020-01-01T00:00:00.000Z')
+      );
+
+      await expect(service.isMigrating()).resolves.toBe(false);
+    });
+  });
+});
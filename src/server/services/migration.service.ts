@@ -0,0 +1,425 @@
+import { Logger } from "src/core/server";
+import {
+  OpenSearchService,
+  ManagedIndex,
+  MANAGED_INDICES,
+  getIndexVersion,
+  getVersionedIndexName,
+  isAlreadyExistsError,
+} from "./opensearch.service";
+import {
+  IndexMigrationState,
+  IndexMigrationStatus,
+} from "../../common/types";
+
+// A migration running this long is taken to have died with its node
+const STALE_MIGRATION_MS = 60 * 60 * 1000;
+
+// Time a reindex request may take before the client gives up on it
+const REINDEX_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Documents compared per request when looking for deleted documents
+const COMPARE_BATCH_SIZE = 1000;
+const COMPARE_SCROLL_TIMEOUT = "1m";
+
+// Migration record kept in the `_meta` of the target index mapping, so it is
+// shared by every node and survives restarts
+interface MigrationMeta {
+  version: number;
+  state?: IndexMigrationState;
+  migratedFrom?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  documents?: number;
+  error?: string;
+}
+
+/**
+ * Moves the managed indices to the mapping versions of the registry
+ * The data is copied into a new physical index while the old one keeps
+ * serving; writes are only blocked while the changes made during the copy
+ * are caught up, then the alias moves to the new index in one step. The
+ * TodoService sends the item writes it blocked again.
+ */
+export class MigrationService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Migrate every managed index, one after another
+   * A failed migration is logged and reported by getStatus; the older index
+   * keeps serving.
+   */
+  public async migrateAll(): Promise<void> {
+    for (const managed of MANAGED_INDICES) {
+      try {
+        await this.migrate(managed);
+      } catch (error) {
+        this.logger.error(`Failed to migrate index ${managed.alias}`, error);
+      }
+    }
+  }
+
+  /**
+   * Bring one managed index to the mapping version of the registry
+   * Returns the state the index is left in.
+   */
+  public async migrate(managed: ManagedIndex): Promise<IndexMigrationState> {
+    const { alias, version } = managed;
+    const client = this.osService.getClient();
+    await this.removeLegacyTemplate(managed);
+
+    const source = await this.getAliasedIndex(alias);
+    if (!source) {
+      await this.osService.ensureManagedIndex(managed);
+      return IndexMigrationState.CURRENT;
+    }
+    const sourceVersion = getIndexVersion(alias, source);
+    if (sourceVersion >= version) {
+      if (sourceVersion > version) {
+        this.logger.warn(
+          `Index ${source} is newer than mapping version ${version}`
+        );
+      }
+      return IndexMigrationState.CURRENT;
+    }
+
+    const target = getVersionedIndexName(alias, version);
+    const startedAt = new Date().toISOString();
+    if (!(await this.claimTarget(managed, source, startedAt))) {
+      this.logger.info(`Index ${alias} is migrated by another node`);
+      return IndexMigrationState.RUNNING;
+    }
+
+    this.logger.info(`Migrating index ${source} to ${target}`);
+    try {
+      // Copy while the old index still takes writes, then catch up the
+      // changes made meanwhile with writes paused
+      await this.copyDocuments(source, target);
+      await this.setWriteBlock(source, true);
+      try {
+        await this.copyDocuments(source, target);
+        await this.removeDeletedDocuments(source, target);
+        await client.indices.updateAliases({
+          body: {
+            actions: [
+              source === alias
+                ? { remove_index: { index: source } }
+                : { remove: { index: source, alias } },
+              { add: { index: target, alias, is_write_index: true } },
+            ],
+          },
+        });
+      } catch (error) {
+        await this.setWriteBlock(source, false);
+        throw error;
+      }
+    } catch (error: any) {
+      await this.writeMeta(target, {
+        version,
+        state: IndexMigrationState.FAILED,
+        migratedFrom: source,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        error: error.message,
+      }).catch((metaError: any) =>
+        this.logger.warn(`Failed to record migration of ${alias}`, metaError)
+      );
+      throw error;
+    }
+
+    const count = await client.count({ index: target });
+    await this.writeMeta(target, {
+      version,
+      state: IndexMigrationState.CURRENT,
+      migratedFrom: source,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      documents: count.body.count,
+    });
+    // An index of before the registry went with the alias swap, an older
+    // versioned one is no longer read
+    if (source !== alias) {
+      await client.indices
+        .delete({ index: source })
+        .catch((error: any) =>
+          this.logger.warn(`Failed to delete migrated index ${source}`, error)
+        );
+    }
+    this.logger.info(`Migrated index ${alias} to mapping version ${version}`);
+    return IndexMigrationState.CURRENT;
+  }
+
+  /**
+   * Migration status of every managed index, read from the cluster
+   */
+  public async getStatus(): Promise<IndexMigrationStatus[]> {
+    const client = this.osService.getClient();
+
+    return Promise.all(
+      MANAGED_INDICES.map(async ({ alias, version }) => {
+        const index = await this.getAliasedIndex(alias);
+        if (!index) {
+          return { alias, version, state: IndexMigrationState.MISSING };
+        }
+
+        const target = getVersionedIndexName(alias, version);
+        const meta = await this.readMeta(target);
+        const count = await client.count({ index: alias });
+        const { migratedFrom, startedAt, finishedAt, error } = meta || {};
+
+        return {
+          alias,
+          version,
+          index,
+          currentVersion: getIndexVersion(alias, index),
+          state: this.getState(index === target, meta),
+          documents: count.body.count,
+          migratedFrom,
+          startedAt,
+          finishedAt,
+          error,
+        };
+      })
+    );
+  }
+
+  /**
+   * Whether a node is migrating one of the managed indices
+   * Writes through the aliases meet the write block of the migration
+   * meanwhile, so the background jobs wait for it.
+   */
+  public async isMigrating(): Promise<boolean> {
+    const targets = MANAGED_INDICES.map(({ alias, version }) =>
+      getVersionedIndexName(alias, version)
+    );
+    const response = await this.osService.getClient().indices.getMapping({
+      index: targets.join(","),
+      ignore_unavailable: true,
+    });
+
+    return Object.values(response.body).some((index: any) => {
+      const meta: MigrationMeta | undefined = index.mappings?._meta;
+      return (
+        meta?.state === IndexMigrationState.RUNNING && !this.isStale(meta)
+      );
+    });
+  }
+
+  private getState(
+    isCurrent: boolean,
+    meta?: MigrationMeta
+  ): IndexMigrationState {
+    if (isCurrent) {
+      return IndexMigrationState.CURRENT;
+    }
+    if (meta?.state === IndexMigrationState.FAILED) {
+      return IndexMigrationState.FAILED;
+    }
+    if (meta?.state === IndexMigrationState.RUNNING && !this.isStale(meta)) {
+      return IndexMigrationState.RUNNING;
+    }
+    return IndexMigrationState.PENDING;
+  }
+
+  private isStale(meta: MigrationMeta): boolean {
+    return (
+      !meta.startedAt ||
+      Date.now() - Date.parse(meta.startedAt) > STALE_MIGRATION_MS
+    );
+  }
+
+  /**
+   * Physical index behind an alias
+   * An index of before the registry has the alias name itself.
+   */
+  private async getAliasedIndex(alias: string): Promise<string | undefined> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.indices.getAlias({ name: alias });
+      const indices = Object.keys(response.body);
+      return (
+        indices.find(
+          (index) => response.body[index].aliases[alias]?.is_write_index
+        ) || indices[0]
+      );
+    } catch (error: any) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    const exists = await client.indices.exists({ index: alias });
+    return exists.body ? alias : undefined;
+  }
+
+  /**
+   * Create the target index with a running migration record
+   * A target left by a failed or dead migration is replaced. Returns false
+   * while another node is migrating.
+   */
+  private async claimTarget(
+    managed: ManagedIndex,
+    source: string,
+    startedAt: string
+  ): Promise<boolean> {
+    const client = this.osService.getClient();
+    const target = getVersionedIndexName(managed.alias, managed.version);
+
+    const meta = await this.readMeta(target);
+    if (meta) {
+      if (meta.state === IndexMigrationState.RUNNING && !this.isStale(meta)) {
+        return false;
+      }
+      await client.indices.delete({ index: target });
+    }
+
+    try {
+      await this.osService.createVersionedIndex(managed, {
+        state: IndexMigrationState.RUNNING,
+        migratedFrom: source,
+        startedAt,
+      });
+      return true;
+    } catch (error: any) {
+      if (isAlreadyExistsError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy the documents with their versions
+   * A document already copied is only replaced by a newer version, so a
+   * second copy only brings over what changed since the first.
+   */
+  private async copyDocuments(source: string, target: string): Promise<void> {
+    const response = await this.osService.getClient().reindex(
+      {
+        wait_for_completion: true,
+        refresh: true,
+        body: {
+          conflicts: "proceed",
+          source: { index: source },
+          dest: { index: target, version_type: "external" },
+        },
+      },
+      { requestTimeout: REINDEX_TIMEOUT_MS }
+    );
+
+    const failures = response.body.failures || [];
+    if (failures.length > 0) {
+      throw new Error(
+        `Failed to copy ${failures.length} documents from ${source}: ` +
+          (failures[0].cause?.reason || "unknown reason")
+      );
+    }
+  }
+
+  /**
+   * Delete the copies of documents deleted from the source during the copy
+   * Only needed when the target holds more documents than the source.
+   */
+  private async removeDeletedDocuments(
+    source: string,
+    target: string
+  ): Promise<void> {
+    const client = this.osService.getClient();
+    const [sourceCount, targetCount] = await Promise.all([
+      client.count({ index: source }),
+      client.count({ index: target }),
+    ]);
+    if (targetCount.body.count <= sourceCount.body.count) {
+      return;
+    }
+
+    let response = await client.search({
+      index: target,
+      scroll: COMPARE_SCROLL_TIMEOUT,
+      body: { size: COMPARE_BATCH_SIZE, _source: false },
+    });
+    let scrollId: string | undefined = response.body._scroll_id;
+
+    try {
+      while (response.body.hits.hits.length > 0) {
+        const ids = response.body.hits.hits.map((hit: any) => hit._id);
+        const found = await client.mget({
+          index: source,
+          _source: false,
+          body: { ids },
+        });
+        const deleted = found.body.docs
+          .filter((doc: any) => !doc.found)
+          .map((doc: any) => ({ delete: { _index: target, _id: doc._id } }));
+        if (deleted.length > 0) {
+          await client.bulk({ body: deleted, refresh: true });
+        }
+        if (!scrollId) {
+          return;
+        }
+        response = await client.scroll({
+          body: { scroll_id: scrollId, scroll: COMPARE_SCROLL_TIMEOUT },
+        });
+        scrollId = response.body._scroll_id;
+      }
+    } finally {
+      if (scrollId) {
+        await client
+          .clearScroll({ body: { scroll_id: scrollId } })
+          .catch((error: any) =>
+            this.logger.warn("Failed to clear migration scroll", error)
+          );
+      }
+    }
+  }
+
+  private async setWriteBlock(index: string, blocked: boolean): Promise<void> {
+    await this.osService.getClient().indices.putSettings({
+      index,
+      body: { "index.blocks.write": blocked },
+    });
+  }
+
+  private async readMeta(index: string): Promise<MigrationMeta | undefined> {
+    try {
+      const response = await this.osService
+        .getClient()
+        .indices.getMapping({ index });
+      return response.body[index]?.mappings?._meta;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async writeMeta(index: string, meta: MigrationMeta): Promise<void> {
+    await this.osService.getClient().indices.putMapping({
+      index,
+      body: { _meta: meta },
+    });
+  }
+
+  // Templates of the plugin versions before the registry would also apply
+  // to the versioned indices
+  private async removeLegacyTemplate(managed: ManagedIndex): Promise<void> {
+    const { legacyTemplate } = managed;
+    if (!legacyTemplate) {
+      return;
+    }
+
+    const client = this.osService.getClient();
+    const exists = await client.indices.existsIndexTemplate({
+      name: legacyTemplate,
+    });
+    if (exists.body) {
+      await client.indices.deleteIndexTemplate({ name: legacyTemplate });
+      this.logger.info(`Removed index template: ${legacyTemplate}`);
+    }
+  }
+}
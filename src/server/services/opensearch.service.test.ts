@@ -0,0 +1,51 @@
+/**
+ * Tests for OpenSearchService - Creating the managed indices
+ */
+import { OpenSearchService, MANAGED_INDICES } from './opensearch.service';
+import { Logger } from 'src/core/server';
+
+const mockClient = {
+  indices: {
+    exists: jest.fn(),
+    create: jest.fn(),
+  },
+};
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const createService = () => {
+  const osService = new OpenSearchService(mockLogger);
+  osService.setClient(mockClient as any);
+  return osService;
+};
+
+describe('OpenSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ensureIndex', () => {
+    it('should check the indices once per process', async () => {
+      mockClient.indices.exists
+        .mockRejectedValueOnce(new Error('No connection'))
+        .mockResolvedValue({ body: true });
+
+      // A failure is retried by the next caller
+      await expect(createService().ensureIndex()).rejects.toThrow(
+        'No connection'
+      );
+      await createService().ensureIndex();
+      await createService().ensureIndex();
+
+      expect(mockClient.indices.exists).toHaveBeenCalledTimes(
+        MANAGED_INDICES.length + 1
+      );
+      expect(mockClient.indices.create).not.toHaveBeenCalled();
+    });
+  });
+});
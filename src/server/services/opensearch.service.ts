@@ -1,40 +1,586 @@
 import { OpenSearchClient, Logger } from "src/core/server";
-import { TODO_INDEX_NAME } from "../../common/constants";
-
-const TODO_INDEX_TEMPLATE = {
-  index_patterns: [".todo-items*"],
-  template: {
-    settings: {
-      number_of_shards: 1,
-      number_of_replicas: 1,
-      "index.refresh_interval": "5s",
-    },
-    mappings: {
-      properties: {
-        id: { type: "keyword" },
-        title: {
-          type: "text",
-          fields: {
-            keyword: { type: "keyword" },
-          },
+import {
+  TODO_INDEX_NAME,
+  TODO_COMMENTS_INDEX_NAME,
+  TODO_HISTORY_INDEX_NAME,
+  TODO_WORKFLOW_INDEX_NAME,
+  TODO_TEMPLATES_INDEX_NAME,
+  TODO_SLA_INDEX_NAME,
+  TODO_VIEWS_INDEX_NAME,
+  TODO_PROJECTS_INDEX_NAME,
+  TODO_WEBHOOKS_INDEX_NAME,
+  TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+  TODO_INGESTION_INDEX_NAME,
+  TODO_AUTOMATION_RULES_INDEX_NAME,
+  TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+  TODO_JOBS_INDEX_NAME,
+  TODO_RETENTION_INDEX_NAME,
+  TODO_PURGES_INDEX_NAME,
+} from "../../common/constants";
+
+const TODO_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+    "index.refresh_interval": "5s",
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      title: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
+        },
+      },
+      description: { type: "text" },
+      status: { type: "keyword" },
+      priority: { type: "keyword" },
+      tags: { type: "keyword" },
+      complianceStandards: { type: "keyword" },
+      controls: { type: "keyword" },
+      assignee: { type: "keyword" },
+      assigneeId: { type: "keyword" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+      createdBy: { type: "keyword" },
+      updatedBy: { type: "keyword" },
+      plannedDate: { type: "date" },
+      completedAt: { type: "date" },
+      completedBy: { type: "keyword" },
+      dueDate: { type: "date" },
+      errorDetails: { type: "text" },
+      archived: { type: "boolean" },
+      archivedAt: { type: "date" },
+      archivedBy: { type: "keyword" },
+      deletedAt: { type: "date" },
+      deletedBy: { type: "keyword" },
+      storyPoints: { type: "float" },
+      // URL or data URL of the card image, which is only displayed
+      coverImage: { type: "text", index: false },
+      // Cards dropped between two others get the middle, often a fraction
+      position: { type: "double" },
+      version: { type: "long" },
+      recurrence: {
+        properties: {
+          frequency: { type: "keyword" },
+          interval: { type: "integer" },
+          endDate: { type: "date" },
+        },
+      },
+      seriesId: { type: "keyword" },
+      occurrenceIndex: { type: "integer" },
+      occurrenceStart: { type: "date" },
+      sla: {
+        properties: {
+          startBy: { type: "date" },
+          resolveBy: { type: "date" },
+          startAtRiskAt: { type: "date" },
+          resolveAtRiskAt: { type: "date" },
+          startedAt: { type: "date" },
+          resolvedAt: { type: "date" },
+          missed: { type: "boolean" },
+        },
+      },
+      externalKey: { type: "keyword" },
+      projectId: { type: "keyword" },
+      alert: {
+        properties: {
+          fingerprint: { type: "keyword" },
+          ruleId: { type: "keyword" },
+          ruleLevel: { type: "integer" },
+          agent: { type: "keyword" },
+          ingestionRuleId: { type: "keyword" },
+          index: { type: "keyword" },
+          documentId: { type: "keyword" },
+          url: { type: "keyword", index: false },
+          count: { type: "integer" },
+          firstSeenAt: { type: "date" },
+          lastSeenAt: { type: "date" },
+        },
+      },
+    },
+  },
+};
+
+const TODO_COMMENTS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+    "index.refresh_interval": "5s",
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      todoId: { type: "keyword" },
+      parentId: { type: "keyword" },
+      author: { type: "keyword" },
+      body: { type: "text" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+      edited: { type: "boolean" },
+    },
+  },
+};
+
+// Old and new values keep the type of the changed field, so they are stored
+// but not indexed
+const TODO_HISTORY_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+    "index.refresh_interval": "5s",
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      todoId: { type: "keyword" },
+      action: { type: "keyword" },
+      field: { type: "keyword" },
+      oldValue: { type: "object", enabled: false },
+      newValue: { type: "object", enabled: false },
+      actor: { type: "keyword" },
+      timestamp: { type: "date" },
+    },
+  },
+};
+
+// The workflow is read as a whole, so statuses and transitions (keyed by
+// status id) are stored without being indexed
+const TODO_WORKFLOW_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      statuses: { type: "object", enabled: false },
+      initialStatus: { type: "keyword" },
+      transitions: { type: "object", enabled: false },
+      updatedAt: { type: "date" },
+      updatedBy: { type: "keyword" },
+    },
+  },
+};
+
+// Tasks are only read as part of their template, so they are not indexed
+const TODO_TEMPLATES_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      name: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
         },
-        description: { type: "text" },
-        status: { type: "keyword" },
-        priority: { type: "keyword" },
-        tags: { type: "keyword" },
-        complianceStandards: { type: "keyword" },
-        assignee: { type: "keyword" },
-        createdAt: { type: "date" },
-        updatedAt: { type: "date" },
-        plannedDate: { type: "date" },
-        completedAt: { type: "date" },
-        dueDate: { type: "date" },
-        errorDetails: { type: "text" },
       },
+      description: { type: "text" },
+      complianceStandards: { type: "keyword" },
+      tasks: { type: "object", enabled: false },
+      builtIn: { type: "boolean" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
     },
   },
 };
 
+// The policy is read as a whole, so the targets are stored without being
+// indexed
+const TODO_SLA_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      enabled: { type: "boolean" },
+      targets: { type: "object", enabled: false },
+      atRiskPercent: { type: "integer" },
+      updatedAt: { type: "date" },
+      updatedBy: { type: "keyword" },
+    },
+  },
+};
+
+// Views are applied as a whole, so their filters are stored without being
+// indexed
+const TODO_VIEWS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      name: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
+        },
+      },
+      owner: { type: "keyword" },
+      visibility: { type: "keyword" },
+      viewType: { type: "keyword" },
+      params: { type: "object", enabled: false },
+      pinnedBy: { type: "keyword" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+    },
+  },
+};
+
+const TODO_PROJECTS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      key: { type: "keyword" },
+      name: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
+        },
+      },
+      description: { type: "text" },
+      members: { type: "keyword" },
+      defaults: { type: "object", enabled: false },
+      builtIn: { type: "boolean" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+    },
+  },
+};
+
+// The secret is only read to sign deliveries, so it is not indexed
+const TODO_WEBHOOKS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      name: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
+        },
+      },
+      url: { type: "keyword" },
+      events: { type: "keyword" },
+      enabled: { type: "boolean" },
+      secret: { type: "keyword", index: false },
+      createdBy: { type: "keyword" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+    },
+  },
+};
+
+// Payloads are sent as they are, so they are stored without being indexed
+const TODO_WEBHOOK_DELIVERIES_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+    "index.refresh_interval": "5s",
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      webhookId: { type: "keyword" },
+      event: { type: "keyword" },
+      url: { type: "keyword" },
+      status: { type: "keyword" },
+      attempts: { type: "integer" },
+      responseStatus: { type: "integer" },
+      error: { type: "text" },
+      payload: { type: "object", enabled: false },
+      createdAt: { type: "date" },
+      lastAttemptAt: { type: "date" },
+      nextAttemptAt: { type: "date" },
+    },
+  },
+};
+
+// Holds the policy and the progress of the ingestion; both are read as a
+// whole, so rules and run results are stored without being indexed
+const TODO_INGESTION_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      enabled: { type: "boolean" },
+      indexPattern: { type: "keyword" },
+      timestampField: { type: "keyword" },
+      lookbackMinutes: { type: "integer" },
+      fingerprintFields: { type: "keyword" },
+      documentUrl: { type: "keyword", index: false },
+      rules: { type: "object", enabled: false },
+      updatedAt: { type: "date" },
+      updatedBy: { type: "keyword" },
+      checkpoint: { type: "date" },
+      checkpointIds: { type: "keyword", index: false },
+      lastRun: { type: "object", enabled: false },
+    },
+  },
+};
+
+// Conditions and actions are read with their rule, so they are stored
+// without being indexed
+const TODO_AUTOMATION_RULES_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      name: {
+        type: "text",
+        fields: {
+          keyword: { type: "keyword" },
+        },
+      },
+      enabled: { type: "boolean" },
+      trigger: { type: "keyword" },
+      conditions: { type: "object", enabled: false },
+      actions: { type: "object", enabled: false },
+      createdBy: { type: "keyword" },
+      createdAt: { type: "date" },
+      updatedAt: { type: "date" },
+    },
+  },
+};
+
+const TODO_AUTOMATION_EXECUTIONS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+    "index.refresh_interval": "5s",
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      ruleId: { type: "keyword" },
+      ruleName: { type: "keyword" },
+      trigger: { type: "keyword" },
+      todoId: { type: "keyword" },
+      todoTitle: { type: "keyword", index: false },
+      status: { type: "keyword" },
+      actions: { type: "keyword", index: false },
+      followUpIds: { type: "keyword" },
+      error: { type: "text" },
+      actor: { type: "keyword" },
+      dueDate: { type: "date" },
+      timestamp: { type: "date" },
+    },
+  },
+};
+
+// One document per job, read and written whole by the scheduler
+const TODO_JOBS_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      nextRunAt: { type: "date" },
+      lastRunAt: { type: "date" },
+      lastDurationMs: { type: "long" },
+      lastStatus: { type: "keyword" },
+      lastResult: { type: "keyword", index: false },
+      lastError: { type: "text" },
+      lastNode: { type: "keyword" },
+      consecutiveFailures: { type: "integer" },
+      lockedBy: { type: "keyword" },
+      lockedUntil: { type: "date" },
+    },
+  },
+};
+
+const TODO_RETENTION_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      archiveEnabled: { type: "boolean" },
+      archiveAfterDays: { type: "integer" },
+      purgeEnabled: { type: "boolean" },
+      purgeAfterDays: { type: "integer" },
+      trashPurgeAfterDays: { type: "integer" },
+      legalHoldTag: { type: "keyword" },
+      updatedAt: { type: "date" },
+      updatedBy: { type: "keyword" },
+    },
+  },
+};
+
+// The items of a purge are kept as they were for auditors, not searched
+const TODO_PURGES_INDEX_BODY = {
+  settings: {
+    number_of_shards: 1,
+    number_of_replicas: 1,
+  },
+  mappings: {
+    properties: {
+      id: { type: "keyword" },
+      source: { type: "keyword" },
+      reason: { type: "text" },
+      purgeAfterDays: { type: "integer" },
+      legalHoldTag: { type: "keyword" },
+      purged: { type: "integer" },
+      failed: { type: "integer" },
+      legalHold: { type: "integer" },
+      items: { type: "object", enabled: false },
+      actor: { type: "keyword" },
+      timestamp: { type: "date" },
+    },
+  },
+};
+
+/**
+ * An index managed by the plugin
+ * The plugin reads and writes through the alias; the physical index behind
+ * it is named after the mapping version, e.g. `.todo-items-v1`.
+ */
+export interface ManagedIndex {
+  alias: string;
+  // Bump on every change of the body; the next start reindexes the data
+  // into a new physical index and moves the alias
+  version: number;
+  body: { settings: Record<string, any>; mappings: Record<string, any> };
+  // Index template of the plugin versions before the registry, if any
+  legacyTemplate?: string;
+}
+
+// Registry of the indices managed by the plugin and their mapping versions
+// Indices created before the registry are version 0 and sit under the alias
+// name itself.
+export const MANAGED_INDICES: ManagedIndex[] = [
+  {
+    alias: TODO_INDEX_NAME,
+    version: 6,
+    body: TODO_INDEX_BODY,
+    legacyTemplate: "todo-items-template",
+  },
+  {
+    alias: TODO_COMMENTS_INDEX_NAME,
+    version: 1,
+    body: TODO_COMMENTS_INDEX_BODY,
+    legacyTemplate: "todo-comments-template",
+  },
+  {
+    alias: TODO_HISTORY_INDEX_NAME,
+    version: 1,
+    body: TODO_HISTORY_INDEX_BODY,
+    legacyTemplate: "todo-history-template",
+  },
+  {
+    alias: TODO_WORKFLOW_INDEX_NAME,
+    version: 1,
+    body: TODO_WORKFLOW_INDEX_BODY,
+    legacyTemplate: "todo-workflow-template",
+  },
+  {
+    alias: TODO_TEMPLATES_INDEX_NAME,
+    version: 1,
+    body: TODO_TEMPLATES_INDEX_BODY,
+    legacyTemplate: "todo-templates-template",
+  },
+  {
+    alias: TODO_SLA_INDEX_NAME,
+    version: 1,
+    body: TODO_SLA_INDEX_BODY,
+    legacyTemplate: "todo-sla-template",
+  },
+  {
+    alias: TODO_VIEWS_INDEX_NAME,
+    version: 1,
+    body: TODO_VIEWS_INDEX_BODY,
+    legacyTemplate: "todo-views-template",
+  },
+  {
+    alias: TODO_PROJECTS_INDEX_NAME,
+    version: 1,
+    body: TODO_PROJECTS_INDEX_BODY,
+  },
+  {
+    alias: TODO_WEBHOOKS_INDEX_NAME,
+    version: 1,
+    body: TODO_WEBHOOKS_INDEX_BODY,
+  },
+  {
+    alias: TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+    version: 1,
+    body: TODO_WEBHOOK_DELIVERIES_INDEX_BODY,
+  },
+  {
+    alias: TODO_INGESTION_INDEX_NAME,
+    version: 1,
+    body: TODO_INGESTION_INDEX_BODY,
+  },
+  {
+    alias: TODO_AUTOMATION_RULES_INDEX_NAME,
+    version: 1,
+    body: TODO_AUTOMATION_RULES_INDEX_BODY,
+  },
+  {
+    alias: TODO_AUTOMATION_EXECUTIONS_INDEX_NAME,
+    version: 1,
+    body: TODO_AUTOMATION_EXECUTIONS_INDEX_BODY,
+  },
+  {
+    alias: TODO_JOBS_INDEX_NAME,
+    version: 1,
+    body: TODO_JOBS_INDEX_BODY,
+  },
+  {
+    alias: TODO_RETENTION_INDEX_NAME,
+    version: 2,
+    body: TODO_RETENTION_INDEX_BODY,
+  },
+  {
+    alias: TODO_PURGES_INDEX_NAME,
+    version: 2,
+    body: TODO_PURGES_INDEX_BODY,
+  },
+];
+
+/**
+ * Whether a create request failed because the index is already there, e.g.
+ * created by another node or another caller of the same node
+ */
+export const isAlreadyExistsError = (error: any): boolean =>
+  error?.body?.error?.type === "resource_already_exists_exception";
+
+export const getVersionedIndexName = (alias: string, version: number) =>
+  `${alias}-v${version}`;
+
+/**
+ * Mapping version of a physical index, 0 for an index named like its alias
+ */
+export const getIndexVersion = (alias: string, index: string): number => {
+  const match = index.match(/-v(\d+)$/);
+  return index !== alias && match ? parseInt(match[1], 10) : 0;
+};
+
+// The managed indices are ensured once per process, whichever service asks
+// first; a failure is retried by the next caller
+let indicesReady: Promise<void> | null = null;
+
 export class OpenSearchService {
   private client: OpenSearchClient | null = null;
 
@@ -52,36 +598,91 @@ export class OpenSearchService {
     return this.client;
   }
 
-  public async ensureIndex(): Promise<void> {
-    try {
-      const client = this.getClient();
-
-      const templateExists = await client.indices.existsIndexTemplate({
-        name: "todo-items-template",
+  /**
+   * Create the managed indices that do not exist yet
+   * Existing indices are left to the migrations run on plugin start, so an
+   * index of an older version keeps serving until it is migrated.
+   */
+  public ensureIndex(): Promise<void> {
+    if (!indicesReady) {
+      indicesReady = this.ensureManagedIndices().catch((error) => {
+        indicesReady = null;
+        this.logger.error(`Error ensuring index: ${error}`);
+        throw error;
       });
+    }
+    return indicesReady;
+  }
 
-      if (!templateExists.body) {
-        await client.indices.putIndexTemplate({
-          name: "todo-items-template",
-          body: TODO_INDEX_TEMPLATE,
-        });
-        this.logger.info("Created TODO index template");
-      }
+  private async ensureManagedIndices(): Promise<void> {
+    for (const managed of MANAGED_INDICES) {
+      await this.ensureManagedIndex(managed);
+    }
+  }
 
-      const indexExists = await client.indices.exists({
-        index: TODO_INDEX_NAME,
-      });
+  /**
+   * Create a managed index along with its alias when neither exists
+   * The alias comes with the index in one request, so no write can create
+   * an index under the alias name in between. Losing the race to another
+   * node or caller counts as success.
+   */
+  public async ensureManagedIndex(managed: ManagedIndex): Promise<void> {
+    const client = this.getClient();
+    const index = getVersionedIndexName(managed.alias, managed.version);
 
-      if (!indexExists.body) {
-        await client.indices.create({
-          index: TODO_INDEX_NAME,
-        });
-        this.logger.info(`Created index: ${TODO_INDEX_NAME}`);
-      }
+    // The alias, or an index of before the registry under the same name
+    const exists = await client.indices.exists({ index: managed.alias });
+    if (exists.body) {
+      return;
+    }
+
+    try {
+      await this.createVersionedIndex(managed, {}, {
+        [managed.alias]: { is_write_index: true },
+      });
+      this.logger.info(`Created index: ${managed.alias}`);
+      return;
     } catch (error) {
-      this.logger.error(`Error ensuring index: ${error}`);
-      throw error;
+      if (!isAlreadyExistsError(error)) {
+        throw error;
+      }
     }
+
+    // Created by a caller that added the alias in a second request
+    const aliased = await client.indices.existsAlias({
+      index,
+      name: managed.alias,
+    });
+    if (!aliased.body) {
+      await client.indices.putAlias({
+        index,
+        name: managed.alias,
+        body: { is_write_index: true },
+      });
+    }
+  }
+
+  /**
+   * Create the physical index of the current mapping version
+   * `meta` is stored in the mapping, e.g. the state of a migration into it.
+   */
+  public async createVersionedIndex(
+    managed: ManagedIndex,
+    meta: Record<string, unknown> = {},
+    aliases: Record<string, object> = {}
+  ): Promise<void> {
+    const { settings, mappings } = managed.body;
+    await this.getClient().indices.create({
+      index: getVersionedIndexName(managed.alias, managed.version),
+      body: {
+        settings,
+        mappings: {
+          ...mappings,
+          _meta: { version: managed.version, ...meta },
+        },
+        aliases,
+      },
+    });
   }
 
   public async getIndexHealth() {
@@ -0,0 +1,81 @@
+/**
+ * Tests for the permission model - Plugin roles from OpenSearch Security roles
+ */
+import {
+  PermissionConfig,
+  PermissionError,
+  assertPermission,
+  resolvePermissions,
+  resolveRole,
+  withSecurityReadOnlyRoles,
+} from './permission.service';
+import { AuthenticatedUser } from './auth.service';
+import { TodoPermission, TodoRole } from '../../common/types';
+
+const config: PermissionConfig = {
+  adminRoles: ['all_access'],
+  editorRoles: ['security_team'],
+  readOnlyRoles: ['kibana_read_only'],
+  defaultRole: TodoRole.VIEWER,
+};
+
+const user = (
+  roles: string[] = [],
+  backendRoles: string[] = []
+): AuthenticatedUser => ({ username: 'alice', roles, backendRoles });
+
+describe('permission model', () => {
+  describe('resolveRole', () => {
+    it('should map security and backend roles to plugin roles', () => {
+      expect(resolveRole(user(['all_access']), config)).toBe(TodoRole.ADMIN);
+      expect(resolveRole(user([], ['security_team']), config)).toBe(
+        TodoRole.EDITOR
+      );
+      expect(resolveRole(user(['own_index']), config)).toBe(TodoRole.VIEWER);
+    });
+
+    it('should keep read-only users to viewing', () => {
+      const readOnly = user(['all_access', 'kibana_read_only']);
+
+      expect(resolveRole(readOnly, config)).toBe(TodoRole.VIEWER);
+      expect(resolvePermissions(readOnly, config)).toEqual({
+        username: 'alice',
+        role: TodoRole.VIEWER,
+        readOnly: true,
+        permissions: [TodoPermission.READ],
+      });
+    });
+  });
+
+  describe('withSecurityReadOnlyRoles', () => {
+    it('should add the read-only roles of the security plugin', () => {
+      const merged = withSecurityReadOnlyRoles(
+        { ...config, readOnlyRoles: ['auditor'] },
+        ['kibana_read_only', 'auditor']
+      );
+
+      expect(merged.readOnlyRoles).toEqual(['kibana_read_only', 'auditor']);
+      expect(resolveRole(user(['kibana_read_only']), merged)).toBe(
+        TodoRole.VIEWER
+      );
+    });
+
+    it('should keep the plugin setting without the security plugin', () => {
+      expect(withSecurityReadOnlyRoles(config)).toEqual(config);
+    });
+  });
+
+  describe('assertPermission', () => {
+    it('should reject what the role does not allow', () => {
+      const editor = resolvePermissions(user(['security_team']), config);
+
+      expect(() => assertPermission(editor, TodoPermission.DELETE)).not.toThrow();
+      expect(() => assertPermission(editor, TodoPermission.MANAGE)).toThrow(
+        PermissionError
+      );
+      expect(() => assertPermission(editor, TodoPermission.MANAGE)).toThrow(
+        'Missing permission: manage'
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { AuthenticatedUser } from "./auth.service";
+import {
+  TodoPermission,
+  TodoPermissions,
+  TodoRole,
+} from "../../common/types";
+import { ROLE_PERMISSIONS } from "../../common/permissions";
+
+/**
+ * OpenSearch Security roles of each plugin role, from the plugin config
+ */
+export interface PermissionConfig {
+  adminRoles: string[];
+  editorRoles: string[];
+  readOnlyRoles: string[];
+  defaultRole: TodoRole;
+}
+
+/**
+ * Permission config with the read-only roles of the security plugin added,
+ * so `opensearch_security.readonly_mode.roles` does not need repeating
+ */
+export const withSecurityReadOnlyRoles = (
+  config: PermissionConfig,
+  securityRoles: string[] = []
+): PermissionConfig => ({
+  ...config,
+  readOnlyRoles: Array.from(
+    new Set([...securityRoles, ...config.readOnlyRoles])
+  ),
+});
+
+/**
+ * Thrown when the role of the user does not allow a request
+ */
+export class PermissionError extends Error {
+  constructor(public readonly permission: TodoPermission) {
+    super(`Missing permission: ${permission}`);
+    this.name = "PermissionError";
+  }
+}
+
+// Security and backend roles are both matched
+const hasAnyRole = (user: AuthenticatedUser, mapped: string[]) =>
+  [...user.roles, ...user.backendRoles].some((role) => mapped.includes(role));
+
+/**
+ * Plugin role of a user
+ * A read-only role wins over any other, as in the read-only mode of the
+ * security plugin. Users without a mapped role, anonymous ones included, get
+ * the default role.
+ */
+export const resolveRole = (
+  user: AuthenticatedUser,
+  config: PermissionConfig
+): TodoRole => {
+  if (hasAnyRole(user, config.readOnlyRoles)) return TodoRole.VIEWER;
+  if (hasAnyRole(user, config.adminRoles)) return TodoRole.ADMIN;
+  if (hasAnyRole(user, config.editorRoles)) return TodoRole.EDITOR;
+  return config.defaultRole;
+};
+
+export const resolvePermissions = (
+  user: AuthenticatedUser,
+  config: PermissionConfig
+): TodoPermissions => {
+  const role = resolveRole(user, config);
+  return {
+    username: user.username,
+    role,
+    readOnly: hasAnyRole(user, config.readOnlyRoles),
+    permissions: ROLE_PERMISSIONS[role],
+  };
+};
+
+/**
+ * @throws PermissionError when the permissions lack the given one
+ */
+export const assertPermission = (
+  permissions: TodoPermissions,
+  permission: TodoPermission
+): void => {
+  if (!permissions.permissions.includes(permission)) {
+    throw new PermissionError(permission);
+  }
+};
@@ -0,0 +1,220 @@
+/**
+ * Tests for ProjectService - Projects that partition the boards
+ */
+import {
+  ProjectService,
+  ProjectAccessError,
+  ProjectValidationError,
+  applyProjectDefaults,
+  buildProjectQuery,
+} from './project.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  ComplianceStandard,
+  SaveProjectRequest,
+  TodoPriority,
+  TodoProject,
+} from '../../common/types';
+import {
+  ALL_PROJECTS,
+  DEFAULT_PROJECT_ID,
+  TODO_PROJECTS_INDEX_NAME,
+} from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+  search: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const notFound = () =>
+  Object.assign(new Error('Not found'), { statusCode: 404 });
+
+const request: SaveProjectRequest = {
+  key: 'PCI',
+  name: ' PCI audit ',
+  members: ['alice'],
+  defaults: { priority: TodoPriority.HIGH },
+};
+
+const storedProject = (overrides: Partial<TodoProject> = {}): TodoProject => ({
+  id: 'project-1',
+  key: 'PCI',
+  name: 'PCI audit',
+  members: ['alice'],
+  defaults: {},
+  builtIn: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const hits = (projects: TodoProject[]) => ({
+  body: { hits: { hits: projects.map((project) => ({ _source: project })) } },
+});
+
+describe('ProjectService', () => {
+  let service: ProjectService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ProjectService(mockOsService, mockLogger);
+    mockClient.get.mockRejectedValue(notFound());
+    mockClient.search.mockResolvedValue(hits([]));
+  });
+
+  describe('buildProjectQuery', () => {
+    it('should match items without a project in the default one', () => {
+      expect(buildProjectQuery(['project-1'])).toEqual({
+        terms: { projectId: ['project-1'] },
+      });
+      expect(buildProjectQuery([DEFAULT_PROJECT_ID])).toEqual({
+        bool: {
+          should: [
+            { terms: { projectId: [DEFAULT_PROJECT_ID] } },
+            { bool: { must_not: { exists: { field: 'projectId' } } } },
+          ],
+          minimum_should_match: 1,
+        },
+      });
+    });
+  });
+
+  describe('applyProjectDefaults', () => {
+    it('should fill the fields left empty', () => {
+      const project = storedProject({
+        defaults: {
+          priority: TodoPriority.HIGH,
+          assignee: 'bob',
+          complianceStandards: [ComplianceStandard.PCI_DSS],
+        },
+      });
+
+      expect(
+        applyProjectDefaults(
+          { title: 'Rotate keys', assignee: 'carol', tags: [] },
+          project
+        )
+      ).toEqual({
+        title: 'Rotate keys',
+        priority: TodoPriority.HIGH,
+        assignee: 'carol',
+        tags: undefined,
+        complianceStandards: [ComplianceStandard.PCI_DSS],
+      });
+    });
+  });
+
+  describe('listProjects', () => {
+    it('should list the default project and those of the user', async () => {
+      mockClient.search.mockResolvedValue(
+        hits([
+          storedProject(),
+          storedProject({ id: 'project-2', key: 'HR', members: ['bob'] }),
+          storedProject({ id: 'project-3', key: 'OPS', members: [] }),
+        ])
+      );
+
+      const projects = await service.listProjects('alice');
+
+      expect(projects.map((project) => project.id)).toEqual([
+        DEFAULT_PROJECT_ID,
+        'project-1',
+        'project-3',
+      ]);
+      expect(projects[0].builtIn).toBe(true);
+    });
+  });
+
+  describe('createProject', () => {
+    it('should add the creator to the members', async () => {
+      const project = await service.createProject(
+        { ...request, members: ['bob'] },
+        'alice'
+      );
+
+      expect(project.name).toBe('PCI audit');
+      expect(project.members).toEqual(['bob', 'alice']);
+      expect(mockClient.index).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: TODO_PROJECTS_INDEX_NAME,
+          id: project.id,
+        })
+      );
+    });
+
+    it('should reject a key in use', async () => {
+      mockClient.search.mockResolvedValue(hits([storedProject()]));
+
+      await expect(service.createProject(request, 'alice')).rejects.toThrow(
+        ProjectValidationError
+      );
+      await expect(
+        service.createProject({ ...request, key: 'TODO' }, 'alice')
+      ).rejects.toThrow('Project key already in use: TODO');
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteProject', () => {
+    it('should not delete the default project', async () => {
+      await expect(
+        service.deleteProject(DEFAULT_PROJECT_ID, 'alice')
+      ).rejects.toThrow('The default project cannot be deleted');
+    });
+
+    it('should not delete a project that still has items', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedProject() } });
+      mockClient.count.mockResolvedValue({ body: { count: 2 } });
+
+      await expect(
+        service.deleteProject('project-1', 'alice')
+      ).rejects.toThrow('Project PCI still has 2 items');
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveScope', () => {
+    it('should scope to the default project without an id', async () => {
+      const scope = await service.resolveScope(undefined, 'alice');
+
+      expect(scope.projectIds).toEqual([DEFAULT_PROJECT_ID]);
+      expect(scope.project.builtIn).toBe(true);
+    });
+
+    it('should reject projects the user is not a member of', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedProject() } });
+
+      await expect(service.resolveScope('project-1', 'bob')).rejects.toThrow(
+        ProjectAccessError
+      );
+      await expect(service.resolveScope('missing', 'bob')).rejects.toThrow(
+        'No access to project: missing'
+      );
+    });
+
+    it('should scope all projects of the user', async () => {
+      mockClient.search.mockResolvedValue(hits([storedProject()]));
+
+      const scope = await service.resolveScope(ALL_PROJECTS, 'alice');
+
+      expect(scope.projectIds).toEqual([DEFAULT_PROJECT_ID, 'project-1']);
+      expect(scope.project.id).toBe(DEFAULT_PROJECT_ID);
+    });
+  });
+});
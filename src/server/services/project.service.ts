@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  TodoProject,
+  SaveProjectRequest,
+  CreateTodoRequest,
+} from "../../common/types";
+import {
+  TODO_INDEX_NAME,
+  TODO_PROJECTS_INDEX_NAME,
+  DEFAULT_PROJECT_ID,
+  ALL_PROJECTS,
+} from "../../common/constants";
+
+// Upper bound for the projects listed at once
+const MAX_PROJECTS = 500;
+
+/**
+ * Thrown when a project cannot be saved or deleted
+ */
+export class ProjectValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectValidationError";
+  }
+}
+
+/**
+ * Thrown when a user asks for a project they are not a member of
+ * Unknown projects are reported the same way, so their ids are not leaked.
+ */
+export class ProjectAccessError extends Error {
+  constructor(id: string) {
+    super(`No access to project: ${id}`);
+    this.name = "ProjectAccessError";
+  }
+}
+
+/**
+ * Projects a TodoService reads and changes items of
+ * New items are created in `project`, which is one of `projectIds`.
+ */
+export interface ProjectScope {
+  projectIds: string[];
+  project: TodoProject;
+}
+
+// The default project exists before anyone saves it
+const buildDefaultProject = (): TodoProject => ({
+  id: DEFAULT_PROJECT_ID,
+  key: "TODO",
+  name: "Default",
+  members: [],
+  defaults: {},
+  builtIn: true,
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+});
+
+export const isProjectMember = (project: TodoProject, username: string) =>
+  project.members.length === 0 || project.members.includes(username);
+
+/**
+ * Query for the items of the given projects
+ * Items without a project belong to the default one.
+ */
+export const buildProjectQuery = (projectIds: string[]) =>
+  projectIds.includes(DEFAULT_PROJECT_ID)
+    ? {
+        bool: {
+          should: [
+            { terms: { projectId: projectIds } },
+            { bool: { must_not: { exists: { field: "projectId" } } } },
+          ],
+          minimum_should_match: 1,
+        },
+      }
+    : { terms: { projectId: projectIds } };
+
+export const getProjectId = (todo: { projectId?: string }) =>
+  todo.projectId || DEFAULT_PROJECT_ID;
+
+/**
+ * A new item of the project, with the project defaults in the fields left
+ * empty
+ */
+export const applyProjectDefaults = (
+  data: CreateTodoRequest,
+  project: TodoProject
+): CreateTodoRequest => {
+  const { defaults } = project;
+  return {
+    ...data,
+    priority: data.priority || defaults.priority,
+    assignee: data.assignee || defaults.assignee,
+    tags: data.tags?.length ? data.tags : defaults.tags,
+    complianceStandards: data.complianceStandards?.length
+      ? data.complianceStandards
+      : defaults.complianceStandards,
+  };
+};
+
+export class ProjectService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List the projects the user is a member of, the default one first
+   */
+  public async listProjects(username: string): Promise<TodoProject[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_PROJECTS_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: { match_all: {} },
+        sort: [{ "name.keyword": { order: "asc", unmapped_type: "keyword" } }],
+        size: MAX_PROJECTS,
+      },
+    });
+
+    const stored = response.body.hits.hits.map(
+      (hit: any) => hit._source as TodoProject
+    );
+    const defaultProject =
+      stored.find((project: TodoProject) => project.builtIn) ||
+      buildDefaultProject();
+    return [
+      defaultProject,
+      ...stored.filter(
+        (project: TodoProject) =>
+          !project.builtIn && isProjectMember(project, username)
+      ),
+    ];
+  }
+
+  /**
+   * @throws ProjectAccessError when the user is not a member
+   */
+  public async getProject(id: string, username: string): Promise<TodoProject> {
+    const project = await this.loadProject(id);
+    if (!project || !isProjectMember(project, username)) {
+      throw new ProjectAccessError(id);
+    }
+    return project;
+  }
+
+  /**
+   * Create a project; its creator is always one of its members
+   */
+  public async createProject(
+    data: SaveProjectRequest,
+    username: string
+  ): Promise<TodoProject> {
+    const client = this.osService.getClient();
+    const now = new Date().toISOString();
+    await this.assertUniqueKey(data.key);
+
+    const project: TodoProject = {
+      id: uuidv4(),
+      key: data.key,
+      name: data.name.trim(),
+      description: data.description,
+      members: this.withMember(data.members, username),
+      defaults: data.defaults,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await client.index({
+      index: TODO_PROJECTS_INDEX_NAME,
+      id: project.id,
+      body: project,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Created project: ${project.key}`);
+    return project;
+  }
+
+  /**
+   * Replace the settings of a project
+   * The default project stays open to everyone.
+   */
+  public async updateProject(
+    id: string,
+    data: SaveProjectRequest,
+    username: string
+  ): Promise<TodoProject> {
+    const existing = await this.getProject(id, username);
+    const client = this.osService.getClient();
+    await this.assertUniqueKey(data.key, id);
+
+    const project: TodoProject = {
+      ...existing,
+      key: data.key,
+      name: data.name.trim(),
+      description: data.description,
+      members: existing.builtIn
+        ? []
+        : this.withMember(data.members, username),
+      defaults: data.defaults,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await client.index({
+      index: TODO_PROJECTS_INDEX_NAME,
+      id,
+      body: project,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Updated project: ${project.key}`);
+    return project;
+  }
+
+  /**
+   * Delete an empty project
+   * Items have to be moved or deleted first, archived ones included.
+   */
+  public async deleteProject(id: string, username: string): Promise<void> {
+    const existing = await this.getProject(id, username);
+    if (existing.builtIn) {
+      throw new ProjectValidationError(
+        "The default project cannot be deleted"
+      );
+    }
+
+    const client = this.osService.getClient();
+    const count = await client.count({
+      index: TODO_INDEX_NAME,
+      body: { query: { term: { projectId: id } } },
+    });
+    if (count.body.count > 0) {
+      throw new ProjectValidationError(
+        `Project ${existing.key} still has ${count.body.count} items`
+      );
+    }
+
+    await client.delete({
+      index: TODO_PROJECTS_INDEX_NAME,
+      id,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Deleted project: ${existing.key}`);
+  }
+
+  /**
+   * Projects a request for the given project id may read and change
+   * No id means the default project; `all` means every project of the user,
+   * with new items going to the default project.
+   *
+   * @throws ProjectAccessError when the user is not a member
+   */
+  public async resolveScope(
+    projectId: string = DEFAULT_PROJECT_ID,
+    username: string
+  ): Promise<ProjectScope> {
+    if (projectId !== ALL_PROJECTS) {
+      const project = await this.getProject(projectId, username);
+      return { projectIds: [project.id], project };
+    }
+
+    const projects = await this.listProjects(username);
+    return {
+      projectIds: projects.map((project) => project.id),
+      project: projects[0],
+    };
+  }
+
+  private async loadProject(id: string): Promise<TodoProject | null> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_PROJECTS_INDEX_NAME,
+        id,
+      });
+      return response.body._source as TodoProject;
+    } catch (error: any) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+    return id === DEFAULT_PROJECT_ID ? buildDefaultProject() : null;
+  }
+
+  private async assertUniqueKey(key: string, id?: string): Promise<void> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_PROJECTS_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: { term: { key } },
+        size: 1,
+        _source: ["id"],
+      },
+    });
+    // The default project has its key before it is ever stored
+    const defaultProject = await this.loadProject(DEFAULT_PROJECT_ID);
+    const taken =
+      response.body.hits.hits.some((hit: any) => hit._source.id !== id) ||
+      (id !== DEFAULT_PROJECT_ID && defaultProject?.key === key);
+    if (taken) {
+      throw new ProjectValidationError(`Project key already in use: ${key}`);
+    }
+  }
+
+  private withMember(members: string[], username: string): string[] {
+    return members.length === 0 || members.includes(username)
+      ? members
+      : [...members, username];
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for RecurrenceService - Occurrences of recurring TODO series
+ */
+import {
+  RecurrenceService,
+  buildNextOccurrence,
+  getOccurrenceId,
+} from './recurrence.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  RecurrenceFrequency,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from '../../common/types';
+import { TODO_INDEX_NAME } from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const occurrence: TodoItem = {
+  id: 'series-1',
+  title: 'Weekly log review',
+  status: TodoStatus.COMPLETED_SUCCESS,
+  priority: TodoPriority.MEDIUM,
+  tags: [],
+  complianceStandards: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  archived: false,
+  plannedDate: '2026-01-05T00:00:00.000Z',
+  recurrence: { frequency: RecurrenceFrequency.WEEKLY, interval: 2 },
+  seriesId: 'series-1',
+  occurrenceIndex: 0,
+  occurrenceStart: '2026-01-05T00:00:00.000Z',
+};
+
+const searchHits = (todos: TodoItem[]) => ({
+  body: { hits: { hits: todos.map((todo) => ({ _source: todo })) } },
+});
+
+describe('buildNextOccurrence', () => {
+  it('should move the occurrence forward by one interval', () => {
+    const next = buildNextOccurrence(occurrence);
+
+    expect(next?.id).toBe(getOccurrenceId('series-1', 1));
+    expect(next?.occurrenceIndex).toBe(1);
+    expect(next?.occurrenceStart).toBe('2026-01-19T00:00:00.000Z');
+    expect(next?.plannedDate).toBe('2026-01-19T00:00:00.000Z');
+    expect(next?.dueDate).toBeUndefined();
+  });
+
+  it('should keep the day of month where possible', () => {
+    const next = buildNextOccurrence({
+      ...occurrence,
+      recurrence: { frequency: RecurrenceFrequency.QUARTERLY, interval: 1 },
+      occurrenceStart: '2025-11-30T00:00:00.000Z',
+    });
+
+    expect(next?.occurrenceStart).toBe('2026-02-28T00:00:00.000Z');
+  });
+
+  it('should stop after the end date', () => {
+    const rule = { frequency: RecurrenceFrequency.WEEKLY, interval: 2 };
+
+    expect(
+      buildNextOccurrence({
+        ...occurrence,
+        recurrence: { ...rule, endDate: '2026-01-19' },
+      })
+    ).not.toBeNull();
+    expect(
+      buildNextOccurrence({
+        ...occurrence,
+        recurrence: { ...rule, endDate: '2026-01-18' },
+      })
+    ).toBeNull();
+  });
+
+  it('should ignore items that are not part of a series', () => {
+    expect(
+      buildNextOccurrence({ ...occurrence, seriesId: undefined })
+    ).toBeNull();
+  });
+});
+
+describe('RecurrenceService', () => {
+  let service: RecurrenceService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RecurrenceService(mockOsService, mockLogger);
+  });
+
+  it('should get the occurrences of a series in order', async () => {
+    mockClient.search.mockResolvedValue(searchHits([occurrence]));
+
+    const series = await service.getSeries('series-1');
+
+    expect(series).toEqual([occurrence]);
+    const request = mockClient.search.mock.calls[0][0];
+    expect(request.index).toBe(TODO_INDEX_NAME);
+    expect(request.body.query.bool.filter).toEqual([
+      { term: { seriesId: 'series-1' } },
+    ]);
+  });
+
+  it('should find the latest occurrences that are due', async () => {
+    mockClient.search.mockResolvedValue(
+      searchHits([
+        occurrence,
+        { ...occurrence, seriesId: 'archived', archived: true },
+        {
+          ...occurrence,
+          seriesId: 'later',
+          occurrenceStart: '2026-01-10T00:00:00.000Z',
+        },
+      ])
+    );
+
+    const due = await service.findDueOccurrences(
+      new Date('2026-01-20T00:00:00.000Z')
+    );
+
+    expect(due.map((todo) => todo.seriesId)).toEqual(['series-1']);
+    expect(mockClient.search.mock.calls[0][0].body.collapse).toEqual({
+      field: 'seriesId',
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { isDeleted } from "./trash.service";
+import { TodoItem } from "../../common/types";
+import {
+  addRecurrenceInterval,
+  getNextOccurrenceStart,
+} from "../../common/recurrence";
+import { TODO_INDEX_NAME } from "../../common/constants";
+
+// Upper bound for the occurrences of one series and for series checked per run
+const MAX_SERIES_SIZE = 1000;
+
+/**
+ * Document id of an occurrence
+ * Ids are derived from the series so the completion hook and the scheduler
+ * can never create the same occurrence twice.
+ */
+export const getOccurrenceId = (seriesId: string, index: number): string =>
+  `${seriesId}-${index}`;
+
+// Occurrence fields that do not depend on the workflow or the time of writing
+export type NextOccurrence = Omit<
+  TodoItem,
+  "status" | "createdAt" | "updatedAt" | "archived"
+>;
+
+/**
+ * Fields of the occurrence that follows the given one, or null once the
+ * series has ended
+ * Status, position and timestamps are left to the caller.
+ */
+export const buildNextOccurrence = (
+  previous: TodoItem
+): NextOccurrence | null => {
+  const { recurrence, seriesId } = previous;
+  if (!recurrence || !seriesId) {
+    return null;
+  }
+
+  const start = previous.occurrenceStart || previous.createdAt;
+  const occurrenceStart = getNextOccurrenceStart(start, recurrence);
+  if (!occurrenceStart) {
+    return null;
+  }
+
+  const occurrenceIndex = (previous.occurrenceIndex || 0) + 1;
+  const shift = (date?: string) =>
+    date ? addRecurrenceInterval(date, recurrence) : undefined;
+
+  return {
+    id: getOccurrenceId(seriesId, occurrenceIndex),
+    title: previous.title,
+    description: previous.description,
+    priority: previous.priority,
+    tags: previous.tags,
+    complianceStandards: previous.complianceStandards,
+    controls: previous.controls,
+    assignee: previous.assignee,
+    assigneeId: previous.assigneeId,
+    storyPoints: previous.storyPoints,
+    coverImage: previous.coverImage,
+    projectId: previous.projectId,
+    plannedDate: shift(previous.plannedDate),
+    dueDate: shift(previous.dueDate),
+    recurrence,
+    seriesId,
+    occurrenceIndex,
+    occurrenceStart,
+  };
+};
+
+export class RecurrenceService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get all occurrences of a series, oldest first
+   */
+  public async getSeries(seriesId: string): Promise<TodoItem[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      body: {
+        query: { bool: { filter: [{ term: { seriesId } }] } },
+        sort: [{ occurrenceIndex: { order: "asc", unmapped_type: "integer" } }],
+        size: MAX_SERIES_SIZE,
+      },
+    });
+
+    return response.body.hits.hits.map((hit: any) => hit._source as TodoItem);
+  }
+
+  /**
+   * Latest occurrence of every series whose next period has started
+   * Series whose latest occurrence is archived or deleted are paused.
+   */
+  public async findDueOccurrences(now: Date): Promise<TodoItem[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: {
+          bool: {
+            filter: [
+              { exists: { field: "seriesId" } },
+              { exists: { field: "recurrence.frequency" } },
+            ],
+          },
+        },
+        collapse: { field: "seriesId" },
+        sort: [{ occurrenceIndex: { order: "desc" } }],
+        size: MAX_SERIES_SIZE,
+      },
+    });
+
+    const latest: TodoItem[] = response.body.hits.hits.map(
+      (hit: any) => hit._source as TodoItem
+    );
+
+    const due = latest.filter((todo) => {
+      if (todo.archived || isDeleted(todo) || !todo.recurrence) {
+        return false;
+      }
+      const start = todo.occurrenceStart || todo.createdAt;
+      const next = getNextOccurrenceStart(start, todo.recurrence);
+      return next !== null && new Date(next) <= now;
+    });
+
+    this.logger.debug(
+      `${due.length} of ${latest.length} recurring series are due`
+    );
+    return due;
+  }
+}
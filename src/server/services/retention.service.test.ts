@@ -0,0 +1,315 @@
+/**
+ * Tests for RetentionService - Auto-archive and purge of old items
+ */
+import {
+  RetentionService,
+  buildArchiveQuery,
+  buildPurgeQuery,
+  buildTrashPurgeQuery,
+} from './retention.service';
+import { OpenSearchService } from './opensearch.service';
+import { TodoService } from './todo.service';
+import { AuthService } from './auth.service';
+import { Logger } from 'src/core/server';
+import {
+  RetentionPolicy,
+  RetentionPurgeSource,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from '../../common/types';
+import { DEFAULT_RETENTION_POLICY } from '../../common/retention';
+import {
+  TODO_INDEX_NAME,
+  TODO_PURGES_INDEX_NAME,
+} from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  search: jest.fn(),
+  count: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+  ensureIndex: jest.fn().mockResolvedValue(undefined),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const now = new Date('2026-03-01T00:00:00.000Z');
+
+const policy: RetentionPolicy = {
+  archiveEnabled: true,
+  archiveAfterDays: 30,
+  purgeEnabled: true,
+  purgeAfterDays: 90,
+  trashPurgeAfterDays: 30,
+  legalHoldTag: 'legal-hold',
+};
+
+const todo = (id: string, changes: Partial<TodoItem> = {}): TodoItem => ({
+  id,
+  title: `Item ${id}`,
+  status: TodoStatus.COMPLETED_SUCCESS,
+  priority: TodoPriority.LOW,
+  tags: [],
+  complianceStandards: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+  archived: false,
+  version: 1,
+  ...changes,
+});
+
+// Search results of the items archived, purged and purged from the trash
+const searchItems = (
+  toArchive: TodoItem[],
+  toPurge: TodoItem[],
+  toEmpty: TodoItem[] = []
+) =>
+  mockClient.search.mockImplementation(({ body }) => {
+    const query = JSON.stringify(body.query);
+    const items = query.includes('"range":{"deletedAt"')
+      ? toEmpty
+      : query.includes('archivedAt')
+      ? toPurge
+      : toArchive;
+    return Promise.resolve({
+      body: {
+        hits: {
+          total: { value: items.length },
+          hits: items.map((_source) => ({ _source })),
+        },
+      },
+    });
+  });
+
+describe('RetentionService', () => {
+  let service: RetentionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new RetentionService(mockOsService, mockLogger);
+    mockClient.get.mockResolvedValue({ body: { _source: policy } });
+    mockClient.count.mockResolvedValue({ body: { count: 2 } });
+    mockClient.index.mockResolvedValue({});
+    jest
+      .spyOn(AuthService.prototype, 'getCurrentUser')
+      .mockResolvedValue({ username: 'kibanaserver' } as any);
+    jest
+      .spyOn(TodoService.prototype, 'bulkArchive')
+      .mockImplementation((ids) =>
+        Promise.resolve({ success: true, processed: ids.length, failed: 0 })
+      );
+    jest.spyOn(TodoService.prototype, 'purgeTodos').mockResolvedValue({
+      success: false,
+      processed: 1,
+      failed: 1,
+      errors: [{ id: 'old-2', error: 'Version conflict' }],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getPolicy', () => {
+    it('should fall back to the default policy', async () => {
+      mockClient.get.mockRejectedValue({ statusCode: 404 });
+
+      await expect(service.getPolicy()).resolves.toEqual(
+        DEFAULT_RETENTION_POLICY
+      );
+    });
+  });
+
+  describe('queries', () => {
+    it('should archive completed items after the days of the policy', () => {
+      const query = buildArchiveQuery(policy, now);
+
+      expect(query.bool.filter).toEqual(
+        expect.arrayContaining([
+          { term: { status: TodoStatus.COMPLETED_SUCCESS } },
+          { term: { archived: false } },
+        ])
+      );
+      expect(JSON.stringify(query)).toContain(
+        '{"range":{"completedAt":{"lte":"2026-01-30T00:00:00.000Z"}}}'
+      );
+    });
+
+    it('should leave out the items on legal hold', () => {
+      const hold = { term: { tags: 'legal-hold' } };
+
+      expect(buildPurgeQuery(policy, now).bool.must_not).toEqual([hold]);
+      expect(buildPurgeQuery(policy, now, true).bool.filter).toContainEqual(
+        hold
+      );
+      expect(buildTrashPurgeQuery(policy, now).bool.must_not).toEqual([hold]);
+    });
+
+    it('should leave the trash out of archiving and purging', () => {
+      const inUse = {
+        bool: { must_not: [{ exists: { field: 'deletedAt' } }] },
+      };
+
+      expect(buildArchiveQuery(policy, now).bool.filter).toContainEqual(inUse);
+      expect(buildPurgeQuery(policy, now).bool.filter).toContainEqual(inUse);
+    });
+
+    it('should empty the trash of items deleted before the cutoff', () => {
+      expect(buildTrashPurgeQuery(policy, now).bool.filter).toEqual([
+        { exists: { field: 'deletedAt' } },
+        { range: { deletedAt: { lte: '2026-01-30T00:00:00.000Z' } } },
+      ]);
+    });
+  });
+
+  describe('preview', () => {
+    it('should list the items without changing them', async () => {
+      searchItems([todo('done-1')], [todo('old-1', { archived: true })]);
+
+      const preview = await service.preview(policy, now);
+
+      expect(preview).toEqual({
+        archive: {
+          total: 1,
+          items: [expect.objectContaining({ id: 'done-1' })],
+        },
+        purge: {
+          total: 1,
+          items: [expect.objectContaining({ id: 'old-1' })],
+        },
+        trash: { total: 0, items: [] },
+        legalHold: 4,
+      });
+      expect(mockClient.search).toHaveBeenCalledWith(
+        expect.objectContaining({ index: TODO_INDEX_NAME })
+      );
+      expect(TodoService.prototype.bulkArchive).not.toHaveBeenCalled();
+      expect(TodoService.prototype.purgeTodos).not.toHaveBeenCalled();
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+
+    it('should only empty the trash with a disabled policy', async () => {
+      searchItems([todo('done-1')], [], [todo('gone-1')]);
+
+      const preview = await service.preview(DEFAULT_RETENTION_POLICY, now);
+
+      expect(preview).toEqual({
+        archive: { total: 0, items: [] },
+        purge: { total: 0, items: [] },
+        trash: {
+          total: 1,
+          items: [expect.objectContaining({ id: 'gone-1' })],
+        },
+        legalHold: 2,
+      });
+      expect(mockClient.search).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('run', () => {
+    it('should only empty the trash while the policy is disabled', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: DEFAULT_RETENTION_POLICY },
+      });
+      searchItems([todo('done-1')], [todo('old-1', { archived: true })]);
+
+      await expect(service.run(now)).resolves.toEqual({
+        archived: 0,
+        purged: 0,
+        trashPurged: 0,
+        failed: 0,
+      });
+      expect(mockClient.search).toHaveBeenCalledTimes(1);
+      expect(TodoService.prototype.bulkArchive).not.toHaveBeenCalled();
+      expect(TodoService.prototype.purgeTodos).not.toHaveBeenCalled();
+    });
+
+    it('should archive, purge and record the purge', async () => {
+      const archived = { archived: true, archivedBy: 'alice' };
+      searchItems(
+        [todo('done-1')],
+        [todo('old-1', archived), todo('old-2', archived)]
+      );
+
+      const result = await service.run(now);
+
+      expect(result).toEqual({
+        archived: 1,
+        purged: 1,
+        trashPurged: 0,
+        failed: 1,
+      });
+      expect(TodoService.prototype.bulkArchive).toHaveBeenCalledWith([
+        'done-1',
+      ]);
+      expect(TodoService.prototype.purgeTodos).toHaveBeenCalledWith(
+        ['old-1', 'old-2'],
+        'active'
+      );
+
+      const [[{ index, body }]] = mockClient.index.mock.calls;
+      expect(index).toBe(TODO_PURGES_INDEX_NAME);
+      expect(body).toMatchObject({
+        source: RetentionPurgeSource.ARCHIVE,
+        reason: 'Archived more than 90 days ago and not tagged legal-hold',
+        purgeAfterDays: 90,
+        purged: 1,
+        failed: 1,
+        legalHold: 2,
+        actor: 'kibanaserver',
+        timestamp: now.toISOString(),
+      });
+      expect(body.items).toEqual([
+        expect.objectContaining({ id: 'old-1', archivedBy: 'alice' }),
+      ]);
+    });
+
+    it('should empty the trash and record the purge', async () => {
+      const deleted = {
+        deletedAt: '2026-01-02T00:00:00.000Z',
+        deletedBy: 'bob',
+      };
+      searchItems([], [], [todo('gone-1', deleted)]);
+      (TodoService.prototype.purgeTodos as jest.Mock).mockResolvedValue({
+        success: true,
+        processed: 1,
+        failed: 0,
+      });
+
+      const result = await service.run(now);
+
+      expect(result).toEqual({
+        archived: 0,
+        purged: 0,
+        trashPurged: 1,
+        failed: 0,
+      });
+      expect(TodoService.prototype.purgeTodos).toHaveBeenCalledWith(
+        ['gone-1'],
+        'trash'
+      );
+
+      const [[{ body }]] = mockClient.index.mock.calls;
+      expect(body).toMatchObject({
+        source: RetentionPurgeSource.TRASH,
+        reason: 'Deleted more than 30 days ago and not tagged legal-hold',
+        purgeAfterDays: 30,
+        purged: 1,
+      });
+      expect(body.items).toEqual([
+        expect.objectContaining({ id: 'gone-1', deletedBy: 'bob' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,418 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { AuthService } from "./auth.service";
+import { BulkOperationResult, TodoService } from "./todo.service";
+import { buildTrashQuery } from "./trash.service";
+import {
+  RetentionItem,
+  RetentionPolicy,
+  RetentionPreview,
+  RetentionPurgeSource,
+  RetentionPurgeSummary,
+  RetentionRunResult,
+  TodoItem,
+  TodoStatus,
+} from "../../common/types";
+import { DEFAULT_RETENTION_POLICY } from "../../common/retention";
+import {
+  TODO_INDEX_NAME,
+  TODO_RETENTION_INDEX_NAME,
+  TODO_PURGES_INDEX_NAME,
+  RETENTION_BATCH_SIZE,
+  RETENTION_PREVIEW_SIZE,
+} from "../../common/constants";
+
+// The policy is a single document
+const POLICY_DOC_ID = "policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getCutoff = (days: number, now: Date): string =>
+  new Date(now.getTime() - days * DAY_MS).toISOString();
+
+// Items that reached the date field before the cutoff; items from before
+// the field was recorded count from their last update
+const olderThan = (field: string, cutoff: string) => ({
+  bool: {
+    should: [
+      { range: { [field]: { lte: cutoff } } },
+      {
+        bool: {
+          must_not: [{ exists: { field } }],
+          filter: [{ range: { updatedAt: { lte: cutoff } } }],
+        },
+      },
+    ],
+    minimum_should_match: 1,
+  },
+});
+
+/**
+ * Query of the completed items the policy archives
+ */
+export const buildArchiveQuery = (policy: RetentionPolicy, now: Date) => ({
+  bool: {
+    filter: [
+      { term: { status: TodoStatus.COMPLETED_SUCCESS } },
+      { term: { archived: false } },
+      buildTrashQuery(false),
+      olderThan("completedAt", getCutoff(policy.archiveAfterDays, now)),
+    ],
+  },
+});
+
+/**
+ * Query of the archived items the policy purges, or with `onHold` of those
+ * it would purge but for the legal hold tag
+ */
+export const buildPurgeQuery = (
+  policy: RetentionPolicy,
+  now: Date,
+  onHold = false
+) => {
+  const hold = { term: { tags: policy.legalHoldTag } };
+  return {
+    bool: {
+      filter: [
+        { term: { archived: true } },
+        buildTrashQuery(false),
+        olderThan("archivedAt", getCutoff(policy.purgeAfterDays, now)),
+        ...(onHold ? [hold] : []),
+      ],
+      must_not: onHold ? [] : [hold],
+    },
+  };
+};
+
+/**
+ * Query of the items of the trash the policy purges, or with `onHold` of
+ * those it would purge but for the legal hold tag
+ */
+export const buildTrashPurgeQuery = (
+  policy: RetentionPolicy,
+  now: Date,
+  onHold = false
+) => {
+  const hold = { term: { tags: policy.legalHoldTag } };
+  const cutoff = getCutoff(policy.trashPurgeAfterDays, now);
+  return {
+    bool: {
+      filter: [
+        buildTrashQuery(),
+        { range: { deletedAt: { lte: cutoff } } },
+        ...(onHold ? [hold] : []),
+      ],
+      must_not: onHold ? [] : [hold],
+    },
+  };
+};
+
+// What a purge of each source removes and why
+const getPurgeSpec = (
+  source: RetentionPurgeSource,
+  policy: RetentionPolicy,
+  now: Date
+) =>
+  source === RetentionPurgeSource.TRASH
+    ? {
+        days: policy.trashPurgeAfterDays,
+        dateField: "deletedAt",
+        query: buildTrashPurgeQuery(policy, now),
+        onHoldQuery: buildTrashPurgeQuery(policy, now, true),
+        reason:
+          `Deleted more than ${policy.trashPurgeAfterDays} days ago and ` +
+          `not tagged ${policy.legalHoldTag}`,
+      }
+    : {
+        days: policy.purgeAfterDays,
+        dateField: "archivedAt",
+        query: buildPurgeQuery(policy, now),
+        onHoldQuery: buildPurgeQuery(policy, now, true),
+        reason:
+          `Archived more than ${policy.purgeAfterDays} days ago and not ` +
+          `tagged ${policy.legalHoldTag}`,
+      };
+
+export const toRetentionItem = (todo: TodoItem): RetentionItem => ({
+  id: todo.id,
+  title: todo.title,
+  status: todo.status,
+  projectId: todo.projectId,
+  tags: todo.tags || [],
+  completedAt: todo.completedAt,
+  archivedAt: todo.archivedAt || undefined,
+  archivedBy: todo.archivedBy,
+  deletedAt: todo.deletedAt || undefined,
+  deletedBy: todo.deletedBy || undefined,
+  updatedAt: todo.updatedAt,
+});
+
+const EMPTY_RESULT: BulkOperationResult = {
+  success: true,
+  processed: 0,
+  failed: 0,
+};
+
+/**
+ * Archives completed items and purges archived ones after the days set by
+ * the retention policy, and empties the trash of old deletions
+ * The writes go through the TODO service, so they are recorded in the
+ * history and sent to the webhooks like those of users. Every purge is
+ * summed up in the purge log.
+ */
+export class RetentionService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get the retention policy, falling back to the default one
+   * Settings added since the policy was saved take their default value.
+   */
+  public async getPolicy(): Promise<RetentionPolicy> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_RETENTION_INDEX_NAME,
+        id: POLICY_DOC_ID,
+      });
+      return { ...DEFAULT_RETENTION_POLICY, ...response.body._source };
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return DEFAULT_RETENTION_POLICY;
+      }
+      throw error;
+    }
+  }
+
+  public async updatePolicy(
+    policy: RetentionPolicy,
+    actor: string
+  ): Promise<RetentionPolicy> {
+    const saved: RetentionPolicy = {
+      archiveEnabled: policy.archiveEnabled,
+      archiveAfterDays: policy.archiveAfterDays,
+      purgeEnabled: policy.purgeEnabled,
+      purgeAfterDays: policy.purgeAfterDays,
+      trashPurgeAfterDays: policy.trashPurgeAfterDays,
+      legalHoldTag: policy.legalHoldTag.trim(),
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    };
+
+    await this.osService.ensureIndex();
+    await this.osService.getClient().index({
+      index: TODO_RETENTION_INDEX_NAME,
+      id: POLICY_DOC_ID,
+      body: saved,
+      refresh: "wait_for",
+    });
+
+    this.logger.info("Updated retention policy");
+    return saved;
+  }
+
+  /**
+   * Items the policy would archive and purge if it ran now, without
+   * changing any; parts of the policy that are disabled affect none
+   */
+  public async preview(
+    policy: RetentionPolicy,
+    now = new Date()
+  ): Promise<RetentionPreview> {
+    const none = { total: 0, items: [] };
+    const [archive, purge, trash, onHold, trashOnHold] = await Promise.all([
+      policy.archiveEnabled
+        ? this.findItems(
+            buildArchiveQuery(policy, now),
+            "completedAt",
+            RETENTION_PREVIEW_SIZE
+          )
+        : none,
+      policy.purgeEnabled
+        ? this.findItems(
+            buildPurgeQuery(policy, now),
+            "archivedAt",
+            RETENTION_PREVIEW_SIZE
+          )
+        : none,
+      this.findItems(
+        buildTrashPurgeQuery(policy, now),
+        "deletedAt",
+        RETENTION_PREVIEW_SIZE
+      ),
+      policy.purgeEnabled
+        ? this.countItems(buildPurgeQuery(policy, now, true))
+        : 0,
+      this.countItems(buildTrashPurgeQuery(policy, now, true)),
+    ]);
+
+    return { archive, purge, trash, legalHold: onHold + trashOnHold };
+  }
+
+  /**
+   * Apply the saved policy to the oldest items it affects
+   * The trash is emptied of old deletions even while the rest of the
+   * policy is disabled.
+   */
+  public async run(now = new Date()): Promise<RetentionRunResult> {
+    const policy = await this.getPolicy();
+    const todoService = new TodoService(this.osService, this.logger);
+
+    const archived = policy.archiveEnabled
+      ? await this.archive(policy, todoService, now)
+      : EMPTY_RESULT;
+    // Items archived above are too recent to be purged in the same run
+    const purged = policy.purgeEnabled
+      ? await this.purge(
+          RetentionPurgeSource.ARCHIVE,
+          policy,
+          todoService,
+          now
+        )
+      : EMPTY_RESULT;
+    const trashPurged = await this.purge(
+      RetentionPurgeSource.TRASH,
+      policy,
+      todoService,
+      now
+    );
+
+    return {
+      archived: archived.processed,
+      purged: purged.processed,
+      trashPurged: trashPurged.processed,
+      failed: archived.failed + purged.failed + trashPurged.failed,
+    };
+  }
+
+  /**
+   * Latest purges, newest first
+   */
+  public async listPurges(size = 50): Promise<RetentionPurgeSummary[]> {
+    const response = await this.osService.getClient().search({
+      index: TODO_PURGES_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: { match_all: {} },
+        sort: [{ timestamp: { order: "desc", unmapped_type: "date" } }],
+        size,
+      },
+    });
+
+    return response.body.hits.hits.map(
+      (hit: any) => hit._source as RetentionPurgeSummary
+    );
+  }
+
+  private async archive(
+    policy: RetentionPolicy,
+    todoService: TodoService,
+    now: Date
+  ): Promise<BulkOperationResult> {
+    const { items } = await this.findItems(
+      buildArchiveQuery(policy, now),
+      "completedAt",
+      RETENTION_BATCH_SIZE
+    );
+    if (items.length === 0) {
+      return EMPTY_RESULT;
+    }
+
+    const result = await todoService.bulkArchive(items.map(({ id }) => id));
+    this.logger.info(`Retention archived ${result.processed} items`);
+    return result;
+  }
+
+  // Delete the items for good and record what was removed and why
+  private async purge(
+    source: RetentionPurgeSource,
+    policy: RetentionPolicy,
+    todoService: TodoService,
+    now: Date
+  ): Promise<BulkOperationResult> {
+    const spec = getPurgeSpec(source, policy, now);
+    const [{ items }, legalHold] = await Promise.all([
+      this.findItems(spec.query, spec.dateField, RETENTION_BATCH_SIZE),
+      this.countItems(spec.onHoldQuery),
+    ]);
+    if (items.length === 0) {
+      return EMPTY_RESULT;
+    }
+
+    const result = await todoService.purgeTodos(
+      items.map(({ id }) => id),
+      source === RetentionPurgeSource.TRASH ? "trash" : "active"
+    );
+    const failedIds = new Set((result.errors || []).map(({ id }) => id));
+    const user = await new AuthService(
+      this.osService,
+      this.logger
+    ).getCurrentUser();
+    const summary: RetentionPurgeSummary = {
+      id: uuidv4(),
+      source,
+      reason: spec.reason,
+      purgeAfterDays: spec.days,
+      legalHoldTag: policy.legalHoldTag,
+      purged: result.processed,
+      failed: result.failed,
+      legalHold,
+      items: items.filter(({ id }) => !failedIds.has(id)),
+      actor: user.username,
+      timestamp: now.toISOString(),
+    };
+
+    await this.osService.getClient().index({
+      index: TODO_PURGES_INDEX_NAME,
+      id: summary.id,
+      body: summary,
+    });
+
+    this.logger.info(
+      `Retention purged ${result.processed} items of the ${source}, ` +
+        `${result.failed} failed`
+    );
+    return result;
+  }
+
+  // Oldest items matching the query, along with the number of all of them
+  private async findItems(
+    query: object,
+    dateField: string,
+    size: number
+  ): Promise<{ total: number; items: RetentionItem[] }> {
+    const response = await this.osService.getClient().search({
+      index: TODO_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query,
+        sort: [
+          { [dateField]: { order: "asc", missing: "_first" } },
+          { updatedAt: { order: "asc" } },
+        ],
+        size,
+        track_total_hits: true,
+      },
+    });
+
+    return {
+      total: response.body.hits.total?.value ?? 0,
+      items: response.body.hits.hits.map((hit: any) =>
+        toRetentionItem(hit._source as TodoItem)
+      ),
+    };
+  }
+
+  private async countItems(query: object): Promise<number> {
+    const response = await this.osService.getClient().count({
+      index: TODO_INDEX_NAME,
+      ignore_unavailable: true,
+      body: { query },
+    });
+    return response.body.count;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Tests for SlaService - SLA policy, deadlines and states
+ */
+import {
+  SlaService,
+  SlaValidationError,
+  applySla,
+  buildSlaStateQuery,
+} from './sla.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  SlaPolicy,
+  SlaState,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from '../../common/types';
+import { TODO_SLA_INDEX_NAME } from '../../common/constants';
+import { DEFAULT_SLA_POLICY, getSlaState } from '../../common/sla';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+};
+
+const mockOsService = {
+  ensureIndex: jest.fn(),
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const notFound = () =>
+  Object.assign(new Error('Not found'), { statusCode: 404 });
+
+const CREATED = '2024-01-01T00:00:00.000Z';
+const hoursAfter = (hours: number) =>
+  new Date(new Date(CREATED).getTime() + hours * 60 * 60 * 1000);
+
+const baseTodo = {
+  status: TodoStatus.PLANNED as string,
+  priority: TodoPriority.CRITICAL,
+  createdAt: CREATED,
+} as Pick<TodoItem, 'status' | 'priority' | 'createdAt' | 'dueDate' | 'sla'>;
+
+const apply = (
+  todo: typeof baseTodo,
+  previous: typeof baseTodo | undefined,
+  hours: number
+) =>
+  applySla(
+    todo,
+    previous,
+    DEFAULT_SLA_POLICY,
+    DEFAULT_WORKFLOW,
+    hoursAfter(hours)
+  );
+
+describe('applySla', () => {
+  it('should set deadlines from the priority target', () => {
+    const result = apply(baseTodo, undefined, 0);
+
+    expect(result.sla).toMatchObject({
+      startBy: hoursAfter(24).toISOString(),
+      resolveBy: hoursAfter(72).toISOString(),
+      startAtRiskAt: hoursAfter(18).toISOString(),
+      resolveAtRiskAt: hoursAfter(54).toISOString(),
+      startedAt: null,
+      resolvedAt: null,
+      missed: false,
+    });
+    expect(result.dueDate).toBe(hoursAfter(72).toISOString());
+  });
+
+  it('should record when work started and was resolved', () => {
+    const created = apply(baseTodo, undefined, 0);
+    const started = apply(
+      { ...created, status: TodoStatus.IN_PROGRESS },
+      created,
+      2
+    );
+    const resolved = apply(
+      { ...started, status: TodoStatus.COMPLETED_SUCCESS },
+      started,
+      10
+    );
+
+    expect(started.sla!.startedAt).toBe(hoursAfter(2).toISOString());
+    expect(resolved.sla!.resolvedAt).toBe(hoursAfter(10).toISOString());
+    expect(getSlaState(resolved.sla!, hoursAfter(100))).toBe(SlaState.MET);
+  });
+
+  it('should mark a deadline met too late as missed', () => {
+    const created = apply(baseTodo, undefined, 0);
+    const started = apply(
+      { ...created, status: TodoStatus.IN_PROGRESS },
+      created,
+      30
+    );
+
+    expect(started.sla!.missed).toBe(true);
+    expect(getSlaState(started.sla!, hoursAfter(31))).toBe(SlaState.BREACHED);
+  });
+
+  it('should clear the resolution of a reopened item', () => {
+    const created = apply(
+      { ...baseTodo, status: TodoStatus.COMPLETED_SUCCESS },
+      undefined,
+      1
+    );
+    const reopened = apply(
+      { ...created, status: TodoStatus.IN_PROGRESS },
+      created,
+      2
+    );
+
+    expect(created.sla!.resolvedAt).toBe(hoursAfter(1).toISOString());
+    expect(reopened.sla!.resolvedAt).toBeNull();
+  });
+
+  it('should reschedule when the priority changes', () => {
+    const created = apply(baseTodo, undefined, 0);
+    const lowered = apply(
+      { ...created, priority: TodoPriority.LOW },
+      created,
+      1
+    );
+
+    expect(lowered.sla!.resolveBy).toBe(hoursAfter(90 * 24).toISOString());
+    // The due date followed the old deadline, so it moves along
+    expect(lowered.dueDate).toBe(lowered.sla!.resolveBy);
+  });
+
+  it('should keep a manually set due date', () => {
+    const created = apply(
+      { ...baseTodo, dueDate: '2030-01-01T00:00:00.000Z' },
+      undefined,
+      0
+    );
+    const lowered = apply(
+      { ...created, priority: TodoPriority.LOW },
+      created,
+      1
+    );
+
+    expect(lowered.dueDate).toBe('2030-01-01T00:00:00.000Z');
+  });
+
+  it('should leave items alone while the policy is disabled', () => {
+    const result = applySla(
+      baseTodo,
+      undefined,
+      { ...DEFAULT_SLA_POLICY, enabled: false },
+      DEFAULT_WORKFLOW
+    );
+
+    expect(result).toBe(baseTodo);
+  });
+});
+
+describe('getSlaState', () => {
+  const { sla } = apply(baseTodo, undefined, 0);
+
+  it('should move from on track to at risk to breached', () => {
+    expect(getSlaState(sla!, hoursAfter(1))).toBe(SlaState.ON_TRACK);
+    expect(getSlaState(sla!, hoursAfter(20))).toBe(SlaState.AT_RISK);
+    expect(getSlaState(sla!, hoursAfter(25))).toBe(SlaState.BREACHED);
+  });
+});
+
+describe('buildSlaStateQuery', () => {
+  it('should exclude breached and resolved items from at risk', () => {
+    const query = buildSlaStateQuery(SlaState.AT_RISK);
+
+    expect(query.bool.must_not).toEqual([
+      buildSlaStateQuery(SlaState.BREACHED),
+      { exists: { field: 'sla.resolvedAt' } },
+    ]);
+  });
+
+  it('should only count tracked items as on track', () => {
+    const query = buildSlaStateQuery(SlaState.ON_TRACK);
+
+    expect(query.bool.filter).toEqual([{ exists: { field: 'sla.startBy' } }]);
+  });
+});
+
+describe('SlaService', () => {
+  let service: SlaService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SlaService(mockOsService, mockLogger);
+  });
+
+  it('should fall back to the default policy', async () => {
+    mockClient.get.mockRejectedValue(notFound());
+
+    const policy = await service.getPolicy();
+
+    expect(policy).toEqual(DEFAULT_SLA_POLICY);
+    expect(mockClient.get).toHaveBeenCalledWith({
+      index: TODO_SLA_INDEX_NAME,
+      id: 'default',
+    });
+  });
+
+  it('should store a policy with its author', async () => {
+    mockClient.index.mockResolvedValue({});
+    const policy: SlaPolicy = { ...DEFAULT_SLA_POLICY, atRiskPercent: 50 };
+
+    const saved = await service.updatePolicy(policy, 'alice');
+
+    expect(saved.updatedBy).toBe('alice');
+    expect(mockClient.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: TODO_SLA_INDEX_NAME,
+        body: expect.objectContaining({ atRiskPercent: 50 }),
+      })
+    );
+    // Later reads use the saved policy
+    await expect(service.getPolicy()).resolves.toBe(saved);
+  });
+
+  it('should reject a resolve target shorter than the start target', async () => {
+    const policy: SlaPolicy = {
+      ...DEFAULT_SLA_POLICY,
+      targets: {
+        ...DEFAULT_SLA_POLICY.targets,
+        [TodoPriority.HIGH]: { startHours: 48, resolveHours: 24 },
+      },
+    };
+
+    await expect(service.updatePolicy(policy, 'alice')).rejects.toThrow(
+      SlaValidationError
+    );
+    expect(mockClient.index).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,254 @@
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  SlaPolicy,
+  SlaState,
+  TodoItem,
+  TodoSla,
+  WorkflowDefinition,
+  WorkflowStatusCategory,
+} from "../../common/types";
+import { DEFAULT_SLA_POLICY, addHours } from "../../common/sla";
+import { getWorkflowStatus } from "../../common/workflow";
+import { TODO_SLA_INDEX_NAME } from "../../common/constants";
+
+// The plugin keeps a single policy shared by all items
+const SLA_POLICY_DOC_ID = "default";
+
+const CLOSED_CATEGORIES = [
+  WorkflowStatusCategory.DONE,
+  WorkflowStatusCategory.FAILED,
+];
+
+/**
+ * Thrown when an SLA policy is inconsistent
+ */
+export class SlaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlaValidationError";
+  }
+}
+
+type SlaTrackedItem = Pick<
+  TodoItem,
+  "status" | "priority" | "createdAt" | "dueDate" | "sla"
+>;
+
+/**
+ * Set the SLA deadlines and progress of an item being written
+ * Deadlines are (re)computed when the item is created or its priority
+ * changes. At that point an item without a due date, or whose due date
+ * followed the old resolve deadline, gets the resolve deadline as due date.
+ */
+export const applySla = <T extends SlaTrackedItem>(
+  todo: T,
+  previous: SlaTrackedItem | undefined,
+  policy: SlaPolicy,
+  workflow: WorkflowDefinition,
+  now = new Date()
+): T => {
+  // Deadlines are counted from creation, which every stored item has
+  if (!policy.enabled || !todo.createdAt) {
+    return todo;
+  }
+
+  const timestamp = now.toISOString();
+  const category = getWorkflowStatus(workflow, todo.status)?.category;
+  const closed = !!category && CLOSED_CATEGORIES.includes(category);
+  const current = previous?.sla;
+  const reschedule = !current || previous?.priority !== todo.priority;
+
+  let sla: TodoSla;
+  if (reschedule) {
+    const target = policy.targets[todo.priority];
+    const atRisk = policy.atRiskPercent / 100;
+    sla = {
+      startBy: addHours(todo.createdAt, target.startHours),
+      resolveBy: addHours(todo.createdAt, target.resolveHours),
+      startAtRiskAt: addHours(todo.createdAt, target.startHours * atRisk),
+      resolveAtRiskAt: addHours(todo.createdAt, target.resolveHours * atRisk),
+      startedAt: current?.startedAt ?? null,
+      resolvedAt: current?.resolvedAt ?? null,
+      missed: false,
+    };
+  } else {
+    sla = { ...current! };
+  }
+
+  if (!sla.startedAt && category && category !== WorkflowStatusCategory.TODO) {
+    sla.startedAt = timestamp;
+  }
+  if (closed && !sla.resolvedAt) {
+    sla.resolvedAt = timestamp;
+  } else if (!closed) {
+    // Reopened items are no longer resolved
+    sla.resolvedAt = null;
+  }
+
+  const late = (done: string | null | undefined, deadline: string) =>
+    !!done && new Date(done).getTime() > new Date(deadline).getTime();
+  sla.missed =
+    (!reschedule && sla.missed) ||
+    late(sla.startedAt, sla.startBy) ||
+    late(sla.resolvedAt, sla.resolveBy);
+
+  const followsDeadline =
+    reschedule &&
+    (!todo.dueDate || (!!current && todo.dueDate === current.resolveBy));
+
+  return {
+    ...todo,
+    sla,
+    ...(followsDeadline && { dueDate: sla.resolveBy }),
+  };
+};
+
+/**
+ * Query for the items in an SLA state at search time
+ */
+export const buildSlaStateQuery = (state: SlaState): Record<string, any> => {
+  const notStarted = {
+    bool: { must_not: { exists: { field: "sla.startedAt" } } },
+  };
+  const notResolved = {
+    bool: { must_not: { exists: { field: "sla.resolvedAt" } } },
+  };
+  const breached = {
+    bool: {
+      should: [
+        { term: { "sla.missed": true } },
+        {
+          bool: {
+            filter: [notStarted, { range: { "sla.startBy": { lt: "now" } } }],
+          },
+        },
+        {
+          bool: {
+            filter: [
+              notResolved,
+              { range: { "sla.resolveBy": { lt: "now" } } },
+            ],
+          },
+        },
+      ],
+      minimum_should_match: 1,
+    },
+  };
+  const atRisk = {
+    bool: {
+      should: [
+        {
+          bool: {
+            filter: [
+              notStarted,
+              { range: { "sla.startAtRiskAt": { lt: "now" } } },
+            ],
+          },
+        },
+        { range: { "sla.resolveAtRiskAt": { lt: "now" } } },
+      ],
+      minimum_should_match: 1,
+    },
+  };
+  const resolved = { exists: { field: "sla.resolvedAt" } };
+
+  switch (state) {
+    case SlaState.BREACHED:
+      return breached;
+    case SlaState.MET:
+      return { bool: { filter: [resolved], must_not: [breached] } };
+    case SlaState.AT_RISK:
+      return { bool: { filter: [atRisk], must_not: [breached, resolved] } };
+    case SlaState.ON_TRACK:
+    default:
+      return {
+        bool: {
+          filter: [{ exists: { field: "sla.startBy" } }],
+          must_not: [breached, resolved, atRisk],
+        },
+      };
+  }
+};
+
+export class SlaService {
+  private policy: Promise<SlaPolicy> | null = null;
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get the active SLA policy, falling back to the default one
+   * The policy is read once per service instance.
+   */
+  public getPolicy(): Promise<SlaPolicy> {
+    if (!this.policy) {
+      this.policy = this.loadPolicy();
+      // Do not keep a failed read around for later calls
+      this.policy.catch(() => {
+        this.policy = null;
+      });
+    }
+    return this.policy;
+  }
+
+  private async loadPolicy(): Promise<SlaPolicy> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_SLA_INDEX_NAME,
+        id: SLA_POLICY_DOC_ID,
+      });
+
+      return response.body._source as SlaPolicy;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return DEFAULT_SLA_POLICY;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and store a new SLA policy
+   * Items keep their deadlines until their priority changes.
+   */
+  public async updatePolicy(
+    policy: SlaPolicy,
+    actor: string
+  ): Promise<SlaPolicy> {
+    const client = this.osService.getClient();
+
+    Object.entries(policy.targets).forEach(([priority, target]) => {
+      if (target.resolveHours < target.startHours) {
+        throw new SlaValidationError(
+          `The resolve target of "${priority}" must not be shorter than ` +
+            `its start target`
+        );
+      }
+    });
+
+    const saved: SlaPolicy = {
+      enabled: policy.enabled,
+      targets: policy.targets,
+      atRiskPercent: policy.atRiskPercent,
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    };
+
+    await this.osService.ensureIndex();
+    await client.index({
+      index: TODO_SLA_INDEX_NAME,
+      id: SLA_POLICY_DOC_ID,
+      body: saved,
+      refresh: "wait_for",
+    });
+
+    this.policy = Promise.resolve(saved);
+    this.logger.info("Updated SLA policy");
+    return saved;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Tests for TemplateService - Compliance task templates
+ */
+import {
+  TemplateService,
+  TemplateValidationError,
+  buildTemplateTodos,
+  createBatchTag,
+} from './template.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  ComplianceStandard,
+  TodoPriority,
+  TodoTemplate,
+} from '../../common/types';
+import { TODO_TEMPLATES_INDEX_NAME } from '../../common/constants';
+import { BUILT_IN_TEMPLATES } from '../../common/templates';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const notFound = () =>
+  Object.assign(new Error('Not found'), { statusCode: 404 });
+
+const template: TodoTemplate = {
+  id: 'custom-1',
+  name: 'Vendor Review / Q1',
+  complianceStandards: [ComplianceStandard.SOX],
+  tasks: [
+    {
+      title: 'Collect SOC 2 reports',
+      priority: TodoPriority.HIGH,
+      tags: ['vendor'],
+      complianceStandards: [ComplianceStandard.ISO_27001],
+      dueInDays: 10,
+    },
+    { title: 'Review contracts', priority: TodoPriority.LOW, assignee: 'bob' },
+  ],
+  builtIn: false,
+};
+
+describe('template helpers', () => {
+  it('should ship a starter template for every standard', () => {
+    const standards = BUILT_IN_TEMPLATES.flatMap((t) => t.complianceStandards);
+
+    expect(standards.sort()).toEqual(Object.values(ComplianceStandard).sort());
+    BUILT_IN_TEMPLATES.forEach((t) =>
+      expect(t.tasks.length).toBeGreaterThan(0)
+    );
+  });
+
+  it('should build a batch tag from the name and start date', () => {
+    expect(createBatchTag(template, '2026-03-01T00:00:00.000Z')).toMatch(
+      /^vendor-review-q1-2026-03-01-\w+$/
+    );
+  });
+
+  it('should resolve due dates and merge tags and standards', () => {
+    const todos = buildTemplateTodos(template, {
+      status: 'planned',
+      startDate: '2026-03-01T00:00:00.000Z',
+      batchTag: 'batch',
+      firstPosition: 5000,
+    });
+
+    expect(todos[0]).toMatchObject({
+      status: 'planned',
+      tags: ['vendor', 'batch'],
+      complianceStandards: [
+        ComplianceStandard.SOX,
+        ComplianceStandard.ISO_27001,
+      ],
+      dueDate: '2026-03-11T00:00:00.000Z',
+      position: 5000,
+      archived: false,
+    });
+    expect(todos[1].dueDate).toBeUndefined();
+    expect(todos[1].assignee).toBe('bob');
+    expect(todos[1].position).toBe(6000);
+  });
+
+  it('should let the assignee option replace task assignees', () => {
+    const todos = buildTemplateTodos(template, {
+      status: 'planned',
+      startDate: '2026-03-01T00:00:00.000Z',
+      batchTag: 'batch',
+      firstPosition: 0,
+      assignee: 'alice',
+    });
+
+    expect(todos.map((todo) => todo.assignee)).toEqual(['alice', 'alice']);
+  });
+});
+
+describe('TemplateService', () => {
+  let service: TemplateService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new TemplateService(mockOsService, mockLogger);
+  });
+
+  it('should list built-in templates before custom ones', async () => {
+    mockClient.search.mockResolvedValue({
+      body: { hits: { hits: [{ _source: template }] } },
+    });
+
+    const templates = await service.listTemplates();
+
+    expect(templates).toHaveLength(BUILT_IN_TEMPLATES.length + 1);
+    expect(templates[templates.length - 1]).toEqual(template);
+    expect(mockClient.search).toHaveBeenCalledWith(
+      expect.objectContaining({ index: TODO_TEMPLATES_INDEX_NAME })
+    );
+  });
+
+  it('should get built-in templates without a request', async () => {
+    const builtIn = BUILT_IN_TEMPLATES[0];
+
+    expect(await service.getTemplate(builtIn.id)).toBe(builtIn);
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown templates', async () => {
+    mockClient.get.mockRejectedValue(notFound());
+
+    await expect(service.getTemplate('missing')).rejects.toThrow(
+      'Template not found: missing'
+    );
+  });
+
+  it('should create a custom template', async () => {
+    mockClient.index.mockResolvedValue({});
+
+    const created = await service.createTemplate({
+      name: '  Vendor review ',
+      tasks: template.tasks,
+    });
+
+    expect(created.name).toBe('Vendor review');
+    expect(created.builtIn).toBe(false);
+    expect(created.complianceStandards).toEqual([]);
+    expect(mockClient.index).toHaveBeenCalledWith(
+      expect.objectContaining({ id: created.id, body: created })
+    );
+  });
+
+  it('should keep the creation time when updating', async () => {
+    mockClient.get.mockResolvedValue({
+      body: { _source: { ...template, createdAt: '2026-01-01' } },
+    });
+    mockClient.index.mockResolvedValue({});
+
+    const updated = await service.updateTemplate('custom-1', {
+      name: 'Renamed',
+      tasks: template.tasks,
+    });
+
+    expect(updated.name).toBe('Renamed');
+    expect(updated.createdAt).toBe('2026-01-01');
+  });
+
+  it('should not change built-in templates', async () => {
+    const id = BUILT_IN_TEMPLATES[0].id;
+
+    await expect(
+      service.updateTemplate(id, { name: 'Mine', tasks: template.tasks })
+    ).rejects.toThrow(TemplateValidationError);
+    await expect(service.deleteTemplate(id)).rejects.toThrow(
+      'Built-in templates cannot be changed'
+    );
+    expect(mockClient.index).not.toHaveBeenCalled();
+    expect(mockClient.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  TodoItem,
+  TodoTemplate,
+  SaveTemplateRequest,
+} from "../../common/types";
+import {
+  BUILT_IN_TEMPLATES,
+  isBuiltInTemplateId,
+} from "../../common/templates";
+import { TODO_TEMPLATES_INDEX_NAME } from "../../common/constants";
+
+// Upper bound for the custom templates listed at once
+const MAX_TEMPLATES = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when a template cannot be saved or changed
+ */
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateValidationError";
+  }
+}
+
+/**
+ * Tag shared by every task created from one instantiation of a template
+ */
+export const createBatchTag = (template: TodoTemplate, startDate: string) => {
+  const slug = template.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const day = new Date(startDate).toISOString().slice(0, 10);
+  return `${slug}-${day}-${uuidv4().slice(0, 4)}`;
+};
+
+interface TemplateTodoOptions {
+  status: string;
+  startDate: string;
+  batchTag: string;
+  firstPosition: number;
+  assignee?: string;
+}
+
+/**
+ * TODO items for the tasks of a template, ready for bulk creation
+ * Relative due dates are resolved against the start date, and template
+ * standards are added to those of each task.
+ */
+export const buildTemplateTodos = (
+  template: TodoTemplate,
+  options: TemplateTodoOptions
+): Omit<TodoItem, "id">[] => {
+  const now = new Date().toISOString();
+  const start = new Date(options.startDate).getTime();
+
+  return template.tasks.map((task, index) => ({
+    title: task.title,
+    description: task.description,
+    status: options.status,
+    priority: task.priority,
+    tags: Array.from(new Set([...(task.tags || []), options.batchTag])),
+    complianceStandards: Array.from(
+      new Set([
+        ...template.complianceStandards,
+        ...(task.complianceStandards || []),
+      ])
+    ),
+    assignee: options.assignee || task.assignee,
+    storyPoints: task.storyPoints,
+    dueDate:
+      task.dueInDays !== undefined
+        ? new Date(start + task.dueInDays * DAY_MS).toISOString()
+        : undefined,
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    position: options.firstPosition + index * 1000,
+  }));
+};
+
+export class TemplateService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List the built-in templates followed by the custom ones by name
+   */
+  public async listTemplates(): Promise<TodoTemplate[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_TEMPLATES_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: { match_all: {} },
+        sort: [{ "name.keyword": { order: "asc", unmapped_type: "keyword" } }],
+        size: MAX_TEMPLATES,
+      },
+    });
+
+    const custom = response.body.hits.hits.map(
+      (hit: any) => hit._source as TodoTemplate
+    );
+    return [...BUILT_IN_TEMPLATES, ...custom];
+  }
+
+  public async getTemplate(id: string): Promise<TodoTemplate> {
+    const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === id);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_TEMPLATES_INDEX_NAME,
+        id,
+      });
+
+      return response.body._source as TodoTemplate;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(`Template not found: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  public async createTemplate(
+    data: SaveTemplateRequest
+  ): Promise<TodoTemplate> {
+    const client = this.osService.getClient();
+    const now = new Date().toISOString();
+
+    const template: TodoTemplate = {
+      id: uuidv4(),
+      name: data.name.trim(),
+      description: data.description,
+      complianceStandards: data.complianceStandards || [],
+      tasks: data.tasks,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await client.index({
+      index: TODO_TEMPLATES_INDEX_NAME,
+      id: template.id,
+      body: template,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Created template: ${template.id}`);
+    return template;
+  }
+
+  /**
+   * Replace the name, standards and tasks of a custom template
+   */
+  public async updateTemplate(
+    id: string,
+    data: SaveTemplateRequest
+  ): Promise<TodoTemplate> {
+    this.assertEditable(id);
+    const existing = await this.getTemplate(id);
+    const client = this.osService.getClient();
+
+    const template: TodoTemplate = {
+      ...existing,
+      name: data.name.trim(),
+      description: data.description,
+      complianceStandards: data.complianceStandards || [],
+      tasks: data.tasks,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await client.index({
+      index: TODO_TEMPLATES_INDEX_NAME,
+      id,
+      body: template,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Updated template: ${id}`);
+    return template;
+  }
+
+  public async deleteTemplate(id: string): Promise<void> {
+    this.assertEditable(id);
+    const client = this.osService.getClient();
+
+    try {
+      await client.delete({
+        index: TODO_TEMPLATES_INDEX_NAME,
+        id,
+        refresh: "wait_for",
+      });
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(`Template not found: ${id}`);
+      }
+      throw error;
+    }
+
+    this.logger.info(`Deleted template: ${id}`);
+  }
+
+  private assertEditable(id: string): void {
+    if (isBuiltInTemplateId(id)) {
+      throw new TemplateValidationError(
+        "Built-in templates cannot be changed"
+      );
+    }
+  }
+}
@@ -1,20 +1,77 @@
 /**
  * Tests for TodoService - Backend business logic
  */
-import { TodoService } from './todo.service';
+import {
+  TodoService,
+  TodoConflictError,
+  InvalidCursorError,
+  applyAuthors,
+  decodeCursor,
+} from './todo.service';
 import { OpenSearchService } from './opensearch.service';
+import { WorkflowService, WorkflowValidationError } from './workflow.service';
+import { SlaService, buildSlaStateQuery } from './sla.service';
+import { HistoryService } from './history.service';
+import { WebhookService } from './webhook.service';
+import { AutomationService } from './automation.service';
 import { Logger } from 'src/core/server';
-import { TodoStatus, TodoPriority } from '../../common/types';
-import { TODO_INDEX_NAME } from '../../common/constants';
+import {
+  TodoStatus,
+  TodoPriority,
+  TodoHistoryAction,
+  RecurrenceFrequency,
+  ComplianceStandard,
+  ControlCoverageStatus,
+  SlaState,
+  TodoImportAction,
+  CreateTodoRequest,
+  TodoItem,
+  WebhookEvent,
+} from '../../common/types';
+import {
+  FIRST_PAGE_CURSOR,
+  TODO_INDEX_NAME,
+  TODO_COMMENTS_INDEX_NAME,
+  TODO_HISTORY_INDEX_NAME,
+} from '../../common/constants';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+import { DEFAULT_SLA_POLICY } from '../../common/sla';
+import { TodoQueryError } from '../../common/query';
+
+// Source documents of the history entries sent in bulk requests
+const getHistoryEntries = () =>
+  mockClient.bulk.mock.calls
+    .flatMap(([request]: any[]) => request.body)
+    .filter((doc: any) => doc.action && doc.todoId);
+
+// Filter leaving the items of the trash out of reads
+const NOT_DELETED = {
+  bool: { must_not: [{ exists: { field: 'deletedAt' } }] },
+};
+
+// Stand-in for the create schema: only the title is required
+const validateRow = (row: Record<string, unknown>) => {
+  if (!row.title) {
+    throw new Error('[title]: expected value of type [string]');
+  }
+  return row as unknown as CreateTodoRequest;
+};
 
 // Mock OpenSearch client
 const mockClient = {
   index: jest.fn(),
   get: jest.fn(),
+  mget: jest.fn(),
   update: jest.fn(),
   delete: jest.fn(),
   search: jest.fn(),
+  scroll: jest.fn(),
+  clearScroll: jest.fn(),
+  createPit: jest.fn(),
+  deletePit: jest.fn(),
   bulk: jest.fn(),
+  deleteByQuery: jest.fn(),
+  transport: { request: jest.fn() },
 };
 
 const mockOsService = {
@@ -35,6 +92,16 @@ describe('TodoService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (mockOsService.ensureIndex as jest.Mock).mockResolvedValue(undefined);
+    // No user behind the requests, as without the security plugin
+    mockClient.transport.request.mockResolvedValue({ body: {} });
+    jest
+      .spyOn(WorkflowService.prototype, 'getWorkflow')
+      .mockResolvedValue(DEFAULT_WORKFLOW);
+    jest
+      .spyOn(SlaService.prototype, 'getPolicy')
+      .mockResolvedValue(DEFAULT_SLA_POLICY);
+    jest.spyOn(WebhookService.prototype, 'emit').mockResolvedValue();
+    jest.spyOn(AutomationService.prototype, 'run').mockResolvedValue();
     service = new TodoService(mockOsService, mockLogger);
   });
 
@@ -55,6 +122,52 @@ describe('TodoService', () => {
       );
     });
 
+    it('should write once the indices are ensured', async () => {
+      let ensured!: () => void;
+      (mockOsService.ensureIndex as jest.Mock).mockReturnValueOnce(
+        new Promise<void>((resolve) => (ensured = resolve))
+      );
+      mockClient.index.mockResolvedValue({ body: { _id: 'test-123' } });
+
+      const created = service.createTodo({ title: 'Test Todo' });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(mockClient.index).not.toHaveBeenCalled();
+
+      ensured();
+      await created;
+      expect(mockClient.index).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set SLA deadlines and the due date on create', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'test-123' } });
+
+      const result = await service.createTodo({
+        title: 'Patch servers',
+        priority: TodoPriority.CRITICAL,
+      });
+
+      const created = new Date(result.createdAt).getTime();
+      const hours = (date: string) =>
+        (new Date(date).getTime() - created) / (60 * 60 * 1000);
+      expect(hours(result.sla!.startBy)).toBe(24);
+      expect(hours(result.sla!.resolveBy)).toBe(72);
+      expect(result.dueDate).toBe(result.sla!.resolveBy);
+      expect(result.sla!.missed).toBe(false);
+    });
+
+    it('should keep an explicit due date on create', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'test-123' } });
+
+      const result = await service.createTodo({
+        title: 'Patch servers',
+        priority: TodoPriority.LOW,
+        dueDate: '2030-01-01T00:00:00.000Z',
+      });
+
+      expect(result.dueDate).toBe('2030-01-01T00:00:00.000Z');
+      expect(result.sla).toBeDefined();
+    });
+
     it('should get a todo by ID', async () => {
       mockClient.get.mockResolvedValue({
         body: { _source: { id: 'test-id', title: 'Found Todo' } },
@@ -85,15 +198,428 @@ describe('TodoService', () => {
       expect(mockClient.update).toHaveBeenCalled();
     });
 
-    it('should delete a todo', async () => {
-      mockClient.delete.mockResolvedValue({});
+    it('should bump the version and write conditionally', async () => {
+      mockClient.get.mockResolvedValue({
+        body: {
+          _source: { id: 'test-id', title: 'Old', version: 4 },
+          _seq_no: 10,
+          _primary_term: 1,
+        },
+      });
+      mockClient.update.mockResolvedValue({});
+
+      const result = await service.updateTodo('test-id', {
+        title: 'New',
+        version: 4,
+      });
+
+      expect(result.version).toBe(5);
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({ if_seq_no: 10, if_primary_term: 1 })
+      );
+    });
+
+    it('should reject updates based on an outdated version', async () => {
+      const current = { id: 'test-id', title: 'Theirs', version: 5 };
+      mockClient.get.mockResolvedValue({
+        body: { _source: current, _seq_no: 11, _primary_term: 1 },
+      });
+
+      const error = await service
+        .updateTodo('test-id', { title: 'Mine', version: 4 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TodoConflictError);
+      expect(error.current).toEqual(current);
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should report a conflict when another write wins the race', async () => {
+      mockClient.get
+        .mockResolvedValueOnce({
+          body: { _source: { id: 'test-id', version: 4 }, _seq_no: 10 },
+        })
+        .mockResolvedValue({
+          body: { _source: { id: 'test-id', version: 5 }, _seq_no: 11 },
+        });
+      const versionConflict: any = new Error('version_conflict_engine_exception');
+      versionConflict.statusCode = 409;
+      mockClient.update.mockRejectedValue(versionConflict);
+
+      await expect(
+        service.updateTodo('test-id', { title: 'Mine', version: 4 })
+      ).rejects.toBeInstanceOf(TodoConflictError);
+      expect(mockClient.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry unversioned updates that lose a race', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'test-id', archived: false }, _seq_no: 10 },
+      });
+      const versionConflict: any = new Error('version_conflict_engine_exception');
+      versionConflict.statusCode = 409;
+      mockClient.update
+        .mockRejectedValueOnce(versionConflict)
+        .mockResolvedValueOnce({});
+
+      const result = await service.archiveTodo('test-id');
+
+      expect(result.archived).toBe(true);
+      expect(mockClient.update).toHaveBeenCalledTimes(2);
+    });
+
+    describe('during a migration', () => {
+      const writeBlock = () =>
+        Object.assign(new Error('cluster_block_exception'), {
+          statusCode: 403,
+          body: { error: { type: 'cluster_block_exception' } },
+        });
+
+      it('should send a blocked write again', async () => {
+        mockClient.index
+          .mockRejectedValueOnce(writeBlock())
+          .mockResolvedValueOnce({ body: { _id: 'test-123' } });
+
+        const result = await service.createTodo({ title: 'Test Todo' });
+
+        expect(result.title).toBe('Test Todo');
+        expect(mockClient.index).toHaveBeenCalledTimes(2);
+      });
+
+      it('should send a blocked bulk request again', async () => {
+        mockClient.mget.mockResolvedValue({
+          body: {
+            docs: [{ _id: 'id1', found: true, _source: { id: 'id1' } }],
+          },
+        });
+        mockClient.bulk
+          .mockResolvedValueOnce({
+            body: {
+              errors: true,
+              items: [
+                {
+                  update: {
+                    status: 403,
+                    error: { type: 'cluster_block_exception' },
+                  },
+                },
+              ],
+            },
+          })
+          .mockResolvedValue({
+            body: { errors: false, items: [{ update: { status: 200 } }] },
+          });
+
+        const result = await service.bulkUpdatePriority(
+          ['id1'],
+          TodoPriority.HIGH
+        );
+
+        expect(result).toEqual({ success: true, processed: 1, failed: 0 });
+        const [blocked, retried] = mockClient.bulk.mock.calls;
+        expect(retried[0].body).toEqual(blocked[0].body);
+      });
+
+      it('should update an item moved to the new index', async () => {
+        // The copy in the new index has other sequence numbers
+        mockClient.get
+          .mockResolvedValueOnce({
+            body: { _source: { id: 'test-id', version: 4 }, _seq_no: 10 },
+          })
+          .mockResolvedValue({
+            body: { _source: { id: 'test-id', version: 4 }, _seq_no: 2 },
+          });
+        mockClient.update
+          .mockRejectedValueOnce(
+            Object.assign(new Error('version_conflict_engine_exception'), {
+              statusCode: 409,
+            })
+          )
+          .mockResolvedValueOnce({});
+
+        const result = await service.updateTodo('test-id', {
+          title: 'Mine',
+          version: 4,
+        });
+
+        expect(result.title).toBe('Mine');
+        expect(mockClient.update.mock.calls[1][0].if_seq_no).toBe(2);
+      });
+    });
+
+    it('should record changed fields in the history', async () => {
+      mockClient.get.mockResolvedValue({
+        body: {
+          _source: { id: 'test-id', title: 'Same', priority: TodoPriority.LOW },
+        },
+      });
+      mockClient.update.mockResolvedValue({});
+      mockClient.bulk.mockResolvedValue({ body: { errors: false } });
+
+      await service.updateTodo('test-id', {
+        title: 'Same',
+        priority: TodoPriority.CRITICAL,
+      });
+
+      expect(mockClient.bulk).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.arrayContaining([
+            { index: expect.objectContaining({ _index: TODO_HISTORY_INDEX_NAME }) },
+          ]),
+        })
+      );
+      expect(getHistoryEntries()).toEqual([
+        expect.objectContaining({
+          todoId: 'test-id',
+          action: TodoHistoryAction.UPDATE,
+          field: 'priority',
+          oldValue: TodoPriority.LOW,
+          newValue: TodoPriority.CRITICAL,
+          actor: 'anonymous',
+        }),
+      ]);
+    });
+
+    it('should move a deleted todo to the trash', async () => {
+      mockClient.get.mockResolvedValue({
+        body: {
+          _seq_no: 4,
+          _primary_term: 1,
+          _source: { id: 'test-id', title: 'Doomed' },
+        },
+      });
+      mockClient.update.mockResolvedValue({});
+
+      await service.deleteTodo('test-id');
+
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'test-id',
+          if_seq_no: 4,
+          if_primary_term: 1,
+          body: {
+            doc: { deletedAt: expect.any(String), deletedBy: 'anonymous' },
+          },
+        })
+      );
+      expect(mockClient.delete).not.toHaveBeenCalled();
+      expect(getHistoryEntries()).toEqual([
+        expect.objectContaining({
+          todoId: 'test-id',
+          action: TodoHistoryAction.DELETE,
+        }),
+      ]);
+    });
+
+    it('should keep the comments of a deleted todo', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'test-id', title: 'Doomed' } },
+      });
+      mockClient.update.mockResolvedValue({});
 
       await service.deleteTodo('test-id');
-      
-      expect(mockClient.delete).toHaveBeenCalledWith(
-        expect.objectContaining({ id: 'test-id' })
+
+      expect(mockClient.deleteByQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not delete a todo changed since it was read', async () => {
+      mockClient.get
+        .mockResolvedValueOnce({
+          body: { _seq_no: 4, _primary_term: 1, _source: { id: 'test-id' } },
+        })
+        .mockResolvedValue({
+          body: {
+            _seq_no: 5,
+            _primary_term: 1,
+            _source: { id: 'test-id', title: 'Renamed', version: 2 },
+          },
+        });
+      mockClient.update.mockRejectedValue({ statusCode: 409 });
+
+      await expect(service.deleteTodo('test-id')).rejects.toEqual(
+        expect.objectContaining({
+          current: expect.objectContaining({ title: 'Renamed' }),
+        })
+      );
+      expect(getHistoryEntries()).toEqual([]);
+    });
+
+    it('should not delete an item of the trash again', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'test-id', deletedAt: '2026-01-01' } },
+      });
+
+      await expect(service.deleteTodo('test-id')).rejects.toThrow(
+        'TODO item not found: test-id'
+      );
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Trash', () => {
+    const deleted = {
+      id: 'test-id',
+      title: 'Doomed',
+      deletedAt: '2026-01-01T00:00:00.000Z',
+      deletedBy: 'alice',
+    };
+
+    it('should list the trash, most recently deleted first', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 1 }, hits: [{ _source: deleted }] } },
+      });
+
+      const result = await service.listTrash(2, 10);
+
+      const { body } = mockClient.search.mock.calls[0][0];
+      expect(body.query).toEqual({
+        bool: { filter: [{ exists: { field: 'deletedAt' } }] },
+      });
+      expect(body.sort).toEqual([{ deletedAt: { order: 'desc' } }]);
+      expect(body.from).toBe(10);
+      expect(result).toEqual({
+        items: [deleted],
+        total: 1,
+        page: 2,
+        size: 10,
+        totalPages: 1,
+      });
+    });
+
+    it('should restore an item of the trash', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: deleted, _seq_no: 3, _primary_term: 1 },
+      });
+      mockClient.update.mockResolvedValue({});
+
+      const result = await service.restoreDeletedTodo('test-id');
+
+      expect(result).toMatchObject({ deletedAt: null, deletedBy: null });
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          if_seq_no: 3,
+          body: { doc: { deletedAt: null, deletedBy: null } },
+        })
+      );
+      expect(getHistoryEntries()).toEqual([
+        expect.objectContaining({ action: TodoHistoryAction.UNDELETE }),
+      ]);
+    });
+
+    it('should only restore items of the trash', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'test-id' }, _seq_no: 3, _primary_term: 1 },
+      });
+
+      await expect(service.restoreDeletedTodo('test-id')).rejects.toThrow(
+        'TODO item not found in the trash: test-id'
       );
     });
+
+    it('should purge an item of the trash with its comments', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: { docs: [{ _id: 'test-id', found: true, _source: deleted }] },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ delete: { status: 200 } }] },
+      });
+      mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 2 } });
+
+      await service.purgeTodo('test-id');
+
+      expect(mockClient.bulk.mock.calls[0][0].body).toEqual([
+        { delete: { _index: TODO_INDEX_NAME, _id: 'test-id' } },
+      ]);
+      expect(mockClient.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: TODO_COMMENTS_INDEX_NAME,
+          body: { query: { terms: { todoId: ['test-id'] } } },
+        })
+      );
+      expect(getHistoryEntries()).toEqual([
+        expect.objectContaining({ action: TodoHistoryAction.PURGE }),
+      ]);
+    });
+
+    it('should not purge items that are not in the trash', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [{ _id: 'test-id', found: true, _source: { id: 'test-id' } }],
+        },
+      });
+
+      await expect(service.purgeTodo('test-id')).rejects.toThrow();
+      expect(mockClient.bulk).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Workflow', () => {
+    it('should reject a move into a status with missing required fields', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'test-id', status: TodoStatus.IN_PROGRESS } },
+      });
+
+      await expect(
+        service.updateTodo('test-id', { status: TodoStatus.COMPLETED_ERROR })
+      ).rejects.toThrow(WorkflowValidationError);
+      expect(mockClient.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject transitions the workflow does not allow', async () => {
+      jest.spyOn(WorkflowService.prototype, 'getWorkflow').mockResolvedValue({
+        ...DEFAULT_WORKFLOW,
+        transitions: {
+          ...DEFAULT_WORKFLOW.transitions,
+          [TodoStatus.COMPLETED_SUCCESS]: [],
+        },
+      });
+      mockClient.get.mockResolvedValue({
+        body: {
+          _source: { id: 'test-id', status: TodoStatus.COMPLETED_SUCCESS },
+        },
+      });
+
+      await expect(
+        service.updateTodo('test-id', { status: TodoStatus.PLANNED })
+      ).rejects.toThrow('Cannot move from "Done" to "To Do"');
+    });
+
+    it('should report bulk items the workflow rejects as failed', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            {
+              _id: 'id1',
+              found: true,
+              _source: { id: 'id1', status: TodoStatus.PLANNED },
+            },
+            {
+              _id: 'id2',
+              found: true,
+              _source: {
+                id: 'id2',
+                status: TodoStatus.PLANNED,
+                errorDetails: 'Scanner crashed',
+              },
+            },
+          ],
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ update: { status: 200 } }] },
+      });
+
+      const result = await service.bulkUpdateStatus(
+        ['id1', 'id2'],
+        TodoStatus.COMPLETED_ERROR
+      );
+
+      expect(result.processed).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors?.[0].id).toBe('id1');
+      const operations = mockClient.bulk.mock.calls[0][0].body;
+      expect(operations[0].update._id).toBe('id2');
+    });
   });
 
   describe('Archive & Restore', () => {
@@ -107,11 +633,27 @@ describe('TodoService', () => {
       expect(archived.archived).toBe(true);
 
       mockClient.get.mockResolvedValue({
-        body: { _source: { id: 'test-id', archived: true } },
+        body: {
+          _source: {
+            id: 'test-id',
+            archived: true,
+            archivedAt: archived.archivedAt,
+          },
+        },
       });
 
       const restored = await service.restoreTodo('test-id');
       expect(restored.archived).toBe(false);
+      // Left out of a partial update, the field would be kept
+      const restoreDoc = mockClient.update.mock.calls[1][0].body.doc;
+      expect(restoreDoc).toHaveProperty('archivedAt', null);
+
+      expect(getHistoryEntries().map((entry: any) => entry.action)).toEqual(
+        expect.arrayContaining([
+          TodoHistoryAction.ARCHIVE,
+          TodoHistoryAction.RESTORE,
+        ])
+      );
     });
   });
 
@@ -134,61 +676,1228 @@ describe('TodoService', () => {
       expect(result.items).toHaveLength(2);
       expect(result.total).toBe(2);
     });
-  });
 
-  describe('Bulk Operations', () => {
-    it('should bulk archive todos', async () => {
-      mockClient.bulk.mockResolvedValue({
-        body: {
-          errors: false,
-          items: [{ update: { status: 200 } }, { update: { status: 200 } }],
-        },
+    it('should filter by control keys', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
       });
 
-      const result = await service.bulkArchive(['id1', 'id2']);
-      
-      expect(result.success).toBe(true);
-      expect(result.processed).toBe(2);
+      await service.searchTodos({ controls: ['pci_dss:8.3.1'] });
+
+      const { query } = mockClient.search.mock.calls[0][0].body;
+      expect(query.bool.filter).toContainEqual({
+        terms: { controls: ['pci_dss:8.3.1'] },
+      });
     });
 
-    it('should handle bulk operation failures', async () => {
-      mockClient.bulk.mockResolvedValue({
-        body: {
-          errors: true,
-          items: [
-            { update: { status: 200 } },
-            { update: { error: { reason: 'Failed' } } },
-          ],
-        },
+    it('should scroll through every matching item', async () => {
+      const hit = (id: string) => ({ _source: { id } });
+      mockClient.search.mockResolvedValue({
+        body: { _scroll_id: 'scroll-1', hits: { hits: [hit('1'), hit('2')] } },
       });
+      mockClient.scroll
+        .mockResolvedValueOnce({
+          body: { _scroll_id: 'scroll-2', hits: { hits: [hit('3')] } },
+        })
+        .mockResolvedValueOnce({
+          body: { _scroll_id: 'scroll-2', hits: { hits: [] } },
+        });
+      mockClient.clearScroll.mockResolvedValue({});
 
-      const result = await service.bulkArchive(['id1', 'id2']);
-      
-      expect(result.success).toBe(false);
-      expect(result.failed).toBe(1);
+      const batches: string[][] = [];
+      for await (const batch of service.scrollTodos(
+        { priority: [TodoPriority.HIGH], page: 3, size: 10 },
+        2
+      )) {
+        batches.push(batch.map((todo) => todo.id));
+      }
+
+      expect(batches).toEqual([['1', '2'], ['3']]);
+      const request = mockClient.search.mock.calls[0][0];
+      expect(request.scroll).toBe('1m');
+      expect(request.body.size).toBe(2);
+      expect(request.body).not.toHaveProperty('from');
+      expect(request.body.query.bool.filter).toContainEqual({
+        terms: { priority: [TodoPriority.HIGH] },
+      });
+      expect(mockClient.clearScroll).toHaveBeenCalledWith({
+        body: { scroll_id: 'scroll-2' },
+      });
     });
-  });
 
-  describe('Statistics', () => {
-    it('should return aggregated statistics', async () => {
+    it('should compile the query syntax into filters', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
+      });
+
+      await service.searchTodos({
+        query:
+          'status:blocked priority:critical,high -tag:wontfix ' +
+          'assignee:"Grace Lee" points:>=5 patch -legacy',
+      });
+
+      const { bool } = mockClient.search.mock.calls[0][0].body.query;
+      expect(bool.must[0].multi_match.query).toBe('patch');
+      expect(bool.filter).toEqual(
+        expect.arrayContaining([
+          { terms: { status: [TodoStatus.BLOCKED] } },
+          { terms: { priority: [TodoPriority.CRITICAL, TodoPriority.HIGH] } },
+          { terms: { assignee: ['Grace Lee'] } },
+          { range: { storyPoints: { gte: 5 } } },
+        ])
+      );
+      expect(bool.must_not).toEqual([
+        expect.objectContaining({
+          multi_match: expect.objectContaining({ query: 'legacy' }),
+        }),
+        { terms: { tags: ['wontfix'] } },
+      ]);
+    });
+
+    it('should resolve overdue items with the workflow', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
+      });
+
+      await service.searchTodos({ query: 'is:overdue' });
+
+      const [, condition] = mockClient.search.mock.calls[0][0].body.query
+        .bool.filter;
+      expect(condition.bool.should[0].bool.filter).toEqual([
+        { terms: { status: [TodoStatus.PLANNED, TodoStatus.IN_PROGRESS] } },
+        { range: { dueDate: { lt: expect.any(String) } } },
+      ]);
+    });
+
+    it('should reject queries it cannot read', async () => {
+      await expect(
+        service.searchTodos({ query: 'priority:urgent' })
+      ).rejects.toThrow(TodoQueryError);
+      expect(mockClient.search).not.toHaveBeenCalled();
+    });
+
+    it('should filter by SLA state', async () => {
       mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
+      });
+
+      await service.searchTodos({
+        slaState: [SlaState.AT_RISK, SlaState.BREACHED],
+      });
+
+      const { query } = mockClient.search.mock.calls[0][0].body;
+      expect(query.bool.filter).toContainEqual({
+        bool: {
+          should: [
+            buildSlaStateQuery(SlaState.AT_RISK),
+            buildSlaStateQuery(SlaState.BREACHED),
+          ],
+          minimum_should_match: 1,
+        },
+      });
+    });
+
+    describe('cursor pagination', () => {
+      const page = (ids: string[], pitId = 'pit-1') => ({
         body: {
-          hits: { total: { value: 10 } },
-          aggregations: {
-            by_status: { buckets: [{ key: TodoStatus.COMPLETED_SUCCESS, doc_count: 4 }] },
-            by_priority: { buckets: [{ key: TodoPriority.HIGH, doc_count: 3 }] },
-            by_compliance_standard: { buckets: [] },
-            completed_items: { doc_count: 4 },
-            overdue_items: { doc_count: 2 },
+          pit_id: pitId,
+          hits: {
+            total: { value: 3 },
+            hits: ids.map((id, index) => ({
+              _source: { id },
+              sort: [index, id],
+            })),
           },
         },
       });
 
-      const stats = await service.getStatistics();
-      
-      expect(stats.totalCount).toBe(10);
-      expect(stats.completionRate).toBe(40);
-      expect(stats.overdueCount).toBe(2);
+      beforeEach(() => {
+        mockClient.createPit.mockResolvedValue({ body: { pit_id: 'pit-1' } });
+        mockClient.deletePit.mockResolvedValue({});
+      });
+
+      it('should open a point in time and return the next cursor', async () => {
+        mockClient.search.mockResolvedValue(page(['1', '2']));
+
+        const result = await service.searchTodos({
+          size: 2,
+          sortField: 'position',
+          cursor: FIRST_PAGE_CURSOR,
+        });
+
+        const request = mockClient.search.mock.calls[0][0];
+        expect(request.index).toBeUndefined();
+        expect(request.body.pit).toEqual({ id: 'pit-1', keep_alive: '1m' });
+        expect(request.body.from).toBeUndefined();
+        expect(request.body.sort).toContainEqual({ id: { order: 'asc' } });
+        expect(decodeCursor(result.nextCursor!)).toEqual({
+          pit: 'pit-1',
+          after: [1, '2'],
+        });
+        expect(mockClient.deletePit).not.toHaveBeenCalled();
+      });
+
+      it('should continue after the cursor and close the last page', async () => {
+        mockClient.search.mockResolvedValue(page(['3']));
+        const cursor = Buffer.from(
+          JSON.stringify({ pit: 'pit-1', after: [1, '2'] })
+        ).toString('base64url');
+
+        const result = await service.searchTodos({ size: 2, cursor });
+
+        expect(mockClient.createPit).not.toHaveBeenCalled();
+        expect(mockClient.search.mock.calls[0][0].body.search_after).toEqual([
+          1,
+          '2',
+        ]);
+        expect(result.nextCursor).toBeUndefined();
+        expect(mockClient.deletePit).toHaveBeenCalledWith({
+          body: { pit_id: ['pit-1'] },
+        });
+      });
+
+      it('should close the point in time of a read started over', async () => {
+        mockClient.search.mockResolvedValue(page(['1', '2'], 'pit-2'));
+        mockClient.createPit.mockResolvedValue({ body: { pit_id: 'pit-2' } });
+        const previousCursor = Buffer.from(
+          JSON.stringify({ pit: 'pit-1', after: [1, '2'] })
+        ).toString('base64url');
+
+        const result = await service.searchTodos({
+          size: 2,
+          cursor: FIRST_PAGE_CURSOR,
+          previousCursor,
+        });
+
+        expect(mockClient.deletePit).toHaveBeenCalledTimes(1);
+        expect(mockClient.deletePit).toHaveBeenCalledWith({
+          body: { pit_id: ['pit-1'] },
+        });
+        expect(decodeCursor(result.nextCursor!).pit).toBe('pit-2');
+      });
+
+      it('should go on in a new point in time when it expired', async () => {
+        mockClient.search
+          .mockRejectedValueOnce({ statusCode: 404 })
+          .mockResolvedValueOnce(page(['3', '4'], 'pit-2'));
+        mockClient.createPit.mockResolvedValue({ body: { pit_id: 'pit-2' } });
+        const cursor = Buffer.from(
+          JSON.stringify({ pit: 'pit-1', after: [1, '2'] })
+        ).toString('base64url');
+
+        const result = await service.searchTodos({ size: 2, cursor });
+
+        const retry = mockClient.search.mock.calls[1][0].body;
+        expect(retry.pit.id).toBe('pit-2');
+        expect(retry.search_after).toEqual([1, '2']);
+        expect(decodeCursor(result.nextCursor!).pit).toBe('pit-2');
+      });
+
+      it('should reject cursors it did not issue', async () => {
+        await expect(
+          service.searchTodos({ cursor: 'not-a-cursor' })
+        ).rejects.toThrow(InvalidCursorError);
+        expect(mockClient.search).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should count facets without their own filter', async () => {
+      const values = (buckets: Array<[string, number]>) => ({
+        values: {
+          buckets: buckets.map(([key, count]) => ({ key, doc_count: count })),
+        },
+      });
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: { total: { value: 3 }, hits: [] },
+          aggregations: {
+            status: values([['planned', 3], ['blocked', 2]]),
+            priority: values([['high', 3]]),
+            complianceStandards: values([]),
+            tags: values([['tls', 1]]),
+            assignee: values([]),
+          },
+        },
+      });
+
+      const result = await service.searchTodos({
+        status: [TodoStatus.PLANNED],
+        priority: [TodoPriority.HIGH],
+        controls: ['pci_dss:8.3.1'],
+        size: 0,
+        facets: true,
+      });
+
+      const body = mockClient.search.mock.calls[0][0].body;
+      expect(body.query.bool.filter).toEqual([
+        NOT_DELETED,
+        { terms: { controls: ['pci_dss:8.3.1'] } },
+      ]);
+      expect(body.post_filter.bool.filter).toEqual([
+        { terms: { status: [TodoStatus.PLANNED] } },
+        { terms: { priority: [TodoPriority.HIGH] } },
+      ]);
+      expect(body.aggs.status.filter.bool.filter).toEqual([
+        { terms: { priority: [TodoPriority.HIGH] } },
+      ]);
+      expect(body.aggs.tags.filter.bool.filter).toEqual(
+        body.post_filter.bool.filter
+      );
+      expect(result.totalPages).toBe(0);
+      expect(result.facets).toEqual({
+        status: { planned: 3, blocked: 2 },
+        priority: { high: 3 },
+        complianceStandards: {},
+        tags: { tls: 1 },
+        assignee: {},
+      });
+    });
+  });
+
+  describe('Bulk Operations', () => {
+    beforeEach(() => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'id1', found: true, _source: { id: 'id1', archived: false } },
+            { _id: 'id2', found: true, _source: { id: 'id2', archived: false } },
+          ],
+        },
+      });
+    });
+
+    it('should bulk archive todos', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: false,
+          items: [{ update: { status: 200 } }, { update: { status: 200 } }],
+        },
+      });
+
+      const result = await service.bulkArchive(['id1', 'id2']);
+      
+      expect(result.success).toBe(true);
+      expect(result.processed).toBe(2);
+    });
+
+    it('should clear the archive date on bulk restore', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: false,
+          items: [{ update: { status: 200 } }, { update: { status: 200 } }],
+        },
+      });
+
+      await service.bulkRestore(['id1', 'id2']);
+
+      const operations = mockClient.bulk.mock.calls[0][0].body;
+      expect(operations[1].doc).toHaveProperty('archivedAt', null);
+    });
+
+    it('should record bulk changes for each item', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            { update: { status: 200 } },
+            { update: { error: { reason: 'Failed' } } },
+          ],
+        },
+      });
+
+      await service.bulkUpdatePriority(['id1', 'id2'], TodoPriority.HIGH);
+
+      expect(getHistoryEntries()).toEqual([
+        expect.objectContaining({
+          todoId: 'id1',
+          action: TodoHistoryAction.BULK_UPDATE,
+          field: 'priority',
+          newValue: TodoPriority.HIGH,
+        }),
+      ]);
+    });
+
+    it('should move bulk deleted todos to the trash', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: ['id1', 'id2'].map((id, i) => ({
+            _id: id,
+            found: true,
+            _seq_no: i + 3,
+            _primary_term: 1,
+            _source: { id },
+          })),
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: false,
+          items: [{ update: { status: 200 } }, { update: { status: 200 } }],
+        },
+      });
+
+      const result = await service.bulkDelete(['id1', 'id2']);
+
+      expect(result.processed).toBe(2);
+      const action = (id: string, seqNo: number) => ({
+        _index: TODO_INDEX_NAME,
+        _id: id,
+        if_seq_no: seqNo,
+        if_primary_term: 1,
+      });
+      expect(mockClient.bulk.mock.calls[0][0].body).toEqual([
+        { update: action('id1', 3) },
+        { doc: { deletedAt: expect.any(String), deletedBy: 'anonymous' } },
+        { update: action('id2', 4) },
+        { doc: { deletedAt: expect.any(String), deletedBy: 'anonymous' } },
+      ]);
+      expect(mockClient.deleteByQuery).not.toHaveBeenCalled();
+    });
+
+    it('should only delete comments of successfully purged todos', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: ['id1', 'id2'].map((id) => ({
+            _id: id,
+            found: true,
+            _source: { id, deletedAt: '2026-01-01T00:00:00.000Z' },
+          })),
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            { delete: { status: 200 } },
+            { delete: { error: { reason: 'Failed' } } },
+          ],
+        },
+      });
+      mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 1 } });
+
+      await service.purgeTodos(['id1', 'id2']);
+
+      expect(mockClient.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { query: { terms: { todoId: ['id1'] } } },
+        })
+      );
+    });
+
+    it('should keep todos changed since they were read', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: ['id1', 'id2'].map((id, i) => ({
+            _id: id,
+            found: true,
+            _seq_no: i + 7,
+            _primary_term: 2,
+            _source: { id, deletedAt: '2026-01-01T00:00:00.000Z' },
+          })),
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            { delete: { status: 200 } },
+            {
+              delete: {
+                status: 409,
+                error: {
+                  type: 'version_conflict_engine_exception',
+                  reason: 'version conflict',
+                },
+              },
+            },
+          ],
+        },
+      });
+      mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 1 } });
+
+      const result = await service.purgeTodos(['id1', 'id2']);
+
+      expect(mockClient.bulk.mock.calls[0][0].body).toEqual([
+        {
+          delete: {
+            _index: TODO_INDEX_NAME,
+            _id: 'id1',
+            if_seq_no: 7,
+            if_primary_term: 2,
+          },
+        },
+        {
+          delete: {
+            _index: TODO_INDEX_NAME,
+            _id: 'id2',
+            if_seq_no: 8,
+            if_primary_term: 2,
+          },
+        },
+      ]);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([
+        { id: 'id2', error: 'version conflict' },
+      ]);
+      expect(mockClient.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { query: { terms: { todoId: ['id1'] } } },
+        })
+      );
+    });
+
+    it('should handle bulk operation failures', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            { update: { status: 200 } },
+            { update: { error: { reason: 'Failed' } } },
+          ],
+        },
+      });
+
+      const result = await service.bulkArchive(['id1', 'id2']);
+      
+      expect(result.success).toBe(false);
+      expect(result.failed).toBe(1);
+    });
+  });
+
+  describe('Authors', () => {
+    const closed = [TodoStatus.COMPLETED_SUCCESS, TodoStatus.COMPLETED_ERROR];
+    const stored: TodoItem = {
+      id: 'id1',
+      title: 'Rotate keys',
+      status: TodoStatus.PLANNED,
+      priority: TodoPriority.MEDIUM,
+      tags: [],
+      complianceStandards: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      createdBy: 'alice',
+      archived: false,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(HistoryService.prototype, 'getActor').mockResolvedValue('bob');
+    });
+
+    it('should keep the creator and record who closed the item', () => {
+      const closedTodo = applyAuthors(
+        { ...stored, status: TodoStatus.COMPLETED_SUCCESS },
+        stored,
+        'bob',
+        closed
+      );
+
+      expect(closedTodo).toMatchObject({
+        createdBy: 'alice',
+        updatedBy: 'bob',
+        completedBy: 'bob',
+      });
+      expect(closedTodo.archivedBy).toBeUndefined();
+
+      // Moving between closed statuses keeps who closed it
+      expect(
+        applyAuthors(
+          { ...closedTodo, status: TodoStatus.COMPLETED_ERROR },
+          closedTodo,
+          'carol',
+          closed
+        ).completedBy
+      ).toBe('bob');
+    });
+
+    it('should record the creator of a new item', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'test-123' } });
+
+      const result = await service.createTodo({ title: 'Rotate keys' });
+
+      expect(result.createdBy).toBe('bob');
+      expect(result.updatedBy).toBe('bob');
+    });
+
+    it('should write the users of a bulk archive', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: { docs: [{ _id: 'id1', found: true, _source: stored }] },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ update: { status: 200 } }] },
+      });
+
+      await service.bulkArchive(['id1']);
+
+      expect(mockClient.bulk.mock.calls[0][0].body[1].doc).toMatchObject({
+        archived: true,
+        updatedBy: 'bob',
+        archivedBy: 'bob',
+      });
+    });
+  });
+
+  describe('Webhooks', () => {
+    const stored: TodoItem = {
+      id: 'id1',
+      title: 'Rotate keys',
+      status: TodoStatus.PLANNED,
+      priority: TodoPriority.MEDIUM,
+      tags: [],
+      complianceStandards: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      archived: false,
+      version: 1,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(HistoryService.prototype, 'getActor').mockResolvedValue('bob');
+    });
+
+    it('should emit the events of a status change', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: stored, _seq_no: 1, _primary_term: 1 },
+      });
+      mockClient.update.mockResolvedValue({});
+
+      await service.updateTodo('id1', { status: TodoStatus.IN_PROGRESS });
+
+      const emit = WebhookService.prototype.emit as jest.Mock;
+      expect(emit.mock.calls.map(([event]) => event)).toEqual([
+        WebhookEvent.UPDATED,
+        WebhookEvent.STATUS_CHANGED,
+      ]);
+      expect(emit).toHaveBeenCalledWith(
+        WebhookEvent.STATUS_CHANGED,
+        {
+          todo: expect.objectContaining({ status: TodoStatus.IN_PROGRESS }),
+          previous: stored,
+        },
+        'bob'
+      );
+    });
+
+    it('should send the items a bulk delete moved to the trash', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'id1', found: true, _source: stored },
+            { _id: 'id2', found: false },
+          ],
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ update: { status: 200 } }] },
+      });
+
+      await service.bulkDelete(['id1', 'id2']);
+
+      expect(WebhookService.prototype.emit).toHaveBeenCalledWith(
+        WebhookEvent.BULK_DELETED,
+        {
+          todos: [
+            { ...stored, deletedAt: expect.any(String), deletedBy: 'bob' },
+          ],
+        },
+        'bob'
+      );
+    });
+
+    it('should only send the purged items that were not deleted', async () => {
+      const trashed = { ...stored, id: 'id2', deletedAt: '2026-01-01' };
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'id1', found: true, _source: stored },
+            { _id: 'id2', found: true, _source: trashed },
+          ],
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: false,
+          items: [{ delete: { status: 200 } }, { delete: { status: 200 } }],
+        },
+      });
+      mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 0 } });
+
+      await service.purgeTodos(['id1', 'id2'], 'all');
+
+      expect(WebhookService.prototype.emit).toHaveBeenCalledWith(
+        WebhookEvent.BULK_DELETED,
+        { todos: [stored] },
+        'bob'
+      );
+    });
+  });
+
+  describe('Automation', () => {
+    const stored: TodoItem = {
+      id: 'id1',
+      title: 'Rotate keys',
+      status: TodoStatus.PLANNED,
+      priority: TodoPriority.MEDIUM,
+      tags: [],
+      complianceStandards: [],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      archived: false,
+      version: 1,
+    };
+
+    it('should run the rules on the items a bulk update changed', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'id1', found: true, _source: stored },
+            { _id: 'id2', found: false },
+          ],
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ update: { status: 200 } }] },
+      });
+
+      await service.bulkUpdatePriority(['id1', 'id2'], TodoPriority.CRITICAL);
+
+      expect(AutomationService.prototype.run).toHaveBeenCalledTimes(1);
+      const [changes] = (AutomationService.prototype.run as jest.Mock).mock
+        .calls[0];
+      expect(changes).toEqual([
+        {
+          before: stored,
+          after: expect.objectContaining({ priority: TodoPriority.CRITICAL }),
+        },
+      ]);
+    });
+
+    it('should not run the rules again on their own writes', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'test-123' } });
+      const executor = new TodoService(
+        mockOsService,
+        mockLogger,
+        undefined,
+        false
+      );
+
+      await executor.createTodo({ title: 'Follow up' }, 'project-1');
+
+      expect(AutomationService.prototype.run).not.toHaveBeenCalled();
+      expect(mockClient.index.mock.calls[0][0].body.projectId).toBe(
+        'project-1'
+      );
+    });
+  });
+
+  describe('Projects', () => {
+    const project = {
+      id: 'project-1',
+      key: 'PCI',
+      name: 'PCI audit',
+      members: [],
+      defaults: { priority: TodoPriority.HIGH, tags: ['pci'] },
+      builtIn: false,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      service = new TodoService(mockOsService, mockLogger, {
+        projectIds: [project.id],
+        project,
+      });
+    });
+
+    it('should create items in the project with its defaults', async () => {
+      mockClient.index.mockResolvedValue({ body: {} });
+
+      const todo = await service.createTodo({ title: 'Rotate keys' });
+
+      expect(todo).toEqual(
+        expect.objectContaining({
+          projectId: 'project-1',
+          priority: TodoPriority.HIGH,
+          tags: ['pci'],
+        })
+      );
+    });
+
+    it('should only search the items of the project', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
+      });
+
+      await service.searchTodos({});
+
+      const { query } = mockClient.search.mock.calls[0][0].body;
+      expect(query.bool.filter).toContainEqual({
+        terms: { projectId: ['project-1'] },
+      });
+    });
+
+    it('should treat items of other projects as missing', async () => {
+      mockClient.get.mockResolvedValue({
+        body: { _source: { id: 'id1', projectId: 'project-2' } },
+      });
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'id1', found: true, _source: { id: 'id1', projectId: 'project-2' } },
+            { _id: 'id2', found: true, _source: { id: 'id2', projectId: 'project-1' } },
+          ],
+        },
+      });
+      mockClient.bulk.mockResolvedValue({
+        body: { errors: false, items: [{ update: { status: 200 } }] },
+      });
+
+      expect(await service.getTodoById('id1')).toBeNull();
+      const result = await service.bulkAssign(['id1', 'id2'], 'alice');
+
+      expect(result).toEqual({
+        success: false,
+        processed: 1,
+        failed: 1,
+        errors: [{ id: 'id1', error: 'TODO item not found: id1' }],
+      });
+      expect(mockClient.bulk.mock.calls[0][0].body[0].update._id).toBe('id2');
+    });
+
+    it('should move an item to another project', async () => {
+      mockClient.get.mockResolvedValue({
+        body: {
+          _source: { id: 'id1', projectId: 'project-1', version: 1 },
+          _seq_no: 1,
+          _primary_term: 1,
+        },
+      });
+      mockClient.update.mockResolvedValue({ body: {} });
+
+      const moved = await service.moveTodo('id1', 'project-2');
+
+      expect(moved.projectId).toBe('project-2');
+      expect(getHistoryEntries()).toContainEqual(
+        expect.objectContaining({
+          action: TodoHistoryAction.MOVE,
+          field: 'projectId',
+          oldValue: 'project-1',
+          newValue: 'project-2',
+        })
+      );
+    });
+  });
+
+  describe('Recurring Series', () => {
+    const occurrence = {
+      id: 'series-1',
+      title: 'Quarterly access review',
+      status: TodoStatus.IN_PROGRESS,
+      priority: TodoPriority.HIGH,
+      tags: ['access'],
+      complianceStandards: [],
+      archived: false,
+      dueDate: '2026-01-31',
+      recurrence: { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+      seriesId: 'series-1',
+      occurrenceIndex: 0,
+      occurrenceStart: '2026-01-31T00:00:00.000Z',
+    };
+
+    const searchHits = (todos: any[]) => ({
+      body: { hits: { hits: todos.map((todo) => ({ _source: todo })) } },
+    });
+
+    beforeEach(() => {
+      mockClient.search.mockResolvedValue(searchHits([]));
+      mockClient.bulk.mockResolvedValue({ body: { errors: false, items: [] } });
+    });
+
+    it('should start a series when creating a recurring todo', async () => {
+      mockClient.index.mockResolvedValue({});
+
+      const result = await service.createTodo({
+        title: 'Monthly patch review',
+        priority: TodoPriority.MEDIUM,
+        plannedDate: '2026-03-01',
+        recurrence: { frequency: RecurrenceFrequency.MONTHLY, interval: 1 },
+      });
+
+      expect(result.seriesId).toBe(result.id);
+      expect(result.occurrenceIndex).toBe(0);
+      expect(result.occurrenceStart).toBe('2026-03-01');
+    });
+
+    it('should create the next occurrence when one is completed', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: occurrence } });
+      mockClient.update.mockResolvedValue({});
+      mockClient.index.mockResolvedValue({});
+
+      await service.updateTodo('series-1', {
+        status: TodoStatus.COMPLETED_SUCCESS,
+      });
+
+      expect(mockClient.index).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'series-1-1', op_type: 'create' })
+      );
+      const next = mockClient.index.mock.calls[0][0].body;
+      expect(next.status).toBe(TodoStatus.PLANNED);
+      expect(next.occurrenceStart).toBe('2026-02-28T00:00:00.000Z');
+      expect(next.dueDate).toBe('2026-02-28T00:00:00.000Z');
+      expect(next.tags).toEqual(['access']);
+    });
+
+    it('should skip an occurrence that already exists', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: occurrence } });
+      mockClient.update.mockResolvedValue({});
+      mockClient.index.mockRejectedValue(
+        Object.assign(new Error('Conflict'), { statusCode: 409 })
+      );
+
+      await expect(
+        service.updateTodo('series-1', { status: TodoStatus.COMPLETED_SUCCESS })
+      ).resolves.toBeDefined();
+      expect(mockLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should generate occurrences whose period has started', async () => {
+      mockClient.search.mockResolvedValueOnce(
+        searchHits([
+          occurrence,
+          {
+            ...occurrence,
+            seriesId: 'series-2',
+            occurrenceStart: '2026-03-15T00:00:00.000Z',
+          },
+        ])
+      );
+      mockClient.index.mockResolvedValue({});
+
+      const created = await service.generateDueOccurrences(
+        new Date('2026-03-01T00:00:00.000Z')
+      );
+
+      expect(created).toBe(1);
+      expect(mockClient.index).toHaveBeenCalledTimes(1);
+      expect(mockClient.index.mock.calls[0][0].id).toBe('series-1-1');
+    });
+
+    it('should only update the open occurrences of a series', async () => {
+      const done = { ...occurrence, status: TodoStatus.COMPLETED_SUCCESS };
+      const open = {
+        ...occurrence,
+        id: 'series-1-1',
+        status: TodoStatus.PLANNED,
+        occurrenceIndex: 1,
+      };
+      mockClient.search.mockResolvedValueOnce(searchHits([done, open]));
+      mockClient.mget.mockResolvedValue({
+        body: { docs: [{ _id: open.id, found: true, _source: open }] },
+      });
+
+      const result = await service.updateSeries('series-1', {
+        assignee: 'alice',
+        recurrence: { frequency: RecurrenceFrequency.QUARTERLY, interval: 1 },
+      });
+
+      expect(result.processed).toBe(1);
+      expect(mockClient.mget).toHaveBeenCalledWith(
+        expect.objectContaining({ body: { ids: ['series-1-1'] } })
+      );
+      const [, doc] = mockClient.bulk.mock.calls[0][0].body;
+      expect(doc.doc.assignee).toBe('alice');
+      // A removed end date is cleared explicitly
+      expect(doc.doc.recurrence.endDate).toBeNull();
+      expect(getHistoryEntries()[0].action).toBe(
+        TodoHistoryAction.SERIES_UPDATE
+      );
+    });
+
+    it('should reject unknown series', async () => {
+      await expect(service.getSeries('missing')).rejects.toThrow(
+        'Series not found: missing'
+      );
+    });
+  });
+
+  describe('Templates', () => {
+    it('should create the tasks of a template with a shared tag', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [{ _source: { position: 3000 } }] } },
+      });
+      mockClient.bulk.mockResolvedValue({ body: { errors: false, items: [] } });
+
+      const result = await service.instantiateTemplate(
+        {
+          id: 'custom-1',
+          name: 'Access review',
+          complianceStandards: [],
+          tasks: [
+            { title: 'Export users', priority: TodoPriority.HIGH },
+            { title: 'Review admins', priority: TodoPriority.HIGH },
+          ],
+          builtIn: false,
+        },
+        { startDate: '2026-03-01T00:00:00.000Z' }
+      );
+
+      expect(result.processed).toBe(2);
+      expect(result.batchTag).toMatch(/^access-review-2026-03-01-/);
+      const docs = mockClient.bulk.mock.calls[0][0].body.filter(
+        (doc: any) => doc.title
+      );
+      expect(docs).toHaveLength(2);
+      docs.forEach((doc: any) => {
+        expect(doc.tags).toEqual([result.batchTag]);
+        expect(doc.status).toBe(TodoStatus.PLANNED);
+      });
+      expect(docs[0].position).toBe(4000);
+    });
+  });
+
+  describe('Import', () => {
+    it('should report the errors and action of each row', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            hits: [{ _source: { id: 'todo-1', externalKey: 'VULN-1' } }],
+          },
+        },
+      });
+
+      const results = await service.previewImport(
+        [
+          { title: 'Patch OpenSSL', externalKey: 'VULN-1' },
+          { description: 'No title' },
+          { title: 'Rotate keys', externalKey: 'VULN-2' },
+          { title: 'Rotate keys again', externalKey: 'VULN-2' },
+          { title: 'Broken scan', status: TodoStatus.COMPLETED_ERROR },
+        ],
+        true,
+        validateRow
+      );
+
+      expect(mockClient.search.mock.calls[0][0].body.query).toEqual({
+        bool: {
+          filter: [
+            { terms: { externalKey: ['VULN-1', 'VULN-2', 'VULN-2'] } },
+            NOT_DELETED,
+          ],
+        },
+      });
+      expect(results.map((result) => result.action)).toEqual([
+        TodoImportAction.UPDATE,
+        TodoImportAction.CREATE,
+        TodoImportAction.CREATE,
+        TodoImportAction.CREATE,
+        TodoImportAction.CREATE,
+      ]);
+      expect(results[0].errors).toEqual([]);
+      expect(results[1].errors[0]).toContain('[title]');
+      expect(results[2].errors).toEqual([]);
+      expect(results[3].errors).toEqual(['Duplicate externalKey: VULN-2']);
+      expect(results[4].errors[0]).toContain('requires');
+      expect(mockClient.bulk).not.toHaveBeenCalled();
+    });
+
+    it('should create new rows and update matched items', async () => {
+      mockClient.search
+        .mockResolvedValueOnce({
+          body: {
+            hits: {
+              hits: [{ _source: { id: 'todo-1', externalKey: 'VULN-1' } }],
+            },
+          },
+        })
+        .mockResolvedValue({
+          body: { hits: { hits: [{ _source: { position: 2000 } }] } },
+        });
+      mockClient.bulk.mockResolvedValue({ body: { errors: false, items: [] } });
+      const updateTodo = jest
+        .spyOn(service, 'updateTodo')
+        .mockResolvedValue({} as any);
+
+      const result = await service.importTodos(
+        [
+          { title: 'Patch OpenSSL', externalKey: 'VULN-1', tags: ['cve'] },
+          { title: 'Rotate keys', externalKey: 'VULN-2' },
+          { title: 'Review firewall' },
+          { description: 'No title' },
+        ],
+        true,
+        validateRow
+      );
+
+      expect(result).toEqual({
+        created: 2,
+        updated: 1,
+        failed: 1,
+        errors: [{ row: 4, error: expect.stringContaining('[title]') }],
+      });
+      expect(updateTodo).toHaveBeenCalledWith('todo-1', {
+        title: 'Patch OpenSSL',
+        tags: ['cve'],
+      });
+      const docs = mockClient.bulk.mock.calls[0][0].body.filter(
+        (doc: any) => doc.title
+      );
+      expect(docs).toHaveLength(2);
+      expect(docs[0]).toMatchObject({
+        externalKey: 'VULN-2',
+        priority: TodoPriority.MEDIUM,
+        status: TodoStatus.PLANNED,
+        position: 3000,
+      });
+      expect(docs[1].position).toBe(4000);
+    });
+
+    it('should report failed writes by row', async () => {
+      mockClient.search.mockResolvedValue({ body: { hits: { hits: [] } } });
+      mockClient.bulk.mockImplementationOnce(async ({ body }: any) => ({
+        body: {
+          errors: true,
+          items: [
+            { index: { _id: body[0].index._id } },
+            {
+              index: {
+                _id: body[2].index._id,
+                error: { reason: 'mapper_parsing_exception' },
+              },
+            },
+          ],
+        },
+      }));
+
+      const result = await service.importTodos(
+        [{ title: 'First' }, { title: 'Second' }],
+        false,
+        validateRow
+      );
+
+      expect(result.created).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.errors).toEqual([
+        { row: 2, error: 'mapper_parsing_exception' },
+      ]);
+    });
+  });
+
+  describe('Statistics', () => {
+    it('should return aggregated statistics', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: { total: { value: 10 } },
+          aggregations: {
+            by_status: { buckets: [{ key: TodoStatus.COMPLETED_SUCCESS, doc_count: 4 }] },
+            by_priority: { buckets: [{ key: TodoPriority.HIGH, doc_count: 3 }] },
+            by_compliance_standard: { buckets: [] },
+            completed_items: { doc_count: 4 },
+            overdue_items: { doc_count: 2 },
+          },
+        },
+      });
+
+      const stats = await service.getStatistics();
+      
+      expect(stats.totalCount).toBe(10);
+      expect(stats.completionRate).toBe(40);
+      expect(stats.overdueCount).toBe(2);
+    });
+
+    it('should count items per SLA state', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: { total: { value: 5 } },
+          aggregations: {
+            by_status: { buckets: [] },
+            by_priority: { buckets: [] },
+            by_compliance_standard: { buckets: [] },
+            completed_items: { doc_count: 0 },
+            overdue_items: { doc_count: 0 },
+            sla_states: {
+              buckets: {
+                on_track: { doc_count: 2 },
+                at_risk: { doc_count: 1 },
+                breached: { doc_count: 1 },
+                met: { doc_count: 1 },
+              },
+            },
+          },
+        },
+      });
+
+      const stats = await service.getStatistics();
+
+      expect(stats.sla).toEqual({
+        [SlaState.ON_TRACK]: 2,
+        [SlaState.AT_RISK]: 1,
+        [SlaState.BREACHED]: 1,
+        [SlaState.MET]: 1,
+      });
+    });
+  });
+
+  describe('Control Coverage', () => {
+    it('should report open, completed and uncovered controls', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: { total: { value: 3 } },
+          aggregations: {
+            by_control: {
+              buckets: [
+                {
+                  key: 'pci_dss:8.3.1',
+                  doc_count: 2,
+                  completed: { doc_count: 1 },
+                },
+                {
+                  key: 'pci_dss:10.2.1',
+                  doc_count: 1,
+                  completed: { doc_count: 1 },
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      const coverage = await service.getCoverage();
+      const pci = coverage.find(
+        (entry) => entry.standard === ComplianceStandard.PCI_DSS
+      )!;
+      const byKey = (key: string) =>
+        pci.controls.find((entry) => entry.control.key === key)!;
+
+      expect(coverage).toHaveLength(Object.values(ComplianceStandard).length);
+      expect(byKey('pci_dss:8.3.1')).toMatchObject({
+        status: ControlCoverageStatus.OPEN,
+        openCount: 1,
+        completedCount: 1,
+      });
+      expect(byKey('pci_dss:10.2.1').status).toBe(
+        ControlCoverageStatus.COMPLETED
+      );
+      expect(byKey('pci_dss:1.2.1').status).toBe(
+        ControlCoverageStatus.UNCOVERED
+      );
+      expect(pci.openControls).toBe(1);
+      expect(pci.completedControls).toBe(1);
+      expect(pci.uncoveredControls).toBe(pci.controls.length - 2);
+    });
+
+    it('should exclude archived items and count done statuses', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { aggregations: { by_control: { buckets: [] } } },
+      });
+
+      await service.getCoverage();
+
+      const { body } = mockClient.search.mock.calls[0][0];
+      expect(body.query).toEqual({
+        bool: { filter: [{ term: { archived: false } }, NOT_DELETED] },
+      });
+      expect(body.aggs.by_control.aggs.completed.filter).toEqual({
+        terms: { status: [TodoStatus.COMPLETED_SUCCESS] },
+      });
     });
   });
 });
@@ -1,21 +1,83 @@
 import { v4 as uuidv4 } from "uuid";
 import { Logger } from "src/core/server";
 import { OpenSearchService } from "./opensearch.service";
+import { CommentService } from "./comment.service";
+import { HistoryService } from "./history.service";
+import {
+  WorkflowService,
+  WorkflowValidationError,
+} from "./workflow.service";
+import {
+  RecurrenceService,
+  buildNextOccurrence,
+} from "./recurrence.service";
+import { buildTemplateTodos, createBatchTag } from "./template.service";
+import { SlaService, applySla, buildSlaStateQuery } from "./sla.service";
+import {
+  WebhookEventData,
+  WebhookService,
+  getUpdateEvents,
+} from "./webhook.service";
+import {
+  AutomationChange,
+  AutomationExecutor,
+  AutomationService,
+} from "./automation.service";
+import {
+  ProjectScope,
+  applyProjectDefaults,
+  buildProjectQuery,
+  getProjectId,
+} from "./project.service";
+import { buildTrashQuery, isDeleted } from "./trash.service";
 import {
   TodoItem,
   CreateTodoRequest,
   UpdateTodoRequest,
   TodoSearchParams,
-  PaginatedResponse,
+  TodoSearchResponse,
+  TodoFacetField,
+  TodoFacets,
   TodoStatistics,
-  TodoStatus,
   TodoPriority,
+  TodoHistoryAction,
+  WorkflowStatusCategory,
+  SeriesUpdateRequest,
+  TodoTemplate,
+  InstantiateTemplateRequest,
+  TemplateInstantiationResult,
+  StandardCoverage,
+  ControlCoverage,
+  ControlCoverageStatus,
+  ComplianceStandard,
+  SlaState,
+  WorkflowDefinition,
+  TodoImportAction,
+  TodoImportResult,
+  TodoImportRowResult,
+  WebhookEvent,
+  PaginatedResponse,
 } from "../../common/types";
+import { getStatusIdsByCategory } from "../../common/workflow";
+import {
+  ParsedTodoQuery,
+  TodoQueryBounds,
+  TodoQueryClause,
+  TodoQueryFlag,
+  getQueryBounds,
+  getQueryFlagStatuses,
+  parseTodoQuery,
+} from "../../common/query";
+import { CONTROL_CATALOG, CONTROL_COUNT } from "../../common/controls";
 import {
   TODO_INDEX_NAME,
   DEFAULT_PAGE_SIZE,
   DEFAULT_SORT_FIELD,
   DEFAULT_SORT_ORDER,
+  IMPORT_BATCH_SIZE,
+  EXPORT_BATCH_SIZE,
+  FACET_SIZE,
+  FIRST_PAGE_CURSOR,
 } from "../../common/constants";
 
 type FilterCondition = Record<string, any>;
@@ -29,12 +91,147 @@ interface FilterBuilder {
     query: string,
     boost?: Record<string, number>
   ) => FilterBuilder;
-  build: () => { must: FilterCondition[]; filter: FilterCondition[] };
+  addAnyOf: (conditions: FilterCondition[]) => FilterBuilder;
+  addQuery: (
+    query: ParsedTodoQuery,
+    workflow: WorkflowDefinition,
+    now?: Date
+  ) => FilterBuilder;
+  build: () => {
+    must: FilterCondition[];
+    filter: FilterCondition[];
+    mustNot: FilterCondition[];
+  };
 }
 
+const SEARCH_FIELDS = ["title", "description"];
+
+const buildTextMatch = (
+  fields: string[],
+  query: string,
+  boost?: Record<string, number>
+): FilterCondition => ({
+  multi_match: {
+    query: query.trim().toLowerCase(),
+    fields: fields.map((f) => (boost?.[f] ? `${f}^${boost[f]}` : f)),
+    type: "phrase_prefix",
+    operator: "or",
+  },
+});
+
+const toRangeQuery = (
+  field: string,
+  bounds: TodoQueryBounds,
+  isDate: boolean
+): FilterCondition => ({
+  range: {
+    [field]: Object.entries(bounds).reduce(
+      (range, [key, value]) => ({
+        ...range,
+        [key]: isDate ? new Date(value as number).toISOString() : value,
+      }),
+      {}
+    ),
+  },
+});
+
+/**
+ * OpenSearch query of one clause of the search box, without its negation
+ * Dates are resolved at the given time so the search matches
+ * matchesTodoQuery in the browser.
+ */
+const buildQueryClause = (
+  clause: TodoQueryClause,
+  workflow: WorkflowDefinition,
+  now = new Date()
+): FilterCondition => {
+  switch (clause.field) {
+    case "is":
+      return {
+        bool: {
+          should: clause.values.map((flag) => {
+            if (flag === TodoQueryFlag.UNASSIGNED) {
+              return { bool: { must_not: { exists: { field: "assignee" } } } };
+            }
+            const status = {
+              terms: {
+                status:
+                  getQueryFlagStatuses(flag as TodoQueryFlag, workflow) || [],
+              },
+            };
+            return flag === TodoQueryFlag.OVERDUE
+              ? {
+                  bool: {
+                    filter: [
+                      status,
+                      toRangeQuery("dueDate", { lt: now.getTime() }, true),
+                    ],
+                  },
+                }
+              : status;
+          }),
+          minimum_should_match: 1,
+        },
+      };
+    case "slaState":
+      return {
+        bool: {
+          should: clause.values.map((state) =>
+            buildSlaStateQuery(state as SlaState)
+          ),
+          minimum_should_match: 1,
+        },
+      };
+    case "storyPoints":
+      return toRangeQuery(clause.field, getQueryBounds(clause, now), false);
+    case "dueDate":
+    case "plannedDate":
+    case "createdAt":
+    case "updatedAt":
+    case "completedAt":
+      return toRangeQuery(clause.field, getQueryBounds(clause, now), true);
+    default:
+      return { terms: { [clause.field]: clause.values } };
+  }
+};
+
+const FACET_FIELDS: TodoFacetField[] = [
+  "status",
+  "priority",
+  "complianceStandards",
+  "tags",
+  "assignee",
+];
+
+/**
+ * Aggregation per facet field, filtered by the conditions on every other
+ * facet field; the conditions on the field itself only apply to the hits
+ * through the post_filter.
+ */
+const buildFacetAggs = (
+  facetFilters: Record<TodoFacetField, FilterCondition[]>
+): Record<string, any> =>
+  FACET_FIELDS.reduce(
+    (aggs, field) => ({
+      ...aggs,
+      [field]: {
+        filter: {
+          bool: {
+            filter: FACET_FIELDS.filter((other) => other !== field).flatMap(
+              (other) => facetFilters[other]
+            ),
+          },
+        },
+        aggs: { values: { terms: { field, size: FACET_SIZE } } },
+      },
+    }),
+    {} as Record<string, any>
+  );
+
 const createFilterBuilder = (): FilterBuilder => {
   const must: FilterCondition[] = [];
   const filter: FilterCondition[] = [];
+  const mustNot: FilterCondition[] = [];
 
   return {
     addTerm(field: string, value: any) {
@@ -63,24 +260,39 @@ const createFilterBuilder = (): FilterBuilder => {
 
     addMatch(fields: string[], query: string, boost?: Record<string, number>) {
       if (query && query.trim()) {
-        const normalizedQuery = query.trim().toLowerCase();
-        const fieldsWithBoost = fields.map((f) =>
-          boost?.[f] ? `${f}^${boost[f]}` : f
-        );
-        must.push({
-          multi_match: {
-            query: normalizedQuery,
-            fields: fieldsWithBoost,
-            type: "phrase_prefix",
-            operator: "or",
-          },
+        must.push(buildTextMatch(fields, query, boost));
+      }
+      return this;
+    },
+
+    addAnyOf(conditions: FilterCondition[]) {
+      if (conditions.length > 0) {
+        filter.push({
+          bool: { should: conditions, minimum_should_match: 1 },
         });
       }
       return this;
     },
 
+    addQuery(
+      query: ParsedTodoQuery,
+      workflow: WorkflowDefinition,
+      now = new Date()
+    ) {
+      this.addMatch(SEARCH_FIELDS, query.text, { title: 2, description: 1 });
+      query.excludedText.forEach((text) =>
+        mustNot.push(buildTextMatch(SEARCH_FIELDS, text))
+      );
+      query.clauses.forEach((clause) =>
+        (clause.negated ? mustNot : filter).push(
+          buildQueryClause(clause, workflow, now)
+        )
+      );
+      return this;
+    },
+
     build() {
-      return { must, filter };
+      return { must, filter, mustNot };
     },
   };
 };
@@ -93,39 +305,291 @@ export interface BulkOperationResult {
   errors?: Array<{ id: string; error: string }>;
 }
 
+// How long a scroll context of an export stays open between batches
+const EXPORT_SCROLL_TIMEOUT = "1m";
+
+// How long the point in time of a cursor-paged search stays open between
+// pages; reads that are left off free it soon after
+const CURSOR_KEEP_ALIVE = "1m";
+
+// Attempts for an unversioned update that loses a race with another write
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// Attempts for a write held by the write block a migration puts on an index
+// while it catches up; each waits twice as long as the one before
+const WRITE_BLOCK_ATTEMPTS = 6;
+const WRITE_BLOCK_DELAY_MS = 250;
+
+const isWriteBlock = (error: any) =>
+  error?.type === "cluster_block_exception";
+
+// A blocked request fails as a whole, a blocked bulk request item by item
+const isWriteBlocked = (outcome: any) =>
+  isWriteBlock(outcome?.body?.error) ||
+  (!!outcome?.body?.errors &&
+    outcome.body.items.some((item: any) =>
+      isWriteBlock((Object.values(item)[0] as any)?.error)
+    ));
+
+/**
+ * Thrown when an update is based on an outdated copy of a TODO item
+ * Carries the current server copy so the client can merge.
+ */
+export class TodoConflictError extends Error {
+  constructor(public readonly current: TodoItem) {
+    super(`TODO item was modified by someone else: ${current.id}`);
+    this.name = "TodoConflictError";
+  }
+}
+
+/**
+ * Thrown when a page cursor was not issued by a search
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid page cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Position of a cursor-paged search: its point in time and the sort values
+// of the last item read
+interface CursorPosition {
+  pit: string;
+  after: unknown[];
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString("base64url");
+
+/**
+ * @throws InvalidCursorError when the cursor cannot be read
+ */
+export const decodeCursor = (cursor: string): CursorPosition => {
+  let position: any;
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString());
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (typeof position?.pit !== "string" || !Array.isArray(position.after)) {
+    throw new InvalidCursorError();
+  }
+  return position;
+};
+
+/**
+ * Validates one mapped import row like a new item, throwing when invalid
+ * The routes pass the validation of the create schema.
+ */
+export type ImportRowValidator = (
+  row: Record<string, unknown>
+) => CreateTodoRequest;
+
+// Import row after validation, with what will be written for it
+interface CheckedImportRow extends TodoImportRowResult {
+  todo?: TodoItem;                // New item of a row to create
+  existingId?: string;            // Item updated by a row in upsert mode
+  changes?: UpdateTodoRequest;    // Fields of the file written to that item
+}
+
+// Fields of a new item an import may update; series are never imported
+const IMPORT_UPDATE_FIELDS: Array<
+  keyof UpdateTodoRequest & keyof CreateTodoRequest
+> = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "tags",
+  "complianceStandards",
+  "controls",
+  "assignee",
+  "plannedDate",
+  "dueDate",
+  "storyPoints",
+  "coverImage",
+];
+
+/**
+ * Build a new item from a validated import row
+ * The position is set when the rows are written.
+ */
+export const buildImportedTodo = (
+  data: CreateTodoRequest,
+  initialStatus: string,
+  now: string
+): TodoItem => ({
+  id: uuidv4(),
+  title: data.title,
+  description: data.description,
+  status: data.status || initialStatus,
+  priority: data.priority || TodoPriority.MEDIUM,
+  tags: data.tags || [],
+  complianceStandards: data.complianceStandards || [],
+  controls: data.controls || [],
+  assignee: data.assignee,
+  createdAt: now,
+  updatedAt: now,
+  plannedDate: data.plannedDate,
+  dueDate: data.dueDate,
+  archived: false,
+  storyPoints: data.storyPoints,
+  coverImage: data.coverImage,
+  externalKey: data.externalKey,
+});
+
+/**
+ * Changes of an imported row to an existing item
+ * Only fields present in the file are written, so unmapped columns keep
+ * their current values.
+ */
+export const getImportedChanges = (
+  data: CreateTodoRequest,
+  fields: string[]
+): UpdateTodoRequest =>
+  IMPORT_UPDATE_FIELDS.filter((field) => fields.includes(field)).reduce(
+    (changes, field) => ({ ...changes, [field]: data[field] }),
+    {} as UpdateTodoRequest
+  );
+
+// Fields holding the username of a write, see applyAuthors
+const AUTHOR_FIELDS = ["createdBy", "updatedBy", "archivedBy", "completedBy"];
+
+/**
+ * Record the user of a write on the item being written
+ * The creator is set once. The user who archives an item, or moves it into
+ * one of the closed statuses, is kept until the next time that happens.
+ */
+export const applyAuthors = <T extends Omit<TodoItem, "id">>(
+  todo: T,
+  previous: TodoItem | undefined,
+  username: string,
+  closedStatusIds: string[]
+): T => {
+  const isClosed = (status?: string) =>
+    !!status && closedStatusIds.includes(status);
+
+  return {
+    ...todo,
+    createdBy: previous ? previous.createdBy : todo.createdBy || username,
+    updatedBy: username,
+    archivedBy:
+      todo.archived && !previous?.archived ? username : todo.archivedBy,
+    completedBy:
+      isClosed(todo.status) && !isClosed(previous?.status)
+        ? username
+        : todo.completedBy,
+  };
+};
+
+/**
+ * Items a read sees: those in use, those in the trash or both
+ */
+export type TrashScope = "active" | "trash" | "all";
+
+// TODO item together with the sequence info used for conditional writes
+interface StoredTodo {
+  todo: TodoItem;
+  seqNo: number;
+  primaryTerm: number;
+}
+
 export class TodoService {
+  private readonly commentService: CommentService;
+  private readonly historyService: HistoryService;
+  private readonly workflowService: WorkflowService;
+  private readonly recurrenceService: RecurrenceService;
+  private readonly slaService: SlaService;
+  private readonly webhookService: WebhookService;
+  private readonly automationService: AutomationService;
+
+  /**
+   * With a `scope`, only the items of its projects are read and changed,
+   * and new items are created in its project. Jobs of the plugin itself
+   * work on all items.
+   *
+   * Without `automate`, writes do not run the automation rules; the
+   * actions of the rules are written that way.
+   */
   constructor(
     private readonly osService: OpenSearchService,
-    private readonly logger: Logger
+    private readonly logger: Logger,
+    private readonly scope?: ProjectScope,
+    private readonly automate = true
   ) {
-    this.initialize();
+    this.commentService = new CommentService(osService, logger);
+    this.historyService = new HistoryService(osService, logger);
+    this.slaService = new SlaService(osService, logger);
+    this.workflowService = new WorkflowService(osService, logger);
+    this.recurrenceService = new RecurrenceService(osService, logger);
+    this.webhookService = new WebhookService(osService, logger);
+    this.automationService = new AutomationService(osService, logger);
   }
 
-  private async initialize() {
-    try {
-      await this.osService.ensureIndex();
-    } catch (error) {
-      this.logger.error("Failed to initialize TodoService", error);
+  /**
+   * Send a write once the managed indices exist
+   * They are ensured once per process. A user who may not check them can
+   * still write to the indices that are there. A write held by a migration
+   * is sent again for a few seconds, until the block is lifted.
+   */
+  private async write<T>(request: () => Promise<T>): Promise<T> {
+    await this.osService
+      .ensureIndex()
+      .catch((error) =>
+        this.logger.error("Failed to initialize TodoService", error)
+      );
+
+    for (let attempt = 1; ; attempt++) {
+      const last = attempt === WRITE_BLOCK_ATTEMPTS;
+      try {
+        const response = await request();
+        if (last || !isWriteBlocked(response)) {
+          return response;
+        }
+      } catch (error) {
+        if (last || !isWriteBlocked(error)) {
+          throw error;
+        }
+      }
+      const delay = WRITE_BLOCK_DELAY_MS * 2 ** (attempt - 1);
+      this.logger.debug(`Index is write blocked, retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
   }
 
-  public async createTodo(data: CreateTodoRequest): Promise<TodoItem> {
+  /**
+   * `projectId` places the item in a project when no scope does, as for
+   * the follow-ups of automation rules
+   */
+  public async createTodo(
+    request: CreateTodoRequest,
+    projectId?: string
+  ): Promise<TodoItem> {
     const client = this.osService.getClient();
+    const data = this.scope
+      ? applyProjectDefaults(request, this.scope.project)
+      : request;
     const now = new Date().toISOString();
-    const status = data.status || TodoStatus.PLANNED;
+    const workflow = await this.workflowService.getWorkflow();
+    const status = data.status || workflow.initialStatus;
 
     // Get max position in the target status column to add at the end
     const maxPosition = await this.getMaxPositionInStatus(status);
+    const id = uuidv4();
 
-    const todo: TodoItem = {
-      id: uuidv4(),
+    const todo = await this.prepareWrite(this.inProject<TodoItem>({
+      id,
+      projectId,
       title: data.title,
       description: data.description,
       status,
       priority: data.priority || TodoPriority.MEDIUM,
       tags: data.tags || [],
       complianceStandards: data.complianceStandards || [],
+      controls: data.controls || [],
       assignee: data.assignee,
+      assigneeId: data.assigneeId,
       createdAt: now,
       updatedAt: now,
       plannedDate: data.plannedDate,
@@ -133,15 +597,35 @@ export class TodoService {
       archived: false,
       storyPoints: data.storyPoints,
       coverImage: data.coverImage,
+      externalKey: data.externalKey,
+      alert: data.alert,
       position: maxPosition + 1000, // Add at the end with 1000 increment
-    };
+      version: 1,
+      // A recurring item is the first occurrence of a new series
+      ...(data.recurrence && {
+        recurrence: data.recurrence,
+        seriesId: id,
+        occurrenceIndex: 0,
+        occurrenceStart: data.plannedDate || now,
+      }),
+    }));
 
-    await client.index({
-      index: TODO_INDEX_NAME,
-      id: todo.id,
-      body: todo,
-      refresh: "wait_for",
-    });
+    await this.workflowService.assertTransition(undefined, todo);
+
+    await this.write(() =>
+      client.index({
+        index: TODO_INDEX_NAME,
+        id: todo.id,
+        body: todo,
+        refresh: "wait_for",
+      })
+    );
+
+    await this.historyService.recordChanges(TodoHistoryAction.CREATE, [
+      { todoId: todo.id, after: todo },
+    ]);
+    await this.notify([WebhookEvent.CREATED], { todo });
+    await this.runAutomations([{ after: todo }]);
 
     this.logger.info(`Created TODO item: ${todo.id}`);
     return todo;
@@ -150,7 +634,7 @@ export class TodoService {
   /**
    * Get the maximum position value in a status column
    */
-  private async getMaxPositionInStatus(status: TodoStatus): Promise<number> {
+  private async getMaxPositionInStatus(status: string): Promise<number> {
     const client = this.osService.getClient();
 
     try {
@@ -159,7 +643,11 @@ export class TodoService {
         body: {
           query: {
             bool: {
-              filter: [{ term: { status } }, { term: { archived: false } }],
+              filter: [
+                { term: { status } },
+                { term: { archived: false } },
+                buildTrashQuery(false),
+              ],
             },
           },
           sort: [{ position: { order: "desc" } }],
@@ -179,7 +667,21 @@ export class TodoService {
     }
   }
 
-  public async getTodoById(id: string): Promise<TodoItem | null> {
+  /**
+   * Item of the scope, or with `trash` of the trash or either
+   */
+  public async getTodoById(
+    id: string,
+    trash: TrashScope = "active"
+  ): Promise<TodoItem | null> {
+    const stored = await this.getStoredTodo(id, trash);
+    return stored ? stored.todo : null;
+  }
+
+  private async getStoredTodo(
+    id: string,
+    trash: TrashScope = "active"
+  ): Promise<StoredTodo | null> {
     const client = this.osService.getClient();
 
     try {
@@ -188,7 +690,15 @@ export class TodoService {
         id,
       });
 
-      return response.body._source as TodoItem;
+      // Items of other projects are reported as missing
+      if (!this.inScope(response.body._source, trash)) {
+        return null;
+      }
+      return {
+        todo: response.body._source as TodoItem,
+        seqNo: response.body._seq_no,
+        primaryTerm: response.body._primary_term,
+      };
     } catch (error: any) {
       if (error.statusCode === 404) {
         return null;
@@ -200,143 +710,550 @@ export class TodoService {
   public async updateTodo(
     id: string,
     data: UpdateTodoRequest
+  ): Promise<TodoItem> {
+    return this.applyUpdate(id, data, TodoHistoryAction.UPDATE);
+  }
+
+  /**
+   * Merge changes into a TODO item and record them under the given action
+   * When `data.version` is set the changes must be based on the current
+   * version, otherwise a TodoConflictError is thrown. The write itself is
+   * conditional on the copy that was read, so concurrent writes never
+   * overwrite each other silently.
+   */
+  private async applyUpdate(
+    id: string,
+    data: UpdateTodoRequest,
+    action: TodoHistoryAction,
+    attempt = 1
   ): Promise<TodoItem> {
     const client = this.osService.getClient();
-    const existing = await this.getTodoById(id);
+    const { version: expectedVersion, ...changes } = data;
+    const stored = await this.getStoredTodo(id);
 
-    if (!existing) {
+    if (!stored) {
       throw new Error(`TODO item not found: ${id}`);
     }
 
-    const updated: TodoItem = {
-      ...existing,
-      ...data,
-      updatedAt: new Date().toISOString(),
-    };
+    const existing = stored.todo;
+    const currentVersion = existing.version || 0;
 
-    await client.update({
-      index: TODO_INDEX_NAME,
-      id,
-      body: { doc: updated },
-      refresh: "wait_for",
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      throw new TodoConflictError(existing);
+    }
+
+    const updated = await this.prepareWrite<TodoItem>(
+      {
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+        version: currentVersion + 1,
+      },
+      existing
+    );
+
+    await this.workflowService.assertTransition(existing, updated);
+
+    try {
+      await this.write(() =>
+        client.update({
+          index: TODO_INDEX_NAME,
+          id,
+          if_seq_no: stored.seqNo,
+          if_primary_term: stored.primaryTerm,
+          body: { doc: updated },
+          refresh: "wait_for",
+        })
+      );
+    } catch (error: any) {
+      if (error.statusCode !== 409) {
+        throw error;
+      }
+
+      const current = await this.getTodoById(id);
+      if (!current) {
+        throw new Error(`TODO item not found: ${id}`);
+      }
+
+      // Another write landed between our read and write, or a migration
+      // moved the unchanged item to a new index
+      const unchanged = (current.version || 0) === currentVersion;
+      if (
+        (expectedVersion === undefined || unchanged) &&
+        attempt < MAX_UPDATE_ATTEMPTS
+      ) {
+        return this.applyUpdate(id, data, action, attempt + 1);
+      }
+      throw new TodoConflictError(current);
+    }
+
+    await this.historyService.recordChanges(action, [
+      { todoId: id, before: existing, after: updated },
+    ]);
+    await this.notify(getUpdateEvents(action, existing, updated), {
+      todo: updated,
+      previous: existing,
     });
+    await this.runAutomations([{ before: existing, after: updated }]);
+
+    if (await this.closesOccurrence(existing, updated)) {
+      await this.continueSeries(updated);
+    }
 
     this.logger.info(`Updated TODO item: ${id}`);
     return updated;
   }
 
+  /**
+   * Move a TODO item to the trash
+   * The item keeps its comments and can be restored until it is purged.
+   */
   public async deleteTodo(id: string): Promise<void> {
     const client = this.osService.getClient();
+    const stored = await this.getStoredTodo(id);
+    if (!stored) {
+      throw new Error(`TODO item not found: ${id}`);
+    }
+    const existing = stored.todo;
+
+    const deletion = await this.getDeletion();
+    try {
+      await this.write(() =>
+        client.update({
+          index: TODO_INDEX_NAME,
+          id,
+          if_seq_no: stored.seqNo,
+          if_primary_term: stored.primaryTerm,
+          body: { doc: deletion },
+          refresh: "wait_for",
+        })
+      );
+    } catch (error: any) {
+      if (error.statusCode !== 409) {
+        throw error;
+      }
+      // Changed since it was read; the user deletes what they saw
+      const current = await this.getTodoById(id);
+      if (!current) {
+        throw new Error(`TODO item not found: ${id}`);
+      }
+      throw new TodoConflictError(current);
+    }
+
+    // Keep a snapshot so the deleted item can still be audited
+    await this.historyService.recordChanges(TodoHistoryAction.DELETE, [
+      { todoId: id, before: existing },
+    ]);
+    await this.notify([WebhookEvent.DELETED], {
+      todo: { ...existing, ...deletion },
+    });
+
+    this.logger.info(`Moved TODO item to the trash: ${id}`);
+  }
 
-    await client.delete({
+  /**
+   * One page of the trash, most recently deleted first
+   */
+  public async listTrash(
+    page = 1,
+    size = DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResponse<TodoItem>> {
+    const response = await this.osService.getClient().search({
       index: TODO_INDEX_NAME,
-      id,
-      refresh: "wait_for",
+      body: {
+        query: { bool: { filter: this.scopeFilter("trash") } },
+        sort: [{ deletedAt: { order: "desc" } }],
+        from: (page - 1) * size,
+        size,
+        track_total_hits: true,
+      },
+    });
+
+    const total = response.body.hits.total.value;
+    return {
+      items: response.body.hits.hits.map((hit: any) => hit._source),
+      total,
+      page,
+      size,
+      totalPages: Math.ceil(total / size),
+    };
+  }
+
+  /**
+   * Take an item out of the trash, as it was when it was deleted
+   */
+  public async restoreDeletedTodo(id: string): Promise<TodoItem> {
+    const client = this.osService.getClient();
+    const stored = await this.getStoredTodo(id, "trash");
+    if (!stored) {
+      throw new Error(`TODO item not found in the trash: ${id}`);
+    }
+
+    // Cleared with null, a partial update keeps the fields it leaves out
+    const restored = { ...stored.todo, deletedAt: null, deletedBy: null };
+    await this.write(() =>
+      client.update({
+        index: TODO_INDEX_NAME,
+        id,
+        if_seq_no: stored.seqNo,
+        if_primary_term: stored.primaryTerm,
+        body: { doc: { deletedAt: null, deletedBy: null } },
+        refresh: "wait_for",
+      })
+    );
+
+    await this.historyService.recordChanges(TodoHistoryAction.UNDELETE, [
+      { todoId: id, after: restored },
+    ]);
+    await this.notify([WebhookEvent.UPDATED], {
+      todo: restored,
+      previous: stored.todo,
     });
 
-    this.logger.info(`Deleted TODO item: ${id}`);
+    this.logger.info(`Restored TODO item from the trash: ${id}`);
+    return restored;
+  }
+
+  /**
+   * Delete an item of the trash for good
+   */
+  public async purgeTodo(id: string): Promise<void> {
+    const result = await this.purgeTodos([id], "trash");
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(result.errors[0].error);
+    }
   }
 
+  /**
+   * One page of the items matching the search
+   * With `facets` the values of the facet fields are counted as well. With
+   * a `cursor` the page follows the one the cursor was issued with, which
+   * also works past the 10,000 items `page` can reach. Starting over with
+   * a `previousCursor` closes the point in time of the earlier read.
+   *
+   * @throws InvalidCursorError when a cursor was not issued by a search
+   */
   public async searchTodos(
     params: TodoSearchParams
-  ): Promise<PaginatedResponse<TodoItem>> {
+  ): Promise<TodoSearchResponse> {
+    const client = this.osService.getClient();
+    const {
+      page = 1,
+      size = DEFAULT_PAGE_SIZE,
+      cursor,
+      previousCursor,
+    } = params;
+    const body = await this.buildSearchBody(params);
+
+    const { response, nextCursor } = cursor
+      ? await this.searchAfterCursor(body, size, cursor, previousCursor)
+      : {
+          response: await client.search({
+            index: TODO_INDEX_NAME,
+            body: {
+              ...body,
+              from: (page - 1) * size,
+              size,
+              // Counted exactly, also past 10,000 items
+              track_total_hits: true,
+            },
+          }),
+          nextCursor: undefined,
+        };
+
+    const hits = response.body.hits;
+    const items = hits.hits.map((hit: any) => hit._source as TodoItem);
+    const total = hits.total.value;
+
+    return {
+      items,
+      total,
+      page,
+      size,
+      totalPages: size > 0 ? Math.ceil(total / size) : 0,
+      ...(nextCursor && { nextCursor }),
+      ...(params.facets && {
+        facets: FACET_FIELDS.reduce(
+          (facets, field) => ({
+            ...facets,
+            [field]: this.aggregationToRecord(
+              response.body.aggregations[field].values
+            ),
+          }),
+          {} as TodoFacets
+        ),
+      }),
+    };
+  }
+
+  /**
+   * Read the page after a cursor from a point in time of the index
+   * The point in time keeps the order stable while items are edited. When
+   * it has expired, the search goes on from the same sort values in a new
+   * one; it is closed once the last page is read, or when the first page
+   * is read again in place of the `previous` one.
+   */
+  private async searchAfterCursor(
+    body: Record<string, any>,
+    size: number,
+    cursor: string,
+    previous?: string
+  ): Promise<{ response: any; nextCursor?: string }> {
+    const client = this.osService.getClient();
+    const position =
+      cursor === FIRST_PAGE_CURSOR ? undefined : decodeCursor(cursor);
+    if (!position && previous) {
+      await this.closePointInTime(decodeCursor(previous).pit);
+    }
+
+    const search = async (pit: string) => ({
+      pit,
+      response: await client.search({
+        body: {
+          ...body,
+          // The id breaks ties so no item is skipped or read twice
+          sort: [...body.sort, { id: { order: "asc" } }],
+          size,
+          track_total_hits: true,
+          pit: { id: pit, keep_alive: CURSOR_KEEP_ALIVE },
+          ...(position && { search_after: position.after }),
+        },
+      }),
+    });
+
+    let result;
+    try {
+      result = await search(position?.pit ?? (await this.openPointInTime()));
+    } catch (error: any) {
+      if (!position || error.statusCode !== 404) {
+        throw error;
+      }
+      result = await search(await this.openPointInTime());
+    }
+
+    const pit: string = result.response.body.pit_id || result.pit;
+    const hits = result.response.body.hits.hits;
+    if (size === 0 || hits.length < size) {
+      await this.closePointInTime(pit);
+      return { response: result.response };
+    }
+    return {
+      response: result.response,
+      nextCursor: encodeCursor({ pit, after: hits[hits.length - 1].sort }),
+    };
+  }
+
+  private async openPointInTime(): Promise<string> {
+    const response = await this.osService.getClient().createPit({
+      index: TODO_INDEX_NAME,
+      keep_alive: CURSOR_KEEP_ALIVE,
+    });
+    return response.body.pit_id;
+  }
+
+  // An expired point in time is already closed, so failures only warn
+  private async closePointInTime(pit: string): Promise<void> {
+    await this.osService
+      .getClient()
+      .deletePit({ body: { pit_id: [pit] } })
+      .catch((error: any) =>
+        this.logger.warn("Failed to close search point in time", error)
+      );
+  }
+
+  /**
+   * Read every item matching the search in the order of the search
+   * Paging is ignored; the items are scrolled through in batches so exports
+   * are not limited by the page size.
+   */
+  public async *scrollTodos(
+    params: TodoSearchParams,
+    batchSize = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<TodoItem[]> {
     const client = this.osService.getClient();
 
+    let response = await client.search({
+      index: TODO_INDEX_NAME,
+      scroll: EXPORT_SCROLL_TIMEOUT,
+      body: {
+        ...(await this.buildSearchBody({ ...params, facets: false })),
+        size: batchSize,
+      },
+    });
+    let scrollId: string | undefined = response.body._scroll_id;
+
+    try {
+      while (response.body.hits.hits.length > 0) {
+        yield response.body.hits.hits.map(
+          (hit: any) => hit._source as TodoItem
+        );
+        if (!scrollId) {
+          return;
+        }
+        response = await client.scroll({
+          body: { scroll_id: scrollId, scroll: EXPORT_SCROLL_TIMEOUT },
+        });
+        scrollId = response.body._scroll_id;
+      }
+    } finally {
+      if (scrollId) {
+        await client
+          .clearScroll({ body: { scroll_id: scrollId } })
+          .catch((error: any) =>
+            this.logger.warn("Failed to clear export scroll", error)
+          );
+      }
+    }
+  }
+
+  /**
+   * Query and sort order of a search, without paging
+   * The query text is read with the search box syntax of parseTodoQuery.
+   * With `facets`, the filters on facet fields move to the post_filter so
+   * the facet aggregations are not narrowed by their own field.
+   *
+   * @throws TodoQueryError when the query text cannot be read
+   */
+  private async buildSearchBody(
+    params: TodoSearchParams
+  ): Promise<Record<string, any>> {
     const {
       query,
       status,
       priority,
       tags,
       complianceStandards,
+      controls,
+      slaState,
       assignee,
+      assigneeId,
       dateFrom,
       dateTo,
       sortField = DEFAULT_SORT_FIELD,
       sortOrder = DEFAULT_SORT_ORDER,
-      page = 1,
-      size = DEFAULT_PAGE_SIZE,
       archived,
+      facets,
     } = params;
 
     // Build filters using the filter builder
-    // Search in title and description (text fields) - tags is keyword type and handled separately
-    const { must, filter } = createFilterBuilder()
-      .addMatch(["title", "description"], query || "", {
-        title: 2,
-        description: 1,
-      })
+    // The query text searches title and description and may hold filters
+    const builder = createFilterBuilder();
+    if (query && query.trim()) {
+      // The workflow checks statuses and resolves is: conditions
+      const workflow = await this.workflowService.getWorkflow();
+      builder.addQuery(
+        parseTodoQuery(query, { statuses: workflow.statuses }),
+        workflow
+      );
+    }
+    const facetValues: Record<TodoFacetField, string[] | undefined> = {
+      status,
+      priority,
+      complianceStandards,
+      tags,
+      assignee: assignee ? [assignee] : undefined,
+    };
+    const facetFilters = FACET_FIELDS.reduce(
+      (filters, field) => ({
+        ...filters,
+        [field]: createFilterBuilder()
+          .addTerms(field, facetValues[field])
+          .build().filter,
+      }),
+      {} as Record<TodoFacetField, FilterCondition[]>
+    );
+    const hitFilters = FACET_FIELDS.flatMap((field) => facetFilters[field]);
+
+    const { must, filter, mustNot } = builder
       .addTerm("archived", archived)
-      .addTerm("assignee", assignee)
-      .addTerms("status", status)
-      .addTerms("priority", priority)
-      .addTerms("tags", tags)
-      .addTerms("complianceStandards", complianceStandards)
+      .addTerm("assigneeId", assigneeId)
+      .addTerms("controls", controls)
+      .addAnyOf((slaState || []).map(buildSlaStateQuery))
       .addRange("createdAt", dateFrom, dateTo)
       .build();
 
-    const from = (page - 1) * size;
-
     // Build sort config with unmapped_type for fields that may not exist on all docs
     const sortConfig: Record<string, any> = {
       order: sortOrder,
-      unmapped_type: sortField === "position" ? "long" : "date",
+      unmapped_type:
+        sortField === "position"
+          ? "long"
+          : AUTHOR_FIELDS.includes(sortField)
+          ? "keyword"
+          : "date",
     };
 
     // For optional fields, put docs without the field at the end
-    if (
-      ["archivedAt", "completedAt", "dueDate", "position"].includes(sortField)
-    ) {
+    const optionalFields = ["archivedAt", "completedAt", "dueDate", "position"];
+    if ([...optionalFields, ...AUTHOR_FIELDS].includes(sortField)) {
       sortConfig.missing = sortOrder === "asc" ? "_last" : "_first";
     }
 
-    const response = await client.search({
-      index: TODO_INDEX_NAME,
-      body: {
-        query: {
-          bool: {
-            must: must.length > 0 ? must : [{ match_all: {} }],
-            filter,
-          },
+    return {
+      query: {
+        bool: {
+          must: must.length > 0 ? must : [{ match_all: {} }],
+          filter: [
+            ...this.scopeFilter(),
+            ...filter,
+            ...(facets ? [] : hitFilters),
+          ],
+          ...(mustNot.length > 0 && { must_not: mustNot }),
         },
-        sort: [{ [sortField]: sortConfig }],
-        from,
-        size,
       },
-    });
+      sort: [{ [sortField]: sortConfig }],
+      ...(facets && {
+        post_filter: { bool: { filter: hitFilters } },
+        aggs: buildFacetAggs(facetFilters),
+      }),
+    };
+  }
 
-    const hits = response.body.hits;
-    const items = hits.hits.map((hit: any) => hit._source as TodoItem);
-    const total = hits.total.value;
-
-    return {
-      items,
-      total,
-      page,
-      size,
-      totalPages: Math.ceil(total / size),
-    };
-  }
 
+  /**
+   * Archive a TODO item
+   * Its comments are kept so the discussion comes back on restore.
+   */
   public async archiveTodo(id: string): Promise<TodoItem> {
-    return this.updateTodo(id, {
-      archived: true,
-      archivedAt: new Date().toISOString(),
-    });
+    return this.applyUpdate(
+      id,
+      {
+        archived: true,
+        archivedAt: new Date().toISOString(),
+      },
+      TodoHistoryAction.ARCHIVE
+    );
   }
 
   public async restoreTodo(id: string): Promise<TodoItem> {
-    return this.updateTodo(id, {
-      archived: false,
-      archivedAt: undefined,
-    });
+    return this.applyUpdate(
+      id,
+      {
+        archived: false,
+        archivedAt: null,
+      },
+      TodoHistoryAction.RESTORE
+    );
+  }
+
+  /**
+   * Move an item to another project
+   * The caller checks that the user may access the target project.
+   */
+  public async moveTodo(id: string, projectId: string): Promise<TodoItem> {
+    return this.applyUpdate(id, { projectId }, TodoHistoryAction.MOVE);
   }
 
   public async reorderTodo(
     id: string,
-    status: TodoStatus,
+    status: string,
     position: number
   ): Promise<TodoItem> {
-    return this.updateTodo(id, { status, position });
+    return this.applyUpdate(
+      id,
+      { status, position },
+      TodoHistoryAction.REORDER
+    );
   }
 
   // ============================================
@@ -345,14 +1262,16 @@ export class TodoService {
 
   public async bulkUpdateStatus(
     ids: string[],
-    status: TodoStatus
+    status: string
   ): Promise<BulkOperationResult> {
     return this.bulkUpdate(ids, { status });
   }
 
   public async bulkUpdate(
     ids: string[],
-    updates: UpdateTodoRequest
+    updates: UpdateTodoRequest | SeriesUpdateRequest,
+    action: TodoHistoryAction = TodoHistoryAction.BULK_UPDATE,
+    attempt = 1
   ): Promise<BulkOperationResult> {
     if (!ids || ids.length === 0) {
       return { success: true, processed: 0, failed: 0 };
@@ -360,44 +1279,270 @@ export class TodoService {
 
     const client = this.osService.getClient();
     const now = new Date().toISOString();
+    const existing = await this.getTodosByIds(ids);
+
+    // Missing items and those the workflow does not allow to change are
+    // reported as failed
+    const rejected = [
+      ...this.findMissingErrors(ids, existing),
+      ...(await this.findTransitionErrors(existing, updates)),
+    ];
+    const rejectedIds = new Set(rejected.map((e) => e.id));
+    const writableIds = ids.filter((id) => !rejectedIds.has(id));
+
+    if (writableIds.length === 0) {
+      return this.mergeBulkErrors(
+        { success: true, processed: 0, failed: 0 },
+        rejected
+      );
+    }
 
-    const operations = ids.flatMap((id) => [
-      { update: { _index: TODO_INDEX_NAME, _id: id } },
-      { doc: { ...updates, updatedAt: now } },
-    ]);
+    // SLA progress and the users of the write depend on the status and
+    // priority of each item
+    const updatedById = new Map<string, TodoItem>();
+    for (const id of writableIds) {
+      const stored = existing.get(id);
+      if (stored) {
+        const merged = { ...stored.todo, ...updates, updatedAt: now };
+        updatedById.set(id, await this.prepareWrite(merged, stored.todo));
+      }
+    }
 
-    const response = await client.bulk({
-      body: operations,
-      refresh: "wait_for",
+    // Each item is written only if it did not change since it was read
+    const operations = writableIds.flatMap((id) => {
+      const stored = existing.get(id);
+      const updated = updatedById.get(id);
+      return [
+        {
+          update: {
+            _index: TODO_INDEX_NAME,
+            _id: id,
+            ...(stored && {
+              if_seq_no: stored.seqNo,
+              if_primary_term: stored.primaryTerm,
+            }),
+          },
+        },
+        {
+          doc: {
+            ...updates,
+            ...(updated?.sla && { sla: updated.sla, dueDate: updated.dueDate }),
+            ...(updated && {
+              updatedBy: updated.updatedBy,
+              archivedBy: updated.archivedBy,
+              completedBy: updated.completedBy,
+            }),
+            updatedAt: now,
+            version: (stored?.todo.version || 0) + 1,
+          },
+        },
+      ];
     });
 
-    const result = this.parseBulkResponse(response.body, ids);
+    const response = await this.write(() =>
+      client.bulk({
+        body: operations,
+        refresh: "wait_for",
+      })
+    );
+
+    const result = this.mergeBulkErrors(
+      this.parseBulkResponse(response.body, writableIds),
+      rejected
+    );
+    // Items another write changed meanwhile, or a migration moved to a new
+    // index, are updated again from a fresh read, like single updates
+    const racedIds =
+      attempt < MAX_UPDATE_ATTEMPTS
+        ? writableIds.filter(
+            (_, index) => response.body.items?.[index]?.update?.status === 409
+          )
+        : [];
+
+    await this.historyService.recordChanges(
+      action,
+      this.getSucceededIds(ids, result)
+        .filter((id) => existing.has(id))
+        .map((id) => ({
+          todoId: id,
+          before: existing.get(id)?.todo,
+          after: updatedById.get(id),
+        }))
+    );
+    await this.notify(
+      [
+        action === TodoHistoryAction.ARCHIVE
+          ? WebhookEvent.BULK_ARCHIVED
+          : WebhookEvent.BULK_UPDATED,
+      ],
+      {
+        todos: this.getSucceededIds(ids, result)
+          .map((id) => updatedById.get(id))
+          .filter((todo): todo is TodoItem => !!todo),
+      }
+    );
+    await this.runAutomations(
+      this.getSucceededIds(ids, result).flatMap((id) => {
+        const before = existing.get(id)?.todo;
+        const after = updatedById.get(id);
+        return before && after ? [{ before, after }] : [];
+      })
+    );
+
+    for (const id of this.getSucceededIds(ids, result)) {
+      const todo = existing.get(id)?.todo;
+      const updated = updatedById.get(id);
+      if (todo && updated && (await this.closesOccurrence(todo, updated))) {
+        await this.continueSeries(updated);
+      }
+    }
+
     this.logger.info(
       `Bulk updated ${result.processed} TODO items, ${result.failed} failed`
     );
 
-    return result;
+    if (racedIds.length === 0) {
+      return result;
+    }
+    const retried = await this.bulkUpdate(
+      racedIds,
+      updates,
+      action,
+      attempt + 1
+    );
+    const errors = [
+      ...(result.errors || []).filter(({ id }) => !racedIds.includes(id)),
+      ...(retried.errors || []),
+    ];
+    return {
+      success: errors.length === 0,
+      processed: result.processed + retried.processed,
+      failed: errors.length,
+      ...(errors.length > 0 && { errors }),
+    };
   }
 
+  /**
+   * Move several items to the trash
+   */
   public async bulkDelete(ids: string[]): Promise<BulkOperationResult> {
     if (!ids || ids.length === 0) {
       return { success: true, processed: 0, failed: 0 };
     }
 
     const client = this.osService.getClient();
+    const existing = await this.getTodosByIds(ids);
+    const missing = this.findMissingErrors(ids, existing);
+    const foundIds = ids.filter((id) => existing.has(id));
+    if (foundIds.length === 0) {
+      return this.mergeBulkErrors(
+        { success: true, processed: 0, failed: 0 },
+        missing
+      );
+    }
 
-    const operations = ids.map((id) => ({
-      delete: { _index: TODO_INDEX_NAME, _id: id },
-    }));
+    // An item changed since it was read fails with a conflict
+    const deletion = await this.getDeletion();
+    const operations = foundIds.flatMap((id) => [
+      { update: this.toConditionalAction(id, existing.get(id)!) },
+      { doc: deletion },
+    ]);
+
+    const response = await this.write(() =>
+      client.bulk({
+        body: operations,
+        refresh: "wait_for",
+      })
+    );
 
-    const response = await client.bulk({
-      body: operations,
-      refresh: "wait_for",
+    const result = this.mergeBulkErrors(
+      this.parseBulkResponse(response.body, foundIds),
+      missing
+    );
+    const deletedIds = this.getSucceededIds(foundIds, result);
+    await this.historyService.recordChanges(
+      TodoHistoryAction.DELETE,
+      deletedIds.map((id) => ({
+        todoId: id,
+        before: existing.get(id)?.todo || { id },
+      }))
+    );
+    await this.notify([WebhookEvent.BULK_DELETED], {
+      todos: deletedIds
+        .map((id) => existing.get(id)?.todo)
+        .filter((todo): todo is TodoItem => !!todo)
+        .map((todo) => ({ ...todo, ...deletion })),
     });
 
-    const result = this.parseBulkResponse(response.body, ids);
     this.logger.info(
-      `Bulk deleted ${result.processed} TODO items, ${result.failed} failed`
+      `Moved ${result.processed} TODO items to the trash, ` +
+        `${result.failed} failed`
+    );
+
+    return result;
+  }
+
+  /**
+   * Delete items for good, along with their comments
+   * By default only items of the trash are purged. The webhooks heard of
+   * those when they were deleted, so only the others are reported.
+   */
+  public async purgeTodos(
+    ids: string[],
+    trash: TrashScope = "trash"
+  ): Promise<BulkOperationResult> {
+    if (!ids || ids.length === 0) {
+      return { success: true, processed: 0, failed: 0 };
+    }
+
+    const client = this.osService.getClient();
+    const existing = await this.getTodosByIds(ids, trash);
+    const missing = this.findMissingErrors(ids, existing);
+    const foundIds = ids.filter((id) => existing.has(id));
+    if (foundIds.length === 0) {
+      return this.mergeBulkErrors(
+        { success: true, processed: 0, failed: 0 },
+        missing
+      );
+    }
+
+    // An item restored or changed since it was read fails with a conflict
+    // and keeps its comments
+    const operations = foundIds.map((id) => ({
+      delete: this.toConditionalAction(id, existing.get(id)!),
+    }));
+
+    const response = await this.write(() =>
+      client.bulk({
+        body: operations,
+        refresh: "wait_for",
+      })
+    );
+
+    const result = this.mergeBulkErrors(
+      this.parseBulkResponse(response.body, foundIds),
+      missing
+    );
+    const purgedIds = this.getSucceededIds(foundIds, result);
+    // Comments have no meaning without their TODO item
+    await this.commentService.deleteCommentsForTodos(purgedIds);
+    // Keep a snapshot so the purged item can still be audited
+    await this.historyService.recordChanges(
+      TodoHistoryAction.PURGE,
+      purgedIds.map((id) => ({
+        todoId: id,
+        before: existing.get(id)?.todo || { id },
+      }))
+    );
+    const unreported = purgedIds
+      .map((id) => existing.get(id)?.todo)
+      .filter((todo): todo is TodoItem => !!todo && !isDeleted(todo));
+    if (unreported.length > 0) {
+      await this.notify([WebhookEvent.BULK_DELETED], { todos: unreported });
+    }
+
+    this.logger.info(
+      `Purged ${result.processed} TODO items, ${result.failed} failed`
     );
 
     return result;
@@ -405,17 +1550,25 @@ export class TodoService {
 
   public async bulkArchive(ids: string[]): Promise<BulkOperationResult> {
     const now = new Date().toISOString();
-    return this.bulkUpdate(ids, {
-      archived: true,
-      archivedAt: now,
-    });
+    return this.bulkUpdate(
+      ids,
+      {
+        archived: true,
+        archivedAt: now,
+      },
+      TodoHistoryAction.ARCHIVE
+    );
   }
 
   public async bulkRestore(ids: string[]): Promise<BulkOperationResult> {
-    return this.bulkUpdate(ids, {
-      archived: false,
-      archivedAt: undefined,
-    });
+    return this.bulkUpdate(
+      ids,
+      {
+        archived: false,
+        archivedAt: null,
+      },
+      TodoHistoryAction.RESTORE
+    );
   }
 
   public async bulkUpdatePriority(
@@ -425,11 +1578,117 @@ export class TodoService {
     return this.bulkUpdate(ids, { priority });
   }
 
+  /**
+   * Assign several items to a user of the directory, by id and display name
+   */
   public async bulkAssign(
     ids: string[],
-    assignee: string | undefined
+    assignee: string | undefined,
+    assigneeId?: string
   ): Promise<BulkOperationResult> {
-    return this.bulkUpdate(ids, { assignee });
+    return this.bulkUpdate(ids, { assignee, assigneeId });
+  }
+
+  /**
+   * Fetch the current version of several TODO items, keyed by id
+   * Missing ids and items of other projects or out of the trash scope are
+   * left out of the map.
+   */
+  private async getTodosByIds(
+    ids: string[],
+    trash: TrashScope = "active"
+  ): Promise<Map<string, StoredTodo>> {
+    const client = this.osService.getClient();
+
+    const response = await client.mget({
+      index: TODO_INDEX_NAME,
+      body: { ids },
+    });
+
+    const todos = new Map<string, StoredTodo>();
+    response.body.docs.forEach((doc: any) => {
+      if (doc.found && this.inScope(doc._source, trash)) {
+        todos.set(doc._id, {
+          todo: doc._source as TodoItem,
+          seqNo: doc._seq_no,
+          primaryTerm: doc._primary_term,
+        });
+      }
+    });
+
+    return todos;
+  }
+
+  // Bulk action on an item that only applies if it is still as it was read
+  private toConditionalAction(id: string, stored: StoredTodo) {
+    return {
+      _index: TODO_INDEX_NAME,
+      _id: id,
+      if_seq_no: stored.seqNo,
+      if_primary_term: stored.primaryTerm,
+    };
+  }
+
+  private findMissingErrors(
+    ids: string[],
+    existing: Map<string, StoredTodo>
+  ): Array<{ id: string; error: string }> {
+    return ids
+      .filter((id) => !existing.has(id))
+      .map((id) => ({ id, error: `TODO item not found: ${id}` }));
+  }
+
+  /**
+   * Check a bulk change against the workflow for every item
+   */
+  private async findTransitionErrors(
+    existing: Map<string, StoredTodo>,
+    updates: UpdateTodoRequest | SeriesUpdateRequest
+  ): Promise<Array<{ id: string; error: string }>> {
+    if (!("status" in updates) || updates.status === undefined) {
+      return [];
+    }
+
+    const errors: Array<{ id: string; error: string }> = [];
+    for (const [id, { todo }] of existing) {
+      try {
+        await this.workflowService.assertTransition(todo, {
+          ...todo,
+          ...updates,
+        });
+      } catch (error: any) {
+        if (!(error instanceof WorkflowValidationError)) {
+          throw error;
+        }
+        errors.push({ id, error: error.message });
+      }
+    }
+    return errors;
+  }
+
+  private mergeBulkErrors(
+    result: BulkOperationResult,
+    errors: Array<{ id: string; error: string }>
+  ): BulkOperationResult {
+    if (errors.length === 0) {
+      return result;
+    }
+
+    const allErrors = [...(result.errors || []), ...errors];
+    return {
+      success: false,
+      processed: result.processed,
+      failed: result.failed + errors.length,
+      errors: allErrors,
+    };
+  }
+
+  private getSucceededIds(
+    ids: string[],
+    result: BulkOperationResult
+  ): string[] {
+    const failedIds = new Set((result.errors || []).map((e) => e.id));
+    return ids.filter((id) => !failedIds.has(id));
   }
 
   private parseBulkResponse(response: any, ids: string[]): BulkOperationResult {
@@ -457,15 +1716,549 @@ export class TodoService {
     };
   }
 
+  // ============================================
+  // Recurring Series
+  // ============================================
+
+  /**
+   * Get all occurrences of a series, oldest first
+   */
+  public async getSeries(seriesId: string): Promise<TodoItem[]> {
+    const series = (await this.recurrenceService.getSeries(seriesId)).filter(
+      (todo) => this.inScope(todo)
+    );
+    if (series.length === 0) {
+      throw new Error(`Series not found: ${seriesId}`);
+    }
+    return series;
+  }
+
+  /**
+   * Apply changes to every open occurrence of a series
+   * Completed and archived occurrences keep their values. A new recurrence
+   * rule is also stored on the latest occurrence, which the next one is
+   * generated from.
+   */
+  public async updateSeries(
+    seriesId: string,
+    changes: SeriesUpdateRequest
+  ): Promise<BulkOperationResult> {
+    const series = await this.getSeries(seriesId);
+    const closed = await this.getClosedStatusIds();
+    const latest = series[series.length - 1];
+
+    // Partial updates merge objects, so a removed end date is cleared
+    const updates: SeriesUpdateRequest = changes.recurrence
+      ? {
+          ...changes,
+          recurrence: {
+            ...changes.recurrence,
+            endDate: changes.recurrence.endDate || null,
+          },
+        }
+      : changes;
+
+    const openIds = series
+      .filter((todo) => !todo.archived && !closed.includes(todo.status))
+      .map((todo) => todo.id);
+    const result = await this.bulkUpdate(
+      openIds,
+      updates,
+      TodoHistoryAction.SERIES_UPDATE
+    );
+
+    if (!updates.recurrence || openIds.includes(latest.id)) {
+      return result;
+    }
+
+    const ruleResult = await this.bulkUpdate(
+      [latest.id],
+      { recurrence: updates.recurrence },
+      TodoHistoryAction.SERIES_UPDATE
+    );
+    const errors = [...(result.errors || []), ...(ruleResult.errors || [])];
+    return {
+      success: result.success && ruleResult.success,
+      processed: result.processed + ruleResult.processed,
+      failed: result.failed + ruleResult.failed,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * Create the next occurrence of every series whose next period has started
+   * Runs periodically from the plugin. Each run advances a series by at most
+   * one occurrence. Returns the number of occurrences created.
+   */
+  public async generateDueOccurrences(now = new Date()): Promise<number> {
+    const due = await this.recurrenceService.findDueOccurrences(now);
+
+    let created = 0;
+    for (const todo of due) {
+      if (await this.continueSeries(todo)) {
+        created++;
+      }
+    }
+
+    if (created > 0) {
+      this.logger.info(`Created ${created} recurring TODO occurrences`);
+    }
+    return created;
+  }
+
+  /**
+   * Filters limiting a query to the items of the scope, by default those
+   * out of the trash
+   */
+  private scopeFilter(
+    trash: TrashScope = "active"
+  ): Array<Record<string, any>> {
+    return [
+      ...(this.scope ? [buildProjectQuery(this.scope.projectIds)] : []),
+      ...(trash === "all" ? [] : [buildTrashQuery(trash === "trash")]),
+    ];
+  }
+
+  private scoped(query: Record<string, any>): Record<string, any> {
+    return { bool: { filter: [query, ...this.scopeFilter()] } };
+  }
+
+  private inScope(
+    todo: Pick<TodoItem, "projectId" | "deletedAt">,
+    trash: TrashScope = "active"
+  ): boolean {
+    return (
+      (!this.scope ||
+        this.scope.projectIds.includes(getProjectId(todo))) &&
+      (trash === "all" || isDeleted(todo) === (trash === "trash"))
+    );
+  }
+
+  // Moving to the trash records when and by whom
+  private async getDeletion(): Promise<
+    Pick<TodoItem, "deletedAt" | "deletedBy">
+  > {
+    return {
+      deletedAt: new Date().toISOString(),
+      deletedBy: await this.historyService.getActor(),
+    };
+  }
+
+  // New items without a project go to the project of the scope
+  private inProject<T extends Pick<TodoItem, "projectId">>(todo: T): T {
+    return this.scope && !todo.projectId
+      ? { ...todo, projectId: this.scope.project.id }
+      : todo;
+  }
+
+  /**
+   * Set the SLA deadlines and progress and the users of an item being
+   * written
+   */
+  private async prepareWrite<T extends Omit<TodoItem, "id">>(
+    todo: T,
+    previous?: TodoItem
+  ): Promise<T> {
+    const [policy, workflow, closed, actor] = await Promise.all([
+      this.slaService.getPolicy(),
+      this.workflowService.getWorkflow(),
+      this.getClosedStatusIds(),
+      this.historyService.getActor(),
+    ]);
+    return applyAuthors(
+      applySla(todo, previous, policy, workflow),
+      previous,
+      actor,
+      closed
+    );
+  }
+
+  private async getClosedStatusIds(): Promise<string[]> {
+    const workflow = await this.workflowService.getWorkflow();
+    return getStatusIdsByCategory(
+      workflow,
+      WorkflowStatusCategory.DONE,
+      WorkflowStatusCategory.FAILED
+    );
+  }
+
+  /**
+   * Whether a write moved an occurrence of a series into a done or failed
+   * status
+   */
+  private async closesOccurrence(
+    before: TodoItem,
+    after: TodoItem
+  ): Promise<boolean> {
+    if (!after.seriesId || before.status === after.status) {
+      return false;
+    }
+    const closed = await this.getClosedStatusIds();
+    return closed.includes(after.status) && !closed.includes(before.status);
+  }
+
+  /**
+   * Send the events of a write to the webhooks subscribed to them
+   */
+  private async notify(
+    events: WebhookEvent[],
+    data: WebhookEventData
+  ): Promise<void> {
+    const actor = await this.historyService.getActor();
+    for (const event of events) {
+      await this.webhookService.emit(event, data, actor);
+    }
+  }
+
+  /**
+   * Run the automation rules of the triggers the writes raised
+   */
+  private async runAutomations(changes: AutomationChange[]): Promise<void> {
+    if (!this.automate || changes.length === 0) {
+      return;
+    }
+    const actor = await this.historyService.getActor();
+    await this.automationService.run(
+      changes,
+      this.getAutomationExecutor(),
+      actor
+    );
+  }
+
+  // The actions of the rules are written on all items without running the
+  // rules again, so rules cannot trigger each other in a loop
+  private getAutomationExecutor(): AutomationExecutor {
+    return new TodoService(this.osService, this.logger, undefined, false);
+  }
+
+  /**
+   * Run the due date automation rules on the open items past their due date
+   * Returns the number of executions.
+   */
+  public async runDueDateAutomations(now = new Date()): Promise<number> {
+    const actor = await this.historyService.getActor();
+    return this.automationService.runDueDateRules(
+      this.getAutomationExecutor(),
+      actor,
+      await this.getClosedStatusIds(),
+      now
+    );
+  }
+
+  /**
+   * Create the occurrence that follows the given one
+   * Occurrence ids are derived from the series, so nothing is written when
+   * the next occurrence already exists. Failures are logged and never fail
+   * the write that completed the previous occurrence.
+   */
+  private async continueSeries(previous: TodoItem): Promise<TodoItem | null> {
+    const next = buildNextOccurrence(previous);
+    if (!next) {
+      return null;
+    }
+
+    try {
+      const client = this.osService.getClient();
+      const now = new Date().toISOString();
+      const workflow = await this.workflowService.getWorkflow();
+      const status = workflow.initialStatus;
+      const maxPosition = await this.getMaxPositionInStatus(status);
+
+      const todo = await this.prepareWrite<TodoItem>({
+        ...next,
+        status,
+        createdAt: now,
+        updatedAt: now,
+        archived: false,
+        position: maxPosition + 1000,
+        version: 1,
+      });
+
+      await this.write(() =>
+        client.index({
+          index: TODO_INDEX_NAME,
+          id: todo.id,
+          body: todo,
+          op_type: "create",
+          refresh: "wait_for",
+        })
+      );
+
+      await this.historyService.recordChanges(TodoHistoryAction.CREATE, [
+        { todoId: todo.id, after: todo },
+      ]);
+      await this.notify([WebhookEvent.CREATED], { todo });
+      await this.runAutomations([{ after: todo }]);
+
+      this.logger.info(
+        `Created occurrence ${todo.occurrenceIndex} of series ${todo.seriesId}`
+      );
+      return todo;
+    } catch (error: any) {
+      if (error.statusCode !== 409) {
+        this.logger.error(
+          `Failed to continue series ${previous.seriesId}`,
+          error
+        );
+      }
+      return null;
+    }
+  }
+
+  // ============================================
+  // Templates
+  // ============================================
+
+  /**
+   * Create all tasks of a template in the initial status
+   * The tasks share a batch tag so the set can be found and bulk edited.
+   */
+  public async instantiateTemplate(
+    template: TodoTemplate,
+    options: InstantiateTemplateRequest = {}
+  ): Promise<TemplateInstantiationResult> {
+    const workflow = await this.workflowService.getWorkflow();
+    const status = workflow.initialStatus;
+    const startDate = options.startDate || new Date().toISOString();
+    const batchTag = createBatchTag(template, startDate);
+    const maxPosition = await this.getMaxPositionInStatus(status);
+
+    const todos = buildTemplateTodos(template, {
+      status,
+      startDate,
+      batchTag,
+      firstPosition: maxPosition + 1000,
+      assignee: options.assignee,
+    });
+
+    // The initial status may require fields the tasks do not have
+    for (const todo of todos) {
+      await this.workflowService.assertTransition(undefined, todo);
+    }
+
+    const result = await this.bulkCreate(todos);
+    this.logger.info(
+      `Instantiated template ${template.id} as ${batchTag}: ` +
+        `${result.processed} created, ${result.failed} failed`
+    );
+
+    return {
+      batchTag,
+      processed: result.processed,
+      failed: result.failed,
+    };
+  }
+
+  // ============================================
+  // Import
+  // ============================================
+
+  /**
+   * Validate imported rows without writing anything
+   * In upsert mode, rows whose externalKey matches an item update it.
+   */
+  public async previewImport(
+    rows: Array<Record<string, unknown>>,
+    upsert: boolean,
+    validateRow: ImportRowValidator
+  ): Promise<TodoImportRowResult[]> {
+    const checked = await this.checkImportRows(rows, upsert, validateRow);
+    return checked.map(({ row, action, errors }) => ({ row, action, errors }));
+  }
+
+  /**
+   * Create and update the items of the valid rows
+   * New items are written in batches; rows with errors are skipped and
+   * reported together with the writes that failed.
+   */
+  public async importTodos(
+    rows: Array<Record<string, unknown>>,
+    upsert: boolean,
+    validateRow: ImportRowValidator
+  ): Promise<TodoImportResult> {
+    const checked = await this.checkImportRows(rows, upsert, validateRow);
+    const errors = checked.flatMap(({ row, errors: rowErrors }) =>
+      rowErrors.map((error) => ({ row, error }))
+    );
+    const valid = checked.filter((item) => item.errors.length === 0);
+    let created = 0;
+    let updated = 0;
+
+    // New items go to the end of their status column
+    const positions = new Map<string, number>();
+    const toCreate = valid.filter(
+      (item) => item.action === TodoImportAction.CREATE
+    );
+    for (let start = 0; start < toCreate.length; start += IMPORT_BATCH_SIZE) {
+      const batch = toCreate.slice(start, start + IMPORT_BATCH_SIZE);
+      const rowById = new Map<string, number>();
+      const todos: TodoItem[] = [];
+      for (const { row, todo } of batch) {
+        if (!todo) {
+          continue;
+        }
+        const last =
+          positions.get(todo.status) ??
+          (await this.getMaxPositionInStatus(todo.status));
+        positions.set(todo.status, last + 1000);
+        rowById.set(todo.id, row);
+        todos.push({ ...todo, position: last + 1000 });
+      }
+
+      const result = await this.bulkCreate(todos);
+      created += result.processed;
+      (result.errors || []).forEach(({ id, error }) =>
+        errors.push({ row: rowById.get(id) || 0, error })
+      );
+    }
+
+    for (const { row, existingId, changes } of valid) {
+      if (!existingId || !changes) {
+        continue;
+      }
+      try {
+        await this.updateTodo(existingId, changes);
+        updated++;
+      } catch (error: any) {
+        errors.push({ row, error: error.message });
+      }
+    }
+
+    this.logger.info(
+      `Imported ${rows.length} rows: ${created} created, ${updated} updated`
+    );
+
+    return {
+      created,
+      updated,
+      failed: checked.length - created - updated,
+      errors: errors.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  /**
+   * Validate each row and decide whether it creates or updates an item
+   */
+  private async checkImportRows(
+    rows: Array<Record<string, unknown>>,
+    upsert: boolean,
+    validateRow: ImportRowValidator
+  ): Promise<CheckedImportRow[]> {
+    const workflow = await this.workflowService.getWorkflow();
+    const now = new Date().toISOString();
+    const priority =
+      this.scope?.project.defaults.priority || TodoPriority.MEDIUM;
+    const existing = upsert
+      ? await this.getTodosByExternalKey(
+          rows
+            .map((values) => values.externalKey)
+            .filter((key): key is string => typeof key === "string")
+        )
+      : new Map<string, TodoItem>();
+    const seenKeys = new Set<string>();
+    const checked: CheckedImportRow[] = [];
+
+    for (let index = 0; index < rows.length; index++) {
+      const row = index + 1;
+      let data: CreateTodoRequest;
+      try {
+        // Rows without a priority get the default one of the project
+        data = validateRow({ priority, ...rows[index] });
+      } catch (error: any) {
+        checked.push({
+          row,
+          action: TodoImportAction.CREATE,
+          errors: [error.message],
+        });
+        continue;
+      }
+
+      const errors: string[] = [];
+      const key = data.externalKey;
+      if (key && seenKeys.has(key)) {
+        errors.push(`Duplicate externalKey: ${key}`);
+      }
+      if (key) {
+        seenKeys.add(key);
+      }
+
+      const match = key ? existing.get(key) : undefined;
+      const changes = match
+        ? getImportedChanges(data, Object.keys(rows[index]))
+        : undefined;
+      const todo = match
+        ? undefined
+        : buildImportedTodo(
+            this.scope ? applyProjectDefaults(data, this.scope.project) : data,
+            workflow.initialStatus,
+            now
+          );
+
+      try {
+        await this.workflowService.assertTransition(match, {
+          ...match,
+          ...changes,
+          ...todo,
+        });
+      } catch (error: any) {
+        if (!(error instanceof WorkflowValidationError)) {
+          throw error;
+        }
+        errors.push(error.message);
+      }
+
+      checked.push({
+        row,
+        action: match ? TodoImportAction.UPDATE : TodoImportAction.CREATE,
+        errors,
+        todo,
+        existingId: match?.id,
+        changes,
+      });
+    }
+
+    return checked;
+  }
+
+  /**
+   * Find the items imported before under the given keys
+   */
+  private async getTodosByExternalKey(
+    keys: string[]
+  ): Promise<Map<string, TodoItem>> {
+    const todos = new Map<string, TodoItem>();
+    if (keys.length === 0) {
+      return todos;
+    }
+
+    const client = this.osService.getClient();
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      body: {
+        query: this.scoped({ terms: { externalKey: keys } }),
+        size: keys.length,
+      },
+    });
+
+    response.body.hits.hits.forEach((hit: any) => {
+      const todo = hit._source as TodoItem;
+      if (todo.externalKey && !todos.has(todo.externalKey)) {
+        todos.set(todo.externalKey, todo);
+      }
+    });
+    return todos;
+  }
+
   // ============================================
   // Seed / Bulk Create (for testing)
   // ============================================
 
   /**
-   * Bulk create multiple TODOs (used for seeding test data)
+   * Bulk create multiple TODOs (used for seeding test data and imports)
+   * Items without an id get a new one.
    */
   public async bulkCreate(
-    todos: Omit<TodoItem, "id">[]
+    todos: Array<Omit<TodoItem, "id"> & { id?: string }>
   ): Promise<BulkOperationResult> {
     if (!todos || todos.length === 0) {
       return { success: true, processed: 0, failed: 0 };
@@ -473,19 +2266,40 @@ export class TodoService {
 
     const client = this.osService.getClient();
     const ids: string[] = [];
+    const prepared = await Promise.all(
+      todos.map((todo) => this.prepareWrite(this.inProject(todo)))
+    );
 
-    const operations = todos.flatMap((todo) => {
-      const id = uuidv4();
+    const operations = prepared.flatMap((todo) => {
+      const id = todo.id || uuidv4();
       ids.push(id);
-      return [{ index: { _index: TODO_INDEX_NAME, _id: id } }, { ...todo, id }];
+      return [
+        { index: { _index: TODO_INDEX_NAME, _id: id } },
+        { ...todo, id, version: 1 },
+      ];
     });
 
-    const response = await client.bulk({
-      body: operations,
-      refresh: "wait_for",
-    });
+    const response = await this.write(() =>
+      client.bulk({
+        body: operations,
+        refresh: "wait_for",
+      })
+    );
 
     const result = this.parseBulkResponse(response.body, ids);
+    const created = new Set(this.getSucceededIds(ids, result));
+    const changes = prepared
+      .map((todo, index) => ({
+        todoId: ids[index],
+        after: { ...todo, id: ids[index] },
+      }))
+      .filter((change) => created.has(change.todoId));
+    await this.historyService.recordChanges(TodoHistoryAction.CREATE, changes);
+    await this.notify([WebhookEvent.BULK_CREATED], {
+      todos: changes.map((change) => change.after),
+    });
+    await this.runAutomations(changes);
+
     this.logger.info(
       `Bulk created ${result.processed} TODO items, ${result.failed} failed`
     );
@@ -494,22 +2308,18 @@ export class TodoService {
   }
 
   /**
-   * Delete all TODOs (for testing cleanup)
+   * Move all TODOs to the trash (for testing cleanup)
+   * With a scope, only the items of its projects are deleted. Items go one
+   * batch at a time, so they are recorded like any other delete.
    */
   public async deleteAll(): Promise<{ deleted: number }> {
-    const client = this.osService.getClient();
-
-    const response = await client.deleteByQuery({
-      index: TODO_INDEX_NAME,
-      body: {
-        query: { match_all: {} },
-      },
-      refresh: true,
-    });
-
-    const deleted = response.body.deleted || 0;
-    this.logger.info(`Deleted all ${deleted} TODO items`);
+    let deleted = 0;
+    for await (const batch of this.scrollTodos({})) {
+      const result = await this.bulkDelete(batch.map((todo) => todo.id));
+      deleted += result.processed;
+    }
 
+    this.logger.info(`Moved ${deleted} TODO items to the trash`);
     return { deleted };
   }
 
@@ -519,18 +2329,29 @@ export class TodoService {
 
   public async getStatistics(): Promise<TodoStatistics> {
     const client = this.osService.getClient();
+    const workflow = await this.workflowService.getWorkflow();
+
+    // Custom statuses are counted through their workflow category
+    const doneStatuses = getStatusIdsByCategory(
+      workflow,
+      WorkflowStatusCategory.DONE
+    );
+    const openStatuses = getStatusIdsByCategory(
+      workflow,
+      WorkflowStatusCategory.TODO,
+      WorkflowStatusCategory.ACTIVE
+    );
 
     const response = await client.search({
       index: TODO_INDEX_NAME,
       body: {
         size: 0,
         // Only include non-archived items in statistics
-        query: {
-          term: { archived: false },
-        },
+        query: this.scoped({ term: { archived: false } }),
         aggs: {
+          // Workflows may define more statuses than the default 10 buckets
           by_status: {
-            terms: { field: "status" },
+            terms: { field: "status", size: 50 },
           },
           by_priority: {
             terms: { field: "priority" },
@@ -539,14 +2360,25 @@ export class TodoService {
             terms: { field: "complianceStandards" },
           },
           completed_items: {
-            filter: { term: { status: "completed_success" } },
+            filter: { terms: { status: doneStatuses } },
+          },
+          sla_states: {
+            filters: {
+              filters: Object.values(SlaState).reduce(
+                (filters, state) => ({
+                  ...filters,
+                  [state]: buildSlaStateQuery(state),
+                }),
+                {}
+              ),
+            },
           },
           overdue_items: {
             filter: {
               bool: {
                 must: [
                   { range: { dueDate: { lt: "now" } } },
-                  { terms: { status: ["planned", "in_progress"] } },
+                  { terms: { status: openStatuses } },
                 ],
               },
             },
@@ -568,9 +2400,82 @@ export class TodoService {
       completionRate:
         total > 0 ? (aggs.completed_items.doc_count / total) * 100 : 0,
       overdueCount: aggs.overdue_items.doc_count,
+      sla: Object.values(SlaState).reduce(
+        (counts, state) => ({
+          ...counts,
+          [state]: aggs.sla_states?.buckets?.[state]?.doc_count || 0,
+        }),
+        {} as Record<SlaState, number>
+      ),
     };
   }
 
+  /**
+   * Open and completed task counts of every control in the catalog
+   * A control stays open while any of its tasks is outside the done
+   * statuses. Archived items are not counted.
+   */
+  public async getCoverage(): Promise<StandardCoverage[]> {
+    const client = this.osService.getClient();
+    const workflow = await this.workflowService.getWorkflow();
+    const doneStatuses = getStatusIdsByCategory(
+      workflow,
+      WorkflowStatusCategory.DONE
+    );
+
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      body: {
+        size: 0,
+        query: this.scoped({ term: { archived: false } }),
+        aggs: {
+          by_control: {
+            terms: { field: "controls", size: CONTROL_COUNT },
+            aggs: {
+              completed: { filter: { terms: { status: doneStatuses } } },
+            },
+          },
+        },
+      },
+    });
+
+    const counts = new Map<string, { total: number; completed: number }>();
+    (response.body.aggregations.by_control?.buckets || []).forEach(
+      (bucket: any) => {
+        counts.set(bucket.key, {
+          total: bucket.doc_count,
+          completed: bucket.completed.doc_count,
+        });
+      }
+    );
+
+    return Object.values(ComplianceStandard).map((standard) => {
+      const controls: ControlCoverage[] = CONTROL_CATALOG[standard].map(
+        (control) => {
+          const { total = 0, completed = 0 } = counts.get(control.key) || {};
+          const openCount = total - completed;
+          let status = ControlCoverageStatus.UNCOVERED;
+          if (openCount > 0) {
+            status = ControlCoverageStatus.OPEN;
+          } else if (completed > 0) {
+            status = ControlCoverageStatus.COMPLETED;
+          }
+          return { control, status, openCount, completedCount: completed };
+        }
+      );
+      const countStatus = (status: ControlCoverageStatus) =>
+        controls.filter((coverage) => coverage.status === status).length;
+
+      return {
+        standard,
+        controls,
+        openControls: countStatus(ControlCoverageStatus.OPEN),
+        completedControls: countStatus(ControlCoverageStatus.COMPLETED),
+        uncoveredControls: countStatus(ControlCoverageStatus.UNCOVERED),
+      };
+    });
+  }
+
   private aggregationToRecord(agg: any): Record<string, number> {
     const result: Record<string, number> = {};
     if (agg && agg.buckets) {
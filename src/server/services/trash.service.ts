@@ -0,0 +1,14 @@
+import { TodoItem } from "../../common/types";
+
+/**
+ * Query of the items in the trash, or without `inTrash` of the items in use
+ * Deleted items stay in the index with `deletedAt` set until they are
+ * restored or purged, so every read of the items in use leaves them out.
+ */
+export const buildTrashQuery = (inTrash = true) =>
+  inTrash
+    ? { exists: { field: "deletedAt" } }
+    : { bool: { must_not: [{ exists: { field: "deletedAt" } }] } };
+
+export const isDeleted = (todo: Pick<TodoItem, "deletedAt">) =>
+  !!todo.deletedAt;
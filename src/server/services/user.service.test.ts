@@ -0,0 +1,116 @@
+/**
+ * Tests for UserService - Directory of the users items are assigned to
+ */
+import { UserService, filterUsers, toTodoUser } from './user.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import { TodoUser } from '../../common/types';
+
+// Mock OpenSearch client
+const mockClient = {
+  transport: {
+    request: jest.fn(),
+  },
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const fallbackUsers: TodoUser[] = [
+  { id: 'grace', displayName: 'Grace Lee', email: 'grace@example.com' },
+];
+
+// Answers the security API paths the service calls
+const mockSecurityApi = (
+  internalUsers: Record<string, any> | Error,
+  username = 'alice'
+) => {
+  mockClient.transport.request.mockImplementation(({ path }) => {
+    if (path === '/_plugins/_security/authinfo') {
+      return Promise.resolve({ body: { user_name: username } });
+    }
+    return internalUsers instanceof Error
+      ? Promise.reject(internalUsers)
+      : Promise.resolve({ body: internalUsers });
+  });
+};
+
+describe('UserService', () => {
+  let service: UserService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new UserService(mockOsService, mockLogger, fallbackUsers);
+  });
+
+  describe('toTodoUser', () => {
+    it('should read the display name from the user attributes', () => {
+      expect(
+        toTodoUser('bob', {
+          attributes: { full_name: 'Bob Smith', email: 'bob@example.com' },
+        })
+      ).toEqual({
+        id: 'bob',
+        displayName: 'Bob Smith',
+        email: 'bob@example.com',
+      });
+      expect(toTodoUser('bob').displayName).toBe('bob');
+    });
+  });
+
+  describe('filterUsers', () => {
+    it('should match the id, name or email and sort by name', () => {
+      const users = [
+        { id: 'zed', displayName: 'Zed Adams' },
+        { id: 'amy', displayName: 'Amy Zhou', email: 'amy@corp.com' },
+        { id: 'kim', displayName: 'Kim Park' },
+      ];
+
+      expect(filterUsers(users, 'Z').map((user) => user.id)).toEqual([
+        'amy',
+        'zed',
+      ]);
+      expect(filterUsers(users, 'corp')).toEqual([users[1]]);
+    });
+  });
+
+  describe('listUsers', () => {
+    it('should list the visible internal users', async () => {
+      mockSecurityApi({
+        alice: { attributes: { display_name: 'Alice Johnson' } },
+        kibanaserver: { hidden: true },
+        bob: {},
+      });
+
+      const users = await service.listUsers();
+
+      expect(users).toEqual([
+        { id: 'alice', displayName: 'Alice Johnson', email: undefined },
+        { id: 'bob', displayName: 'bob', email: undefined },
+      ]);
+    });
+
+    it('should fall back to the configured users and the current one', async () => {
+      mockSecurityApi(new Error('403 Forbidden'), 'carol');
+
+      const users = await service.listUsers();
+
+      expect(users.map((user) => user.id)).toEqual(['carol', 'grace']);
+    });
+
+    it('should not list the anonymous user', async () => {
+      mockSecurityApi(new Error('No security plugin'), '');
+
+      expect(await service.listUsers('lee')).toEqual(fallbackUsers);
+      expect(await service.listUsers('anonymous')).toEqual([]);
+    });
+  });
+});
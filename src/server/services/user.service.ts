@@ -0,0 +1,103 @@
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { AuthService, ANONYMOUS_USERNAME } from "./auth.service";
+import { TodoUser } from "../../common/types";
+
+// Upper bound for a single users request
+const MAX_USERS = 100;
+
+/**
+ * Directory entry of an internal user of the security plugin
+ * The display name and email come from the user attributes, if set.
+ */
+export const toTodoUser = (
+  username: string,
+  entry: Record<string, any> = {}
+): TodoUser => {
+  const attributes = entry.attributes || {};
+  return {
+    id: username,
+    displayName: attributes.display_name || attributes.full_name || username,
+    email: attributes.email,
+  };
+};
+
+/**
+ * Users whose id, name or email contain the search text, by display name
+ */
+export const filterUsers = (
+  users: TodoUser[],
+  search?: string
+): TodoUser[] => {
+  const text = search?.trim().toLowerCase();
+  return users
+    .filter(
+      (user) =>
+        !text ||
+        [user.id, user.displayName, user.email].some((value) =>
+          value?.toLowerCase().includes(text)
+        )
+    )
+    .sort((a, b) => a.displayName.localeCompare(b.displayName))
+    .slice(0, MAX_USERS);
+};
+
+export class UserService {
+  private readonly authService: AuthService;
+
+  /**
+   * `fallbackUsers` are listed when the internal users cannot be read
+   */
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger,
+    private readonly fallbackUsers: TodoUser[] = []
+  ) {
+    this.authService = new AuthService(osService, logger);
+  }
+
+  /**
+   * Users that can be assigned to items
+   * The current user is always listed, e.g. one signed in through an
+   * external identity provider that has no internal user.
+   */
+  public async listUsers(search?: string): Promise<TodoUser[]> {
+    const [internalUsers, currentUser] = await Promise.all([
+      this.getInternalUsers(),
+      this.authService.getCurrentUser(),
+    ]);
+    const users = new Map(
+      (internalUsers || this.fallbackUsers).map((user) => [user.id, user])
+    );
+
+    const { username } = currentUser;
+    if (username !== ANONYMOUS_USERNAME && !users.has(username)) {
+      users.set(username, toTodoUser(username));
+    }
+
+    return filterUsers(Array.from(users.values()), search);
+  }
+
+  /**
+   * Internal users of the security plugin, hidden ones left out
+   * Undefined when security is disabled or the user may not list them.
+   */
+  private async getInternalUsers(): Promise<TodoUser[] | undefined> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.transport.request({
+        method: "GET",
+        path: "/_plugins/_security/api/internalusers",
+      });
+      const body = response.body as Record<string, Record<string, any>>;
+
+      return Object.entries(body)
+        .filter(([, entry]) => !entry.hidden)
+        .map(([username, entry]) => toTodoUser(username, entry));
+    } catch (error) {
+      this.logger.debug(`Could not list internal users: ${error}`);
+      return undefined;
+    }
+  }
+}
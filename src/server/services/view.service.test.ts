@@ -0,0 +1,190 @@
+/**
+ * Tests for ViewService - Saved views
+ */
+import { ViewService, ViewAccessError } from './view.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  SavedViewVisibility,
+  SaveViewRequest,
+  TodoPriority,
+} from '../../common/types';
+import { TODO_VIEWS_INDEX_NAME } from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const notFound = () =>
+  Object.assign(new Error('Not found'), { statusCode: 404 });
+
+const request: SaveViewRequest = {
+  name: ' Critical HIPAA ',
+  visibility: SavedViewVisibility.SHARED,
+  viewType: 'table',
+  params: {
+    priority: [TodoPriority.CRITICAL],
+    sortField: 'dueDate',
+    sortOrder: 'asc',
+  },
+};
+
+const storedView = (overrides: Record<string, unknown> = {}) => ({
+  id: 'view-1',
+  name: 'Critical HIPAA',
+  owner: 'alice',
+  visibility: SavedViewVisibility.SHARED,
+  viewType: 'table',
+  params: request.params,
+  pinnedBy: ['bob'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('ViewService', () => {
+  let service: ViewService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ViewService(mockOsService, mockLogger);
+  });
+
+  describe('listViews', () => {
+    it('should list own and shared views for the user', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [{ _source: storedView() }] } },
+      });
+
+      const views = await service.listViews('bob');
+
+      const body = mockClient.search.mock.calls[0][0].body;
+      expect(body.query.bool.should).toEqual([
+        { term: { owner: 'bob' } },
+        { term: { visibility: 'shared' } },
+      ]);
+      expect(views).toHaveLength(1);
+      expect(views[0]).toMatchObject({ pinned: true, editable: false });
+      expect(views[0]).not.toHaveProperty('pinnedBy');
+    });
+  });
+
+  describe('createView', () => {
+    it('should store the view for its owner', async () => {
+      mockClient.index.mockResolvedValue({});
+
+      const view = await service.createView(request, 'alice');
+
+      expect(view).toMatchObject({
+        name: 'Critical HIPAA',
+        owner: 'alice',
+        pinned: false,
+        editable: true,
+      });
+      expect(mockClient.index).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: TODO_VIEWS_INDEX_NAME,
+          body: expect.objectContaining({ pinnedBy: [] }),
+        })
+      );
+    });
+  });
+
+  describe('getView', () => {
+    it('should hide private views of other users', async () => {
+      mockClient.get.mockResolvedValue({
+        body: {
+          _source: storedView({ visibility: SavedViewVisibility.PRIVATE }),
+        },
+      });
+
+      await expect(service.getView('view-1', 'bob')).rejects.toThrow(
+        'View not found: view-1'
+      );
+    });
+
+    it('should report missing views', async () => {
+      mockClient.get.mockRejectedValue(notFound());
+
+      await expect(service.getView('missing', 'bob')).rejects.toThrow(
+        'View not found: missing'
+      );
+    });
+  });
+
+  describe('updateView', () => {
+    it('should only let the owner change a view', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedView() } });
+
+      await expect(
+        service.updateView('view-1', request, 'bob')
+      ).rejects.toThrow(ViewAccessError);
+      await expect(service.deleteView('view-1', 'bob')).rejects.toThrow(
+        ViewAccessError
+      );
+      expect(mockClient.index).not.toHaveBeenCalled();
+      expect(mockClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('should keep the pins of a replaced view', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedView() } });
+      mockClient.index.mockResolvedValue({});
+
+      await service.updateView(
+        'view-1',
+        { ...request, visibility: SavedViewVisibility.PRIVATE },
+        'alice'
+      );
+
+      expect(mockClient.index.mock.calls[0][0].body).toMatchObject({
+        owner: 'alice',
+        visibility: 'private',
+        pinnedBy: ['bob'],
+      });
+    });
+  });
+
+  describe('setPinned', () => {
+    it('should pin a shared view for the user only', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedView() } });
+      mockClient.update.mockResolvedValue({});
+
+      const view = await service.setPinned('view-1', true, 'carol');
+
+      expect(view.pinned).toBe(true);
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: { doc: { pinnedBy: ['bob', 'carol'] } },
+        })
+      );
+    });
+
+    it('should unpin a view', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: storedView() } });
+      mockClient.update.mockResolvedValue({});
+
+      const view = await service.setPinned('view-1', false, 'bob');
+
+      expect(view.pinned).toBe(false);
+      expect(mockClient.update.mock.calls[0][0].body).toEqual({
+        doc: { pinnedBy: [] },
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  SavedView,
+  SavedViewVisibility,
+  SaveViewRequest,
+} from "../../common/types";
+import { TODO_VIEWS_INDEX_NAME } from "../../common/constants";
+
+// Upper bound for the views listed at once
+const MAX_VIEWS = 500;
+
+/**
+ * Thrown when a user changes a view they do not own
+ */
+export class ViewAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ViewAccessError";
+  }
+}
+
+// Stored form of a view; pins are kept per user
+interface StoredView extends Omit<SavedView, "pinned" | "editable"> {
+  pinnedBy: string[];
+}
+
+const isVisibleTo = (view: StoredView, username: string) =>
+  view.owner === username || view.visibility === SavedViewVisibility.SHARED;
+
+// View as seen by the given user
+const toSavedView = (view: StoredView, username: string): SavedView => {
+  const { pinnedBy, ...rest } = view;
+  return {
+    ...rest,
+    pinned: (pinnedBy || []).includes(username),
+    editable: view.owner === username,
+  };
+};
+
+export class ViewService {
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List the views of the user and the shared ones by name
+   */
+  public async listViews(username: string): Promise<SavedView[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_VIEWS_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: {
+          bool: {
+            should: [
+              { term: { owner: username } },
+              { term: { visibility: SavedViewVisibility.SHARED } },
+            ],
+            minimum_should_match: 1,
+          },
+        },
+        sort: [{ "name.keyword": { order: "asc", unmapped_type: "keyword" } }],
+        size: MAX_VIEWS,
+      },
+    });
+
+    return response.body.hits.hits.map((hit: any) =>
+      toSavedView(hit._source as StoredView, username)
+    );
+  }
+
+  public async getView(id: string, username: string): Promise<SavedView> {
+    return toSavedView(await this.loadView(id, username), username);
+  }
+
+  public async createView(
+    data: SaveViewRequest,
+    username: string
+  ): Promise<SavedView> {
+    const client = this.osService.getClient();
+    const now = new Date().toISOString();
+
+    const view: StoredView = {
+      id: uuidv4(),
+      name: data.name.trim(),
+      owner: username,
+      visibility: data.visibility,
+      viewType: data.viewType,
+      params: data.params,
+      pinnedBy: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await client.index({
+      index: TODO_VIEWS_INDEX_NAME,
+      id: view.id,
+      body: view,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Created view: ${view.id}`);
+    return toSavedView(view, username);
+  }
+
+  /**
+   * Replace the name, visibility and filters of a view of the user
+   */
+  public async updateView(
+    id: string,
+    data: SaveViewRequest,
+    username: string
+  ): Promise<SavedView> {
+    const existing = await this.loadView(id, username);
+    this.assertOwner(existing, username);
+    const client = this.osService.getClient();
+
+    const view: StoredView = {
+      ...existing,
+      name: data.name.trim(),
+      visibility: data.visibility,
+      viewType: data.viewType,
+      params: data.params,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await client.index({
+      index: TODO_VIEWS_INDEX_NAME,
+      id,
+      body: view,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Updated view: ${id}`);
+    return toSavedView(view, username);
+  }
+
+  public async deleteView(id: string, username: string): Promise<void> {
+    const existing = await this.loadView(id, username);
+    this.assertOwner(existing, username);
+    const client = this.osService.getClient();
+
+    await client.delete({
+      index: TODO_VIEWS_INDEX_NAME,
+      id,
+      refresh: "wait_for",
+    });
+
+    this.logger.info(`Deleted view: ${id}`);
+  }
+
+  /**
+   * Show or hide a view as a tab for the user
+   * Any view the user can see may be pinned, including shared ones.
+   */
+  public async setPinned(
+    id: string,
+    pinned: boolean,
+    username: string
+  ): Promise<SavedView> {
+    const existing = await this.loadView(id, username);
+    const client = this.osService.getClient();
+
+    const others = (existing.pinnedBy || []).filter(
+      (user) => user !== username
+    );
+    const view: StoredView = {
+      ...existing,
+      pinnedBy: pinned ? [...others, username] : others,
+    };
+
+    await client.update({
+      index: TODO_VIEWS_INDEX_NAME,
+      id,
+      body: { doc: { pinnedBy: view.pinnedBy } },
+      refresh: "wait_for",
+    });
+
+    return toSavedView(view, username);
+  }
+
+  // Private views of other users are reported as missing
+  private async loadView(id: string, username: string): Promise<StoredView> {
+    const client = this.osService.getClient();
+
+    let view: StoredView;
+    try {
+      const response = await client.get({
+        index: TODO_VIEWS_INDEX_NAME,
+        id,
+      });
+      view = response.body._source as StoredView;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(`View not found: ${id}`);
+      }
+      throw error;
+    }
+
+    if (!isVisibleTo(view, username)) {
+      throw new Error(`View not found: ${id}`);
+    }
+    return view;
+  }
+
+  private assertOwner(view: StoredView, username: string): void {
+    if (view.owner !== username) {
+      throw new ViewAccessError("Only the owner can change a view");
+    }
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Tests for WebhookService - Signed deliveries of TODO events
+ * Deliveries are sent to a local HTTP receiver.
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WebhookService,
+  getRetryDelay,
+  getUpdateEvents,
+  signPayload,
+} from './webhook.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  TodoHistoryAction,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../../common/types';
+import {
+  TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAY_MS,
+} from '../../common/constants';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const todo: TodoItem = {
+  id: 'todo-1',
+  title: 'Patch the firewall',
+  status: TodoStatus.PLANNED,
+  priority: TodoPriority.CRITICAL,
+  tags: [],
+  complianceStandards: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  archived: false,
+};
+
+const hits = (docs: unknown[]) => ({
+  body: { hits: { hits: docs.map((doc) => ({ _source: doc })) } },
+});
+
+// Last stored version of each delivery
+const storedDeliveries = (): WebhookDelivery[] => {
+  const byId = new Map<string, WebhookDelivery>();
+  mockClient.index.mock.calls
+    .map(([request]: any[]) => request)
+    .filter((request) => request.index === TODO_WEBHOOK_DELIVERIES_INDEX_NAME)
+    .forEach((request) => byId.set(request.id, request.body));
+  return Array.from(byId.values());
+};
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let server: http.Server;
+  let received: ReceivedRequest[];
+  let answerStatus: number;
+  let url: string;
+
+  const webhook = (overrides: Record<string, unknown> = {}) => ({
+    id: 'hook-1',
+    name: 'SOAR',
+    url,
+    events: [WebhookEvent.STATUS_CHANGED],
+    enabled: true,
+    secret: 's3cret',
+    createdBy: 'alice',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = answerStatus;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received = [];
+    answerStatus = 200;
+    service = new WebhookService(mockOsService, mockLogger);
+    mockClient.index.mockResolvedValue({});
+    mockClient.search.mockResolvedValue(hits([webhook()]));
+    mockClient.get.mockResolvedValue({ body: { _source: webhook() } });
+  });
+
+  describe('getUpdateEvents', () => {
+    it('should add the events of a new status or assignee', () => {
+      expect(
+        getUpdateEvents(TodoHistoryAction.UPDATE, todo, {
+          ...todo,
+          status: TodoStatus.BLOCKED,
+        })
+      ).toEqual([WebhookEvent.UPDATED, WebhookEvent.STATUS_CHANGED]);
+      expect(
+        getUpdateEvents(TodoHistoryAction.ARCHIVE, todo, {
+          ...todo,
+          assignee: 'Bob',
+          archived: true,
+        })
+      ).toEqual([WebhookEvent.ARCHIVED, WebhookEvent.ASSIGNED]);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after every attempt', () => {
+      expect(getRetryDelay(1)).toBe(WEBHOOK_RETRY_DELAY_MS);
+      expect(getRetryDelay(3)).toBe(4 * WEBHOOK_RETRY_DELAY_MS);
+    });
+  });
+
+  describe('listWebhooks', () => {
+    it('should not return the secrets', async () => {
+      const [listed] = await service.listWebhooks();
+
+      expect(listed.hasSecret).toBe(true);
+      expect(listed).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('emit', () => {
+    it('should send signed events to the subscribed webhooks', async () => {
+      mockClient.search.mockResolvedValue(
+        hits([
+          webhook(),
+          webhook({ id: 'hook-2', events: [WebhookEvent.CREATED] }),
+          webhook({ id: 'hook-3', enabled: false }),
+        ])
+      );
+
+      await service.emit(
+        WebhookEvent.STATUS_CHANGED,
+        { todo: { ...todo, status: TodoStatus.BLOCKED }, previous: todo },
+        'alice'
+      );
+      await service.waitForDeliveries();
+
+      expect(received).toHaveLength(1);
+      const [{ headers, body }] = received;
+      const payload = JSON.parse(body);
+      expect(payload).toMatchObject({
+        event: WebhookEvent.STATUS_CHANGED,
+        actor: 'alice',
+        todo: { status: TodoStatus.BLOCKED },
+        previous: { status: TodoStatus.PLANNED },
+      });
+      expect(headers['x-todo-event']).toBe(WebhookEvent.STATUS_CHANGED);
+      expect(headers['x-todo-delivery']).toBe(payload.id);
+      expect(headers['x-todo-signature']).toBe(signPayload(body, 's3cret'));
+
+      expect(storedDeliveries()).toEqual([
+        expect.objectContaining({
+          webhookId: 'hook-1',
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          attempts: 1,
+          responseStatus: 200,
+        }),
+      ]);
+    });
+
+    it('should never fail the write that raised the event', async () => {
+      mockClient.search.mockRejectedValue(new Error('Index closed'));
+
+      await expect(
+        service.emit(WebhookEvent.CREATED, { todo }, 'alice')
+      ).resolves.toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    it('should schedule a retry when the endpoint fails', async () => {
+      answerStatus = 503;
+
+      const delivery = await service.sendTestEvent('hook-1', 'alice');
+
+      expect(delivery).toMatchObject({
+        event: WebhookEvent.PING,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 1,
+        responseStatus: 503,
+        error: 'Endpoint answered with HTTP 503',
+      });
+      expect(
+        Date.parse(delivery.nextAttemptAt!) - Date.parse(delivery.lastAttemptAt!)
+      ).toBe(WEBHOOK_RETRY_DELAY_MS);
+    });
+
+    it('should send the retries that are due', async () => {
+      answerStatus = 503;
+      const failed = await service.sendTestEvent('hook-1', 'alice');
+      answerStatus = 204;
+      mockClient.search.mockImplementation(({ index }) =>
+        Promise.resolve(
+          hits(
+            index === TODO_WEBHOOK_DELIVERIES_INDEX_NAME ? [failed] : [webhook()]
+          )
+        )
+      );
+
+      const attempted = await service.deliverDue();
+
+      expect(attempted).toBe(1);
+      expect(received).toHaveLength(2);
+      expect(received[1].body).toBe(received[0].body);
+      expect(storedDeliveries()[0]).toMatchObject({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 2,
+        responseStatus: 204,
+      });
+      expect(storedDeliveries()[0].nextAttemptAt).toBeUndefined();
+    });
+
+    it('should give up after the last attempt', async () => {
+      answerStatus = 500;
+      const pending = await service.sendTestEvent('hook-1', 'alice');
+      mockClient.search.mockImplementation(({ index }) =>
+        Promise.resolve(
+          hits(
+            index === TODO_WEBHOOK_DELIVERIES_INDEX_NAME
+              ? [{ ...pending, attempts: WEBHOOK_MAX_ATTEMPTS - 1 }]
+              : [webhook()]
+          )
+        )
+      );
+
+      await service.deliverDue();
+
+      expect(storedDeliveries()[0]).toMatchObject({
+        status: WebhookDeliveryStatus.FAILED,
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+      });
+    });
+
+    it('should fail deliveries of deleted webhooks without sending', async () => {
+      answerStatus = 500;
+      const pending = await service.sendTestEvent('hook-1', 'alice');
+      mockClient.search.mockImplementation(({ index }) =>
+        Promise.resolve(
+          hits(index === TODO_WEBHOOK_DELIVERIES_INDEX_NAME ? [pending] : [])
+        )
+      );
+
+      await service.deliverDue();
+
+      expect(received).toHaveLength(1);
+      expect(storedDeliveries()[0]).toMatchObject({
+        status: WebhookDeliveryStatus.FAILED,
+        error: 'Webhook was deleted',
+      });
+    });
+  });
+
+  describe('updateWebhook', () => {
+    it('should keep the secret unless a new one is sent', async () => {
+      const data = {
+        name: 'SOAR',
+        url,
+        events: [WebhookEvent.CREATED],
+        enabled: true,
+      };
+
+      await service.updateWebhook('hook-1', data);
+      expect(mockClient.index.mock.calls[0][0].body.secret).toBe('s3cret');
+
+      await service.updateWebhook('hook-1', { ...data, secret: '' });
+      expect(mockClient.index.mock.calls[1][0].body.secret).toBeUndefined();
+    });
+  });
+});
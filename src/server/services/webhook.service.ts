@@ -0,0 +1,487 @@
+import { createHmac } from "crypto";
+import * as http from "http";
+import * as https from "https";
+import { v4 as uuidv4 } from "uuid";
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import {
+  TodoItem,
+  TodoHistoryAction,
+  TodoWebhook,
+  SaveWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookPayload,
+} from "../../common/types";
+import {
+  TODO_WEBHOOKS_INDEX_NAME,
+  TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_DELAY_MS,
+  WEBHOOK_TIMEOUT_MS,
+} from "../../common/constants";
+
+// Upper bounds for the webhooks and the due retries read at once
+const MAX_WEBHOOKS = 100;
+const MAX_DUE_DELIVERIES = 100;
+
+// How long the webhooks read for one write are reused for the next ones
+const WEBHOOK_CACHE_MS = 10000;
+
+// Stored form of a webhook; the secret never leaves the server
+interface StoredWebhook extends Omit<TodoWebhook, "hasSecret"> {
+  secret?: string;
+}
+
+/**
+ * Items a write sends along with its event
+ */
+export type WebhookEventData = Pick<
+  WebhookPayload,
+  "todo" | "previous" | "todos"
+>;
+
+const toTodoWebhook = ({
+  secret,
+  ...webhook
+}: StoredWebhook): TodoWebhook => ({ ...webhook, hasSecret: !!secret });
+
+/**
+ * Value of the `X-Todo-Signature` header of a body
+ * Receivers compute the same HMAC over the raw body to verify it.
+ */
+export const signPayload = (body: string, secret: string): string =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+/**
+ * Delay before the next attempt after the given number of failed ones
+ * The delay doubles with every attempt: 1, 2, 4, 8 minutes and so on.
+ */
+export const getRetryDelay = (attempts: number): number =>
+  WEBHOOK_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+
+/**
+ * Events of a single item update
+ * Archiving raises `archived` instead of `updated`; a new status or
+ * assignee raises its own event as well.
+ */
+export const getUpdateEvents = (
+  action: TodoHistoryAction,
+  before: TodoItem,
+  after: TodoItem
+): WebhookEvent[] => {
+  const events = [
+    action === TodoHistoryAction.ARCHIVE
+      ? WebhookEvent.ARCHIVED
+      : WebhookEvent.UPDATED,
+  ];
+  if (before.status !== after.status) {
+    events.push(WebhookEvent.STATUS_CHANGED);
+  }
+  if (
+    before.assignee !== after.assignee ||
+    before.assigneeId !== after.assigneeId
+  ) {
+    events.push(WebhookEvent.ASSIGNED);
+  }
+  return events;
+};
+
+/**
+ * POST a JSON body and resolve with the HTTP status of the answer
+ * Rejects on network errors and when no answer came within the timeout.
+ */
+export const postJson = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs = WEBHOOK_TIMEOUT_MS
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const transport = target.protocol === "https:" ? https : http;
+    const request = transport.request(
+      target,
+      {
+        method: "POST",
+        timeout: timeoutMs,
+        headers: {
+          ...headers,
+          "Content-Type": "application/json",
+          "Content-Length": String(Buffer.byteLength(body)),
+        },
+      },
+      (response) => {
+        // The answer body is not used, but has to be read to free the socket
+        response.resume();
+        response.on("end", () => resolve(response.statusCode || 0));
+      }
+    );
+    request.on("timeout", () =>
+      request.destroy(new Error(`No answer within ${timeoutMs} ms`))
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+
+export class WebhookService {
+  private webhooks: Promise<StoredWebhook[]> | null = null;
+  private webhooksReadAt = 0;
+  private inFlight: Array<Promise<unknown>> = [];
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  public async listWebhooks(): Promise<TodoWebhook[]> {
+    return (await this.loadWebhooks()).map(toTodoWebhook);
+  }
+
+  public async createWebhook(
+    data: SaveWebhookRequest,
+    username: string
+  ): Promise<TodoWebhook> {
+    const now = new Date().toISOString();
+    const webhook: StoredWebhook = {
+      id: uuidv4(),
+      name: data.name.trim(),
+      url: data.url.trim(),
+      events: data.events,
+      enabled: data.enabled,
+      secret: data.secret || undefined,
+      createdBy: username,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveWebhook(webhook);
+    this.logger.info(`Created webhook: ${webhook.id}`);
+    return toTodoWebhook(webhook);
+  }
+
+  /**
+   * Replace the settings of a webhook
+   * The secret is kept unless the request sets one.
+   */
+  public async updateWebhook(
+    id: string,
+    data: SaveWebhookRequest
+  ): Promise<TodoWebhook> {
+    const existing = await this.getStoredWebhook(id);
+    const webhook: StoredWebhook = {
+      ...existing,
+      name: data.name.trim(),
+      url: data.url.trim(),
+      events: data.events,
+      enabled: data.enabled,
+      secret:
+        data.secret === undefined ? existing.secret : data.secret || undefined,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.saveWebhook(webhook);
+    this.logger.info(`Updated webhook: ${id}`);
+    return toTodoWebhook(webhook);
+  }
+
+  /**
+   * Delete a webhook
+   * Its deliveries stay in the log; pending retries fail on their next
+   * attempt.
+   */
+  public async deleteWebhook(id: string): Promise<void> {
+    await this.getStoredWebhook(id);
+    const client = this.osService.getClient();
+
+    await client.delete({
+      index: TODO_WEBHOOKS_INDEX_NAME,
+      id,
+      refresh: "wait_for",
+    });
+
+    this.webhooks = null;
+    this.logger.info(`Deleted webhook: ${id}`);
+  }
+
+  /**
+   * Latest deliveries, newest first, optionally of one webhook
+   */
+  public async listDeliveries(
+    webhookId?: string,
+    size = 50
+  ): Promise<WebhookDelivery[]> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: webhookId
+          ? { bool: { filter: [{ term: { webhookId } }] } }
+          : { match_all: {} },
+        sort: [{ createdAt: { order: "desc", unmapped_type: "date" } }],
+        size,
+      },
+    });
+
+    return response.body.hits.hits.map(
+      (hit: any) => hit._source as WebhookDelivery
+    );
+  }
+
+  /**
+   * Send a `ping` event to a webhook right away, whatever its events
+   * The delivery is retried like any other when the attempt fails.
+   */
+  public async sendTestEvent(
+    id: string,
+    actor: string
+  ): Promise<WebhookDelivery> {
+    const webhook = await this.getStoredWebhook(id);
+    const delivery = await this.queue(webhook, WebhookEvent.PING, {}, actor);
+    return this.attempt(delivery, webhook);
+  }
+
+  /**
+   * Queue a delivery of the event for every enabled webhook subscribed to
+   * it, then make the first attempts in the background
+   * The write that raised the event has already happened, so failures are
+   * logged instead of thrown.
+   */
+  public async emit(
+    event: WebhookEvent,
+    data: WebhookEventData,
+    actor: string
+  ): Promise<void> {
+    try {
+      const webhooks = (await this.loadWebhooks()).filter(
+        (webhook) => webhook.enabled && webhook.events.includes(event)
+      );
+
+      for (const webhook of webhooks) {
+        const delivery = await this.queue(webhook, event, data, actor);
+        this.track(this.attempt(delivery, webhook));
+      }
+    } catch (error) {
+      this.logger.error(`Failed to queue webhooks of ${event}`, error);
+    }
+  }
+
+  /**
+   * Resolves once the attempts started by emit are done
+   */
+  public async waitForDeliveries(): Promise<void> {
+    await Promise.all(this.inFlight);
+  }
+
+  /**
+   * Attempt the pending deliveries whose retry is due
+   * Returns the number of deliveries attempted.
+   */
+  public async deliverDue(now = new Date()): Promise<number> {
+    const client = this.osService.getClient();
+
+    const response = await client.search({
+      index: TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        query: {
+          bool: {
+            filter: [
+              { term: { status: WebhookDeliveryStatus.PENDING } },
+              { range: { nextAttemptAt: { lte: now.toISOString() } } },
+            ],
+          },
+        },
+        sort: [{ nextAttemptAt: { order: "asc", unmapped_type: "date" } }],
+        size: MAX_DUE_DELIVERIES,
+      },
+    });
+    const deliveries: WebhookDelivery[] = response.body.hits.hits.map(
+      (hit: any) => hit._source
+    );
+    if (deliveries.length === 0) {
+      return 0;
+    }
+
+    const webhooks = new Map(
+      (await this.loadWebhooks()).map((webhook) => [webhook.id, webhook])
+    );
+    for (const delivery of deliveries) {
+      await this.attempt(delivery, webhooks.get(delivery.webhookId));
+    }
+
+    this.logger.info(`Retried ${deliveries.length} webhook deliveries`);
+    return deliveries.length;
+  }
+
+  // Store a pending delivery; its first retry is due if the attempt made
+  // right after never records its outcome
+  private async queue(
+    webhook: StoredWebhook,
+    event: WebhookEvent,
+    data: WebhookEventData,
+    actor: string
+  ): Promise<WebhookDelivery> {
+    const now = new Date();
+    const id = uuidv4();
+    const delivery: WebhookDelivery = {
+      id,
+      webhookId: webhook.id,
+      event,
+      url: webhook.url,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      payload: { id, event, timestamp: now.toISOString(), actor, ...data },
+      createdAt: now.toISOString(),
+      nextAttemptAt: new Date(now.getTime() + getRetryDelay(1)).toISOString(),
+    };
+
+    await this.saveDelivery(delivery);
+    return delivery;
+  }
+
+  /**
+   * Send a delivery once and record the outcome
+   * Deliveries of webhooks that were deleted or disabled since fail without
+   * being sent.
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    webhook: StoredWebhook | undefined
+  ): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    if (!webhook || !webhook.enabled) {
+      error = webhook ? "Webhook is disabled" : "Webhook was deleted";
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      try {
+        responseStatus = await postJson(delivery.url, body, {
+          "User-Agent": "security-todo-webhooks",
+          "X-Todo-Event": delivery.event,
+          "X-Todo-Delivery": delivery.id,
+          ...(webhook.secret && {
+            "X-Todo-Signature": signPayload(body, webhook.secret),
+          }),
+        });
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Endpoint answered with HTTP ${responseStatus}`;
+        }
+      } catch (e: any) {
+        error = e.message;
+      }
+    }
+
+    const retry =
+      !!error && !!webhook?.enabled && attempts < WEBHOOK_MAX_ATTEMPTS;
+    const updated: WebhookDelivery = {
+      ...delivery,
+      status: !error
+        ? WebhookDeliveryStatus.SUCCEEDED
+        : retry
+        ? WebhookDeliveryStatus.PENDING
+        : WebhookDeliveryStatus.FAILED,
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: retry
+        ? new Date(now.getTime() + getRetryDelay(attempts)).toISOString()
+        : undefined,
+    };
+
+    try {
+      await this.saveDelivery(updated);
+    } catch (e) {
+      this.logger.error(`Failed to record webhook delivery ${delivery.id}`, e);
+    }
+    if (error) {
+      this.logger.warn(`Webhook delivery ${delivery.id} failed: ${error}`);
+    }
+    return updated;
+  }
+
+  private track(attempt: Promise<unknown>): void {
+    const done = attempt.catch((error) =>
+      this.logger.error("Webhook delivery failed", error)
+    );
+    this.inFlight.push(done);
+    done.then(() => {
+      this.inFlight = this.inFlight.filter((pending) => pending !== done);
+    });
+  }
+
+  // Webhooks are read again after a while, as the schedulers keep their
+  // service for the lifetime of the plugin
+  private loadWebhooks(): Promise<StoredWebhook[]> {
+    const expired = Date.now() - this.webhooksReadAt > WEBHOOK_CACHE_MS;
+    if (this.webhooks && !expired) {
+      return this.webhooks;
+    }
+
+    const webhooks = this.osService
+      .getClient()
+      .search({
+        index: TODO_WEBHOOKS_INDEX_NAME,
+        ignore_unavailable: true,
+        body: {
+          sort: [{ "name.keyword": { order: "asc", unmapped_type: "keyword" } }],
+          size: MAX_WEBHOOKS,
+        },
+      })
+      .then((response) =>
+        response.body.hits.hits.map(
+          (hit: any) => hit._source as StoredWebhook
+        )
+      );
+    this.webhooks = webhooks;
+    this.webhooksReadAt = Date.now();
+    // A failed read is retried on the next call
+    webhooks.catch(() => {
+      this.webhooks = null;
+    });
+    return webhooks;
+  }
+
+  private async getStoredWebhook(id: string): Promise<StoredWebhook> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_WEBHOOKS_INDEX_NAME,
+        id,
+      });
+      return response.body._source as StoredWebhook;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        throw new Error(`Webhook not found: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  private async saveWebhook(webhook: StoredWebhook): Promise<void> {
+    await this.osService.getClient().index({
+      index: TODO_WEBHOOKS_INDEX_NAME,
+      id: webhook.id,
+      body: webhook,
+      refresh: "wait_for",
+    });
+    this.webhooks = null;
+  }
+
+  // Deliveries are replaced as a whole so cleared fields are removed
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.osService.getClient().index({
+      index: TODO_WEBHOOK_DELIVERIES_INDEX_NAME,
+      id: delivery.id,
+      body: delivery,
+    });
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Tests for WorkflowService - Configurable statuses and transitions
+ */
+import { WorkflowService, WorkflowValidationError } from './workflow.service';
+import { OpenSearchService } from './opensearch.service';
+import { Logger } from 'src/core/server';
+import {
+  TodoStatus,
+  WorkflowDefinition,
+  WorkflowStatusCategory,
+} from '../../common/types';
+import { TODO_WORKFLOW_INDEX_NAME } from '../../common/constants';
+import { DEFAULT_WORKFLOW } from '../../common/workflow';
+
+// Mock OpenSearch client
+const mockClient = {
+  index: jest.fn(),
+  get: jest.fn(),
+  search: jest.fn(),
+};
+
+const mockOsService = {
+  ensureIndex: jest.fn(),
+  getClient: jest.fn().mockReturnValue(mockClient),
+} as unknown as OpenSearchService;
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const notFound = () =>
+  Object.assign(new Error('Not found'), { statusCode: 404 });
+
+// Default workflow with an extra review step
+const reviewWorkflow: WorkflowDefinition = {
+  statuses: [
+    ...DEFAULT_WORKFLOW.statuses,
+    {
+      id: 'in_review',
+      label: 'In Review',
+      color: 'accent',
+      icon: 'eye',
+      category: WorkflowStatusCategory.ACTIVE,
+    },
+  ],
+  initialStatus: TodoStatus.PLANNED,
+  transitions: {
+    ...DEFAULT_WORKFLOW.transitions,
+    in_review: [TodoStatus.COMPLETED_SUCCESS, 'in_review'],
+  },
+};
+
+describe('WorkflowService', () => {
+  let service: WorkflowService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockOsService.ensureIndex as jest.Mock).mockResolvedValue(undefined);
+    service = new WorkflowService(mockOsService, mockLogger);
+  });
+
+  describe('getWorkflow', () => {
+    it('should fall back to the default workflow', async () => {
+      mockClient.get.mockRejectedValue(notFound());
+
+      expect(await service.getWorkflow()).toBe(DEFAULT_WORKFLOW);
+    });
+
+    it('should read the stored workflow once', async () => {
+      mockClient.get.mockResolvedValue({ body: { _source: reviewWorkflow } });
+
+      await service.getWorkflow();
+      const workflow = await service.getWorkflow();
+
+      expect(workflow.statuses).toHaveLength(6);
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.get).toHaveBeenCalledWith(
+        expect.objectContaining({ index: TODO_WORKFLOW_INDEX_NAME })
+      );
+    });
+
+    it('should not keep a failed read', async () => {
+      mockClient.get.mockRejectedValueOnce(new Error('Cluster down'));
+      mockClient.get.mockRejectedValueOnce(notFound());
+
+      await expect(service.getWorkflow()).rejects.toThrow('Cluster down');
+      expect(await service.getWorkflow()).toBe(DEFAULT_WORKFLOW);
+    });
+  });
+
+  describe('updateWorkflow', () => {
+    beforeEach(() => {
+      mockClient.get.mockRejectedValue(notFound());
+      mockClient.index.mockResolvedValue({});
+    });
+
+    it('should save a normalized workflow', async () => {
+      const saved = await service.updateWorkflow(reviewWorkflow, 'alice');
+
+      expect(saved.updatedBy).toBe('alice');
+      // Self transitions are dropped
+      expect(saved.transitions.in_review).toEqual([
+        TodoStatus.COMPLETED_SUCCESS,
+      ]);
+      expect(mockClient.index).toHaveBeenCalledWith(
+        expect.objectContaining({ index: TODO_WORKFLOW_INDEX_NAME })
+      );
+      expect(await service.getWorkflow()).toBe(saved);
+    });
+
+    it('should reject duplicate status ids', async () => {
+      const workflow = {
+        ...reviewWorkflow,
+        statuses: [...reviewWorkflow.statuses, reviewWorkflow.statuses[0]],
+      };
+
+      await expect(service.updateWorkflow(workflow, 'alice')).rejects.toThrow(
+        `Duplicate status: ${TodoStatus.PLANNED}`
+      );
+    });
+
+    it('should reject transitions to unknown statuses', async () => {
+      const workflow = {
+        ...reviewWorkflow,
+        transitions: { ...reviewWorkflow.transitions, in_review: ['missing'] },
+      };
+
+      await expect(service.updateWorkflow(workflow, 'alice')).rejects.toThrow(
+        WorkflowValidationError
+      );
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+
+    it('should not remove statuses that still have items', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          aggregations: {
+            by_status: {
+              buckets: [{ key: TodoStatus.BLOCKED, doc_count: 3 }],
+            },
+          },
+        },
+      });
+      const statuses = DEFAULT_WORKFLOW.statuses.filter(
+        (status) => status.id !== TodoStatus.BLOCKED
+      );
+      const workflow = {
+        statuses,
+        initialStatus: TodoStatus.PLANNED,
+        transitions: {},
+      };
+
+      await expect(service.updateWorkflow(workflow, 'alice')).rejects.toThrow(
+        'Cannot remove statuses that still have items: "Blocked" (3)'
+      );
+      expect(mockClient.index).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertTransition', () => {
+    beforeEach(() => {
+      mockClient.get.mockResolvedValue({ body: { _source: reviewWorkflow } });
+    });
+
+    it('should allow unchanged statuses', async () => {
+      await expect(
+        service.assertTransition(
+          { status: 'in_review' },
+          { status: 'in_review', title: 'Renamed' }
+        )
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject unknown statuses', async () => {
+      await expect(
+        service.assertTransition(undefined, { status: 'missing' })
+      ).rejects.toThrow('Unknown status: missing');
+    });
+
+    it('should reject transitions that are not allowed', async () => {
+      await expect(
+        service.assertTransition(
+          { status: 'in_review' },
+          { status: TodoStatus.PLANNED }
+        )
+      ).rejects.toThrow('Cannot move from "In Review" to "To Do"');
+    });
+
+    it('should require the fields of the target status', async () => {
+      await expect(
+        service.assertTransition(
+          { status: TodoStatus.IN_PROGRESS },
+          { status: TodoStatus.COMPLETED_ERROR, errorDetails: '  ' }
+        )
+      ).rejects.toThrow('"Error" requires: Error details');
+
+      await expect(
+        service.assertTransition(
+          { status: TodoStatus.IN_PROGRESS },
+          { status: TodoStatus.COMPLETED_ERROR, errorDetails: 'Timeout' }
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
+});
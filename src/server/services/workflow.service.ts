@@ -0,0 +1,221 @@
+import { Logger } from "src/core/server";
+import { OpenSearchService } from "./opensearch.service";
+import { TodoItem, WorkflowDefinition } from "../../common/types";
+import {
+  DEFAULT_WORKFLOW,
+  WORKFLOW_REQUIRED_FIELD_LABELS,
+  getWorkflowStatus,
+  getStatusLabel,
+  isTransitionAllowed,
+  getMissingRequiredFields,
+} from "../../common/workflow";
+import {
+  TODO_INDEX_NAME,
+  TODO_WORKFLOW_INDEX_NAME,
+} from "../../common/constants";
+
+// The plugin keeps a single workflow shared by all items
+const WORKFLOW_DOC_ID = "default";
+
+/**
+ * Thrown when a workflow definition is invalid or an item change breaks it
+ */
+export class WorkflowValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowValidationError";
+  }
+}
+
+export class WorkflowService {
+  private workflow: Promise<WorkflowDefinition> | null = null;
+
+  constructor(
+    private readonly osService: OpenSearchService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Get the active workflow, falling back to the default one
+   * The definition is read once per service instance.
+   */
+  public getWorkflow(): Promise<WorkflowDefinition> {
+    if (!this.workflow) {
+      this.workflow = this.loadWorkflow();
+      // Do not keep a failed read around for later calls
+      this.workflow.catch(() => {
+        this.workflow = null;
+      });
+    }
+    return this.workflow;
+  }
+
+  private async loadWorkflow(): Promise<WorkflowDefinition> {
+    const client = this.osService.getClient();
+
+    try {
+      const response = await client.get({
+        index: TODO_WORKFLOW_INDEX_NAME,
+        id: WORKFLOW_DOC_ID,
+      });
+
+      return response.body._source as WorkflowDefinition;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return DEFAULT_WORKFLOW;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and store a new workflow definition
+   * Statuses that are still used by items cannot be removed.
+   */
+  public async updateWorkflow(
+    definition: WorkflowDefinition,
+    actor: string
+  ): Promise<WorkflowDefinition> {
+    const client = this.osService.getClient();
+    const workflow = this.normalizeDefinition(definition);
+    const current = await this.getWorkflow();
+
+    const removedIds = current.statuses
+      .filter((status) => !getWorkflowStatus(workflow, status.id))
+      .map((status) => status.id);
+    await this.assertStatusesUnused(current, removedIds);
+
+    const saved: WorkflowDefinition = {
+      ...workflow,
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor,
+    };
+
+    await this.osService.ensureIndex();
+    await client.index({
+      index: TODO_WORKFLOW_INDEX_NAME,
+      id: WORKFLOW_DOC_ID,
+      body: saved,
+      refresh: "wait_for",
+    });
+
+    this.workflow = Promise.resolve(saved);
+    this.logger.info(`Updated workflow with ${saved.statuses.length} statuses`);
+    return saved;
+  }
+
+  /**
+   * Check that a TODO item may be written with its new status
+   * Only status changes are checked: the status must exist, be reachable
+   * from the previous one and have all of its required fields filled.
+   */
+  public async assertTransition(
+    before: Partial<TodoItem> | undefined,
+    after: Partial<TodoItem>
+  ): Promise<void> {
+    if (!after.status || (before && before.status === after.status)) {
+      return;
+    }
+
+    const workflow = await this.getWorkflow();
+    const target = getWorkflowStatus(workflow, after.status);
+
+    if (!target) {
+      throw new WorkflowValidationError(`Unknown status: ${after.status}`);
+    }
+
+    if (
+      before?.status &&
+      !isTransitionAllowed(workflow, before.status, after.status)
+    ) {
+      throw new WorkflowValidationError(
+        `Cannot move from "${getStatusLabel(workflow, before.status)}" ` +
+          `to "${target.label}"`
+      );
+    }
+
+    const missing = getMissingRequiredFields(workflow, after, target.id);
+    if (missing.length > 0) {
+      const labels = missing.map(
+        (field) => WORKFLOW_REQUIRED_FIELD_LABELS[field]
+      );
+      throw new WorkflowValidationError(
+        `"${target.label}" requires: ${labels.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Check the definition for consistency and fill in missing transitions
+   */
+  private normalizeDefinition(
+    definition: WorkflowDefinition
+  ): WorkflowDefinition {
+    const ids = definition.statuses.map((status) => status.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+
+    if (duplicate) {
+      throw new WorkflowValidationError(`Duplicate status: ${duplicate}`);
+    }
+    if (!ids.includes(definition.initialStatus)) {
+      throw new WorkflowValidationError(
+        `Unknown initial status: ${definition.initialStatus}`
+      );
+    }
+
+    const transitions: Record<string, string[]> = {};
+    Object.entries(definition.transitions).forEach(([from, targets]) => {
+      const unknown = [from, ...targets].find((id) => !ids.includes(id));
+      if (unknown) {
+        throw new WorkflowValidationError(
+          `Transition refers to unknown status: ${unknown}`
+        );
+      }
+    });
+    ids.forEach((id) => {
+      const targets = definition.transitions[id] || [];
+      transitions[id] = Array.from(new Set(targets)).filter(
+        (target) => target !== id
+      );
+    });
+
+    return {
+      statuses: definition.statuses,
+      initialStatus: definition.initialStatus,
+      transitions,
+    };
+  }
+
+  private async assertStatusesUnused(
+    workflow: WorkflowDefinition,
+    statusIds: string[]
+  ): Promise<void> {
+    if (statusIds.length === 0) {
+      return;
+    }
+
+    const client = this.osService.getClient();
+    const response = await client.search({
+      index: TODO_INDEX_NAME,
+      ignore_unavailable: true,
+      body: {
+        size: 0,
+        query: { terms: { status: statusIds } },
+        aggs: {
+          by_status: { terms: { field: "status", size: statusIds.length } },
+        },
+      },
+    });
+
+    const inUse = (response.body.aggregations?.by_status?.buckets || []).map(
+      (bucket: any) =>
+        `"${getStatusLabel(workflow, bucket.key)}" (${bucket.doc_count})`
+    );
+
+    if (inUse.length > 0) {
+      throw new WorkflowValidationError(
+        `Cannot remove statuses that still have items: ${inUse.join(", ")}`
+      );
+    }
+  }
+}
@@ -1,4 +1,17 @@
+import { Observable } from "rxjs";
+
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface CustomPluginPluginSetup {}
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface CustomPluginPluginStart {}
+
+/**
+ * Setup contract of the security plugin, as far as this plugin reads it
+ */
+export interface SecurityPluginSetup {
+  config$: Observable<{ readonly_mode?: { roles?: string[] } }>;
+}
+
+export interface CustomPluginPluginSetupDeps {
+  securityDashboards?: SecurityPluginSetup;
+}
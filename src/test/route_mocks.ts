@@ -0,0 +1,90 @@
+/**
+ * Stand-ins for the HTTP service of Dashboards, to call route handlers
+ * without a server. Requests reach the handlers as given, without the route
+ * validation.
+ */
+import { Logger } from 'src/core/server';
+import { TodoRole } from '../common/types';
+import { TodoPluginConfigType } from '../server/config';
+
+type RouteHandler = (context: any, request: any, response: any) => any;
+
+export const mockConfig: TodoPluginConfigType = {
+  permissions: {
+    adminRoles: ['all_access'],
+    editorRoles: [],
+    readOnlyRoles: ['kibana_read_only'],
+    defaultRole: TodoRole.EDITOR,
+  },
+  users: { fallback: [] },
+};
+
+export const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+/**
+ * Router keeping the handler of each route, keyed by method and path
+ */
+export const createMockRouter = () => {
+  const handlers = new Map<string, RouteHandler>();
+  const register =
+    (method: string) => (route: { path: string }, handler: RouteHandler) =>
+      handlers.set(`${method} ${route.path}`, handler);
+
+  return {
+    router: {
+      get: register('GET'),
+      post: register('POST'),
+      put: register('PUT'),
+      delete: register('DELETE'),
+    } as any,
+    getHandler: (method: string, path: string): RouteHandler => {
+      const handler = handlers.get(`${method} ${path}`);
+      if (!handler) {
+        throw new Error(`No route for ${method} ${path}`);
+      }
+      return handler;
+    },
+  };
+};
+
+// Responses come back as their status code and body
+const respond =
+  (status: number) =>
+  ({ body }: { body?: any } = {}) => ({ status, body });
+
+export const mockResponse = {
+  ok: respond(200),
+  badRequest: respond(400),
+  forbidden: respond(403),
+  notFound: respond(404),
+  conflict: respond(409),
+  customError: ({ statusCode, body }: { statusCode: number; body?: any }) => ({
+    status: statusCode,
+    body,
+  }),
+};
+
+/**
+ * Request context whose OpenSearch client answers for a user with the given
+ * security roles, e.g. `kibana_read_only` for a viewer
+ */
+export const createMockContext = (
+  roles: string[],
+  client: Record<string, any> = {}
+) => {
+  const transport = {
+    request: jest.fn().mockResolvedValue({
+      body: { user_name: 'alice', roles, backend_roles: [] },
+    }),
+  };
+  return {
+    core: {
+      opensearch: { client: { asCurrentUser: { transport, ...client } } },
+    },
+  };
+};